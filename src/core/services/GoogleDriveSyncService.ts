@@ -7,13 +7,15 @@
  * Stores folders, prompts, and starred messages as separate files:
  * - gemini-voyager-folders.json
  * - gemini-voyager-prompts.json
- * - gemini-voyager-starred.json
+ * - gemini-voyager-starred.json (starred messages and timeline annotations)
+ * - gemini-voyager-timeline-outline.json (timeline marker levels and collapsed markers)
  */
 import type { FolderData } from '@/core/types/folder';
 import type {
   FolderExportPayload,
   ForkExportPayload,
   ForkNodesDataSync,
+  PromptCollection,
   PromptExportPayload,
   PromptItem,
   StarredExportPayload,
@@ -21,8 +23,11 @@ import type {
   SyncMode,
   SyncPlatform,
   SyncState,
+  TimelineOutlineDataSync,
+  TimelineOutlineExportPayload,
 } from '@/core/types/sync';
 import { DEFAULT_SYNC_STATE } from '@/core/types/sync';
+import { DEFAULT_ACCOUNT_ID } from '@/core/utils/geminiAccount';
 import { EXTENSION_VERSION } from '@/core/utils/version';
 
 const FOLDERS_FILE_NAME = 'gemini-voyager-folders.json';
@@ -30,10 +35,30 @@ const AISTUDIO_FOLDERS_FILE_NAME = 'gemini-voyager-aistudio-folders.json';
 const PROMPTS_FILE_NAME = 'gemini-voyager-prompts.json';
 const STARRED_FILE_NAME = 'gemini-voyager-starred.json';
 const FORKS_FILE_NAME = 'gemini-voyager-forks.json';
+const TIMELINE_OUTLINE_FILE_NAME = 'gemini-voyager-timeline-outline.json';
+/**
+ * Drive file holding a Gemini account's folder tree. The default account keeps the
+ * original file name so existing backups stay in use.
+ */
+function getFoldersFileName(accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID
+    ? FOLDERS_FILE_NAME
+    : `gemini-voyager-folders-u${accountId}.json`;
+}
+
 const BACKUP_FOLDER_NAME = 'Gemini Voyager Data';
 const DRIVE_API_BASE = 'https://www.googleapis.com/drive/v3';
 const DRIVE_UPLOAD_BASE = 'https://www.googleapis.com/upload/drive/v3';
 
+type SyncFileType =
+  | 'folders'
+  | 'aistudio-folders'
+  | 'account-folders'
+  | 'prompts'
+  | 'starred'
+  | 'forks'
+  | 'timeline-outline';
+
 // Retry configuration
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY_MS = 1000;
@@ -46,9 +71,11 @@ export class GoogleDriveSyncService {
   private state: SyncState = { ...DEFAULT_SYNC_STATE };
   private foldersFileId: string | null = null;
   private aistudioFoldersFileId: string | null = null;
+  private accountFoldersFileIds = new Map<string, string>(); // Keyed by file name
   private promptsFileId: string | null = null;
   private starredFileId: string | null = null;
   private forksFileId: string | null = null;
+  private timelineOutlineFileId: string | null = null;
   private backupFolderId: string | null = null;
   private stateChangeCallback: ((state: SyncState) => void) | null = null;
   private accessToken: string | null = null;
@@ -112,9 +139,11 @@ export class GoogleDriveSyncService {
     }
     await this.clearToken();
     this.foldersFileId = null;
+    this.accountFoldersFileIds.clear();
     this.promptsFileId = null;
     this.starredFileId = null;
     this.forksFileId = null;
+    this.timelineOutlineFileId = null;
     this.backupFolderId = null;
     this.updateState({ isAuthenticated: false, lastSyncTime: null, error: null });
     await this.saveState();
@@ -127,6 +156,10 @@ export class GoogleDriveSyncService {
    * @param starred Starred messages (only for Gemini platform)
    * @param interactive Whether to show auth prompt if needed
    * @param platform Platform to upload for ('gemini' | 'aistudio')
+   * @param forks Fork nodes (only for Gemini platform)
+   * @param promptCollections Prompt collection tree, stored alongside prompts
+   * @param accountId Gemini account (`/u/<n>/`) the folder tree belongs to
+   * @param timelineOutline Timeline marker levels and collapsed markers (only for Gemini platform)
    */
   async upload(
     folders: FolderData,
@@ -135,6 +168,9 @@ export class GoogleDriveSyncService {
     interactive: boolean = true,
     platform: SyncPlatform = 'gemini',
     forks: ForkNodesDataSync | null = null,
+    promptCollections: PromptCollection[] = [],
+    accountId: string = DEFAULT_ACCOUNT_ID,
+    timelineOutline: TimelineOutlineDataSync | null = null,
   ): Promise<boolean> {
     try {
       this.updateState({ isSyncing: true, error: null });
@@ -155,7 +191,7 @@ export class GoogleDriveSyncService {
 
       // Create folder payload
       const folderPayload: FolderExportPayload = {
-        format: 'gemini-voyager.folders.v1',
+        format: 'gemini-voyager.folders.v2',
         exportedAt: now.toISOString(),
         version: EXTENSION_VERSION,
         data: folders,
@@ -163,19 +199,21 @@ export class GoogleDriveSyncService {
 
       // Create prompt payload
       const promptPayload: PromptExportPayload = {
-        format: 'gemini-voyager.prompts.v1',
+        format: 'gemini-voyager.prompts.v2',
         exportedAt: now.toISOString(),
         version: EXTENSION_VERSION,
         items: prompts,
+        collections: promptCollections,
       };
 
-      // Upload folders file (platform-specific)
+      // Upload folders file (platform- and account-specific)
       const foldersFileName =
-        platform === 'aistudio' ? AISTUDIO_FOLDERS_FILE_NAME : FOLDERS_FILE_NAME;
-      const foldersType = platform === 'aistudio' ? 'aistudio-folders' : 'folders';
+        platform === 'aistudio' ? AISTUDIO_FOLDERS_FILE_NAME : getFoldersFileName(accountId);
+      let foldersType: SyncFileType = 'folders';
+      if (platform === 'aistudio') foldersType = 'aistudio-folders';
+      else if (accountId !== DEFAULT_ACCOUNT_ID) foldersType = 'account-folders';
       await this.ensureFileId(token, foldersFileName, foldersType);
-      const foldersFileIdToUse =
-        platform === 'aistudio' ? this.aistudioFoldersFileId! : this.foldersFileId!;
+      const foldersFileIdToUse = this.getFileIdForType(foldersType, foldersFileName)!;
       await this.uploadFileWithRetry(token, foldersFileIdToUse, folderPayload);
       console.log(`[GoogleDriveSyncService] ${platform} folders uploaded successfully`);
 
@@ -189,8 +227,10 @@ export class GoogleDriveSyncService {
       // Upload starred messages file (only for Gemini platform)
       if (platform === 'gemini' && starred) {
         // Truncate content in starred messages to save storage space
+        // (turn annotations are stored in the same file)
         const MAX_CONTENT_LENGTH = 60;
         const truncatedStarred: StarredMessagesDataSync = {
+          ...starred,
           messages: Object.fromEntries(
             Object.entries(starred.messages).map(([convId, messages]) => [
               convId,
@@ -229,6 +269,18 @@ export class GoogleDriveSyncService {
         console.log('[GoogleDriveSyncService] Fork nodes uploaded successfully');
       }
 
+      // Upload timeline outline file (only for Gemini platform)
+      if (platform === 'gemini' && timelineOutline) {
+        const outlinePayload: TimelineOutlineExportPayload = {
+          format: 'gemini-voyager.timeline-outline.v1',
+          exportedAt: now.toISOString(),
+          version: EXTENSION_VERSION,
+          data: timelineOutline,
+        };
+        await this.ensureFileId(token, TIMELINE_OUTLINE_FILE_NAME, 'timeline-outline');
+        await this.uploadFileWithRetry(token, this.timelineOutlineFileId!, outlinePayload);
+      }
+
       const uploadTime = Date.now();
       // Update platform-specific upload time
       if (platform === 'aistudio') {
@@ -256,15 +308,18 @@ export class GoogleDriveSyncService {
    * Returns { folders, prompts, starred } or null if no files exist
    * @param interactive Whether to show auth prompt if needed
    * @param platform Platform to download for ('gemini' | 'aistudio')
+   * @param accountId Gemini account (`/u/<n>/`) whose folder tree to download
    */
   async download(
     interactive: boolean = true,
     platform: SyncPlatform = 'gemini',
+    accountId: string = DEFAULT_ACCOUNT_ID,
   ): Promise<{
     folders: FolderExportPayload | null;
     prompts: PromptExportPayload | null;
     starred: StarredExportPayload | null;
     forks: ForkExportPayload | null;
+    timelineOutline: TimelineOutlineExportPayload | null;
   } | null> {
     try {
       this.updateState({ isSyncing: true, error: null });
@@ -281,9 +336,9 @@ export class GoogleDriveSyncService {
         throw new Error('Not authenticated');
       }
 
-      // Download folders file (platform-specific)
+      // Download folders file (platform- and account-specific)
       const foldersFileName =
-        platform === 'aistudio' ? AISTUDIO_FOLDERS_FILE_NAME : FOLDERS_FILE_NAME;
+        platform === 'aistudio' ? AISTUDIO_FOLDERS_FILE_NAME : getFoldersFileName(accountId);
       const foldersFileId = await this.findFile(token, foldersFileName);
       let folders: FolderExportPayload | null = null;
       if (foldersFileId) {
@@ -319,7 +374,16 @@ export class GoogleDriveSyncService {
         }
       }
 
-      if (!folders && !prompts && !starred && !forks) {
+      // Download timeline outline file (only for Gemini platform)
+      let timelineOutline: TimelineOutlineExportPayload | null = null;
+      if (platform === 'gemini') {
+        const outlineFileId = await this.findFile(token, TIMELINE_OUTLINE_FILE_NAME);
+        if (outlineFileId) {
+          timelineOutline = await this.downloadFileWithRetry(token, outlineFileId);
+        }
+      }
+
+      if (!folders && !prompts && !starred && !forks && !timelineOutline) {
         console.log(`[GoogleDriveSyncService] No sync files found for ${platform}`);
         this.updateState({ isSyncing: false });
         return null;
@@ -334,7 +398,7 @@ export class GoogleDriveSyncService {
       }
       await this.saveState();
 
-      return { folders, prompts, starred, forks };
+      return { folders, prompts, starred, forks, timelineOutline };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Download failed';
       console.error('[GoogleDriveSyncService] Download failed:', error);
@@ -561,23 +625,12 @@ export class GoogleDriveSyncService {
     return result.files?.[0]?.id || null;
   }
 
-  private async ensureFileId(
-    token: string,
-    fileName: string,
-    type: 'folders' | 'aistudio-folders' | 'prompts' | 'starred' | 'forks',
-  ): Promise<void> {
+  private async ensureFileId(token: string, fileName: string, type: SyncFileType): Promise<void> {
     // 1. Ensure backup folder exists
     const folderId = await this.ensureBackupFolder(token);
 
     // 2. Check if we have a valid cached file ID
-    const fileIdMap: Record<string, string | null> = {
-      folders: this.foldersFileId,
-      'aistudio-folders': this.aistudioFoldersFileId,
-      prompts: this.promptsFileId,
-      starred: this.starredFileId,
-      forks: this.forksFileId,
-    };
-    const currentId = fileIdMap[type];
+    const currentId = this.getFileIdForType(type, fileName);
 
     if (currentId) {
       const parents = await this.getFileParents(token, currentId);
@@ -597,7 +650,7 @@ export class GoogleDriveSyncService {
     const existingId = await this.findFile(token, fileName);
     if (existingId) {
       // Found existing file
-      this.setFileIdForType(type, existingId);
+      this.setFileIdForType(type, existingId, fileName);
 
       // Check if it needs moving
       const parents = await this.getFileParents(token, existingId);
@@ -611,13 +664,23 @@ export class GoogleDriveSyncService {
     // 4. Create new file in the backup folder
     console.log(`[GoogleDriveSyncService] Creating new file ${fileName} in backup folder`);
     const newId = await this.createFile(token, fileName, folderId);
-    this.setFileIdForType(type, newId);
+    this.setFileIdForType(type, newId, fileName);
   }
 
-  private setFileIdForType(
-    type: 'folders' | 'aistudio-folders' | 'prompts' | 'starred' | 'forks',
-    fileId: string,
-  ): void {
+  private getFileIdForType(type: SyncFileType, fileName: string): string | null {
+    const fileIdMap: Record<SyncFileType, string | null> = {
+      folders: this.foldersFileId,
+      'aistudio-folders': this.aistudioFoldersFileId,
+      'account-folders': this.accountFoldersFileIds.get(fileName) ?? null,
+      prompts: this.promptsFileId,
+      starred: this.starredFileId,
+      forks: this.forksFileId,
+      'timeline-outline': this.timelineOutlineFileId,
+    };
+    return fileIdMap[type];
+  }
+
+  private setFileIdForType(type: SyncFileType, fileId: string, fileName: string): void {
     switch (type) {
       case 'folders':
         this.foldersFileId = fileId;
@@ -634,6 +697,12 @@ export class GoogleDriveSyncService {
       case 'forks':
         this.forksFileId = fileId;
         break;
+      case 'timeline-outline':
+        this.timelineOutlineFileId = fileId;
+        break;
+      case 'account-folders':
+        this.accountFoldersFileIds.set(fileName, fileId);
+        break;
     }
   }
 
@@ -1,48 +1,163 @@
 /**
- * KeyboardShortcutService - Manages keyboard shortcuts for timeline navigation
+ * KeyboardShortcutService - Registry of keyboard shortcuts for all features
  *
  * Design Patterns:
  * - Singleton: Ensures single instance across application
  * - Strategy: Configurable shortcut matching strategies
- * - Observer: Event-based callback system
+ * - Registry: Features register handlers per action
  *
  * Features:
- * - Configurable shortcuts with modifier keys
+ * - Configurable shortcuts with modifier keys, any action can be left unbound
  * - Chrome storage integration for persistence
  * - Type-safe action handling
- * - Collision detection with browser shortcuts
+ * - Conflict detection between actions
  */
 import { StorageKeys } from '@/core/types/common';
-import type {
-  KeyboardShortcut,
-  KeyboardShortcutConfig,
-  KeyboardShortcutStorage,
-  ModifierKey,
-  ShortcutAction,
-  ShortcutMatch,
+import {
+  type KeyboardShortcut,
+  type KeyboardShortcutConfig,
+  type KeyboardShortcutStorage,
+  type ModifierKey,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type ShortcutMatch,
 } from '@/core/types/keyboardShortcut';
 
+const MODIFIER_ORDER: ModifierKey[] = ['Alt', 'Ctrl', 'Shift', 'Meta'];
+
 /**
  * Default keyboard shortcuts configuration
- * Using vim-style j/k (convenient, no modifiers needed)
+ * Using vim-style j/k (convenient, no modifiers needed) for navigation and `?` for the
+ * cheat sheet, which lists everything else; the remaining actions are opt-in from the
+ * shortcut settings
  */
 const DEFAULT_SHORTCUTS: KeyboardShortcutConfig = {
-  previous: {
-    action: 'timeline:previous',
-    modifiers: [],
-    key: 'k',
-  },
-  next: {
-    action: 'timeline:next',
-    modifiers: [],
-    key: 'j',
-  },
+  'timeline:previous': { action: 'timeline:previous', modifiers: [], key: 'k' },
+  'timeline:next': { action: 'timeline:next', modifiers: [], key: 'j' },
+  'timeline:top': null,
+  'timeline:bottom': null,
+  'timeline:toggleStar': null,
+  'prompt:togglePanel': null,
+  'export:open': null,
+  'fork:currentTurn': null,
+  'folder:focusSearch': null,
+  'quote:selection': null,
+  'help:cheatSheet': { action: 'help:cheatSheet', modifiers: [], key: '?' },
 };
 
+/**
+ * Copy of the default configuration
+ */
+export function getDefaultShortcutConfig(): KeyboardShortcutConfig {
+  return { ...DEFAULT_SHORTCUTS };
+}
+
+/**
+ * Validate individual shortcut
+ */
+function isValidShortcut(shortcut: unknown): shortcut is KeyboardShortcut {
+  if (!shortcut || typeof shortcut !== 'object') return false;
+  const { modifiers, key } = shortcut as Partial<KeyboardShortcut>;
+  return (
+    Array.isArray(modifiers) &&
+    modifiers.every((m) => MODIFIER_ORDER.includes(m)) &&
+    typeof key === 'string' &&
+    key.length > 0
+  );
+}
+
+/**
+ * Bring a shortcut into canonical form so equal key presses compare equal:
+ * legacy arrow names are expanded, letters are lower-cased (Shift stays a modifier),
+ * and Shift is dropped for symbols like `?` whose Shift state depends on the keyboard layout
+ */
+export function normalizeShortcut(shortcut: KeyboardShortcut): KeyboardShortcut {
+  const legacyArrows: Record<string, string> = {
+    Up: 'ArrowUp',
+    Down: 'ArrowDown',
+    Left: 'ArrowLeft',
+    Right: 'ArrowRight',
+  };
+  let key = legacyArrows[shortcut.key] ?? shortcut.key;
+  const isSingleChar = key.length === 1;
+  const isLetter = isSingleChar && key.toLowerCase() !== key.toUpperCase();
+  if (isLetter) key = key.toLowerCase();
+
+  const modifiers = MODIFIER_ORDER.filter(
+    (m) => shortcut.modifiers.includes(m) && !(m === 'Shift' && isSingleChar && !isLetter),
+  );
+  return { action: shortcut.action, modifiers, key };
+}
+
+/**
+ * Whether two shortcuts are triggered by the same key press
+ */
+export function isSameShortcut(a: KeyboardShortcut, b: KeyboardShortcut): boolean {
+  const na = normalizeShortcut(a);
+  const nb = normalizeShortcut(b);
+  return (
+    na.key === nb.key &&
+    na.modifiers.length === nb.modifiers.length &&
+    na.modifiers.every((m) => nb.modifiers.includes(m))
+  );
+}
+
+/**
+ * Find another action already bound to the same key press, or null when the shortcut is free
+ */
+export function findShortcutConflict(
+  config: KeyboardShortcutConfig,
+  action: ShortcutAction,
+  shortcut: KeyboardShortcut,
+): ShortcutAction | null {
+  for (const { action: other } of SHORTCUT_ACTIONS) {
+    if (other === action) continue;
+    const bound = config[other];
+    if (bound && isSameShortcut(bound, shortcut)) return other;
+  }
+  return null;
+}
+
+/**
+ * Build a complete configuration from stored data
+ * Accepts the legacy `{ previous, next }` shape; actions missing from storage get their
+ * default unless that default is already taken by a stored shortcut, invalid entries
+ * fall back to defaults
+ */
+export function resolveShortcutConfig(stored: unknown): KeyboardShortcutConfig {
+  const raw: Record<string, unknown> =
+    stored && typeof stored === 'object' ? { ...(stored as Record<string, unknown>) } : {};
+  if (!('timeline:previous' in raw) && 'previous' in raw) raw['timeline:previous'] = raw.previous;
+  if (!('timeline:next' in raw) && 'next' in raw) raw['timeline:next'] = raw.next;
+
+  const config = getDefaultShortcutConfig();
+  const missing: ShortcutAction[] = [];
+  for (const { action } of SHORTCUT_ACTIONS) {
+    if (!(action in raw)) {
+      missing.push(action);
+      continue;
+    }
+    const value = raw[action];
+    if (value === null) {
+      config[action] = null;
+    } else if (isValidShortcut(value)) {
+      config[action] = normalizeShortcut({ ...value, action });
+    }
+  }
+
+  for (const action of missing) {
+    const fallback = config[action];
+    if (fallback && findShortcutConflict(config, action, fallback)) {
+      config[action] = null;
+    }
+  }
+  return config;
+}
+
 /**
  * Callback type for shortcut actions
  */
-export type ShortcutCallback = (action: ShortcutAction, event: KeyboardEvent) => void;
+export type ShortcutHandler = (event: KeyboardEvent) => void;
 
 /**
  * KeyboardShortcutService class
@@ -53,14 +168,15 @@ export class KeyboardShortcutService {
 
   private config: KeyboardShortcutConfig;
   private enabled: boolean = true;
-  private listeners: Set<ShortcutCallback> = new Set();
+  private handlers: Map<ShortcutAction, Set<ShortcutHandler>> = new Map();
+  private initPromise: Promise<void> | null = null;
   private keydownHandler: ((e: KeyboardEvent) => void) | null = null;
   private storageChangeHandler:
-    | ((changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void)
-    | null = null;
+    ((changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void) | null =
+    null;
 
   private constructor() {
-    this.config = DEFAULT_SHORTCUTS;
+    this.config = getDefaultShortcutConfig();
   }
 
   /**
@@ -75,11 +191,17 @@ export class KeyboardShortcutService {
 
   /**
    * Initialize service: load config and attach listeners
+   * Safe to call from every feature; the work is done once
    */
-  async init(): Promise<void> {
-    await this.loadConfig();
-    this.attachKeyboardListener();
-    this.attachStorageListener();
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        await this.loadConfig();
+        this.attachKeyboardListener();
+        this.attachStorageListener();
+      })();
+    }
+    return this.initPromise;
   }
 
   /**
@@ -87,36 +209,32 @@ export class KeyboardShortcutService {
    */
   private async loadConfig(): Promise<void> {
     try {
+      let stored: KeyboardShortcutStorage | undefined;
       if (typeof chrome !== 'undefined' && chrome.storage?.sync) {
         const result = await chrome.storage.sync.get(StorageKeys.TIMELINE_SHORTCUTS);
-        const stored = result[StorageKeys.TIMELINE_SHORTCUTS] as
-          | KeyboardShortcutStorage
-          | undefined;
-
-        if (stored?.shortcuts) {
-          this.config = this.validateConfig(stored.shortcuts)
-            ? stored.shortcuts
-            : DEFAULT_SHORTCUTS;
-          this.enabled = stored.enabled ?? true;
-        }
+        stored = result[StorageKeys.TIMELINE_SHORTCUTS] as KeyboardShortcutStorage | undefined;
       } else {
         // Fallback to localStorage
-        const stored = localStorage.getItem(StorageKeys.TIMELINE_SHORTCUTS);
-        if (stored) {
-          const parsed = JSON.parse(stored) as KeyboardShortcutStorage;
-          this.config = this.validateConfig(parsed.shortcuts)
-            ? parsed.shortcuts
-            : DEFAULT_SHORTCUTS;
-          this.enabled = parsed.enabled ?? true;
-        }
+        const raw = localStorage.getItem(StorageKeys.TIMELINE_SHORTCUTS);
+        stored = raw ? (JSON.parse(raw) as KeyboardShortcutStorage) : undefined;
       }
+      this.applyStorage(stored);
     } catch (error) {
       console.warn('[KeyboardShortcut] Failed to load config, using defaults:', error);
-      this.config = DEFAULT_SHORTCUTS;
+      this.config = getDefaultShortcutConfig();
       this.enabled = true;
     }
   }
 
+  /**
+   * Apply stored data (also written by older versions with only previous/next)
+   */
+  private applyStorage(stored: KeyboardShortcutStorage | undefined): void {
+    if (!stored?.shortcuts) return;
+    this.config = resolveShortcutConfig(stored.shortcuts);
+    this.enabled = stored.enabled ?? true;
+  }
+
   /**
    * Save configuration to chrome storage
    */
@@ -125,6 +243,7 @@ export class KeyboardShortcutService {
       throw new Error('Invalid shortcut configuration');
     }
 
+    config = this.normalizeConfig(config);
     this.config = config;
     this.enabled = enabled;
 
@@ -146,33 +265,28 @@ export class KeyboardShortcutService {
   }
 
   /**
-   * Validate shortcut configuration
+   * Validate shortcut configuration: every action is unbound or has a valid shortcut,
+   * and no two actions share a shortcut
    */
   private validateConfig(config: KeyboardShortcutConfig): boolean {
     try {
-      return !!(
-        config.previous &&
-        config.next &&
-        this.isValidShortcut(config.previous) &&
-        this.isValidShortcut(config.next)
-      );
+      return SHORTCUT_ACTIONS.every(({ action }) => {
+        const shortcut = config[action];
+        if (shortcut === null) return true;
+        return isValidShortcut(shortcut) && !findShortcutConflict(config, action, shortcut);
+      });
     } catch {
       return false;
     }
   }
 
-  /**
-   * Validate individual shortcut
-   */
-  private isValidShortcut(shortcut: KeyboardShortcut): boolean {
-    const validModifiers: ModifierKey[] = ['Alt', 'Ctrl', 'Shift', 'Meta'];
-
-    return (
-      Array.isArray(shortcut.modifiers) &&
-      shortcut.modifiers.every((m) => validModifiers.includes(m)) &&
-      typeof shortcut.key === 'string' &&
-      shortcut.key.length > 0
-    );
+  private normalizeConfig(config: KeyboardShortcutConfig): KeyboardShortcutConfig {
+    const normalized = getDefaultShortcutConfig();
+    SHORTCUT_ACTIONS.forEach(({ action }) => {
+      const shortcut = config[action];
+      normalized[action] = shortcut ? normalizeShortcut({ ...shortcut, action }) : null;
+    });
+    return normalized;
   }
 
   /**
@@ -188,10 +302,11 @@ export class KeyboardShortcutService {
       if (this.isTypingInInputField(event)) return;
 
       const match = this.matchShortcut(event);
-      if (match) {
+      // Keys of actions no feature handles on this page are left to the page
+      if (match && this.hasHandler(match.action)) {
         event.preventDefault();
         event.stopPropagation();
-        this.notifyListeners(match.action, event);
+        this.notifyHandlers(match.action, event);
       }
     };
 
@@ -217,19 +332,14 @@ export class KeyboardShortcutService {
    * Attach storage change listener for cross-tab sync
    */
   private attachStorageListener(): void {
+    if (this.storageChangeHandler) return;
     if (typeof chrome !== 'undefined' && chrome.storage?.onChanged) {
       this.storageChangeHandler = (changes, areaName) => {
         if (areaName !== 'sync') return;
         if (changes[StorageKeys.TIMELINE_SHORTCUTS]) {
-          const newValue = changes[StorageKeys.TIMELINE_SHORTCUTS].newValue as
-            | KeyboardShortcutStorage
-            | undefined;
-          if (newValue?.shortcuts) {
-            this.config = this.validateConfig(newValue.shortcuts)
-              ? newValue.shortcuts
-              : DEFAULT_SHORTCUTS;
-            this.enabled = newValue.enabled ?? true;
-          }
+          this.applyStorage(
+            changes[StorageKeys.TIMELINE_SHORTCUTS].newValue as KeyboardShortcutStorage | undefined,
+          );
         }
       };
 
@@ -241,14 +351,9 @@ export class KeyboardShortcutService {
    * Match keyboard event to shortcut (Strategy Pattern)
    */
   private matchShortcut(event: KeyboardEvent): ShortcutMatch | null {
-    const shortcuts = [
-      { action: 'timeline:previous' as const, config: this.config.previous },
-      { action: 'timeline:next' as const, config: this.config.next },
-    ];
-
-    // Check if any shortcut matches
-    for (const { action, config } of shortcuts) {
-      if (this.isShortcutPressed(event, config)) {
+    for (const { action } of SHORTCUT_ACTIONS) {
+      const shortcut = this.config[action];
+      if (shortcut && this.isShortcutPressed(event, shortcut)) {
         return { action, event };
       }
     }
@@ -260,50 +365,53 @@ export class KeyboardShortcutService {
    * Check if specific shortcut is pressed
    */
   private isShortcutPressed(event: KeyboardEvent, shortcut: KeyboardShortcut): boolean {
-    // Check key match
-    if (event.key !== shortcut.key) return false;
-
-    // Check modifier matches
-    const hasAlt = shortcut.modifiers.includes('Alt');
-    const hasCtrl = shortcut.modifiers.includes('Ctrl');
-    const hasShift = shortcut.modifiers.includes('Shift');
-    const hasMeta = shortcut.modifiers.includes('Meta');
-
-    return (
-      event.altKey === hasAlt &&
-      event.ctrlKey === hasCtrl &&
-      event.shiftKey === hasShift &&
-      event.metaKey === hasMeta
-    );
+    const modifiers: ModifierKey[] = [];
+    if (event.altKey) modifiers.push('Alt');
+    if (event.ctrlKey) modifiers.push('Ctrl');
+    if (event.shiftKey) modifiers.push('Shift');
+    if (event.metaKey) modifiers.push('Meta');
+
+    return isSameShortcut({ action: shortcut.action, modifiers, key: event.key }, shortcut);
   }
 
   /**
-   * Notify all registered listeners (Observer Pattern)
+   * Call the handlers registered for an action
    */
-  private notifyListeners(action: ShortcutAction, event: KeyboardEvent): void {
-    this.listeners.forEach((callback) => {
+  private notifyHandlers(action: ShortcutAction, event: KeyboardEvent): void {
+    this.handlers.get(action)?.forEach((handler) => {
       try {
-        callback(action, event);
+        handler(event);
       } catch (error) {
-        console.error('[KeyboardShortcut] Error in listener callback:', error);
+        console.error('[KeyboardShortcut] Error in handler for', action, error);
       }
     });
   }
 
   /**
-   * Register a shortcut callback
+   * Register a handler for an action; starts listening for shortcuts if needed
+   * Returns an unregister function
    */
-  on(callback: ShortcutCallback): () => void {
-    this.listeners.add(callback);
-    // Return unsubscribe function
-    return () => this.off(callback);
+  register(action: ShortcutAction, handler: ShortcutHandler): () => void {
+    let set = this.handlers.get(action);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(action, set);
+    }
+    set.add(handler);
+    void this.init();
+
+    return () => {
+      const current = this.handlers.get(action);
+      current?.delete(handler);
+      if (current?.size === 0) this.handlers.delete(action);
+    };
   }
 
   /**
-   * Unregister a shortcut callback
+   * Whether any feature on this page handles the action
    */
-  off(callback: ShortcutCallback): void {
-    this.listeners.delete(callback);
+  hasHandler(action: ShortcutAction): boolean {
+    return (this.handlers.get(action)?.size ?? 0) > 0;
   }
 
   /**
@@ -320,7 +428,7 @@ export class KeyboardShortcutService {
    * Reset to default shortcuts
    */
   async resetToDefaults(): Promise<void> {
-    await this.saveConfig(DEFAULT_SHORTCUTS, true);
+    await this.saveConfig(getDefaultShortcutConfig(), true);
   }
 
   /**
@@ -349,13 +457,17 @@ export class KeyboardShortcutService {
       Escape: 'Esc',
     };
 
-    const key = keySymbols[shortcut.key] || shortcut.key;
+    const normalized = normalizeShortcut(shortcut);
+    const isShiftedLetter = normalized.modifiers.includes('Shift') && normalized.key.length === 1;
+    const key =
+      keySymbols[normalized.key] ||
+      (isShiftedLetter ? normalized.key.toUpperCase() : normalized.key);
 
-    if (shortcut.modifiers.length === 0) {
+    if (normalized.modifiers.length === 0) {
       return key;
     }
 
-    const parts = [...shortcut.modifiers, key];
+    const parts = [...normalized.modifiers, key];
     return parts.join(' + ');
   }
 
@@ -373,7 +485,8 @@ export class KeyboardShortcutService {
       this.storageChangeHandler = null;
     }
 
-    this.listeners.clear();
+    this.handlers.clear();
+    this.initPromise = null;
   }
 }
 
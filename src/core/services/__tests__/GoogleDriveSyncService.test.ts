@@ -226,3 +226,61 @@ describe('GoogleDriveSyncService authentication', () => {
     expect(launchWebAuthFlowMock).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('GoogleDriveSyncService account folder files', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ files: [] }),
+      text: async () => '',
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function downloadFileNames(accountId?: string): Promise<string[]> {
+    const chromeMock = createChromeMock();
+    (globalThis as { chrome: MockedChrome }).chrome = chromeMock;
+    const getAuthTokenMock = chromeMock.identity.getAuthToken as unknown as ReturnType<
+      typeof vi.fn
+    >;
+    getAuthTokenMock.mockImplementation(
+      (_details: { interactive?: boolean }, callback: (token?: string) => void) => {
+        callback('token');
+      },
+    );
+
+    const GoogleDriveSyncService = await loadServiceClass();
+    const service = new GoogleDriveSyncService();
+    await service.download(true, 'gemini', accountId);
+
+    return fetchMock.mock.calls
+      .map(([url]) => decodeURIComponent(String(url)).match(/name='([^']+)'/)?.[1])
+      .filter((name): name is string => !!name);
+  }
+
+  it('keeps the original folders file for the default account', async () => {
+    const names = await downloadFileNames();
+    expect(names).toContain('gemini-voyager-folders.json');
+    expect(names).not.toContain('gemini-voyager-folders-u0.json');
+  });
+
+  it('reads a separate folders file for other accounts', async () => {
+    const names = await downloadFileNames('2');
+    expect(names).toContain('gemini-voyager-folders-u2.json');
+    expect(names).not.toContain('gemini-voyager-folders.json');
+    // Prompts are shared between accounts
+    expect(names).toContain('gemini-voyager-prompts.json');
+  });
+
+  it('reads the shared timeline outline file', async () => {
+    const names = await downloadFileNames('2');
+    expect(names).toContain('gemini-voyager-timeline-outline.json');
+  });
+});
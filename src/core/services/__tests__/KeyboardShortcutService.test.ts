@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { StorageKeys } from '../../types/common';
+import {
+  findShortcutConflict,
+  getDefaultShortcutConfig,
+  isSameShortcut,
+  keyboardShortcutService,
+  normalizeShortcut,
+  resolveShortcutConfig,
+} from '../KeyboardShortcutService';
+
+function pressKey(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  document.body.dispatchEvent(event);
+  return event;
+}
+
+describe('shortcut helpers', () => {
+  it('lower-cases letters and keeps Shift as a modifier', () => {
+    expect(
+      normalizeShortcut({ action: 'timeline:bottom', modifiers: ['Shift'], key: 'G' }),
+    ).toEqual({ action: 'timeline:bottom', modifiers: ['Shift'], key: 'g' });
+  });
+
+  it('ignores Shift for symbols whose Shift state depends on the layout', () => {
+    expect(
+      isSameShortcut(
+        { action: 'help:cheatSheet', modifiers: ['Shift'], key: '?' },
+        { action: 'help:cheatSheet', modifiers: [], key: '?' },
+      ),
+    ).toBe(true);
+    expect(
+      isSameShortcut(
+        { action: 'timeline:top', modifiers: [], key: 'g' },
+        { action: 'timeline:bottom', modifiers: ['Shift'], key: 'G' },
+      ),
+    ).toBe(false);
+  });
+
+  it('expands legacy arrow key names and orders modifiers', () => {
+    expect(
+      normalizeShortcut({ action: 'timeline:next', modifiers: ['Shift', 'Alt'], key: 'Down' }),
+    ).toEqual({ action: 'timeline:next', modifiers: ['Alt', 'Shift'], key: 'ArrowDown' });
+  });
+
+  it('finds the action already bound to a shortcut', () => {
+    const config = getDefaultShortcutConfig();
+    expect(
+      findShortcutConflict(config, 'export:open', {
+        action: 'export:open',
+        modifiers: ['Shift'],
+        key: 'J',
+      }),
+    ).toBeNull();
+    expect(
+      findShortcutConflict(config, 'export:open', {
+        action: 'export:open',
+        modifiers: [],
+        key: 'j',
+      }),
+    ).toBe('timeline:next');
+    // Rebinding an action to its own shortcut is not a conflict
+    expect(
+      findShortcutConflict(config, 'timeline:next', {
+        action: 'timeline:next',
+        modifiers: [],
+        key: 'j',
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('resolveShortcutConfig', () => {
+  it('migrates the legacy previous/next configuration', () => {
+    const config = resolveShortcutConfig({
+      previous: { action: 'timeline:previous', modifiers: ['Alt'], key: 'ArrowUp' },
+      next: { action: 'timeline:next', modifiers: ['Alt'], key: 'ArrowDown' },
+    });
+
+    expect(config['timeline:previous']).toEqual({
+      action: 'timeline:previous',
+      modifiers: ['Alt'],
+      key: 'ArrowUp',
+    });
+    expect(config['timeline:next']?.key).toBe('ArrowDown');
+    expect(config['export:open']).toBeNull();
+  });
+
+  it('leaves the single-key actions beyond j/k and ? unbound by default', () => {
+    const config = resolveShortcutConfig({});
+
+    expect(config['timeline:next']?.key).toBe('j');
+    expect(config['timeline:top']).toBeNull();
+    expect(config['timeline:bottom']).toBeNull();
+    expect(config['timeline:toggleStar']).toBeNull();
+    expect(config['help:cheatSheet']?.key).toBe('?');
+  });
+
+  it('keeps unbound actions and falls back to defaults for invalid entries', () => {
+    const config = resolveShortcutConfig({
+      'timeline:top': null,
+      'timeline:next': { action: 'timeline:next', modifiers: ['Hyper'], key: 'n' },
+    });
+
+    expect(config['timeline:top']).toBeNull();
+    expect(config['timeline:next']?.key).toBe('j');
+  });
+
+  it('drops a default that collides with a stored shortcut', () => {
+    const config = resolveShortcutConfig({
+      'timeline:previous': { action: 'timeline:previous', modifiers: [], key: 'j' },
+    });
+
+    expect(config['timeline:previous']?.key).toBe('j');
+    expect(config['timeline:next']).toBeNull();
+  });
+});
+
+describe('KeyboardShortcutService', () => {
+  beforeEach(async () => {
+    vi.mocked(chrome.storage.sync.get).mockResolvedValue({} as never);
+    vi.mocked(chrome.storage.sync.set).mockResolvedValue(undefined as never);
+    await keyboardShortcutService.init();
+    await keyboardShortcutService.saveConfig(getDefaultShortcutConfig(), true);
+  });
+
+  afterEach(() => {
+    keyboardShortcutService.destroy();
+    vi.clearAllMocks();
+  });
+
+  it('calls the handlers registered for the pressed shortcut', async () => {
+    await keyboardShortcutService.saveConfig({
+      ...getDefaultShortcutConfig(),
+      'timeline:top': { action: 'timeline:top', modifiers: [], key: 'g' },
+      'timeline:bottom': { action: 'timeline:bottom', modifiers: ['Shift'], key: 'g' },
+    });
+    const onTop = vi.fn();
+    const onBottom = vi.fn();
+    keyboardShortcutService.register('timeline:top', onTop);
+    keyboardShortcutService.register('timeline:bottom', onBottom);
+
+    const event = pressKey('G', { shiftKey: true });
+
+    expect(onBottom).toHaveBeenCalledTimes(1);
+    expect(onTop).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it('leaves keys of actions without a handler to the page', () => {
+    const event = pressKey('j');
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it('leaves unbound single keys to the page even when the action has a handler', () => {
+    const onStar = vi.fn();
+    keyboardShortcutService.register('timeline:toggleStar', onStar);
+
+    const event = pressKey('s');
+
+    expect(onStar).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it('stops calling a handler once it is unregistered', () => {
+    const onNext = vi.fn();
+    const unregister = keyboardShortcutService.register('timeline:next', onNext);
+    unregister();
+
+    pressKey('j');
+
+    expect(onNext).not.toHaveBeenCalled();
+    expect(keyboardShortcutService.hasHandler('timeline:next')).toBe(false);
+  });
+
+  it('ignores shortcuts while typing in an input', () => {
+    const onNext = vi.fn();
+    keyboardShortcutService.register('timeline:next', onNext);
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'j', bubbles: true }));
+
+    expect(onNext).not.toHaveBeenCalled();
+    input.remove();
+  });
+
+  it('matches rebound shortcuts and unbound actions never fire', async () => {
+    const onExport = vi.fn();
+    const onNext = vi.fn();
+    keyboardShortcutService.register('export:open', onExport);
+    keyboardShortcutService.register('timeline:next', onNext);
+
+    await keyboardShortcutService.saveConfig({
+      ...getDefaultShortcutConfig(),
+      'export:open': { action: 'export:open', modifiers: ['Alt'], key: 'e' },
+      'timeline:next': null,
+    });
+    pressKey('e', { altKey: true });
+    pressKey('j');
+
+    expect(onExport).toHaveBeenCalledTimes(1);
+    expect(onNext).not.toHaveBeenCalled();
+    expect(chrome.storage.sync.set).toHaveBeenLastCalledWith({
+      [StorageKeys.TIMELINE_SHORTCUTS]: expect.objectContaining({ enabled: true }),
+    });
+  });
+
+  it('refuses to save two actions bound to the same shortcut', async () => {
+    await expect(
+      keyboardShortcutService.saveConfig({
+        ...getDefaultShortcutConfig(),
+        'export:open': { action: 'export:open', modifiers: [], key: 'k' },
+      }),
+    ).rejects.toThrow('Invalid shortcut configuration');
+  });
+
+  it('formats shifted letters in upper case', () => {
+    expect(
+      keyboardShortcutService.formatShortcut({
+        action: 'timeline:bottom',
+        modifiers: ['Shift'],
+        key: 'g',
+      }),
+    ).toBe('Shift + G');
+  });
+});
@@ -36,6 +36,8 @@ export const StorageKeys = {
   // Folder system
   FOLDER_DATA: 'gvFolderData',
   FOLDER_DATA_AISTUDIO: 'gvFolderDataAIStudio',
+  FOLDER_ACCOUNTS: 'gvFolderAccounts',
+  FOLDER_ACCOUNTS_MIGRATED: 'gvFolderAccountsMigrated',
 
   // Timeline
   TIMELINE_SCROLL_MODE: 'geminiTimelineScrollMode',
@@ -44,6 +46,12 @@ export const StorageKeys = {
   TIMELINE_POSITION: 'geminiTimelinePosition',
   TIMELINE_STARRED_MESSAGES: 'geminiTimelineStarredMessages',
   TIMELINE_SHORTCUTS: 'geminiTimelineShortcuts',
+  // Timeline outline (chrome.storage.local, versioned: bump the suffix on format changes)
+  TIMELINE_MARKER_LEVELS: 'gvTimelineMarkerLevels.v1',
+  TIMELINE_COLLAPSED_MARKERS: 'gvTimelineCollapsedMarkers.v1',
+  TIMELINE_PREVIEW_OUTLINE_VIEW: 'gvTimelinePreviewOutlineView',
+  // Last active turn per conversation (chrome.storage.local)
+  TIMELINE_READING_POSITIONS: 'gvTimelineReadingPositions.v1',
 
   // UI customization
   CHAT_WIDTH: 'geminiChatWidth',
@@ -54,6 +62,10 @@ export const StorageKeys = {
   PROMPT_PANEL_POSITION: 'gvPromptPanelPosition',
   PROMPT_TRIGGER_POSITION: 'gvPromptTriggerPosition',
   PROMPT_CUSTOM_WEBSITES: 'gvPromptCustomWebsites',
+  PROMPT_SLASH_COMMAND_ENABLED: 'gvPromptSlashCommandEnabled',
+  PROMPT_SLASH_COMMAND_PREFIX: 'gvPromptSlashCommandPrefix',
+  PROMPT_COLLECTIONS: 'gvPromptCollections',
+  PROMPT_SORT_MODE: 'gvPromptSortMode',
 
   // Global settings
   LANGUAGE: 'language',
@@ -85,6 +97,10 @@ export const StorageKeys = {
   // Fork nodes
   FORK_NODES: 'gvForkNodes',
   FORK_ENABLED: 'gvForkEnabled',
+
+  // Export profiles and the profile last used per folder id
+  EXPORT_PROFILES: 'gvExportProfiles',
+  EXPORT_PROFILE_BY_FOLDER: 'gvExportProfileByFolder',
 } as const;
 
 export type StorageKey = (typeof StorageKeys)[keyof typeof StorageKeys];
@@ -26,11 +26,75 @@ export interface ConversationReference {
   gemId?: string;
   starred?: boolean; // Whether this conversation is starred in the folder
   customTitle?: boolean; // Whether title was manually renamed in folder (don't auto-sync from native)
+  tagIds?: string[]; // Ids of tags from FolderData.tags
+  note?: string;
 }
 
+export interface ConversationTag {
+  readonly id: string;
+  name: string;
+  color: string; // Folder colour palette id
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Rule deciding whether a saved conversation belongs to a smart folder
+ * - title: title matches a regular expression
+ * - gem: conversation uses the given Gem (any Gem when gemId is omitted)
+ * - starred: conversation is starred in its folder
+ * - recentlyOpened: conversation was opened within the last `days` days
+ * - hasForks: conversation has fork branches
+ */
+export type SmartFolderRule =
+  | { type: 'title'; pattern: string; flags?: string }
+  | { type: 'gem'; gemId?: string }
+  | { type: 'starred' }
+  | { type: 'recentlyOpened'; days: number }
+  | { type: 'hasForks' };
+
+export type SmartFolderRuleType = SmartFolderRule['type'];
+
+/**
+ * Rule-driven folder; shared by the content script and the import/export and sync code.
+ * Ids are plain strings since smart folders are created and validated in the content script.
+ */
+export interface SmartFolder {
+  readonly id: string;
+  name: string;
+  rules: SmartFolderRule[];
+  match: 'all' | 'any'; // Whether every rule or at least one rule must match
+  isExpanded: boolean;
+  pinned?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TrashedFolder {
+  readonly id: string;
+  type: 'folder';
+  deletedAt: number;
+  folders: Folder[]; // The deleted folder first, then its descendants
+  folderContents: Record<string, ConversationReference[]>;
+}
+
+export interface TrashedConversation {
+  readonly id: string;
+  type: 'conversation';
+  deletedAt: number;
+  folderId: string; // Folder (or root pseudo folder) it was removed from
+  conversation: ConversationReference;
+}
+
+export type TrashEntry = TrashedFolder | TrashedConversation;
+
 export interface FolderData {
   folders: Folder[];
   folderContents: Record<string, ConversationReference[]>;
+  smartFolders?: SmartFolder[]; // Rule-driven folders, contents computed from folderContents
+  tags?: ConversationTag[]; // Tag definitions referenced by ConversationReference.tagIds
+  trash?: TrashEntry[]; // Deleted folders and removed conversations, restorable for a while
+  purgedTrash?: Record<string, number>; // Trash entry id -> when it left the trash for good
 }
 
 export type DragDataType = 'conversation' | 'folder';
@@ -21,8 +21,42 @@ export type ShortcutKey = string;
 
 /**
  * Shortcut action types
+ * Features register handlers for these actions with the keyboard shortcut service
  */
-export type ShortcutAction = 'timeline:previous' | 'timeline:next';
+export type ShortcutAction =
+  | 'timeline:previous'
+  | 'timeline:next'
+  | 'timeline:top'
+  | 'timeline:bottom'
+  | 'timeline:toggleStar'
+  | 'prompt:togglePanel'
+  | 'export:open'
+  | 'fork:currentTurn'
+  | 'folder:focusSearch'
+  | 'quote:selection'
+  | 'help:cheatSheet';
+
+/**
+ * Groups used to list actions in settings and in the cheat sheet
+ */
+export type ShortcutGroup = 'timeline' | 'tools' | 'help';
+
+/**
+ * Every shortcut action in display order
+ */
+export const SHORTCUT_ACTIONS: ReadonlyArray<{ action: ShortcutAction; group: ShortcutGroup }> = [
+  { action: 'timeline:previous', group: 'timeline' },
+  { action: 'timeline:next', group: 'timeline' },
+  { action: 'timeline:top', group: 'timeline' },
+  { action: 'timeline:bottom', group: 'timeline' },
+  { action: 'timeline:toggleStar', group: 'timeline' },
+  { action: 'prompt:togglePanel', group: 'tools' },
+  { action: 'export:open', group: 'tools' },
+  { action: 'fork:currentTurn', group: 'tools' },
+  { action: 'folder:focusSearch', group: 'tools' },
+  { action: 'quote:selection', group: 'tools' },
+  { action: 'help:cheatSheet', group: 'help' },
+];
 
 /**
  * Individual keyboard shortcut configuration
@@ -43,8 +77,14 @@ export interface ShortcutMatch {
 
 /**
  * Complete shortcuts configuration (single set, user-customizable)
+ * An action mapped to null has no shortcut
+ */
+export type KeyboardShortcutConfig = Record<ShortcutAction, KeyboardShortcut | null>;
+
+/**
+ * Configuration stored before shortcuts covered more than timeline navigation
  */
-export interface KeyboardShortcutConfig {
+export interface LegacyKeyboardShortcutConfig {
   previous: KeyboardShortcut;
   next: KeyboardShortcut;
 }
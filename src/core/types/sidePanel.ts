@@ -0,0 +1,67 @@
+/**
+ * Side panel messaging types
+ * The side panel connects to the content script of the active tab with a runtime port:
+ * the content script pushes snapshots of the timeline and folders, the panel sends commands.
+ */
+import type { MarkerLevel } from '@/pages/content/timeline/types';
+
+export const SIDE_PANEL_PORT_NAME = 'gv.sidePanel';
+
+export interface SidePanelTurn {
+  id: string;
+  index: number;
+  /** Timeline label of the turn, else its prompt summary */
+  text: string;
+  starred: boolean;
+  level: MarkerLevel;
+}
+
+export interface SidePanelTimeline {
+  conversationId: string;
+  turns: SidePanelTurn[];
+  activeTurnId: string | null;
+  /** Whether marker levels are turned on in the popup */
+  levelsEnabled: boolean;
+}
+
+export interface SidePanelConversation {
+  conversationId: string;
+  title: string;
+  url: string;
+}
+
+export interface SidePanelFolder {
+  id: string;
+  name: string;
+  color?: string;
+  pinned: boolean;
+  folders: SidePanelFolder[];
+  conversations: SidePanelConversation[];
+}
+
+export interface SidePanelFolderTree {
+  folders: SidePanelFolder[];
+  /** Conversations filed at the top level */
+  conversations: SidePanelConversation[];
+  /** Conversation open in the tab, null on pages without one */
+  currentConversationId: string | null;
+}
+
+/**
+ * Messages pushed by the content script. Snapshots are null when the feature is not
+ * running on the page.
+ */
+export type SidePanelUpdate =
+  | { type: 'timeline'; timeline: SidePanelTimeline | null }
+  | { type: 'folders'; folders: SidePanelFolderTree | null }
+  | { type: 'promptInserted'; promptId: string; inserted: boolean };
+
+/**
+ * Commands sent by the side panel
+ */
+export type SidePanelCommand =
+  | { type: 'navigateToTurn'; turnId: string }
+  | { type: 'toggleStar'; turnId: string }
+  | { type: 'setLevel'; turnId: string; level: MarkerLevel }
+  | { type: 'addCurrentConversationToFolder'; folderId: string }
+  | { type: 'insertPrompt'; promptId: string; text: string };
@@ -43,6 +43,37 @@ export interface SyncState {
   isAuthenticated: boolean;
 }
 
+/**
+ * Input kind for a prompt template variable
+ * - text: single-line input
+ * - multiline: textarea input
+ * - choice: select from a fixed list of options
+ */
+export type PromptVariableType = 'text' | 'multiline' | 'choice';
+
+/**
+ * Typed definition for a `{{name}}` placeholder inside a prompt
+ */
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  /** Pre-filled value shown in the fill-in form */
+  defaultValue?: string;
+  /** Allowed values when type is 'choice' */
+  options?: string[];
+}
+
+/**
+ * Snapshot of a prompt's content before an edit or restore
+ */
+export interface PromptRevision {
+  text: string;
+  tags: string[];
+  variables?: PromptVariable[];
+  /** When this content was replaced (ms since epoch) */
+  savedAt: number;
+}
+
 /**
  * Prompt item structure (mirrored from prompt manager for type safety)
  */
@@ -52,13 +83,37 @@ export interface PromptItem {
   tags: string[];
   createdAt: number;
   updatedAt?: number;
+  /** Template variable definitions for `{{name}}` placeholders in text */
+  variables?: PromptVariable[];
+  /** Previous revisions, oldest first, bounded to MAX_PROMPT_REVISIONS */
+  history?: PromptRevision[];
+  /** Collection this prompt is filed under (null/undefined = unfiled) */
+  collectionId?: string | null;
+  /** Pinned prompts are listed above all others */
+  pinned?: boolean;
+  /** Number of times the prompt was copied or inserted */
+  usageCount?: number;
+  /** Last time the prompt was copied or inserted (ms since epoch) */
+  lastUsedAt?: number;
+}
+
+/**
+ * Nested prompt collection (mirrors the conversation Folder model)
+ */
+export interface PromptCollection {
+  readonly id: string;
+  name: string;
+  parentId: string | null;
+  isExpanded: boolean;
+  createdAt: number;
+  updatedAt: number;
 }
 
 /**
  * Folder export payload format (matches existing export format)
  */
 export interface FolderExportPayload {
-  format: 'gemini-voyager.folders.v1';
+  format: 'gemini-voyager.folders.v2';
   exportedAt: string;
   version: string;
   data: FolderData;
@@ -68,10 +123,12 @@ export interface FolderExportPayload {
  * Prompt export payload format (matches existing export format)
  */
 export interface PromptExportPayload {
-  format: 'gemini-voyager.prompts.v1';
+  format: 'gemini-voyager.prompts.v2';
   exportedAt: string;
   version?: string;
   items: PromptItem[];
+  /** Collection tree referenced by `PromptItem.collectionId` (optional for older exports) */
+  collections?: PromptCollection[];
 }
 /**
  * Re-export starred message types from their canonical source
@@ -110,6 +167,21 @@ export interface ForkExportPayload {
   data: import('@/pages/content/fork/forkTypes').ForkNodesData;
 }
 
+/**
+ * Re-export timeline outline types from their canonical source
+ */
+export type { TimelineOutlineData as TimelineOutlineDataSync } from '@/pages/content/timeline/outlineTypes';
+
+/**
+ * Timeline outline (marker levels + collapsed markers) export payload format
+ */
+export interface TimelineOutlineExportPayload {
+  format: 'gemini-voyager.timeline-outline.v1';
+  exportedAt: string;
+  version?: string;
+  data: import('@/pages/content/timeline/outlineTypes').TimelineOutlineData;
+}
+
 /**
  * Data payload synced to Google Drive
  * Uses embedded export formats for compatibility with import/export feature
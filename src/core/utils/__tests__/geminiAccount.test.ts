@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  detectAccountId,
+  detectAccountLabel,
+  getAccountIdFromPath,
+  getAccountIdFromUrl,
+  getFolderStorageKey,
+  resolveFolderAccountId,
+  setViewedAccountId,
+} from '../geminiAccount';
+
+function createDocument(html: string): Document {
+  const doc = document.implementation.createHTMLDocument('gemini');
+  doc.body.innerHTML = html;
+  return doc;
+}
+
+describe('gemini account ids', () => {
+  it('reads the account index from paths and URLs', () => {
+    expect(getAccountIdFromPath('/u/1/app/abc')).toBe('1');
+    expect(getAccountIdFromPath('/u/02')).toBe('2');
+    expect(getAccountIdFromPath('/app/abc')).toBeNull();
+    expect(getAccountIdFromUrl('https://gemini.google.com/u/3/app/abc')).toBe('3');
+    expect(getAccountIdFromUrl('https://gemini.google.com/app/abc')).toBeNull();
+    expect(getAccountIdFromUrl('not a url')).toBeNull();
+  });
+
+  it('keeps the legacy storage key for the default account', () => {
+    expect(getFolderStorageKey('0')).toBe('gvFolderData');
+    expect(getFolderStorageKey('2')).toBe('gvFolderData_u2');
+  });
+});
+
+describe('detectAccountId', () => {
+  it('prefers the page path', () => {
+    const doc = createDocument('<a href="/u/2/app/x">x</a>');
+    expect(detectAccountId('/u/1/app', doc)).toBe('1');
+  });
+
+  it('falls back to conversation links when they agree', () => {
+    const doc = createDocument('<a href="/u/2/app/x">x</a><a href="/u/2/app/y">y</a>');
+    expect(detectAccountId('/app', doc)).toBe('2');
+  });
+
+  it('uses the default account when links are missing or disagree', () => {
+    expect(detectAccountId('/app')).toBe('0');
+    const doc = createDocument('<a href="/u/1/app/x">x</a><a href="/u/2/app/y">y</a>');
+    expect(detectAccountId('/app', doc)).toBe('0');
+  });
+});
+
+describe('resolveFolderAccountId', () => {
+  afterEach(() => {
+    setViewedAccountId(null);
+    document.body.innerHTML = '';
+  });
+
+  it('uses the page hints, then the account the folder manager shows', () => {
+    document.body.innerHTML = '<a href="/u/2/app/x">x</a>';
+    expect(resolveFolderAccountId()).toBe('2');
+
+    setViewedAccountId('1');
+    expect(resolveFolderAccountId()).toBe('1');
+  });
+});
+
+describe('detectAccountLabel', () => {
+  it('extracts the email from the account button', () => {
+    const doc = createDocument(
+      '<a aria-label="Google Account: Ada (ada.lovelace@example.com)" href="#">me</a>',
+    );
+    expect(detectAccountLabel(doc)).toBe('ada.lovelace@example.com');
+    expect(detectAccountLabel(createDocument('<a aria-label="Menu">m</a>'))).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PromptItem } from '@/core/types/sync';
+
+import {
+  MAX_PROMPT_REVISIONS,
+  diffLines,
+  mergePromptHistory,
+  normalizePromptHistory,
+  recordPromptRevision,
+} from '../promptHistory';
+
+function prompt(text: string, extras: Partial<PromptItem> = {}): PromptItem {
+  return { id: 'p1', text, tags: [], createdAt: 1000, ...extras };
+}
+
+describe('promptHistory', () => {
+  describe('recordPromptRevision', () => {
+    it('snapshots the previous content when it changes', () => {
+      const item = prompt('old', { tags: ['a'] });
+      const history = recordPromptRevision(item, { text: 'new', tags: ['a'] }, 2000);
+      expect(history).toEqual([{ text: 'old', tags: ['a'], savedAt: 2000 }]);
+    });
+
+    it('does not record when nothing changed', () => {
+      const item = prompt('same', { tags: ['a'] });
+      expect(recordPromptRevision(item, { text: 'same', tags: ['a'] }, 2000)).toEqual([]);
+    });
+
+    it('keeps only the newest revisions', () => {
+      const history = Array.from({ length: MAX_PROMPT_REVISIONS }, (_, i) => ({
+        text: `v${i}`,
+        tags: [],
+        savedAt: i,
+      }));
+      const next = recordPromptRevision(prompt('current', { history }), { text: 'x', tags: [] });
+      expect(next).toHaveLength(MAX_PROMPT_REVISIONS);
+      expect(next[0].text).toBe('v1');
+      expect(next[next.length - 1].text).toBe('current');
+    });
+  });
+
+  describe('normalizePromptHistory', () => {
+    it('drops invalid entries and sorts by time', () => {
+      const history = normalizePromptHistory([
+        { text: 'b', tags: ['t'], savedAt: 20 },
+        { text: '', savedAt: 5 },
+        { text: 'a', savedAt: 10 },
+        'junk',
+      ]);
+      expect(history).toEqual([
+        { text: 'a', tags: [], savedAt: 10 },
+        { text: 'b', tags: ['t'], savedAt: 20 },
+      ]);
+    });
+
+    it('returns an empty list for non-arrays', () => {
+      expect(normalizePromptHistory(undefined)).toEqual([]);
+    });
+  });
+
+  describe('mergePromptHistory', () => {
+    it('keeps the losing copy as a revision', () => {
+      const winner = prompt('cloud edit', { updatedAt: 3000 });
+      const loser = prompt('local edit', { updatedAt: 2000 });
+      expect(mergePromptHistory(winner, loser)).toEqual([
+        { text: 'local edit', tags: [], savedAt: 2000 },
+      ]);
+    });
+
+    it('deduplicates shared revisions and skips content already known', () => {
+      const shared = { text: 'v1', tags: [], savedAt: 1500 };
+      const winner = prompt('v3', {
+        updatedAt: 3000,
+        history: [shared, { text: 'v2', tags: [], savedAt: 2500 }],
+      });
+      const loser = prompt('v2', { updatedAt: 2000, history: [shared] });
+      expect(mergePromptHistory(winner, loser).map((r) => r.text)).toEqual(['v1', 'v2']);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('marks added and removed lines', () => {
+      expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'same', text: 'c' },
+        { type: 'added', text: 'd' },
+      ]);
+    });
+
+    it('reports identical text as unchanged', () => {
+      expect(diffLines('x\ny', 'x\ny').every((line) => line.type === 'same')).toBe(true);
+    });
+  });
+});
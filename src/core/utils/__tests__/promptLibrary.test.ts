@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PromptCollection, PromptItem } from '@/core/types/sync';
+
+import {
+  canMoveCollection,
+  detachOrphanedPrompts,
+  getCollectionSubtreeIds,
+  normalizePromptCollections,
+  recordPromptUsage,
+  removePromptCollection,
+  sortPrompts,
+} from '../promptLibrary';
+
+function prompt(id: string, text: string, extras: Partial<PromptItem> = {}): PromptItem {
+  return { id, text, tags: [], createdAt: 1000, ...extras };
+}
+
+function collection(id: string, parentId: string | null = null): PromptCollection {
+  return { id, name: id, parentId, isExpanded: true, createdAt: 1000, updatedAt: 1000 };
+}
+
+describe('promptLibrary', () => {
+  describe('sortPrompts', () => {
+    const items = [
+      prompt('a', 'banana', { usageCount: 1, lastUsedAt: 300 }),
+      prompt('b', 'Apple', { usageCount: 5, lastUsedAt: 100 }),
+      prompt('c', 'cherry'),
+      prompt('d', 'date', { pinned: true }),
+    ];
+
+    it('keeps stored order by default with pinned prompts first', () => {
+      expect(sortPrompts(items, 'default').map((p) => p.id)).toEqual(['d', 'a', 'b', 'c']);
+    });
+
+    it('sorts by recent use, most used and alphabetically', () => {
+      expect(sortPrompts(items, 'recent').map((p) => p.id)).toEqual(['d', 'a', 'b', 'c']);
+      expect(sortPrompts(items, 'usage').map((p) => p.id)).toEqual(['d', 'b', 'a', 'c']);
+      expect(sortPrompts(items, 'alpha').map((p) => p.id)).toEqual(['d', 'b', 'a', 'c']);
+    });
+
+    it('does not mutate the input', () => {
+      sortPrompts(items, 'alpha');
+      expect(items.map((p) => p.id)).toEqual(['a', 'b', 'c', 'd']);
+    });
+  });
+
+  describe('recordPromptUsage', () => {
+    it('increments usage without touching updatedAt', () => {
+      const item = prompt('a', 'x', { updatedAt: 2000 });
+      const used = recordPromptUsage(recordPromptUsage(item, 3000), 4000);
+      expect(used).toMatchObject({ usageCount: 2, lastUsedAt: 4000, updatedAt: 2000 });
+      expect(item.usageCount).toBeUndefined();
+    });
+  });
+
+  describe('normalizePromptCollections', () => {
+    it('drops invalid and duplicate entries', () => {
+      const result = normalizePromptCollections([
+        collection('a'),
+        { id: 'a', name: 'dup' },
+        { id: '', name: 'no id' },
+        { id: 'b' },
+        null,
+      ]);
+      expect(result.map((c) => c.id)).toEqual(['a']);
+      expect(normalizePromptCollections('nope')).toEqual([]);
+    });
+
+    it('detaches collections with missing parents and breaks cycles', () => {
+      const result = normalizePromptCollections([
+        collection('orphan', 'missing'),
+        collection('x', 'y'),
+        collection('y', 'x'),
+      ]);
+      const byId = new Map(result.map((c) => [c.id, c]));
+      expect(byId.get('orphan')?.parentId).toBeNull();
+      expect([byId.get('x')?.parentId, byId.get('y')?.parentId]).toContain(null);
+    });
+  });
+
+  describe('collection tree helpers', () => {
+    const tree = [collection('root'), collection('child', 'root'), collection('leaf', 'child')];
+
+    it('collects a subtree', () => {
+      expect(Array.from(getCollectionSubtreeIds(tree, 'root')).sort()).toEqual([
+        'child',
+        'leaf',
+        'root',
+      ]);
+    });
+
+    it('prevents moving a collection into its own subtree', () => {
+      expect(canMoveCollection(tree, 'root', 'leaf')).toBe(false);
+      expect(canMoveCollection(tree, 'root', 'root')).toBe(false);
+      expect(canMoveCollection(tree, 'leaf', 'root')).toBe(true);
+      expect(canMoveCollection(tree, 'leaf', null)).toBe(true);
+    });
+
+    it('moves children and prompts to the parent when removing a collection', () => {
+      const items = [prompt('p1', 'one', { collectionId: 'child' }), prompt('p2', 'two')];
+      const result = removePromptCollection(tree, items, 'child', 5000);
+      expect(result.collections.map((c) => [c.id, c.parentId])).toEqual([
+        ['root', null],
+        ['leaf', 'root'],
+      ]);
+      expect(result.items[0]).toMatchObject({ collectionId: 'root', updatedAt: 5000 });
+      expect(result.items[1]).toBe(items[1]);
+    });
+
+    it('detaches prompts whose collection no longer exists', () => {
+      const items = [
+        prompt('p1', 'one', { collectionId: 'gone' }),
+        prompt('p2', 'two', { collectionId: 'root' }),
+      ];
+      const result = detachOrphanedPrompts(items, tree);
+      expect(result.map((p) => p.collectionId)).toEqual([null, 'root']);
+    });
+  });
+});
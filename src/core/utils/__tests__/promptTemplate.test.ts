@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  extractTemplateVariableNames,
+  getInitialVariableValues,
+  hasTemplateVariables,
+  normalizePromptVariable,
+  renderPromptTemplate,
+  syncTemplateVariables,
+} from '../promptTemplate';
+
+describe('promptTemplate', () => {
+  describe('extractTemplateVariableNames', () => {
+    it('returns unique names in order of appearance', () => {
+      const text = 'Translate {{ticket}} to {{language}}. Ticket: {{ ticket }}';
+      expect(extractTemplateVariableNames(text)).toEqual(['ticket', 'language']);
+    });
+
+    it('ignores empty and multi-line placeholders', () => {
+      expect(extractTemplateVariableNames('{{}} {{ }} {{a\nb}}')).toEqual([]);
+      expect(hasTemplateVariables('plain prompt')).toBe(false);
+    });
+  });
+
+  describe('normalizePromptVariable', () => {
+    it('rejects values without a name', () => {
+      expect(normalizePromptVariable(null)).toBeNull();
+      expect(normalizePromptVariable({ type: 'text' })).toBeNull();
+    });
+
+    it('falls back to text for unknown types', () => {
+      expect(normalizePromptVariable({ name: 'x', type: 'date' })).toEqual({
+        name: 'x',
+        type: 'text',
+      });
+    });
+
+    it('degrades choice without options to text', () => {
+      expect(normalizePromptVariable({ name: 'x', type: 'choice', options: [' '] })).toEqual({
+        name: 'x',
+        type: 'text',
+      });
+    });
+
+    it('keeps deduplicated choice options and default value', () => {
+      expect(
+        normalizePromptVariable({
+          name: 'lang',
+          type: 'choice',
+          options: ['en', 'fr', 'en'],
+          defaultValue: 'fr',
+        }),
+      ).toEqual({ name: 'lang', type: 'choice', options: ['en', 'fr'], defaultValue: 'fr' });
+    });
+  });
+
+  describe('syncTemplateVariables', () => {
+    it('keeps existing definitions, adds new ones and drops removed ones', () => {
+      const result = syncTemplateVariables('{{a}} {{c}}', [
+        { name: 'a', type: 'multiline', defaultValue: 'x' },
+        { name: 'b', type: 'text' },
+      ]);
+      expect(result).toEqual([
+        { name: 'a', type: 'multiline', defaultValue: 'x' },
+        { name: 'c', type: 'text' },
+      ]);
+    });
+  });
+
+  describe('getInitialVariableValues', () => {
+    it('uses default value, then first option, then empty string', () => {
+      expect(
+        getInitialVariableValues([
+          { name: 'a', type: 'text', defaultValue: 'hi' },
+          { name: 'b', type: 'choice', options: ['x', 'y'] },
+          { name: 'c', type: 'multiline' },
+        ]),
+      ).toEqual({ a: 'hi', b: 'x', c: '' });
+    });
+  });
+
+  describe('renderPromptTemplate', () => {
+    it('replaces every occurrence of a placeholder', () => {
+      expect(renderPromptTemplate('{{a}}-{{ a }}-{{b}}', { a: '1', b: '2' })).toBe('1-1-2');
+    });
+
+    it('leaves placeholders without values untouched', () => {
+      expect(renderPromptTemplate('{{a}} {{b}}', { a: '1' })).toBe('1 {{b}}');
+    });
+
+    it('does not interpret replacement patterns in values', () => {
+      expect(renderPromptTemplate('{{a}}', { a: '$& $1' })).toBe('$& $1');
+    });
+  });
+});
@@ -12,6 +12,7 @@ import {
   getCompatibilityInfo,
   isSupportedFormat,
   isVersionCompatible,
+  migrateFormat,
   parseVersion,
 } from '../version';
 
@@ -114,11 +115,12 @@ describe('Version Management', () => {
   describe('isSupportedFormat', () => {
     it('should recognize supported formats', () => {
       expect(isSupportedFormat('gemini-voyager.folders.v1')).toBe(true);
+      expect(isSupportedFormat('gemini-voyager.folders.v2')).toBe(true);
     });
 
     it('should reject unsupported formats', () => {
       expect(isSupportedFormat('unknown.format')).toBe(false);
-      expect(isSupportedFormat('gemini-voyager.folders.v2')).toBe(false);
+      expect(isSupportedFormat('gemini-voyager.folders.v99')).toBe(false);
       expect(isSupportedFormat('')).toBe(false);
     });
   });
@@ -169,6 +171,55 @@ describe('Version Management', () => {
     // Note: Add specific migration tests when migrations are implemented
   });
 
+  describe('migrateFormat', () => {
+    it('should upgrade prompts v1 payloads to v2 with derived variables', () => {
+      const payload = {
+        format: 'gemini-voyager.prompts.v1',
+        exportedAt: '2025-01-01T00:00:00.000Z',
+        items: [
+          { id: '1', text: 'Review {{ticket}} in {{language}}', tags: [], createdAt: 1 },
+          { id: '2', text: 'No variables', tags: ['x'], createdAt: 2 },
+        ],
+      };
+
+      const result = migrateFormat(payload);
+      const data = result.data as { format: string; items: Array<{ variables: unknown }> };
+
+      expect(data.format).toBe('gemini-voyager.prompts.v2');
+      expect(data.items[0].variables).toEqual([
+        { name: 'ticket', type: 'text' },
+        { name: 'language', type: 'text' },
+      ]);
+      expect(data.items[1].variables).toEqual([]);
+      expect(result.migrationsApplied).toHaveLength(1);
+    });
+
+    it('should upgrade folders v1 payloads to v2 with an empty smart folder list', () => {
+      const payload = {
+        format: 'gemini-voyager.folders.v1',
+        exportedAt: '2025-01-01T00:00:00.000Z',
+        version: '1.0.0',
+        data: { folders: [], folderContents: {} },
+      };
+
+      const result = migrateFormat(payload);
+
+      expect(result.data).toEqual({
+        ...payload,
+        format: 'gemini-voyager.folders.v2',
+        data: { folders: [], folderContents: {}, smartFolders: [] },
+      });
+      expect(result.migrationsApplied).toHaveLength(1);
+    });
+
+    it('should leave current and unknown formats unchanged', () => {
+      const current = { format: 'gemini-voyager.prompts.v2', items: [] };
+      expect(migrateFormat(current)).toEqual({ data: current, migrationsApplied: [] });
+      expect(migrateFormat([1, 2]).data).toEqual([1, 2]);
+      expect(migrateFormat(null).data).toBeNull();
+    });
+  });
+
   describe('EXTENSION_VERSION', () => {
     it('should be a valid semantic version', () => {
       const parsed = parseVersion(EXTENSION_VERSION);
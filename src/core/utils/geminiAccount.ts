@@ -0,0 +1,97 @@
+/**
+ * Google account helpers for Gemini
+ * A signed-in browser can hold several Google accounts; Gemini addresses them by index
+ * in the path (`/u/1/app/...`). Account "0" is the default and is usually omitted.
+ */
+import { StorageKeys } from '@/core/types/common';
+
+export const DEFAULT_ACCOUNT_ID = '0';
+
+const ACCOUNT_PATH_PATTERN = /^\/u\/(\d+)(?:\/|$)/;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+
+/**
+ * Account index from a pathname, or null when the path does not name one
+ */
+export function getAccountIdFromPath(pathname: string): string | null {
+  const match = pathname.match(ACCOUNT_PATH_PATTERN);
+  return match ? String(Number(match[1])) : null;
+}
+
+/**
+ * Account index from a URL, or null when the URL does not name one (e.g. `/app/...`)
+ */
+export function getAccountIdFromUrl(url: string | undefined | null): string | null {
+  if (!url) return null;
+  try {
+    return getAccountIdFromPath(new URL(url).pathname);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Storage key of an account's folder tree. The default account keeps the legacy key
+ * so existing installs and older exports keep working.
+ */
+export function getFolderStorageKey(accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID
+    ? StorageKeys.FOLDER_DATA
+    : `${StorageKeys.FOLDER_DATA}_u${accountId}`;
+}
+
+/**
+ * Detect the account of the current page.
+ * The URL wins; otherwise links in the page (sidebar conversations, account switcher)
+ * are used as a hint, as Gemini prefixes them with `/u/<n>/` for non-default accounts.
+ */
+export function detectAccountId(pathname: string, doc?: Document): string {
+  const fromPath = getAccountIdFromPath(pathname);
+  if (fromPath !== null) return fromPath;
+  if (!doc) return DEFAULT_ACCOUNT_ID;
+
+  const counts = new Map<string, number>();
+  doc.querySelectorAll<HTMLAnchorElement>('a[href*="/app/"]').forEach((link) => {
+    const id = getAccountIdFromPath(link.getAttribute('href') || '');
+    if (id !== null) counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  // Only trust the hint when every prefixed link agrees
+  return counts.size === 1 ? Array.from(counts.keys())[0] : DEFAULT_ACCOUNT_ID;
+}
+
+let viewedAccountId: string | null = null;
+
+/**
+ * Account of the current page, from its URL or the account hints in the page
+ */
+export function detectPageAccountId(): string {
+  return detectAccountId(window.location.pathname, document);
+}
+
+/**
+ * Record the account whose folder tree the folder manager shows; null when it shows the
+ * page's own account
+ */
+export function setViewedAccountId(accountId: string | null): void {
+  viewedAccountId = accountId;
+}
+
+/**
+ * Account whose folder tree this page works with. Anything reading folders from the content
+ * script (backup, prompt export, export profiles) should use this so it sees the tree on screen.
+ */
+export function resolveFolderAccountId(): string {
+  return viewedAccountId ?? detectPageAccountId();
+}
+
+/**
+ * Email address of the signed-in account, read from the account button label
+ */
+export function detectAccountLabel(doc: Document): string | null {
+  const labels = doc.querySelectorAll<HTMLElement>('a[aria-label*="@"]');
+  for (const element of Array.from(labels)) {
+    const match = (element.getAttribute('aria-label') || '').match(EMAIL_PATTERN);
+    if (match) return match[0];
+  }
+  return null;
+}
@@ -0,0 +1,160 @@
+/**
+ * Prompt revision history utilities
+ * Records bounded snapshots of prompt content, merges histories from sync and computes line diffs
+ */
+import type { PromptItem, PromptRevision, PromptVariable } from '@/core/types/sync';
+
+import { normalizePromptVariable } from './promptTemplate';
+
+/** Maximum number of previous revisions kept per prompt */
+export const MAX_PROMPT_REVISIONS = 20;
+
+type PromptContent = Pick<PromptItem, 'text' | 'tags' | 'variables'>;
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+function contentKey(content: PromptContent): string {
+  return JSON.stringify([content.text, content.tags || [], content.variables || []]);
+}
+
+/**
+ * Check whether two prompt contents (text, tags, variables) are identical
+ */
+export function isSamePromptContent(a: PromptContent, b: PromptContent): boolean {
+  return contentKey(a) === contentKey(b);
+}
+
+function trimHistory(history: PromptRevision[]): PromptRevision[] {
+  return history.length > MAX_PROMPT_REVISIONS
+    ? history.slice(history.length - MAX_PROMPT_REVISIONS)
+    : history;
+}
+
+/**
+ * Snapshot the item's current content onto its history before it is changed.
+ * @returns The new history (oldest first, bounded), unchanged when `next` has the same content
+ */
+export function recordPromptRevision(
+  item: PromptItem,
+  next: PromptContent,
+  savedAt: number = Date.now(),
+): PromptRevision[] {
+  const history = item.history || [];
+  if (isSamePromptContent(item, next)) return history;
+
+  const revision: PromptRevision = {
+    text: item.text,
+    tags: [...(item.tags || [])],
+    savedAt,
+  };
+  if (item.variables?.length) revision.variables = item.variables.map((v) => ({ ...v }));
+  return trimHistory([...history, revision]);
+}
+
+/**
+ * Validate and normalize a revision from untrusted input (imports, cloud data)
+ * @returns Normalized revision or null if the input is not usable
+ */
+export function normalizePromptRevision(raw: unknown): PromptRevision | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.text !== 'string' || !r.text.trim()) return null;
+  if (typeof r.savedAt !== 'number' || !Number.isFinite(r.savedAt)) return null;
+
+  const revision: PromptRevision = {
+    text: r.text,
+    tags: Array.isArray(r.tags) ? r.tags.map((t) => String(t)) : [],
+    savedAt: r.savedAt,
+  };
+  const variables = Array.isArray(r.variables)
+    ? r.variables
+        .map((v) => normalizePromptVariable(v))
+        .filter((v): v is PromptVariable => v !== null)
+    : [];
+  if (variables.length) revision.variables = variables;
+  return revision;
+}
+
+/**
+ * Normalize a whole history array from untrusted input, sorted oldest first and bounded
+ */
+export function normalizePromptHistory(raw: unknown): PromptRevision[] {
+  if (!Array.isArray(raw)) return [];
+  const history = raw
+    .map((r) => normalizePromptRevision(r))
+    .filter((r): r is PromptRevision => r !== null)
+    .sort((a, b) => a.savedAt - b.savedAt);
+  return trimHistory(history);
+}
+
+/**
+ * Combine the histories of two copies of the same prompt.
+ * `winner` is the copy whose current content is kept; the other copy's current content
+ * becomes a revision so edits made on another device are never silently lost.
+ */
+export function mergePromptHistory(winner: PromptItem, loser: PromptItem): PromptRevision[] {
+  const seen = new Set<string>();
+  const merged: PromptRevision[] = [];
+  for (const revision of [...(winner.history || []), ...(loser.history || [])]) {
+    const key = `${revision.savedAt}|${contentKey(revision)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(revision);
+  }
+
+  const loserIsKnown =
+    isSamePromptContent(loser, winner) || merged.some((r) => isSamePromptContent(r, loser));
+  if (!loserIsKnown) {
+    const revision: PromptRevision = {
+      text: loser.text,
+      tags: [...(loser.tags || [])],
+      savedAt: loser.updatedAt || loser.createdAt || 0,
+    };
+    if (loser.variables?.length) revision.variables = loser.variables;
+    merged.push(revision);
+  }
+
+  merged.sort((a, b) => a.savedAt - b.savedAt);
+  return trimHistory(merged);
+}
+
+/**
+ * Line-based diff (longest common subsequence) from `before` to `after`
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'removed', text: a[i++] });
+  while (j < m) result.push({ type: 'added', text: b[j++] });
+  return result;
+}
@@ -0,0 +1,174 @@
+/**
+ * Prompt library organisation utilities
+ * Sorting, usage tracking and nested collection helpers shared by the Prompt Manager,
+ * the slash-command picker, import/export and sync merge
+ */
+import type { PromptCollection, PromptItem } from '@/core/types/sync';
+
+export type PromptSortMode = 'default' | 'recent' | 'usage' | 'alpha';
+
+export const PROMPT_SORT_MODES: readonly PromptSortMode[] = ['default', 'recent', 'usage', 'alpha'];
+
+export function isPromptSortMode(value: unknown): value is PromptSortMode {
+  return PROMPT_SORT_MODES.includes(value as PromptSortMode);
+}
+
+/**
+ * Sort prompts for display. Pinned prompts always come first; within each group
+ * the mode decides the order and the original order breaks ties.
+ * - default: keep stored order (newest first)
+ * - recent: most recently used first, never-used last
+ * - usage: highest usage count first
+ * - alpha: by text, case-insensitive
+ */
+export function sortPrompts<T extends PromptItem>(items: readonly T[], mode: PromptSortMode): T[] {
+  const compare = (a: T, b: T): number => {
+    switch (mode) {
+      case 'recent':
+        return (b.lastUsedAt || 0) - (a.lastUsedAt || 0);
+      case 'usage':
+        return (b.usageCount || 0) - (a.usageCount || 0);
+      case 'alpha':
+        return a.text.localeCompare(b.text, undefined, { sensitivity: 'base' });
+      default:
+        return 0;
+    }
+  };
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const pinDiff = Number(!!b.item.pinned) - Number(!!a.item.pinned);
+      if (pinDiff !== 0) return pinDiff;
+      return compare(a.item, b.item) || a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+/**
+ * Return a copy of the prompt with its usage recorded.
+ * Usage does not touch `updatedAt`, so using a prompt never overrides content edits during sync.
+ */
+export function recordPromptUsage<T extends PromptItem>(item: T, now: number = Date.now()): T {
+  return { ...item, usageCount: (item.usageCount || 0) + 1, lastUsedAt: now };
+}
+
+/**
+ * Validate and normalize a collection from untrusted input
+ * @returns Normalized collection or null if the input is not usable
+ */
+export function normalizePromptCollection(raw: unknown): PromptCollection | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const id = typeof r.id === 'string' ? r.id.trim() : '';
+  const name = typeof r.name === 'string' ? r.name.trim() : '';
+  if (!id || !name) return null;
+
+  const createdAt = typeof r.createdAt === 'number' ? r.createdAt : Date.now();
+  return {
+    id,
+    name,
+    parentId: typeof r.parentId === 'string' && r.parentId ? r.parentId : null,
+    isExpanded: r.isExpanded !== false,
+    createdAt,
+    updatedAt: typeof r.updatedAt === 'number' ? r.updatedAt : createdAt,
+  };
+}
+
+/**
+ * Normalize a collection list: drops invalid/duplicate entries, detaches collections
+ * whose parent is missing and breaks parent cycles by moving the offender to the root.
+ */
+export function normalizePromptCollections(raw: unknown): PromptCollection[] {
+  if (!Array.isArray(raw)) return [];
+  const byId = new Map<string, PromptCollection>();
+  for (const entry of raw) {
+    const collection = normalizePromptCollection(entry);
+    if (collection && !byId.has(collection.id)) byId.set(collection.id, collection);
+  }
+
+  for (const collection of byId.values()) {
+    if (collection.parentId && !byId.has(collection.parentId)) collection.parentId = null;
+  }
+  for (const collection of byId.values()) {
+    const visited = new Set<string>([collection.id]);
+    let parentId = collection.parentId;
+    while (parentId) {
+      if (visited.has(parentId)) {
+        collection.parentId = null;
+        break;
+      }
+      visited.add(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * IDs of a collection and all of its nested sub-collections
+ */
+export function getCollectionSubtreeIds(
+  collections: readonly PromptCollection[],
+  id: string,
+): Set<string> {
+  const result = new Set<string>([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const collection of collections) {
+      if (collection.parentId && result.has(collection.parentId) && !result.has(collection.id)) {
+        result.add(collection.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether a collection can be moved under `newParentId` without creating a cycle
+ */
+export function canMoveCollection(
+  collections: readonly PromptCollection[],
+  id: string,
+  newParentId: string | null,
+): boolean {
+  if (newParentId === null) return true;
+  return !getCollectionSubtreeIds(collections, id).has(newParentId);
+}
+
+/**
+ * Remove a collection. Its sub-collections and prompts move up to the removed collection's parent.
+ */
+export function removePromptCollection<T extends PromptItem>(
+  collections: readonly PromptCollection[],
+  items: readonly T[],
+  id: string,
+  now: number = Date.now(),
+): { collections: PromptCollection[]; items: T[] } {
+  const removed = collections.find((c) => c.id === id);
+  if (!removed) return { collections: [...collections], items: [...items] };
+  const parentId = removed.parentId;
+
+  return {
+    collections: collections
+      .filter((c) => c.id !== id)
+      .map((c) => (c.parentId === id ? { ...c, parentId, updatedAt: now } : c)),
+    items: items.map((item) =>
+      item.collectionId === id ? { ...item, collectionId: parentId, updatedAt: now } : item,
+    ),
+  };
+}
+
+/**
+ * Clear `collectionId` on prompts that reference a collection that no longer exists
+ */
+export function detachOrphanedPrompts<T extends PromptItem>(
+  items: readonly T[],
+  collections: readonly PromptCollection[],
+): T[] {
+  const ids = new Set(collections.map((c) => c.id));
+  return items.map((item) =>
+    item.collectionId && !ids.has(item.collectionId) ? { ...item, collectionId: null } : item,
+  );
+}
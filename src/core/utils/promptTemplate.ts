@@ -0,0 +1,112 @@
+/**
+ * Prompt template utilities
+ * Parses `{{name}}` placeholders in prompt text and renders them with user-supplied values
+ */
+import type { PromptVariable, PromptVariableType } from '@/core/types/sync';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}\n]+?)\s*\}\}/g;
+
+const VARIABLE_TYPES: readonly PromptVariableType[] = ['text', 'multiline', 'choice'];
+
+/**
+ * Extract unique placeholder names in order of first appearance
+ */
+export function extractTemplateVariableNames(text: string): string[] {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1].trim();
+    if (name && !seen.has(name)) {
+      seen.add(name);
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Check whether prompt text contains at least one placeholder
+ */
+export function hasTemplateVariables(text: string): boolean {
+  return extractTemplateVariableNames(text).length > 0;
+}
+
+/**
+ * Validate and normalize a single variable definition from untrusted input
+ * @returns Normalized variable or null if the input is not usable
+ */
+export function normalizePromptVariable(raw: unknown): PromptVariable | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const name = typeof r.name === 'string' ? r.name.trim() : '';
+  if (!name) return null;
+
+  const type = VARIABLE_TYPES.includes(r.type as PromptVariableType)
+    ? (r.type as PromptVariableType)
+    : 'text';
+  const variable: PromptVariable = { name, type };
+
+  if (typeof r.defaultValue === 'string' && r.defaultValue) {
+    variable.defaultValue = r.defaultValue;
+  }
+  if (type === 'choice') {
+    const options = Array.isArray(r.options)
+      ? Array.from(new Set(r.options.map((o) => String(o).trim()).filter(Boolean)))
+      : [];
+    if (options.length === 0) {
+      // A choice without options cannot be filled; degrade to free text
+      variable.type = 'text';
+    } else {
+      variable.options = options;
+    }
+  }
+  return variable;
+}
+
+/**
+ * Reconcile variable definitions with the placeholders present in text.
+ * Keeps existing definitions for names still in use, adds text variables for new
+ * placeholders, and drops definitions whose placeholder was removed.
+ */
+export function syncTemplateVariables(
+  text: string,
+  existing: readonly PromptVariable[] = [],
+): PromptVariable[] {
+  const byName = new Map<string, PromptVariable>();
+  for (const variable of existing) {
+    if (!byName.has(variable.name)) byName.set(variable.name, variable);
+  }
+  return extractTemplateVariableNames(text).map(
+    (name) => byName.get(name) ?? { name, type: 'text' },
+  );
+}
+
+/**
+ * Initial form values for each variable (default value, else first choice option)
+ */
+export function getInitialVariableValues(
+  variables: readonly PromptVariable[],
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const variable of variables) {
+    if (variable.defaultValue !== undefined) {
+      values[variable.name] = variable.defaultValue;
+    } else if (variable.type === 'choice' && variable.options?.length) {
+      values[variable.name] = variable.options[0];
+    } else {
+      values[variable.name] = '';
+    }
+  }
+  return values;
+}
+
+/**
+ * Replace placeholders with the provided values.
+ * Placeholders without a value are left untouched so the user can spot them.
+ */
+export function renderPromptTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (full, rawName: string) => {
+    const name = rawName.trim();
+    return Object.prototype.hasOwnProperty.call(values, name) ? values[name] : full;
+  });
+}
@@ -47,6 +47,24 @@ export function getAssistantTurnSelectors(): string[] {
   ];
 }
 
+/**
+ * Get selectors for user turn elements in AI Studio chats
+ */
+export function getAIStudioUserTurnSelectors(): string[] {
+  return [
+    // Turn container rendered inside each <ms-chat-turn>
+    '.chat-turn-container.user',
+    'ms-chat-turn [data-turn-role="User"]',
+  ];
+}
+
+/**
+ * Get selectors for model response elements in AI Studio chats
+ */
+export function getAIStudioAssistantTurnSelectors(): string[] {
+  return ['.chat-turn-container.model', 'ms-chat-turn [data-turn-role="Model"]'];
+}
+
 /**
  * Get conversation selectors
  */
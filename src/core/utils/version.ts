@@ -4,6 +4,7 @@
  */
 // Import version from manifest to ensure single source of truth
 import manifestChrome from '../../../manifest.json';
+import { syncTemplateVariables } from './promptTemplate';
 
 /**
  * Current extension version from manifest.json
@@ -17,6 +18,8 @@ export const EXTENSION_VERSION = manifestChrome.version;
  */
 export const FORMAT_VERSIONS = {
   'gemini-voyager.folders.v1': '0.7.0', // Minimum version that supports v1 format
+  'gemini-voyager.folders.v2': '1.2.9', // Folder data with smart folders and conversation tags
+  'gemini-voyager.prompts.v2': '1.2.9', // Prompt items with template variables
 } as const;
 
 export type FormatVersion = keyof typeof FORMAT_VERSIONS;
@@ -235,3 +238,80 @@ export function applyMigrations(
 
   return { data: currentData, migrationsApplied };
 }
+
+/**
+ * Format migration registry
+ * Upgrades an export payload from one format identifier to its successor
+ */
+export interface FormatMigration {
+  fromFormat: string;
+  toFormat: string;
+  migrate: (payload: Record<string, unknown>) => Record<string, unknown>;
+  description: string;
+}
+
+/**
+ * Registry of export format upgrades
+ * Add a new entry here whenever an export format is bumped
+ */
+export const FORMAT_MIGRATIONS: FormatMigration[] = [
+  {
+    fromFormat: 'gemini-voyager.folders.v1',
+    toFormat: 'gemini-voyager.folders.v2',
+    migrate: (payload) => ({
+      ...payload,
+      format: 'gemini-voyager.folders.v2',
+      data:
+        payload.data && typeof payload.data === 'object'
+          ? { smartFolders: [], ...(payload.data as Record<string, unknown>) }
+          : payload.data,
+    }),
+    description: 'Add an empty smart folder list',
+  },
+  {
+    fromFormat: 'gemini-voyager.prompts.v1',
+    toFormat: 'gemini-voyager.prompts.v2',
+    migrate: (payload) => ({
+      ...payload,
+      format: 'gemini-voyager.prompts.v2',
+      items: Array.isArray(payload.items)
+        ? payload.items.map((item: unknown) => {
+            if (!item || typeof item !== 'object') return item;
+            const i = item as Record<string, unknown>;
+            const text = typeof i.text === 'string' ? i.text : '';
+            return { ...i, variables: syncTemplateVariables(text) };
+          })
+        : payload.items,
+    }),
+    description: 'Derive template variables from {{placeholders}} in prompt text',
+  },
+];
+
+/**
+ * Upgrade a payload through every applicable format migration
+ * Payloads already in the latest format (or unknown formats) are returned unchanged
+ */
+export function migrateFormat(payload: unknown): { data: unknown; migrationsApplied: string[] } {
+  const migrationsApplied: string[] = [];
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return { data: payload, migrationsApplied };
+  }
+
+  let current = payload as Record<string, unknown>;
+  let migration = FORMAT_MIGRATIONS.find((m) => m.fromFormat === current.format);
+  while (migration) {
+    try {
+      current = migration.migrate(current);
+    } catch (error) {
+      throw new Error(
+        `Format migration failed (${migration.fromFormat} → ${migration.toFormat}): ${error}`,
+      );
+    }
+    migrationsApplied.push(
+      `${migration.fromFormat} → ${migration.toFormat}: ${migration.description}`,
+    );
+    migration = FORMAT_MIGRATIONS.find((m) => m.fromFormat === current.format);
+  }
+
+  return { data: current, migrationsApplied };
+}
@@ -6,6 +6,7 @@
 import { AppError, ErrorCode } from '@/core/errors/AppError';
 import type { Result } from '@/core/types/common';
 import type { FolderData } from '@/core/types/folder';
+import { getFolderStorageKey, resolveFolderAccountId } from '@/core/utils/geminiAccount';
 import { EXTENSION_VERSION } from '@/core/utils/version';
 import { FolderImportExportService } from '@/features/folder/services/FolderImportExportService';
 
@@ -294,11 +295,11 @@ export class BackupService implements IBackupService {
 
   /**
    * Load folder data from storage
-   * Only loads Gemini data (AI Studio doesn't support import)
+   * Only loads Gemini data of the account whose folders are shown (AI Studio doesn't support import)
    */
   private async loadFolderData(): Promise<Result<FolderData>> {
     try {
-      const geminiKey = 'gvFolderData';
+      const geminiKey = getFolderStorageKey(resolveFolderAccountId());
 
       let folderData: FolderData = {
         folders: [],
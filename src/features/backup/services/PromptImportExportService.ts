@@ -5,11 +5,15 @@
  */
 import { AppError, ErrorCode } from '@/core/errors/AppError';
 import type { Result } from '@/core/types/common';
-import { EXTENSION_VERSION } from '@/core/utils/version';
+import type { PromptCollection } from '@/core/types/sync';
+import { normalizePromptHistory } from '@/core/utils/promptHistory';
+import { normalizePromptCollections } from '@/core/utils/promptLibrary';
+import { normalizePromptVariable, syncTemplateVariables } from '@/core/utils/promptTemplate';
+import { EXTENSION_VERSION, migrateFormat } from '@/core/utils/version';
 
 import type { PromptExportPayload, PromptItem } from '../types/backup';
 
-const EXPORT_FORMAT = 'gemini-voyager.prompts.v1' as const;
+const EXPORT_FORMAT = 'gemini-voyager.prompts.v2' as const;
 const STORAGE_KEY = 'gvPromptItems';
 
 /**
@@ -20,17 +24,23 @@ export class PromptImportExportService {
    * Export prompt data to a JSON payload
    * Uses centralized version management to ensure consistency
    */
-  static exportToPayload(items: PromptItem[]): PromptExportPayload {
-    return {
+  static exportToPayload(
+    items: PromptItem[],
+    collections: PromptCollection[] = [],
+  ): PromptExportPayload {
+    const payload: PromptExportPayload = {
       format: EXPORT_FORMAT,
       exportedAt: new Date().toISOString(),
       version: EXTENSION_VERSION,
       items,
     };
+    if (collections.length) payload.collections = collections;
+    return payload;
   }
 
   /**
    * Validate import payload format and structure
+   * Older formats (v1) are migrated to the current format before validation
    */
   static validatePayload(payload: unknown): Result<PromptExportPayload> {
     // Check if payload is an object
@@ -43,7 +53,22 @@ export class PromptImportExportService {
       };
     }
 
-    const p = payload as Record<string, unknown>;
+    let migrated: unknown;
+    try {
+      migrated = migrateFormat(payload).data;
+    } catch (error) {
+      return {
+        success: false,
+        error: new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          'Failed to migrate prompt payload',
+          { format: (payload as Record<string, unknown>).format },
+          error instanceof Error ? error : undefined,
+        ),
+      };
+    }
+
+    const p = migrated as Record<string, unknown>;
 
     // Check format version
     if (p.format !== EXPORT_FORMAT) {
@@ -100,11 +125,68 @@ export class PromptImportExportService {
           ),
         };
       }
+
+      if (i.variables !== undefined && !Array.isArray(i.variables)) {
+        return {
+          success: false,
+          error: new AppError(
+            ErrorCode.VALIDATION_ERROR,
+            'Prompt item has invalid "variables" field',
+            { item },
+          ),
+        };
+      }
+
+      if (i.history !== undefined && !Array.isArray(i.history)) {
+        return {
+          success: false,
+          error: new AppError(
+            ErrorCode.VALIDATION_ERROR,
+            'Prompt item has invalid "history" field',
+            { item },
+          ),
+        };
+      }
     }
 
+    if (p.collections !== undefined && !Array.isArray(p.collections)) {
+      return {
+        success: false,
+        error: new AppError(
+          ErrorCode.VALIDATION_ERROR,
+          'Invalid "collections" field: expected an array',
+          { collections: p.collections },
+        ),
+      };
+    }
+    const collections = normalizePromptCollections(p.collections);
+    const collectionIds = new Set(collections.map((c) => c.id));
+
+    const items = (p.items as PromptItem[]).map((item) => {
+      const normalized: PromptItem = {
+        ...item,
+        variables: syncTemplateVariables(
+          item.text,
+          (item.variables || [])
+            .map((v) => normalizePromptVariable(v))
+            .filter((v): v is NonNullable<typeof v> => v !== null),
+        ),
+      };
+      if (item.history !== undefined) normalized.history = normalizePromptHistory(item.history);
+      if (item.collectionId !== undefined) {
+        normalized.collectionId =
+          typeof item.collectionId === 'string' && collectionIds.has(item.collectionId)
+            ? item.collectionId
+            : null;
+      }
+      return normalized;
+    });
+
+    const data: PromptExportPayload = { ...(p as unknown as PromptExportPayload), items };
+    if (p.collections !== undefined) data.collections = collections;
     return {
       success: true,
-      data: payload as PromptExportPayload,
+      data,
     };
   }
 
@@ -229,10 +311,13 @@ export class PromptImportExportService {
       for (const item of importItems) {
         const key = item.text.toLowerCase();
         if (existingMap.has(key)) {
-          // Merge tags if duplicate
+          // Merge tags if duplicate; keep local variable definitions when present
           const existing = existingMap.get(key)!;
           const mergedTags = Array.from(new Set([...(existing.tags || []), ...(item.tags || [])]));
           existing.tags = mergedTags;
+          if (!existing.variables?.length && item.variables?.length) {
+            existing.variables = item.variables;
+          }
           existing.updatedAt = Date.now();
           duplicates++;
         } else {
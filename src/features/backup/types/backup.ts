@@ -3,6 +3,7 @@
  * Follows enterprise best practices with comprehensive type safety
  */
 import type { Result } from '@/core/types/common';
+import type { PromptCollection, PromptRevision, PromptVariable } from '@/core/types/sync';
 
 /**
  * Prompt item structure (matches prompt manager schema)
@@ -13,16 +14,23 @@ export interface PromptItem {
   tags: string[];
   createdAt: number;
   updatedAt?: number;
+  variables?: PromptVariable[];
+  history?: PromptRevision[];
+  collectionId?: string | null;
+  pinned?: boolean;
+  usageCount?: number;
+  lastUsedAt?: number;
 }
 
 /**
  * Prompt export payload format
  */
 export interface PromptExportPayload {
-  format: 'gemini-voyager.prompts.v1';
+  format: 'gemini-voyager.prompts.v2';
   exportedAt: string;
   version?: string;
   items: PromptItem[];
+  collections?: PromptCollection[];
 }
 
 /**
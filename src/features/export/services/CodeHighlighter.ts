@@ -0,0 +1,294 @@
+/**
+ * Code highlighter
+ * Lightweight, dependency-free tokenizer used to colour code blocks in HTML exports.
+ * It only recognises comments, strings, numbers and keywords, which is enough for
+ * readable output without shipping a full grammar library in the content script.
+ */
+
+type TokenKind = 'comment' | 'string' | 'number' | 'keyword';
+
+interface LanguageRules {
+  comment: RegExp;
+  keywords: Set<string>;
+  caseInsensitive?: boolean;
+}
+
+const C_LIKE_COMMENT = /\/\/[^\n]*|\/\*[\s\S]*?\*\//;
+const HASH_COMMENT = /#[^\n]*/;
+const SQL_COMMENT = /--[^\n]*|\/\*[\s\S]*?\*\//;
+const MARKUP_COMMENT = /<!--[\s\S]*?-->/;
+
+const STRING = /"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`/;
+const NUMBER = /\b(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/;
+const WORD = /[A-Za-z_$][\w$]*/;
+
+const COMMON_KEYWORDS = [
+  'abstract',
+  'as',
+  'async',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'do',
+  'else',
+  'enum',
+  'export',
+  'extends',
+  'false',
+  'final',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'implements',
+  'import',
+  'in',
+  'instanceof',
+  'interface',
+  'let',
+  'new',
+  'null',
+  'package',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'struct',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'throws',
+  'true',
+  'try',
+  'type',
+  'typeof',
+  'undefined',
+  'var',
+  'void',
+  'while',
+  'yield',
+  // Go / Rust / Swift / Kotlin
+  'fn',
+  'func',
+  'go',
+  'impl',
+  'match',
+  'mod',
+  'mut',
+  'nil',
+  'pub',
+  'self',
+  'trait',
+  'use',
+  'val',
+  'where',
+];
+
+const HASH_KEYWORDS = [
+  'and',
+  'as',
+  'assert',
+  'async',
+  'await',
+  'break',
+  'case',
+  'class',
+  'continue',
+  'def',
+  'del',
+  'do',
+  'done',
+  'elif',
+  'else',
+  'end',
+  'esac',
+  'except',
+  'export',
+  'false',
+  'False',
+  'fi',
+  'finally',
+  'for',
+  'from',
+  'function',
+  'global',
+  'if',
+  'import',
+  'in',
+  'is',
+  'lambda',
+  'local',
+  'module',
+  'nil',
+  'None',
+  'nonlocal',
+  'not',
+  'or',
+  'pass',
+  'raise',
+  'require',
+  'return',
+  'self',
+  'then',
+  'true',
+  'True',
+  'try',
+  'unless',
+  'while',
+  'with',
+  'yield',
+];
+
+const SQL_KEYWORDS = [
+  'add',
+  'all',
+  'alter',
+  'and',
+  'as',
+  'asc',
+  'between',
+  'by',
+  'case',
+  'create',
+  'delete',
+  'desc',
+  'distinct',
+  'drop',
+  'else',
+  'end',
+  'exists',
+  'from',
+  'group',
+  'having',
+  'in',
+  'index',
+  'inner',
+  'insert',
+  'into',
+  'is',
+  'join',
+  'key',
+  'left',
+  'like',
+  'limit',
+  'not',
+  'null',
+  'on',
+  'or',
+  'order',
+  'outer',
+  'primary',
+  'right',
+  'select',
+  'set',
+  'table',
+  'then',
+  'union',
+  'update',
+  'values',
+  'when',
+  'where',
+  'with',
+];
+
+const HASH_COMMENT_LANGUAGES = new Set([
+  'bash',
+  'dockerfile',
+  'makefile',
+  'perl',
+  'powershell',
+  'ps1',
+  'py',
+  'python',
+  'r',
+  'rb',
+  'ruby',
+  'sh',
+  'shell',
+  'toml',
+  'yaml',
+  'yml',
+  'zsh',
+]);
+
+const MARKUP_LANGUAGES = new Set(['html', 'svg', 'vue', 'xml']);
+
+/** Languages shown as plain text: prose-like or not worth colouring */
+const PLAIN_LANGUAGES = new Set([
+  '',
+  'code',
+  'markdown',
+  'md',
+  'mermaid',
+  'plaintext',
+  'text',
+  'txt',
+]);
+
+const RULES = {
+  cLike: { comment: C_LIKE_COMMENT, keywords: new Set(COMMON_KEYWORDS) },
+  hash: { comment: HASH_COMMENT, keywords: new Set(HASH_KEYWORDS) },
+  sql: { comment: SQL_COMMENT, keywords: new Set(SQL_KEYWORDS), caseInsensitive: true },
+  markup: { comment: MARKUP_COMMENT, keywords: new Set<string>() },
+} satisfies Record<string, LanguageRules>;
+
+export class CodeHighlighter {
+  /**
+   * CSS class prefix of the emitted token spans, e.g. `gv-hl-keyword`
+   */
+  static readonly CLASS_PREFIX = 'gv-hl-';
+
+  /**
+   * Return escaped HTML for `code` with tokens wrapped in `<span class="gv-hl-*">`
+   */
+  static highlight(code: string, language: string): string {
+    const rules = this.getRules(language.trim().toLowerCase());
+    if (!rules) return this.escapeHTML(code);
+
+    const tokenizer = new RegExp(
+      [rules.comment, STRING, NUMBER, WORD].map((pattern) => `(${pattern.source})`).join('|'),
+      'g',
+    );
+
+    let html = '';
+    let lastIndex = 0;
+    for (const match of code.matchAll(tokenizer)) {
+      const start = match.index ?? 0;
+      html += this.escapeHTML(code.slice(lastIndex, start));
+      lastIndex = start + match[0].length;
+
+      const kind = this.classify(match, rules);
+      html += kind
+        ? `<span class="${this.CLASS_PREFIX}${kind}">${this.escapeHTML(match[0])}</span>`
+        : this.escapeHTML(match[0]);
+    }
+    return html + this.escapeHTML(code.slice(lastIndex));
+  }
+
+  private static getRules(language: string): LanguageRules | null {
+    if (PLAIN_LANGUAGES.has(language)) return null;
+    if (HASH_COMMENT_LANGUAGES.has(language)) return RULES.hash;
+    if (MARKUP_LANGUAGES.has(language)) return RULES.markup;
+    if (language === 'sql') return RULES.sql;
+    return RULES.cLike;
+  }
+
+  private static classify(match: RegExpMatchArray, rules: LanguageRules): TokenKind | null {
+    if (match[1]) return 'comment';
+    if (match[2]) return 'string';
+    if (match[3]) return 'number';
+    const word = rules.caseInsensitive ? match[0].toLowerCase() : match[0];
+    return rules.keywords.has(word) ? 'keyword' : null;
+  }
+
+  private static escapeHTML(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
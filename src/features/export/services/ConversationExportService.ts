@@ -14,10 +14,15 @@ import type {
   ExportFormat,
   ExportLayout,
   ExportOptions,
+  ExportProfile,
   ExportResult,
+  JSONExportPayload,
 } from '../types/export';
 import { DOMContentExtractor } from './DOMContentExtractor';
 import { DeepResearchPDFPrintService } from './DeepResearchPDFPrintService';
+import { DocxExportService } from './DocxExportService';
+import { ExportProfileService } from './ExportProfileService';
+import { HTMLExportService } from './HTMLExportService';
 import { ImageExportService } from './ImageExportService';
 import { MarkdownFormatter } from './MarkdownFormatter';
 import { PDFPrintService } from './PDFPrintService';
@@ -58,6 +63,12 @@ export class ConversationExportService {
         case 'image':
           return await this.exportImage(turns, metadata, options);
 
+        case 'html':
+          return await this.exportHTML(turns, metadata, options);
+
+        case 'docx':
+          return await this.exportDOCX(turns, metadata, options);
+
         default:
           return {
             success: false,
@@ -106,6 +117,10 @@ export class ConversationExportService {
         return await this.exportDocumentPDF(content, metadata, options);
       case 'image':
         return await this.exportDocumentImage(content, metadata, options);
+      case 'html':
+        return await this.exportDocumentHTML(content, turns, metadata, options);
+      case 'docx':
+        return await this.exportDocumentDOCX(content, metadata, options);
       default:
         return {
           success: false,
@@ -116,15 +131,30 @@ export class ConversationExportService {
   }
 
   /**
-   * Export as JSON (existing format)
-   * Now extracts content with Markdown formatting using DOMContentExtractor
+   * Render a conversation to file content without downloading it.
+   * Used by bulk exports that package many conversations into one archive.
+   */
+  static renderConversation(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    format: 'json' | 'markdown',
+    profile?: ExportProfile,
+  ): string {
+    if (format === 'json') {
+      return JSON.stringify(this.buildChatJSONPayload(turns, metadata), null, 2);
+    }
+    return MarkdownFormatter.format(turns, metadata, { profile });
+  }
+
+  /**
+   * Build the chat JSON payload
+   * Extracts content with Markdown formatting using DOMContentExtractor
    * to ensure consistency with Markdown export
    */
-  private static exportJSON(
+  private static buildChatJSONPayload(
     turns: ChatTurn[],
     metadata: ConversationMetadata,
-    options: ExportOptions,
-  ): ExportResult {
+  ): JSONExportPayload {
     // Process turns to extract Markdown-formatted content from DOM elements
     const processedItems = turns.map((turn) => {
       let userContent = turn.user;
@@ -152,7 +182,7 @@ export class ConversationExportService {
       };
     });
 
-    const payload = {
+    return {
       format: this.CHAT_JSON_FORMAT,
       url: metadata.url,
       exportedAt: metadata.exportedAt,
@@ -160,8 +190,19 @@ export class ConversationExportService {
       title: metadata.title,
       items: processedItems,
     };
+  }
+
+  /**
+   * Export as JSON (existing format)
+   */
+  private static exportJSON(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    options: ExportOptions,
+  ): ExportResult {
+    const payload = this.buildChatJSONPayload(turns, metadata);
 
-    const filename = options.filename || this.generateFilename('json', metadata.title);
+    const filename = options.filename || this.generateFilename('json', metadata, options.profile);
     this.downloadJSON(payload, filename);
 
     return {
@@ -180,14 +221,20 @@ export class ConversationExportService {
     options: ExportOptions,
   ): Promise<ExportResult> {
     // First create a clean markdown (no inlining)
-    let markdown = MarkdownFormatter.format(turns, metadata);
+    let markdown = MarkdownFormatter.format(turns, metadata, {
+      includeOutline: options.includeOutline,
+      profile: options.profile,
+    });
 
-    // Strip image source attribution lines if user opted out
-    if (options.includeImageSource === false) {
+    // Strip image source attribution lines if user opted out; a profile decides for itself
+    const includeImageSource = options.profile
+      ? options.profile.includeImageSource
+      : options.includeImageSource !== false;
+    if (!includeImageSource) {
       markdown = markdown.replace(/\n\*Source: \[[^\]]*\]\([^)]*\)\*\n/g, '\n');
     }
 
-    const filename = options.filename || this.generateFilename('md', metadata.title);
+    const filename = options.filename || this.generateFilename('md', metadata, options.profile);
     const finalFilename = await this.downloadMarkdownOrZip(markdown, filename, 'chat.md');
     return { success: true, format: 'markdown' as ExportFormat, filename: finalFilename };
   }
@@ -200,14 +247,17 @@ export class ConversationExportService {
     metadata: ConversationMetadata,
     options: ExportOptions,
   ): Promise<ExportResult> {
-    await PDFPrintService.export(turns, metadata, { fontSize: options.fontSize });
+    await PDFPrintService.export(turns, metadata, {
+      fontSize: options.fontSize,
+      includeOutline: options.includeOutline,
+    });
 
     // Note: We can't get the actual filename from print dialog
     // User chooses filename in Save as PDF dialog
     return {
       success: true,
       format: 'pdf' as ExportFormat,
-      filename: options.filename || this.generateFilename('pdf', metadata.title),
+      filename: options.filename || this.generateFilename('pdf', metadata, options.profile),
     };
   }
 
@@ -219,11 +269,37 @@ export class ConversationExportService {
     metadata: ConversationMetadata,
     options: ExportOptions,
   ): Promise<ExportResult> {
-    const filename = options.filename || this.generateFilename('png', metadata.title);
+    const filename = options.filename || this.generateFilename('png', metadata, options.profile);
     await ImageExportService.export(turns, metadata, { filename, fontSize: options.fontSize });
     return { success: true, format: 'image' as ExportFormat, filename };
   }
 
+  /**
+   * Export as a self-contained HTML page
+   */
+  private static async exportHTML(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    options: ExportOptions,
+  ): Promise<ExportResult> {
+    const filename = options.filename || this.generateFilename('html', metadata, options.profile);
+    await HTMLExportService.export(turns, metadata, { filename });
+    return { success: true, format: 'html' as ExportFormat, filename };
+  }
+
+  /**
+   * Export as a Word document with native equations
+   */
+  private static async exportDOCX(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    options: ExportOptions,
+  ): Promise<ExportResult> {
+    const filename = options.filename || this.generateFilename('docx', metadata, options.profile);
+    await DocxExportService.export(turns, metadata, { filename });
+    return { success: true, format: 'docx' as ExportFormat, filename };
+  }
+
   private static exportDocumentJSON(
     content: { markdown: string; html: string },
     metadata: ConversationMetadata,
@@ -240,7 +316,7 @@ export class ConversationExportService {
       },
     };
 
-    const filename = options.filename || this.generateFilename('json', metadata.title);
+    const filename = options.filename || this.generateFilename('json', metadata, options.profile);
     this.downloadJSON(payload, filename);
     return {
       success: true,
@@ -254,8 +330,8 @@ export class ConversationExportService {
     metadata: ConversationMetadata,
     options: ExportOptions,
   ): Promise<ExportResult> {
-    const markdown = this.composeDocumentMarkdown(content.markdown, metadata);
-    const filename = options.filename || this.generateFilename('md', metadata.title);
+    const markdown = this.composeDocumentMarkdown(content.markdown, metadata, options.profile);
+    const filename = options.filename || this.generateFilename('md', metadata, options.profile);
     const mdEntryName = filename.toLowerCase().endsWith('.md')
       ? filename.split('/').pop() || 'report.md'
       : 'report.md';
@@ -284,7 +360,7 @@ export class ConversationExportService {
     return {
       success: true,
       format: 'pdf' as ExportFormat,
-      filename: options.filename || this.generateFilename('pdf', metadata.title),
+      filename: options.filename || this.generateFilename('pdf', metadata, options.profile),
     };
   }
 
@@ -293,7 +369,7 @@ export class ConversationExportService {
     metadata: ConversationMetadata,
     options: ExportOptions,
   ): Promise<ExportResult> {
-    const filename = options.filename || this.generateFilename('png', metadata.title);
+    const filename = options.filename || this.generateFilename('png', metadata, options.profile);
     await ImageExportService.exportDocument(
       {
         title: metadata.title || 'Deep Research Report',
@@ -312,6 +388,56 @@ export class ConversationExportService {
     };
   }
 
+  private static async exportDocumentHTML(
+    content: { markdown: string; html: string },
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    options: ExportOptions,
+  ): Promise<ExportResult> {
+    const filename = options.filename || this.generateFilename('html', metadata, options.profile);
+    await HTMLExportService.exportDocument(
+      {
+        title: metadata.title || 'Deep Research Report',
+        url: metadata.url,
+        exportedAt: metadata.exportedAt,
+        markdown: content.markdown,
+        html: content.html,
+        sourceElement: turns.find((turn) => turn.assistantElement)?.assistantElement,
+      },
+      { filename },
+    );
+
+    return {
+      success: true,
+      format: 'html' as ExportFormat,
+      filename,
+    };
+  }
+
+  private static async exportDocumentDOCX(
+    content: { markdown: string; html: string },
+    metadata: ConversationMetadata,
+    options: ExportOptions,
+  ): Promise<ExportResult> {
+    const filename = options.filename || this.generateFilename('docx', metadata, options.profile);
+    await DocxExportService.exportDocument(
+      {
+        title: metadata.title || 'Deep Research Report',
+        url: metadata.url,
+        exportedAt: metadata.exportedAt,
+        markdown: content.markdown,
+        html: content.html,
+      },
+      { filename },
+    );
+
+    return {
+      success: true,
+      format: 'docx' as ExportFormat,
+      filename,
+    };
+  }
+
   private static extractDocumentContent(turns: ChatTurn[]): { markdown: string; html: string } {
     const turn =
       turns.find((item) => item.assistantElement || item.assistant.trim()) ||
@@ -344,8 +470,16 @@ export class ConversationExportService {
     };
   }
 
-  private static composeDocumentMarkdown(content: string, metadata: ConversationMetadata): string {
+  private static composeDocumentMarkdown(
+    content: string,
+    metadata: ConversationMetadata,
+    profile?: ExportProfile,
+  ): string {
     const sections: string[] = [];
+    const frontMatter = profile
+      ? ExportProfileService.renderFrontMatter(profile.frontMatter, metadata)
+      : '';
+    if (frontMatter) sections.push(frontMatter);
     const title = metadata.title?.trim() || 'Deep Research Report';
     const trimmedContent = content.trim() || '_No content_';
     const startsWithHeading = this.hasLeadingMarkdownHeading(trimmedContent);
@@ -398,7 +532,42 @@ export class ConversationExportService {
     }
 
     const zip = new JSZip();
-    const assetsFolder = zip.folder('assets');
+    const packaged = await this.packageMarkdownImages(zip, markdown, { directory: 'assets' });
+    zip.file(markdownEntryName, packaged.markdown);
+
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    const zipFilename = normalizedFilename.replace(/\.md$/i, '.zip');
+    const url = URL.createObjectURL(zipBlob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = zipFilename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    setTimeout(() => {
+      try {
+        document.body.removeChild(anchor);
+      } catch {
+        /* ignore */
+      }
+      URL.revokeObjectURL(url);
+    }, 0);
+
+    return zipFilename;
+  }
+
+  /**
+   * Fetch the images of a Markdown document into a ZIP directory and point the image links
+   * at the packaged files. Images that cannot be fetched keep their remote URL.
+   * @param options.linkPrefix Path from the Markdown file to the ZIP root, e.g. `../`
+   * @param options.firstIndex Number of the first image file, to keep names unique across files
+   * @returns The rewritten Markdown and the number to continue image file names from
+   */
+  static async packageMarkdownImages(
+    zip: JSZip,
+    markdown: string,
+    options: { directory: string; linkPrefix?: string; firstIndex?: number },
+  ): Promise<{ markdown: string; nextIndex: number }> {
+    const imageUrls = MarkdownFormatter.extractImageUrls(markdown);
     const mapping = new Map<string, string>();
 
     const fetchedByOrder = await Promise.all(
@@ -415,38 +584,22 @@ export class ConversationExportService {
       }),
     );
 
-    let index = 1;
+    const folder = zip.folder(options.directory);
+    let index = options.firstIndex ?? 1;
     for (const item of fetchedByOrder) {
       if (!item) continue;
       const extension = this.pickImageExtension(item.contentType, item.url);
       const fileName = `img-${String(index++).padStart(3, '0')}.${extension}`;
       const base64Payload = await this.blobToBase64Payload(item.blob);
       if (!base64Payload) continue;
-      assetsFolder?.file(fileName, base64Payload, { base64: true });
-      mapping.set(item.url, `assets/${fileName}`);
+      folder?.file(fileName, base64Payload, { base64: true });
+      mapping.set(item.url, `${options.linkPrefix ?? ''}${options.directory}/${fileName}`);
     }
 
-    const packagedMarkdown = MarkdownFormatter.rewriteImageUrls(markdown, mapping);
-    zip.file(markdownEntryName, packagedMarkdown);
-
-    const zipBlob = await zip.generateAsync({ type: 'blob' });
-    const zipFilename = normalizedFilename.replace(/\.md$/i, '.zip');
-    const url = URL.createObjectURL(zipBlob);
-    const anchor = document.createElement('a');
-    anchor.href = url;
-    anchor.download = zipFilename;
-    document.body.appendChild(anchor);
-    anchor.click();
-    setTimeout(() => {
-      try {
-        document.body.removeChild(anchor);
-      } catch {
-        /* ignore */
-      }
-      URL.revokeObjectURL(url);
-    }, 0);
-
-    return zipFilename;
+    return {
+      markdown: MarkdownFormatter.rewriteImageUrls(markdown, mapping),
+      nextIndex: index,
+    };
   }
 
   /**
@@ -617,8 +770,21 @@ export class ConversationExportService {
   /**
    * Generate filename with timestamp
    */
-  private static generateFilename(extension: string, title?: string): string {
-    const titlePart = this.sanitizeFilenamePart(title);
+  private static generateFilename(
+    extension: string,
+    metadata: ConversationMetadata,
+    profile?: ExportProfile,
+  ): string {
+    if (profile) {
+      const rendered = ExportProfileService.renderFilename(
+        profile.filenamePattern,
+        metadata,
+        extension,
+      );
+      if (rendered) return rendered;
+    }
+
+    const titlePart = ExportProfileService.sanitizeFilenamePart(metadata.title);
     if (titlePart) {
       return `${titlePart}.${extension}`;
     }
@@ -634,19 +800,6 @@ export class ConversationExportService {
     return `gemini-chat-${y}${m}${day}-${hh}${mm}${ss}.${extension}`;
   }
 
-  private static sanitizeFilenamePart(title?: string): string {
-    if (!title) return '';
-
-    const compact = title.trim().replace(/\s+/g, ' ');
-    if (!compact) return '';
-
-    return compact
-      .replace(/[\\/:*?"<>|]/g, '')
-      .replace(/\s+/g, '-')
-      .replace(/\.+$/g, '')
-      .slice(0, 80);
-  }
-
   /**
    * Get available export formats
    */
@@ -678,6 +831,16 @@ export class ConversationExportService {
         label: 'Image',
         description: 'Single PNG image for sharing',
       },
+      {
+        format: 'html' as ExportFormat,
+        label: 'HTML',
+        description: 'Self-contained web page with images, formulas and diagrams',
+      },
+      {
+        format: 'docx' as ExportFormat,
+        label: 'Word',
+        description: 'Editable Word document with native equations',
+      },
     ];
   }
 }
@@ -0,0 +1,773 @@
+/**
+ * DOCX export service
+ *
+ * Builds a Word document from the structured HTML produced by DOMContentExtractor: headings,
+ * lists, tables, code blocks and images map to Word styles, and formulas become native,
+ * editable Word equations (LaTeX → Word MathML → OMML). The OOXML package is written with JSZip.
+ */
+import JSZip from 'jszip';
+
+import { latexToWordMathML } from '@/features/formulaCopy/wordMathML';
+
+import type { ChatTurn, ConversationMetadata } from '../types/export';
+import { DOMContentExtractor } from './DOMContentExtractor';
+import { OmmlConverter } from './OmmlConverter';
+import { PDFPrintService } from './PDFPrintService';
+
+export interface DocxDocumentContent {
+  title: string;
+  url: string;
+  exportedAt: string;
+  markdown: string;
+  html: string;
+}
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  underline?: boolean;
+  vertAlign?: 'superscript' | 'subscript';
+  hyperlink?: boolean;
+}
+
+interface ListItemState {
+  numId: number;
+  level: number;
+  numbered: boolean;
+}
+
+interface BlockOptions {
+  style?: string;
+  format?: RunFormat;
+  listItem?: ListItemState;
+}
+
+interface ParagraphOptions {
+  style?: string;
+  numbering?: { numId: number; level: number };
+  indentLevel?: number;
+  align?: 'center';
+}
+
+interface Relationship {
+  id: string;
+  type: 'image' | 'hyperlink';
+  target: string;
+}
+
+/** State shared while one document is converted */
+interface DocxContext {
+  relationships: Relationship[];
+  media: Array<{ path: string; base64: string; extension: string }>;
+  lists: Array<{ numId: number; ordered: boolean; start: number }>;
+  headingOffset: number;
+  drawingCount: number;
+}
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  m: 'http://schemas.openxmlformats.org/officeDocument/2006/math',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+} as const;
+
+const RELATIONSHIP_TYPES = {
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+  hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+  officeDocument:
+    'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  coreProperties:
+    'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+} as const;
+
+/** Image types Word can embed without a fallback rendition */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/webp': 'webp',
+};
+
+const BLOCK_TAGS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'pre',
+  'table',
+  'blockquote',
+  'hr',
+  'div',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'figure',
+  'details',
+]);
+
+export class DocxExportService {
+  static readonly MIME_TYPE =
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+  /** Usable page width (A4 minus 1" margins) in EMU */
+  private static readonly MAX_IMAGE_WIDTH_EMU = 5_760_720;
+
+  private static readonly EMU_PER_PX = 9525;
+
+  private static readonly FALLBACK_IMAGE_SIZE = { width: 480, height: 360 };
+
+  static async export(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    options: { filename: string },
+  ): Promise<void> {
+    const blob = await this.renderConversationBlob(turns, metadata);
+    this.downloadBlob(blob, this.withDocxExtension(options.filename));
+  }
+
+  static async exportDocument(
+    content: DocxDocumentContent,
+    options: { filename: string },
+  ): Promise<void> {
+    const blob = await this.renderDocumentBlob(content);
+    this.downloadBlob(blob, this.withDocxExtension(options.filename));
+  }
+
+  /**
+   * Render a conversation: one heading per turn with the user and assistant messages below it
+   */
+  static async renderConversationBlob(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+  ): Promise<Blob> {
+    // Turns are Heading 1, so headings inside answers move one level down
+    const ctx = this.createContext(1);
+    const title = metadata.title?.trim() || 'Untitled Conversation';
+    const parts: string[] = [
+      this.paragraph(this.textRun(title), { style: 'Title' }),
+      this.renderMeta(
+        ctx,
+        metadata.url,
+        metadata.exportedAt,
+        `${metadata.count} conversation turns`,
+      ),
+    ];
+
+    for (const [i, turn] of turns.entries()) {
+      parts.push(
+        this.paragraph(this.textRun(`Turn ${i + 1}${turn.starred ? ' ★' : ''}`), {
+          style: 'Heading1',
+        }),
+      );
+
+      const userHtml = turn.userElement
+        ? DOMContentExtractor.extractUserContent(turn.userElement).html
+        : this.formatPlainTextAsHtml(turn.user);
+      const assistantHtml = turn.assistantElement
+        ? DOMContentExtractor.extractAssistantContent(turn.assistantElement).html
+        : this.formatPlainTextAsHtml(turn.assistant);
+
+      const showUser = !turn.omitEmptySections || !!turn.userElement || !!turn.user.trim();
+      const showAssistant =
+        !turn.omitEmptySections || !!turn.assistantElement || !!turn.assistant.trim();
+
+      if (showUser) {
+        parts.push(this.paragraph(this.textRun('User'), { style: 'Role' }));
+        parts.push(await this.convertHtml(userHtml, ctx));
+      }
+      if (showAssistant) {
+        parts.push(this.paragraph(this.textRun('Assistant'), { style: 'Role' }));
+        parts.push(await this.convertHtml(assistantHtml, ctx));
+      }
+    }
+
+    return await this.buildPackage(title, metadata.exportedAt, parts.join(''), ctx);
+  }
+
+  /**
+   * Render a single report (document layout) with its own headings kept as-is
+   */
+  static async renderDocumentBlob(content: DocxDocumentContent): Promise<Blob> {
+    const ctx = this.createContext(0);
+    const title = content.title.trim() || 'Deep Research Report';
+    const bodyHtml = content.html.trim() || this.formatPlainTextAsHtml(content.markdown);
+
+    const body = [
+      this.paragraph(this.textRun(title), { style: 'Title' }),
+      this.renderMeta(ctx, content.url, content.exportedAt),
+      await this.convertHtml(bodyHtml, ctx),
+    ].join('');
+
+    return await this.buildPackage(title, content.exportedAt, body, ctx);
+  }
+
+  private static createContext(headingOffset: number): DocxContext {
+    return { relationships: [], media: [], lists: [], headingOffset, drawingCount: 0 };
+  }
+
+  private static renderMeta(
+    ctx: DocxContext,
+    url: string,
+    exportedAt: string,
+    detail?: string,
+  ): string {
+    const runs = [
+      this.textRun(`${this.formatDate(exportedAt)} · `),
+      this.hyperlink(ctx, url, this.textRun(url, { hyperlink: true })),
+      detail ? this.textRun(` · ${detail}`) : '',
+    ];
+    return this.paragraph(runs.join(''), { style: 'Subtitle' });
+  }
+
+  /**
+   * Convert extracted HTML to body XML; images are inlined first so they can be embedded
+   */
+  private static async convertHtml(html: string, ctx: DocxContext): Promise<string> {
+    const container = document.createElement('div');
+    container.innerHTML = html.trim() || '<p><em>No content</em></p>';
+    container.querySelectorAll('script, style, template').forEach((element) => element.remove());
+    await PDFPrintService.inlineImages(container).catch(() => {
+      /* images that cannot be fetched are exported as links */
+    });
+    return this.convertBlocks(container, ctx, {});
+  }
+
+  /**
+   * Convert the children of a block container. Consecutive inline nodes are grouped into
+   * one paragraph; block elements produce their own paragraphs, lists and tables.
+   */
+  private static convertBlocks(parent: Node, ctx: DocxContext, options: BlockOptions): string {
+    const parts: string[] = [];
+    let inlineNodes: Node[] = [];
+
+    const flush = () => {
+      const runs = inlineNodes
+        .map((node) => this.convertInline(node, ctx, options.format))
+        .join('');
+      inlineNodes = [];
+      if (runs) parts.push(this.paragraph(runs, this.consumeListItem(options)));
+    };
+
+    for (const node of Array.from(parent.childNodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        if ((node.textContent || '').trim() || inlineNodes.length > 0) inlineNodes.push(node);
+        continue;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+      const element = node as HTMLElement;
+      if (!this.isBlock(element)) {
+        inlineNodes.push(element);
+        continue;
+      }
+
+      flush();
+      parts.push(this.convertBlock(element, ctx, options));
+    }
+    flush();
+
+    return parts.join('');
+  }
+
+  private static isBlock(element: HTMLElement): boolean {
+    return BLOCK_TAGS.has(element.tagName.toLowerCase()) || this.isDisplayMath(element);
+  }
+
+  private static isDisplayMath(element: HTMLElement): boolean {
+    return element.classList.contains('math-block');
+  }
+
+  private static convertBlock(
+    element: HTMLElement,
+    ctx: DocxContext,
+    options: BlockOptions,
+  ): string {
+    const tag = element.tagName.toLowerCase();
+
+    if (this.isDisplayMath(element)) {
+      return this.paragraph(this.convertMath(element, true), {
+        ...this.consumeListItem(options),
+        align: 'center',
+      });
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      const level = Math.min(Number(tag[1]) + ctx.headingOffset, 6);
+      return this.paragraph(this.convertInlineChildren(element, ctx, options.format), {
+        style: `Heading${level}`,
+      });
+    }
+
+    switch (tag) {
+      case 'p':
+        return this.paragraph(
+          this.convertInlineChildren(element, ctx, options.format),
+          this.consumeListItem(options),
+        );
+      case 'ul':
+      case 'ol':
+        return this.convertList(element, ctx, options.listItem ? options.listItem.level + 1 : 0);
+      case 'pre':
+        return this.convertCodeBlock(element);
+      case 'table':
+        return this.convertTable(element as HTMLTableElement, ctx);
+      case 'blockquote':
+        return this.convertBlocks(element, ctx, { ...options, style: 'Quote' });
+      case 'hr':
+        return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+      default:
+        return this.convertBlocks(element, ctx, options);
+    }
+  }
+
+  /**
+   * Paragraph properties for the next paragraph of a list item: only the first one is numbered
+   */
+  private static consumeListItem(options: BlockOptions): ParagraphOptions {
+    const item = options.listItem;
+    if (!item) return { style: options.style };
+    if (!item.numbered) {
+      item.numbered = true;
+      return { style: 'ListParagraph', numbering: { numId: item.numId, level: item.level } };
+    }
+    return { style: 'ListParagraph', indentLevel: item.level + 1 };
+  }
+
+  private static convertList(list: HTMLElement, ctx: DocxContext, level: number): string {
+    const ordered = list.tagName.toLowerCase() === 'ol';
+    const numId = ctx.lists.length + 1;
+    ctx.lists.push({ numId, ordered, start: Number(list.getAttribute('start')) || 1 });
+
+    return Array.from(list.children)
+      .filter((child) => child.tagName.toLowerCase() === 'li')
+      .map((item) =>
+        this.convertBlocks(item, ctx, {
+          listItem: { numId, level: Math.min(level, 8), numbered: false },
+        }),
+      )
+      .join('');
+  }
+
+  private static convertCodeBlock(pre: HTMLElement): string {
+    const code = (pre.textContent || '').replace(/\r\n?/g, '\n').replace(/\n$/, '');
+    const runs = code
+      .split('\n')
+      .map((line, i) => {
+        const segments = line
+          .split('\t')
+          .map((segment) =>
+            segment ? `<w:t xml:space="preserve">${this.escapeXml(segment)}</w:t>` : '',
+          )
+          .join('<w:tab/>');
+        return `<w:r>${i > 0 ? '<w:br/>' : ''}${segments}</w:r>`;
+      })
+      .join('');
+    return this.paragraph(runs, { style: 'Code' });
+  }
+
+  private static convertTable(table: HTMLTableElement, ctx: DocxContext): string {
+    const rows = Array.from(table.rows);
+    if (rows.length === 0) return '';
+
+    const columnCount = Math.max(
+      ...rows.map((row) =>
+        Array.from(row.cells).reduce((sum, cell) => sum + Math.max(cell.colSpan || 1, 1), 0),
+      ),
+    );
+    if (columnCount === 0) return '';
+    const columnWidth = Math.floor(9026 / columnCount);
+
+    const rowsXml = rows
+      .map((row) => {
+        const isHeader =
+          row.parentElement?.tagName.toLowerCase() === 'thead' ||
+          Array.from(row.cells).every((cell) => cell.tagName.toLowerCase() === 'th');
+        const cells = Array.from(row.cells)
+          .map((cell) => {
+            const span = Math.max(cell.colSpan || 1, 1);
+            const content =
+              this.convertBlocks(cell, ctx, { format: isHeader ? { bold: true } : undefined }) ||
+              '<w:p/>';
+            return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth * span}" w:type="dxa"/>${
+              span > 1 ? `<w:gridSpan w:val="${span}"/>` : ''
+            }</w:tcPr>${content}</w:tc>`;
+          })
+          .join('');
+        return `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+      })
+      .join('');
+
+    const grid = Array.from(
+      { length: columnCount },
+      () => `<w:gridCol w:w="${columnWidth}"/>`,
+    ).join('');
+    // An empty paragraph keeps adjacent tables from merging
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${rowsXml}</w:tbl><w:p/>`;
+  }
+
+  private static convertInlineChildren(
+    element: Node,
+    ctx: DocxContext,
+    format: RunFormat = {},
+  ): string {
+    return Array.from(element.childNodes)
+      .map((child) => this.convertInline(child, ctx, format))
+      .join('');
+  }
+
+  private static convertInline(node: Node, ctx: DocxContext, format: RunFormat = {}): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return this.textRun((node.textContent || '').replace(/\s+/g, ' '), format);
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toLowerCase();
+
+    if (element.hasAttribute('data-math') || element.classList.contains('katex')) {
+      return this.convertMath(element, false);
+    }
+
+    switch (tag) {
+      case 'br':
+        return '<w:r><w:br/></w:r>';
+      case 'img':
+        return this.convertImage(element as HTMLImageElement, ctx);
+      case 'strong':
+      case 'b':
+        return this.convertInlineChildren(element, ctx, { ...format, bold: true });
+      case 'em':
+      case 'i':
+        return this.convertInlineChildren(element, ctx, { ...format, italic: true });
+      case 'u':
+        return this.convertInlineChildren(element, ctx, { ...format, underline: true });
+      case 's':
+      case 'del':
+      case 'strike':
+        return this.convertInlineChildren(element, ctx, { ...format, strike: true });
+      case 'sup':
+        return this.convertInlineChildren(element, ctx, { ...format, vertAlign: 'superscript' });
+      case 'sub':
+        return this.convertInlineChildren(element, ctx, { ...format, vertAlign: 'subscript' });
+      case 'code':
+        return this.textRun(element.textContent || '', { ...format, code: true });
+      case 'a': {
+        const href = element.getAttribute('href') || '';
+        const runs = this.convertInlineChildren(element, ctx, { ...format, hyperlink: true });
+        return /^(https?:|mailto:)/i.test(href) ? this.hyperlink(ctx, href, runs) : runs;
+      }
+      case 'button':
+      case 'mat-icon':
+        return '';
+      default:
+        return this.convertInlineChildren(element, ctx, format);
+    }
+  }
+
+  /**
+   * Native Word equation from the formula's LaTeX source; falls back to the LaTeX as text
+   */
+  private static convertMath(element: HTMLElement, display: boolean): string {
+    const latex = (
+      element.getAttribute('data-math') ||
+      element.querySelector('annotation[encoding="application/x-tex"]')?.textContent ||
+      ''
+    ).trim();
+    if (!latex) return this.textRun(element.textContent || '');
+
+    try {
+      const omml = OmmlConverter.fromMathML(latexToWordMathML(latex, display));
+      if (omml) return omml;
+    } catch {
+      /* unsupported LaTeX, keep the source */
+    }
+    return this.textRun(display ? latex : `$${latex}$`, { code: true });
+  }
+
+  private static convertImage(img: HTMLImageElement, ctx: DocxContext): string {
+    const src = img.getAttribute('src') || '';
+    const alt = img.getAttribute('alt') || 'Image';
+    const match = /^data:([^;,]+);base64,(.*)$/s.exec(src);
+    const extension = match ? IMAGE_EXTENSIONS[match[1].toLowerCase()] : undefined;
+
+    if (!match || !extension) {
+      // Not embeddable (fetch failed or unsupported type): keep a link to the original
+      return /^https?:/i.test(src)
+        ? this.hyperlink(ctx, src, this.textRun(`[${alt}]`, { hyperlink: true }))
+        : this.textRun(`[${alt}]`);
+    }
+
+    const index = ctx.media.length + 1;
+    const path = `media/image${index}.${extension}`;
+    ctx.media.push({ path, base64: match[2], extension });
+    const relId = this.addRelationship(ctx, 'image', path);
+
+    const { width, height } = this.getImageSize(img);
+    const drawingId = ++ctx.drawingCount;
+    const descr = this.escapeXml(alt);
+
+    return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${width}" cy="${height}"/><wp:docPr id="${drawingId}" name="Picture ${drawingId}" descr="${descr}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="${NS.pic}"><pic:pic><pic:nvPicPr><pic:cNvPr id="${drawingId}" name="image${index}.${extension}" descr="${descr}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+  }
+
+  /**
+   * Image size in EMU, scaled down to the page width
+   */
+  private static getImageSize(img: HTMLImageElement): { width: number; height: number } {
+    const width = img.naturalWidth || Number(img.getAttribute('width')) || 0;
+    const height = img.naturalHeight || Number(img.getAttribute('height')) || 0;
+    const size =
+      width > 0 && height > 0 ? { width, height } : DocxExportService.FALLBACK_IMAGE_SIZE;
+
+    const widthEmu = size.width * this.EMU_PER_PX;
+    const scale = Math.min(1, this.MAX_IMAGE_WIDTH_EMU / widthEmu);
+    return {
+      width: Math.round(widthEmu * scale),
+      height: Math.round(size.height * this.EMU_PER_PX * scale),
+    };
+  }
+
+  private static hyperlink(ctx: DocxContext, href: string, runs: string): string {
+    const relId = this.addRelationship(ctx, 'hyperlink', href);
+    return `<w:hyperlink r:id="${relId}" w:history="1">${runs}</w:hyperlink>`;
+  }
+
+  private static addRelationship(
+    ctx: DocxContext,
+    type: Relationship['type'],
+    target: string,
+  ): string {
+    // rId1 and rId2 are reserved for styles and numbering
+    const id = `rId${ctx.relationships.length + 3}`;
+    ctx.relationships.push({ id, type, target });
+    return id;
+  }
+
+  private static textRun(text: string, format: RunFormat = {}): string {
+    if (!text) return '';
+    // Only one character style is allowed per run; links win over inline code
+    const style = format.hyperlink ? 'Hyperlink' : format.code ? 'CodeChar' : '';
+    const properties = [
+      style ? `<w:rStyle w:val="${style}"/>` : '',
+      format.bold ? '<w:b/>' : '',
+      format.italic ? '<w:i/>' : '',
+      format.strike ? '<w:strike/>' : '',
+      format.underline ? '<w:u w:val="single"/>' : '',
+      format.vertAlign ? `<w:vertAlign w:val="${format.vertAlign}"/>` : '',
+    ]
+      .filter(Boolean)
+      .join('');
+    return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}<w:t xml:space="preserve">${this.escapeXml(text)}</w:t></w:r>`;
+  }
+
+  private static paragraph(content: string, options: ParagraphOptions = {}): string {
+    const properties = [
+      options.style ? `<w:pStyle w:val="${options.style}"/>` : '',
+      options.numbering
+        ? `<w:numPr><w:ilvl w:val="${options.numbering.level}"/><w:numId w:val="${options.numbering.numId}"/></w:numPr>`
+        : '',
+      options.indentLevel ? `<w:ind w:left="${options.indentLevel * 720}"/>` : '',
+      options.align ? `<w:jc w:val="${options.align}"/>` : '',
+    ].join('');
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+  }
+
+  private static async buildPackage(
+    title: string,
+    exportedAt: string,
+    body: string,
+    ctx: DocxContext,
+  ): Promise<Blob> {
+    const zip = new JSZip();
+    const imageExtensions = Array.from(new Set(ctx.media.map((item) => item.extension)));
+
+    zip.file('[Content_Types].xml', this.renderContentTypes(imageExtensions));
+    zip.file(
+      '_rels/.rels',
+      this.renderRelationships([
+        { id: 'rId1', type: RELATIONSHIP_TYPES.officeDocument, target: 'word/document.xml' },
+        { id: 'rId2', type: RELATIONSHIP_TYPES.coreProperties, target: 'docProps/core.xml' },
+      ]),
+    );
+    zip.file('docProps/core.xml', this.renderCoreProperties(title, exportedAt));
+    zip.file('word/document.xml', this.renderDocument(body));
+    zip.file('word/styles.xml', this.renderStyles());
+    zip.file('word/numbering.xml', this.renderNumbering(ctx.lists));
+    zip.file(
+      'word/_rels/document.xml.rels',
+      this.renderRelationships([
+        { id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+        { id: 'rId2', type: RELATIONSHIP_TYPES.numbering, target: 'numbering.xml' },
+        ...ctx.relationships.map((relationship) => ({
+          id: relationship.id,
+          type: RELATIONSHIP_TYPES[relationship.type],
+          target: relationship.target,
+          external: relationship.type === 'hyperlink',
+        })),
+      ]),
+    );
+    ctx.media.forEach((item) => zip.file(`word/${item.path}`, item.base64, { base64: true }));
+
+    return await zip.generateAsync({ type: 'blob', mimeType: this.MIME_TYPE });
+  }
+
+  private static renderDocument(body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}" xmlns:m="${NS.m}"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+  }
+
+  private static renderContentTypes(imageExtensions: string[]): string {
+    const images = imageExtensions
+      .map((extension) => `<Default Extension="${extension}" ContentType="image/${extension}"/>`)
+      .join('');
+    const main = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/>${images}<Override PartName="/word/document.xml" ContentType="${main}.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="${main}.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="${main}.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+  }
+
+  private static renderRelationships(
+    relationships: Array<{ id: string; type: string; target: string; external?: boolean }>,
+  ): string {
+    const items = relationships
+      .map(
+        (relationship) =>
+          `<Relationship Id="${relationship.id}" Type="${relationship.type}" Target="${this.escapeXml(relationship.target)}"${
+            relationship.external ? ' TargetMode="External"' : ''
+          }/>`,
+      )
+      .join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${NS.rel}">${items}</Relationships>`;
+  }
+
+  private static renderCoreProperties(title: string, exportedAt: string): string {
+    const created = Number.isNaN(Date.parse(exportedAt))
+      ? new Date().toISOString()
+      : new Date(exportedAt).toISOString();
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${this.escapeXml(title)}</dc:title><dc:creator>Gemini Voyager</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created></cp:coreProperties>`;
+  }
+
+  private static renderStyles(): string {
+    const heading = (level: number, size: number) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${NS.w}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+      '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="80"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="360"/></w:pPr><w:rPr><w:color w:val="666666"/><w:sz w:val="20"/></w:rPr></w:style>' +
+      [32, 28, 26, 24, 22, 22].map((size, i) => heading(i + 1, size)).join('') +
+      '<w:style w:type="paragraph" w:styleId="Role"><w:name w:val="Message Role"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="60"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="5F6368"/><w:sz w:val="18"/></w:rPr></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D0D7DE"/></w:pBdr><w:ind w:left="360"/></w:pPr><w:rPr><w:i/><w:color w:val="555555"/></w:rPr></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>' +
+      '<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Inline Code"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/></w:rPr></w:style>' +
+      '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>' +
+      '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:left w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:right w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/></w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>' +
+      '</w:styles>'
+    );
+  }
+
+  /**
+   * One abstract definition for bullets and one for numbers; every list gets its own
+   * instance so numbered lists restart at their start value
+   */
+  private static renderNumbering(lists: DocxContext['lists']): string {
+    const bullets = ['•', '◦', '▪'];
+    const numberFormats = ['decimal', 'lowerLetter', 'lowerRoman'];
+    const levels = (ordered: boolean) =>
+      Array.from({ length: 9 }, (_, level) => {
+        const format = ordered ? numberFormats[level % 3] : 'bullet';
+        const text = ordered ? `%${level + 1}.` : bullets[level % 3];
+        return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+      }).join('');
+
+    const instances = lists
+      .map(
+        (list) =>
+          `<w:num w:numId="${list.numId}"><w:abstractNumId w:val="${list.ordered ? 1 : 0}"/>${Array.from(
+            { length: 9 },
+            (_, level) =>
+              `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${level === 0 ? list.start : 1}"/></w:lvlOverride>`,
+          ).join('')}</w:num>`,
+      )
+      .join('');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${NS.w}"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>${instances}</w:numbering>`;
+  }
+
+  private static formatPlainTextAsHtml(text: string): string {
+    const safe = (text || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    if (!safe.trim()) return '';
+    return safe
+      .split(/\n\n+/)
+      .map((paragraph) => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('');
+  }
+
+  private static withDocxExtension(filename: string): string {
+    return filename.toLowerCase().endsWith('.docx') ? filename : `${filename}.docx`;
+  }
+
+  private static downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    setTimeout(() => {
+      try {
+        document.body.removeChild(a);
+      } catch {
+        /* ignore */
+      }
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+
+  /**
+   * Escape text for XML, dropping control characters that XML 1.0 does not allow
+   */
+  private static escapeXml(text: string): string {
+    return String(text)
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private static formatDate(iso: string): string {
+    try {
+      const d = new Date(iso);
+      return d.toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    } catch {
+      return iso;
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Export profiles
+ * Saved filename patterns and Markdown layouts. Profiles are plain data kept in storage by the
+ * content script; this service renders them and validates what comes back from storage.
+ */
+import type {
+  ConversationMetadata,
+  ExportFrontMatterField,
+  ExportProfile,
+  ExportTurnHeadingStyle,
+} from '../types/export';
+
+export const EXPORT_FRONT_MATTER_FIELDS: readonly ExportFrontMatterField[] = [
+  'title',
+  'url',
+  'model',
+  'exportedAt',
+  'folder',
+  'tags',
+];
+
+export const EXPORT_TURN_HEADING_STYLES: readonly ExportTurnHeadingStyle[] = [
+  'number',
+  'title',
+  'numberAndTitle',
+];
+
+/** Placeholders understood in filename patterns, without braces */
+export const EXPORT_FILENAME_PLACEHOLDERS = [
+  'date',
+  'time',
+  'title',
+  'id',
+  'model',
+  'folder',
+] as const;
+
+const DEFAULT_FILENAME_PATTERN = '{date}-{title}';
+const MAX_FILENAME_LENGTH = 120;
+const FILENAME_SEPARATORS = /^[-_. ]+|[-_. ]+$/g;
+
+export class ExportProfileService {
+  /**
+   * A new profile with the commonly wanted defaults
+   */
+  static createProfile(name: string, now: number = Date.now()): ExportProfile {
+    return {
+      id: `export_profile_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      filenamePattern: DEFAULT_FILENAME_PATTERN,
+      frontMatter: ['title', 'url', 'exportedAt'],
+      turnHeading: 'number',
+      includeImageSource: true,
+    };
+  }
+
+  /**
+   * Render a filename pattern such as `{date}-{title}-{id}` and append the extension.
+   * A placeholder without a value is dropped together with the separators before it.
+   * Unknown placeholders stay as written. Returns null when nothing usable is left.
+   */
+  static renderFilename(
+    pattern: string,
+    metadata: ConversationMetadata,
+    extension: string,
+  ): string | null {
+    const values = this.getPlaceholderValues(metadata);
+    const rendered = pattern
+      .replace(/([-_. ]*)\{(\w+)\}/g, (match, separators: string, name: string) => {
+        if (!(name in values)) return match;
+        const value = values[name as keyof typeof values];
+        return value ? `${separators}${value}` : '';
+      })
+      .replace(/[\\/:*?"<>|]/g, '')
+      .replace(FILENAME_SEPARATORS, '')
+      .slice(0, MAX_FILENAME_LENGTH)
+      .replace(FILENAME_SEPARATORS, '');
+
+    return rendered ? `${rendered}.${extension}` : null;
+  }
+
+  /**
+   * YAML front matter block (ending with a blank line) for the given fields.
+   * Fields without a value are left out; returns an empty string when none has one.
+   */
+  static renderFrontMatter(
+    fields: readonly ExportFrontMatterField[],
+    metadata: ConversationMetadata,
+  ): string {
+    const lines: string[] = [];
+    fields.forEach((field) => {
+      switch (field) {
+        case 'tags': {
+          const tags = (metadata.tags ?? []).filter((tag) => tag.trim());
+          if (tags.length === 0) return;
+          lines.push('tags:');
+          tags.forEach((tag) => lines.push(`  - ${this.quoteYaml(tag)}`));
+          return;
+        }
+        case 'folder': {
+          const folderPath = metadata.folderPath ?? [];
+          if (folderPath.length > 0) lines.push(`folder: ${this.quoteYaml(folderPath.join('/'))}`);
+          return;
+        }
+        default: {
+          const value = metadata[field]?.trim();
+          if (value) lines.push(`${field}: ${this.quoteYaml(value)}`);
+        }
+      }
+    });
+
+    if (lines.length === 0) return '';
+    return ['---', ...lines, '---', ''].join('\n');
+  }
+
+  /**
+   * Make a title or other value safe to use inside a filename
+   */
+  static sanitizeFilenamePart(value?: string): string {
+    if (!value) return '';
+
+    const compact = value.trim().replace(/\s+/g, ' ');
+    if (!compact) return '';
+
+    return compact
+      .replace(/[\\/:*?"<>|]/g, '')
+      .replace(/\s+/g, '-')
+      .replace(/\.+$/g, '')
+      .slice(0, 80);
+  }
+
+  /**
+   * Keep the well-formed profiles of a stored value, filling in missing options
+   */
+  static normalizeProfiles(value: unknown): ExportProfile[] {
+    if (!Array.isArray(value)) return [];
+
+    const profiles: ExportProfile[] = [];
+    const seen = new Set<string>();
+    value.forEach((item) => {
+      if (!item || typeof item !== 'object') return;
+      const raw = item as Partial<Record<keyof ExportProfile, unknown>>;
+      if (typeof raw.id !== 'string' || !raw.id || seen.has(raw.id)) return;
+      if (typeof raw.name !== 'string') return;
+
+      const frontMatter = Array.isArray(raw.frontMatter)
+        ? Array.from(
+            new Set(
+              raw.frontMatter.filter((field): field is ExportFrontMatterField =>
+                EXPORT_FRONT_MATTER_FIELDS.includes(field as ExportFrontMatterField),
+              ),
+            ),
+          )
+        : [];
+      seen.add(raw.id);
+      profiles.push({
+        id: raw.id,
+        name: raw.name,
+        filenamePattern:
+          typeof raw.filenamePattern === 'string' ? raw.filenamePattern : DEFAULT_FILENAME_PATTERN,
+        frontMatter,
+        turnHeading: EXPORT_TURN_HEADING_STYLES.includes(raw.turnHeading as ExportTurnHeadingStyle)
+          ? (raw.turnHeading as ExportTurnHeadingStyle)
+          : 'number',
+        includeImageSource: raw.includeImageSource !== false,
+      });
+    });
+    return profiles;
+  }
+
+  private static getPlaceholderValues(
+    metadata: ConversationMetadata,
+  ): Record<(typeof EXPORT_FILENAME_PLACEHOLDERS)[number], string> {
+    const parsed = new Date(metadata.exportedAt);
+    const date = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const folderPath = metadata.folderPath ?? [];
+
+    return {
+      date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+      title: this.sanitizeFilenamePart(metadata.title),
+      id: this.sanitizeFilenamePart(metadata.id),
+      model: this.sanitizeFilenamePart(metadata.model),
+      folder: this.sanitizeFilenamePart(folderPath[folderPath.length - 1]),
+    };
+  }
+
+  /**
+   * Double-quoted YAML scalar; JSON string escaping is valid YAML
+   */
+  private static quoteYaml(value: string): string {
+    return JSON.stringify(value);
+  }
+}
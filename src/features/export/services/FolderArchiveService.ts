@@ -0,0 +1,150 @@
+/**
+ * Folder Archive Service
+ * Packages many exported conversations into one ZIP archive with an index file
+ */
+import JSZip from 'jszip';
+
+export type FolderArchiveEntryStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * One conversation of a folder archive
+ */
+export interface FolderArchiveEntry {
+  /** Path of the file inside the archive */
+  path: string;
+  title: string;
+  url: string;
+  /** Folder names from the exported folder down to the conversation's folder */
+  folderPath: string[];
+  status: FolderArchiveEntryStatus;
+  error?: string;
+}
+
+export interface FolderArchiveFile {
+  path: string;
+  content: string;
+}
+
+const MAX_NAME_LENGTH = 80;
+const INDEX_FILE_NAME = 'index.md';
+
+export class FolderArchiveService {
+  /**
+   * Make a string safe to use as a single path segment
+   */
+  static sanitizePathSegment(name: string, fallback: string): string {
+    const cleaned = name
+      .trim()
+      .replace(/\s+/g, ' ')
+      .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '')
+      .replace(/^\.+|\.+$/g, '')
+      .slice(0, MAX_NAME_LENGTH)
+      .trim();
+    return cleaned || fallback;
+  }
+
+  /**
+   * Archive path of a conversation file, unique among the paths already used.
+   * Files go into one directory per subfolder; clashing names get a numeric suffix.
+   */
+  static getEntryPath(
+    folderPath: readonly string[],
+    title: string,
+    extension: string,
+    usedPaths: Set<string>,
+  ): string {
+    const directory = folderPath
+      .map((name) => this.sanitizePathSegment(name, 'folder'))
+      .map((name) => `${name}/`)
+      .join('');
+    const baseName = this.sanitizePathSegment(title, 'conversation');
+
+    let path = `${directory}${baseName}.${extension}`;
+    for (let n = 2; usedPaths.has(path.toLowerCase()) || path === INDEX_FILE_NAME; n++) {
+      path = `${directory}${baseName} (${n}).${extension}`;
+    }
+    usedPaths.add(path.toLowerCase());
+    return path;
+  }
+
+  /**
+   * Markdown index listing every conversation of the archive, including failed ones
+   */
+  static buildIndex(folderName: string, exportedAt: string, entries: FolderArchiveEntry[]): string {
+    const exported = entries.filter((entry) => entry.status === 'done');
+    const failed = entries.filter((entry) => entry.status !== 'done');
+    const escapeLinkText = (text: string) => text.replace(/([[\]\\])/g, '\\$1');
+    const toLinkTarget = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+    const location = (entry: FolderArchiveEntry) =>
+      entry.folderPath.length > 0 ? ` — ${entry.folderPath.join(' / ')}` : '';
+
+    const lines: string[] = [
+      `# ${folderName}`,
+      '',
+      `Exported at: ${exportedAt}`,
+      `Conversations: ${exported.length}/${entries.length}`,
+      '',
+    ];
+
+    exported.forEach((entry) => {
+      lines.push(
+        `- [${escapeLinkText(entry.title)}](${toLinkTarget(entry.path)})${location(entry)} · [source](${entry.url})`,
+      );
+    });
+
+    if (failed.length > 0) {
+      lines.push('', '## Not exported', '');
+      failed.forEach((entry) => {
+        const reason = entry.error ? `: ${entry.error}` : '';
+        lines.push(`- [${escapeLinkText(entry.title)}](${entry.url})${location(entry)}${reason}`);
+      });
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  /**
+   * Build the ZIP archive from rendered files plus the index
+   * @param zip Archive that already holds other files, such as packaged images
+   */
+  static async createArchive(
+    files: FolderArchiveFile[],
+    index: string,
+    zip: JSZip = new JSZip(),
+  ): Promise<Blob> {
+    zip.file(INDEX_FILE_NAME, index);
+    files.forEach((file) => zip.file(file.path, file.content));
+    return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  }
+
+  /**
+   * File name of the downloaded archive
+   */
+  static getArchiveFilename(folderName: string, now: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+    const name = this.sanitizePathSegment(folderName, 'folder').replace(/\s+/g, '-');
+    return `${name}-${date}.zip`;
+  }
+
+  /**
+   * Trigger a browser download of the archive
+   */
+  static download(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename;
+    document.body.appendChild(anchor);
+    anchor.click();
+    setTimeout(() => {
+      try {
+        document.body.removeChild(anchor);
+      } catch {
+        /* ignore */
+      }
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+}
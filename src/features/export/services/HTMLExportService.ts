@@ -0,0 +1,557 @@
+/**
+ * HTML export service
+ *
+ * Generates a single self-contained .html file that can be shared by email or dropped onto
+ * an intranet page: images are inlined as data URLs, formulas are kept as MathML, Mermaid
+ * diagrams as their rendered SVG, and code is highlighted ahead of time. No scripts or
+ * external stylesheets are referenced, so the file renders the same offline.
+ */
+import temml from 'temml';
+
+import type { ChatTurn, ConversationMetadata } from '../types/export';
+import { CodeHighlighter } from './CodeHighlighter';
+import { DOMContentExtractor } from './DOMContentExtractor';
+import { OutlineTocBuilder, type OutlineTocEntry } from './OutlineTocBuilder';
+import { PDFPrintService } from './PDFPrintService';
+
+export interface HTMLDocumentContent {
+  title: string;
+  url: string;
+  exportedAt: string;
+  markdown: string;
+  html: string;
+  /** Rendered report element on the page, used to pick up Mermaid diagrams */
+  sourceElement?: HTMLElement;
+}
+
+interface DocumentSection {
+  id: string;
+  level: 1 | 2 | 3;
+  title: string;
+}
+
+export class HTMLExportService {
+  private static readonly MERMAID_WRAPPER_SELECTOR = '.gv-mermaid-wrapper';
+
+  private static readonly SOURCE_URL = 'https://github.com/Nagi-ovo/gemini-voyager';
+
+  static async export(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    options: { filename: string },
+  ): Promise<void> {
+    const html = await this.renderConversation(turns, metadata);
+    this.downloadHtml(html, this.withHtmlExtension(options.filename));
+  }
+
+  static async exportDocument(
+    content: HTMLDocumentContent,
+    options: { filename: string },
+  ): Promise<void> {
+    const html = await this.renderDocument(content);
+    this.downloadHtml(html, this.withHtmlExtension(options.filename));
+  }
+
+  /**
+   * Render a conversation as a complete HTML page, one collapsible section per turn
+   */
+  static async renderConversation(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+  ): Promise<string> {
+    const diagrams = new Map<string, string>();
+    turns.forEach((turn) => {
+      if (turn.assistantElement) this.collectMermaidDiagrams(turn.assistantElement, diagrams);
+    });
+
+    const entries = OutlineTocBuilder.build(turns);
+    const content = await this.prepareContent(
+      turns.map((turn, i) => this.renderTurn(turn, entries[i])).join('\n'),
+      diagrams,
+    );
+    const title = metadata.title?.trim() || 'Untitled Conversation';
+
+    return this.renderPage(
+      title,
+      `
+      ${this.renderHeader(title, metadata.url, metadata.exportedAt, `${metadata.count} conversation turns`)}
+      ${this.renderTurnList(entries)}
+      <main class="gv-html-content">${content.innerHTML}</main>
+      ${this.renderFooter(metadata.exportedAt)}
+    `,
+    );
+  }
+
+  /**
+   * Render a single report (document layout) as a complete HTML page
+   */
+  static async renderDocument(content: HTMLDocumentContent): Promise<string> {
+    const diagrams = new Map<string, string>();
+    if (content.sourceElement) this.collectMermaidDiagrams(content.sourceElement, diagrams);
+
+    const bodyHtml = content.html.trim() || this.formatPlainTextAsHtml(content.markdown);
+    const body = await this.prepareContent(bodyHtml, diagrams);
+    const sections = this.assignSectionIds(body);
+    const title = content.title.trim() || 'Deep Research Report';
+
+    return this.renderPage(
+      title,
+      `
+      ${this.renderHeader(title, content.url, content.exportedAt)}
+      ${sections.length > 0 ? this.renderSectionList(sections) : ''}
+      <main class="gv-html-content gv-html-report">${body.innerHTML}</main>
+      ${this.renderFooter(content.exportedAt)}
+    `,
+    );
+  }
+
+  /**
+   * Map the source of every rendered Mermaid diagram in `root` to its SVG.
+   * The extractor only keeps the diagram code, so the SVG is matched back by that code.
+   */
+  private static collectMermaidDiagrams(root: HTMLElement, diagrams: Map<string, string>): void {
+    root.querySelectorAll(this.MERMAID_WRAPPER_SELECTOR).forEach((wrapper) => {
+      const svg = wrapper.querySelector('.gv-mermaid-diagram svg');
+      const code = wrapper.querySelector('code');
+      if (!svg || !code) return;
+      diagrams.set(this.getDiagramKey(code.textContent || ''), svg.outerHTML);
+    });
+  }
+
+  private static getDiagramKey(code: string): string {
+    return code.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Turn extracted HTML into its final, self-contained form
+   */
+  private static async prepareContent(
+    html: string,
+    diagrams: Map<string, string>,
+  ): Promise<HTMLElement> {
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    container.querySelectorAll('script, template').forEach((element) => element.remove());
+
+    this.renderMath(container);
+    this.renderDiagrams(container, diagrams);
+    this.highlightCode(container);
+    await PDFPrintService.inlineImages(container).catch(() => {
+      /* keep remote links if inlining fails */
+    });
+
+    return container;
+  }
+
+  /**
+   * Replace KaTeX markup with its MathML, which browsers render without KaTeX's fonts and CSS.
+   * Formulas that only carry their LaTeX source are rendered to MathML here.
+   */
+  private static renderMath(container: HTMLElement): void {
+    container.querySelectorAll<HTMLElement>('[data-math], .katex').forEach((element) => {
+      // Nested .katex nodes of an already replaced formula are detached
+      if (!container.contains(element)) return;
+
+      const display =
+        element.classList.contains('math-block') || !!element.querySelector('.katex-display');
+      const mathml =
+        element.querySelector('.katex-mathml math')?.outerHTML ||
+        this.renderLatex(this.getLatexSource(element), display);
+      if (!mathml) return;
+
+      element.innerHTML = mathml;
+      if (display) element.querySelector('math')?.setAttribute('display', 'block');
+    });
+  }
+
+  private static getLatexSource(element: HTMLElement): string {
+    return (
+      element.getAttribute('data-math') ||
+      element.querySelector('annotation[encoding="application/x-tex"]')?.textContent ||
+      ''
+    ).trim();
+  }
+
+  private static renderLatex(latex: string, displayMode: boolean): string {
+    if (!latex) return '';
+    try {
+      return temml.renderToString(latex, { displayMode, throwOnError: false, trust: false });
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Show the rendered SVG in place of Mermaid code blocks, keeping the code collapsed below
+   */
+  private static renderDiagrams(container: HTMLElement, diagrams: Map<string, string>): void {
+    if (diagrams.size === 0) return;
+
+    container.querySelectorAll('pre > code').forEach((code) => {
+      const svg = diagrams.get(this.getDiagramKey(code.textContent || ''));
+      const pre = code.parentElement;
+      if (!svg || !pre) return;
+
+      const figure = document.createElement('figure');
+      figure.className = 'gv-html-diagram';
+      figure.innerHTML = svg;
+
+      const source = document.createElement('details');
+      source.className = 'gv-html-diagram-source';
+      const summary = document.createElement('summary');
+      summary.textContent = 'Diagram source';
+      source.appendChild(summary);
+
+      pre.replaceWith(figure, source);
+      source.appendChild(pre);
+    });
+  }
+
+  private static highlightCode(container: HTMLElement): void {
+    container.querySelectorAll<HTMLElement>('pre > code').forEach((code) => {
+      const language = /(?:^|\s)language-(\S+)/.exec(code.className)?.[1] ?? '';
+      code.innerHTML = CodeHighlighter.highlight(code.textContent || '', language);
+      if (language && code.parentElement) code.parentElement.dataset.language = language;
+    });
+  }
+
+  /**
+   * Give the report's top-level headings ids so the section list can link to them
+   */
+  private static assignSectionIds(container: HTMLElement): DocumentSection[] {
+    return Array.from(container.querySelectorAll<HTMLElement>('h1, h2, h3'))
+      .map((heading, i) => {
+        heading.id = `section-${i + 1}`;
+        return {
+          id: heading.id,
+          level: Number(heading.tagName[1]) as DocumentSection['level'],
+          title: (heading.textContent || '').replace(/\s+/g, ' ').trim(),
+        };
+      })
+      .filter((section) => section.title.length > 0);
+  }
+
+  private static renderHeader(
+    title: string,
+    url: string,
+    exportedAt: string,
+    detail?: string,
+  ): string {
+    return `
+      <header class="gv-html-header">
+        <h1 class="gv-html-title">${this.escapeHTML(title)}</h1>
+        <p class="gv-html-meta">
+          <time datetime="${this.escapeAttr(exportedAt)}">${this.escapeHTML(this.formatDate(exportedAt))}</time>
+          <span aria-hidden="true">·</span>
+          <a href="${this.escapeAttr(url)}">${this.escapeHTML(url)}</a>
+          ${detail ? `<span aria-hidden="true">·</span> <span>${this.escapeHTML(detail)}</span>` : ''}
+        </p>
+      </header>
+    `;
+  }
+
+  /**
+   * Collapsible list of turns; timeline levels and labels are used when the outline is loaded
+   */
+  private static renderTurnList(entries: OutlineTocEntry[]): string {
+    const items = entries
+      .map(
+        (entry) => `
+          <li class="gv-html-toc-level-${entry.level}">
+            <a href="#${entry.anchorId}"><span class="gv-html-toc-index">${entry.index}</span>${this.escapeHTML(entry.title)}</a>
+          </li>`,
+      )
+      .join('');
+
+    return `
+      <details class="gv-html-toc" open>
+        <summary>Turns</summary>
+        <ol>${items}
+        </ol>
+      </details>
+    `;
+  }
+
+  private static renderSectionList(sections: DocumentSection[]): string {
+    const items = sections
+      .map(
+        (section) => `
+          <li class="gv-html-toc-level-${section.level}">
+            <a href="#${section.id}">${this.escapeHTML(section.title)}</a>
+          </li>`,
+      )
+      .join('');
+
+    return `
+      <details class="gv-html-toc" open>
+        <summary>Contents</summary>
+        <ol>${items}
+        </ol>
+      </details>
+    `;
+  }
+
+  private static renderTurn(turn: ChatTurn, entry: OutlineTocEntry): string {
+    const userHtml = turn.userElement
+      ? DOMContentExtractor.extractUserContent(turn.userElement).html
+      : this.formatPlainTextAsHtml(turn.user);
+    const assistantHtml = turn.assistantElement
+      ? DOMContentExtractor.extractAssistantContent(turn.assistantElement).html
+      : this.formatPlainTextAsHtml(turn.assistant);
+
+    const showUser = !turn.omitEmptySections || !!turn.userElement || !!turn.user.trim();
+    const showAssistant =
+      !turn.omitEmptySections || !!turn.assistantElement || !!turn.assistant.trim();
+    const starredClass = turn.starred ? ' gv-html-turn-starred' : '';
+
+    return `
+      <details class="gv-html-turn${starredClass}" id="${entry.anchorId}" open>
+        <summary>
+          <span class="gv-html-turn-number">Turn ${entry.index}</span>
+          <span class="gv-html-turn-title">${this.escapeHTML(entry.title)}</span>
+          ${turn.starred ? '<span class="gv-html-star" title="Starred">★</span>' : ''}
+        </summary>
+        ${showUser ? this.renderMessage('user', 'User', userHtml) : ''}
+        ${showAssistant ? this.renderMessage('assistant', 'Assistant', assistantHtml) : ''}
+      </details>
+    `;
+  }
+
+  private static renderMessage(role: 'user' | 'assistant', label: string, html: string): string {
+    return `
+        <section class="gv-html-message gv-html-${role}">
+          <div class="gv-html-role">${label}</div>
+          <div class="gv-html-body">${html || '<em>No content</em>'}</div>
+        </section>
+    `;
+  }
+
+  private static renderFooter(exportedAt: string): string {
+    return `
+      <footer class="gv-html-footer">
+        Exported from <a href="${this.SOURCE_URL}">Gemini Voyager</a> on ${this.escapeHTML(this.formatDate(exportedAt))}
+      </footer>
+    `;
+  }
+
+  private static renderPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="color-scheme" content="light dark">
+<meta name="generator" content="Gemini Voyager">
+<title>${this.escapeHTML(title)}</title>
+<style>${this.getStyles()}</style>
+</head>
+<body>
+<div class="gv-html-document">${body}</div>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Page styles; colours are variables so the dark scheme only swaps the palette
+   */
+  private static getStyles(): string {
+    const hl = CodeHighlighter.CLASS_PREFIX;
+    return `
+      :root {
+        --gv-bg: #ffffff;
+        --gv-fg: #1f2328;
+        --gv-muted: #656d76;
+        --gv-border: #d8dee4;
+        --gv-surface: #f6f8fa;
+        --gv-accent: #1a73e8;
+        --gv-user: #e8f0fe;
+        --gv-star: #d97706;
+        --gv-hl-comment: #6e7781;
+        --gv-hl-string: #0a3069;
+        --gv-hl-number: #0550ae;
+        --gv-hl-keyword: #cf222e;
+      }
+      @media (prefers-color-scheme: dark) {
+        :root {
+          --gv-bg: #131314;
+          --gv-fg: #e3e3e3;
+          --gv-muted: #9aa0a6;
+          --gv-border: #3c4043;
+          --gv-surface: #1e1f20;
+          --gv-accent: #8ab4f8;
+          --gv-user: #1f2a3d;
+          --gv-star: #fbbf24;
+          --gv-hl-comment: #8b949e;
+          --gv-hl-string: #a5d6ff;
+          --gv-hl-number: #79c0ff;
+          --gv-hl-keyword: #ff7b72;
+        }
+      }
+      * { box-sizing: border-box; }
+      body {
+        margin: 0;
+        background: var(--gv-bg);
+        color: var(--gv-fg);
+        font: 16px/1.65 system-ui, -apple-system, 'Segoe UI', Roboto, 'Noto Sans', sans-serif;
+      }
+      a { color: var(--gv-accent); }
+      .gv-html-document { max-width: 860px; margin: 0 auto; padding: 40px 24px 64px; }
+      .gv-html-title { margin: 0 0 8px; font-size: 2em; line-height: 1.25; }
+      .gv-html-meta { margin: 0; color: var(--gv-muted); font-size: 0.875em; overflow-wrap: anywhere; }
+      .gv-html-toc {
+        margin: 24px 0;
+        padding: 12px 16px;
+        border: 1px solid var(--gv-border);
+        border-radius: 12px;
+        background: var(--gv-surface);
+      }
+      .gv-html-toc summary { cursor: pointer; font-weight: 600; }
+      .gv-html-toc ol { margin: 8px 0 0; padding: 0; list-style: none; }
+      .gv-html-toc li { margin: 4px 0; }
+      .gv-html-toc a { color: inherit; text-decoration: none; }
+      .gv-html-toc a:hover { color: var(--gv-accent); }
+      .gv-html-toc-level-2 { padding-left: 1.5em; }
+      .gv-html-toc-level-3 { padding-left: 3em; }
+      .gv-html-toc-index { display: inline-block; min-width: 2.5em; color: var(--gv-muted); }
+      .gv-html-turn { margin: 16px 0; border: 1px solid var(--gv-border); border-radius: 12px; }
+      .gv-html-turn > summary {
+        display: flex;
+        gap: 12px;
+        align-items: baseline;
+        padding: 12px 16px;
+        cursor: pointer;
+        font-weight: 600;
+      }
+      .gv-html-turn[open] > summary { border-bottom: 1px solid var(--gv-border); }
+      .gv-html-turn-number { flex-shrink: 0; color: var(--gv-muted); font-size: 0.875em; }
+      .gv-html-turn-title { min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+      .gv-html-star { margin-left: auto; color: var(--gv-star); }
+      .gv-html-turn-starred { border-color: var(--gv-star); }
+      .gv-html-message { padding: 12px 16px; }
+      .gv-html-user .gv-html-body { padding: 8px 14px; border-radius: 12px; background: var(--gv-user); }
+      .gv-html-role {
+        margin-bottom: 6px;
+        color: var(--gv-muted);
+        font-size: 0.75em;
+        font-weight: 600;
+        letter-spacing: 0.06em;
+        text-transform: uppercase;
+      }
+      .gv-html-body > :first-child { margin-top: 0; }
+      .gv-html-body > :last-child { margin-bottom: 0; }
+      .gv-html-body img, .gv-html-report img { max-width: 100%; height: auto; border-radius: 8px; }
+      .gv-html-body em:only-child { color: var(--gv-muted); }
+      table { border-collapse: collapse; display: block; max-width: 100%; overflow-x: auto; }
+      th, td { padding: 6px 12px; border: 1px solid var(--gv-border); text-align: left; }
+      th { background: var(--gv-surface); }
+      blockquote { margin: 1em 0; padding: 0 1em; border-left: 4px solid var(--gv-border); color: var(--gv-muted); }
+      code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.875em; }
+      :not(pre) > code { padding: 0.15em 0.35em; border-radius: 4px; background: var(--gv-surface); }
+      pre {
+        position: relative;
+        margin: 1em 0;
+        padding: 16px;
+        overflow-x: auto;
+        border: 1px solid var(--gv-border);
+        border-radius: 8px;
+        background: var(--gv-surface);
+        line-height: 1.5;
+      }
+      pre[data-language]::before {
+        content: attr(data-language);
+        position: absolute;
+        top: 4px;
+        right: 10px;
+        color: var(--gv-muted);
+        font-size: 0.75em;
+      }
+      .${hl}comment { color: var(--gv-hl-comment); font-style: italic; }
+      .${hl}string { color: var(--gv-hl-string); }
+      .${hl}number { color: var(--gv-hl-number); }
+      .${hl}keyword { color: var(--gv-hl-keyword); }
+      .math-block { display: block; margin: 1em 0; overflow-x: auto; text-align: center; }
+      math[display='block'] { display: block; }
+      .gv-html-diagram {
+        margin: 1em 0;
+        padding: 16px;
+        overflow-x: auto;
+        border-radius: 8px;
+        background: #ffffff;
+        text-align: center;
+      }
+      .gv-html-diagram svg { max-width: 100%; height: auto; }
+      .gv-html-diagram-source summary { cursor: pointer; color: var(--gv-muted); font-size: 0.875em; }
+      .gv-html-footer {
+        margin-top: 48px;
+        padding-top: 16px;
+        border-top: 1px solid var(--gv-border);
+        color: var(--gv-muted);
+        font-size: 0.875em;
+        text-align: center;
+      }
+      sources-carousel-inline,
+      source-inline-chips,
+      source-inline-chip,
+      .source-inline-chip-container { display: none; }
+      @media print {
+        .gv-html-toc { display: none; }
+        .gv-html-turn { break-inside: avoid; }
+      }
+    `;
+  }
+
+  private static formatPlainTextAsHtml(text: string): string {
+    const safe = this.escapeHTML(text || '');
+    if (!safe.trim()) return '';
+    return safe
+      .split(/\n\n+/)
+      .map((paragraph) => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('');
+  }
+
+  private static withHtmlExtension(filename: string): string {
+    return /\.html?$/i.test(filename) ? filename : `${filename}.html`;
+  }
+
+  private static downloadHtml(html: string, filename: string): void {
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    setTimeout(() => {
+      try {
+        document.body.removeChild(a);
+      } catch {
+        /* ignore */
+      }
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+
+  private static escapeHTML(text: string): string {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  private static escapeAttr(text: string): string {
+    return this.escapeHTML(text).replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+  }
+
+  private static formatDate(iso: string): string {
+    try {
+      const d = new Date(iso);
+      return d.toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    } catch {
+      return iso;
+    }
+  }
+}
@@ -3,8 +3,10 @@
  * Converts conversation to clean, standard Markdown format
  * Following the "paper book" philosophy - content over design
  */
-import type { ChatTurn, ConversationMetadata } from '../types/export';
+import type { ChatTurn, ConversationMetadata, ExportProfile } from '../types/export';
 import { DOMContentExtractor } from './DOMContentExtractor';
+import { ExportProfileService } from './ExportProfileService';
+import { OutlineTocBuilder } from './OutlineTocBuilder';
 
 /**
  * Markdown formatting service
@@ -72,9 +74,23 @@ export class MarkdownFormatter {
 
   /**
    * Format conversation as Markdown
+   * With includeOutline, a table of contents links to an anchor before each turn.
+   * A profile adds YAML front matter and sets the style of the turn headings.
    */
-  static format(turns: ChatTurn[], metadata: ConversationMetadata): string {
+  static format(
+    turns: ChatTurn[],
+    metadata: ConversationMetadata,
+    options?: { includeOutline?: boolean; profile?: ExportProfile },
+  ): string {
     const sections: string[] = [];
+    const includeOutline = !!options?.includeOutline && turns.length > 0;
+    const profile = options?.profile;
+    const headings = this.formatTurnHeadings(turns, profile?.turnHeading ?? 'number');
+
+    const frontMatter = profile
+      ? ExportProfileService.renderFrontMatter(profile.frontMatter, metadata)
+      : '';
+    if (frontMatter) sections.push(frontMatter);
 
     // Header with metadata
     sections.push(this.formatHeader(metadata));
@@ -84,9 +100,20 @@ export class MarkdownFormatter {
     sections.push('---');
     sections.push('');
 
+    if (includeOutline) {
+      sections.push(this.formatTableOfContents(turns));
+      sections.push('');
+      sections.push('---');
+      sections.push('');
+    }
+
     // Conversation turns
     turns.forEach((turn, index) => {
-      sections.push(this.formatTurn(turn, index + 1));
+      if (includeOutline) {
+        sections.push(`<a id="${OutlineTocBuilder.getTurnAnchorId(index + 1)}"></a>`);
+        sections.push('');
+      }
+      sections.push(this.formatTurn(turn, headings[index]));
       sections.push(''); // Empty line between turns
     });
 
@@ -117,13 +144,39 @@ export class MarkdownFormatter {
     return lines.join('\n');
   }
 
+  /**
+   * Format the outline as a nested list of links to the turns
+   */
+  private static formatTableOfContents(turns: ChatTurn[]): string {
+    const lines = ['## Contents', ''];
+    OutlineTocBuilder.build(turns).forEach((entry) => {
+      const indent = '  '.repeat(entry.level - 1);
+      lines.push(`${indent}- [${this.escapeMarkdown(entry.title)}](#${entry.anchorId})`);
+    });
+    return lines.join('\n');
+  }
+
+  /**
+   * Heading text of every turn; titles are the timeline labels or the prompts' first lines
+   */
+  private static formatTurnHeadings(
+    turns: ChatTurn[],
+    style: ExportProfile['turnHeading'],
+  ): string[] {
+    if (style === 'number') return turns.map((_turn, i) => `Turn ${i + 1}`);
+    return OutlineTocBuilder.build(turns).map((entry) => {
+      const title = this.escapeMarkdown(entry.title);
+      return style === 'title' ? title : `${entry.index}. ${title}`;
+    });
+  }
+
   /**
    * Format a single conversation turn
    */
-  private static formatTurn(turn: ChatTurn, index: number): string {
+  private static formatTurn(turn: ChatTurn, heading: string): string {
     const lines: string[] = [];
 
-    lines.push(`## Turn ${index}${turn.starred ? ' ⭐' : ''}`);
+    lines.push(`## ${heading}${turn.starred ? ' ⭐' : ''}`);
     lines.push('');
 
     if (!turn.omitEmptySections) {
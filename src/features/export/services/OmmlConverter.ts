@@ -0,0 +1,248 @@
+/**
+ * OMML converter
+ * Translates presentation MathML into Office Math Markup (`m:oMath`), the native equation
+ * format of Word, so formulas in DOCX exports stay editable. Covers the elements temml emits;
+ * anything unknown falls back to its children so no content is dropped.
+ */
+
+/** Large operators rendered as n-ary symbols when they carry limits */
+const NARY_OPERATORS = new Set(['∑', '∏', '∐', '∫', '∬', '∭', '∮', '⋃', '⋂', '⋁', '⋀', '⨁', '⨂']);
+
+/** Spacing accent characters (as emitted in `mover`) mapped to the combining marks Word expects */
+const ACCENTS: Record<string, string> = {
+  ˆ: '\u0302',
+  '^': '\u0302',
+  ˇ: '\u030C',
+  '˜': '\u0303',
+  '~': '\u0303',
+  '¨': '\u0308',
+  '˙': '\u0307',
+  '´': '\u0301',
+  '`': '\u0300',
+  '˘': '\u0306',
+  '→': '\u20D7',
+  '⃗': '\u20D7',
+};
+
+export class OmmlConverter {
+  /**
+   * Convert a MathML string (optionally `mml:` prefixed) to an `m:oMath` element.
+   * Display formulas are wrapped in `m:oMathPara`. Returns null if the input is not MathML.
+   */
+  static fromMathML(mathML: string): string | null {
+    const parsed = new DOMParser().parseFromString(mathML, 'application/xml');
+    const root = parsed.documentElement;
+    if (parsed.getElementsByTagName('parsererror').length > 0 || root.localName !== 'math') {
+      return null;
+    }
+
+    const oMath = `<m:oMath>${this.convertChildren(root)}</m:oMath>`;
+    return root.getAttribute('display') === 'block' ? `<m:oMathPara>${oMath}</m:oMathPara>` : oMath;
+  }
+
+  /**
+   * Convert all children; an operator with limits takes the following sibling as its body
+   */
+  private static convertChildren(element: Element): string {
+    const children = Array.from(element.children);
+    let result = '';
+    for (let i = 0; i < children.length; i++) {
+      const child = this.unwrapRow(children[i]);
+      const next = children[i + 1];
+      if (next && this.hasNaryBase(child)) {
+        result += this.convert(child, this.convert(next));
+        i++;
+      } else {
+        result += this.convert(child);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Convert the n-th child, used for the positional arguments of scripts, fractions and roots
+   */
+  private static argument(element: Element, index: number): string {
+    const child = element.children[index];
+    return child ? this.convert(child) : '';
+  }
+
+  private static convert(element: Element, naryBody = ''): string {
+    switch (element.localName) {
+      case 'mi':
+        return this.run(element.textContent || '', this.isPlainIdentifier(element) ? 'p' : null);
+      case 'mn':
+      case 'mo':
+        return this.run(element.textContent || '', 'p');
+      case 'mtext':
+      case 'ms':
+        return this.run(element.textContent || '', 'normal');
+      case 'mspace':
+        return this.run(' ', 'p');
+      case 'mfrac':
+        return this.fraction(element);
+      case 'msub':
+      case 'msup':
+      case 'msubsup':
+        return this.scripts(element, naryBody);
+      case 'msqrt':
+        return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${this.convertChildren(element)}</m:e></m:rad>`;
+      case 'mroot':
+        return `<m:rad><m:deg>${this.argument(element, 1)}</m:deg><m:e>${this.argument(element, 0)}</m:e></m:rad>`;
+      case 'munder':
+      case 'mover':
+      case 'munderover':
+        return this.underOver(element, naryBody);
+      case 'mtable':
+        return this.matrix(element);
+      case 'semantics':
+        return element.firstElementChild ? this.convert(element.firstElementChild) : '';
+      case 'annotation':
+      case 'annotation-xml':
+      case 'mphantom':
+        return '';
+      default:
+        // mrow, mstyle, mpadded, menclose, merror, ...
+        return this.convertChildren(element);
+    }
+  }
+
+  /**
+   * Multi-letter identifiers (sin, log) and mathvariant="normal" are upright, not italic
+   */
+  private static isPlainIdentifier(element: Element): boolean {
+    const variant = element.getAttribute('mathvariant');
+    if (variant) return variant === 'normal';
+    return Array.from((element.textContent || '').trim()).length > 1;
+  }
+
+  private static run(text: string, style: 'p' | 'normal' | null): string {
+    if (!text) return '';
+    const properties =
+      style === 'normal'
+        ? '<m:rPr><m:nor/></m:rPr>'
+        : style
+          ? `<m:rPr><m:sty m:val="${style}"/></m:rPr>`
+          : '';
+    return `<m:r>${properties}<m:t xml:space="preserve">${this.escapeXml(text)}</m:t></m:r>`;
+  }
+
+  private static fraction(element: Element): string {
+    const thickness = element.getAttribute('linethickness');
+    const type =
+      thickness !== null && parseFloat(thickness) === 0
+        ? '<m:fPr><m:type m:val="noBar"/></m:fPr>'
+        : element.getAttribute('bevelled') === 'true'
+          ? '<m:fPr><m:type m:val="skw"/></m:fPr>'
+          : '';
+    return `<m:f>${type}<m:num>${this.argument(element, 0)}</m:num><m:den>${this.argument(element, 1)}</m:den></m:f>`;
+  }
+
+  private static scripts(element: Element, naryBody: string): string {
+    const [base, first, second] = Array.from(element.children);
+    const name = element.localName;
+    const sub = name === 'msup' ? undefined : first;
+    const sup = name === 'msup' ? first : name === 'msubsup' ? second : undefined;
+
+    if (base && this.isNaryOperator(base)) {
+      return this.nary(base, sub, sup, 'subSup', naryBody);
+    }
+
+    const e = `<m:e>${base ? this.convert(base) : ''}</m:e>`;
+    const subXml = `<m:sub>${sub ? this.convert(sub) : ''}</m:sub>`;
+    const supXml = `<m:sup>${sup ? this.convert(sup) : ''}</m:sup>`;
+    if (name === 'msub') return `<m:sSub>${e}${subXml}</m:sSub>`;
+    if (name === 'msup') return `<m:sSup>${e}${supXml}</m:sSup>`;
+    return `<m:sSubSup>${e}${subXml}${supXml}</m:sSubSup>`;
+  }
+
+  private static underOver(element: Element, naryBody: string): string {
+    const [base, first, second] = Array.from(element.children);
+    const name = element.localName;
+    const under = name === 'mover' ? undefined : first;
+    const over = name === 'mover' ? first : name === 'munderover' ? second : undefined;
+
+    if (base && this.isNaryOperator(base)) {
+      return this.nary(base, under, over, 'undOvr', naryBody);
+    }
+
+    // Accents such as \hat, \vec and \bar
+    const chr = (over?.textContent || '').trim();
+    if (name === 'mover' && over && (element.getAttribute('accent') === 'true' || chr in ACCENTS)) {
+      if (chr === '¯' || chr === '‾') {
+        return `<m:bar><m:barPr><m:pos m:val="top"/></m:barPr><m:e>${this.convert(base)}</m:e></m:bar>`;
+      }
+      const accent = ACCENTS[chr] ?? chr;
+      return `<m:acc><m:accPr><m:chr m:val="${this.escapeXml(accent)}"/></m:accPr><m:e>${this.convert(base)}</m:e></m:acc>`;
+    }
+
+    let result = base ? this.convert(base) : '';
+    if (under)
+      result = `<m:limLow><m:e>${result}</m:e><m:lim>${this.convert(under)}</m:lim></m:limLow>`;
+    if (over)
+      result = `<m:limUpp><m:e>${result}</m:e><m:lim>${this.convert(over)}</m:lim></m:limUpp>`;
+    return result;
+  }
+
+  /**
+   * temml wraps scripted operators in single-child rows; look through them
+   */
+  private static unwrapRow(element: Element): Element {
+    let current = element;
+    while (current.localName === 'mrow' && current.children.length === 1) {
+      current = current.children[0];
+    }
+    return current;
+  }
+
+  private static hasNaryBase(element: Element): boolean {
+    const scripted = ['msub', 'msup', 'msubsup', 'munder', 'mover', 'munderover'];
+    const base = element.firstElementChild;
+    return scripted.includes(element.localName) && !!base && this.isNaryOperator(base);
+  }
+
+  private static isNaryOperator(element: Element): boolean {
+    return element.localName === 'mo' && NARY_OPERATORS.has((element.textContent || '').trim());
+  }
+
+  /**
+   * Operator with limits, e.g. a sum; in MathML the summand is the next sibling
+   */
+  private static nary(
+    operator: Element,
+    lower: Element | undefined,
+    upper: Element | undefined,
+    limitLocation: 'undOvr' | 'subSup',
+    body: string,
+  ): string {
+    const properties = [
+      `<m:chr m:val="${this.escapeXml((operator.textContent || '').trim())}"/>`,
+      `<m:limLoc m:val="${limitLocation}"/>`,
+      lower ? '' : '<m:subHide m:val="1"/>',
+      upper ? '' : '<m:supHide m:val="1"/>',
+    ].join('');
+    return `<m:nary><m:naryPr>${properties}</m:naryPr><m:sub>${lower ? this.convert(lower) : ''}</m:sub><m:sup>${upper ? this.convert(upper) : ''}</m:sup><m:e>${body}</m:e></m:nary>`;
+  }
+
+  private static matrix(element: Element): string {
+    const rows = Array.from(element.children)
+      .filter((row) => row.localName === 'mtr' || row.localName === 'mlabeledtr')
+      .map((row) => {
+        const cells = Array.from(row.children)
+          .filter((cell) => cell.localName === 'mtd')
+          .map((cell) => `<m:e>${this.convertChildren(cell)}</m:e>`)
+          .join('');
+        return `<m:mr>${cells}</m:mr>`;
+      })
+      .join('');
+    return `<m:m>${rows}</m:m>`;
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
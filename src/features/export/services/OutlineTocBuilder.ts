@@ -0,0 +1,53 @@
+/**
+ * Outline table of contents
+ * Builds the linked table of contents that Markdown and PDF exports can prepend,
+ * using the marker levels and labels the user set on the timeline.
+ */
+import type { ChatTurn } from '../types/export';
+
+const MAX_TITLE_LENGTH = 80;
+
+export interface OutlineTocEntry {
+  /** 1-based turn number, as shown in the exported turn heading */
+  index: number;
+  level: 1 | 2 | 3;
+  title: string;
+  anchorId: string;
+}
+
+export class OutlineTocBuilder {
+  /**
+   * Anchor id of a turn (1-based index) in an exported document
+   */
+  static getTurnAnchorId(index: number): string {
+    return `turn-${index}`;
+  }
+
+  /**
+   * One entry per turn; the timeline label is preferred over the first line of the prompt
+   */
+  static build(turns: ChatTurn[]): OutlineTocEntry[] {
+    return turns.map((turn, i) => {
+      const index = i + 1;
+      return {
+        index,
+        level: turn.outlineLevel ?? 1,
+        title: this.getTitle(turn, index),
+        anchorId: this.getTurnAnchorId(index),
+      };
+    });
+  }
+
+  private static getTitle(turn: ChatTurn, index: number): string {
+    const label = turn.outlineTitle?.trim();
+    if (label) return label;
+
+    const firstLine = (turn.user || turn.assistant || '')
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .find((line) => line.length > 0);
+    if (!firstLine) return `Turn ${index}`;
+    if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine;
+    return `${firstLine.slice(0, MAX_TITLE_LENGTH - 1)}…`;
+  }
+}
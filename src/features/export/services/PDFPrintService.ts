@@ -7,6 +7,7 @@ import { isSafari } from '@/core/utils/browser';
 
 import type { ChatTurn, ConversationMetadata } from '../types/export';
 import { DOMContentExtractor } from './DOMContentExtractor';
+import { OutlineTocBuilder } from './OutlineTocBuilder';
 
 export interface PrintableDocumentContent {
   title: string;
@@ -36,9 +37,9 @@ export class PDFPrintService {
   static async export(
     turns: ChatTurn[],
     metadata: ConversationMetadata,
-    options?: { fontSize?: number },
+    options?: { fontSize?: number; includeOutline?: boolean },
   ): Promise<void> {
-    await this.exportInternal(turns, metadata, false, options?.fontSize);
+    await this.exportInternal(turns, metadata, false, options?.fontSize, options?.includeOutline);
   }
 
   static async exportDocument(content: PrintableDocumentContent): Promise<void> {
@@ -71,12 +72,18 @@ export class PDFPrintService {
     metadata: ConversationMetadata,
     preferMetadataTitle: boolean,
     fontSize?: number,
+    includeOutline?: boolean,
   ): Promise<void> {
     // Ensure we don't leave a previous export container around (e.g. if a prior export failed)
     this.cleanup();
 
     // Create print container
-    const container = this.createPrintContainer(turns, metadata, preferMetadataTitle);
+    const container = this.createPrintContainer(
+      turns,
+      metadata,
+      preferMetadataTitle,
+      !!includeOutline && turns.length > 0,
+    );
     document.body.appendChild(container);
 
     // Remove existing print styles so we can re-inject with new font size
@@ -182,6 +189,7 @@ export class PDFPrintService {
     turns: ChatTurn[],
     metadata: ConversationMetadata,
     preferMetadataTitle: boolean,
+    includeOutline: boolean,
   ): HTMLElement {
     const container = document.createElement('div');
     container.id = this.PRINT_CONTAINER_ID;
@@ -191,7 +199,8 @@ export class PDFPrintService {
     container.innerHTML = `
       <div class="gv-print-document">
         ${this.renderHeader(metadata, preferMetadataTitle)}
-        ${this.renderContent(turns)}
+        ${includeOutline ? this.renderTableOfContents(turns) : ''}
+        ${this.renderContent(turns, includeOutline)}
         ${this.renderFooter(metadata)}
       </div>
     `;
@@ -218,8 +227,9 @@ export class PDFPrintService {
 
   /**
    * Convert <img src> links in container to data URLs (best-effort)
+   * Also used by the HTML export to produce a self-contained file
    */
-  private static async inlineImages(container: HTMLElement): Promise<void> {
+  static async inlineImages(container: HTMLElement): Promise<void> {
     const imgs = Array.from(container.querySelectorAll('img')) as HTMLImageElement[];
     if (imgs.length === 0) return;
     const toDataUrl = async (url: string): Promise<string | null> => {
@@ -518,13 +528,42 @@ export class PDFPrintService {
     `;
   }
 
+  /**
+   * Element id of a turn, prefixed so it cannot clash with ids of the page
+   */
+  private static getTurnElementId(index: number): string {
+    return `gv-print-${OutlineTocBuilder.getTurnAnchorId(index)}`;
+  }
+
+  /**
+   * Render the outline as a nested list of links to the turns
+   */
+  private static renderTableOfContents(turns: ChatTurn[]): string {
+    const items = OutlineTocBuilder.build(turns)
+      .map(
+        (entry) => `
+          <li class="gv-print-toc-item gv-print-toc-level-${entry.level}">
+            <a href="#${this.getTurnElementId(entry.index)}">${this.escapeHTML(entry.title)}</a>
+          </li>`,
+      )
+      .join('');
+
+    return `
+      <div class="gv-print-toc">
+        <div class="gv-print-toc-title">Contents</div>
+        <ul class="gv-print-toc-list">${items}
+        </ul>
+      </div>
+    `;
+  }
+
   /**
    * Render conversation content
    */
-  private static renderContent(turns: ChatTurn[]): string {
+  private static renderContent(turns: ChatTurn[], withAnchors: boolean = false): string {
     return `
       <div class="gv-print-content">
-        ${turns.map((turn, index) => this.renderTurn(turn, index + 1)).join('\n')}
+        ${turns.map((turn, index) => this.renderTurn(turn, index + 1, withAnchors)).join('\n')}
       </div>
     `;
   }
@@ -532,8 +571,9 @@ export class PDFPrintService {
   /**
    * Render a single turn
    */
-  private static renderTurn(turn: ChatTurn, index: number): string {
+  private static renderTurn(turn: ChatTurn, index: number, withAnchor: boolean = false): string {
     const starredClass = turn.starred ? 'gv-print-turn-starred' : '';
+    const idAttr = withAnchor ? ` id="${this.getTurnElementId(index)}"` : '';
 
     const userContent = turn.userElement
       ? DOMContentExtractor.extractUserContent(turn.userElement).html || '<em>No content</em>'
@@ -546,7 +586,7 @@ export class PDFPrintService {
 
     if (!turn.omitEmptySections) {
       return `
-      <div class="gv-print-turn ${starredClass}">
+      <div class="gv-print-turn ${starredClass}"${idAttr}>
         <div class="gv-print-turn-header">
           <span class="gv-print-turn-number">Turn ${index}</span>
           ${turn.starred ? '<span class="gv-print-star">⭐</span>' : ''}
@@ -569,7 +609,7 @@ export class PDFPrintService {
     const hasAssistant = !!turn.assistantElement || !!turn.assistant.trim();
 
     return `
-      <div class="gv-print-turn ${starredClass}">
+      <div class="gv-print-turn ${starredClass}"${idAttr}>
         <div class="gv-print-turn-header">
           <span class="gv-print-turn-number">Turn ${index}</span>
           ${turn.starred ? '<span class="gv-print-star">⭐</span>' : ''}
@@ -760,6 +800,45 @@ export class PDFPrintService {
           content: none !important;
         }
 
+        /* Outline table of contents */
+        .gv-print-toc {
+          margin: 2em 0;
+          page-break-after: always;
+        }
+
+        .gv-print-toc-title {
+          font-size: 16pt;
+          font-weight: bold;
+          margin-bottom: 0.75em;
+        }
+
+        .gv-print-toc-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .gv-print-toc-item {
+          margin: 0.3em 0;
+        }
+
+        .gv-print-toc-level-2 {
+          padding-left: 1.5em;
+        }
+
+        .gv-print-toc-level-3 {
+          padding-left: 3em;
+        }
+
+        .gv-print-toc a {
+          color: #1a1a1a;
+          text-decoration: none;
+        }
+
+        .gv-print-toc a:after {
+          content: none !important;
+        }
+
         /* Content */
         .gv-print-content {
           margin: 2em 0;
@@ -0,0 +1,165 @@
+/**
+ * Starred Digest Service
+ * Turns starred messages from many conversations into one Markdown or JSON digest
+ */
+import type { StarredMessage } from '@/pages/content/timeline/starredTypes';
+
+export type StarredDigestFormat = 'markdown' | 'json';
+
+/**
+ * Starred messages of one conversation, oldest star first
+ */
+export interface StarredConversationGroup {
+  conversationId: string;
+  conversationTitle: string;
+  conversationUrl: string;
+  messages: StarredMessage[];
+  /** Time of the newest star in the group */
+  latestStarredAt: number;
+}
+
+export interface StarredDigestPayload {
+  format: 'gemini-voyager.starred-digest.v1';
+  exportedAt: string;
+  count: number;
+  conversations: Array<{
+    conversationId: string;
+    title: string;
+    url: string;
+    messages: Array<{
+      turnId: string;
+      url: string;
+      starredAt: string;
+      user: string;
+      assistant: string;
+      note?: string;
+    }>;
+  }>;
+}
+
+export class StarredDigestService {
+  /**
+   * Group messages by conversation, most recently starred conversation first
+   */
+  static groupByConversation(messages: readonly StarredMessage[]): StarredConversationGroup[] {
+    const groups = new Map<string, StarredConversationGroup>();
+    messages.forEach((message) => {
+      let group = groups.get(message.conversationId);
+      if (!group) {
+        group = {
+          conversationId: message.conversationId,
+          conversationTitle: message.conversationTitle || '',
+          conversationUrl: message.conversationUrl,
+          messages: [],
+          latestStarredAt: 0,
+        };
+        groups.set(message.conversationId, group);
+      }
+      group.messages.push(message);
+      if (message.starredAt >= group.latestStarredAt) {
+        group.latestStarredAt = message.starredAt;
+        // The newest star carries the most recent title and URL
+        if (message.conversationTitle) group.conversationTitle = message.conversationTitle;
+        group.conversationUrl = message.conversationUrl;
+      }
+    });
+
+    const result = Array.from(groups.values());
+    result.forEach((group) => group.messages.sort((a, b) => a.starredAt - b.starredAt));
+    return result.sort((a, b) => b.latestStarredAt - a.latestStarredAt);
+  }
+
+  /**
+   * Link that opens the conversation scrolled to the starred turn
+   */
+  static getMessageUrl(message: StarredMessage): string {
+    return `${message.conversationUrl.split('#')[0]}#gv-turn-${message.turnId}`;
+  }
+
+  static toMarkdown(groups: readonly StarredConversationGroup[], exportedAt: Date): string {
+    const count = groups.reduce((sum, group) => sum + group.messages.length, 0);
+    const lines: string[] = [
+      '# Starred messages',
+      '',
+      `Exported: ${exportedAt.toLocaleString()}  `,
+      `Messages: ${count}`,
+      '',
+    ];
+
+    groups.forEach((group) => {
+      const title = group.conversationTitle || 'Untitled conversation';
+      lines.push('---', '', `## [${this.escapeLinkText(title)}](${group.conversationUrl})`, '');
+
+      group.messages.forEach((message) => {
+        lines.push(`### ⭐ ${new Date(message.starredAt).toLocaleString()}`, '');
+        if (message.note) {
+          lines.push(...message.note.split('\n').map((line) => `> ${line}`), '');
+        }
+        lines.push('**User:**', '', message.userText || message.content, '');
+        if (message.responseText) {
+          lines.push('**Gemini:**', '', message.responseText, '');
+        }
+        lines.push(`[Open message](${this.getMessageUrl(message)})`, '');
+      });
+    });
+
+    return lines.join('\n');
+  }
+
+  static toJSON(groups: readonly StarredConversationGroup[], exportedAt: Date): string {
+    const payload: StarredDigestPayload = {
+      format: 'gemini-voyager.starred-digest.v1',
+      exportedAt: exportedAt.toISOString(),
+      count: groups.reduce((sum, group) => sum + group.messages.length, 0),
+      conversations: groups.map((group) => ({
+        conversationId: group.conversationId,
+        title: group.conversationTitle,
+        url: group.conversationUrl,
+        messages: group.messages.map((message) => ({
+          turnId: message.turnId,
+          url: this.getMessageUrl(message),
+          starredAt: new Date(message.starredAt).toISOString(),
+          user: message.userText || message.content,
+          assistant: message.responseText || '',
+          ...(message.note ? { note: message.note } : {}),
+        })),
+      })),
+    };
+    return JSON.stringify(payload, null, 2);
+  }
+
+  /**
+   * File name of the downloaded digest
+   */
+  static getFilename(format: StarredDigestFormat, now: Date = new Date()): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+    return `gemini-starred-${date}.${format === 'json' ? 'json' : 'md'}`;
+  }
+
+  /**
+   * Trigger a browser download of the digest
+   */
+  static download(content: string, format: StarredDigestFormat, filename?: string): void {
+    const type =
+      format === 'json' ? 'application/json;charset=utf-8' : 'text/markdown;charset=utf-8';
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename || this.getFilename(format);
+    document.body.appendChild(anchor);
+    anchor.click();
+    setTimeout(() => {
+      try {
+        document.body.removeChild(anchor);
+      } catch {
+        /* ignore */
+      }
+      URL.revokeObjectURL(url);
+    }, 0);
+  }
+
+  private static escapeLinkText(text: string): string {
+    return text.replace(/([\\[\]])/g, '\\$1');
+  }
+}
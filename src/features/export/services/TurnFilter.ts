@@ -0,0 +1,79 @@
+/**
+ * Turn filter
+ * Narrows an export to a turn range, starred turns and/or one timeline section. Sections follow
+ * the timeline's collapse rule: a marker owns the following markers of a deeper level.
+ * The role part of the filter applies to messages, not turns, and is handled by the caller.
+ */
+import type { ExportTurnFilter } from '../types/export';
+
+export interface FilterableTurn {
+  id: string;
+  starred: boolean;
+  /** Timeline marker level; unset markers are level 1 */
+  outlineLevel?: 1 | 2 | 3;
+  /** Display title, used when listing sections */
+  title?: string;
+}
+
+export class TurnFilter {
+  /**
+   * Whether the filter narrows the export at all
+   */
+  static isActive(filter?: ExportTurnFilter | null): filter is ExportTurnFilter {
+    if (!filter) return false;
+    return (
+      filter.fromTurn !== undefined ||
+      filter.toTurn !== undefined ||
+      !!filter.starredOnly ||
+      !!filter.sectionTurnId ||
+      !!filter.role
+    );
+  }
+
+  /**
+   * Turns that pass the range, starred and section conditions, in their original order
+   */
+  static apply<T extends FilterableTurn>(turns: readonly T[], filter: ExportTurnFilter): T[] {
+    const from = Math.max(filter.fromTurn ?? 1, 1);
+    const to = filter.toTurn ?? Number.POSITIVE_INFINITY;
+    const section = filter.sectionTurnId
+      ? this.getSectionRange(turns, filter.sectionTurnId)
+      : { start: 0, end: turns.length };
+
+    return turns.filter((turn, i) => {
+      const turnNumber = i + 1;
+      if (turnNumber < from || turnNumber > to) return false;
+      if (filter.starredOnly && !turn.starred) return false;
+      return i >= section.start && i < section.end;
+    });
+  }
+
+  /**
+   * Markers that have nested markers, i.e. sections that can be exported on their own
+   */
+  static getSections<T extends FilterableTurn>(turns: readonly T[]): T[] {
+    return turns.filter(
+      (turn, i) => i + 1 < turns.length && this.getLevel(turns[i + 1]) > this.getLevel(turn),
+    );
+  }
+
+  /**
+   * Index range [start, end) of a marker and its nested markers; empty if the marker is gone
+   */
+  private static getSectionRange(
+    turns: readonly FilterableTurn[],
+    turnId: string,
+  ): { start: number; end: number } {
+    const start = turns.findIndex((turn) => turn.id === turnId);
+    if (start < 0) return { start: 0, end: 0 };
+
+    const level = this.getLevel(turns[start]);
+    let end = start + 1;
+    while (end < turns.length && this.getLevel(turns[end]) > level) end++;
+    return { start, end };
+  }
+
+  private static getLevel(turn: FilterableTurn): number {
+    return turn.outlineLevel ?? 1;
+  }
+}
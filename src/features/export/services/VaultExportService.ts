@@ -0,0 +1,178 @@
+/**
+ * Vault export
+ * Packages a folder export as an Obsidian / Logseq vault: one note per conversation with
+ * front matter, the folder hierarchy as directories, `[[wikilinks]]` between forked
+ * conversations and the images of every note in one attachments directory.
+ */
+import JSZip from 'jszip';
+
+import { isSafari } from '@/core/utils/browser';
+import type { ForkNodesData } from '@/pages/content/fork/forkTypes';
+
+import type { ChatTurn, ConversationMetadata, ExportProfile } from '../types/export';
+import { ConversationExportService } from './ConversationExportService';
+import { type FolderArchiveFile, FolderArchiveService } from './FolderArchiveService';
+import { MarkdownFormatter } from './MarkdownFormatter';
+
+/**
+ * One conversation note of a vault
+ */
+export interface VaultNote {
+  /** Path of the note inside the vault */
+  path: string;
+  /** Conversation URL, used to find the note's forks */
+  url: string;
+  content: string;
+}
+
+const ATTACHMENTS_DIRECTORY = 'attachments';
+
+/**
+ * Notes are linked by file name, which both apps resolve. A `title` property would rename the
+ * page in Logseq and break those links, so the title only appears as the note's heading.
+ */
+const NOTE_PROFILE: ExportProfile = {
+  id: 'vault',
+  name: 'Vault',
+  filenamePattern: '{title}',
+  frontMatter: ['url', 'exportedAt', 'folder', 'tags'],
+  turnHeading: 'number',
+  includeImageSource: true,
+};
+
+export class VaultExportService {
+  /**
+   * Render a conversation as a note; fork links are added when the vault is packaged
+   */
+  static renderNote(turns: ChatTurn[], metadata: ConversationMetadata): string {
+    return ConversationExportService.renderConversation(turns, metadata, 'markdown', NOTE_PROFILE);
+  }
+
+  /**
+   * Vault path of a note. Names are unique across the whole vault rather than per directory,
+   * so a `[[wikilink]]` by name always points at a single note.
+   */
+  static getNotePath(folderPath: readonly string[], title: string, usedNames: Set<string>): string {
+    const directory = folderPath
+      .map((name) => `${FolderArchiveService.sanitizePathSegment(name, 'folder')}/`)
+      .join('');
+    // `#`, `^`, `|` and brackets have a meaning inside wikilinks
+    const baseName = FolderArchiveService.sanitizePathSegment(
+      title.replace(/[[\]#^|]/g, ''),
+      'conversation',
+    );
+
+    let name = baseName;
+    for (let n = 2; usedNames.has(name.toLowerCase()) || name.toLowerCase() === 'index'; n++) {
+      name = `${baseName} (${n})`;
+    }
+    usedNames.add(name.toLowerCase());
+    return `${directory}${name}.md`;
+  }
+
+  /**
+   * Paths of the notes each note was forked from or into, keyed by note path.
+   * Members of a fork group are matched to notes by the conversation id of their URL.
+   */
+  static getForkLinks(
+    forks: ForkNodesData,
+    notes: readonly Pick<VaultNote, 'path' | 'url'>[],
+  ): Map<string, string[]> {
+    const notePathByConversation = new Map<string, string>();
+    notes.forEach((note) => {
+      notePathByConversation.set(this.getConversationKey(note.url), note.path);
+    });
+
+    const links = new Map<string, string[]>();
+    Object.entries(forks.groups || {}).forEach(([groupId, members]) => {
+      const paths = new Set<string>();
+      members.forEach((member) => {
+        const separator = member.lastIndexOf(':');
+        if (separator <= 0) return;
+        const conversationId = member.slice(0, separator);
+        const turnId = member.slice(separator + 1);
+        const node = forks.nodes?.[conversationId]?.find(
+          (item) => item.forkGroupId === groupId && item.turnId === turnId,
+        );
+        const key = node?.conversationUrl
+          ? this.getConversationKey(node.conversationUrl)
+          : conversationId.replace(/^c_/, '');
+        const path = notePathByConversation.get(key);
+        if (path) paths.add(path);
+      });
+
+      paths.forEach((path) => {
+        const linked = links.get(path) ?? [];
+        paths.forEach((other) => {
+          if (other !== path && !linked.includes(other)) linked.push(other);
+        });
+        if (linked.length > 0) links.set(path, linked);
+      });
+    });
+    return links;
+  }
+
+  /**
+   * `[[wikilink]]` to a note by its file name
+   */
+  static toWikiLink(path: string): string {
+    const name = path.split('/').pop() ?? path;
+    return `[[${name.replace(/\.md$/i, '')}]]`;
+  }
+
+  /**
+   * Build the vault ZIP: the notes with their fork links, their images and the index
+   */
+  static async createArchive(
+    notes: VaultNote[],
+    index: string,
+    forks: ForkNodesData | null,
+  ): Promise<Blob> {
+    const zip = new JSZip();
+    const forkLinks = forks ? this.getForkLinks(forks, notes) : new Map<string, string[]>();
+    const files: FolderArchiveFile[] = [];
+    let nextImageIndex = 1;
+
+    for (const note of notes) {
+      let content = note.content.replace(/\s*$/, '\n');
+      const linked = forkLinks.get(note.path) ?? [];
+      if (linked.length > 0) {
+        content += [
+          '',
+          '## Forks',
+          '',
+          ...linked.map((path) => `- ${this.toWikiLink(path)}`),
+          '',
+        ].join('\n');
+      }
+
+      // Safari cannot fetch the images (see downloadMarkdownOrZip)
+      if (isSafari()) {
+        content = MarkdownFormatter.degradeImageMarkdownForSafari(content);
+      } else {
+        const depth = note.path.split('/').length - 1;
+        const packaged = await ConversationExportService.packageMarkdownImages(zip, content, {
+          directory: ATTACHMENTS_DIRECTORY,
+          linkPrefix: '../'.repeat(depth),
+          firstIndex: nextImageIndex,
+        });
+        content = packaged.markdown;
+        nextImageIndex = packaged.nextIndex;
+      }
+      files.push({ path: note.path, content });
+    }
+
+    return await FolderArchiveService.createArchive(files, index, zip);
+  }
+
+  private static getConversationKey(url: string): string {
+    try {
+      const pathname = new URL(url, 'https://gemini.google.com').pathname;
+      const match = pathname.match(/\/app\/([^/?#]+)/) || pathname.match(/\/gem\/[^/]+\/([^/?#]+)/);
+      if (match?.[1]) return match[1];
+    } catch {
+      /* ignore */
+    }
+    return url;
+  }
+}
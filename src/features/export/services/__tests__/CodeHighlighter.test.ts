@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { CodeHighlighter } from '../CodeHighlighter';
+
+describe('CodeHighlighter.highlight', () => {
+  it('wraps keywords, strings, numbers and comments in C-like code', () => {
+    expect(CodeHighlighter.highlight('const a = "x<y"; // 42', 'typescript')).toBe(
+      '<span class="gv-hl-keyword">const</span> a = ' +
+        '<span class="gv-hl-string">"x&lt;y"</span>; ' +
+        '<span class="gv-hl-comment">// 42</span>',
+    );
+    expect(CodeHighlighter.highlight('return 3.5e2;', 'js')).toBe(
+      '<span class="gv-hl-keyword">return</span> <span class="gv-hl-number">3.5e2</span>;',
+    );
+  });
+
+  it('uses hash comments and case-insensitive SQL keywords where appropriate', () => {
+    expect(CodeHighlighter.highlight('x = None  # note', 'Python')).toBe(
+      'x = <span class="gv-hl-keyword">None</span>  <span class="gv-hl-comment"># note</span>',
+    );
+    expect(CodeHighlighter.highlight('SELECT id FROM t -- all', 'sql')).toBe(
+      '<span class="gv-hl-keyword">SELECT</span> id <span class="gv-hl-keyword">FROM</span> t ' +
+        '<span class="gv-hl-comment">-- all</span>',
+    );
+  });
+
+  it('only escapes plain text languages', () => {
+    expect(CodeHighlighter.highlight('if a < b', '')).toBe('if a &lt; b');
+    expect(CodeHighlighter.highlight('graph TD; A-->B', 'mermaid')).toBe('graph TD; A--&gt;B');
+  });
+});
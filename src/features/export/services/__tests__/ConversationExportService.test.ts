@@ -287,6 +287,26 @@ describe('ConversationExportService', () => {
       expect(result.filename).toBe(customFilename);
     });
 
+    it('should name files with the profile filename pattern', async () => {
+      const result = await ConversationExportService.export(
+        mockTurns,
+        { ...mockMetadata, id: 'test' },
+        {
+          format: ExportFormat.JSON,
+          profile: {
+            id: 'p1',
+            name: 'Team',
+            filenamePattern: '{title}-{id}-{model}',
+            frontMatter: [],
+            turnHeading: 'number',
+            includeImageSource: true,
+          },
+        },
+      );
+
+      expect(result.filename).toBe('Premier-League-Fantasy-test.json');
+    });
+
     it('should handle export errors gracefully', async () => {
       // Mock an error by throwing in the format method
       const invalidTurns: ChatTurn[] = [
@@ -333,8 +353,15 @@ describe('ConversationExportService', () => {
     it('should return all available formats', () => {
       const formats = ConversationExportService.getAvailableFormats();
 
-      expect(formats).toHaveLength(4);
-      expect(formats.map((f) => f.format)).toEqual(['json', 'markdown', 'pdf', 'image']);
+      expect(formats).toHaveLength(6);
+      expect(formats.map((f) => f.format)).toEqual([
+        'json',
+        'markdown',
+        'pdf',
+        'image',
+        'html',
+        'docx',
+      ]);
     });
 
     it('should mark Markdown as recommended', () => {
@@ -0,0 +1,144 @@
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ConversationMetadata } from '../../types/export';
+import { DocxExportService } from '../DocxExportService';
+
+const METADATA: ConversationMetadata = {
+  url: 'https://gemini.google.com/app/abc',
+  exportedAt: '2025-01-15T10:30:00.000Z',
+  count: 1,
+  title: 'Rates & <limits>',
+};
+
+function createAssistantElement(html: string): HTMLElement {
+  const element = document.createElement('div');
+  element.innerHTML = `<div class="markdown">${html}</div>`;
+  return element;
+}
+
+async function unzip(blob: Blob): Promise<JSZip> {
+  return await JSZip.loadAsync(blob);
+}
+
+async function readPart(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) throw new Error(`missing ${path}`);
+  return await file.async('string');
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+describe('DocxExportService', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({ ok: true, blob: async () => new Blob(['png'], { type: 'image/png' }) })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('maps headings, lists, tables, code and images to Word markup', async () => {
+    const assistantElement = createAssistantElement(`
+      <h2>Summary</h2>
+      <p>Use <strong>bold</strong> and <code>inline()</code>.</p>
+      <ol><li>First</li><li>Second<ul><li>Nested</li></ul></li></ol>
+      <table-block><table><thead><tr><th>Name</th><th>Value</th></tr></thead><tbody><tr><td>a</td><td>1</td></tr></tbody></table></table-block>
+      <code-block><div class="code-block-decoration">Python</div><code>if x:\n\treturn 1</code></code-block>
+      <img src="https://lh3.googleusercontent.com/image=s100" alt="chart">
+    `);
+
+    const blob = await DocxExportService.renderConversationBlob(
+      [{ user: 'Explain', assistant: '', starred: true, assistantElement }],
+      METADATA,
+    );
+    const zip = await unzip(blob);
+    const xml = await readPart(zip, 'word/document.xml');
+    parseXml(xml);
+
+    expect(xml).toContain(
+      '<w:pStyle w:val="Title"/></w:pPr><w:r><w:t xml:space="preserve">Rates &amp; &lt;limits&gt;',
+    );
+    expect(xml).toContain('Turn 1 ★');
+    // Turn headings are Heading 1, so the answer's h2 moves down a level
+    expect(xml).toMatch(
+      /<w:pStyle w:val="Heading3"\/><\/w:pPr><w:r><w:t xml:space="preserve">Summary/,
+    );
+    expect(xml).toContain('<w:b/></w:rPr><w:t xml:space="preserve">bold</w:t>');
+    expect(xml).toContain('<w:rStyle w:val="CodeChar"/></w:rPr><w:t xml:space="preserve">inline()');
+
+    expect(xml).toContain('<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>');
+    expect(xml).toContain('<w:numPr><w:ilvl w:val="1"/><w:numId w:val="2"/></w:numPr>');
+    const numbering = await readPart(zip, 'word/numbering.xml');
+    expect(numbering).toContain('<w:num w:numId="1"><w:abstractNumId w:val="1"/>');
+    expect(numbering).toContain('<w:num w:numId="2"><w:abstractNumId w:val="0"/>');
+
+    expect(xml).toContain('<w:tblStyle w:val="TableGrid"/>');
+    expect(xml).toContain('<w:trPr><w:tblHeader/></w:trPr>');
+    expect(xml).toContain(
+      '<w:pStyle w:val="Code"/></w:pPr><w:r><w:t xml:space="preserve">if x:</w:t></w:r><w:r><w:br/><w:tab/>',
+    );
+
+    expect(xml).toContain('<a:blip r:embed="');
+    expect(zip.file('word/media/image1.png')).not.toBeNull();
+    const rels = await readPart(zip, 'word/_rels/document.xml.rels');
+    expect(rels).toContain('Target="media/image1.png"');
+    expect(await readPart(zip, '[Content_Types].xml')).toContain(
+      '<Default Extension="png" ContentType="image/png"/>',
+    );
+  });
+
+  it('writes formulas as native Word equations', async () => {
+    const blob = await DocxExportService.renderDocumentBlob({
+      title: 'Report',
+      url: 'https://gemini.google.com/app/abc',
+      exportedAt: METADATA.exportedAt,
+      markdown: '',
+      html: `
+        <h2>Findings</h2>
+        <p>Energy <span class="math-inline" data-math="E=mc^2"></span> holds, see <a href="https://example.com">source</a>.</p>
+        <div class="math-block" data-math="\\frac{a}{b}"></div>
+        <p><span class="math-inline" data-math="\\notacommand{"></span></p>
+      `,
+    });
+    const zip = await unzip(blob);
+    const xml = await readPart(zip, 'word/document.xml');
+    parseXml(xml);
+
+    expect(xml).toMatch(
+      /<w:pStyle w:val="Heading2"\/><\/w:pPr><w:r><w:t xml:space="preserve">Findings/,
+    );
+    expect(xml).toMatch(/Energy <\/w:t><\/w:r><m:oMath>.*<m:sSup>/);
+    expect(xml).toContain('<w:jc w:val="center"/></w:pPr><m:oMathPara><m:oMath><m:f>');
+    expect(xml).toMatch(/<w:hyperlink r:id="rId\d+" w:history="1">.*source/);
+    expect(await readPart(zip, 'word/_rels/document.xml.rels')).toContain(
+      'Target="https://example.com" TargetMode="External"',
+    );
+    // Unparseable LaTeX stays readable as text
+    expect(xml).toContain('$\\notacommand{$');
+  });
+
+  it('downloads the document with a .docx extension', async () => {
+    global.URL.createObjectURL = vi.fn(() => 'blob:test');
+    global.URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    await DocxExportService.export([{ user: 'q', assistant: 'a', starred: false }], METADATA, {
+      filename: 'chat',
+    });
+
+    const anchor = click.mock.contexts[0] as HTMLAnchorElement;
+    expect(anchor.download).toBe('chat.docx');
+    const blob = vi.mocked(URL.createObjectURL).mock.calls[0][0] as Blob;
+    expect(blob.type).toBe(DocxExportService.MIME_TYPE);
+    click.mockRestore();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ConversationMetadata } from '../../types/export';
+import { ExportProfileService } from '../ExportProfileService';
+
+const METADATA: ConversationMetadata = {
+  url: 'https://gemini.google.com/app/abc123',
+  exportedAt: new Date(2025, 0, 15, 9, 5, 7).toISOString(),
+  count: 3,
+  title: 'Plan: Q1 roadmap?',
+  id: 'abc123',
+  model: '2.5 Pro',
+  folderPath: ['Work', 'Planning'],
+  tags: ['roadmap', 'team "A"'],
+};
+
+describe('ExportProfileService', () => {
+  it('renders filename placeholders from the metadata', () => {
+    expect(ExportProfileService.renderFilename('{date}-{title}-{id}', METADATA, 'md')).toBe(
+      '2025-01-15-Plan-Q1-roadmap-abc123.md',
+    );
+    expect(ExportProfileService.renderFilename('{folder}_{model} {time}', METADATA, 'pdf')).toBe(
+      'Planning_2.5-Pro 090507.pdf',
+    );
+  });
+
+  it('drops empty placeholders with their separators and keeps unknown ones', () => {
+    const metadata: ConversationMetadata = { ...METADATA, title: undefined, model: undefined };
+
+    expect(ExportProfileService.renderFilename('{title}-{id}-{model}', metadata, 'md')).toBe(
+      'abc123.md',
+    );
+    expect(ExportProfileService.renderFilename('notes/{nope}', metadata, 'md')).toBe(
+      'notes{nope}.md',
+    );
+    expect(ExportProfileService.renderFilename('{title}', metadata, 'md')).toBeNull();
+  });
+
+  it('renders YAML front matter in field order and skips missing values', () => {
+    const frontMatter = ExportProfileService.renderFrontMatter(['tags', 'title', 'folder', 'url'], {
+      ...METADATA,
+      url: '',
+    });
+
+    expect(frontMatter).toBe(
+      [
+        '---',
+        'tags:',
+        '  - "roadmap"',
+        '  - "team \\"A\\""',
+        'title: "Plan: Q1 roadmap?"',
+        'folder: "Work/Planning"',
+        '---',
+        '',
+      ].join('\n'),
+    );
+    expect(
+      ExportProfileService.renderFrontMatter(['model', 'tags'], {
+        ...METADATA,
+        model: '',
+        tags: [],
+      }),
+    ).toBe('');
+  });
+
+  it('keeps only well-formed stored profiles', () => {
+    const profiles = ExportProfileService.normalizeProfiles([
+      {
+        id: 'p1',
+        name: 'Team',
+        filenamePattern: '{id}',
+        frontMatter: ['url', 'bogus', 'title', 'url'],
+        turnHeading: 'fancy',
+      },
+      { id: 'p1', name: 'Duplicate' },
+      { name: 'No id' },
+      'junk',
+    ]);
+
+    expect(profiles).toEqual([
+      {
+        id: 'p1',
+        name: 'Team',
+        filenamePattern: '{id}',
+        frontMatter: ['url', 'title'],
+        turnHeading: 'number',
+        includeImageSource: true,
+      },
+    ]);
+    expect(ExportProfileService.normalizeProfiles(null)).toEqual([]);
+  });
+});
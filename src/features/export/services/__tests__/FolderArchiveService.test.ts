@@ -0,0 +1,73 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+
+import { type FolderArchiveEntry, FolderArchiveService } from '../FolderArchiveService';
+
+function createEntry(overrides: Partial<FolderArchiveEntry> = {}): FolderArchiveEntry {
+  return {
+    path: 'Chat.md',
+    title: 'Chat',
+    url: 'https://gemini.google.com/app/abc',
+    folderPath: [],
+    status: 'done',
+    ...overrides,
+  };
+}
+
+describe('FolderArchiveService.getEntryPath', () => {
+  it('places files under sanitized subfolder directories', () => {
+    const used = new Set<string>();
+    expect(FolderArchiveService.getEntryPath(['Work', 'Q1: plans'], 'A/B test?', 'md', used)).toBe(
+      'Work/Q1 plans/AB test.md',
+    );
+  });
+
+  it('adds a suffix to clashing names, ignoring case', () => {
+    const used = new Set<string>();
+    expect(FolderArchiveService.getEntryPath([], 'Notes', 'md', used)).toBe('Notes.md');
+    expect(FolderArchiveService.getEntryPath([], 'notes', 'md', used)).toBe('notes (2).md');
+    expect(FolderArchiveService.getEntryPath([], 'Notes', 'md', used)).toBe('Notes (3).md');
+  });
+
+  it('falls back for empty titles and never overwrites the index', () => {
+    const used = new Set<string>();
+    expect(FolderArchiveService.getEntryPath([], '  ', 'md', used)).toBe('conversation.md');
+    expect(FolderArchiveService.getEntryPath([], 'index', 'md', used)).toBe('index (2).md');
+  });
+});
+
+describe('FolderArchiveService.buildIndex', () => {
+  it('links exported files and lists failed conversations separately', () => {
+    const index = FolderArchiveService.buildIndex('Work', '2025-01-01T00:00:00.000Z', [
+      createEntry({ path: 'Sub/My chat.md', title: 'My [chat]', folderPath: ['Sub'] }),
+      createEntry({ title: 'Broken', status: 'failed', error: 'No messages found' }),
+    ]);
+
+    expect(index).toContain('# Work');
+    expect(index).toContain('Conversations: 1/2');
+    expect(index).toContain('- [My \\[chat\\]](Sub/My%20chat.md) — Sub');
+    expect(index).toContain('## Not exported');
+    expect(index).toContain('- [Broken](https://gemini.google.com/app/abc): No messages found');
+  });
+});
+
+describe('FolderArchiveService.createArchive', () => {
+  it('writes the index and every file', async () => {
+    const blob = await FolderArchiveService.createArchive(
+      [{ path: 'Sub/Chat.md', content: '# Chat' }],
+      '# Index',
+    );
+    const zip = await JSZip.loadAsync(blob);
+
+    expect(await zip.file('index.md')?.async('string')).toBe('# Index');
+    expect(await zip.file('Sub/Chat.md')?.async('string')).toBe('# Chat');
+  });
+});
+
+describe('FolderArchiveService.getArchiveFilename', () => {
+  it('uses the folder name and date', () => {
+    expect(FolderArchiveService.getArchiveFilename('My Work', new Date(2025, 0, 5))).toBe(
+      'My-Work-20250105.zip',
+    );
+  });
+});
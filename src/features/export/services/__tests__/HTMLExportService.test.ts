@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ConversationMetadata } from '../../types/export';
+import { HTMLExportService } from '../HTMLExportService';
+
+const METADATA: ConversationMetadata = {
+  url: 'https://gemini.google.com/app/abc',
+  exportedAt: '2025-01-15T10:30:00.000Z',
+  count: 2,
+  title: 'Plotting <data>',
+};
+
+function createAssistantElement(html: string): HTMLElement {
+  const element = document.createElement('div');
+  element.innerHTML = `<div class="markdown">${html}</div>`;
+  return element;
+}
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('HTMLExportService', () => {
+  beforeEach(() => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({ ok: true, blob: async () => new Blob(['png'], { type: 'image/png' }) })),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('renders a standalone page with a collapsible turn list', async () => {
+    const html = await HTMLExportService.renderConversation(
+      [
+        { user: 'First question', assistant: 'Answer', starred: true, outlineTitle: 'Setup' },
+        { user: 'Second question', assistant: 'More', starred: false, outlineLevel: 2 },
+      ],
+      METADATA,
+    );
+    const doc = parse(html);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(doc.title).toBe('Plotting <data>');
+    expect(doc.querySelector('style')?.textContent).toContain('prefers-color-scheme: dark');
+    expect(doc.querySelector('link, script')).toBeNull();
+
+    const toc = Array.from(doc.querySelectorAll('.gv-html-toc a'));
+    expect(toc.map((a) => a.getAttribute('href'))).toEqual(['#turn-1', '#turn-2']);
+    expect(toc[0].textContent).toContain('Setup');
+    expect(doc.querySelector('.gv-html-toc-level-2')).not.toBeNull();
+
+    const turns = doc.querySelectorAll('details.gv-html-turn');
+    expect(turns).toHaveLength(2);
+    expect(turns[0].id).toBe('turn-1');
+    expect(turns[0].classList.contains('gv-html-turn-starred')).toBe(true);
+    expect(turns[1].querySelector('.gv-html-user .gv-html-body')?.innerHTML).toBe(
+      '<p>Second question</p>',
+    );
+  });
+
+  it('embeds images, formulas, diagrams and highlighted code', async () => {
+    const assistantElement = createAssistantElement(`
+      <p>Result</p>
+      <div class="math-block" data-math="x^2">
+        <span class="katex"><span class="katex-mathml"><math><msup><mi>x</mi><mn>2</mn></msup></math></span><span class="katex-html">x2</span></span>
+      </div>
+      <div class="gv-mermaid-wrapper">
+        <code-block><code>graph TD; A-->B</code></code-block>
+        <div class="gv-mermaid-diagram"><svg id="mermaid-1"><g></g></svg></div>
+      </div>
+      <code-block><div class="code-block-decoration">Python</div><code>def f(): return "hi" # done</code></code-block>
+      <img src="https://lh3.googleusercontent.com/image=s100" alt="chart">
+    `);
+
+    const doc = parse(
+      await HTMLExportService.renderConversation(
+        [{ user: 'Plot it', assistant: '', starred: false, assistantElement }],
+        METADATA,
+      ),
+    );
+    const body = doc.querySelector('.gv-html-assistant .gv-html-body') as HTMLElement;
+
+    expect(body.querySelector('.math-block math')?.getAttribute('display')).toBe('block');
+    expect(body.querySelector('.katex-html')).toBeNull();
+
+    expect(body.querySelector('figure.gv-html-diagram svg#mermaid-1')).not.toBeNull();
+    expect(body.querySelector('.gv-html-diagram-source pre code')?.textContent).toBe(
+      'graph TD; A-->B',
+    );
+
+    const pre = Array.from(body.querySelectorAll('pre')).find(
+      (element) => element.dataset.language === 'python',
+    );
+    expect(pre?.querySelector('.gv-hl-keyword')?.textContent).toBe('def');
+    expect(pre?.querySelector('.gv-hl-string')?.textContent).toBe('"hi"');
+    expect(pre?.querySelector('.gv-hl-comment')?.textContent).toBe('# done');
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://lh3.googleusercontent.com/image=s0',
+      expect.anything(),
+    );
+    expect(body.querySelector('img')?.getAttribute('src')).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('renders LaTeX-only formulas to MathML', async () => {
+    const doc = parse(
+      await HTMLExportService.renderDocument({
+        title: 'Report',
+        url: 'https://gemini.google.com/app/abc',
+        exportedAt: METADATA.exportedAt,
+        markdown: '',
+        html: '<h2>Findings</h2><p>Energy <span class="math-inline" data-math="E=mc^2"></span></p>',
+      }),
+    );
+
+    expect(doc.querySelector('.math-inline math')).not.toBeNull();
+    expect(doc.querySelector('h2')?.id).toBe('section-1');
+    expect(doc.querySelector('.gv-html-toc a')?.getAttribute('href')).toBe('#section-1');
+    expect(doc.querySelector('details.gv-html-turn')).toBeNull();
+  });
+
+  it('downloads the page with an .html extension', async () => {
+    global.URL.createObjectURL = vi.fn(() => 'blob:test');
+    global.URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    await HTMLExportService.export([{ user: 'q', assistant: 'a', starred: false }], METADATA, {
+      filename: 'chat',
+    });
+
+    const anchor = click.mock.contexts[0] as HTMLAnchorElement;
+    expect(anchor.download).toBe('chat.html');
+    click.mockRestore();
+  });
+});
@@ -112,6 +112,52 @@ describe('MarkdownFormatter', () => {
       // Should escape special characters in title but not in content
       expect(markdown).toBeTruthy();
     });
+
+    it('should not add a table of contents by default', () => {
+      const markdown = MarkdownFormatter.format(mockTurns, mockMetadata);
+
+      expect(markdown).not.toContain('## Contents');
+      expect(markdown).not.toContain('<a id=');
+    });
+
+    it('should link an outline table of contents to each turn', () => {
+      const turns: ChatTurn[] = [
+        { ...mockTurns[0], outlineTitle: 'Greeting' },
+        { ...mockTurns[1], outlineLevel: 2 },
+      ];
+
+      const markdown = MarkdownFormatter.format(turns, mockMetadata, { includeOutline: true });
+
+      expect(markdown).toContain('## Contents\n\n- [Greeting](#turn-1)\n  - [Can you help me');
+      expect(markdown).toContain('<a id="turn-2"></a>\n\n## Turn 2 ⭐');
+      expect(markdown.indexOf('## Contents')).toBeLessThan(markdown.indexOf('## Turn 1'));
+    });
+
+    it('should apply the front matter and turn headings of a profile', () => {
+      const turns: ChatTurn[] = [{ ...mockTurns[0], outlineTitle: 'Greeting' }, mockTurns[1]];
+
+      const markdown = MarkdownFormatter.format(
+        turns,
+        { ...mockMetadata, folderPath: ['Work', 'Docs'] },
+        {
+          profile: {
+            id: 'p1',
+            name: 'Team',
+            filenamePattern: '{title}',
+            frontMatter: ['title', 'folder', 'model'],
+            turnHeading: 'numberAndTitle',
+            includeImageSource: true,
+          },
+        },
+      );
+
+      expect(
+        markdown.startsWith('---\ntitle: "Test Conversation"\nfolder: "Work/Docs"\n---\n'),
+      ).toBe(true);
+      expect(markdown).toContain('## 1. Greeting\n');
+      expect(markdown).toContain('## 2. Can you help me with TypeScript? ⭐');
+      expect(markdown).not.toContain('## Turn 1');
+    });
   });
 
   describe('generateFilename', () => {
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { latexToWordMathML } from '@/features/formulaCopy/wordMathML';
+
+import { OmmlConverter } from '../OmmlConverter';
+
+function convert(latex: string, display = false): string {
+  const omml = OmmlConverter.fromMathML(latexToWordMathML(latex, display));
+  if (!omml) throw new Error('conversion failed');
+  return omml;
+}
+
+describe('OmmlConverter', () => {
+  it('converts fractions, scripts and roots', () => {
+    const omml = convert('\\frac{a}{b} + x^2 + y_i + \\sqrt{z} + \\sqrt[3]{w}');
+
+    expect(omml.startsWith('<m:oMath>')).toBe(true);
+    expect(omml).toContain('<m:f><m:num><m:r><m:t xml:space="preserve">a</m:t></m:r></m:num>');
+    expect(omml).toContain('<m:sSup><m:e><m:r><m:t xml:space="preserve">x</m:t></m:r></m:e>');
+    expect(omml).toContain('<m:sSub>');
+    expect(omml).toContain('<m:degHide m:val="1"/>');
+    expect(omml).toContain(
+      '<m:deg><m:r><m:rPr><m:sty m:val="p"/></m:rPr><m:t xml:space="preserve">3</m:t>',
+    );
+  });
+
+  it('turns large operators with limits into n-ary elements with a body', () => {
+    const omml = convert('\\sum_{i=1}^{n} i^2', true);
+
+    expect(omml.startsWith('<m:oMathPara><m:oMath>')).toBe(true);
+    expect(omml).toContain('<m:nary><m:naryPr><m:chr m:val="∑"/>');
+    expect(omml).toMatch(/<m:e><m:sSup><m:e><m:r><m:t xml:space="preserve">i<\/m:t>/);
+  });
+
+  it('keeps function names upright and maps accents and matrices', () => {
+    const omml = convert('\\sin \\hat{x} + \\begin{pmatrix}1 & 0\\\\0 & 1\\end{pmatrix}');
+
+    expect(omml).toContain('<m:sty m:val="p"/></m:rPr><m:t xml:space="preserve">sin</m:t>');
+    expect(omml).toContain('<m:acc><m:accPr><m:chr m:val="\u0302"/></m:accPr>');
+    expect(omml.match(/<m:mr>/g)).toHaveLength(2);
+  });
+
+  it('returns null for input that is not MathML', () => {
+    expect(OmmlConverter.fromMathML('<div>x</div>')).toBeNull();
+    expect(OmmlConverter.fromMathML('not xml')).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+
+import { OutlineTocBuilder } from '../OutlineTocBuilder';
+
+describe('OutlineTocBuilder.build', () => {
+  it('prefers the timeline label, then the first prompt line', () => {
+    const entries = OutlineTocBuilder.build([
+      { user: 'Question', assistant: 'a', starred: false, outlineTitle: '  Intro  ' },
+      { user: '\n  Second   question\nmore', assistant: 'a', starred: false, outlineLevel: 2 },
+      { user: '', assistant: '', starred: false },
+    ]);
+
+    expect(entries).toEqual([
+      { index: 1, level: 1, title: 'Intro', anchorId: 'turn-1' },
+      { index: 2, level: 2, title: 'Second question', anchorId: 'turn-2' },
+      { index: 3, level: 1, title: 'Turn 3', anchorId: 'turn-3' },
+    ]);
+  });
+
+  it('truncates long titles', () => {
+    const [entry] = OutlineTocBuilder.build([
+      { user: 'x'.repeat(200), assistant: '', starred: false },
+    ]);
+    expect(entry.title).toHaveLength(80);
+    expect(entry.title.endsWith('…')).toBe(true);
+  });
+});
@@ -211,6 +211,32 @@ describe('PDFPrintService', () => {
     expect(assistantSection?.textContent).toContain('Assistant only message');
   });
 
+  it('renders an outline table of contents linking to each turn', async () => {
+    window.print = vi.fn();
+
+    await PDFPrintService.export(
+      [
+        { user: 'First question', assistant: 'a', starred: false },
+        { user: 'u', assistant: 'a', starred: false, outlineLevel: 3, outlineTitle: 'Details' },
+      ],
+      {
+        url: 'https://gemini.google.com/app/x',
+        exportedAt: new Date().toISOString(),
+        count: 2,
+        title: 'Outline Export',
+      },
+      { includeOutline: true },
+    );
+
+    const links = Array.from(document.querySelectorAll('.gv-print-toc a'));
+    expect(links.map((link) => [link.textContent, link.getAttribute('href')])).toEqual([
+      ['First question', '#gv-print-turn-1'],
+      ['Details', '#gv-print-turn-2'],
+    ]);
+    expect(document.querySelector('.gv-print-toc-level-3')?.textContent).toContain('Details');
+    expect(document.getElementById('gv-print-turn-2')?.classList).toContain('gv-print-turn');
+  });
+
   it('still calls window.print when bridge element exists but has no listener', async () => {
     window.print = vi.fn();
     const bridge = document.createElement('div');
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import type { StarredMessage } from '@/pages/content/timeline/starredTypes';
+
+import { StarredDigestService } from '../StarredDigestService';
+
+function createMessage(overrides: Partial<StarredMessage> = {}): StarredMessage {
+  return {
+    turnId: 'u-0',
+    content: 'Preview...',
+    conversationId: 'c1',
+    conversationUrl: 'https://gemini.google.com/app/c1',
+    conversationTitle: 'Rust [help]',
+    starredAt: 1000,
+    ...overrides,
+  };
+}
+
+describe('StarredDigestService.groupByConversation', () => {
+  it('groups by conversation, newest star first, with messages oldest first', () => {
+    const groups = StarredDigestService.groupByConversation([
+      createMessage({ turnId: 'u-2', starredAt: 3000 }),
+      createMessage({ conversationId: 'c2', conversationTitle: 'Other', starredAt: 2000 }),
+      createMessage({ turnId: 'u-1', starredAt: 1000 }),
+    ]);
+
+    expect(groups.map((group) => group.conversationId)).toEqual(['c1', 'c2']);
+    expect(groups[0].messages.map((message) => message.turnId)).toEqual(['u-1', 'u-2']);
+    expect(groups[0].latestStarredAt).toBe(3000);
+  });
+});
+
+describe('StarredDigestService.toMarkdown', () => {
+  it('writes the full turn text, notes and a link to each message', () => {
+    const groups = StarredDigestService.groupByConversation([
+      createMessage({
+        userText: 'How do I parse JSON?',
+        responseText: 'Use `serde_json`.',
+        note: 'Check later\nfor lifetimes',
+      }),
+      createMessage({ turnId: 'u-3', conversationUrl: 'https://gemini.google.com/app/c1#old' }),
+    ]);
+
+    const markdown = StarredDigestService.toMarkdown(groups, new Date(0));
+
+    expect(markdown).toContain('Messages: 2');
+    expect(markdown).toContain('## [Rust \\[help\\]](https://gemini.google.com/app/c1');
+    expect(markdown).toContain('> Check later\n> for lifetimes');
+    expect(markdown).toContain('**User:**\n\nHow do I parse JSON?');
+    expect(markdown).toContain('**Gemini:**\n\nUse `serde_json`.');
+    expect(markdown).toContain('[Open message](https://gemini.google.com/app/c1#gv-turn-u-0)');
+    // Older stars without captured text fall back to the preview
+    expect(markdown).toContain('**User:**\n\nPreview...');
+    expect(markdown).toContain('(https://gemini.google.com/app/c1#gv-turn-u-3)');
+  });
+});
+
+describe('StarredDigestService.toJSON', () => {
+  it('serializes conversations and messages', () => {
+    const groups = StarredDigestService.groupByConversation([
+      createMessage({ userText: 'Question', responseText: 'Answer', note: 'Note' }),
+    ]);
+
+    const payload = JSON.parse(StarredDigestService.toJSON(groups, new Date(0)));
+
+    expect(payload).toEqual({
+      format: 'gemini-voyager.starred-digest.v1',
+      exportedAt: '1970-01-01T00:00:00.000Z',
+      count: 1,
+      conversations: [
+        {
+          conversationId: 'c1',
+          title: 'Rust [help]',
+          url: 'https://gemini.google.com/app/c1',
+          messages: [
+            {
+              turnId: 'u-0',
+              url: 'https://gemini.google.com/app/c1#gv-turn-u-0',
+              starredAt: '1970-01-01T00:00:01.000Z',
+              user: 'Question',
+              assistant: 'Answer',
+              note: 'Note',
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe('StarredDigestService.getFilename', () => {
+  it('uses the format extension and date', () => {
+    expect(StarredDigestService.getFilename('markdown', new Date(2025, 0, 5))).toBe(
+      'gemini-starred-20250105.md',
+    );
+    expect(StarredDigestService.getFilename('json', new Date(2025, 0, 5))).toBe(
+      'gemini-starred-20250105.json',
+    );
+  });
+});
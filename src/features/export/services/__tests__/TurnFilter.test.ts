@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { type FilterableTurn, TurnFilter } from '../TurnFilter';
+
+// t1 (1) ─ t2 (2) ─ t3 (3) ─ t4 (2) ─ t5 (1) ─ t6 (2)
+const TURNS: FilterableTurn[] = [
+  { id: 't1', starred: false },
+  { id: 't2', starred: true, outlineLevel: 2 },
+  { id: 't3', starred: false, outlineLevel: 3 },
+  { id: 't4', starred: true, outlineLevel: 2 },
+  { id: 't5', starred: true },
+  { id: 't6', starred: false, outlineLevel: 2 },
+];
+
+const ids = (turns: FilterableTurn[]) => turns.map((turn) => turn.id);
+
+describe('TurnFilter', () => {
+  it('treats an empty filter as inactive', () => {
+    expect(TurnFilter.isActive(undefined)).toBe(false);
+    expect(TurnFilter.isActive({})).toBe(false);
+    expect(TurnFilter.isActive({ starredOnly: false })).toBe(false);
+    expect(TurnFilter.isActive({ toTurn: 3 })).toBe(true);
+    expect(TurnFilter.isActive({ role: 'user' })).toBe(true);
+  });
+
+  it('keeps an inclusive 1-based turn range', () => {
+    expect(ids(TurnFilter.apply(TURNS, { fromTurn: 2, toTurn: 4 }))).toEqual(['t2', 't3', 't4']);
+    expect(ids(TurnFilter.apply(TURNS, { fromTurn: 5 }))).toEqual(['t5', 't6']);
+    expect(ids(TurnFilter.apply(TURNS, { fromTurn: 5, toTurn: 2 }))).toEqual([]);
+  });
+
+  it('combines starred turns with a timeline section', () => {
+    expect(ids(TurnFilter.apply(TURNS, { starredOnly: true }))).toEqual(['t2', 't4', 't5']);
+    expect(ids(TurnFilter.apply(TURNS, { sectionTurnId: 't1' }))).toEqual(['t1', 't2', 't3', 't4']);
+    expect(ids(TurnFilter.apply(TURNS, { sectionTurnId: 't2' }))).toEqual(['t2', 't3']);
+    expect(ids(TurnFilter.apply(TURNS, { sectionTurnId: 't1', starredOnly: true }))).toEqual([
+      't2',
+      't4',
+    ]);
+    expect(TurnFilter.apply(TURNS, { sectionTurnId: 'missing' })).toEqual([]);
+  });
+
+  it('lists markers with nested markers as sections', () => {
+    expect(ids(TurnFilter.getSections(TURNS))).toEqual(['t1', 't2', 't5']);
+  });
+});
@@ -0,0 +1,114 @@
+import JSZip from 'jszip';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { ForkNodesData } from '@/pages/content/fork/forkTypes';
+
+import { ConversationExportService } from '../ConversationExportService';
+import { VaultExportService } from '../VaultExportService';
+
+function createForks(): ForkNodesData {
+  const node = (conversationId: string, turnId: string, forkIndex: number) => ({
+    turnId,
+    conversationId,
+    conversationUrl: `https://gemini.google.com/app/${conversationId}`,
+    forkGroupId: 'group-1',
+    forkIndex,
+    createdAt: 0,
+  });
+  return {
+    nodes: {
+      original: [node('original', 'turn-2', 0)],
+      forked: [node('forked', 'turn-2', 1)],
+      elsewhere: [node('elsewhere', 'turn-5', 2)],
+    },
+    groups: { 'group-1': ['original:turn-2', 'forked:turn-2', 'elsewhere:turn-5'] },
+  };
+}
+
+describe('VaultExportService.getNotePath', () => {
+  it('keeps note names unique across directories and avoids wikilink syntax', () => {
+    const used = new Set<string>();
+
+    expect(VaultExportService.getNotePath(['Work'], 'Plan [draft] #1', used)).toBe(
+      'Work/Plan draft 1.md',
+    );
+    expect(VaultExportService.getNotePath(['Home'], 'plan draft 1', used)).toBe(
+      'Home/plan draft 1 (2).md',
+    );
+    expect(VaultExportService.getNotePath([], 'Index', used)).toBe('Index (2).md');
+  });
+});
+
+describe('VaultExportService.getForkLinks', () => {
+  it('links the exported members of a fork group to each other', () => {
+    const links = VaultExportService.getForkLinks(createForks(), [
+      { path: 'Work/Original.md', url: 'https://gemini.google.com/app/original' },
+      { path: 'Forked.md', url: 'https://gemini.google.com/app/forked?hl=en' },
+      { path: 'Unrelated.md', url: 'https://gemini.google.com/app/unrelated' },
+    ]);
+
+    expect(Object.fromEntries(links)).toEqual({
+      'Work/Original.md': ['Forked.md'],
+      'Forked.md': ['Work/Original.md'],
+    });
+  });
+});
+
+describe('VaultExportService.createArchive', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds fork wikilinks and moves images into the attachments directory', async () => {
+    vi.spyOn(
+      ConversationExportService as unknown as {
+        fetchImageForMarkdownPackaging: () => Promise<unknown>;
+      },
+      'fetchImageForMarkdownPackaging',
+    ).mockResolvedValue({
+      blob: new Blob(['png-bytes'], { type: 'image/png' }),
+      contentType: 'image/png',
+    });
+
+    const blob = await VaultExportService.createArchive(
+      [
+        {
+          path: 'Work/Original.md',
+          url: 'https://gemini.google.com/app/original',
+          content: '# Original\n\n![chart](https://example.com/chart.png)\n',
+        },
+        {
+          path: 'Forked.md',
+          url: 'https://gemini.google.com/app/forked',
+          content: '# Forked\n\n![photo](https://example.com/photo.png)',
+        },
+      ],
+      '# Index\n',
+      createForks(),
+    );
+    const zip = await JSZip.loadAsync(blob);
+
+    const original = await zip.file('Work/Original.md')!.async('string');
+    expect(original).toContain('![chart](../attachments/img-001.png)');
+    expect(original).toContain('## Forks\n\n- [[Forked]]\n');
+
+    const forked = await zip.file('Forked.md')!.async('string');
+    expect(forked).toContain('![photo](attachments/img-002.png)');
+    expect(forked).toContain('- [[Original]]');
+
+    expect(zip.file('attachments/img-001.png')).not.toBeNull();
+    expect(zip.file('attachments/img-002.png')).not.toBeNull();
+    expect(await zip.file('index.md')!.async('string')).toBe('# Index\n');
+  });
+
+  it('leaves notes unlinked without fork data', async () => {
+    const blob = await VaultExportService.createArchive(
+      [{ path: 'Chat.md', url: 'https://gemini.google.com/app/chat', content: '# Chat\n' }],
+      '# Index\n',
+      null,
+    );
+    const zip = await JSZip.loadAsync(blob);
+
+    expect(await zip.file('Chat.md')!.async('string')).toBe('# Chat\n');
+  });
+});
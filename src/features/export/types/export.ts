@@ -11,6 +11,9 @@ export interface ChatTurn {
   assistant: string;
   starred: boolean;
   omitEmptySections?: boolean;
+  // Timeline outline of the turn, used for the optional table of contents
+  outlineLevel?: 1 | 2 | 3;
+  outlineTitle?: string;
   // Optional DOM elements for rich content extraction
   userElement?: HTMLElement;
   assistantElement?: HTMLElement;
@@ -24,6 +27,14 @@ export interface ConversationMetadata {
   exportedAt: string;
   title?: string;
   count: number;
+  /** Conversation id from the page URL */
+  id?: string;
+  /** Model selected in the page's model picker, when it could be read */
+  model?: string;
+  /** Names of the folders containing the conversation, outermost first */
+  folderPath?: string[];
+  /** Names of the folder tags attached to the conversation */
+  tags?: string[];
 }
 
 /**
@@ -34,6 +45,8 @@ export enum ExportFormat {
   MARKDOWN = 'markdown',
   PDF = 'pdf',
   IMAGE = 'image',
+  HTML = 'html',
+  DOCX = 'docx',
 }
 
 export type ExportLayout = 'conversation' | 'document';
@@ -49,6 +62,49 @@ export interface ExportFormatInfo {
   recommended?: boolean;
 }
 
+/**
+ * Turns and messages to include in an export, chosen in the export dialog
+ */
+export interface ExportTurnFilter {
+  /** First turn to export (1-based, inclusive) */
+  fromTurn?: number;
+  /** Last turn to export (1-based, inclusive) */
+  toTurn?: number;
+  starredOnly?: boolean;
+  /** Turn id of a timeline marker; only it and the markers nested under it are exported */
+  sectionTurnId?: string;
+  /** Keep only the user's prompts or only the model's responses */
+  role?: 'user' | 'assistant';
+}
+
+/**
+ * Metadata fields that can be written to Markdown YAML front matter
+ */
+export type ExportFrontMatterField = 'title' | 'url' | 'model' | 'exportedAt' | 'folder' | 'tags';
+
+/**
+ * Markdown turn heading styles
+ * - 'number': `## Turn 3`
+ * - 'title': the timeline label or the prompt's first line, e.g. `## Compare the plans`
+ * - 'numberAndTitle': `## 3. Compare the plans`
+ */
+export type ExportTurnHeadingStyle = 'number' | 'title' | 'numberAndTitle';
+
+/**
+ * Saved export profile: naming and Markdown layout shared by a team or workflow
+ */
+export interface ExportProfile {
+  id: string;
+  name: string;
+  /** Filename without extension, with placeholders such as `{date}-{title}-{id}` */
+  filenamePattern: string;
+  /** Front matter fields, in output order; empty for no front matter */
+  frontMatter: ExportFrontMatterField[];
+  turnHeading: ExportTurnHeadingStyle;
+  /** Keep the source attribution lines under search images in Markdown */
+  includeImageSource: boolean;
+}
+
 /**
  * Export options
  */
@@ -66,6 +122,10 @@ export interface ExportOptions {
   fontSize?: number;
   /** Whether to include image source attribution in markdown (default: true) */
   includeImageSource?: boolean;
+  /** Prepend a table of contents linking to each turn (markdown/pdf) */
+  includeOutline?: boolean;
+  /** Filename pattern for every format, and front matter and turn headings for markdown */
+  profile?: ExportProfile;
 }
 
 /**
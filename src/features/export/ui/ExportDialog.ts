@@ -5,11 +5,75 @@
 import { isSafari } from '@/core/utils/browser';
 
 import { ConversationExportService } from '../services/ConversationExportService';
-import type { ExportFormat } from '../types/export';
+import {
+  EXPORT_FRONT_MATTER_FIELDS,
+  EXPORT_TURN_HEADING_STYLES,
+  ExportProfileService,
+} from '../services/ExportProfileService';
+import { type FilterableTurn, TurnFilter } from '../services/TurnFilter';
+import type {
+  ExportFormat,
+  ExportFrontMatterField,
+  ExportProfile,
+  ExportTurnFilter,
+  ExportTurnHeadingStyle,
+} from '../types/export';
+
+export interface ExportDialogTurnFilterTranslations {
+  title: string;
+  range: string;
+  starredOnly: string;
+  section: string;
+  allSections: string;
+  role: string;
+  roleAll: string;
+  roleUser: string;
+  roleAssistant: string;
+  /** Preview line with `{count}` and `{total}` placeholders */
+  preview: string;
+}
+
+export interface ExportDialogProfileTranslations {
+  title: string;
+  /** Option for exporting without a profile */
+  none: string;
+  create: string;
+  edit: string;
+  name: string;
+  /** Name given to a new profile until it is renamed */
+  untitled: string;
+  filenamePattern: string;
+  /** Help line listing the filename placeholders */
+  filenamePatternHint: string;
+  frontMatter: string;
+  frontMatterFields: Record<ExportFrontMatterField, string>;
+  turnHeading: string;
+  turnHeadingStyles: Record<ExportTurnHeadingStyle, string>;
+  imageSource: string;
+  save: string;
+  delete: string;
+}
 
 export interface ExportDialogOptions {
-  onExport: (format: ExportFormat, fontSize?: number) => void;
+  onExport: (
+    format: ExportFormat,
+    fontSize?: number,
+    includeOutline?: boolean,
+    turnFilter?: ExportTurnFilter,
+    profile?: ExportProfile,
+  ) => void;
   onCancel: () => void;
+  /** Turns of the conversation; the turn filter section is hidden without them */
+  turns?: readonly FilterableTurn[];
+  /** Saved export profiles */
+  profiles?: readonly ExportProfile[];
+  /** Profile selected when the dialog opens, e.g. the one remembered for the folder */
+  selectedProfileId?: string;
+  /**
+   * Called with the whole list after a profile is saved or deleted.
+   * The profile section is hidden without it.
+   */
+  onProfilesChange?: (profiles: ExportProfile[]) => void;
   translations: {
     title: string;
     selectFormat: string;
@@ -20,6 +84,10 @@ export interface ExportDialogOptions {
     export: string;
     fontSizeLabel: string;
     fontSizePreview: string;
+    /** Label of the outline table of contents option; the option is hidden without it */
+    outlineToc?: string;
+    turnFilter?: ExportDialogTurnFilterTranslations;
+    profile?: ExportDialogProfileTranslations;
     formatDescriptions: Record<ExportFormat, string>;
   };
 }
@@ -39,6 +107,11 @@ export class ExportDialog {
   private overlay: HTMLElement | null = null;
   private selectedFormat: ExportFormat = 'markdown' as ExportFormat;
   private fontSize: number = PDF_DEFAULT_FONT_SIZE;
+  private includeOutline = false;
+  private turnFilter: ExportTurnFilter = {};
+  private profiles: ExportProfile[] = [];
+  private selectedProfileId = '';
+  private editingProfile: ExportProfile | null = null;
 
   /**
    * Show export dialog
@@ -103,6 +176,23 @@ export class ExportDialog {
     // Font size section (visible only for PDF/Image)
     const fontSizeSection = this.createFontSizeSection(options);
 
+    // Outline table of contents option (visible only for Markdown/PDF/HTML)
+    const outlineOption = options.translations.outlineToc
+      ? this.createOutlineOption(options.translations.outlineToc)
+      : null;
+
+    // Turn range, starred, section and role filters with a live turn count
+    const filterSection =
+      options.turns && options.turns.length > 0 && options.translations.turnFilter
+        ? this.createTurnFilterSection(options.turns, options.translations.turnFilter)
+        : null;
+
+    // Saved export profiles with an inline editor
+    const profileSection =
+      options.onProfilesChange && options.translations.profile
+        ? this.createProfileSection(options, options.translations.profile)
+        : null;
+
     // Buttons
     const buttons = document.createElement('div');
     buttons.className = 'gv-export-dialog-buttons';
@@ -122,7 +212,18 @@ export class ExportDialog {
       const isPdfOrImage =
         this.selectedFormat === ('pdf' as ExportFormat) ||
         this.selectedFormat === ('image' as ExportFormat);
-      options.onExport(this.selectedFormat, isPdfOrImage ? this.fontSize : undefined);
+      const outline = outlineOption && this.supportsOutline() ? this.includeOutline : undefined;
+      const fontSize = isPdfOrImage ? this.fontSize : undefined;
+      const turnFilter =
+        filterSection && TurnFilter.isActive(this.turnFilter) ? { ...this.turnFilter } : undefined;
+      const profile = this.profiles.find((item) => item.id === this.selectedProfileId);
+      if (profile) {
+        options.onExport(this.selectedFormat, fontSize, outline, turnFilter, profile);
+      } else if (turnFilter) {
+        options.onExport(this.selectedFormat, fontSize, outline, turnFilter);
+      } else {
+        options.onExport(this.selectedFormat, fontSize, outline);
+      }
       this.hide();
     });
 
@@ -140,6 +241,9 @@ export class ExportDialog {
     }
     dialog.appendChild(formatsList);
     dialog.appendChild(fontSizeSection);
+    if (outlineOption) dialog.appendChild(outlineOption);
+    if (filterSection) dialog.appendChild(filterSection);
+    if (profileSection) dialog.appendChild(profileSection);
     dialog.appendChild(buttons);
     overlay.appendChild(dialog);
 
@@ -194,6 +298,7 @@ export class ExportDialog {
       if (radio.checked) {
         this.selectedFormat = formatInfo.format;
         this.updateFontSizeSection();
+        this.updateOutlineOption();
       }
     });
 
@@ -290,6 +395,375 @@ export class ExportDialog {
     return section;
   }
 
+  /**
+   * Create the checkbox that prepends the timeline outline as a table of contents
+   */
+  private createOutlineOption(labelText: string): HTMLElement {
+    const option = document.createElement('label');
+    option.className = 'gv-export-outline-option';
+    // Visible by default since markdown is initially selected
+    option.style.display = this.supportsOutline() ? 'flex' : 'none';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = this.includeOutline;
+    checkbox.addEventListener('change', () => {
+      this.includeOutline = checkbox.checked;
+    });
+
+    const label = document.createElement('span');
+    label.textContent = labelText;
+
+    option.appendChild(checkbox);
+    option.appendChild(label);
+    return option;
+  }
+
+  /**
+   * Create the turn filter controls: range, starred only, timeline section and message role
+   */
+  private createTurnFilterSection(
+    turns: readonly FilterableTurn[],
+    labels: ExportDialogTurnFilterTranslations,
+  ): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'gv-export-filter-section';
+
+    const title = document.createElement('div');
+    title.className = 'gv-export-filter-title';
+    title.textContent = labels.title;
+    section.appendChild(title);
+
+    const preview = document.createElement('div');
+    preview.className = 'gv-export-filter-preview';
+
+    const updatePreview = () => {
+      const count = TurnFilter.apply(turns, this.turnFilter).length;
+      preview.textContent = labels.preview
+        .replace('{count}', String(count))
+        .replace('{total}', String(turns.length));
+      const exportBtn = this.overlay?.querySelector(
+        '.gv-export-dialog-btn-primary',
+      ) as HTMLButtonElement | null;
+      if (exportBtn) exportBtn.disabled = count === 0;
+    };
+
+    // Range
+    const from = this.createTurnNumberInput('gv-export-filter-from', '1', turns.length);
+    const to = this.createTurnNumberInput(
+      'gv-export-filter-to',
+      String(turns.length),
+      turns.length,
+    );
+    const onRangeInput = () => {
+      this.turnFilter.fromTurn = this.parseTurnNumber(from.value);
+      this.turnFilter.toTurn = this.parseTurnNumber(to.value);
+      updatePreview();
+    };
+    from.addEventListener('input', onRangeInput);
+    to.addEventListener('input', onRangeInput);
+
+    const dash = document.createElement('span');
+    dash.textContent = '–';
+    const rangeInputs = document.createElement('div');
+    rangeInputs.className = 'gv-export-filter-range';
+    rangeInputs.append(from, dash, to);
+    section.appendChild(this.createFilterRow(labels.range, rangeInputs));
+
+    // Starred only
+    const starred = document.createElement('label');
+    starred.className = 'gv-export-filter-checkbox';
+    const starredCheckbox = document.createElement('input');
+    starredCheckbox.type = 'checkbox';
+    starredCheckbox.className = 'gv-export-filter-starred';
+    starredCheckbox.addEventListener('change', () => {
+      this.turnFilter.starredOnly = starredCheckbox.checked || undefined;
+      updatePreview();
+    });
+    const starredLabel = document.createElement('span');
+    starredLabel.textContent = labels.starredOnly;
+    starred.append(starredCheckbox, starredLabel);
+    section.appendChild(starred);
+
+    // Timeline section, only when some marker has nested markers
+    const sections = TurnFilter.getSections(turns);
+    if (sections.length > 0) {
+      const select = this.createSelect('gv-export-filter-timeline', [
+        { value: '', label: labels.allSections },
+        ...sections.map((turn) => ({
+          value: turn.id,
+          label: `${'\u00a0\u00a0'.repeat((turn.outlineLevel ?? 1) - 1)}${turn.title || turn.id}`,
+        })),
+      ]);
+      select.addEventListener('change', () => {
+        this.turnFilter.sectionTurnId = select.value || undefined;
+        updatePreview();
+      });
+      section.appendChild(this.createFilterRow(labels.section, select));
+    }
+
+    // Role
+    const role = this.createSelect('gv-export-filter-role', [
+      { value: '', label: labels.roleAll },
+      { value: 'user', label: labels.roleUser },
+      { value: 'assistant', label: labels.roleAssistant },
+    ]);
+    role.addEventListener('change', () => {
+      this.turnFilter.role = (role.value || undefined) as ExportTurnFilter['role'];
+    });
+    section.appendChild(this.createFilterRow(labels.role, role));
+
+    section.appendChild(preview);
+    updatePreview();
+    return section;
+  }
+
+  /**
+   * Create the profile picker and the editor for its filename pattern, front matter,
+   * turn headings and image source option
+   */
+  private createProfileSection(
+    options: ExportDialogOptions,
+    labels: ExportDialogProfileTranslations,
+  ): HTMLElement {
+    this.profiles = (options.profiles ?? []).map((profile) => ({
+      ...profile,
+      frontMatter: [...profile.frontMatter],
+    }));
+    this.selectedProfileId = this.profiles.some((item) => item.id === options.selectedProfileId)
+      ? (options.selectedProfileId as string)
+      : '';
+
+    const section = document.createElement('div');
+    section.className = 'gv-export-profile-section';
+
+    const select = document.createElement('select');
+    select.className = 'gv-export-profile-select';
+    const newBtn = this.createProfileButton('gv-export-profile-new', labels.create);
+    const editBtn = this.createProfileButton('gv-export-profile-edit', labels.edit);
+
+    const renderSelect = () => {
+      select.replaceChildren();
+      [
+        { value: '', label: labels.none },
+        ...this.profiles.map((profile) => ({
+          value: profile.id,
+          label: profile.name || labels.untitled,
+        })),
+      ].forEach((choice) => {
+        const option = document.createElement('option');
+        option.value = choice.value;
+        option.textContent = choice.label;
+        select.appendChild(option);
+      });
+      select.value = this.selectedProfileId;
+      editBtn.disabled = !this.selectedProfileId;
+    };
+
+    const picker = document.createElement('div');
+    picker.className = 'gv-export-profile-picker';
+    picker.append(select, newBtn, editBtn);
+    section.appendChild(this.createFilterRow(labels.title, picker));
+
+    // Editor
+    const editor = document.createElement('div');
+    editor.className = 'gv-export-profile-editor';
+    editor.style.display = 'none';
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.className = 'gv-export-profile-name';
+    editor.appendChild(this.createFilterRow(labels.name, nameInput));
+
+    const patternInput = document.createElement('input');
+    patternInput.type = 'text';
+    patternInput.className = 'gv-export-profile-pattern';
+    patternInput.spellcheck = false;
+    editor.appendChild(this.createFilterRow(labels.filenamePattern, patternInput));
+    const hint = document.createElement('div');
+    hint.className = 'gv-export-profile-hint';
+    hint.textContent = labels.filenamePatternHint;
+    editor.appendChild(hint);
+
+    const fields = document.createElement('div');
+    fields.className = 'gv-export-profile-fields';
+    const fieldCheckboxes = EXPORT_FRONT_MATTER_FIELDS.map((field) => {
+      const label = document.createElement('label');
+      label.className = 'gv-export-filter-checkbox';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.className = 'gv-export-profile-field';
+      checkbox.value = field;
+      const text = document.createElement('span');
+      text.textContent = labels.frontMatterFields[field];
+      label.append(checkbox, text);
+      fields.appendChild(label);
+      return checkbox;
+    });
+    editor.appendChild(this.createFilterRow(labels.frontMatter, fields));
+
+    const headingSelect = this.createSelect(
+      'gv-export-profile-heading',
+      EXPORT_TURN_HEADING_STYLES.map((style) => ({
+        value: style,
+        label: labels.turnHeadingStyles[style],
+      })),
+    );
+    editor.appendChild(this.createFilterRow(labels.turnHeading, headingSelect));
+
+    const imageSource = document.createElement('label');
+    imageSource.className = 'gv-export-filter-checkbox';
+    const imageSourceCheckbox = document.createElement('input');
+    imageSourceCheckbox.type = 'checkbox';
+    imageSourceCheckbox.className = 'gv-export-profile-image-source';
+    const imageSourceLabel = document.createElement('span');
+    imageSourceLabel.textContent = labels.imageSource;
+    imageSource.append(imageSourceCheckbox, imageSourceLabel);
+    editor.appendChild(imageSource);
+
+    const saveBtn = this.createProfileButton('gv-export-profile-save', labels.save);
+    const deleteBtn = this.createProfileButton('gv-export-profile-delete', labels.delete);
+    const editorButtons = document.createElement('div');
+    editorButtons.className = 'gv-export-profile-actions';
+    editorButtons.append(deleteBtn, saveBtn);
+    editor.appendChild(editorButtons);
+    section.appendChild(editor);
+
+    const openEditor = (profile: ExportProfile, isNew: boolean) => {
+      this.editingProfile = profile;
+      nameInput.value = profile.name;
+      patternInput.value = profile.filenamePattern;
+      fieldCheckboxes.forEach((checkbox) => {
+        checkbox.checked = profile.frontMatter.includes(checkbox.value as ExportFrontMatterField);
+      });
+      headingSelect.value = profile.turnHeading;
+      imageSourceCheckbox.checked = profile.includeImageSource;
+      deleteBtn.style.display = isNew ? 'none' : '';
+      editor.style.display = 'flex';
+      nameInput.focus();
+    };
+    const closeEditor = () => {
+      this.editingProfile = null;
+      editor.style.display = 'none';
+    };
+    const commit = () => {
+      renderSelect();
+      closeEditor();
+      options.onProfilesChange?.(this.profiles.map((profile) => ({ ...profile })));
+    };
+
+    select.addEventListener('change', () => {
+      this.selectedProfileId = select.value;
+      editBtn.disabled = !this.selectedProfileId;
+      closeEditor();
+    });
+    newBtn.addEventListener('click', () => {
+      openEditor(ExportProfileService.createProfile(labels.untitled), true);
+    });
+    editBtn.addEventListener('click', () => {
+      const profile = this.profiles.find((item) => item.id === this.selectedProfileId);
+      if (profile) openEditor({ ...profile, frontMatter: [...profile.frontMatter] }, false);
+    });
+    saveBtn.addEventListener('click', () => {
+      if (!this.editingProfile) return;
+      const profile: ExportProfile = {
+        ...this.editingProfile,
+        name: nameInput.value.trim() || labels.untitled,
+        filenamePattern: patternInput.value.trim(),
+        frontMatter: fieldCheckboxes
+          .filter((checkbox) => checkbox.checked)
+          .map((checkbox) => checkbox.value as ExportFrontMatterField),
+        turnHeading: headingSelect.value as ExportTurnHeadingStyle,
+        includeImageSource: imageSourceCheckbox.checked,
+      };
+      const index = this.profiles.findIndex((item) => item.id === profile.id);
+      if (index >= 0) {
+        this.profiles[index] = profile;
+      } else {
+        this.profiles.push(profile);
+      }
+      this.selectedProfileId = profile.id;
+      commit();
+    });
+    deleteBtn.addEventListener('click', () => {
+      if (!this.editingProfile) return;
+      const id = this.editingProfile.id;
+      this.profiles = this.profiles.filter((item) => item.id !== id);
+      this.selectedProfileId = '';
+      commit();
+    });
+
+    renderSelect();
+    return section;
+  }
+
+  private createProfileButton(className: string, text: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `gv-export-profile-btn ${className}`;
+    button.textContent = text;
+    return button;
+  }
+
+  private createFilterRow(labelText: string, control: HTMLElement): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'gv-export-filter-row';
+    const label = document.createElement('span');
+    label.className = 'gv-export-filter-label';
+    label.textContent = labelText;
+    row.append(label, control);
+    return row;
+  }
+
+  private createTurnNumberInput(
+    className: string,
+    placeholder: string,
+    max: number,
+  ): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.className = className;
+    input.min = '1';
+    input.max = String(max);
+    input.step = '1';
+    input.placeholder = placeholder;
+    return input;
+  }
+
+  private createSelect(
+    className: string,
+    choices: Array<{ value: string; label: string }>,
+  ): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.className = className;
+    choices.forEach((choice) => {
+      const option = document.createElement('option');
+      option.value = choice.value;
+      option.textContent = choice.label;
+      select.appendChild(option);
+    });
+    return select;
+  }
+
+  private parseTurnNumber(value: string): number | undefined {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  }
+
+  private supportsOutline(): boolean {
+    return (
+      this.selectedFormat === ('markdown' as ExportFormat) ||
+      this.selectedFormat === ('pdf' as ExportFormat) ||
+      this.selectedFormat === ('html' as ExportFormat)
+    );
+  }
+
+  private updateOutlineOption(): void {
+    const option = this.overlay?.querySelector('.gv-export-outline-option') as HTMLElement | null;
+    if (!option) return;
+    option.style.display = this.supportsOutline() ? 'flex' : 'none';
+  }
+
   /**
    * Update font size section visibility and slider range based on selected format
    */
@@ -38,6 +38,8 @@ describe('ExportDialog (Safari hint)', () => {
         markdown: 'MD desc',
         pdf: 'PDF desc',
         image: 'Image desc',
+        html: 'HTML desc',
+        docx: 'Word desc',
       },
     },
   };
@@ -30,6 +30,8 @@ describe('ExportDialog', () => {
           markdown: 'Markdown format',
           pdf: 'PDF format',
           image: 'Image format',
+          html: 'HTML format',
+          docx: 'Word format',
         },
       },
     });
@@ -67,6 +69,8 @@ describe('ExportDialog', () => {
           markdown: 'Markdown format',
           pdf: 'PDF format',
           image: 'Image format',
+          html: 'HTML format',
+          docx: 'Word format',
         },
       },
     });
@@ -74,4 +78,232 @@ describe('ExportDialog', () => {
     const warning = document.querySelector('.gv-export-dialog-warning') as HTMLElement | null;
     expect(warning).toBeNull();
   });
+
+  it('offers the outline table of contents only for markdown and pdf', () => {
+    const onExport = vi.fn();
+    const dialog = new ExportDialog();
+    dialog.show({
+      onExport,
+      onCancel: () => {},
+      translations: {
+        title: 'Export',
+        selectFormat: 'Select format',
+        warning: '',
+        safariCmdpHint: 'Safari tip',
+        safariMarkdownHint: 'Safari markdown tip',
+        cancel: 'Cancel',
+        export: 'Export',
+        fontSizeLabel: 'Font Size',
+        fontSizePreview: 'The quick brown fox jumps over the lazy dog.',
+        outlineToc: 'Add a table of contents',
+        formatDescriptions: {
+          json: 'JSON format',
+          markdown: 'Markdown format',
+          pdf: 'PDF format',
+          image: 'Image format',
+          html: 'HTML format',
+          docx: 'Word format',
+        },
+      },
+    });
+
+    const option = document.querySelector('.gv-export-outline-option') as HTMLElement;
+    expect(option.style.display).toBe('flex');
+
+    (
+      document.querySelector('input[name="export-format"][value="json"]') as HTMLInputElement
+    ).click();
+    expect(option.style.display).toBe('none');
+
+    const markdownRadio = document.querySelector(
+      'input[name="export-format"][value="markdown"]',
+    ) as HTMLInputElement;
+    markdownRadio.click();
+    expect(option.style.display).toBe('flex');
+
+    (option.querySelector('input[type="checkbox"]') as HTMLInputElement).click();
+    (document.querySelector('.gv-export-dialog-btn-primary') as HTMLButtonElement).click();
+
+    expect(onExport).toHaveBeenCalledWith('markdown', undefined, true);
+  });
+
+  it('filters turns, previews the count and passes the filter on export', () => {
+    const onExport = vi.fn();
+    const dialog = new ExportDialog();
+    dialog.show({
+      onExport,
+      onCancel: () => {},
+      turns: [
+        { id: 't1', starred: false, title: 'Intro' },
+        { id: 't2', starred: true, outlineLevel: 2, title: 'Details' },
+        { id: 't3', starred: true },
+        { id: 't4', starred: false },
+      ],
+      translations: {
+        title: 'Export',
+        selectFormat: 'Select format',
+        warning: '',
+        safariCmdpHint: 'Safari tip',
+        safariMarkdownHint: 'Safari markdown tip',
+        cancel: 'Cancel',
+        export: 'Export',
+        fontSizeLabel: 'Font Size',
+        fontSizePreview: 'The quick brown fox jumps over the lazy dog.',
+        turnFilter: {
+          title: 'Turns',
+          range: 'Range',
+          starredOnly: 'Starred only',
+          section: 'Section',
+          allSections: 'Whole conversation',
+          role: 'Messages',
+          roleAll: 'All',
+          roleUser: 'Prompts',
+          roleAssistant: 'Responses',
+          preview: '{count} of {total} turns',
+        },
+        formatDescriptions: {
+          json: 'JSON format',
+          markdown: 'Markdown format',
+          pdf: 'PDF format',
+          image: 'Image format',
+          html: 'HTML format',
+          docx: 'Word format',
+        },
+      },
+    });
+
+    const preview = document.querySelector('.gv-export-filter-preview') as HTMLElement;
+    const exportBtn = document.querySelector('.gv-export-dialog-btn-primary') as HTMLButtonElement;
+    expect(preview.textContent).toBe('4 of 4 turns');
+
+    const timeline = document.querySelector('.gv-export-filter-timeline') as HTMLSelectElement;
+    expect(Array.from(timeline.options).map((option) => option.value)).toEqual(['', 't1']);
+    timeline.value = 't1';
+    timeline.dispatchEvent(new Event('change'));
+    expect(preview.textContent).toBe('2 of 4 turns');
+
+    const from = document.querySelector('.gv-export-filter-from') as HTMLInputElement;
+    from.value = '3';
+    from.dispatchEvent(new Event('input'));
+    expect(preview.textContent).toBe('0 of 4 turns');
+    expect(exportBtn.disabled).toBe(true);
+
+    timeline.value = '';
+    timeline.dispatchEvent(new Event('change'));
+    (document.querySelector('.gv-export-filter-starred') as HTMLInputElement).click();
+    expect(preview.textContent).toBe('1 of 4 turns');
+    expect(exportBtn.disabled).toBe(false);
+
+    const role = document.querySelector('.gv-export-filter-role') as HTMLSelectElement;
+    role.value = 'assistant';
+    role.dispatchEvent(new Event('change'));
+    exportBtn.click();
+
+    expect(onExport).toHaveBeenCalledWith('markdown', undefined, undefined, {
+      fromTurn: 3,
+      toTurn: undefined,
+      starredOnly: true,
+      sectionTurnId: undefined,
+      role: 'assistant',
+    });
+  });
+
+  it('selects, creates and deletes export profiles and passes the profile on export', () => {
+    const onExport = vi.fn();
+    const onProfilesChange = vi.fn();
+    const team = {
+      id: 'team',
+      name: 'Team',
+      filenamePattern: '{date}-{title}',
+      frontMatter: ['url' as const],
+      turnHeading: 'number' as const,
+      includeImageSource: true,
+    };
+    const dialog = new ExportDialog();
+    dialog.show({
+      onExport,
+      onCancel: () => {},
+      profiles: [team],
+      selectedProfileId: 'team',
+      onProfilesChange,
+      translations: {
+        title: 'Export',
+        selectFormat: 'Select format',
+        warning: '',
+        safariCmdpHint: 'Safari tip',
+        safariMarkdownHint: 'Safari markdown tip',
+        cancel: 'Cancel',
+        export: 'Export',
+        fontSizeLabel: 'Font Size',
+        fontSizePreview: 'The quick brown fox jumps over the lazy dog.',
+        profile: {
+          title: 'Profile',
+          none: 'Default',
+          create: 'New',
+          edit: 'Edit',
+          name: 'Name',
+          untitled: 'New profile',
+          filenamePattern: 'File name',
+          filenamePatternHint: 'Placeholders',
+          frontMatter: 'Front matter',
+          frontMatterFields: {
+            title: 'Title',
+            url: 'URL',
+            model: 'Model',
+            exportedAt: 'Exported at',
+            folder: 'Folder path',
+            tags: 'Tags',
+          },
+          turnHeading: 'Turn headings',
+          turnHeadingStyles: { number: 'Turn 3', title: 'Title', numberAndTitle: 'Both' },
+          imageSource: 'Include image sources',
+          save: 'Save',
+          delete: 'Delete',
+        },
+        formatDescriptions: {
+          json: 'JSON format',
+          markdown: 'Markdown format',
+          pdf: 'PDF format',
+          image: 'Image format',
+          html: 'HTML format',
+          docx: 'Word format',
+        },
+      },
+    });
+
+    const select = document.querySelector('.gv-export-profile-select') as HTMLSelectElement;
+    expect(Array.from(select.options).map((option) => option.value)).toEqual(['', 'team']);
+    expect(select.value).toBe('team');
+
+    // Create a profile with tags and title headings
+    (document.querySelector('.gv-export-profile-new') as HTMLButtonElement).click();
+    (document.querySelector('.gv-export-profile-name') as HTMLInputElement).value = 'Vault';
+    (document.querySelector('.gv-export-profile-pattern') as HTMLInputElement).value = '{id}';
+    (document.querySelector('.gv-export-profile-field[value="tags"]') as HTMLInputElement).click();
+    (document.querySelector('.gv-export-profile-heading') as HTMLSelectElement).value = 'title';
+    (document.querySelector('.gv-export-profile-image-source') as HTMLInputElement).click();
+    (document.querySelector('.gv-export-profile-save') as HTMLButtonElement).click();
+
+    const saved = onProfilesChange.mock.calls[0][0];
+    expect(saved).toHaveLength(2);
+    expect(saved[1]).toMatchObject({
+      name: 'Vault',
+      filenamePattern: '{id}',
+      frontMatter: ['title', 'url', 'exportedAt', 'tags'],
+      turnHeading: 'title',
+      includeImageSource: false,
+    });
+    expect(select.value).toBe(saved[1].id);
+
+    // Delete it again, which falls back to the default
+    (document.querySelector('.gv-export-profile-edit') as HTMLButtonElement).click();
+    (document.querySelector('.gv-export-profile-delete') as HTMLButtonElement).click();
+    expect(onProfilesChange.mock.calls[1][0]).toEqual([team]);
+    expect(select.value).toBe('');
+
+    select.value = 'team';
+    select.dispatchEvent(new Event('change'));
+    (document.querySelector('.gv-export-dialog-btn-primary') as HTMLButtonElement).click();
+    expect(onExport).toHaveBeenCalledWith('markdown', undefined, undefined, undefined, team);
+  });
 });
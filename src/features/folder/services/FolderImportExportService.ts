@@ -4,7 +4,14 @@
  */
 import { AppError, ErrorCode } from '@/core/errors/AppError';
 import type { Result } from '@/core/types/common';
-import type { ConversationReference, Folder, FolderData } from '@/core/types/folder';
+import type {
+  ConversationReference,
+  ConversationTag,
+  Folder,
+  FolderData,
+  SmartFolder,
+  TrashEntry,
+} from '@/core/types/folder';
 import { LOCK_KEYS, importExportLock } from '@/core/utils/concurrency';
 import {
   EXTENSION_VERSION,
@@ -12,8 +19,12 @@ import {
   applyMigrations,
   getCompatibilityInfo,
   isSupportedFormat,
+  migrateFormat,
 } from '@/core/utils/version';
+import { findTagByName, normalizeConversationTags } from '@/pages/content/folder/conversationTags';
 import { SESSION_BACKUP_KEY, SESSION_BACKUP_TIMESTAMP_KEY } from '@/pages/content/folder/manager';
+import { normalizeSmartFolders } from '@/pages/content/folder/smartFolders';
+import { normalizePurgedTrash, normalizeTrash } from '@/pages/content/folder/trash';
 
 import {
   type FolderExportPayload,
@@ -23,7 +34,7 @@ import {
   ValidationErrorType,
 } from '../types/import-export';
 
-const EXPORT_FORMAT: FormatVersion = 'gemini-voyager.folders.v1' as const;
+const EXPORT_FORMAT = 'gemini-voyager.folders.v2' satisfies FormatVersion;
 
 /**
  * Service for handling folder import/export operations
@@ -41,13 +52,18 @@ export class FolderImportExportService {
       data: {
         folders: data.folders,
         folderContents: data.folderContents,
+        smartFolders: data.smartFolders || [],
+        tags: data.tags || [],
+        trash: data.trash || [],
+        purgedTrash: data.purgedTrash || {},
       },
     };
   }
 
   /**
    * Validate import payload format and structure
-   * Includes version compatibility checking
+   * Includes version compatibility checking; older formats (v1) are migrated to the current
+   * format before the structure is validated
    */
   static validatePayload(payload: unknown): Result<FolderExportPayload, ValidationError> {
     // Check if payload is an object
@@ -91,19 +107,33 @@ export class FolderImportExportService {
       }
     }
 
+    let migrated: Record<string, unknown>;
+    try {
+      migrated = migrateFormat(p).data as Record<string, unknown>;
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          type: ValidationErrorType.INVALID_FORMAT,
+          message: 'Failed to migrate folder payload',
+          details: { format: p.format, error },
+        },
+      };
+    }
+
     // Check required fields
-    if (!p.data || typeof p.data !== 'object') {
+    if (!migrated.data || typeof migrated.data !== 'object') {
       return {
         success: false,
         error: {
           type: ValidationErrorType.MISSING_DATA,
           message: 'Missing or invalid "data" field',
-          details: p,
+          details: migrated,
         },
       };
     }
 
-    const data = p.data as Record<string, unknown>;
+    const data = migrated.data as Record<string, unknown>;
 
     // Validate folders array
     if (!Array.isArray(data.folders)) {
@@ -166,15 +196,59 @@ export class FolderImportExportService {
       }
     }
 
+    if (data.smartFolders !== undefined && !Array.isArray(data.smartFolders)) {
+      return {
+        success: false,
+        error: {
+          type: ValidationErrorType.CORRUPTED_DATA,
+          message: 'Invalid "smartFolders" field: expected an array',
+          details: data.smartFolders,
+        },
+      };
+    }
+
+    if (data.tags !== undefined && !Array.isArray(data.tags)) {
+      return {
+        success: false,
+        error: {
+          type: ValidationErrorType.CORRUPTED_DATA,
+          message: 'Invalid "tags" field: expected an array',
+          details: data.tags,
+        },
+      };
+    }
+
+    if (data.trash !== undefined && !Array.isArray(data.trash)) {
+      return {
+        success: false,
+        error: {
+          type: ValidationErrorType.CORRUPTED_DATA,
+          message: 'Invalid "trash" field: expected an array',
+          details: data.trash,
+        },
+      };
+    }
+
+    // Smart folders with unusable rules (e.g. an invalid regex) are dropped rather than failing
+    const smartFolders = normalizeSmartFolders(data.smartFolders);
+    const tags = normalizeConversationTags(data.tags);
+    const trash = normalizeTrash(data.trash) as TrashEntry[];
+    const purgedTrash = normalizePurgedTrash(data.purgedTrash);
+
     return {
       success: true,
-      data: payload as FolderExportPayload,
+      data: {
+        ...(migrated as unknown as FolderExportPayload),
+        data: { ...(data as unknown as FolderData), smartFolders, tags, trash, purgedTrash },
+      },
     };
   }
 
   /**
    * Merge imported data with existing data
-   * Skips duplicate folders (by ID) and conversations (by conversationId)
+   * Skips duplicate folders and smart folders (by ID) and conversations (by conversationId).
+   * Imported tags reuse an existing tag with the same ID or name; trash entries are added
+   * unless already present.
    */
   static mergeData(
     existing: FolderData,
@@ -193,6 +267,24 @@ export class FolderImportExportService {
       }
     }
 
+    // Merge tags, mapping imported tag ids onto existing tags with the same id or name
+    const existingTags = existing.tags || [];
+    const newTags: ConversationTag[] = [];
+    const tagIdMap = new Map<string, string>();
+    for (const tag of imported.tags || []) {
+      const match =
+        existingTags.find((t) => t.id === tag.id) ?? findTagByName(existingTags, tag.name);
+      if (match) {
+        tagIdMap.set(tag.id, match.id);
+      } else {
+        newTags.push(tag);
+      }
+    }
+    const remapTags = (conv: ConversationReference): ConversationReference =>
+      conv.tagIds?.some((id) => tagIdMap.has(id))
+        ? { ...conv, tagIds: Array.from(new Set(conv.tagIds.map((id) => tagIdMap.get(id) ?? id))) }
+        : conv;
+
     // Merge folder contents
     const mergedContents: Record<string, ConversationReference[]> = { ...existing.folderContents };
     let conversationsImported = 0;
@@ -207,7 +299,7 @@ export class FolderImportExportService {
 
       for (const conv of conversations) {
         if (!existingConvIds.has(conv.conversationId)) {
-          mergedContents[folderId].push(conv);
+          mergedContents[folderId].push(remapTags(conv));
           conversationsImported++;
         } else {
           duplicatesConversationsSkipped++;
@@ -215,14 +307,39 @@ export class FolderImportExportService {
       }
     }
 
+    // Merge smart folders (skip duplicates)
+    const existingSmartFolders = existing.smartFolders || [];
+    const existingSmartFolderIds = new Set(existingSmartFolders.map((f) => f.id));
+    const newSmartFolders: SmartFolder[] = [];
+    for (const smartFolder of imported.smartFolders || []) {
+      if (!existingSmartFolderIds.has(smartFolder.id)) {
+        newSmartFolders.push(smartFolder);
+      } else {
+        duplicatesFoldersSkipped++;
+      }
+    }
+
+    // Merge trash (entries never change, so duplicates are simply skipped; entries that
+    // already left the trash here stay gone)
+    const existingTrash = existing.trash || [];
+    const existingTrashIds = new Set(existingTrash.map((e) => e.id));
+    const newTrash = (imported.trash || []).filter(
+      (e) => !existingTrashIds.has(e.id) && !(e.id in (existing.purgedTrash || {})),
+    );
+
     const merged: FolderData = {
       folders: [...existing.folders, ...newFolders],
       folderContents: mergedContents,
+      smartFolders: [...existingSmartFolders, ...newSmartFolders],
+      tags: [...existingTags, ...newTags],
+      trash: [...existingTrash, ...newTrash],
+      purgedTrash: existing.purgedTrash,
     };
 
     const stats: ImportResult = {
       foldersImported: newFolders.length,
       conversationsImported,
+      smartFoldersImported: newSmartFolders.length,
       duplicatesFoldersSkipped,
       duplicatesConversationsSkipped,
     };
@@ -271,6 +388,9 @@ export class FolderImportExportService {
         backupData = {
           folders: [...currentData.folders],
           folderContents: { ...currentData.folderContents },
+          smartFolders: [...(currentData.smartFolders || [])],
+          tags: [...(currentData.tags || [])],
+          trash: [...(currentData.trash || [])],
         };
       }
 
@@ -282,6 +402,9 @@ export class FolderImportExportService {
         resultData = {
           folders: [...importData.folders],
           folderContents: { ...importData.folderContents },
+          smartFolders: [...(importData.smartFolders || [])],
+          tags: [...(importData.tags || [])],
+          trash: [...(importData.trash || [])],
         };
 
         const totalConversations = Object.values(importData.folderContents).reduce(
@@ -292,6 +415,7 @@ export class FolderImportExportService {
         stats = {
           foldersImported: importData.folders.length,
           conversationsImported: totalConversations,
+          smartFoldersImported: (importData.smartFolders || []).length,
           backupCreated: createBackup,
         };
       } else {
@@ -7,7 +7,7 @@ import type { FolderData } from '@/core/types/folder';
  * Export payload format with versioning
  */
 export interface FolderExportPayload {
-  format: 'gemini-voyager.folders.v1';
+  format: 'gemini-voyager.folders.v2';
   exportedAt: string; // ISO 8601 timestamp
   version: string; // Extension version
   data: FolderData;
@@ -32,6 +32,7 @@ export interface ImportOptions {
 export interface ImportResult {
   foldersImported: number;
   conversationsImported: number;
+  smartFoldersImported?: number;
   duplicatesFoldersSkipped?: number;
   duplicatesConversationsSkipped?: number;
   backupCreated?: boolean;
@@ -3,13 +3,14 @@
  * Handles copying LaTeX/MathJax formulas from Gemini chat conversations
  * Uses enterprise patterns: Singleton, Service Layer, Event Delegation
  */
-import temml from 'temml';
 import browser from 'webextension-polyfill';
 
 import { logger } from '@/core';
 import { StorageKeys } from '@/core/types/common';
 import type { ILogger } from '@/core/types/common';
 
+import { MATHML_NS, latexToWordMathML } from './wordMathML';
+
 /**
  * Formula copy format options
  */
@@ -31,7 +32,6 @@ export interface FormulaCopyConfig {
  */
 export class FormulaCopyService {
   private static instance: FormulaCopyService | null = null;
-  private static readonly MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
   private readonly logger: ILogger;
   private readonly config: Required<Omit<FormulaCopyConfig, 'format'>>;
   private currentFormat: FormulaCopyFormat = 'latex';
@@ -237,7 +237,7 @@ export class FormulaCopyService {
 
       if (html) {
         items['text/html'] = new Blob([html], { type: 'text/html' });
-        if (html.includes(`xmlns:mml="${FormulaCopyService.MATHML_NS}"`)) {
+        if (html.includes(`xmlns:mml="${MATHML_NS}"`)) {
           items['application/mathml+xml'] = new Blob([text], { type: 'application/mathml+xml' });
         }
       }
@@ -412,17 +412,7 @@ export class FormulaCopyService {
       // Convert to Word-friendly MathML (replaces previous UnicodeMath)
       try {
         const strippedFormula = this.stripMathDelimiters(formula);
-        const rawMathML = temml.renderToString(strippedFormula, {
-          displayMode: isDisplayMode,
-          xml: true,
-          annotate: false,
-          throwOnError: true,
-          colorIsTextColor: true,
-          trust: false,
-        });
-        const sanitizedMathML = this.stripMathMLAnnotations(rawMathML);
-        const namespacedMathML = this.ensureMathMLNamespace(sanitizedMathML);
-        const wordMathML = this.toWordMathML(namespacedMathML);
+        const wordMathML = latexToWordMathML(strippedFormula, isDisplayMode);
         const htmlWrapped = this.wrapMathMLForWordHtml(wordMathML);
 
         return { text: wordMathML, html: htmlWrapped };
@@ -441,108 +431,10 @@ export class FormulaCopyService {
     return { text: wrapped };
   }
 
-  private ensureMathMLNamespace(mathML: string): string {
-    if (mathML.includes('xmlns=')) {
-      return mathML;
-    }
-
-    return mathML.replace('<math', `<math xmlns="${FormulaCopyService.MATHML_NS}"`);
-  }
-
-  private toWordMathML(mathML: string): string {
-    const parsed = new DOMParser().parseFromString(mathML, 'application/xml');
-    if (parsed.getElementsByTagName('parsererror').length > 0) {
-      return this.stripMathMLAnnotations(mathML);
-    }
-
-    const root = parsed.documentElement;
-    if (root.localName !== 'math') {
-      return this.stripMathMLAnnotations(mathML);
-    }
-
-    // Remove annotations (<annotation> and <annotation-xml>)
-    for (const annotation of Array.from(root.getElementsByTagName('annotation'))) {
-      annotation.parentNode?.removeChild(annotation);
-    }
-    for (const annotationXml of Array.from(root.getElementsByTagName('annotation-xml'))) {
-      annotationXml.parentNode?.removeChild(annotationXml);
-    }
-
-    // Unwrap <semantics> if present at root
-    const semantics = Array.from(root.getElementsByTagName('semantics')).find(
-      (node) => node.parentElement === root,
-    );
-    if (semantics) {
-      const presentation = semantics.firstElementChild;
-      if (presentation) {
-        while (root.firstChild) {
-          root.removeChild(root.firstChild);
-        }
-        root.appendChild(presentation);
-      }
-    }
-
-    this.stripPresentationAttributes(root);
-
-    const output = document.implementation.createDocument(
-      FormulaCopyService.MATHML_NS,
-      'mml:math',
-      null,
-    );
-    const outputRoot = output.documentElement;
-
-    // Copy root attributes (display, etc.), excluding namespace declarations
-    for (const attr of Array.from(root.attributes)) {
-      if (attr.name.startsWith('xmlns')) {
-        continue;
-      }
-      outputRoot.setAttribute(attr.name, attr.value);
-    }
-
-    for (const child of Array.from(root.childNodes)) {
-      outputRoot.appendChild(this.cloneNodeWithMathMLPrefix(output, child));
-    }
-
-    return new XMLSerializer().serializeToString(outputRoot);
-  }
-
-  private cloneNodeWithMathMLPrefix(targetDocument: Document, sourceNode: Node): Node {
-    if (sourceNode.nodeType === Node.TEXT_NODE) {
-      return targetDocument.createTextNode(sourceNode.nodeValue ?? '');
-    }
-
-    if (sourceNode.nodeType !== Node.ELEMENT_NODE) {
-      return targetDocument.importNode(sourceNode, true);
-    }
-
-    const sourceElement = sourceNode as Element;
-    const namespaceUri = sourceElement.namespaceURI;
-    const localName = sourceElement.localName;
-
-    const isMathMl = namespaceUri === FormulaCopyService.MATHML_NS || namespaceUri === null;
-    const qualifiedName = isMathMl ? `mml:${localName}` : sourceElement.tagName;
-    const element = isMathMl
-      ? targetDocument.createElementNS(FormulaCopyService.MATHML_NS, qualifiedName)
-      : targetDocument.createElement(qualifiedName);
-
-    for (const attr of Array.from(sourceElement.attributes)) {
-      if (attr.name.startsWith('xmlns')) {
-        continue;
-      }
-      element.setAttribute(attr.name, attr.value);
-    }
-
-    for (const child of Array.from(sourceElement.childNodes)) {
-      element.appendChild(this.cloneNodeWithMathMLPrefix(targetDocument, child));
-    }
-
-    return element;
-  }
-
   private wrapMathMLForWordHtml(mathML: string): string {
     // Word's HTML importer is sensitive to fragments; include Start/End markers.
     return [
-      `<html xmlns:mml="${FormulaCopyService.MATHML_NS}">`,
+      `<html xmlns:mml="${MATHML_NS}">`,
       '<head><meta charset="utf-8"></head>',
       '<body><!--StartFragment-->',
       mathML,
@@ -550,30 +442,6 @@ export class FormulaCopyService {
     ].join('');
   }
 
-  private stripMathMLAnnotations(mathML: string): string {
-    return mathML
-      .replace(/<annotation(?:-xml)?[\s\S]*?<\/annotation(?:-xml)?>/g, '')
-      .replace(/<semantics>\s*([\s\S]*?)\s*<\/semantics>/g, '$1');
-  }
-
-  private stripPresentationAttributes(root: Element): void {
-    if (root.hasAttribute('class')) {
-      root.removeAttribute('class');
-    }
-    if (root.hasAttribute('style')) {
-      root.removeAttribute('style');
-    }
-
-    for (const element of Array.from(root.getElementsByTagName('*'))) {
-      if (element.hasAttribute('class')) {
-        element.removeAttribute('class');
-      }
-      if (element.hasAttribute('style')) {
-        element.removeAttribute('style');
-      }
-    }
-  }
-
   private stripMathDelimiters(formula: string): string {
     const trimmed = formula.trim();
 
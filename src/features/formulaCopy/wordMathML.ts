@@ -0,0 +1,143 @@
+/**
+ * Word MathML conversion
+ * Renders LaTeX to the `mml:`-prefixed MathML flavour that Microsoft Word understands.
+ * Shared by formula copy (clipboard) and the DOCX export (native equations).
+ */
+import temml from 'temml';
+
+export const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+
+/**
+ * Render LaTeX to Word-friendly MathML
+ * @throws when temml cannot parse the formula
+ */
+export function latexToWordMathML(latex: string, displayMode: boolean): string {
+  const rawMathML = temml.renderToString(latex, {
+    displayMode,
+    xml: true,
+    annotate: false,
+    throwOnError: true,
+    colorIsTextColor: true,
+    trust: false,
+  });
+  const sanitizedMathML = stripMathMLAnnotations(rawMathML);
+  return toWordMathML(ensureMathMLNamespace(sanitizedMathML));
+}
+
+function ensureMathMLNamespace(mathML: string): string {
+  if (mathML.includes('xmlns=')) {
+    return mathML;
+  }
+
+  return mathML.replace('<math', `<math xmlns="${MATHML_NS}"`);
+}
+
+export function toWordMathML(mathML: string): string {
+  const parsed = new DOMParser().parseFromString(mathML, 'application/xml');
+  if (parsed.getElementsByTagName('parsererror').length > 0) {
+    return stripMathMLAnnotations(mathML);
+  }
+
+  const root = parsed.documentElement;
+  if (root.localName !== 'math') {
+    return stripMathMLAnnotations(mathML);
+  }
+
+  // Remove annotations (<annotation> and <annotation-xml>)
+  for (const annotation of Array.from(root.getElementsByTagName('annotation'))) {
+    annotation.parentNode?.removeChild(annotation);
+  }
+  for (const annotationXml of Array.from(root.getElementsByTagName('annotation-xml'))) {
+    annotationXml.parentNode?.removeChild(annotationXml);
+  }
+
+  // Unwrap <semantics> if present at root
+  const semantics = Array.from(root.getElementsByTagName('semantics')).find(
+    (node) => node.parentElement === root,
+  );
+  if (semantics) {
+    const presentation = semantics.firstElementChild;
+    if (presentation) {
+      while (root.firstChild) {
+        root.removeChild(root.firstChild);
+      }
+      root.appendChild(presentation);
+    }
+  }
+
+  stripPresentationAttributes(root);
+
+  const output = document.implementation.createDocument(MATHML_NS, 'mml:math', null);
+  const outputRoot = output.documentElement;
+
+  // Copy root attributes (display, etc.), excluding namespace declarations
+  for (const attr of Array.from(root.attributes)) {
+    if (attr.name.startsWith('xmlns')) {
+      continue;
+    }
+    outputRoot.setAttribute(attr.name, attr.value);
+  }
+
+  for (const child of Array.from(root.childNodes)) {
+    outputRoot.appendChild(cloneNodeWithMathMLPrefix(output, child));
+  }
+
+  return new XMLSerializer().serializeToString(outputRoot);
+}
+
+function cloneNodeWithMathMLPrefix(targetDocument: Document, sourceNode: Node): Node {
+  if (sourceNode.nodeType === Node.TEXT_NODE) {
+    return targetDocument.createTextNode(sourceNode.nodeValue ?? '');
+  }
+
+  if (sourceNode.nodeType !== Node.ELEMENT_NODE) {
+    return targetDocument.importNode(sourceNode, true);
+  }
+
+  const sourceElement = sourceNode as Element;
+  const namespaceUri = sourceElement.namespaceURI;
+  const localName = sourceElement.localName;
+
+  const isMathMl = namespaceUri === MATHML_NS || namespaceUri === null;
+  const qualifiedName = isMathMl ? `mml:${localName}` : sourceElement.tagName;
+  const element = isMathMl
+    ? targetDocument.createElementNS(MATHML_NS, qualifiedName)
+    : targetDocument.createElement(qualifiedName);
+
+  for (const attr of Array.from(sourceElement.attributes)) {
+    if (attr.name.startsWith('xmlns')) {
+      continue;
+    }
+    element.setAttribute(attr.name, attr.value);
+  }
+
+  for (const child of Array.from(sourceElement.childNodes)) {
+    element.appendChild(cloneNodeWithMathMLPrefix(targetDocument, child));
+  }
+
+  return element;
+}
+
+function stripMathMLAnnotations(mathML: string): string {
+  return mathML
+    .replace(/<annotation(?:-xml)?[\s\S]*?<\/annotation(?:-xml)?>/g, '')
+    .replace(/<semantics>\s*([\s\S]*?)\s*<\/semantics>/g, '$1');
+}
+
+function stripPresentationAttributes(root: Element): void {
+  if (root.hasAttribute('class')) {
+    root.removeAttribute('class');
+  }
+  if (root.hasAttribute('style')) {
+    root.removeAttribute('style');
+  }
+
+  for (const element of Array.from(root.getElementsByTagName('*'))) {
+    if (element.hasAttribute('class')) {
+      element.removeAttribute('class');
+    }
+    if (element.hasAttribute('style')) {
+      element.removeAttribute('style');
+    }
+  }
+}
@@ -4,9 +4,24 @@ import browser from 'webextension-polyfill';
 import { googleDriveSyncService } from '@/core/services/GoogleDriveSyncService';
 import { StorageKeys } from '@/core/types/common';
 import type { FolderData } from '@/core/types/folder';
-import type { PromptItem, SyncMode } from '@/core/types/sync';
+import type { PromptCollection, PromptItem, SyncMode } from '@/core/types/sync';
 import type { ForkNode, ForkNodesData } from '@/pages/content/fork/forkTypes';
-import type { StarredMessage, StarredMessagesData } from '@/pages/content/timeline/starredTypes';
+import {
+  getConversationAnnotations,
+  setConversationAnnotation,
+} from '@/pages/content/timeline/annotations';
+import { normalizeTimelineOutline } from '@/pages/content/timeline/outline';
+import type {
+  ConversationTimelineOutline,
+  TimelineOutlineData,
+} from '@/pages/content/timeline/outlineTypes';
+import type {
+  StarredMessage,
+  StarredMessageRef,
+  StarredMessagesData,
+  TurnAnnotation,
+} from '@/pages/content/timeline/starredTypes';
+import type { MarkerLevel } from '@/pages/content/timeline/types';
 
 const CUSTOM_CONTENT_SCRIPT_ID = 'gv-custom-content-script';
 const CUSTOM_WEBSITE_KEY = 'gvPromptCustomWebsites';
@@ -264,6 +279,8 @@ class StarredMessagesManager {
         // Truncate content to save storage space
         // Popup is ~360px wide with line-clamp-2, showing ~50-60 chars max
         const MAX_CONTENT_LENGTH = 60;
+        // The full turn text is kept for the starred library, within a bound per side
+        const MAX_FULL_TEXT_LENGTH = 20_000;
         const truncatedMessage: StarredMessage = {
           ...message,
           content:
@@ -271,6 +288,12 @@ class StarredMessagesManager {
               ? message.content.slice(0, MAX_CONTENT_LENGTH) + '...'
               : message.content,
         };
+        if (message.userText) {
+          truncatedMessage.userText = message.userText.slice(0, MAX_FULL_TEXT_LENGTH);
+        }
+        if (message.responseText) {
+          truncatedMessage.responseText = message.responseText.slice(0, MAX_FULL_TEXT_LENGTH);
+        }
         data.messages[message.conversationId].push(truncatedMessage);
         await this.saveToStorage(data);
         return true;
@@ -303,6 +326,57 @@ class StarredMessagesManager {
     });
   }
 
+  /**
+   * Remove several starred messages at once; returns how many were removed
+   */
+  async removeStarredMessages(refs: StarredMessageRef[]): Promise<number> {
+    return this.serialize(async () => {
+      const data = await this.getFromStorage();
+      let removed = 0;
+
+      refs.forEach(({ conversationId, turnId }) => {
+        const messages = data.messages[conversationId];
+        if (!messages) return;
+        const remaining = messages.filter((m) => m.turnId !== turnId);
+        removed += messages.length - remaining.length;
+        if (remaining.length === 0) {
+          delete data.messages[conversationId];
+        } else {
+          data.messages[conversationId] = remaining;
+        }
+      });
+
+      if (removed > 0) await this.saveToStorage(data);
+      return removed;
+    });
+  }
+
+  /**
+   * Set or clear (empty note) the note of a starred message
+   */
+  async setStarredMessageNote(
+    conversationId: string,
+    turnId: string,
+    note: string,
+  ): Promise<boolean> {
+    return this.serialize(async () => {
+      const data = await this.getFromStorage();
+      const message = data.messages[conversationId]?.find((m) => m.turnId === turnId);
+      if (!message) return false;
+
+      const normalized = String(note || '').trim();
+      if ((message.note ?? '') === normalized) return false;
+      if (normalized) {
+        message.note = normalized;
+      } else {
+        delete message.note;
+      }
+      message.noteUpdatedAt = Date.now();
+      await this.saveToStorage(data);
+      return true;
+    });
+  }
+
   async getAllStarredMessages(): Promise<StarredMessagesData> {
     return this.getFromStorage();
   }
@@ -316,6 +390,29 @@ class StarredMessagesManager {
     const messages = await this.getStarredMessagesForConversation(conversationId);
     return messages.some((m) => m.turnId === turnId);
   }
+
+  /**
+   * Set or clear (annotation = null) the label and colour of a turn
+   */
+  async setTurnAnnotation(
+    conversationId: string,
+    turnId: string,
+    annotation: TurnAnnotation | null,
+  ): Promise<boolean> {
+    return this.serialize(async () => {
+      const data = await this.getFromStorage();
+      const changed = setConversationAnnotation(data, conversationId, turnId, annotation);
+      if (changed) await this.saveToStorage(data);
+      return changed;
+    });
+  }
+
+  async getAnnotationsForConversation(
+    conversationId: string,
+  ): Promise<Record<string, TurnAnnotation>> {
+    const data = await this.getFromStorage();
+    return Object.fromEntries(getConversationAnnotations(data, conversationId));
+  }
 }
 
 const starredMessagesManager = new StarredMessagesManager();
@@ -441,6 +538,70 @@ class ForkNodesManager {
 
 const forkNodesManager = new ForkNodesManager();
 
+/**
+ * Centralized timeline outline (marker levels + collapsed markers) management.
+ * Writes are serialized because every tab updates the same two storage entries.
+ */
+class TimelineOutlineManager {
+  private operationQueue: Promise<unknown> = Promise.resolve();
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const promise = this.operationQueue.then(operation, operation);
+    this.operationQueue = promise.catch(() => {});
+    return promise;
+  }
+
+  private async getFromStorage(): Promise<TimelineOutlineData> {
+    try {
+      const result = await chrome.storage.local.get([
+        StorageKeys.TIMELINE_MARKER_LEVELS,
+        StorageKeys.TIMELINE_COLLAPSED_MARKERS,
+      ]);
+      return normalizeTimelineOutline(
+        result[StorageKeys.TIMELINE_MARKER_LEVELS],
+        result[StorageKeys.TIMELINE_COLLAPSED_MARKERS],
+      );
+    } catch (error) {
+      console.error('[Background] Failed to get timeline outline:', error);
+      return { levels: {}, collapsed: {} };
+    }
+  }
+
+  async getAll(): Promise<TimelineOutlineData> {
+    return this.getFromStorage();
+  }
+
+  async getForConversation(conversationId: string): Promise<ConversationTimelineOutline> {
+    const data = await this.getFromStorage();
+    return {
+      levels: data.levels[conversationId] ?? null,
+      collapsed: data.collapsed[conversationId] ?? null,
+    };
+  }
+
+  async setMarkerLevels(
+    conversationId: string,
+    levels: Record<string, MarkerLevel>,
+  ): Promise<void> {
+    return this.serialize(async () => {
+      const data = await this.getFromStorage();
+      // Empty entries are kept so clearing an outline also wins when merging synced data
+      data.levels[conversationId] = { levels, updatedAt: Date.now() };
+      await chrome.storage.local.set({ [StorageKeys.TIMELINE_MARKER_LEVELS]: data.levels });
+    });
+  }
+
+  async setCollapsedMarkers(conversationId: string, turnIds: string[]): Promise<void> {
+    return this.serialize(async () => {
+      const data = await this.getFromStorage();
+      data.collapsed[conversationId] = { turnIds, updatedAt: Date.now() };
+      await chrome.storage.local.set({ [StorageKeys.TIMELINE_COLLAPSED_MARKERS]: data.collapsed });
+    });
+  }
+}
+
+const timelineOutlineManager = new TimelineOutlineManager();
+
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   (async () => {
     try {
@@ -460,6 +621,22 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             sendResponse({ ok: true, removed });
             return;
           }
+          case 'gv.starred.removeMany': {
+            const removed = await starredMessagesManager.removeStarredMessages(
+              Array.isArray(message.payload?.refs) ? message.payload.refs : [],
+            );
+            sendResponse({ ok: true, removed });
+            return;
+          }
+          case 'gv.starred.setNote': {
+            const changed = await starredMessagesManager.setStarredMessageNote(
+              message.payload.conversationId,
+              message.payload.turnId,
+              message.payload.note ?? '',
+            );
+            sendResponse({ ok: true, changed });
+            return;
+          }
           case 'gv.starred.getAll': {
             const data = await starredMessagesManager.getAllStarredMessages();
             sendResponse({ ok: true, data });
@@ -480,6 +657,22 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             sendResponse({ ok: true, isStarred });
             return;
           }
+          case 'gv.starred.setAnnotation': {
+            const changed = await starredMessagesManager.setTurnAnnotation(
+              message.payload.conversationId,
+              message.payload.turnId,
+              message.payload.annotation ?? null,
+            );
+            sendResponse({ ok: true, changed });
+            return;
+          }
+          case 'gv.starred.getAnnotations': {
+            const annotations = await starredMessagesManager.getAnnotationsForConversation(
+              message.payload.conversationId,
+            );
+            sendResponse({ ok: true, annotations });
+            return;
+          }
         }
       }
 
@@ -518,6 +711,35 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
         }
       }
 
+      // Handle timeline outline operations
+      if (message && message.type && message.type.startsWith('gv.timelineOutline.')) {
+        switch (message.type) {
+          case 'gv.timelineOutline.get': {
+            const outline = await timelineOutlineManager.getForConversation(
+              message.payload.conversationId,
+            );
+            sendResponse({ ok: true, outline });
+            return;
+          }
+          case 'gv.timelineOutline.setLevels': {
+            await timelineOutlineManager.setMarkerLevels(
+              message.payload.conversationId,
+              message.payload.levels,
+            );
+            sendResponse({ ok: true });
+            return;
+          }
+          case 'gv.timelineOutline.setCollapsed': {
+            await timelineOutlineManager.setCollapsedMarkers(
+              message.payload.conversationId,
+              message.payload.turnIds,
+            );
+            sendResponse({ ok: true });
+            return;
+          }
+        }
+      }
+
       // Handle sync operations
       if (message && message.type && message.type.startsWith('gv.sync.')) {
         switch (message.type) {
@@ -533,17 +755,30 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             return;
           }
           case 'gv.sync.upload': {
-            const { folders, prompts, interactive, platform } = message.payload as {
+            const { folders, prompts, interactive, platform, accountId } = message.payload as {
               folders: FolderData;
               prompts: PromptItem[];
               interactive?: boolean;
               platform?: 'gemini' | 'aistudio';
+              accountId?: string;
             };
-            // Also get starred messages and fork nodes from local storage (only for Gemini platform)
+            // Also get starred messages, fork nodes and the timeline outline from local storage
+            // (only for Gemini platform)
             const starredData =
               platform !== 'aistudio' ? await starredMessagesManager.getAllStarredMessages() : null;
             const forksData =
               platform !== 'aistudio' ? await forkNodesManager.getAllForkNodes() : null;
+            const timelineOutline =
+              platform !== 'aistudio' ? await timelineOutlineManager.getAll() : null;
+            // Prompt collections are shared between platforms, like the prompts themselves
+            const collectionsResult = await chrome.storage.local.get([
+              StorageKeys.PROMPT_COLLECTIONS,
+            ]);
+            const promptCollections = Array.isArray(
+              collectionsResult[StorageKeys.PROMPT_COLLECTIONS],
+            )
+              ? (collectionsResult[StorageKeys.PROMPT_COLLECTIONS] as PromptCollection[])
+              : [];
             const success = await googleDriveSyncService.upload(
               folders,
               prompts,
@@ -551,6 +786,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
               interactive !== false,
               platform || 'gemini',
               forksData,
+              promptCollections,
+              accountId,
+              timelineOutline,
             );
             sendResponse({ ok: success, state: await googleDriveSyncService.getState() });
             return;
@@ -558,7 +796,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
           case 'gv.sync.download': {
             const interactive = message.payload?.interactive !== false;
             const platform = (message.payload?.platform as 'gemini' | 'aistudio') || 'gemini';
-            const data = await googleDriveSyncService.download(interactive, platform);
+            const accountId = message.payload?.accountId as string | undefined;
+            const data = await googleDriveSyncService.download(interactive, platform, accountId);
             // NOTE: We intentionally do NOT save to storage here.
             // The caller (Popup) is responsible for merging with local data and saving.
             // This prevents data loss from overwriting local changes.
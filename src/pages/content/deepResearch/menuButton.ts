@@ -322,6 +322,8 @@ function buildReportFilename(format: ExportFormat, title: string): string {
   if (format === 'json') return `${base}.json`;
   if (format === 'markdown') return `${base}.md`;
   if (format === 'pdf') return `${base}.pdf`;
+  if (format === 'html') return `${base}.html`;
+  if (format === 'docx') return `${base}.docx`;
   return `${base}.png`;
 }
 
@@ -425,6 +427,8 @@ function handleSaveReport(dict: Dictionaries, lang: AppLanguage): void {
         markdown: t('export_format_markdown_description'),
         pdf: t('export_format_pdf_description'),
         image: t('export_format_image_description'),
+        html: t('export_format_html_description'),
+        docx: t('export_format_docx_description'),
       },
     },
   });
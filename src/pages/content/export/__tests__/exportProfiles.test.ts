@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import type { FolderData } from '../../folder/types';
+import { resolveConversationFolderContext } from '../exportProfiles';
+
+function createData(): FolderData {
+  const folder = (id: string, name: string, parentId: string | null) => ({
+    id,
+    name,
+    parentId,
+    isExpanded: true,
+    createdAt: 0,
+    updatedAt: 0,
+  });
+  const conversation = (conversationId: string, tagIds?: string[]) => ({
+    conversationId,
+    title: conversationId,
+    url: `https://gemini.google.com/app/${conversationId.replace(/^c_/, '')}`,
+    addedAt: 0,
+    tagIds,
+  });
+  return {
+    folders: [folder('work', 'Work', null), folder('clients', 'Clients', 'work')],
+    folderContents: {
+      __root_conversations__: [conversation('c_loose')],
+      clients: [conversation('c_abc', ['t1', 'missing', 't2'])],
+    },
+    tags: [
+      { id: 't1', name: 'billing', color: 'blue', createdAt: 0, updatedAt: 0 },
+      { id: 't2', name: 'urgent', color: 'red', createdAt: 0, updatedAt: 0 },
+    ],
+  };
+}
+
+describe('resolveConversationFolderContext', () => {
+  it('resolves the folder path and tag names of a URL conversation id', () => {
+    expect(resolveConversationFolderContext(createData(), 'abc')).toEqual({
+      folderId: 'clients',
+      folderPath: ['Work', 'Clients'],
+      tags: ['billing', 'urgent'],
+    });
+  });
+
+  it('treats root-level conversations as an unnamed folder and ignores unknown ones', () => {
+    expect(resolveConversationFolderContext(createData(), 'c_loose')).toEqual({
+      folderId: '__root_conversations__',
+      folderPath: [],
+      tags: [],
+    });
+    expect(resolveConversationFolderContext(createData(), 'nope')).toBeNull();
+  });
+});
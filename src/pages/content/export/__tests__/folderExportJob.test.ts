@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { ConversationReference, FolderData } from '../../folder/types';
+import {
+  collectFolderExportItems,
+  createFolderExportJob,
+  getFolderExportProgress,
+  getNextPendingIndex,
+  loadFolderExportJob,
+  persistFolderExportJob,
+} from '../folderExportJob';
+
+function createConversation(
+  conversationId: string,
+  options: Partial<ConversationReference> = {},
+): ConversationReference {
+  return {
+    conversationId,
+    title: conversationId,
+    url: `https://gemini.google.com/app/${conversationId}`,
+    addedAt: 0,
+    ...options,
+  };
+}
+
+function createData(): FolderData {
+  const folder = (id: string, name: string, parentId: string | null, pinned = false) => ({
+    id,
+    name,
+    parentId,
+    pinned,
+    isExpanded: false,
+    createdAt: 0,
+    updatedAt: 0,
+  });
+  return {
+    folders: [
+      folder('work', 'Work', null),
+      folder('b', 'Beta', 'work'),
+      folder('a', 'Alpha', 'work'),
+      folder('p', 'Pinned', 'work', true),
+    ],
+    folderContents: {
+      work: [createConversation('old', { addedAt: 1 }), createConversation('new', { addedAt: 2 })],
+      a: [createConversation('in-alpha')],
+      b: [createConversation('in-beta')],
+      p: [createConversation('in-pinned')],
+    },
+  };
+}
+
+describe('collectFolderExportItems', () => {
+  it('lists the folder in sidebar order', () => {
+    const items = collectFolderExportItems(createData(), 'work', false);
+    expect(items.map((item) => item.conversationId)).toEqual(['new', 'old']);
+    expect(items[0].folderPath).toEqual([]);
+  });
+
+  it('walks subfolders with pinned folders first and records their path', () => {
+    const items = collectFolderExportItems(createData(), 'work', true);
+    expect(items.map((item) => [item.conversationId, item.folderPath.join('/')])).toEqual([
+      ['new', ''],
+      ['old', ''],
+      ['in-pinned', 'Pinned'],
+      ['in-alpha', 'Alpha'],
+      ['in-beta', 'Beta'],
+    ]);
+  });
+
+  it('resolves tag names for each conversation', () => {
+    const data = createData();
+    data.tags = [{ id: 't1', name: 'roadmap', color: 'blue', createdAt: 0, updatedAt: 0 }];
+    data.folderContents.a = [createConversation('in-alpha', { tagIds: ['t1', 'missing'] })];
+
+    expect(collectFolderExportItems(data, 'a', false)[0].tags).toEqual(['roadmap']);
+  });
+});
+
+describe('folder export jobs', () => {
+  afterEach(() => {
+    sessionStorage.clear();
+  });
+
+  it('assigns unique archive paths and tracks progress', () => {
+    const job = createFolderExportJob(
+      {
+        folderName: 'Work',
+        format: 'markdown',
+        items: [
+          { conversationId: 'a', url: 'u1', title: 'Same', folderPath: [] },
+          { conversationId: 'b', url: 'u2', title: 'Same', folderPath: [] },
+        ],
+      },
+      1000,
+    );
+
+    expect(job.items.map((item) => item.path)).toEqual(['Same.md', 'Same (2).md']);
+    expect(getNextPendingIndex(job)).toBe(0);
+
+    job.items[0].status = 'done';
+    job.items[1].status = 'failed';
+    expect(getNextPendingIndex(job)).toBe(-1);
+    expect(getFolderExportProgress(job)).toEqual({ done: 1, failed: 1, total: 2 });
+  });
+
+  it('names vault notes uniquely across the whole vault', () => {
+    const job = createFolderExportJob(
+      {
+        folderName: 'Work',
+        format: 'vault',
+        items: [
+          { conversationId: 'a', url: 'u1', title: 'Same', folderPath: ['Alpha'] },
+          { conversationId: 'b', url: 'u2', title: 'Same', folderPath: ['Beta'] },
+        ],
+      },
+      1000,
+    );
+
+    expect(job.items.map((item) => item.path)).toEqual(['Alpha/Same.md', 'Beta/Same (2).md']);
+    persistFolderExportJob(job);
+    expect(loadFolderExportJob(2000)?.format).toBe('vault');
+  });
+
+  it('round-trips through sessionStorage', () => {
+    const job = createFolderExportJob(
+      {
+        folderName: 'Work',
+        format: 'json',
+        items: collectFolderExportItems(createData(), 'a', false),
+      },
+      1000,
+    );
+    persistFolderExportJob(job);
+
+    expect(loadFolderExportJob(2000)).toEqual(job);
+    expect(job.items[0].path).toBe('in-alpha.json');
+  });
+
+  it('discards stale and malformed jobs', () => {
+    persistFolderExportJob(
+      createFolderExportJob({ folderName: 'W', format: 'json', items: [] }, 0),
+    );
+    expect(loadFolderExportJob(24 * 60 * 60 * 1000)).toBeNull();
+    expect(sessionStorage.length).toBe(0);
+
+    sessionStorage.setItem('gv_folder_export_job', '{"id":1}');
+    expect(loadFolderExportJob()).toBeNull();
+    expect(sessionStorage.length).toBe(0);
+  });
+});
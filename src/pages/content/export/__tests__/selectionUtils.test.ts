@@ -5,6 +5,7 @@ import {
   findSelectionStartIdAtLine,
   groupSelectedMessagesByTurn,
   resolveInitialSelectedMessageIds,
+  resolveMessageIdsForTurns,
   selectBelowIds,
 } from '../selectionUtils';
 
@@ -138,4 +139,25 @@ describe('selectionUtils', () => {
       expect(selected.size).toBe(0);
     });
   });
+
+  describe('resolveMessageIdsForTurns', () => {
+    const allIds = ['t1:u', 't1:a', 't2:u', 't2:a', 't3:u'];
+
+    it('selects both messages of each turn by default', () => {
+      const selected = resolveMessageIdsForTurns(allIds, ['t1', 't3']);
+
+      expect(Array.from(selected)).toEqual(['t1:u', 't1:a', 't3:u']);
+    });
+
+    it('keeps only the requested role', () => {
+      expect(Array.from(resolveMessageIdsForTurns(allIds, ['t1', 't2'], 'assistant'))).toEqual([
+        't1:a',
+        't2:a',
+      ]);
+      expect(Array.from(resolveMessageIdsForTurns(allIds, ['t2', 't3'], 'user'))).toEqual([
+        't2:u',
+        't3:u',
+      ]);
+    });
+  });
 });
@@ -0,0 +1,100 @@
+/**
+ * Export profiles storage
+ * Profiles are kept in sync storage so a team's naming conventions follow the user across devices.
+ * The profile last used for a folder is remembered and preselected for that folder's conversations.
+ */
+import { storageService } from '@/core/services/StorageService';
+import { StorageKeys } from '@/core/types/common';
+
+import { ExportProfileService } from '../../../features/export/services/ExportProfileService';
+import type { ExportProfile } from '../../../features/export/types/export';
+import { normalizeConversationKey } from '../folder/folderSearch';
+import type { FolderData } from '../folder/types';
+
+export interface ConversationFolderContext {
+  folderId: string;
+  /** Folder names from the outermost folder down; empty for root-level conversations */
+  folderPath: string[];
+  tags: string[];
+}
+
+/**
+ * Folder, folder path and tag names of a conversation (URL id, with or without the `c_` prefix).
+ * A conversation filed in several folders resolves to the first one.
+ */
+export function resolveConversationFolderContext(
+  data: FolderData,
+  conversationId: string,
+): ConversationFolderContext | null {
+  const key = normalizeConversationKey(conversationId);
+  for (const [folderId, conversations] of Object.entries(data.folderContents || {})) {
+    const conversation = conversations.find(
+      (item) => normalizeConversationKey(item.conversationId) === key,
+    );
+    if (!conversation) continue;
+
+    const folderPath: string[] = [];
+    const seen = new Set<string>();
+    let folder = data.folders.find((item) => item.id === folderId);
+    while (folder && !seen.has(folder.id)) {
+      seen.add(folder.id);
+      folderPath.unshift(folder.name);
+      const parentId = folder.parentId;
+      folder = parentId ? data.folders.find((item) => item.id === parentId) : undefined;
+    }
+
+    const tagNames = new Map((data.tags || []).map((tag) => [tag.id, tag.name]));
+    const tags = (conversation.tagIds || [])
+      .map((id) => tagNames.get(id))
+      .filter((name): name is string => !!name);
+
+    return { folderId, folderPath, tags };
+  }
+  return null;
+}
+
+export async function loadExportProfiles(): Promise<ExportProfile[]> {
+  const result = await storageService.get<unknown>(StorageKeys.EXPORT_PROFILES);
+  return result.success ? ExportProfileService.normalizeProfiles(result.data) : [];
+}
+
+export async function saveExportProfiles(profiles: ExportProfile[]): Promise<void> {
+  await storageService.set(StorageKeys.EXPORT_PROFILES, profiles);
+
+  // Forget folders whose profile was deleted
+  const byFolder = await loadFolderProfileIds();
+  const ids = new Set(profiles.map((profile) => profile.id));
+  const kept = Object.fromEntries(Object.entries(byFolder).filter(([, id]) => ids.has(id)));
+  if (Object.keys(kept).length !== Object.keys(byFolder).length) {
+    await storageService.set(StorageKeys.EXPORT_PROFILE_BY_FOLDER, kept);
+  }
+}
+
+export async function loadFolderProfileId(folderId: string): Promise<string | undefined> {
+  return (await loadFolderProfileIds())[folderId];
+}
+
+/**
+ * Remember the profile used for a folder; no profile clears the folder's choice
+ */
+export async function rememberFolderProfile(folderId: string, profileId?: string): Promise<void> {
+  const byFolder = await loadFolderProfileIds();
+  if (byFolder[folderId] === profileId) return;
+
+  if (profileId) {
+    byFolder[folderId] = profileId;
+  } else {
+    delete byFolder[folderId];
+  }
+  await storageService.set(StorageKeys.EXPORT_PROFILE_BY_FOLDER, byFolder);
+}
+
+async function loadFolderProfileIds(): Promise<Record<string, string>> {
+  const result = await storageService.get<unknown>(StorageKeys.EXPORT_PROFILE_BY_FOLDER);
+  if (!result.success || !result.data || typeof result.data !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(result.data as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string',
+    ),
+  );
+}
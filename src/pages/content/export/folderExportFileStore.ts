@@ -0,0 +1,111 @@
+/**
+ * Rendered files of running folder exports (IndexedDB)
+ *
+ * Files are written as each conversation is exported so a page reload in the middle of a
+ * folder export only loses the conversation being processed. Entries are removed when the
+ * job finishes or is cancelled; leftovers of abandoned jobs are dropped after a day.
+ */
+
+interface StoredFolderExportFile {
+  /** `${jobId}:${index}` */
+  key: string;
+  jobId: string;
+  index: number;
+  content: string;
+  createdAt: number;
+}
+
+const DB_NAME = 'gemini-voyager-folder-export';
+const DB_VERSION = 1;
+const STORE_NAME = 'files';
+const JOB_ID_INDEX = 'jobId';
+const MAX_FILE_AGE_MS = 24 * 60 * 60 * 1000;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export class FolderExportFileStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory | undefined = globalThis.indexedDB) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+    const factory = this.factory;
+    if (!factory) return Promise.reject(new Error('IndexedDB is not available'));
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex(JOB_ID_INDEX, 'jobId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+    return this.dbPromise;
+  }
+
+  async put(jobId: string, index: number, content: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const entry: StoredFolderExportFile = {
+      key: `${jobId}:${index}`,
+      jobId,
+      index,
+      content,
+      createdAt: Date.now(),
+    };
+    tx.objectStore(STORE_NAME).put(entry);
+    await transactionDone(tx);
+  }
+
+  /**
+   * Files of a job by item index
+   */
+  async getAll(jobId: string): Promise<Map<number, string>> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entries = await requestToPromise<StoredFolderExportFile[]>(
+      store.index(JOB_ID_INDEX).getAll(jobId),
+    );
+    return new Map(entries.map((entry) => [entry.index, entry.content]));
+  }
+
+  /**
+   * Delete the files of a job, and any file left behind by abandoned jobs
+   */
+  async clear(jobId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const cutoff = Date.now() - MAX_FILE_AGE_MS;
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const entry = cursor.value as StoredFolderExportFile;
+      if (entry.jobId === jobId || entry.createdAt < cutoff) cursor.delete();
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Folder export jobs
+ * A folder export walks every conversation of a folder, one page load at a time, so the
+ * job is kept in sessionStorage and picked up again when opening a conversation reloads the page.
+ */
+import {
+  type FolderArchiveEntry,
+  FolderArchiveService,
+} from '../../../features/export/services/FolderArchiveService';
+import { VaultExportService } from '../../../features/export/services/VaultExportService';
+import { sortConversationsByPriority } from '../folder/conversationSort';
+import type { FolderData } from '../folder/types';
+
+/** Window event the folder manager dispatches to start an export */
+export const FOLDER_EXPORT_EVENT = 'gv-folder-export';
+
+const SESSION_KEY_FOLDER_EXPORT = 'gv_folder_export_job';
+const MAX_JOB_AGE_MS = 12 * 60 * 60 * 1000;
+
+/** Opening a conversation is retried this many times before it is marked as failed */
+export const MAX_FOLDER_EXPORT_ATTEMPTS = 2;
+
+/** 'vault' writes Markdown notes laid out for Obsidian / Logseq */
+export type FolderExportFormat = 'markdown' | 'json' | 'vault';
+
+export interface FolderExportItem {
+  conversationId: string;
+  url: string;
+  title: string;
+  folderPath: string[];
+  /** Names of the folder tags attached to the conversation */
+  tags?: string[];
+}
+
+export interface FolderExportRequest {
+  folderName: string;
+  format: FolderExportFormat;
+  items: FolderExportItem[];
+}
+
+export interface FolderExportJobItem extends FolderArchiveEntry {
+  conversationId: string;
+  tags?: string[];
+  attempts: number;
+}
+
+export interface FolderExportJob {
+  id: string;
+  folderName: string;
+  format: FolderExportFormat;
+  createdAt: number;
+  items: FolderExportJobItem[];
+}
+
+export interface FolderExportProgress {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Conversations of a folder in sidebar order, optionally followed by its subfolders'
+ * conversations (depth first). Each item records its folder path relative to the folder.
+ */
+export function collectFolderExportItems(
+  data: FolderData,
+  folderId: string,
+  includeSubfolders: boolean,
+): FolderExportItem[] {
+  const items: FolderExportItem[] = [];
+  const tagNames = new Map((data.tags || []).map((tag) => [tag.id, tag.name]));
+  const visit = (id: string, folderPath: string[]) => {
+    for (const conversation of sortConversationsByPriority(data.folderContents[id] || [])) {
+      items.push({
+        conversationId: conversation.conversationId,
+        url: conversation.url,
+        title: conversation.title,
+        folderPath,
+        tags: (conversation.tagIds || [])
+          .map((tagId) => tagNames.get(tagId))
+          .filter((name): name is string => !!name),
+      });
+    }
+    if (!includeSubfolders) return;
+    data.folders
+      .filter((folder) => folder.parentId === id)
+      .sort((a, b) => {
+        if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+        return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+      })
+      .forEach((folder) => visit(folder.id, [...folderPath, folder.name]));
+  };
+  visit(folderId, []);
+  return items;
+}
+
+export function createFolderExportJob(
+  request: FolderExportRequest,
+  now: number = Date.now(),
+): FolderExportJob {
+  const extension = request.format === 'json' ? 'json' : 'md';
+  const usedPaths = new Set<string>();
+  const getPath = (item: FolderExportItem) =>
+    request.format === 'vault'
+      ? VaultExportService.getNotePath(item.folderPath, item.title, usedPaths)
+      : FolderArchiveService.getEntryPath(item.folderPath, item.title, extension, usedPaths);
+  return {
+    id: `folder_export_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    folderName: request.folderName,
+    format: request.format,
+    createdAt: now,
+    items: request.items.map((item) => ({
+      ...item,
+      path: getPath(item),
+      status: 'pending',
+      attempts: 0,
+    })),
+  };
+}
+
+/**
+ * Index of the next conversation to export, or -1 when every item is settled
+ */
+export function getNextPendingIndex(job: FolderExportJob): number {
+  return job.items.findIndex((item) => item.status === 'pending');
+}
+
+export function getFolderExportProgress(job: FolderExportJob): FolderExportProgress {
+  return {
+    done: job.items.filter((item) => item.status === 'done').length,
+    failed: job.items.filter((item) => item.status === 'failed').length,
+    total: job.items.length,
+  };
+}
+
+export function persistFolderExportJob(job: FolderExportJob): void {
+  sessionStorage.setItem(SESSION_KEY_FOLDER_EXPORT, JSON.stringify(job));
+}
+
+export function clearFolderExportJob(): void {
+  sessionStorage.removeItem(SESSION_KEY_FOLDER_EXPORT);
+}
+
+function isJobItem(value: unknown): value is FolderExportJobItem {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Partial<FolderExportJobItem>;
+  return (
+    typeof item.conversationId === 'string' &&
+    typeof item.url === 'string' &&
+    typeof item.title === 'string' &&
+    typeof item.path === 'string' &&
+    Array.isArray(item.folderPath) &&
+    typeof item.attempts === 'number' &&
+    (item.status === 'pending' || item.status === 'done' || item.status === 'failed')
+  );
+}
+
+/**
+ * Read the job of this tab; malformed or stale jobs are discarded
+ */
+export function loadFolderExportJob(now: number = Date.now()): FolderExportJob | null {
+  const raw = sessionStorage.getItem(SESSION_KEY_FOLDER_EXPORT);
+  if (!raw) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    clearFolderExportJob();
+    return null;
+  }
+
+  const job = parsed as Partial<FolderExportJob> | null;
+  if (
+    !job ||
+    typeof job.id !== 'string' ||
+    typeof job.folderName !== 'string' ||
+    (job.format !== 'markdown' && job.format !== 'json' && job.format !== 'vault') ||
+    typeof job.createdAt !== 'number' ||
+    !Array.isArray(job.items) ||
+    !job.items.every(isJobItem) ||
+    now - job.createdAt > MAX_JOB_AGE_MS
+  ) {
+    clearFolderExportJob();
+    return null;
+  }
+
+  return job as FolderExportJob;
+}
@@ -1,20 +1,34 @@
 // Static imports to avoid CSP issues with dynamic imports in content scripts
+import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
 import { StorageKeys } from '@/core/types/common';
 import { isSafari } from '@/core/utils/browser';
+import { getFolderStorageKey, resolveFolderAccountId } from '@/core/utils/geminiAccount';
 import { type AppLanguage, normalizeLanguage } from '@/utils/language';
 import { extractMessageDictionary } from '@/utils/localeMessages';
 import type { TranslationKey } from '@/utils/translations';
 
 import { ConversationExportService } from '../../../features/export/services/ConversationExportService';
+import { ExportProfileService } from '../../../features/export/services/ExportProfileService';
+import { FolderArchiveService } from '../../../features/export/services/FolderArchiveService';
 import { ImageExportService } from '../../../features/export/services/ImageExportService';
+import { OutlineTocBuilder } from '../../../features/export/services/OutlineTocBuilder';
+import { type FilterableTurn, TurnFilter } from '../../../features/export/services/TurnFilter';
+import { VaultExportService } from '../../../features/export/services/VaultExportService';
 import type {
   ConversationMetadata,
   ChatTurn as ExportChatTurn,
   ExportFormat,
+  ExportProfile,
+  ExportTurnFilter,
 } from '../../../features/export/types/export';
 import { ExportDialog } from '../../../features/export/ui/ExportDialog';
 import { resolveExportErrorMessage } from '../../../features/export/ui/ExportErrorMessage';
 import { showExportToast } from '../../../features/export/ui/ExportToast';
+import { createFolderStorageAdapter } from '../folder/storage/FolderStorageAdapter';
+import { ForkNodesService } from '../fork/ForkNodesService';
+import { StarredMessagesService } from '../timeline/StarredMessagesService';
+import { TimelineOutlineService } from '../timeline/TimelineOutlineService';
+import type { MarkerLevel } from '../timeline/types';
 import { filterOutDeepResearchImmersiveNodes, resolveConversationRoot } from './conversationDom';
 import {
   getConversationMenuContext,
@@ -22,9 +36,37 @@ import {
   injectConversationMenuExportButton,
   injectResponseMenuExportButton,
 } from './conversationMenuInjection';
+import {
+  type ConversationFolderContext,
+  loadExportProfiles,
+  loadFolderProfileId,
+  rememberFolderProfile,
+  resolveConversationFolderContext,
+  saveExportProfiles,
+} from './exportProfiles';
+import { FolderExportFileStore } from './folderExportFileStore';
+import {
+  FOLDER_EXPORT_EVENT,
+  type FolderExportFormat,
+  type FolderExportJob,
+  type FolderExportJobItem,
+  type FolderExportProgress,
+  type FolderExportRequest,
+  MAX_FOLDER_EXPORT_ATTEMPTS,
+  clearFolderExportJob,
+  createFolderExportJob,
+  getFolderExportProgress,
+  getNextPendingIndex,
+  loadFolderExportJob,
+  persistFolderExportJob,
+} from './folderExportJob';
 import { injectResponseActionCopyImageButtons } from './responseActionImageButton';
 import { copyImageBlobToClipboard, downloadImageBlob } from './responseImageCopy';
-import { groupSelectedMessagesByTurn, resolveInitialSelectedMessageIds } from './selectionUtils';
+import {
+  groupSelectedMessagesByTurn,
+  resolveInitialSelectedMessageIds,
+  resolveMessageIdsForTurns,
+} from './selectionUtils';
 import { resolveSidebarConversationTarget } from './sidebarConversationTarget';
 import {
   computeConversationFingerprint,
@@ -46,6 +88,9 @@ const EXPORT_PRELOAD_WAIT_OPTIONS = {
   maxSamples: 10,
 } as const;
 const FINAL_EXPORT_PREPARE_DELAY_MS = 120;
+// Folder exports scroll up at most this many times to load older turns of a conversation
+const FOLDER_EXPORT_HISTORY_ROUNDS = 8;
+let folderExportRunning = false;
 let conversationMenuObserver: MutationObserver | null = null;
 let responseActionObserver: MutationObserver | null = null;
 
@@ -53,6 +98,9 @@ interface PendingExportState {
   format: ExportFormat;
   fontSize?: number;
   initialSelectedMessageId?: string;
+  includeOutline?: boolean;
+  turnFilter?: ExportTurnFilter;
+  profile?: ExportProfile;
   attempt: number;
   url: string;
   status: 'clicking';
@@ -69,7 +117,28 @@ function hashString(input: string): string {
 }
 
 function isExportFormat(value: unknown): value is ExportFormat {
-  return value === 'json' || value === 'markdown' || value === 'pdf' || value === 'image';
+  return (
+    value === 'json' ||
+    value === 'markdown' ||
+    value === 'pdf' ||
+    value === 'image' ||
+    value === 'html' ||
+    value === 'docx'
+  );
+}
+
+function normalizeTurnFilter(value: unknown): ExportTurnFilter | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  const turnNumber = (n: unknown) => (typeof n === 'number' && n > 0 ? n : undefined);
+  const filter: ExportTurnFilter = {
+    fromTurn: turnNumber(raw.fromTurn),
+    toTurn: turnNumber(raw.toTurn),
+    starredOnly: raw.starredOnly === true || undefined,
+    sectionTurnId: typeof raw.sectionTurnId === 'string' ? raw.sectionTurnId : undefined,
+    role: raw.role === 'user' || raw.role === 'assistant' ? raw.role : undefined,
+  };
+  return TurnFilter.isActive(filter) ? filter : undefined;
 }
 
 function waitForElement(selector: string, timeoutMs: number = 6000): Promise<Element | null> {
@@ -479,8 +548,32 @@ function computeSortedMessages(pairsInput: ChatTurn[]): Array<ExportMessage & {
   return withPos;
 }
 
+type TurnOutline = { level?: MarkerLevel; title?: string };
+
+/**
+ * Timeline marker levels and labels of the current conversation, keyed by turn id
+ */
+async function loadTurnOutlines(): Promise<Map<string, TurnOutline>> {
+  const conversationId = computeConversationId();
+  const [outline, annotations] = await Promise.all([
+    TimelineOutlineService.getForConversation(conversationId),
+    StarredMessagesService.getAnnotationsForConversation(conversationId),
+  ]);
+
+  const result = new Map<string, TurnOutline>();
+  Object.entries(outline?.levels?.levels ?? {}).forEach(([turnId, level]) => {
+    result.set(turnId, { level });
+  });
+  Object.entries(annotations).forEach(([turnId, annotation]) => {
+    if (!annotation.label) return;
+    result.set(turnId, { ...result.get(turnId), title: annotation.label });
+  });
+  return result;
+}
+
 function buildTurnsForSelectedMessages(
   selectedMessages: readonly ExportMessage[],
+  outlines?: ReadonlyMap<string, TurnOutline>,
 ): ExportChatTurn[] {
   const groupedTurns = groupSelectedMessagesByTurn(selectedMessages);
   return groupedTurns
@@ -491,6 +584,8 @@ function buildTurnsForSelectedMessages(
       omitEmptySections: true,
       userElement: turn.user?.exportElement,
       assistantElement: turn.assistant?.exportElement,
+      outlineLevel: outlines?.get(turn.turnId)?.level,
+      outlineTitle: outlines?.get(turn.turnId)?.title,
     }))
     .filter(
       (turn) =>
@@ -504,12 +599,36 @@ function buildTurnsForSelectedMessages(
 function buildTurnsForSelectedMessageIds(
   selectedMessageIds: ReadonlySet<string>,
   pairsInput: ChatTurn[] = collectChatPairs(),
+  outlines?: ReadonlyMap<string, TurnOutline>,
 ): ExportChatTurn[] {
   if (selectedMessageIds.size === 0) return [];
   const selectedMessages = computeSortedMessages(pairsInput).filter((message) =>
     selectedMessageIds.has(message.messageId),
   );
-  return buildTurnsForSelectedMessages(selectedMessages);
+  return buildTurnsForSelectedMessages(selectedMessages, outlines);
+}
+
+/**
+ * Turns as seen by the export dialog's turn filter, titled like the outline table of contents
+ */
+function buildFilterableTurns(
+  pairs: ChatTurn[],
+  outlines?: ReadonlyMap<string, TurnOutline>,
+): FilterableTurn[] {
+  const entries = OutlineTocBuilder.build(
+    pairs.map((pair) => ({
+      user: pair.user,
+      assistant: pair.assistant,
+      starred: pair.starred,
+      outlineTitle: outlines?.get(pair.turnId)?.title,
+    })),
+  );
+  return pairs.map((pair, i) => ({
+    id: pair.turnId,
+    starred: pair.starred,
+    outlineLevel: outlines?.get(pair.turnId)?.level,
+    title: entries[i].title,
+  }));
 }
 
 function resolveAssistantMessageIdFromMenuTrigger(trigger: HTMLElement | null): string | null {
@@ -764,6 +883,38 @@ function escapeCssAttributeValue(value: string): string {
   return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
 }
 
+/**
+ * Model name shown on the page's model picker, if it can be read
+ */
+function getSelectedModelNameForExport(): string | undefined {
+  const picker =
+    document.querySelector('.input-area-switch-label') ||
+    document.querySelector('[data-test-id="bard-mode-menu-button"]');
+  if (!picker) return undefined;
+
+  // Drop icon ligatures such as "arrow_drop_down"
+  const clone = picker.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll('mat-icon, .google-symbols').forEach((icon) => icon.remove());
+  return clone.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+}
+
+/**
+ * Folder, folder path and tags of the current conversation in the shown account's folders
+ */
+async function loadConversationFolderContext(): Promise<ConversationFolderContext | null> {
+  const conversationId = extractConversationIdFromUrl();
+  if (!conversationId) return null;
+  try {
+    const data = await createFolderStorageAdapter().loadData(
+      getFolderStorageKey(resolveFolderAccountId()),
+    );
+    return data ? resolveConversationFolderContext(data, conversationId) : null;
+  } catch (error) {
+    console.warn('[Gemini Voyager] Failed to read folders for export:', error);
+    return null;
+  }
+}
+
 function getConversationTitleForExport(): string {
   // Strategy 1: Get from active conversation in Gemini Voyager Folder UI (most accurate)
   try {
@@ -1152,11 +1303,17 @@ async function executeExportSequence(
   paramState?: PendingExportState,
   fontSize?: number,
   initialSelectedMessageId?: string,
+  includeOutline?: boolean,
+  turnFilter?: ExportTurnFilter,
+  profile?: ExportProfile,
 ): Promise<void> {
   const state: PendingExportState = paramState || {
     format,
     fontSize,
     initialSelectedMessageId,
+    includeOutline,
+    turnFilter,
+    profile,
     attempt: 0,
     url: location.href,
     status: 'clicking',
@@ -1191,7 +1348,16 @@ async function executeExportSequence(
   if (!topNode) {
     console.log('[Gemini Voyager] No top node found, proceeding to export directly.');
     sessionStorage.removeItem(SESSION_KEY_PENDING_EXPORT);
-    await performFinalExport(format, dict, lang, state.fontSize, state.initialSelectedMessageId);
+    await performFinalExport(
+      format,
+      dict,
+      lang,
+      state.fontSize,
+      state.initialSelectedMessageId,
+      state.includeOutline,
+      state.turnFilter,
+      state.profile,
+    );
     return;
   }
 
@@ -1238,7 +1404,16 @@ async function executeExportSequence(
 
   console.log('[Gemini Voyager] No refresh or update detected. Exporting...');
   sessionStorage.removeItem(SESSION_KEY_PENDING_EXPORT);
-  await performFinalExport(format, dict, lang, state.fontSize, state.initialSelectedMessageId);
+  await performFinalExport(
+    format,
+    dict,
+    lang,
+    state.fontSize,
+    state.initialSelectedMessageId,
+    state.includeOutline,
+    state.turnFilter,
+    state.profile,
+  );
 }
 
 async function executeExportSequenceWithProgress(
@@ -1248,11 +1423,24 @@ async function executeExportSequenceWithProgress(
   paramState?: PendingExportState,
   fontSize?: number,
   initialSelectedMessageId?: string,
+  includeOutline?: boolean,
+  turnFilter?: ExportTurnFilter,
+  profile?: ExportProfile,
 ): Promise<void> {
   const t = (key: TranslationKey) => dict[lang]?.[key] ?? dict.en?.[key] ?? key;
   const hideProgress = showExportProgressOverlay(t);
   try {
-    await executeExportSequence(format, dict, lang, paramState, fontSize, initialSelectedMessageId);
+    await executeExportSequence(
+      format,
+      dict,
+      lang,
+      paramState,
+      fontSize,
+      initialSelectedMessageId,
+      includeOutline,
+      turnFilter,
+      profile,
+    );
   } finally {
     hideProgress();
   }
@@ -1267,6 +1455,9 @@ async function performFinalExport(
   lang: AppLanguage,
   fontSize?: number,
   initialSelectedMessageId?: string,
+  includeOutline?: boolean,
+  turnFilter?: ExportTurnFilter,
+  profile?: ExportProfile,
 ) {
   const t = (key: TranslationKey) => dict[lang]?.[key] ?? dict.en?.[key] ?? key;
 
@@ -1504,7 +1695,14 @@ async function performFinalExport(
       return;
     }
 
-    const turnsForExport = buildTurnsForSelectedMessageIds(selectedIds, collectChatPairs());
+    // Title turn headings use the timeline labels too
+    const needsOutlines = includeOutline || (!!profile && profile.turnHeading !== 'number');
+    const outlines = needsOutlines ? await loadTurnOutlines() : undefined;
+    const turnsForExport = buildTurnsForSelectedMessageIds(
+      selectedIds,
+      collectChatPairs(),
+      outlines,
+    );
     if (turnsForExport.length === 0) {
       alert(t('export_select_mode_empty'));
       return;
@@ -1513,15 +1711,23 @@ async function performFinalExport(
     // Cleanup before export so selection UI isn't captured.
     finish();
 
+    const folderContext = profile ? await loadConversationFolderContext() : null;
     const metadata: ConversationMetadata = {
       url: location.href,
       exportedAt: new Date().toISOString(),
       count: turnsForExport.length,
       title: getConversationTitleForExport(),
+      ...(profile && {
+        id: extractConversationIdFromUrl() ?? undefined,
+        model: getSelectedModelNameForExport(),
+        folderPath: folderContext?.folderPath,
+        tags: folderContext?.tags,
+      }),
     };
 
+    // A profile already says whether to keep image sources
     let includeImageSource = true;
-    if (format === 'markdown') {
+    if (format === 'markdown' && !profile) {
       const hasSearchImages = turnsForExport.some(
         (turn) =>
           turn.assistantElement?.querySelector('.attachment-container.search-images') != null,
@@ -1537,6 +1743,8 @@ async function performFinalExport(
         format,
         fontSize,
         includeImageSource,
+        includeOutline,
+        profile,
       });
       const minVisiblePromise = new Promise((resolve) => setTimeout(resolve, 420));
       const [result] = await Promise.all([resultPromise, minVisiblePromise]);
@@ -1587,6 +1795,20 @@ async function performFinalExport(
   // Initial sync
   syncMessages(pairs);
   updateBottomBar(bar);
+
+  // Pre-select the messages matching the dialog's turn filter; the user can still adjust them
+  if (TurnFilter.isActive(turnFilter)) {
+    const outlines = turnFilter.sectionTurnId
+      ? await loadTurnOutlines().catch(() => undefined)
+      : undefined;
+    const matched = TurnFilter.apply(buildFilterableTurns(pairs, outlines), turnFilter);
+    resolveMessageIdsForTurns(
+      allMessageIds,
+      matched.map((turn) => turn.id),
+      turnFilter.role,
+    ).forEach((id) => setSelected(id, true));
+    updateBottomBar(bar);
+  }
 }
 
 function showExportProgressOverlay(t: (key: TranslationKey) => string): () => void {
@@ -1648,6 +1870,9 @@ async function checkPendingExport() {
         typeof parsed.initialSelectedMessageId === 'string'
           ? parsed.initialSelectedMessageId
           : undefined,
+      includeOutline: parsed.includeOutline === true,
+      turnFilter: normalizeTurnFilter(parsed.turnFilter),
+      profile: ExportProfileService.normalizeProfiles([parsed.profile])[0],
       attempt: parsed.attempt,
       url: parsed.url,
       status: parsed.status,
@@ -1676,6 +1901,267 @@ async function checkPendingExport() {
   }
 }
 
+interface FolderExportProgressView {
+  update(progress: FolderExportProgress, currentTitle: string): void;
+  close(): void;
+}
+
+function showFolderExportProgress(
+  t: (key: TranslationKey) => string,
+  folderName: string,
+  onCancel: () => void,
+): FolderExportProgressView {
+  const overlay = document.createElement('div');
+  overlay.className = 'gv-export-progress-overlay gv-folder-export-progress';
+
+  const card = document.createElement('div');
+  card.className = 'gv-export-progress-card';
+
+  const spinner = document.createElement('div');
+  spinner.className = 'gv-export-progress-spinner';
+
+  const title = document.createElement('div');
+  title.className = 'gv-export-progress-title';
+  title.textContent = t('folder_export_progress_title').replace('{folder}', folderName);
+
+  const desc = document.createElement('div');
+  desc.className = 'gv-export-progress-desc';
+  desc.textContent = t('loading');
+
+  const cancelBtn = document.createElement('button');
+  cancelBtn.className = 'gv-folder-export-cancel';
+  cancelBtn.textContent = t('pm_cancel');
+  cancelBtn.addEventListener('click', () => {
+    cancelBtn.disabled = true;
+    desc.textContent = t('folder_export_cancelling');
+    onCancel();
+  });
+
+  card.appendChild(spinner);
+  card.appendChild(title);
+  card.appendChild(desc);
+  card.appendChild(cancelBtn);
+  overlay.appendChild(card);
+  document.body.appendChild(overlay);
+  const unbindAlignment = alignElementToConversationTitleCenter(overlay);
+
+  return {
+    update: (progress, currentTitle) => {
+      if (cancelBtn.disabled) return;
+      const position = Math.min(progress.done + progress.failed + 1, progress.total);
+      desc.textContent = `${position}/${progress.total} · ${currentTitle}`;
+    },
+    close: () => {
+      unbindAlignment();
+      try {
+        overlay.remove();
+      } catch {}
+    },
+  };
+}
+
+/**
+ * Scroll to the top of the open conversation until no older turns load
+ */
+async function preloadConversationHistory(): Promise<void> {
+  const fingerprintSelectors = [...getUserSelectors(), ...getAssistantSelectors()];
+  for (let round = 0; round < FOLDER_EXPORT_HISTORY_ROUNDS; round++) {
+    const topNode = getTopUserElement(getUserSelectors());
+    if (!topNode) return;
+    const before = computeConversationFingerprint(document.body, fingerprintSelectors, 10);
+    topNode.scrollIntoView({ behavior: 'auto', block: 'start' });
+    const { changed } = await waitForConversationFingerprintChangeOrTimeout(
+      document.body,
+      fingerprintSelectors,
+      before,
+      { ...EXPORT_PRELOAD_WAIT_OPTIONS, timeoutMs: 4000 },
+    );
+    if (!changed) return;
+  }
+}
+
+/**
+ * Open one conversation of a folder export and render it.
+ * Opening may reload the page, in which case the job resumes from sessionStorage.
+ */
+async function exportFolderItem(
+  item: FolderExportJobItem,
+  format: FolderExportFormat,
+  folderName: string,
+): Promise<{ content: string } | { error: string }> {
+  const conversationId = extractConversationIdFromHref(item.url) || item.conversationId;
+  const fingerprintSelectors = [...getUserSelectors(), ...getAssistantSelectors()];
+  const alreadyOpen = extractConversationIdFromUrl() === conversationId;
+  const before = computeConversationFingerprint(document.body, fingerprintSelectors, 10);
+
+  const ready = await navigateToConversationAndWait(conversationId, item.url);
+  if (!ready) return { error: 'Could not open the conversation' };
+
+  // In-app navigation keeps the previous conversation on screen for a moment
+  if (!alreadyOpen && before.count > 0) {
+    await waitForConversationFingerprintChangeOrTimeout(
+      document.body,
+      fingerprintSelectors,
+      before,
+      EXPORT_PRELOAD_WAIT_OPTIONS,
+    );
+  }
+  await preloadConversationHistory();
+  await new Promise((r) => setTimeout(r, FINAL_EXPORT_PREPARE_DELAY_MS));
+
+  const turns = collectChatPairs();
+  if (turns.length === 0) return { error: 'No messages found' };
+
+  const metadata: ConversationMetadata = {
+    url: location.href,
+    exportedAt: new Date().toISOString(),
+    count: turns.length,
+    title: item.title,
+  };
+  if (format === 'vault') {
+    return {
+      content: VaultExportService.renderNote(turns, {
+        ...metadata,
+        id: conversationId,
+        folderPath: [folderName, ...item.folderPath],
+        tags: item.tags,
+      }),
+    };
+  }
+  return { content: ConversationExportService.renderConversation(turns, metadata, format) };
+}
+
+/**
+ * Export every pending conversation of a job, then download the archive.
+ * Rendered files are stored as they are produced so a reload only repeats the current item.
+ */
+async function runFolderExport(
+  job: FolderExportJob,
+  t: (key: TranslationKey) => string,
+): Promise<void> {
+  if (folderExportRunning) return;
+  folderExportRunning = true;
+
+  const store = new FolderExportFileStore();
+  let cancelled = false;
+  const progress = showFolderExportProgress(t, job.folderName, () => {
+    cancelled = true;
+  });
+
+  try {
+    const files = await store.getAll(job.id).catch(() => new Map<number, string>());
+    job.items.forEach((item, index) => {
+      if (item.status === 'done' && !files.has(index)) item.status = 'pending';
+    });
+
+    for (
+      let index = getNextPendingIndex(job);
+      index >= 0 && !cancelled;
+      index = getNextPendingIndex(job)
+    ) {
+      const item = job.items[index];
+      progress.update(getFolderExportProgress(job), item.title);
+      item.attempts++;
+      persistFolderExportJob(job);
+
+      const result = await exportFolderItem(item, job.format, job.folderName);
+      if ('error' in result) {
+        if (item.attempts >= MAX_FOLDER_EXPORT_ATTEMPTS) {
+          item.status = 'failed';
+          item.error = result.error;
+        }
+        continue;
+      }
+
+      files.set(index, result.content);
+      item.status = 'done';
+      try {
+        await store.put(job.id, index, result.content);
+      } catch (err) {
+        // Still packaged from memory unless the page reloads before the end
+        console.warn('[Gemini Voyager] Failed to store folder export file:', err);
+      }
+    }
+
+    if (cancelled) {
+      showExportToast(t('folder_export_cancelled'));
+      return;
+    }
+
+    const archiveFiles = job.items.flatMap((item, index) => {
+      const content = files.get(index);
+      return item.status === 'done' && content !== undefined
+        ? [{ path: item.path, url: item.url, content }]
+        : [];
+    });
+    const index = FolderArchiveService.buildIndex(
+      job.folderName,
+      new Date().toISOString(),
+      job.items,
+    );
+    let blob: Blob;
+    if (job.format === 'vault') {
+      // Without fork data the notes are still exported, just unlinked
+      const forks = await ForkNodesService.getAllForkNodes().catch(() => null);
+      blob = await VaultExportService.createArchive(archiveFiles, index, forks);
+    } else {
+      blob = await FolderArchiveService.createArchive(archiveFiles, index);
+    }
+    FolderArchiveService.download(blob, FolderArchiveService.getArchiveFilename(job.folderName));
+
+    const { done, failed, total } = getFolderExportProgress(job);
+    const message = failed > 0 ? t('folder_export_done_partial') : t('folder_export_done');
+    showExportToast(
+      message
+        .replace('{count}', String(done))
+        .replace('{total}', String(total))
+        .replace('{failed}', String(failed)),
+      { autoDismissMs: 5000 },
+    );
+  } catch (err) {
+    console.error('[Gemini Voyager] Folder export failed:', err);
+    alert(t('folder_export_failed'));
+  } finally {
+    clearFolderExportJob();
+    store.clear(job.id).catch(() => {});
+    progress.close();
+    folderExportRunning = false;
+  }
+}
+
+async function startFolderExport(
+  request: FolderExportRequest,
+  t: (key: TranslationKey) => string,
+): Promise<void> {
+  if (folderExportRunning || loadFolderExportJob()) {
+    showExportToast(t('folder_export_busy'));
+    return;
+  }
+  if (request.items.length === 0) return;
+
+  const job = createFolderExportJob(request);
+  persistFolderExportJob(job);
+  await runFolderExport(job, t);
+}
+
+/**
+ * Continue a folder export interrupted by a page load
+ */
+async function resumeFolderExport(): Promise<void> {
+  try {
+    const job = loadFolderExportJob();
+    if (!job) return;
+
+    const dict = await loadDictionaries();
+    const lang = await getLanguage();
+    const t = (key: TranslationKey) => dict[lang]?.[key] ?? dict.en?.[key] ?? key;
+    await runFolderExport(job, t);
+  } catch (e) {
+    console.error('[Gemini Voyager] Failed to resume folder export:', e);
+    clearFolderExportJob();
+  }
+}
+
 function getConversationMenuPanelsFromNode(node: HTMLElement): HTMLElement[] {
   const panels: HTMLElement[] = [];
   if (node.matches(CONVERSATION_MENU_SELECTOR)) {
@@ -2011,11 +2497,20 @@ function setupConversationMenuExportObserver({
 export async function startExportButton(): Promise<void> {
   // Check for pending export immediately
   checkPendingExport();
+  void resumeFolderExport();
 
   // i18n setup for tooltip and label
   const dict = await loadDictionaries();
   let lang = await getLanguage();
 
+  // Folder exports are requested by the folder manager
+  window.addEventListener(FOLDER_EXPORT_EVENT, (event) => {
+    const request = (event as CustomEvent<FolderExportRequest>).detail;
+    if (!request) return;
+    const t = (key: TranslationKey) => dict[lang]?.[key] ?? dict.en?.[key] ?? key;
+    void startFolderExport(request, t);
+  });
+
   setupConversationMenuExportObserver({
     dict,
     getCurrentLanguage: () => lang,
@@ -2036,6 +2531,10 @@ export async function startExportButton(): Promise<void> {
     getCurrentLanguage: () => lang,
   });
 
+  keyboardShortcutService.register('export:open', () => {
+    void showExportDialog(dict, lang);
+  });
+
   const logo =
     (await waitForElement('[data-test-id="logo"]', 6000)) || (await waitForElement('.logo', 2000));
   if (!logo) return;
@@ -2206,12 +2705,25 @@ async function showExportDialog(
 ): Promise<void> {
   const t = (key: TranslationKey) => dict[lang]?.[key] ?? dict.en?.[key] ?? key;
 
-  // We defer collection until after the export sequence (scrolling/refresh checks)
+  // The full collection is deferred until after the export sequence (scrolling/refresh checks);
+  // the turns loaded so far are enough to preview the turn filter
+  const pairs = collectChatPairs();
+  const outlines = pairs.length > 0 ? await loadTurnOutlines().catch(() => undefined) : undefined;
+
+  // Saved profiles, preselecting the one last used for the conversation's folder
+  const profiles = await loadExportProfiles().catch(() => []);
+  const folderContext = await loadConversationFolderContext();
+  const selectedProfileId = folderContext
+    ? await loadFolderProfileId(folderContext.folderId).catch(() => undefined)
+    : undefined;
 
   const dialog = new ExportDialog();
 
   dialog.show({
-    onExport: async (format, fontSize) => {
+    onExport: async (format, fontSize, includeOutline, turnFilter, profile) => {
+      if (folderContext) {
+        void rememberFolderProfile(folderContext.folderId, profile?.id).catch(() => {});
+      }
       try {
         await executeExportSequenceWithProgress(
           format,
@@ -2220,6 +2732,9 @@ async function showExportDialog(
           undefined,
           fontSize,
           options?.initialSelectedMessageId || undefined,
+          includeOutline,
+          turnFilter,
+          profile,
         );
       } catch (err) {
         console.error('[Gemini Voyager] Export error:', err);
@@ -2229,6 +2744,14 @@ async function showExportDialog(
     onCancel: () => {
       // Dialog closed
     },
+    turns: buildFilterableTurns(pairs, outlines),
+    profiles,
+    selectedProfileId,
+    onProfilesChange: (next) => {
+      void saveExportProfiles(next).catch((error) => {
+        console.error('[Gemini Voyager] Failed to save export profiles:', error);
+      });
+    },
     translations: {
       title: t('export_dialog_title'),
       selectFormat: t('export_dialog_select'),
@@ -2239,11 +2762,54 @@ async function showExportDialog(
       export: t('pm_export'),
       fontSizeLabel: t('export_fontsize_label'),
       fontSizePreview: t('export_fontsize_preview'),
+      outlineToc: t('export_outline_toc'),
+      turnFilter: {
+        title: t('export_filter_title'),
+        range: t('export_filter_range'),
+        starredOnly: t('export_filter_starred_only'),
+        section: t('export_filter_section'),
+        allSections: t('export_filter_all_sections'),
+        role: t('export_filter_role'),
+        roleAll: t('export_filter_role_all'),
+        roleUser: t('export_filter_role_user'),
+        roleAssistant: t('export_filter_role_assistant'),
+        preview: t('export_filter_preview'),
+      },
+      profile: {
+        title: t('export_profile_title'),
+        none: t('export_profile_none'),
+        create: t('export_profile_new'),
+        edit: t('export_profile_edit'),
+        name: t('export_profile_name'),
+        untitled: t('export_profile_untitled'),
+        filenamePattern: t('export_profile_filename_pattern'),
+        filenamePatternHint: t('export_profile_filename_hint'),
+        frontMatter: t('export_profile_front_matter'),
+        frontMatterFields: {
+          title: t('export_profile_field_title'),
+          url: t('export_profile_field_url'),
+          model: t('export_profile_field_model'),
+          exportedAt: t('export_profile_field_exported_at'),
+          folder: t('export_profile_field_folder'),
+          tags: t('export_profile_field_tags'),
+        },
+        turnHeading: t('export_profile_turn_heading'),
+        turnHeadingStyles: {
+          number: t('export_profile_heading_number'),
+          title: t('export_profile_heading_title'),
+          numberAndTitle: t('export_profile_heading_number_title'),
+        },
+        imageSource: t('export_profile_image_source'),
+        save: t('export_profile_save'),
+        delete: t('export_profile_delete'),
+      },
       formatDescriptions: {
         json: t('export_format_json_description'),
         markdown: t('export_format_markdown_description'),
         pdf: t('export_format_pdf_description'),
         image: t('export_format_image_description'),
+        html: t('export_format_html_description'),
+        docx: t('export_format_docx_description'),
       },
     },
   });
@@ -107,3 +107,23 @@ export function resolveInitialSelectedMessageIds(
   if (!allMessageIds.includes(preferredMessageId)) return new Set<string>();
   return new Set<string>([preferredMessageId]);
 }
+
+/**
+ * Message ids of the given turns, optionally limited to one role (used to pre-select
+ * the messages matching the export dialog's filters)
+ */
+export function resolveMessageIdsForTurns(
+  allMessageIds: readonly string[],
+  turnIds: Iterable<string>,
+  role?: SelectableMessageRole,
+): Set<string> {
+  const turns = new Set(turnIds);
+  const out = new Set<string>();
+  for (const messageId of allMessageIds) {
+    const { turnId, roleHint } = parseMessageId(messageId);
+    if (!turns.has(turnId)) continue;
+    if (role && roleHint !== role) continue;
+    out.add(messageId);
+  }
+  return out;
+}
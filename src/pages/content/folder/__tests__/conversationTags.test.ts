@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  MAX_NOTE_LENGTH,
+  applyConversationAnnotations,
+  findTagByName,
+  getConversationTags,
+  normalizeConversationTags,
+  normalizeTagName,
+  pruneUnusedTags,
+} from '../conversationTags';
+import type { ConversationReference, ConversationTag, FolderData } from '../types';
+
+const ROOT = '__root_conversations__';
+
+function createTag(id: string, name: string): ConversationTag {
+  return { id, name, color: 'blue', createdAt: 0, updatedAt: 0 };
+}
+
+function createConversation(
+  conversationId: string,
+  options: Partial<ConversationReference> = {},
+): ConversationReference {
+  return {
+    conversationId,
+    title: conversationId,
+    url: `https://gemini.google.com/app/${conversationId}`,
+    addedAt: 0,
+    ...options,
+  };
+}
+
+describe('normalizeTagName', () => {
+  it('collapses whitespace and bounds the length', () => {
+    expect(normalizeTagName('  needs   review ')).toBe('needs review');
+    expect(normalizeTagName('x'.repeat(100))).toHaveLength(32);
+  });
+});
+
+describe('findTagByName', () => {
+  it('ignores case and surrounding whitespace', () => {
+    const tags = [createTag('t1', 'Research')];
+    expect(findTagByName(tags, ' research ')?.id).toBe('t1');
+    expect(findTagByName(tags, 'other')).toBeUndefined();
+  });
+});
+
+describe('normalizeConversationTags', () => {
+  it('drops invalid entries and duplicate ids, and defaults unknown colours', () => {
+    const tags = normalizeConversationTags([
+      { id: 't1', name: 'Bug', color: 'red', createdAt: 1 },
+      { id: 't1', name: 'Duplicate' },
+      { id: 't2', name: '  ' },
+      { id: 't3', name: 'Idea', color: 'chartreuse', createdAt: 2, updatedAt: 3 },
+      'junk',
+    ]);
+    expect(tags).toEqual([
+      { id: 't1', name: 'Bug', color: 'red', createdAt: 1, updatedAt: 1 },
+      { id: 't3', name: 'Idea', color: 'default', createdAt: 2, updatedAt: 3 },
+    ]);
+    expect(normalizeConversationTags(undefined)).toEqual([]);
+  });
+});
+
+describe('getConversationTags', () => {
+  it('returns known tags in definition order', () => {
+    const tags = [createTag('a', 'A'), createTag('b', 'B')];
+    const conv = createConversation('c_1', { tagIds: ['b', 'missing', 'a'] });
+    expect(getConversationTags(conv, tags).map((t) => t.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('applyConversationAnnotations', () => {
+  it('updates every saved copy of the conversation', () => {
+    const data: FolderData = {
+      folders: [],
+      folderContents: {
+        [ROOT]: [createConversation('c_1')],
+        work: [createConversation('1'), createConversation('c_2')],
+      },
+    };
+
+    const updated = applyConversationAnnotations(
+      data,
+      'c_1',
+      { tagIds: ['a', 'a', 'b'], note: '  keep this  ' },
+      42,
+    );
+
+    expect(updated).toBe(2);
+    expect(data.folderContents[ROOT][0]).toMatchObject({
+      tagIds: ['a', 'b'],
+      note: 'keep this',
+      updatedAt: 42,
+    });
+    expect(data.folderContents.work[0].note).toBe('keep this');
+    expect(data.folderContents.work[1].note).toBeUndefined();
+  });
+
+  it('removes cleared fields and bounds the note', () => {
+    const data: FolderData = {
+      folders: [],
+      folderContents: { work: [createConversation('c_1', { tagIds: ['a'], note: 'old' })] },
+    };
+
+    applyConversationAnnotations(data, 'c_1', { tagIds: [], note: '' });
+    expect(data.folderContents.work[0]).not.toHaveProperty('tagIds');
+    expect(data.folderContents.work[0]).not.toHaveProperty('note');
+
+    applyConversationAnnotations(data, 'c_1', { tagIds: [], note: 'x'.repeat(5000) });
+    expect(data.folderContents.work[0].note).toHaveLength(MAX_NOTE_LENGTH);
+  });
+});
+
+describe('pruneUnusedTags', () => {
+  it('keeps only tags referenced by a conversation', () => {
+    const data: FolderData = {
+      folders: [],
+      folderContents: { work: [createConversation('c_1', { tagIds: ['b'] })] },
+      tags: [createTag('a', 'A'), createTag('b', 'B')],
+    };
+    pruneUnusedTags(data);
+    expect(data.tags?.map((t) => t.id)).toEqual(['b']);
+  });
+
+  it('keeps tags of conversations in the trash', () => {
+    const data: FolderData = {
+      folders: [],
+      folderContents: {},
+      tags: [createTag('a', 'A'), createTag('b', 'B')],
+      trash: [
+        {
+          id: 'x',
+          type: 'conversation',
+          deletedAt: 0,
+          folderId: ROOT,
+          conversation: createConversation('c_1', { tagIds: ['a'] }),
+        },
+      ],
+    };
+    pruneUnusedTags(data);
+    expect(data.tags?.map((t) => t.id)).toEqual(['a']);
+  });
+});
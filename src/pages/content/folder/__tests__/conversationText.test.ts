@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  MAX_INDEXED_CHARS,
+  capConversationTurns,
+  extractConversationTurns,
+  mergeConversationTurns,
+  turnsToIndexText,
+} from '../conversationText';
+
+describe('extractConversationTurns', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('reads user and model turns in document order with normalized whitespace', () => {
+    document.body.innerHTML = `
+      <user-query>How do I   sort
+        a list?</user-query>
+      <model-response>Use <code>sorted()</code>.</model-response>
+      <user-query>   </user-query>
+    `;
+    expect(extractConversationTurns()).toEqual(['How do I sort a list?', 'Use sorted().']);
+  });
+
+  it('skips turns inside the deep research panel', () => {
+    document.body.innerHTML = `
+      <user-query>Question</user-query>
+      <deep-research-immersive-panel><model-response>Report</model-response></deep-research-immersive-panel>
+    `;
+    expect(extractConversationTurns()).toEqual(['Question']);
+  });
+
+  it('reads from the given root only', () => {
+    document.body.innerHTML = `
+      <div id="a"><user-query>Inside</user-query></div>
+      <user-query>Outside</user-query>
+    `;
+    expect(extractConversationTurns(document.getElementById('a')!)).toEqual(['Inside']);
+  });
+});
+
+describe('mergeConversationTurns', () => {
+  it('replaces the stored turns when the capture starts at the beginning', () => {
+    expect(mergeConversationTurns(['a', 'b'], ['a', 'b', 'c'])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps earlier stored turns that are no longer rendered', () => {
+    expect(mergeConversationTurns(['a', 'b', 'c'], ['c', 'd'])).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('uses the new capture when it does not overlap', () => {
+    expect(mergeConversationTurns(['a', 'b'], ['x', 'y'])).toEqual(['x', 'y']);
+  });
+
+  it('keeps the stored turns when nothing was captured', () => {
+    expect(mergeConversationTurns(['a'], [])).toEqual(['a']);
+  });
+
+  it('keeps a capped record when a later part of the conversation is captured', () => {
+    const long = 'x'.repeat(MAX_INDEXED_CHARS);
+    expect(mergeConversationTurns(['a', long], ['y', 'z'])).toEqual(['a', long]);
+    expect(mergeConversationTurns(['b', long], ['a', 'b'])).toEqual(['a', 'b']);
+  });
+});
+
+describe('turnsToIndexText', () => {
+  it('joins turns and bounds the length', () => {
+    expect(turnsToIndexText(['a', 'b'])).toBe('a\nb');
+    expect(turnsToIndexText(['x'.repeat(MAX_INDEXED_CHARS + 10)])).toHaveLength(MAX_INDEXED_CHARS);
+  });
+});
+
+describe('capConversationTurns', () => {
+  it('keeps the leading turns within the index size bound', () => {
+    const half = 'x'.repeat(MAX_INDEXED_CHARS / 2);
+    const capped = capConversationTurns([half, half, 'dropped']);
+
+    expect(capped).toHaveLength(2);
+    expect(capped.join('\n')).toHaveLength(MAX_INDEXED_CHARS);
+    expect(capConversationTurns(['a', 'b'])).toEqual(['a', 'b']);
+  });
+});
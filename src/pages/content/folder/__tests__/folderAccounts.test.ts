@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getRegisteredAccountIds,
+  normalizeAccountRegistry,
+  registerAccount,
+  splitFolderDataByAccount,
+} from '../folderAccounts';
+import type { ConversationReference, Folder, FolderData } from '../types';
+
+const ROOT = '__root_conversations__';
+
+function createFolder(id: string, parentId: string | null = null): Folder {
+  return { id, name: id, parentId, isExpanded: false, createdAt: 0, updatedAt: 0 };
+}
+
+function createConversation(
+  conversationId: string,
+  accountPath = '',
+  options: Partial<ConversationReference> = {},
+): ConversationReference {
+  return {
+    conversationId,
+    title: conversationId,
+    url: `https://gemini.google.com${accountPath}/app/${conversationId}`,
+    addedAt: 0,
+    ...options,
+  };
+}
+
+describe('account registry', () => {
+  it('drops malformed entries', () => {
+    expect(
+      normalizeAccountRegistry({ 1: { label: 'a@b.c', lastSeenAt: 5 }, x: {}, 2: null, 3: {} }),
+    ).toEqual({ 1: { label: 'a@b.c', lastSeenAt: 5 }, 3: { lastSeenAt: 0 } });
+    expect(normalizeAccountRegistry([])).toEqual({});
+  });
+
+  it('keeps a known label when none is detected', () => {
+    const registry = registerAccount({ 1: { label: 'a@b.c', lastSeenAt: 1 } }, '1', null, 9);
+    expect(registry['1']).toEqual({ label: 'a@b.c', lastSeenAt: 9 });
+  });
+
+  it('lists ids in index order', () => {
+    expect(getRegisteredAccountIds({ 10: { lastSeenAt: 0 }, 2: { lastSeenAt: 0 } })).toEqual([
+      '2',
+      '10',
+    ]);
+  });
+});
+
+describe('splitFolderDataByAccount', () => {
+  function createData(): FolderData {
+    return {
+      folders: [createFolder('work'), createFolder('rust', 'work'), createFolder('home')],
+      folderContents: {
+        [ROOT]: [createConversation('c_root'), createConversation('c_root1', '/u/1')],
+        work: [createConversation('c_w0', '/u/0')],
+        rust: [createConversation('c_r1', '/u/1', { tagIds: ['t1'] }), createConversation('c_r')],
+        home: [],
+      },
+      smartFolders: [
+        {
+          id: 's1',
+          name: 'Starred',
+          rules: [{ type: 'starred' }],
+          match: 'all',
+          isExpanded: false,
+          createdAt: 0,
+          updatedAt: 0,
+        },
+      ],
+      tags: [
+        { id: 't1', name: 'Bug', color: 'red', createdAt: 0, updatedAt: 0 },
+        { id: 't2', name: 'Idea', color: 'blue', createdAt: 0, updatedAt: 0 },
+      ],
+    };
+  }
+
+  it('keeps the full tree and unprefixed conversations in the default account', () => {
+    const { 0: main } = splitFolderDataByAccount(createData(), ROOT);
+    expect(main.folders.map((f) => f.id)).toEqual(['work', 'rust', 'home']);
+    expect(main.folderContents[ROOT].map((c) => c.conversationId)).toEqual(['c_root']);
+    expect(main.folderContents.work.map((c) => c.conversationId)).toEqual(['c_w0']);
+    expect(main.folderContents.rust.map((c) => c.conversationId)).toEqual(['c_r']);
+    expect(main.tags).toEqual([]);
+  });
+
+  it('gives other accounts their folders with ancestors, smart folders and used tags', () => {
+    const { 1: second } = splitFolderDataByAccount(createData(), ROOT);
+    expect(second.folders.map((f) => f.id)).toEqual(['work', 'rust']);
+    expect(second.folderContents).toEqual({
+      [ROOT]: [expect.objectContaining({ conversationId: 'c_root1' })],
+      rust: [expect.objectContaining({ conversationId: 'c_r1' })],
+      work: [],
+    });
+    expect(second.smartFolders?.map((f) => f.id)).toEqual(['s1']);
+    expect(second.tags?.map((t) => t.id)).toEqual(['t1']);
+  });
+
+  it('returns only the default account for single-account data', () => {
+    const data: FolderData = {
+      folders: [createFolder('work')],
+      folderContents: { work: [createConversation('c_1')] },
+    };
+    const result = splitFolderDataByAccount(data, ROOT);
+    expect(Object.keys(result)).toEqual(['0']);
+    expect(result['0'].folderContents.work).toHaveLength(1);
+  });
+});
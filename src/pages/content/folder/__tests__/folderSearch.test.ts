@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildSnippet,
+  highlightTerms,
+  normalizeConversationKey,
+  searchFolderData,
+  tokenizeQuery,
+} from '../folderSearch';
+import type { ConversationReference, Folder, FolderData } from '../types';
+
+const ROOT = '__root_conversations__';
+
+function createFolder(id: string, name: string, parentId: string | null = null): Folder {
+  return { id, name, parentId, isExpanded: false, createdAt: 0, updatedAt: 0 };
+}
+
+function createConversation(
+  conversationId: string,
+  title: string,
+  options: Partial<ConversationReference> = {},
+): ConversationReference {
+  return {
+    conversationId,
+    title,
+    url: `https://gemini.google.com/app/${conversationId}`,
+    addedAt: 0,
+    ...options,
+  };
+}
+
+function createData(): FolderData {
+  return {
+    folders: [createFolder('work', 'Work'), createFolder('rust', 'Rust notes', 'work')],
+    folderContents: {
+      [ROOT]: [createConversation('c_root1', 'Weekend plans')],
+      work: [createConversation('c_w1', 'Quarterly report')],
+      rust: [
+        createConversation('c_r1', 'Borrow checker help'),
+        createConversation('c_r2', 'Async runtime comparison'),
+      ],
+    },
+  };
+}
+
+function plain(segments: { text: string }[] | null): string | null {
+  return segments ? segments.map((s) => s.text).join('') : null;
+}
+
+describe('tokenizeQuery', () => {
+  it('lowercases, splits on whitespace and removes duplicates', () => {
+    expect(tokenizeQuery('  Rust  rust Async ')).toEqual(['rust', 'async']);
+  });
+
+  it('returns no terms for a blank query', () => {
+    expect(tokenizeQuery('   ')).toEqual([]);
+  });
+});
+
+describe('normalizeConversationKey', () => {
+  it('strips the c_ prefix', () => {
+    expect(normalizeConversationKey('c_abc')).toBe('abc');
+    expect(normalizeConversationKey('abc')).toBe('abc');
+  });
+});
+
+describe('highlightTerms', () => {
+  it('marks every case-insensitive occurrence', () => {
+    expect(highlightTerms('Rust and rust', ['rust'])).toEqual([
+      { text: 'Rust', highlight: true },
+      { text: ' and ', highlight: false },
+      { text: 'rust', highlight: true },
+    ]);
+  });
+
+  it('merges overlapping matches', () => {
+    expect(highlightTerms('borrowing', ['borrow', 'rowing'])).toEqual([
+      { text: 'borrowing', highlight: true },
+    ]);
+  });
+
+  it('returns the text unhighlighted when nothing matches', () => {
+    expect(highlightTerms('hello', ['xyz'])).toEqual([{ text: 'hello', highlight: false }]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('returns null when no term occurs', () => {
+    expect(buildSnippet('nothing here', ['rust'])).toBeNull();
+  });
+
+  it('keeps short text whole', () => {
+    expect(plain(buildSnippet('I love   Rust a lot', ['rust']))).toBe('I love Rust a lot');
+  });
+
+  it('trims long text around the first match with ellipses on word boundaries', () => {
+    const text = `${'alpha '.repeat(30)}needle ${'omega '.repeat(30)}`;
+    const snippet = plain(buildSnippet(text, ['needle'], 20));
+    expect(snippet).toMatch(/^…alpha/);
+    expect(snippet).toMatch(/omega…$/);
+    expect(snippet).toContain('needle');
+    expect(snippet).not.toMatch(/…(lpha|pha|ha|a) /);
+  });
+});
+
+describe('searchFolderData', () => {
+  it('returns nothing for an empty query', () => {
+    expect(searchFolderData(createData(), '  ', new Map(), ROOT)).toEqual([]);
+  });
+
+  it('finds folders by name with their ancestor path', () => {
+    const results = searchFolderData(createData(), 'rust', new Map(), ROOT);
+    const folder = results.find((r) => r.type === 'folder');
+    expect(folder).toMatchObject({ type: 'folder', path: ['Work'] });
+    expect(folder?.type === 'folder' && folder.folder.id).toBe('rust');
+  });
+
+  it('matches conversation titles, including root conversations', () => {
+    const results = searchFolderData(createData(), 'weekend', new Map(), ROOT);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ type: 'conversation', folderId: ROOT, path: [] });
+  });
+
+  it('matches conversation content and returns a snippet', () => {
+    const content = new Map([['r2', 'We compared tokio with async-std for the server.']]);
+    const results = searchFolderData(createData(), 'tokio', content, ROOT);
+    expect(results).toHaveLength(1);
+    const [result] = results;
+    expect(result.type).toBe('conversation');
+    if (result.type !== 'conversation') return;
+    expect(result.conversation.conversationId).toBe('c_r2');
+    expect(result.path).toEqual(['Work', 'Rust notes']);
+    expect(result.snippet?.some((s) => s.highlight && s.text === 'tokio')).toBe(true);
+  });
+
+  it('requires every term across title, path and content', () => {
+    const content = new Map([['r1', 'lifetimes explained']]);
+    expect(searchFolderData(createData(), 'borrow lifetimes', content, ROOT)).toHaveLength(1);
+    expect(searchFolderData(createData(), 'borrow missing', content, ROOT)).toHaveLength(0);
+    // "work" comes from the folder path, "borrow" from the title
+    const viaPath = searchFolderData(createData(), 'work borrow', content, ROOT);
+    expect(viaPath.map((r) => r.type === 'conversation' && r.conversation.conversationId)).toEqual([
+      'c_r1',
+    ]);
+  });
+
+  it('ranks title matches above content-only matches', () => {
+    const content = new Map([['w1', 'the async migration is on track']]);
+    const results = searchFolderData(createData(), 'async', content, ROOT);
+    const ids = results.map((r) =>
+      r.type === 'conversation' ? r.conversation.conversationId : '',
+    );
+    expect(ids).toEqual(['c_r2', 'c_w1']);
+  });
+
+  it('lists a conversation saved in several folders only once', () => {
+    const data = createData();
+    data.folderContents.work.push(createConversation('r1', 'Borrow checker help'));
+    const results = searchFolderData(data, 'borrow', new Map(), ROOT);
+    expect(results).toHaveLength(1);
+  });
+
+  it('respects the result limit', () => {
+    const results = searchFolderData(createData(), 'r', new Map(), ROOT, 2);
+    expect(results).toHaveLength(2);
+  });
+});
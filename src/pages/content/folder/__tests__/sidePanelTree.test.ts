@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildSidePanelFolderTree } from '../sidePanelTree';
+import type { ConversationReference, Folder, FolderData } from '../types';
+
+const ROOT = '__root__';
+
+function createFolder(id: string, options: Partial<Folder> = {}): Folder {
+  return {
+    id,
+    name: id,
+    parentId: null,
+    isExpanded: false,
+    createdAt: 0,
+    updatedAt: 0,
+    ...options,
+  };
+}
+
+function createConversation(
+  conversationId: string,
+  options: Partial<ConversationReference> = {},
+): ConversationReference {
+  return {
+    conversationId,
+    title: conversationId,
+    url: `https://gemini.google.com/app/${conversationId}`,
+    addedAt: 0,
+    ...options,
+  };
+}
+
+describe('buildSidePanelFolderTree', () => {
+  it('nests folders in sidebar order with their conversations', () => {
+    const data: FolderData = {
+      folders: [
+        createFolder('Work'),
+        createFolder('Archive', { pinned: true, color: 'red' }),
+        createFolder('Drafts', { parentId: 'Work' }),
+      ],
+      folderContents: {
+        Work: [
+          createConversation('older', { addedAt: 1 }),
+          createConversation('newer', { addedAt: 2 }),
+        ],
+        Drafts: [createConversation('draft')],
+        [ROOT]: [createConversation('loose')],
+      },
+    };
+
+    const tree = buildSidePanelFolderTree(data, ROOT, 'newer');
+
+    expect(tree.folders.map((f) => f.name)).toEqual(['Archive', 'Work']);
+    expect(tree.folders[0]).toMatchObject({ pinned: true, color: 'red', conversations: [] });
+    const work = tree.folders[1];
+    expect(work.conversations.map((c) => c.conversationId)).toEqual(['newer', 'older']);
+    expect(work.folders.map((f) => f.name)).toEqual(['Drafts']);
+    expect(work.folders[0].conversations[0]).toEqual({
+      conversationId: 'draft',
+      title: 'draft',
+      url: 'https://gemini.google.com/app/draft',
+    });
+    expect(tree.conversations.map((c) => c.conversationId)).toEqual(['loose']);
+    expect(tree.currentConversationId).toBe('newer');
+  });
+
+  it('returns an empty tree for empty folder data', () => {
+    expect(buildSidePanelFolderTree({ folders: [], folderContents: {} }, ROOT, null)).toEqual({
+      folders: [],
+      conversations: [],
+      currentConversationId: null,
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  type SmartFolderContext,
+  collectSmartFolderConversations,
+  createSmartFolderMatcher,
+  getForkedConversationIds,
+  normalizeSmartFolder,
+  normalizeSmartFolderRule,
+  normalizeSmartFolders,
+  parseTitlePatternInput,
+} from '../smartFolders';
+import type { ConversationReference, FolderData, SmartFolder, SmartFolderRule } from '../types';
+
+const ROOT = '__root_conversations__';
+const NOW = Date.UTC(2025, 0, 31);
+const DAY = 24 * 60 * 60 * 1000;
+
+function createConversation(
+  conversationId: string,
+  title: string,
+  options: Partial<ConversationReference> = {},
+): ConversationReference {
+  return {
+    conversationId,
+    title,
+    url: `https://gemini.google.com/app/${conversationId}`,
+    addedAt: 0,
+    ...options,
+  };
+}
+
+function createSmartFolder(
+  rules: SmartFolderRule[],
+  match: SmartFolder['match'] = 'all',
+): SmartFolder {
+  return { id: 's1', name: 'Smart', rules, match, isExpanded: true, createdAt: 0, updatedAt: 0 };
+}
+
+function createContext(forked: string[] = []): SmartFolderContext {
+  return { now: NOW, forkedConversationIds: new Set(forked) };
+}
+
+describe('parseTitlePatternInput', () => {
+  it('reads /pattern/flags literals', () => {
+    expect(parseTitlePatternInput(' /^bug\\s/im ')).toEqual({ pattern: '^bug\\s', flags: 'im' });
+  });
+
+  it('treats other input as a case-insensitive pattern', () => {
+    expect(parseTitlePatternInput('report')).toEqual({ pattern: 'report', flags: 'i' });
+  });
+});
+
+describe('normalizeSmartFolderRule', () => {
+  it('rejects invalid regular expressions and unknown types', () => {
+    expect(normalizeSmartFolderRule({ type: 'title', pattern: '(' })).toBeNull();
+    expect(normalizeSmartFolderRule({ type: 'title', pattern: '' })).toBeNull();
+    expect(normalizeSmartFolderRule({ type: 'colour' })).toBeNull();
+    expect(normalizeSmartFolderRule(null)).toBeNull();
+  });
+
+  it('bounds the recently opened window', () => {
+    expect(normalizeSmartFolderRule({ type: 'recentlyOpened', days: 2.6 })).toEqual({
+      type: 'recentlyOpened',
+      days: 3,
+    });
+    expect(normalizeSmartFolderRule({ type: 'recentlyOpened', days: 0 })).toBeNull();
+    expect(normalizeSmartFolderRule({ type: 'recentlyOpened', days: 1e9 })).toEqual({
+      type: 'recentlyOpened',
+      days: 3650,
+    });
+  });
+
+  it('drops an empty Gem id', () => {
+    expect(normalizeSmartFolderRule({ type: 'gem', gemId: '  ' })).toEqual({ type: 'gem' });
+  });
+});
+
+describe('normalizeSmartFolder', () => {
+  it('requires a name and at least one usable rule', () => {
+    expect(normalizeSmartFolder({ id: 'a', name: '', rules: [{ type: 'starred' }] })).toBeNull();
+    expect(normalizeSmartFolder({ id: 'a', name: 'A', rules: [{ type: 'nope' }] })).toBeNull();
+  });
+
+  it('fills defaults and keeps valid rules only', () => {
+    const folder = normalizeSmartFolder({
+      id: 'a',
+      name: ' Starred ',
+      rules: [{ type: 'starred' }, { type: 'title', pattern: '[' }],
+      createdAt: 5,
+    });
+    expect(folder).toEqual({
+      id: 'a',
+      name: 'Starred',
+      rules: [{ type: 'starred' }],
+      match: 'all',
+      isExpanded: false,
+      createdAt: 5,
+      updatedAt: 5,
+    });
+  });
+
+  it('drops duplicate ids from lists', () => {
+    const entry = { id: 'a', name: 'A', rules: [{ type: 'starred' }] };
+    expect(normalizeSmartFolders([entry, { ...entry, name: 'B' }, 'x'])).toHaveLength(1);
+    expect(normalizeSmartFolders(undefined)).toEqual([]);
+  });
+});
+
+describe('getForkedConversationIds', () => {
+  it('collects normalized ids of conversations with fork nodes', () => {
+    const ids = getForkedConversationIds({
+      nodes: { c_abc: [{} as never], def: [], ghi: [{} as never] },
+      groups: {},
+    });
+    expect(Array.from(ids).sort()).toEqual(['abc', 'ghi']);
+  });
+});
+
+describe('createSmartFolderMatcher', () => {
+  const starredReport = createConversation('c_1', 'Weekly Report', { starred: true });
+  const gemChat = createConversation('c_2', 'Code review', { isGem: true, gemId: 'coding' });
+  const recent = createConversation('c_3', 'Trip', { lastOpenedAt: NOW - 2 * DAY });
+
+  it('matches title patterns', () => {
+    const matcher = createSmartFolderMatcher(
+      createSmartFolder([{ type: 'title', pattern: 'report', flags: 'i' }]),
+      createContext(),
+    );
+    expect(matcher(starredReport)).toBe(true);
+    expect(matcher(gemChat)).toBe(false);
+  });
+
+  it('ignores stateful regex flags', () => {
+    const matcher = createSmartFolderMatcher(
+      createSmartFolder([{ type: 'title', pattern: 'report', flags: 'gi' }]),
+      createContext(),
+    );
+    expect(matcher(starredReport)).toBe(true);
+    expect(matcher(starredReport)).toBe(true);
+  });
+
+  it('matches any Gem or a specific Gem', () => {
+    const context = createContext();
+    expect(createSmartFolderMatcher(createSmartFolder([{ type: 'gem' }]), context)(gemChat)).toBe(
+      true,
+    );
+    expect(
+      createSmartFolderMatcher(
+        createSmartFolder([{ type: 'gem', gemId: 'writer' }]),
+        context,
+      )(gemChat),
+    ).toBe(false);
+  });
+
+  it('matches recently opened conversations', () => {
+    const matcher = createSmartFolderMatcher(
+      createSmartFolder([{ type: 'recentlyOpened', days: 3 }]),
+      createContext(),
+    );
+    expect(matcher(recent)).toBe(true);
+    expect(matcher(starredReport)).toBe(false);
+  });
+
+  it('matches conversations with forks', () => {
+    const matcher = createSmartFolderMatcher(
+      createSmartFolder([{ type: 'hasForks' }]),
+      createContext(['3']),
+    );
+    expect(matcher(recent)).toBe(true);
+    expect(matcher(gemChat)).toBe(false);
+  });
+
+  it('combines rules with all or any', () => {
+    const rules: SmartFolderRule[] = [{ type: 'starred' }, { type: 'gem' }];
+    const all = createSmartFolderMatcher(createSmartFolder(rules, 'all'), createContext());
+    const any = createSmartFolderMatcher(createSmartFolder(rules, 'any'), createContext());
+    expect(all(starredReport)).toBe(false);
+    expect(any(starredReport)).toBe(true);
+    expect(any(gemChat)).toBe(true);
+    expect(any(recent)).toBe(false);
+  });
+
+  it('never matches without rules', () => {
+    expect(createSmartFolderMatcher(createSmartFolder([]), createContext())(starredReport)).toBe(
+      false,
+    );
+  });
+});
+
+describe('collectSmartFolderConversations', () => {
+  it('collects matches from root and folders once, in folder sort order', () => {
+    const data: FolderData = {
+      folders: [
+        { id: 'work', name: 'Work', parentId: null, isExpanded: false, createdAt: 0, updatedAt: 0 },
+      ],
+      folderContents: {
+        [ROOT]: [createConversation('c_a', 'Old', { starred: true, lastOpenedAt: 1 })],
+        work: [
+          createConversation('c_b', 'Newer', { starred: true, lastOpenedAt: 5 }),
+          createConversation('a', 'Old copy', { starred: true }),
+          createConversation('c_c', 'Not starred'),
+        ],
+      },
+    };
+
+    const result = collectSmartFolderConversations(
+      createSmartFolder([{ type: 'starred' }]),
+      data,
+      createContext(),
+      ROOT,
+    );
+
+    expect(result.map((m) => [m.folderId, m.conversation.conversationId])).toEqual([
+      ['work', 'c_b'],
+      [ROOT, 'c_a'],
+    ]);
+  });
+});
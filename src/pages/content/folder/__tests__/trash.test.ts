@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  TRASH_RETENTION_DAYS,
+  deleteTrashEntry,
+  emptyTrash,
+  getTrashDaysLeft,
+  moveConversationsToTrash,
+  moveFolderToTrash,
+  normalizeTrash,
+  purgeExpiredTrash,
+  restoreTrashEntry,
+} from '../trash';
+import type { ConversationReference, Folder, FolderData } from '../types';
+
+const ROOT = '__root_conversations__';
+const NOW = Date.UTC(2025, 0, 31);
+const DAY = 24 * 60 * 60 * 1000;
+
+function createFolder(id: string, parentId: string | null = null): Folder {
+  return { id, name: id, parentId, isExpanded: false, createdAt: 0, updatedAt: 0 };
+}
+
+function createConversation(conversationId: string): ConversationReference {
+  return {
+    conversationId,
+    title: conversationId,
+    url: `https://gemini.google.com/app/${conversationId}`,
+    addedAt: 0,
+  };
+}
+
+function createData(): FolderData {
+  return {
+    folders: [createFolder('work'), createFolder('reports', 'work'), createFolder('home')],
+    folderContents: {
+      [ROOT]: [createConversation('c_root')],
+      work: [createConversation('c_1'), createConversation('c_2')],
+      reports: [createConversation('c_3')],
+      home: [],
+    },
+  };
+}
+
+describe('moveFolderToTrash', () => {
+  it('moves the folder subtree and its contents into one entry', () => {
+    const data = createData();
+    const entry = moveFolderToTrash(data, ['work', 'reports'], NOW);
+
+    expect(data.folders.map((f) => f.id)).toEqual(['home']);
+    expect(data.folderContents).not.toHaveProperty('work');
+    expect(data.folderContents).not.toHaveProperty('reports');
+    expect(entry?.folders.map((f) => f.id)).toEqual(['work', 'reports']);
+    expect(Object.keys(entry!.folderContents)).toEqual(['work', 'reports']);
+    expect(data.trash).toEqual([entry]);
+  });
+
+  it('returns null for an unknown folder', () => {
+    const data = createData();
+    expect(moveFolderToTrash(data, ['missing'], NOW)).toBeNull();
+    expect(data.trash).toBeUndefined();
+  });
+});
+
+describe('moveConversationsToTrash', () => {
+  it('creates one entry per removed conversation', () => {
+    const data = createData();
+    const entries = moveConversationsToTrash(data, 'work', () => true, NOW);
+
+    expect(entries.map((e) => e.conversation.conversationId)).toEqual(['c_1', 'c_2']);
+    expect(entries.every((e) => e.folderId === 'work')).toBe(true);
+    expect(data.folderContents.work).toEqual([]);
+    expect(data.trash).toHaveLength(2);
+  });
+
+  it('leaves the trash untouched when nothing matches', () => {
+    const data = createData();
+    expect(moveConversationsToTrash(data, 'work', () => false, NOW)).toEqual([]);
+    expect(data.trash).toBeUndefined();
+  });
+});
+
+describe('restoreTrashEntry', () => {
+  it('restores a folder under its original parent', () => {
+    const data = createData();
+    const entry = moveFolderToTrash(data, ['reports'], NOW)!;
+
+    const result = restoreTrashEntry(data, entry.id, ROOT, NOW + 1);
+
+    expect(result?.parentId).toBe('work');
+    expect(data.folders.find((f) => f.id === 'reports')).toMatchObject({
+      parentId: 'work',
+      updatedAt: NOW + 1,
+    });
+    expect(data.folderContents.reports.map((c) => c.conversationId)).toEqual(['c_3']);
+    expect(data.trash).toEqual([]);
+  });
+
+  it('restores a folder to the top level when its parent is gone', () => {
+    const data = createData();
+    const child = moveFolderToTrash(data, ['reports'], NOW)!;
+    moveFolderToTrash(data, ['work'], NOW);
+
+    expect(restoreTrashEntry(data, child.id, ROOT, NOW)?.parentId).toBeNull();
+    expect(data.folders.find((f) => f.id === 'reports')?.parentId).toBeNull();
+  });
+
+  it('restores a conversation to its folder, or to the root when the folder is gone', () => {
+    const data = createData();
+    const [fromWork] = moveConversationsToTrash(data, 'work', (c) => c.conversationId === 'c_1');
+    const [fromReports] = moveConversationsToTrash(data, 'reports', () => true);
+    moveFolderToTrash(data, ['reports'], NOW);
+
+    expect(restoreTrashEntry(data, fromWork.id, ROOT)?.parentId).toBe('work');
+    expect(restoreTrashEntry(data, fromReports.id, ROOT)?.parentId).toBe(ROOT);
+    expect(data.folderContents.work.map((c) => c.conversationId)).toEqual(['c_2', 'c_1']);
+    expect(data.folderContents[ROOT].map((c) => c.conversationId)).toEqual(['c_root', 'c_3']);
+  });
+
+  it('does not duplicate conversations that are already back', () => {
+    const data = createData();
+    const [entry] = moveConversationsToTrash(data, 'work', (c) => c.conversationId === 'c_1');
+    data.folderContents.work.push(createConversation('1'));
+
+    restoreTrashEntry(data, entry.id, ROOT);
+    expect(data.folderContents.work).toHaveLength(2);
+  });
+
+  it('returns null for an unknown entry', () => {
+    expect(restoreTrashEntry(createData(), 'missing', ROOT)).toBeNull();
+  });
+});
+
+describe('deleteTrashEntry and purgeExpiredTrash', () => {
+  it('deletes single entries and expires old ones', () => {
+    const data = createData();
+    const old = moveFolderToTrash(data, ['home'], NOW - TRASH_RETENTION_DAYS * DAY)!;
+    const [recent, other] = moveConversationsToTrash(data, 'work', () => true, NOW - DAY);
+
+    expect(deleteTrashEntry(data, other.id)).toBe(true);
+    expect(deleteTrashEntry(data, other.id)).toBe(false);
+    expect(purgeExpiredTrash(data, NOW)).toBe(1);
+    expect(data.trash?.map((e) => e.id)).toEqual([recent.id]);
+    expect(data.trash?.some((e) => e.id === old.id)).toBe(false);
+  });
+});
+
+describe('purge records', () => {
+  it('records restored, deleted and emptied entries until they could have expired', () => {
+    const data = createData();
+    const [first, second, third] = [
+      ...moveConversationsToTrash(data, 'work', () => true, NOW),
+      moveFolderToTrash(data, ['home'], NOW)!,
+    ];
+
+    restoreTrashEntry(data, first.id, ROOT, NOW);
+    deleteTrashEntry(data, second.id, NOW + DAY);
+    emptyTrash(data, NOW + 2 * DAY);
+    expect(data.trash).toEqual([]);
+    expect(data.purgedTrash).toEqual({
+      [first.id]: NOW,
+      [second.id]: NOW + DAY,
+      [third.id]: NOW + 2 * DAY,
+    });
+
+    purgeExpiredTrash(data, NOW + (TRASH_RETENTION_DAYS + 1) * DAY);
+    expect(data.purgedTrash).toEqual({ [third.id]: NOW + 2 * DAY });
+  });
+});
+
+describe('getTrashDaysLeft', () => {
+  it('counts whole days until the entry expires', () => {
+    const data = createData();
+    const entry = moveFolderToTrash(data, ['home'], NOW)!;
+    expect(getTrashDaysLeft(entry, NOW)).toBe(TRASH_RETENTION_DAYS);
+    expect(getTrashDaysLeft(entry, NOW + 10.5 * DAY)).toBe(TRASH_RETENTION_DAYS - 11);
+    expect(getTrashDaysLeft(entry, NOW + 100 * DAY)).toBe(0);
+  });
+});
+
+describe('normalizeTrash', () => {
+  it('drops malformed entries and duplicate ids', () => {
+    const conversation = createConversation('c_1');
+    const trash = normalizeTrash([
+      { id: 'a', type: 'conversation', deletedAt: 1, folderId: 'work', conversation },
+      { id: 'a', type: 'conversation', deletedAt: 2, folderId: 'work', conversation },
+      { id: 'b', type: 'conversation', deletedAt: 1, folderId: 'work', conversation: {} },
+      { id: 'c', type: 'folder', deletedAt: 1, folders: [], folderContents: {} },
+      {
+        id: 'd',
+        type: 'folder',
+        deletedAt: 1,
+        folders: [createFolder('work'), 'junk'],
+        folderContents: { work: [conversation, null] },
+      },
+      'junk',
+    ]);
+
+    expect(trash.map((e) => e.id)).toEqual(['a', 'd']);
+    expect(trash[1]).toMatchObject({ folders: [{ id: 'work' }], folderContents: { work: [{}] } });
+    expect(normalizeTrash(undefined)).toEqual([]);
+  });
+});
@@ -3,9 +3,10 @@ import browser from 'webextension-polyfill';
 import { DataBackupService } from '@/core/services/DataBackupService';
 import { getStorageMonitor } from '@/core/services/StorageMonitor';
 import { StorageKeys } from '@/core/types/common';
-import type { PromptItem } from '@/core/types/sync';
+import type { PromptCollection, PromptItem } from '@/core/types/sync';
 import { isSafari } from '@/core/utils/browser';
 import { createTranslator, initI18n } from '@/utils/i18n';
+import { mergePromptCollections, mergePrompts } from '@/utils/merge';
 
 import type { ConversationReference, DragData, Folder, FolderData } from './types';
 
@@ -2338,7 +2339,7 @@ export class AIStudioFolderManager {
             error?: string;
             data?: {
               folders?: { data?: FolderData };
-              prompts?: { items?: PromptItem[] };
+              prompts?: { items?: PromptItem[]; collections?: PromptCollection[] };
             };
           }
         | undefined;
@@ -2364,13 +2365,20 @@ export class AIStudioFolderManager {
         `[AIStudioFolderManager] Downloaded - folders: ${cloudFolderData.folders?.length || 0}, prompts: ${cloudPromptItems.length}`,
       );
 
-      // Get local prompts for merge (shared with Gemini)
+      // Get local prompts and prompt collections for merge (shared with Gemini)
       let localPrompts: PromptItem[] = [];
+      let localCollections: PromptCollection[] = [];
       try {
-        const storageResult = await chrome.storage.local.get(['gvPromptItems']);
+        const storageResult = await chrome.storage.local.get([
+          'gvPromptItems',
+          StorageKeys.PROMPT_COLLECTIONS,
+        ]);
         if (storageResult.gvPromptItems) {
           localPrompts = storageResult.gvPromptItems as PromptItem[];
         }
+        if (Array.isArray(storageResult[StorageKeys.PROMPT_COLLECTIONS])) {
+          localCollections = storageResult[StorageKeys.PROMPT_COLLECTIONS] as PromptCollection[];
+        }
       } catch (err) {
         console.warn('[AIStudioFolderManager] Could not get local prompts for merge:', err);
       }
@@ -2379,8 +2387,15 @@ export class AIStudioFolderManager {
       const localFolders = this.data;
       const mergedFolders = this.mergeFolderData(localFolders, cloudFolderData);
 
-      // Merge prompts (simple ID-based merge)
-      const mergedPrompts = this.mergePromptsData(localPrompts, cloudPromptItems);
+      // Merge prompts (newer copy wins, revision histories combined)
+      const mergedPrompts = mergePrompts(
+        localPrompts.filter((p) => p?.id),
+        cloudPromptItems.filter((p) => p?.id),
+      );
+      const mergedCollections = mergePromptCollections(
+        localCollections,
+        cloudPromptsPayload?.collections || [],
+      );
 
       console.log(
         `[AIStudioFolderManager] Merged - folders: ${mergedFolders.folders?.length || 0}, prompts: ${mergedPrompts.length}`,
@@ -2394,6 +2409,7 @@ export class AIStudioFolderManager {
       try {
         await chrome.storage.local.set({
           gvPromptItems: mergedPrompts,
+          [StorageKeys.PROMPT_COLLECTIONS]: mergedCollections,
         });
       } catch (err) {
         console.error('[AIStudioFolderManager] Failed to save merged prompts:', err);
@@ -2408,36 +2424,6 @@ export class AIStudioFolderManager {
     }
   }
 
-  /**
-   * Merge prompts by ID (simple deduplication)
-   */
-  private mergePromptsData(local: PromptItem[], cloud: PromptItem[]): PromptItem[] {
-    const promptMap = new Map<string, PromptItem>();
-
-    // Add local prompts first
-    local.forEach((p) => {
-      if (p?.id) promptMap.set(p.id, p);
-    });
-
-    // Add cloud prompts (cloud takes priority for newer items)
-    cloud.forEach((p) => {
-      if (!p?.id) return;
-      const existing = promptMap.get(p.id);
-      if (!existing) {
-        promptMap.set(p.id, p);
-      } else {
-        // Compare timestamps, prefer newer
-        const cloudTime = p.updatedAt || p.createdAt || 0;
-        const localTime = existing.updatedAt || existing.createdAt || 0;
-        if (cloudTime > localTime) {
-          promptMap.set(p.id, p);
-        }
-      }
-    });
-
-    return Array.from(promptMap.values());
-  }
-
   /**
    * Get dynamic tooltip for cloud upload button showing last upload time
    */
@@ -0,0 +1,147 @@
+/**
+ * Conversation text index (IndexedDB)
+ *
+ * Caches the captured turns of opened conversations for full-text folder search.
+ * Lives in IndexedDB rather than chrome.storage so transcripts don't count against the
+ * extension storage quota watched by StorageMonitor. Content scripts share the page origin,
+ * so the database belongs to the Gemini origin and is bounded by MAX_INDEXED_CONVERSATIONS.
+ */
+
+export interface IndexedConversation {
+  /** Conversation key (see normalizeConversationKey) */
+  conversationId: string;
+  turns: string[];
+  updatedAt: number;
+}
+
+const DB_NAME = 'gemini-voyager-search';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+const UPDATED_AT_INDEX = 'updatedAt';
+
+/** Least recently captured conversations are evicted beyond this count */
+export const MAX_INDEXED_CONVERSATIONS = 1000;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export class ConversationIndexStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly factory: IDBFactory | undefined = globalThis.indexedDB,
+    private readonly maxEntries: number = MAX_INDEXED_CONVERSATIONS,
+  ) {}
+
+  /**
+   * Whether IndexedDB is available in this context
+   */
+  isAvailable(): boolean {
+    return !!this.factory;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+    const factory = this.factory;
+    if (!factory) return Promise.reject(new Error('IndexedDB is not available'));
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'conversationId' });
+          store.createIndex(UPDATED_AT_INDEX, 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. blocked in private mode)
+    this.dbPromise.catch(() => {
+      this.dbPromise = null;
+    });
+    return this.dbPromise;
+  }
+
+  async get(conversationId: string): Promise<IndexedConversation | null> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entry = await requestToPromise<IndexedConversation | undefined>(
+      store.get(conversationId),
+    );
+    return entry ?? null;
+  }
+
+  /**
+   * Fetch several entries in one transaction; missing ids are omitted from the result
+   */
+  async getMany(conversationIds: readonly string[]): Promise<Map<string, IndexedConversation>> {
+    const result = new Map<string, IndexedConversation>();
+    if (conversationIds.length === 0) return result;
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entries = await Promise.all(
+      conversationIds.map((id) => requestToPromise<IndexedConversation | undefined>(store.get(id))),
+    );
+    for (const entry of entries) {
+      if (entry) result.set(entry.conversationId, entry);
+    }
+    return result;
+  }
+
+  async put(entry: IndexedConversation): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).put(entry);
+    await transactionDone(tx);
+    await this.prune();
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(conversationId);
+    await transactionDone(tx);
+  }
+
+  /**
+   * Evict the least recently captured entries beyond the configured maximum
+   */
+  private async prune(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const count = await requestToPromise(store.count());
+    let excess = count - this.maxEntries;
+    if (excess > 0) {
+      const cursorRequest = store.index(UPDATED_AT_INDEX).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    }
+    await transactionDone(tx);
+  }
+
+  close(): void {
+    const pending = this.dbPromise;
+    this.dbPromise = null;
+    pending?.then((db) => db.close()).catch(() => {});
+  }
+}
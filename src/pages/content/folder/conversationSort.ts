@@ -1,4 +1,4 @@
-import type { ConversationReference } from './types';
+import type { ConversationReference, Folder } from './types';
 
 function getConversationSortTime(conversation: ConversationReference): number {
   return conversation.lastOpenedAt ?? conversation.addedAt ?? 0;
@@ -14,3 +14,20 @@ export function sortConversationsByPriority(
     return getConversationSortTime(b) - getConversationSortTime(a);
   });
 }
+
+/**
+ * Folders with pinned folders first, then by name using localized collation
+ */
+export function sortFoldersByPriority<T extends Pick<Folder, 'name' | 'pinned'>>(
+  folders: T[],
+): T[] {
+  return [...folders].sort((a, b) => {
+    if (a.pinned && !b.pinned) return -1;
+    if (!a.pinned && b.pinned) return 1;
+
+    return a.name.localeCompare(b.name, undefined, {
+      numeric: true,
+      sensitivity: 'base',
+    });
+  });
+}
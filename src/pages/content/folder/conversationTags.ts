@@ -0,0 +1,124 @@
+/**
+ * Conversation tags and notes
+ * Tags are defined once per FolderData (name + colour) and referenced by id from
+ * conversation entries; notes are free-form text stored on the entry itself.
+ * A conversation saved in several folders carries the same tags and note in every copy.
+ */
+import { FOLDER_COLORS } from './folderColors';
+import { normalizeConversationKey } from './folderSearch';
+import type { ConversationReference, ConversationTag, FolderData } from './types';
+
+export const MAX_TAG_NAME_LENGTH = 32;
+export const MAX_NOTE_LENGTH = 2000;
+
+/** Colour ids a tag can use (same palette as folders) */
+export const TAG_COLOR_IDS: readonly string[] = FOLDER_COLORS.map((c) => c.id);
+
+export interface ConversationAnnotations {
+  tagIds: string[];
+  note: string;
+}
+
+/**
+ * Trim, collapse whitespace and bound a tag name
+ */
+export function normalizeTagName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_NAME_LENGTH);
+}
+
+/**
+ * Find a tag by name, ignoring case
+ */
+export function findTagByName(
+  tags: readonly ConversationTag[],
+  name: string,
+): ConversationTag | undefined {
+  const wanted = normalizeTagName(name).toLowerCase();
+  return tags.find((tag) => tag.name.toLowerCase() === wanted);
+}
+
+/**
+ * Validate and normalize a tag list from untrusted input (imports, cloud data),
+ * dropping invalid entries and duplicate ids
+ */
+export function normalizeConversationTags(raw: unknown): ConversationTag[] {
+  if (!Array.isArray(raw)) return [];
+  const byId = new Map<string, ConversationTag>();
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const r = entry as Record<string, unknown>;
+    const id = typeof r.id === 'string' ? r.id.trim() : '';
+    const name = typeof r.name === 'string' ? normalizeTagName(r.name) : '';
+    if (!id || !name || byId.has(id)) continue;
+    const createdAt = typeof r.createdAt === 'number' ? r.createdAt : Date.now();
+    byId.set(id, {
+      id,
+      name,
+      color: typeof r.color === 'string' && TAG_COLOR_IDS.includes(r.color) ? r.color : 'default',
+      createdAt,
+      updatedAt: typeof r.updatedAt === 'number' ? r.updatedAt : createdAt,
+    });
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Tags of a conversation in definition order, skipping ids without a definition
+ */
+export function getConversationTags(
+  conversation: ConversationReference,
+  tags: readonly ConversationTag[],
+): ConversationTag[] {
+  if (!conversation.tagIds?.length) return [];
+  const ids = new Set(conversation.tagIds);
+  return tags.filter((tag) => ids.has(tag.id));
+}
+
+/**
+ * Set the tags and note of a conversation in every folder it is saved in.
+ * Empty values remove the field so untouched entries stay unchanged on disk.
+ * @returns Number of folder entries updated
+ */
+export function applyConversationAnnotations(
+  data: FolderData,
+  conversationId: string,
+  annotations: ConversationAnnotations,
+  now: number = Date.now(),
+): number {
+  const key = normalizeConversationKey(conversationId);
+  const tagIds = Array.from(new Set(annotations.tagIds));
+  const note = annotations.note.trim().slice(0, MAX_NOTE_LENGTH);
+  let updated = 0;
+
+  for (const conversations of Object.values(data.folderContents)) {
+    for (const conversation of conversations) {
+      if (normalizeConversationKey(conversation.conversationId) !== key) continue;
+      if (tagIds.length > 0) conversation.tagIds = tagIds;
+      else delete conversation.tagIds;
+      if (note) conversation.note = note;
+      else delete conversation.note;
+      conversation.updatedAt = now;
+      updated++;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Remove tag definitions no longer referenced by any conversation, including conversations
+ * in the trash (so restoring one brings its tags back)
+ */
+export function pruneUnusedTags(data: FolderData): void {
+  if (!data.tags?.length) return;
+  const used = new Set<string>();
+  const collect = (conversation: ConversationReference) =>
+    conversation.tagIds?.forEach((id) => used.add(id));
+  for (const conversations of Object.values(data.folderContents)) {
+    conversations.forEach(collect);
+  }
+  for (const entry of data.trash || []) {
+    if (entry.type === 'conversation') collect(entry.conversation);
+    else Object.values(entry.folderContents).forEach((list) => list.forEach(collect));
+  }
+  data.tags = data.tags.filter((tag) => used.has(tag.id));
+}
@@ -0,0 +1,84 @@
+/**
+ * Conversation text capture for the folder search index
+ * Reads the visible user/model turns of the open conversation and merges them with
+ * previously captured turns, since Gemini only renders part of long conversations.
+ */
+import { getAssistantTurnSelectors, getUserTurnSelectors } from '@/core/utils/selectors';
+
+/** Upper bound for the text stored per conversation */
+export const MAX_INDEXED_CHARS = 100_000;
+
+/** Primary Gemini turn elements, in document order */
+const TURN_ELEMENTS = 'user-query, model-response';
+
+function normalizeWhitespace(text: string | null): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Keep only elements that are not nested inside another matched element
+ */
+function topLevelOnly(elements: HTMLElement[]): HTMLElement[] {
+  return elements.filter((el) => !elements.some((other) => other !== el && other.contains(el)));
+}
+
+/**
+ * Extract the text of each conversation turn (user prompts and model responses) in order
+ */
+export function extractConversationTurns(root: ParentNode = document): string[] {
+  let elements = Array.from(root.querySelectorAll<HTMLElement>(TURN_ELEMENTS));
+  if (elements.length === 0) {
+    const selector = [...getUserTurnSelectors(), ...getAssistantTurnSelectors()].join(',');
+    elements = topLevelOnly(Array.from(root.querySelectorAll<HTMLElement>(selector)));
+  }
+  return elements
+    .filter((el) => !el.closest('deep-research-immersive-panel'))
+    .map((el) => normalizeWhitespace(el.textContent))
+    .filter(Boolean);
+}
+
+/**
+ * Merge freshly captured turns into the previously stored ones.
+ * When the capture starts part-way through the stored conversation (older turns not rendered),
+ * the earlier stored turns are kept; otherwise the new capture replaces the old one.
+ */
+export function mergeConversationTurns(
+  previous: readonly string[],
+  next: readonly string[],
+): string[] {
+  if (next.length === 0) return [...previous];
+  if (previous.length === 0) return [...next];
+  const overlap = previous.indexOf(next[0]);
+  // A capped record no longer holds the later turns a partial capture would overlap with;
+  // keep it unless the capture reaches back before it
+  if (overlap < 0 && isAtCap(previous) && !next.includes(previous[0])) return [...previous];
+  if (overlap <= 0) return [...next];
+  return [...previous.slice(0, overlap), ...next];
+}
+
+/**
+ * Leading turns that fit in MAX_INDEXED_CHARS, the last one cut to fit.
+ * Stored turns are bounded like the search text so long conversations don't grow the index.
+ */
+export function capConversationTurns(turns: readonly string[]): string[] {
+  const capped: string[] = [];
+  let remaining = MAX_INDEXED_CHARS;
+  for (const turn of turns) {
+    if (remaining <= 0) break;
+    capped.push(turn.length > remaining ? turn.slice(0, remaining) : turn);
+    remaining -= turn.length + 1; // joined with '\n'
+  }
+  return capped;
+}
+
+function isAtCap(turns: readonly string[]): boolean {
+  return turns.join('\n').length >= MAX_INDEXED_CHARS;
+}
+
+/**
+ * Join turns into the searchable text, bounded to MAX_INDEXED_CHARS
+ */
+export function turnsToIndexText(turns: readonly string[]): string {
+  const text = turns.join('\n');
+  return text.length > MAX_INDEXED_CHARS ? text.slice(0, MAX_INDEXED_CHARS) : text;
+}
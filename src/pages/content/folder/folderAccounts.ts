@@ -0,0 +1,126 @@
+/**
+ * Per-account folder trees
+ * Each Google account (`/u/<n>/`) has its own FolderData under its own storage key.
+ * This module keeps the registry of accounts seen on this browser and splits the
+ * legacy shared tree into per-account trees.
+ */
+import { DEFAULT_ACCOUNT_ID, getAccountIdFromUrl } from '@/core/utils/geminiAccount';
+
+import { pruneUnusedTags } from './conversationTags';
+import type { ConversationReference, FolderData } from './types';
+
+export interface FolderAccountInfo {
+  /** Email address shown in the account switcher, when it could be detected */
+  label?: string;
+  lastSeenAt: number;
+}
+
+export type FolderAccountRegistry = Record<string, FolderAccountInfo>;
+
+/**
+ * Validate a registry read from storage, dropping malformed entries
+ */
+export function normalizeAccountRegistry(raw: unknown): FolderAccountRegistry {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const registry: FolderAccountRegistry = {};
+  for (const [id, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!/^\d+$/.test(id) || !value || typeof value !== 'object') continue;
+    const v = value as Record<string, unknown>;
+    const info: FolderAccountInfo = {
+      lastSeenAt: typeof v.lastSeenAt === 'number' ? v.lastSeenAt : 0,
+    };
+    if (typeof v.label === 'string' && v.label) info.label = v.label;
+    registry[id] = info;
+  }
+  return registry;
+}
+
+/**
+ * Record that an account was used, keeping a previously detected label when none is given
+ * @returns A new registry
+ */
+export function registerAccount(
+  registry: FolderAccountRegistry,
+  accountId: string,
+  label: string | null,
+  now: number = Date.now(),
+): FolderAccountRegistry {
+  const previous = registry[accountId];
+  const info: FolderAccountInfo = { lastSeenAt: now };
+  const resolvedLabel = label || previous?.label;
+  if (resolvedLabel) info.label = resolvedLabel;
+  return { ...registry, [accountId]: info };
+}
+
+/**
+ * Account ids of a registry in index order
+ */
+export function getRegisteredAccountIds(registry: FolderAccountRegistry): string[] {
+  return Object.keys(registry).sort((a, b) => Number(a) - Number(b));
+}
+
+/**
+ * Split a shared folder tree by the account in each conversation URL.
+ * Conversations without an account in their URL belong to the default account, which
+ * keeps the full folder structure and the trash. Other accounts get copies of the folders (and their
+ * ancestors) that hold their conversations, every smart folder and the tags they use.
+ *
+ * @param rootFolderId Pseudo folder id holding conversations that live at the root
+ * @returns Folder data per account id; the default account is always present
+ */
+export function splitFolderDataByAccount(
+  data: FolderData,
+  rootFolderId: string,
+): Record<string, FolderData> {
+  const contentsByAccount = new Map<string, Record<string, ConversationReference[]>>();
+  const defaultContents: Record<string, ConversationReference[]> = {};
+  contentsByAccount.set(DEFAULT_ACCOUNT_ID, defaultContents);
+  Object.keys(data.folderContents).forEach((folderId) => (defaultContents[folderId] = []));
+
+  for (const [folderId, conversations] of Object.entries(data.folderContents)) {
+    for (const conversation of conversations) {
+      const accountId = getAccountIdFromUrl(conversation.url) ?? DEFAULT_ACCOUNT_ID;
+      let contents = contentsByAccount.get(accountId);
+      if (!contents) {
+        contents = {};
+        contentsByAccount.set(accountId, contents);
+      }
+      (contents[folderId] ||= []).push(conversation);
+    }
+  }
+
+  const parentOf = new Map(data.folders.map((f) => [f.id, f.parentId]));
+  const result: Record<string, FolderData> = {};
+
+  for (const [accountId, folderContents] of contentsByAccount) {
+    let folders = data.folders;
+    if (accountId !== DEFAULT_ACCOUNT_ID) {
+      const keep = new Set<string>();
+      for (const folderId of Object.keys(folderContents)) {
+        let current: string | null | undefined = folderId;
+        while (current && current !== rootFolderId && !keep.has(current)) {
+          keep.add(current);
+          current = parentOf.get(current);
+        }
+      }
+      folders = data.folders.filter((f) => keep.has(f.id));
+      folders.forEach((f) => (folderContents[f.id] ||= []));
+    }
+
+    const accountData: FolderData = {
+      folders: folders.map((f) => ({ ...f })),
+      folderContents,
+    };
+    if (data.smartFolders) {
+      accountData.smartFolders = data.smartFolders.map((f) => ({ ...f, rules: [...f.rules] }));
+    }
+    if (data.trash && accountId === DEFAULT_ACCOUNT_ID) accountData.trash = data.trash;
+    if (data.tags) {
+      accountData.tags = data.tags.map((t) => ({ ...t }));
+      pruneUnusedTags(accountData);
+    }
+    result[accountId] = accountData;
+  }
+
+  return result;
+}
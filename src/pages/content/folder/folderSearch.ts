@@ -0,0 +1,231 @@
+/**
+ * Folder search
+ * Matches folder names, conversation titles and cached conversation text (see conversationIndex.ts)
+ * and builds highlighted snippets for the search box in the folder header.
+ */
+import type { ConversationReference, Folder, FolderData } from './types';
+
+/** Maximum number of results rendered for one query */
+export const MAX_SEARCH_RESULTS = 50;
+
+/** Characters of context kept on each side of the first content match */
+const SNIPPET_RADIUS = 60;
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface FolderSearchFolderResult {
+  type: 'folder';
+  folder: Folder;
+  /** Names of the ancestor folders, root first */
+  path: string[];
+  name: HighlightSegment[];
+  score: number;
+}
+
+export interface FolderSearchConversationResult {
+  type: 'conversation';
+  folderId: string;
+  conversation: ConversationReference;
+  /** Names of the containing folder and its ancestors, root first (empty for root conversations) */
+  path: string[];
+  title: HighlightSegment[];
+  /** Content excerpt around the first match, or null when only the title/path matched */
+  snippet: HighlightSegment[] | null;
+  score: number;
+}
+
+export type FolderSearchResult = FolderSearchFolderResult | FolderSearchConversationResult;
+
+/**
+ * Key used for the content index: conversation ids are stored with or without the `c_` prefix
+ */
+export function normalizeConversationKey(conversationId: string): string {
+  return conversationId.replace(/^c_/, '');
+}
+
+/**
+ * Split a query into lowercase, de-duplicated terms
+ */
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+/**
+ * Split text into plain and highlighted segments for every (case-insensitive) term occurrence.
+ * Overlapping matches are merged into a single highlighted segment.
+ */
+export function highlightTerms(text: string, terms: readonly string[]): HighlightSegment[] {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    if (!term) continue;
+    let from = 0;
+    let idx: number;
+    while ((idx = lower.indexOf(term, from)) >= 0) {
+      ranges.push([idx, idx + term.length]);
+      from = idx + term.length;
+    }
+  }
+  if (ranges.length === 0) return text ? [{ text, highlight: false }] : [];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of merged) {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), highlight: false });
+    segments.push({ text: text.slice(start, end), highlight: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlight: false });
+  return segments;
+}
+
+/**
+ * Build a short excerpt around the earliest term match in `text`
+ * @returns Highlighted segments, or null when no term occurs in the text
+ */
+export function buildSnippet(
+  text: string,
+  terms: readonly string[],
+  radius: number = SNIPPET_RADIUS,
+): HighlightSegment[] | null {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  let first = -1;
+  let firstLength = 0;
+  for (const term of terms) {
+    const idx = lower.indexOf(term);
+    if (idx >= 0 && (first < 0 || idx < first)) {
+      first = idx;
+      firstLength = term.length;
+    }
+  }
+  if (first < 0) return null;
+
+  let start = Math.max(0, first - radius);
+  let end = Math.min(flat.length, first + firstLength + radius);
+  // Snap to word boundaries so the excerpt doesn't start or end mid-word
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    if (space >= 0 && space < first) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > first + firstLength) end = space;
+  }
+
+  const excerpt = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+  return highlightTerms(excerpt, terms);
+}
+
+function countMatches(haystack: string, terms: readonly string[]): number {
+  return terms.filter((term) => haystack.includes(term)).length;
+}
+
+/**
+ * Search folder names, conversation titles and indexed conversation content.
+ * Every query term must appear somewhere (name/title, folder path or content);
+ * title matches rank above path matches, which rank above content-only matches.
+ *
+ * @param contentIndex Cached conversation text keyed by normalizeConversationKey()
+ * @param rootFolderId Pseudo folder id holding conversations that live at the root
+ */
+export function searchFolderData(
+  data: FolderData,
+  query: string,
+  contentIndex: ReadonlyMap<string, string>,
+  rootFolderId: string,
+  limit: number = MAX_SEARCH_RESULTS,
+): FolderSearchResult[] {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return [];
+
+  const foldersById = new Map(data.folders.map((folder) => [folder.id, folder]));
+  const pathCache = new Map<string, string[]>();
+  const getPath = (folderId: string | null): string[] => {
+    if (!folderId || !foldersById.has(folderId)) return [];
+    const cached = pathCache.get(folderId);
+    if (cached) return cached;
+    const path: string[] = [];
+    const visited = new Set<string>();
+    let current = foldersById.get(folderId);
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id);
+      path.unshift(current.name);
+      current = current.parentId ? foldersById.get(current.parentId) : undefined;
+    }
+    pathCache.set(folderId, path);
+    return path;
+  };
+
+  const results: FolderSearchResult[] = [];
+
+  for (const folder of data.folders) {
+    const name = folder.name.toLowerCase();
+    if (countMatches(name, terms) !== terms.length) continue;
+    results.push({
+      type: 'folder',
+      folder,
+      path: getPath(folder.parentId),
+      name: highlightTerms(folder.name, terms),
+      score: 300 + (name === terms.join(' ') ? 50 : 0),
+    });
+  }
+
+  const seen = new Set<string>();
+  const folderIds = [rootFolderId, ...data.folders.map((folder) => folder.id)];
+  for (const folderId of folderIds) {
+    const conversations = data.folderContents[folderId] || [];
+    const path = folderId === rootFolderId ? [] : getPath(folderId);
+    const pathText = path.join(' ').toLowerCase();
+    for (const conversation of conversations) {
+      const key = normalizeConversationKey(conversation.conversationId);
+      if (seen.has(key)) continue;
+
+      const title = (conversation.title || '').toLowerCase();
+      const content = contentIndex.get(key) || '';
+      const contentLower = content.toLowerCase();
+      const matchesEveryTerm = terms.every(
+        (term) => title.includes(term) || pathText.includes(term) || contentLower.includes(term),
+      );
+      if (!matchesEveryTerm) continue;
+      seen.add(key);
+
+      const titleHits = countMatches(title, terms);
+      const pathHits = countMatches(pathText, terms);
+      const contentTerms = terms.filter((term) => contentLower.includes(term));
+      results.push({
+        type: 'conversation',
+        folderId,
+        conversation,
+        path,
+        title: highlightTerms(conversation.title || '', terms),
+        snippet:
+          titleHits === terms.length || contentTerms.length === 0
+            ? null
+            : buildSnippet(content, contentTerms),
+        score:
+          titleHits * 100 +
+          pathHits * 20 +
+          contentTerms.length * 10 +
+          (conversation.starred ? 5 : 0),
+      });
+    }
+  }
+
+  return results
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => b.result.score - a.result.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ result }) => result);
+}
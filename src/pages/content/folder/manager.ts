@@ -1,33 +1,129 @@
 import browser from 'webextension-polyfill';
 
 import { DataBackupService } from '@/core/services/DataBackupService';
+import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
 import { getStorageMonitor } from '@/core/services/StorageMonitor';
 import { StorageKeys } from '@/core/types/common';
-import type { PromptItem } from '@/core/types/sync';
+import type { SidePanelFolderTree } from '@/core/types/sidePanel';
+import type { PromptCollection, PromptItem } from '@/core/types/sync';
 import { isSafari } from '@/core/utils/browser';
 import { isExtensionContextInvalidatedError } from '@/core/utils/extensionContext';
+import {
+  DEFAULT_ACCOUNT_ID,
+  detectAccountLabel,
+  detectPageAccountId,
+  getAccountIdFromUrl,
+  getFolderStorageKey,
+  setViewedAccountId,
+} from '@/core/utils/geminiAccount';
 import { FolderImportExportService } from '@/features/folder/services/FolderImportExportService';
 import type { ImportStrategy } from '@/features/folder/types/import-export';
 import { getTranslationSync, getTranslationSyncUnsafe, initI18n } from '@/utils/i18n';
+import {
+  mergePromptCollections,
+  mergePrompts,
+  mergePurgedTrash,
+  mergeStarredMessages,
+  mergeTimelineOutline,
+} from '@/utils/merge';
 
-import { sortConversationsByPriority } from './conversationSort';
+import {
+  FOLDER_EXPORT_EVENT,
+  type FolderExportFormat,
+  type FolderExportRequest,
+  collectFolderExportItems,
+} from '../export/folderExportJob';
+import type { ForkNodesData } from '../fork/forkTypes';
+import { normalizeTimelineOutline } from '../timeline/outline';
+import type { TimelineOutlineData } from '../timeline/outlineTypes';
+import type { StarredMessagesData } from '../timeline/starredTypes';
+import { ConversationIndexStore } from './conversationIndex';
+import { sortConversationsByPriority, sortFoldersByPriority } from './conversationSort';
+import {
+  MAX_NOTE_LENGTH,
+  MAX_TAG_NAME_LENGTH,
+  applyConversationAnnotations,
+  findTagByName,
+  getConversationTags,
+  normalizeTagName,
+  pruneUnusedTags,
+} from './conversationTags';
+import {
+  capConversationTurns,
+  extractConversationTurns,
+  mergeConversationTurns,
+  turnsToIndexText,
+} from './conversationText';
+import {
+  type FolderAccountRegistry,
+  getRegisteredAccountIds,
+  normalizeAccountRegistry,
+  registerAccount,
+  splitFolderDataByAccount,
+} from './folderAccounts';
 import { FOLDER_COLORS, getFolderColor, isDarkMode } from './folderColors';
+import {
+  type FolderSearchResult,
+  type HighlightSegment,
+  normalizeConversationKey,
+  searchFolderData,
+} from './folderSearch';
 import { DEFAULT_CONVERSATION_ICON, GEM_CONFIG, getGemIcon } from './gemConfig';
 import { createMoveToFolderMenuItem } from './moveToFolderMenuItem';
+import { buildSidePanelFolderTree } from './sidePanelTree';
+import {
+  SMART_FOLDER_RULE_TYPES,
+  type SmartFolderContext,
+  collectSmartFolderConversations,
+  createDefaultSmartFolderRule,
+  formatTitlePatternInput,
+  getForkedConversationIds,
+  normalizeSmartFolderRule,
+  parseTitlePatternInput,
+} from './smartFolders';
 import {
   type IFolderStorageAdapter,
   createFolderStorageAdapter,
 } from './storage/FolderStorageAdapter';
-import type { ConversationReference, DragData, Folder, FolderData } from './types';
+import {
+  TRASH_RETENTION_DAYS,
+  deleteTrashEntry,
+  emptyTrash,
+  getTrashDaysLeft,
+  moveConversationsToTrash,
+  moveFolderToTrash,
+  purgeExpiredTrash,
+  restoreTrashEntry,
+} from './trash';
+import type {
+  ConversationReference,
+  ConversationTag,
+  DragData,
+  Folder,
+  FolderData,
+  SmartFolder,
+  SmartFolderRule,
+  SmartFolderRuleType,
+  TrashEntry,
+} from './types';
 
-const STORAGE_KEY = 'gvFolderData';
 const IS_DEBUG = false; // Set to true to enable debug logging
 const ROOT_CONVERSATIONS_ID = '__root_conversations__'; // Special ID for root-level conversations
 const NOTIFICATION_TIMEOUT_MS = 10000; // Duration to show data loss notification
+const MAX_VISIBLE_TAGS = 2; // Tag chips shown per conversation before collapsing into "+N"
 const FOLDER_TREE_INDENT_MIN = -8;
 const FOLDER_TREE_INDENT_MAX = 32;
 const FOLDER_TREE_INDENT_DEFAULT = -8;
 const FOLDER_NAME_SINGLE_CLICK_DELAY_MS = 220;
+const SEARCH_INPUT_DEBOUNCE_MS = 150;
+const INDEX_CAPTURE_DELAY_MS = 3000; // Wait for the conversation to settle before indexing
+const SMART_FOLDER_RULE_LABEL_KEYS: Record<SmartFolderRuleType, string> = {
+  title: 'folder_smart_rule_title',
+  gem: 'folder_smart_rule_gem',
+  starred: 'folder_smart_rule_starred',
+  recentlyOpened: 'folder_smart_rule_recent',
+  hasForks: 'folder_smart_rule_forks',
+};
 
 // Export session backup keys for use by FolderImportExportService (deprecated, kept for compatibility)
 export const SESSION_BACKUP_KEY = 'gvFolderBackup';
@@ -94,6 +190,7 @@ export class FolderManager {
   private importInProgress: boolean = false; // Lock to prevent concurrent imports
   private exportInProgress: boolean = false; // Lock to prevent concurrent exports
   private selectedConversations: Set<string> = new Set(); // For multi-select support
+  private dataChangeListeners: Set<() => void> = new Set(); // Side panel subscriptions
   private isMultiSelectMode: boolean = false; // Multi-select mode state
   private multiSelectSource: 'folder' | 'native' | null = null; // Track where multi-select was initiated
   private multiSelectFolderId: string | null = null; // Track which folder multi-select was initiated from
@@ -116,6 +213,25 @@ export class FolderManager {
   private activeColorPickerFolderId: string | null = null; // Folder ID of currently open color picker
   private activeColorPickerCloseHandler: ((e: MouseEvent) => void) | null = null; // Event handler for closing color picker
 
+  // Full-text search
+  private conversationIndex = new ConversationIndexStore(); // Captured conversation text (IndexedDB)
+  private searchQuery: string = ''; // Current folder search query (empty = show folder tree)
+  private searchContent: Map<string, string> = new Map(); // Indexed text of foldered conversations
+  private searchBar: HTMLElement | null = null;
+  private searchInputTimer: number | null = null;
+  private searchShortcutCleanup: (() => void) | null = null;
+  private indexCaptureTimer: number | null = null;
+  private indexObserver: MutationObserver | null = null;
+
+  // Smart folders
+  private forkedConversationIds: Set<string> = new Set(); // Conversation keys with fork branches
+
+  // Conversation tags
+  private activeTagFilter: string | null = null; // Tag id the tree is filtered by (session only)
+  private accountId: string = DEFAULT_ACCOUNT_ID; // Google account of this page (/u/<n>/)
+  private viewAccountId: string = DEFAULT_ACCOUNT_ID; // Account whose folder tree is shown
+  private accounts: FolderAccountRegistry = {}; // Accounts seen on this browser
+
   // Cleanup references
   private routeChangeCleanup: (() => void) | null = null;
   private sidebarClickListener: ((e: Event) => void) | null = null;
@@ -145,8 +261,12 @@ export class FolderManager {
     this.storage = createFolderStorageAdapter();
     this.debug(`Using storage backend: ${this.storage.getBackendName()}`);
 
+    // Each Google account has its own folder tree
+    this.accountId = detectPageAccountId();
+    this.viewAccountId = this.accountId;
+
     // Initialize backup service with localStorage
-    this.backupService = new DataBackupService<FolderData>('gemini-folders', validateFolderData);
+    this.backupService = this.createBackupService(this.viewAccountId);
 
     // Note: Data loading moved to init() for async support
     // This allows Safari to use async browser.storage API
@@ -161,7 +281,14 @@ export class FolderManager {
   async init(): Promise<void> {
     try {
       // Initialize storage adapter (handles migration for Safari automatically)
-      await this.storage.init(STORAGE_KEY);
+      await this.storage.init(getFolderStorageKey(DEFAULT_ACCOUNT_ID));
+
+      // Split the legacy shared tree into per-account trees (once)
+      await this.migrateFolderDataToAccounts();
+      if (this.viewAccountId !== DEFAULT_ACCOUNT_ID) {
+        await this.storage.init(this.storageKey);
+      }
+      await this.registerCurrentAccount();
 
       // Setup automatic backup before page unload
       this.backupService.setupBeforeUnloadBackup(() => this.data);
@@ -182,6 +309,11 @@ export class FolderManager {
       // Load folder data (async, works for both Safari and non-Safari)
       await this.loadData();
 
+      // Drop trash entries past the retention period
+      if (purgeExpiredTrash(this.data) > 0) {
+        await this.saveData();
+      }
+
       // Load folder enabled setting
       await this.loadFolderEnabledSetting();
 
@@ -192,6 +324,9 @@ export class FolderManager {
       await this.loadFilterUserSetting();
       await this.loadFolderTreeIndentSetting();
 
+      // Load fork branches for the "has forks" smart folder rule
+      await this.loadForkedConversations();
+
       // Set up storage change listener (always needed to respond to setting changes)
       this.setupStorageListener();
 
@@ -207,6 +342,10 @@ export class FolderManager {
       // Initialize folder UI
       await this.initializeFolderUI();
 
+      this.searchShortcutCleanup = keyboardShortcutService.register('folder:focusSearch', () =>
+        this.openSearchBar(),
+      );
+
       this.debug('Initialized successfully');
     } catch (error) {
       if (isExtensionContextInvalidatedError(error)) {
@@ -216,6 +355,47 @@ export class FolderManager {
     }
   }
 
+  /**
+   * Folder tree mirrored by the browser side panel
+   */
+  getSidePanelFolderTree(): SidePanelFolderTree {
+    return buildSidePanelFolderTree(
+      this.data,
+      ROOT_CONVERSATIONS_ID,
+      this.getCurrentConversationId(),
+    );
+  }
+
+  /**
+   * Subscribe to changes of the folder tree (edits, reloads from storage)
+   */
+  onDataChange(listener: () => void): () => void {
+    this.dataChangeListeners.add(listener);
+    return () => this.dataChangeListeners.delete(listener);
+  }
+
+  /**
+   * File the conversation open in the tab into a folder
+   * @returns false when no conversation is open or the folder does not exist
+   */
+  addCurrentConversationToFolder(folderId: string): boolean {
+    const conversationId = this.getCurrentConversationId();
+    if (!conversationId || !this.data.folders.some((f) => f.id === folderId)) return false;
+
+    const gemId = window.location.pathname.match(/\/gem\/([^/]+)\//)?.[1];
+    const title =
+      this.syncConversationTitleFromNative(conversationId) || document.title || 'Untitled';
+    this.addConversationToFolderFromNative(
+      folderId,
+      conversationId,
+      title,
+      window.location.origin + window.location.pathname,
+      gemId ? true : undefined,
+      gemId,
+    );
+    return true;
+  }
+
   /**
    * Cleanup method to prevent memory leaks
    * Clears all pending deletion timers and observers
@@ -223,6 +403,7 @@ export class FolderManager {
   destroy(): void {
     this.debug('Destroying FolderManager - cleaning up resources');
     this.isDestroyed = true;
+    setViewedAccountId(null);
 
     // Clear all pending removal timers
     let clearedCount = 0;
@@ -258,6 +439,27 @@ export class FolderManager {
       this.navPoller = null;
     }
 
+    if (this.searchInputTimer !== null) {
+      clearTimeout(this.searchInputTimer);
+      this.searchInputTimer = null;
+    }
+
+    if (this.searchShortcutCleanup) {
+      this.searchShortcutCleanup();
+      this.searchShortcutCleanup = null;
+    }
+
+    if (this.indexCaptureTimer !== null) {
+      clearTimeout(this.indexCaptureTimer);
+      this.indexCaptureTimer = null;
+    }
+
+    if (this.indexObserver) {
+      this.indexObserver.disconnect();
+      this.indexObserver = null;
+    }
+    this.conversationIndex.close();
+
     // Disconnect mutation observers
     if (this.sideNavObserver) {
       this.sideNavObserver.disconnect();
@@ -357,6 +559,9 @@ export class FolderManager {
     this.setupConversationClickTracking();
     this.setupNativeConversationMenuObserver();
 
+    // Capture opened conversations into the full-text search index
+    this.setupConversationIndexing();
+
     // ─── DOM recovery (resize / print) ─────────────────────────────────────
     // Gemini may re-render the sidebar DOM during window resize or
     // window.print(), detaching the folder container.  The sideNavObserver
@@ -476,10 +681,17 @@ export class FolderManager {
     const header = this.createHeader();
     this.containerElement.appendChild(header);
 
+    // Create search bar (hidden until the header search button is used)
+    this.searchBar = this.createSearchBar();
+    this.containerElement.appendChild(this.searchBar);
+
     // Create folders list
     const foldersList = this.createFoldersList();
     this.containerElement.appendChild(foldersList);
 
+    // Show which account the tree belongs to when it is not the page's own
+    this.updateAccountBanner();
+
     // Insert before Recent section
     this.recentSection.parentElement?.insertBefore(this.containerElement, this.recentSection);
 
@@ -626,6 +838,13 @@ export class FolderManager {
     const actionsContainer = document.createElement('div');
     actionsContainer.className = 'gv-folder-header-actions';
 
+    // Search button (toggles the full-text search bar)
+    const searchButton = document.createElement('button');
+    searchButton.className = 'gv-folder-action-btn gv-folder-search-toggle';
+    searchButton.innerHTML = `<mat-icon role="img" class="mat-icon notranslate google-symbols mat-ligature-font mat-icon-no-color" aria-hidden="true">search</mat-icon>`;
+    searchButton.title = this.t('folder_search');
+    searchButton.addEventListener('click', () => this.toggleSearchBar());
+
     // Filter current user button
     const filterUserButton = document.createElement('button');
     filterUserButton.className = 'gv-folder-action-btn';
@@ -644,7 +863,34 @@ export class FolderManager {
     importExportButton.title = this.t('folder_import_export');
     importExportButton.addEventListener('click', (e) => this.showImportExportMenu(e));
 
+    // Tag filter button (shows a menu of tags to filter the tree by)
+    const tagFilterButton = document.createElement('button');
+    tagFilterButton.className = 'gv-folder-action-btn gv-folder-tag-filter-toggle';
+    tagFilterButton.innerHTML = `<mat-icon role="img" class="mat-icon notranslate google-symbols mat-ligature-font mat-icon-no-color" aria-hidden="true">sell</mat-icon>`;
+    tagFilterButton.title = this.t('folder_tag_filter');
+    if (this.activeTagFilter) {
+      tagFilterButton.classList.add('gv-filter-active');
+    }
+    tagFilterButton.addEventListener('click', (e) => this.showTagFilterMenu(e));
+
+    // Filter button stays first: toggleFilterCurrentUser() looks it up by position
     actionsContainer.appendChild(filterUserButton);
+    actionsContainer.appendChild(searchButton);
+    actionsContainer.appendChild(tagFilterButton);
+
+    // Account switcher (only useful once folders exist for several Google accounts)
+    if (getRegisteredAccountIds(this.accounts).length > 1) {
+      const accountButton = document.createElement('button');
+      accountButton.className = 'gv-folder-action-btn gv-folder-account-toggle';
+      accountButton.innerHTML = `<mat-icon role="img" class="mat-icon notranslate google-symbols mat-ligature-font mat-icon-no-color" aria-hidden="true">switch_account</mat-icon>`;
+      accountButton.title = this.t('folder_switch_account');
+      if (this.viewAccountId !== this.accountId) {
+        accountButton.classList.add('gv-filter-active');
+      }
+      accountButton.addEventListener('click', (e) => this.showAccountMenu(e));
+      actionsContainer.appendChild(accountButton);
+    }
+
     actionsContainer.appendChild(importExportButton);
 
     // Cloud buttons (Skip on Safari as it doesn't support cloud sync yet)
@@ -673,65 +919,968 @@ export class FolderManager {
         const tooltip = await this.getCloudSyncTooltip();
         cloudSyncButton.title = tooltip;
       });
-      actionsContainer.appendChild(cloudSyncButton);
-    }
+      actionsContainer.appendChild(cloudSyncButton);
+    }
+
+    // Smart folder button (creates a folder whose contents come from rules)
+    const smartFolderButton = document.createElement('button');
+    smartFolderButton.className = 'gv-folder-action-btn';
+    smartFolderButton.innerHTML = `<mat-icon role="img" class="mat-icon notranslate google-symbols mat-ligature-font mat-icon-no-color" aria-hidden="true">folder_special</mat-icon>`;
+    smartFolderButton.title = this.t('folder_smart_create');
+    smartFolderButton.addEventListener('click', () => this.showSmartFolderDialog());
+    actionsContainer.appendChild(smartFolderButton);
+
+    // Add folder button
+    const addButton = document.createElement('button');
+    addButton.className = 'gv-folder-add-btn';
+    addButton.innerHTML = `<mat-icon role="img" class="mat-icon notranslate gds-icon-l google-symbols mat-ligature-font mat-icon-no-color" aria-hidden="true">add</mat-icon>`;
+    addButton.title = this.t('folder_create');
+    addButton.addEventListener('click', () => this.createFolder());
+
+    actionsContainer.appendChild(addButton);
+
+    header.appendChild(titleContainer);
+    header.appendChild(actionsContainer);
+
+    // Setup root drop zone on header
+    this.setupRootDropZone(header);
+
+    return header;
+  }
+
+  private createFoldersList(): HTMLElement {
+    // While searching, the tree is replaced by the result list
+    if (this.searchQuery.trim()) {
+      return this.createSearchResultsList();
+    }
+
+    const list = document.createElement('div');
+    list.className = 'gv-folder-list';
+
+    // Setup root-level drop zone for dragging folders and conversations to root
+    this.setupRootDropZone(list);
+
+    // Render root-level conversations (favorites/pinned conversations)
+    const rootConversations = this.data.folderContents[ROOT_CONVERSATIONS_ID] || [];
+    const filteredRootConversations = this.filterVisibleConversations(rootConversations);
+    if (filteredRootConversations.length > 0) {
+      const sortedRootConversations = this.sortConversations(filteredRootConversations);
+      sortedRootConversations.forEach((conv) => {
+        const convEl = this.createConversationElement(conv, ROOT_CONVERSATIONS_ID, 0);
+        list.appendChild(convEl);
+      });
+    }
+
+    // Render root level folders (sorted)
+    const rootFolders = this.data.folders.filter((f) => f.parentId === null);
+    const sortedRootFolders = this.sortFolders(rootFolders);
+    sortedRootFolders.forEach((folder) => {
+      // Filter out empty folders if "Show current user only" is enabled
+      if (!this.hasVisibleContent(folder.id)) return;
+
+      const folderElement = this.createFolderElement(folder);
+      list.appendChild(folderElement);
+    });
+
+    // Render smart folders after manual folders: their entries carry the source folder id,
+    // so folder lookups by [data-folder-id] must find the manual folder first
+    const smartFolders = this.sortFolders(this.data.smartFolders || []);
+    smartFolders.forEach((smartFolder) => {
+      list.appendChild(this.createSmartFolderElement(smartFolder));
+    });
+
+    // If no folders and no root conversations, show empty state placeholder
+    if (rootFolders.length === 0 && rootConversations.length === 0 && smartFolders.length === 0) {
+      const emptyState = document.createElement('div');
+      emptyState.className = 'gv-folder-empty';
+      emptyState.textContent = this.t('folder_empty');
+      list.appendChild(emptyState);
+    }
+
+    // Trash entry point, only while something can be restored
+    if (this.data.trash?.length) {
+      list.appendChild(this.createTrashElement(this.data.trash.length));
+    }
+
+    return list;
+  }
+
+  private createTrashElement(count: number): HTMLElement {
+    const trashEl = document.createElement('div');
+    trashEl.className = 'gv-folder-item gv-folder-trash';
+
+    const header = document.createElement('div');
+    header.className = 'gv-folder-item-header';
+    header.style.paddingLeft = `${calculateFolderHeaderPaddingLeft(0, this.folderTreeIndent)}px`;
+    header.addEventListener('click', () => this.showTrashDialog());
+
+    const icon = document.createElement('span');
+    icon.className = 'gv-folder-icon google-symbols';
+    icon.textContent = 'delete';
+
+    const name = document.createElement('span');
+    name.className = 'gv-folder-name gds-label-l';
+    name.textContent = this.t('folder_trash');
+
+    const countEl = document.createElement('span');
+    countEl.className = 'gv-folder-trash-count';
+    countEl.textContent = String(count);
+
+    header.appendChild(icon);
+    header.appendChild(name);
+    header.appendChild(countEl);
+    trashEl.appendChild(header);
+    return trashEl;
+  }
+
+  /**
+   * Dialog listing trashed folders and conversations, newest first, with restore and
+   * permanent delete per entry
+   */
+  private showTrashDialog(): void {
+    purgeExpiredTrash(this.data);
+
+    const overlay = document.createElement('div');
+    overlay.className = 'gv-folder-dialog-overlay';
+
+    const dialog = document.createElement('div');
+    dialog.className = 'gv-folder-import-dialog gv-folder-trash-dialog';
+
+    const dialogTitle = document.createElement('div');
+    dialogTitle.className = 'gv-folder-dialog-title';
+    dialogTitle.textContent = this.t('folder_trash');
+
+    const hint = document.createElement('div');
+    hint.className = 'gv-folder-trash-hint';
+    hint.textContent = this.t('folder_trash_hint').replace('{days}', String(TRASH_RETENTION_DAYS));
+
+    const list = document.createElement('div');
+    list.className = 'gv-folder-trash-list';
+
+    const close = () => overlay.remove();
+    const commit = () => {
+      this.saveData();
+      this.refresh();
+      render();
+    };
+
+    const folderName = (folderId: string) =>
+      folderId === ROOT_CONVERSATIONS_ID
+        ? this.t('folder_title')
+        : (this.data.folders.find((f) => f.id === folderId)?.name ?? this.t('folder_title'));
+
+    const createEntryRow = (entry: TrashEntry): HTMLElement => {
+      const row = document.createElement('div');
+      row.className = 'gv-folder-trash-row';
+
+      const icon = document.createElement('span');
+      icon.className = 'gv-folder-trash-row-icon google-symbols';
+      icon.textContent = entry.type === 'folder' ? 'folder' : 'chat_bubble';
+
+      const info = document.createElement('div');
+      info.className = 'gv-folder-trash-row-info';
+      const title = document.createElement('div');
+      title.className = 'gv-folder-trash-row-title';
+      const meta = document.createElement('div');
+      meta.className = 'gv-folder-trash-row-meta';
+      const daysLeft = this.t('folder_trash_days_left').replace(
+        '{days}',
+        String(getTrashDaysLeft(entry)),
+      );
+      if (entry.type === 'folder') {
+        title.textContent = entry.folders[0].name;
+        const conversations = Object.values(entry.folderContents).reduce(
+          (sum, list) => sum + list.length,
+          0,
+        );
+        meta.textContent = `${this.t('folder_trash_conversation_count').replace(
+          '{count}',
+          String(conversations),
+        )} · ${daysLeft}`;
+      } else {
+        title.textContent = entry.conversation.title;
+        meta.textContent = `${this.t('folder_trash_from').replace(
+          '{folder}',
+          folderName(entry.folderId),
+        )} · ${daysLeft}`;
+      }
+      info.appendChild(title);
+      info.appendChild(meta);
+
+      const restoreBtn = document.createElement('button');
+      restoreBtn.className = 'gv-folder-trash-row-btn';
+      restoreBtn.title = this.t('folder_trash_restore');
+      restoreBtn.innerHTML = '<span class="google-symbols">restore_from_trash</span>';
+      restoreBtn.addEventListener('click', () => {
+        restoreTrashEntry(this.data, entry.id, ROOT_CONVERSATIONS_ID);
+        commit();
+      });
+
+      const deleteBtn = document.createElement('button');
+      deleteBtn.className = 'gv-folder-trash-row-btn';
+      deleteBtn.title = this.t('folder_trash_delete_forever');
+      deleteBtn.innerHTML = '<span class="google-symbols">delete_forever</span>';
+      deleteBtn.addEventListener('click', () => {
+        deleteTrashEntry(this.data, entry.id);
+        commit();
+      });
+
+      row.appendChild(icon);
+      row.appendChild(info);
+      row.appendChild(restoreBtn);
+      row.appendChild(deleteBtn);
+      return row;
+    };
+
+    const emptyBtn = document.createElement('button');
+    emptyBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-secondary';
+    emptyBtn.textContent = this.t('folder_trash_empty_action');
+    emptyBtn.addEventListener('click', () => {
+      if (!confirm(this.t('folder_trash_empty_confirm'))) return;
+      emptyTrash(this.data);
+      commit();
+    });
+
+    const render = () => {
+      list.innerHTML = '';
+      const entries = [...(this.data.trash || [])].sort((a, b) => b.deletedAt - a.deletedAt);
+      if (entries.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'gv-folder-trash-empty';
+        empty.textContent = this.t('folder_trash_empty');
+        list.appendChild(empty);
+      }
+      entries.forEach((entry) => list.appendChild(createEntryRow(entry)));
+      emptyBtn.disabled = entries.length === 0;
+    };
+
+    const closeBtn = document.createElement('button');
+    closeBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-primary';
+    closeBtn.textContent = this.t('folder_trash_close');
+    closeBtn.addEventListener('click', close);
+
+    const buttonsContainer = document.createElement('div');
+    buttonsContainer.className = 'gv-folder-dialog-buttons';
+    buttonsContainer.appendChild(emptyBtn);
+    buttonsContainer.appendChild(closeBtn);
+
+    dialog.appendChild(dialogTitle);
+    dialog.appendChild(hint);
+    dialog.appendChild(list);
+    dialog.appendChild(buttonsContainer);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+    render();
+
+    dialog.addEventListener('keydown', (e) => {
+      // Keep Gemini's global shortcuts from reacting while the dialog is open
+      e.stopPropagation();
+      if (e.key === 'Escape') close();
+    });
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) close();
+    });
+    closeBtn.focus();
+  }
+
+  private createSearchBar(): HTMLElement {
+    const bar = document.createElement('div');
+    bar.className = 'gv-folder-search gv-hidden';
+
+    const icon = document.createElement('span');
+    icon.className = 'gv-folder-search-icon google-symbols';
+    icon.textContent = 'search';
+
+    const input = document.createElement('input');
+    input.type = 'search';
+    input.className = 'gv-folder-search-input';
+    input.placeholder = this.t('folder_search_placeholder');
+    input.setAttribute('aria-label', this.t('folder_search'));
+    input.value = this.searchQuery;
+
+    input.addEventListener('input', () => {
+      if (this.searchInputTimer !== null) clearTimeout(this.searchInputTimer);
+      this.searchInputTimer = window.setTimeout(() => {
+        this.searchInputTimer = null;
+        this.searchQuery = input.value;
+        this.renderAllFolders();
+      }, SEARCH_INPUT_DEBOUNCE_MS);
+    });
+    input.addEventListener('keydown', (e) => {
+      // Keep Gemini's global shortcuts from reacting while typing
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        this.closeSearchBar();
+      }
+    });
+
+    bar.appendChild(icon);
+    bar.appendChild(input);
+    return bar;
+  }
+
+  private toggleSearchBar(): void {
+    if (!this.searchBar || this.searchBar.classList.contains('gv-hidden')) {
+      this.openSearchBar();
+    } else {
+      this.closeSearchBar();
+    }
+  }
+
+  private openSearchBar(): void {
+    if (!this.searchBar) return;
+    this.searchBar.classList.remove('gv-hidden');
+    this.containerElement
+      ?.querySelector('.gv-folder-search-toggle')
+      ?.classList.add('gv-filter-active');
+    this.searchBar.querySelector<HTMLInputElement>('.gv-folder-search-input')?.focus();
+    void this.loadSearchContent();
+  }
+
+  private closeSearchBar(): void {
+    if (this.searchInputTimer !== null) {
+      clearTimeout(this.searchInputTimer);
+      this.searchInputTimer = null;
+    }
+    const hadQuery = !!this.searchQuery.trim();
+    this.searchQuery = '';
+    if (this.searchBar) {
+      this.searchBar.classList.add('gv-hidden');
+      const input = this.searchBar.querySelector<HTMLInputElement>('.gv-folder-search-input');
+      if (input) input.value = '';
+    }
+    this.containerElement
+      ?.querySelector('.gv-folder-search-toggle')
+      ?.classList.remove('gv-filter-active');
+    if (hadQuery) this.renderAllFolders();
+  }
+
+  /**
+   * Load the indexed text of every foldered conversation into memory for searching
+   */
+  private async loadSearchContent(): Promise<void> {
+    if (!this.conversationIndex.isAvailable()) return;
+    const keys = new Set<string>();
+    Object.values(this.data.folderContents).forEach((conversations) =>
+      conversations.forEach((conv) => keys.add(normalizeConversationKey(conv.conversationId))),
+    );
+    try {
+      const entries = await this.conversationIndex.getMany(Array.from(keys));
+      this.searchContent = new Map(
+        Array.from(entries.values()).map((entry) => [
+          entry.conversationId,
+          turnsToIndexText(entry.turns),
+        ]),
+      );
+      if (this.searchQuery.trim()) this.renderAllFolders();
+    } catch (error) {
+      this.debugWarn('Failed to load search index:', error);
+    }
+  }
+
+  private createSearchResultsList(): HTMLElement {
+    const list = document.createElement('div');
+    list.className = 'gv-folder-list gv-folder-search-results';
+
+    // Respect the header filters (current user, tag) in results as well
+    const folderContents: FolderData['folderContents'] = {};
+    for (const [folderId, conversations] of Object.entries(this.data.folderContents)) {
+      folderContents[folderId] = this.filterVisibleConversations(conversations);
+    }
+    const results = searchFolderData(
+      { folders: this.data.folders, folderContents },
+      this.searchQuery,
+      this.searchContent,
+      ROOT_CONVERSATIONS_ID,
+    );
+
+    if (results.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'gv-folder-empty';
+      empty.textContent = this.t('folder_search_no_results');
+      list.appendChild(empty);
+      return list;
+    }
+
+    results.forEach((result) => list.appendChild(this.createSearchResultElement(result)));
+    return list;
+  }
+
+  private createSearchResultElement(result: FolderSearchResult): HTMLElement {
+    const item = document.createElement('div');
+    item.className = `gv-folder-search-result gv-folder-search-result-${result.type}`;
+    item.setAttribute('role', 'button');
+    item.tabIndex = 0;
+
+    const icon = document.createElement('span');
+    icon.className = 'gv-folder-search-result-icon google-symbols';
+    icon.textContent = result.type === 'folder' ? 'folder' : 'chat_bubble';
+
+    const body = document.createElement('div');
+    body.className = 'gv-folder-search-result-body';
+
+    const title = document.createElement('div');
+    title.className = 'gv-folder-search-result-title';
+    this.appendHighlightedText(title, result.type === 'folder' ? result.name : result.title);
+    body.appendChild(title);
+
+    if (result.path.length > 0) {
+      const path = document.createElement('div');
+      path.className = 'gv-folder-search-result-path';
+      path.textContent = result.path.join(' / ');
+      body.appendChild(path);
+    }
+
+    if (result.type === 'conversation' && result.snippet) {
+      const snippet = document.createElement('div');
+      snippet.className = 'gv-folder-search-result-snippet';
+      this.appendHighlightedText(snippet, result.snippet);
+      body.appendChild(snippet);
+    }
+
+    item.appendChild(icon);
+    item.appendChild(body);
+
+    const open = () => {
+      if (result.type === 'folder') {
+        this.revealFolder(result.folder.id);
+      } else {
+        this.navigateToConversationById(result.folderId, result.conversation.conversationId);
+      }
+    };
+    item.addEventListener('click', open);
+    item.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        open();
+      }
+    });
+    return item;
+  }
+
+  private appendHighlightedText(target: HTMLElement, segments: HighlightSegment[]): void {
+    segments.forEach((segment) => {
+      if (segment.highlight) {
+        const mark = document.createElement('mark');
+        mark.className = 'gv-folder-search-highlight';
+        mark.textContent = segment.text;
+        target.appendChild(mark);
+      } else {
+        target.appendChild(document.createTextNode(segment.text));
+      }
+    });
+  }
+
+  /**
+   * Leave search, expand the folder and its ancestors and scroll it into view
+   */
+  private revealFolder(folderId: string): void {
+    let current = this.data.folders.find((f) => f.id === folderId);
+    const visited = new Set<string>();
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id);
+      current.isExpanded = true;
+      current = current.parentId
+        ? this.data.folders.find((f) => f.id === current!.parentId)
+        : undefined;
+    }
+    this.saveData();
+    this.closeSearchBar();
+    this.renderAllFolders();
+
+    const folderEl = this.containerElement?.querySelector<HTMLElement>(
+      `.gv-folder-item[data-folder-id="${CSS.escape(folderId)}"]`,
+    );
+    if (folderEl) {
+      folderEl.scrollIntoView({ block: 'nearest' });
+      folderEl.classList.add('gv-folder-search-reveal');
+      setTimeout(() => folderEl.classList.remove('gv-folder-search-reveal'), 1500);
+    }
+  }
+
+  /**
+   * Observe the conversation view and (re)capture its text into the search index
+   * once it stops changing, so streamed responses are indexed when complete.
+   */
+  private setupConversationIndexing(): void {
+    if (!this.conversationIndex.isAvailable() || this.indexObserver) return;
+
+    this.indexObserver = new MutationObserver(() => this.scheduleConversationIndexCapture());
+    const root = document.querySelector('main') || document.body;
+    this.indexObserver.observe(root, { childList: true, subtree: true, characterData: true });
+    this.scheduleConversationIndexCapture();
+  }
+
+  private scheduleConversationIndexCapture(): void {
+    if (this.isDestroyed) return;
+    if (this.indexCaptureTimer !== null) clearTimeout(this.indexCaptureTimer);
+    this.indexCaptureTimer = window.setTimeout(() => {
+      this.indexCaptureTimer = null;
+      void this.captureCurrentConversation();
+    }, INDEX_CAPTURE_DELAY_MS);
+  }
+
+  private async captureCurrentConversation(): Promise<void> {
+    const conversationId = this.getCurrentConversationId();
+    if (!conversationId || this.isDestroyed) return;
+    const key = normalizeConversationKey(conversationId);
+    const turns = extractConversationTurns(document);
+    if (turns.length === 0) return;
+
+    try {
+      const previous = await this.conversationIndex.get(key);
+      // The route may have changed while reading; don't file this text under another conversation
+      if (this.getCurrentConversationId() !== conversationId) return;
+      const merged = capConversationTurns(mergeConversationTurns(previous?.turns || [], turns));
+      if (previous && merged.join('\n') === previous.turns.join('\n')) return;
+
+      await this.conversationIndex.put({
+        conversationId: key,
+        turns: merged,
+        updatedAt: Date.now(),
+      });
+      this.searchContent.set(key, turnsToIndexText(merged));
+      this.debug('Indexed conversation text:', key, `${merged.length} turns`);
+    } catch (error) {
+      this.debugWarn('Failed to index conversation text:', error);
+    }
+  }
+
+  private getSmartFolderContext(): SmartFolderContext {
+    return { now: Date.now(), forkedConversationIds: this.forkedConversationIds };
+  }
+
+  /**
+   * Render a smart folder. Its conversations are computed from the rules on every render;
+   * entries act on the stored reference in their source folder (star, rename, open) but
+   * cannot be dragged out or removed, since membership is decided by the rules.
+   */
+  private createSmartFolderElement(smartFolder: SmartFolder): HTMLElement {
+    const folderEl = document.createElement('div');
+    folderEl.className = 'gv-folder-item gv-smart-folder';
+    folderEl.dataset.smartFolderId = smartFolder.id;
+    folderEl.dataset.level = '0';
+
+    const matches = collectSmartFolderConversations(
+      smartFolder,
+      this.data,
+      this.getSmartFolderContext(),
+      ROOT_CONVERSATIONS_ID,
+    );
+    const visible = new Set(this.filterVisibleConversations(matches.map((m) => m.conversation)));
+    const visibleMatches = matches.filter((m) => visible.has(m.conversation));
+
+    const folderHeader = document.createElement('div');
+    folderHeader.className = 'gv-folder-item-header';
+    folderHeader.style.paddingLeft = `${calculateFolderHeaderPaddingLeft(0, this.folderTreeIndent)}px`;
+
+    const expandBtn = document.createElement('button');
+    expandBtn.className = 'gv-folder-expand-btn';
+    expandBtn.innerHTML = smartFolder.isExpanded
+      ? '<span class="google-symbols">expand_more</span>'
+      : '<span class="google-symbols">chevron_right</span>';
+    expandBtn.addEventListener('click', () => this.toggleSmartFolder(smartFolder.id));
+
+    const folderIcon = document.createElement('span');
+    folderIcon.className = 'gv-folder-icon gv-smart-folder-icon google-symbols';
+    folderIcon.textContent = 'folder_special';
+    folderIcon.title = this.t('folder_smart');
+
+    const folderName = document.createElement('span');
+    folderName.className = 'gv-folder-name gds-label-l';
+    folderName.textContent = smartFolder.name;
+    folderName.style.cursor = 'pointer';
+    folderName.addEventListener('click', () => this.toggleSmartFolder(smartFolder.id));
+    folderName.addEventListener('dblclick', () => this.showSmartFolderDialog(smartFolder.id));
+    folderName.addEventListener('mouseenter', () => this.showTooltip(folderName, smartFolder.name));
+    folderName.addEventListener('mouseleave', () => this.hideTooltip());
+
+    const count = document.createElement('span');
+    count.className = 'gv-smart-folder-count';
+    count.textContent = String(visibleMatches.length);
+
+    const pinBtn = document.createElement('button');
+    pinBtn.className = 'gv-folder-pin-btn';
+    const pinIcon = document.createElement('span');
+    pinIcon.className = 'google-symbols';
+    pinIcon.textContent = 'push_pin';
+    if (smartFolder.pinned) {
+      pinIcon.style.fontVariationSettings = "'FILL' 1";
+    }
+    pinBtn.appendChild(pinIcon);
+    pinBtn.title = smartFolder.pinned ? this.t('folder_unpin') : this.t('folder_pin');
+    pinBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.togglePinSmartFolder(smartFolder.id);
+    });
+
+    const actionsBtn = document.createElement('button');
+    actionsBtn.className = 'gv-folder-actions-btn';
+    actionsBtn.innerHTML = '<span class="google-symbols">more_vert</span>';
+    actionsBtn.addEventListener('click', (e) => this.showSmartFolderMenu(e, smartFolder.id));
+
+    folderHeader.appendChild(expandBtn);
+    folderHeader.appendChild(folderIcon);
+    folderHeader.appendChild(folderName);
+    folderHeader.appendChild(count);
+    folderHeader.appendChild(pinBtn);
+    folderHeader.appendChild(actionsBtn);
+    folderEl.appendChild(folderHeader);
+
+    if (smartFolder.isExpanded) {
+      const content = document.createElement('div');
+      content.className = 'gv-folder-content';
+
+      if (visibleMatches.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'gv-smart-folder-empty';
+        empty.textContent = this.t('folder_smart_empty');
+        content.appendChild(empty);
+      }
+
+      visibleMatches.forEach(({ folderId, conversation }) => {
+        const convEl = this.createConversationElement(conversation, folderId, 1);
+        convEl.draggable = false;
+        convEl.querySelector('.gv-conversation-remove-btn')?.remove();
+        content.appendChild(convEl);
+      });
+
+      folderEl.appendChild(content);
+    }
+
+    return folderEl;
+  }
+
+  private toggleSmartFolder(smartFolderId: string): void {
+    const smartFolder = this.data.smartFolders?.find((f) => f.id === smartFolderId);
+    if (!smartFolder) return;
+
+    smartFolder.isExpanded = !smartFolder.isExpanded;
+    smartFolder.updatedAt = Date.now();
+    this.saveData();
+    this.refresh();
+  }
+
+  private togglePinSmartFolder(smartFolderId: string): void {
+    const smartFolder = this.data.smartFolders?.find((f) => f.id === smartFolderId);
+    if (!smartFolder) return;
+
+    smartFolder.pinned = !smartFolder.pinned;
+    smartFolder.updatedAt = Date.now();
+    this.saveData();
+    this.refresh();
+  }
+
+  private deleteSmartFolder(smartFolderId: string): void {
+    if (!confirm(this.t('folder_smart_delete_confirm'))) return;
+
+    this.data.smartFolders = (this.data.smartFolders || []).filter((f) => f.id !== smartFolderId);
+    this.saveData();
+    this.refresh();
+  }
+
+  private showSmartFolderMenu(event: MouseEvent, smartFolderId: string): void {
+    event.stopPropagation();
+
+    const smartFolder = this.data.smartFolders?.find((f) => f.id === smartFolderId);
+    if (!smartFolder) return;
+
+    const menu = document.createElement('div');
+    menu.className = 'gv-folder-menu';
+    menu.style.position = 'fixed';
+    menu.style.left = `${event.clientX}px`;
+    menu.style.top = `${event.clientY}px`;
+
+    const menuItems = [
+      {
+        label: smartFolder.pinned ? this.t('folder_unpin') : this.t('folder_pin'),
+        action: () => this.togglePinSmartFolder(smartFolderId),
+      },
+      {
+        label: this.t('folder_smart_edit'),
+        action: () => this.showSmartFolderDialog(smartFolderId),
+      },
+      { label: this.t('folder_delete'), action: () => this.deleteSmartFolder(smartFolderId) },
+    ];
+
+    menuItems.forEach((item) => {
+      const menuItem = document.createElement('button');
+      menuItem.className = 'gv-folder-menu-item';
+      menuItem.textContent = item.label;
+      menuItem.addEventListener('click', () => {
+        item.action();
+        menu.remove();
+      });
+      menu.appendChild(menuItem);
+    });
+
+    document.body.appendChild(menu);
+
+    const closeMenu = (e: MouseEvent) => {
+      if (!menu.contains(e.target as Node)) {
+        menu.remove();
+        document.removeEventListener('click', closeMenu);
+      }
+    };
+    setTimeout(() => document.addEventListener('click', closeMenu), 0);
+  }
+
+  /**
+   * Dialog for creating a smart folder, or editing the name, match mode and rules of one
+   */
+  private showSmartFolderDialog(smartFolderId?: string): void {
+    const existing = smartFolderId
+      ? this.data.smartFolders?.find((f) => f.id === smartFolderId)
+      : undefined;
+
+    const overlay = document.createElement('div');
+    overlay.className = 'gv-folder-dialog-overlay';
+
+    const dialog = document.createElement('div');
+    dialog.className = 'gv-folder-import-dialog gv-smart-folder-dialog';
+
+    const dialogTitle = document.createElement('div');
+    dialogTitle.className = 'gv-folder-dialog-title';
+    dialogTitle.textContent = existing
+      ? this.t('folder_smart_edit')
+      : this.t('folder_smart_create');
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.className = 'gv-folder-name-input gv-smart-folder-name';
+    nameInput.placeholder = this.t('folder_name_prompt');
+    nameInput.maxLength = 50;
+    nameInput.value = existing?.name ?? '';
+
+    const matchSelect = document.createElement('select');
+    matchSelect.className = 'gv-smart-folder-select gv-smart-folder-match';
+    (
+      [
+        ['all', 'folder_smart_match_all'],
+        ['any', 'folder_smart_match_any'],
+      ] as const
+    ).forEach(([value, key]) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = this.t(key);
+      matchSelect.appendChild(option);
+    });
+    matchSelect.value = existing?.match ?? 'all';
+
+    const rulesList = document.createElement('div');
+    rulesList.className = 'gv-smart-folder-rules';
+    const rows: Array<{ element: HTMLElement; read: () => SmartFolderRule | null }> = [];
+    const addRow = (rule: SmartFolderRule) => {
+      const row = this.createSmartFolderRuleRow(rule, () => {
+        rows.splice(rows.indexOf(row), 1);
+        row.element.remove();
+      });
+      rows.push(row);
+      rulesList.appendChild(row.element);
+    };
+    (existing?.rules.length ? existing.rules : [createDefaultSmartFolderRule('title')]).forEach(
+      addRow,
+    );
 
-    // Add folder button
-    const addButton = document.createElement('button');
-    addButton.className = 'gv-folder-add-btn';
-    addButton.innerHTML = `<mat-icon role="img" class="mat-icon notranslate gds-icon-l google-symbols mat-ligature-font mat-icon-no-color" aria-hidden="true">add</mat-icon>`;
-    addButton.title = this.t('folder_create');
-    addButton.addEventListener('click', () => this.createFolder());
+    const addRuleBtn = document.createElement('button');
+    addRuleBtn.className = 'gv-smart-folder-add-rule';
+    addRuleBtn.textContent = this.t('folder_smart_add_rule');
+    addRuleBtn.addEventListener('click', () => addRow(createDefaultSmartFolderRule('title')));
 
-    actionsContainer.appendChild(addButton);
+    const error = document.createElement('div');
+    error.className = 'gv-smart-folder-error';
 
-    header.appendChild(titleContainer);
-    header.appendChild(actionsContainer);
+    const buttonsContainer = document.createElement('div');
+    buttonsContainer.className = 'gv-folder-dialog-buttons';
 
-    // Setup root drop zone on header
-    this.setupRootDropZone(header);
+    const close = () => overlay.remove();
 
-    return header;
-  }
+    const save = () => {
+      const name = nameInput.value.trim();
+      const rules = rows.map((row) => row.read());
+      if (!name || rules.length === 0 || rules.some((rule) => rule === null)) {
+        error.textContent = this.t('folder_smart_invalid');
+        return;
+      }
 
-  private createFoldersList(): HTMLElement {
-    const list = document.createElement('div');
-    list.className = 'gv-folder-list';
+      const now = Date.now();
+      const match = matchSelect.value === 'any' ? 'any' : 'all';
+      const target = smartFolderId
+        ? this.data.smartFolders?.find((f) => f.id === smartFolderId)
+        : undefined;
+      if (target) {
+        target.name = name;
+        target.match = match;
+        target.rules = rules as SmartFolderRule[];
+        target.updatedAt = now;
+      } else {
+        this.data.smartFolders = [
+          ...(this.data.smartFolders || []),
+          {
+            id: this.generateId(),
+            name,
+            rules: rules as SmartFolderRule[],
+            match,
+            isExpanded: true,
+            createdAt: now,
+            updatedAt: now,
+          },
+        ];
+      }
+      this.saveData();
+      this.refresh();
+      close();
+    };
 
-    // Setup root-level drop zone for dragging folders and conversations to root
-    this.setupRootDropZone(list);
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-secondary';
+    cancelBtn.textContent = this.t('pm_cancel');
+    cancelBtn.addEventListener('click', close);
 
-    // Render root-level conversations (favorites/pinned conversations)
-    const rootConversations = this.data.folderContents[ROOT_CONVERSATIONS_ID] || [];
-    const filteredRootConversations = this.filterConversationsByCurrentUser(rootConversations);
-    if (filteredRootConversations.length > 0) {
-      const sortedRootConversations = this.sortConversations(filteredRootConversations);
-      sortedRootConversations.forEach((conv) => {
-        const convEl = this.createConversationElement(conv, ROOT_CONVERSATIONS_ID, 0);
-        list.appendChild(convEl);
-      });
-    }
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-primary';
+    saveBtn.textContent = this.t('pm_save');
+    saveBtn.addEventListener('click', save);
 
-    // Render root level folders (sorted)
-    const rootFolders = this.data.folders.filter((f) => f.parentId === null);
-    const sortedRootFolders = this.sortFolders(rootFolders);
-    sortedRootFolders.forEach((folder) => {
-      // Filter out empty folders if "Show current user only" is enabled
-      if (!this.hasVisibleContent(folder.id)) return;
+    buttonsContainer.appendChild(cancelBtn);
+    buttonsContainer.appendChild(saveBtn);
 
-      const folderElement = this.createFolderElement(folder);
-      list.appendChild(folderElement);
+    dialog.appendChild(dialogTitle);
+    dialog.appendChild(nameInput);
+    dialog.appendChild(matchSelect);
+    dialog.appendChild(rulesList);
+    dialog.appendChild(addRuleBtn);
+    dialog.appendChild(error);
+    dialog.appendChild(buttonsContainer);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+
+    dialog.addEventListener('keydown', (e) => {
+      // Keep Gemini's global shortcuts from reacting while typing
+      e.stopPropagation();
+      if (e.key === 'Escape') close();
+      if (e.key === 'Enter' && e.target instanceof HTMLInputElement) save();
+    });
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) close();
     });
 
-    // If no folders and no root conversations, show empty state placeholder
-    if (rootFolders.length === 0 && rootConversations.length === 0) {
-      const emptyState = document.createElement('div');
-      emptyState.className = 'gv-folder-empty';
-      emptyState.textContent = this.t('folder_empty');
-      list.appendChild(emptyState);
-    }
+    nameInput.focus();
+  }
 
-    return list;
+  /**
+   * One editable rule in the smart folder dialog: a rule type select plus its value input
+   * @returns The row element and a reader returning the normalized rule (null if invalid)
+   */
+  private createSmartFolderRuleRow(
+    initial: SmartFolderRule,
+    onRemove: () => void,
+  ): { element: HTMLElement; read: () => SmartFolderRule | null } {
+    const row = document.createElement('div');
+    row.className = 'gv-smart-folder-rule';
+
+    const typeSelect = document.createElement('select');
+    typeSelect.className = 'gv-smart-folder-select';
+    SMART_FOLDER_RULE_TYPES.forEach((type) => {
+      const option = document.createElement('option');
+      option.value = type;
+      option.textContent = this.t(SMART_FOLDER_RULE_LABEL_KEYS[type]);
+      typeSelect.appendChild(option);
+    });
+    typeSelect.value = initial.type;
+
+    const valueSlot = document.createElement('div');
+    valueSlot.className = 'gv-smart-folder-rule-value';
+
+    const result = {
+      element: row,
+      read: (): SmartFolderRule | null => null,
+    };
+
+    const renderValue = (rule: SmartFolderRule) => {
+      valueSlot.replaceChildren();
+      switch (rule.type) {
+        case 'title': {
+          const input = document.createElement('input');
+          input.type = 'text';
+          input.className = 'gv-folder-name-input';
+          input.placeholder = this.t('folder_smart_title_placeholder');
+          input.value = rule.pattern ? formatTitlePatternInput(rule) : '';
+          valueSlot.appendChild(input);
+          result.read = () =>
+            normalizeSmartFolderRule({ type: 'title', ...parseTitlePatternInput(input.value) });
+          break;
+        }
+        case 'gem': {
+          const select = document.createElement('select');
+          select.className = 'gv-smart-folder-select';
+          this.getSmartFolderGemOptions(rule.gemId).forEach(([value, label]) => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = label;
+            select.appendChild(option);
+          });
+          select.value = rule.gemId ?? '';
+          valueSlot.appendChild(select);
+          result.read = () => normalizeSmartFolderRule({ type: 'gem', gemId: select.value });
+          break;
+        }
+        case 'recentlyOpened': {
+          const input = document.createElement('input');
+          input.type = 'number';
+          input.min = '1';
+          input.className = 'gv-folder-name-input gv-smart-folder-days';
+          input.value = String(rule.days);
+          const unit = document.createElement('span');
+          unit.textContent = this.t('folder_smart_days');
+          valueSlot.appendChild(input);
+          valueSlot.appendChild(unit);
+          result.read = () =>
+            normalizeSmartFolderRule({ type: 'recentlyOpened', days: Number(input.value) });
+          break;
+        }
+        default:
+          result.read = () => normalizeSmartFolderRule({ type: rule.type });
+      }
+    };
+    renderValue(initial);
+    typeSelect.addEventListener('change', () =>
+      renderValue(createDefaultSmartFolderRule(typeSelect.value as SmartFolderRuleType)),
+    );
+
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'gv-smart-folder-rule-remove';
+    removeBtn.innerHTML =
+      '<mat-icon role="img" class="mat-icon notranslate google-symbols mat-ligature-font mat-icon-no-color" aria-hidden="true">close</mat-icon>';
+    removeBtn.title = this.t('pm_delete');
+    removeBtn.addEventListener('click', onRemove);
+
+    row.appendChild(typeSelect);
+    row.appendChild(valueSlot);
+    row.appendChild(removeBtn);
+    return result;
+  }
+
+  /**
+   * Options for the Gem rule: any Gem, the known Gems, then custom Gems seen in saved conversations
+   */
+  private getSmartFolderGemOptions(selectedGemId?: string): Array<[string, string]> {
+    const options: Array<[string, string]> = [['', this.t('folder_smart_any_gem')]];
+    const known = new Set<string>();
+    GEM_CONFIG.forEach((gem) => {
+      options.push([gem.id, gem.name]);
+      known.add(gem.id);
+    });
+    const customIds = new Set<string>();
+    Object.values(this.data.folderContents).forEach((conversations) =>
+      conversations.forEach((conv) => {
+        if (conv.isGem && conv.gemId && !known.has(conv.gemId)) customIds.add(conv.gemId);
+      }),
+    );
+    if (selectedGemId && !known.has(selectedGemId)) customIds.add(selectedGemId);
+    customIds.forEach((id) => options.push([id, id]));
+    return options;
   }
 
   private createFolderElement(folder: Folder, level = 0): HTMLElement {
@@ -830,7 +1979,7 @@ export class FolderManager {
 
       // Render conversations in this folder (sorted: starred first)
       const conversations = this.data.folderContents[folder.id] || [];
-      const filteredConversations = this.filterConversationsByCurrentUser(conversations);
+      const filteredConversations = this.filterVisibleConversations(conversations);
       const sortedConversations = this.sortConversations(filteredConversations);
       sortedConversations.forEach((conv) => {
         const convEl = this.createConversationElement(conv, folder.id, level + 1);
@@ -1079,8 +2228,17 @@ export class FolderManager {
       this.renameConversation(folderId, conv.conversationId, title);
     });
 
+    // Right-click for tags, note and other conversation actions
+    convEl.addEventListener('contextmenu', (e) => {
+      if (this.isMultiSelectMode) return;
+      e.preventDefault();
+      this.showConversationMenu(e, folderId, conv.conversationId, title);
+    });
+
     convEl.appendChild(icon);
     convEl.appendChild(title);
+    const annotations = this.createConversationAnnotations(conv);
+    if (annotations) convEl.appendChild(annotations);
     convEl.appendChild(actionsContainer);
 
     return convEl;
@@ -2178,17 +3336,12 @@ export class FolderManager {
     };
 
     yesBtn?.addEventListener('click', () => {
-      // Remove folder and all subfolders recursively
-      const foldersToDelete = this.getFolderAndDescendants(folderId);
-      this.data.folders = this.data.folders.filter((f) => !foldersToDelete.includes(f.id));
-
-      // Remove folder contents
-      foldersToDelete.forEach((id) => {
-        delete this.data.folderContents[id];
-      });
+      // Move the folder, its subfolders and their contents to the trash
+      moveFolderToTrash(this.data, this.getFolderAndDescendants(folderId));
 
       this.saveData();
       this.refresh();
+      this.showNotification(this.t('folder_trash_moved'), 'info');
       cleanup();
     });
 
@@ -2238,18 +3391,8 @@ export class FolderManager {
   /**
    * Sort folders with pinned folders first, then by name using localized collation
    */
-  private sortFolders(folders: Folder[]): Folder[] {
-    return [...folders].sort((a, b) => {
-      // Pinned folders always come first
-      if (a.pinned && !b.pinned) return -1;
-      if (!a.pinned && b.pinned) return 1;
-
-      // Within the same pinned state, sort by name using localized comparison
-      return a.name.localeCompare(b.name, undefined, {
-        numeric: true,
-        sensitivity: 'base',
-      });
-    });
+  private sortFolders<T extends Pick<Folder, 'name' | 'pinned'>>(folders: T[]): T[] {
+    return sortFoldersByPriority(folders);
   }
 
   private sortConversations(conversations: ConversationReference[]): ConversationReference[] {
@@ -2505,7 +3648,9 @@ export class FolderManager {
     };
 
     yesBtn?.addEventListener('click', () => {
-      this.removeConversationFromFolder(folderId, conversationId);
+      moveConversationsToTrash(this.data, folderId, (c) => c.conversationId === conversationId);
+      this.saveData();
+      this.refresh();
       cleanup();
     });
 
@@ -2544,12 +3689,12 @@ export class FolderManager {
 
     if (!confirmed) return;
 
-    // Remove all selected conversations from the folder
+    // Move all selected conversations from the folder to the trash
     const folderId = this.multiSelectFolderId;
     if (!this.data.folderContents[folderId]) return;
 
-    this.data.folderContents[folderId] = this.data.folderContents[folderId].filter(
-      (c) => !this.selectedConversations.has(c.conversationId),
+    moveConversationsToTrash(this.data, folderId, (c) =>
+      this.selectedConversations.has(c.conversationId),
     );
 
     this.saveData();
@@ -3401,33 +4546,404 @@ export class FolderManager {
       } catch (e) {
         this.debug('Failed to remove input:', e);
       }
-      try {
-        titleElement.style.display = '';
-      } catch (e) {
-        this.debug('Failed to restore title display:', e);
+      try {
+        titleElement.style.display = '';
+      } catch (e) {
+        this.debug('Failed to restore title display:', e);
+      }
+      try {
+        titleElement.textContent = conv.title;
+      } catch (e) {
+        this.debug('Failed to restore title text:', e);
+      }
+    };
+    const onBlur = () => {
+      // Defer finalize to let Angular/SPA navigation settle
+      requestAnimationFrame(() => finalize(true));
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        finalize(true);
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        finalize(false);
+      }
+    };
+
+    input.addEventListener('blur', onBlur);
+    input.addEventListener('keydown', onKeyDown);
+  }
+
+  /**
+   * Tag chips and note indicator shown after a conversation title
+   * @returns null when the conversation has neither tags nor a note
+   */
+  private createConversationAnnotations(conv: ConversationReference): HTMLElement | null {
+    const tags = getConversationTags(conv, this.data.tags || []);
+    if (tags.length === 0 && !conv.note) return null;
+
+    const container = document.createElement('span');
+    container.className = 'gv-conversation-annotations';
+
+    const dark = isDarkMode();
+    tags.slice(0, MAX_VISIBLE_TAGS).forEach((tag) => {
+      container.appendChild(this.createTagChip(tag, dark));
+    });
+    if (tags.length > MAX_VISIBLE_TAGS) {
+      const more = document.createElement('span');
+      more.className = 'gv-conversation-tag gv-conversation-tag-more';
+      more.textContent = `+${tags.length - MAX_VISIBLE_TAGS}`;
+      more.title = tags
+        .slice(MAX_VISIBLE_TAGS)
+        .map((tag) => tag.name)
+        .join(', ');
+      container.appendChild(more);
+    }
+
+    if (conv.note) {
+      const noteIcon = document.createElement('mat-icon');
+      noteIcon.className =
+        'mat-icon notranslate google-symbols mat-ligature-font mat-icon-no-color gv-conversation-note-indicator';
+      noteIcon.setAttribute('role', 'img');
+      noteIcon.textContent = 'sticky_note_2';
+      noteIcon.title = conv.note;
+      container.appendChild(noteIcon);
+    }
+
+    return container;
+  }
+
+  private createTagChip(tag: ConversationTag, dark: boolean): HTMLElement {
+    const chip = document.createElement('span');
+    chip.className = 'gv-conversation-tag';
+    chip.textContent = tag.name;
+    chip.title = tag.name;
+    chip.style.setProperty('--gv-tag-color', getFolderColor(tag.color, dark));
+    return chip;
+  }
+
+  /**
+   * Context menu for a conversation in the folder tree
+   */
+  private showConversationMenu(
+    event: MouseEvent,
+    folderId: string,
+    conversationId: string,
+    titleElement: HTMLElement,
+  ): void {
+    event.stopPropagation();
+
+    const conv = this.data.folderContents[folderId]?.find(
+      (c) => c.conversationId === conversationId,
+    );
+    if (!conv) return;
+
+    // Close any menu left open by a previous right-click
+    document.querySelectorAll('.gv-folder-menu').forEach((el) => el.remove());
+
+    const menu = document.createElement('div');
+    menu.className = 'gv-folder-menu';
+    menu.style.position = 'fixed';
+    menu.style.left = `${event.clientX}px`;
+    menu.style.top = `${event.clientY}px`;
+
+    const menuItems = [
+      {
+        label: this.t('conversation_tags_notes'),
+        action: () => this.showConversationAnnotationDialog(folderId, conversationId),
+      },
+      {
+        label: conv.starred ? this.t('conversation_unstar') : this.t('conversation_star'),
+        action: () => this.toggleConversationStar(folderId, conversationId),
+      },
+      {
+        label: this.t('folder_rename'),
+        action: () => this.renameConversation(folderId, conversationId, titleElement),
+      },
+    ];
+
+    menuItems.forEach((item) => {
+      const menuItem = document.createElement('button');
+      menuItem.className = 'gv-folder-menu-item';
+      menuItem.textContent = item.label;
+      menuItem.addEventListener('click', () => {
+        item.action();
+        menu.remove();
+      });
+      menu.appendChild(menuItem);
+    });
+
+    document.body.appendChild(menu);
+
+    const closeMenu = (e: MouseEvent) => {
+      if (!menu.contains(e.target as Node)) {
+        menu.remove();
+        document.removeEventListener('click', closeMenu);
+      }
+    };
+    setTimeout(() => document.addEventListener('click', closeMenu), 0);
+  }
+
+  /**
+   * Dialog for editing the tags and note of a conversation.
+   * Changes apply to every folder the conversation is saved in.
+   */
+  private showConversationAnnotationDialog(folderId: string, conversationId: string): void {
+    const conv = this.data.folderContents[folderId]?.find(
+      (c) => c.conversationId === conversationId,
+    );
+    if (!conv) return;
+
+    const existingTags = this.data.tags || [];
+    const createdTags: ConversationTag[] = [];
+    const selected = new Set(getConversationTags(conv, existingTags).map((tag) => tag.id));
+    let newTagColor = 'blue';
+
+    const overlay = document.createElement('div');
+    overlay.className = 'gv-folder-dialog-overlay';
+
+    const dialog = document.createElement('div');
+    dialog.className = 'gv-folder-import-dialog gv-conversation-annotation-dialog';
+
+    const dialogTitle = document.createElement('div');
+    dialogTitle.className = 'gv-folder-dialog-title';
+    dialogTitle.textContent = this.t('conversation_tags_notes');
+
+    const subtitle = document.createElement('div');
+    subtitle.className = 'gv-conversation-annotation-subtitle';
+    subtitle.textContent = conv.title;
+
+    const tagsLabel = document.createElement('div');
+    tagsLabel.className = 'gv-conversation-annotation-label';
+    tagsLabel.textContent = this.t('conversation_tags');
+
+    // Existing tags as toggle chips
+    const tagPicker = document.createElement('div');
+    tagPicker.className = 'gv-conversation-tag-picker';
+    const dark = isDarkMode();
+    const renderTagPicker = () => {
+      tagPicker.replaceChildren();
+      [...existingTags, ...createdTags].forEach((tag) => {
+        const chip = document.createElement('button');
+        chip.type = 'button';
+        chip.className = selected.has(tag.id)
+          ? 'gv-conversation-tag gv-conversation-tag-option gv-selected'
+          : 'gv-conversation-tag gv-conversation-tag-option';
+        chip.textContent = tag.name;
+        chip.setAttribute('aria-pressed', String(selected.has(tag.id)));
+        chip.style.setProperty('--gv-tag-color', getFolderColor(tag.color, dark));
+        chip.addEventListener('click', () => {
+          if (selected.has(tag.id)) selected.delete(tag.id);
+          else selected.add(tag.id);
+          renderTagPicker();
+        });
+        tagPicker.appendChild(chip);
+      });
+    };
+    renderTagPicker();
+
+    // New tag: name + colour swatches
+    const createRow = document.createElement('div');
+    createRow.className = 'gv-conversation-tag-create';
+
+    const tagInput = document.createElement('input');
+    tagInput.type = 'text';
+    tagInput.className = 'gv-folder-name-input';
+    tagInput.placeholder = this.t('conversation_tag_new');
+    tagInput.maxLength = MAX_TAG_NAME_LENGTH;
+
+    const swatches = document.createElement('div');
+    swatches.className = 'gv-conversation-tag-colors';
+    FOLDER_COLORS.forEach((color) => {
+      const swatch = document.createElement('button');
+      swatch.type = 'button';
+      swatch.className =
+        color.id === newTagColor
+          ? 'gv-conversation-tag-color gv-selected'
+          : 'gv-conversation-tag-color';
+      swatch.style.backgroundColor = dark ? color.darkColor : color.lightColor;
+      swatch.title = this.t(color.nameKey);
+      swatch.addEventListener('click', () => {
+        newTagColor = color.id;
+        swatches.querySelectorAll('.gv-conversation-tag-color').forEach((el) => {
+          el.classList.toggle('gv-selected', el === swatch);
+        });
+      });
+      swatches.appendChild(swatch);
+    });
+
+    const addTag = () => {
+      const name = normalizeTagName(tagInput.value);
+      if (!name) return;
+      const tag = findTagByName([...existingTags, ...createdTags], name);
+      if (tag) {
+        selected.add(tag.id);
+      } else {
+        const now = Date.now();
+        const created = {
+          id: this.generateId(),
+          name,
+          color: newTagColor,
+          createdAt: now,
+          updatedAt: now,
+        };
+        createdTags.push(created);
+        selected.add(created.id);
+      }
+      tagInput.value = '';
+      renderTagPicker();
+    };
+
+    const addTagBtn = document.createElement('button');
+    addTagBtn.type = 'button';
+    addTagBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-secondary';
+    addTagBtn.textContent = this.t('conversation_tag_add');
+    addTagBtn.addEventListener('click', addTag);
+
+    createRow.appendChild(tagInput);
+    createRow.appendChild(addTagBtn);
+
+    const noteLabel = document.createElement('div');
+    noteLabel.className = 'gv-conversation-annotation-label';
+    noteLabel.textContent = this.t('conversation_note');
+
+    const noteInput = document.createElement('textarea');
+    noteInput.className = 'gv-folder-name-input gv-conversation-note-input';
+    noteInput.placeholder = this.t('conversation_note_placeholder');
+    noteInput.maxLength = MAX_NOTE_LENGTH;
+    noteInput.rows = 4;
+    noteInput.value = conv.note ?? '';
+
+    const buttonsContainer = document.createElement('div');
+    buttonsContainer.className = 'gv-folder-dialog-buttons';
+
+    const close = () => overlay.remove();
+
+    const save = () => {
+      // A name typed but not yet added still counts
+      if (normalizeTagName(tagInput.value)) addTag();
+
+      const allTags = [...existingTags, ...createdTags];
+      this.data.tags = [...existingTags, ...createdTags.filter((tag) => selected.has(tag.id))];
+      applyConversationAnnotations(this.data, conversationId, {
+        tagIds: allTags.filter((tag) => selected.has(tag.id)).map((tag) => tag.id),
+        note: noteInput.value,
+      });
+      pruneUnusedTags(this.data);
+      if (this.activeTagFilter && !this.data.tags.some((t) => t.id === this.activeTagFilter)) {
+        this.setTagFilter(null);
+      }
+      this.saveData();
+      this.refresh();
+      close();
+    };
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-secondary';
+    cancelBtn.textContent = this.t('pm_cancel');
+    cancelBtn.addEventListener('click', close);
+
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-primary';
+    saveBtn.textContent = this.t('pm_save');
+    saveBtn.addEventListener('click', save);
+
+    buttonsContainer.appendChild(cancelBtn);
+    buttonsContainer.appendChild(saveBtn);
+
+    dialog.appendChild(dialogTitle);
+    dialog.appendChild(subtitle);
+    dialog.appendChild(tagsLabel);
+    dialog.appendChild(tagPicker);
+    dialog.appendChild(createRow);
+    dialog.appendChild(swatches);
+    dialog.appendChild(noteLabel);
+    dialog.appendChild(noteInput);
+    dialog.appendChild(buttonsContainer);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+
+    dialog.addEventListener('keydown', (e) => {
+      // Keep Gemini's global shortcuts from reacting while typing
+      e.stopPropagation();
+      if (e.key === 'Escape') close();
+      if (e.key === 'Enter' && e.target === tagInput) {
+        e.preventDefault();
+        addTag();
+      }
+    });
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) close();
+    });
+
+    (existingTags.length ? noteInput : tagInput).focus();
+  }
+
+  /**
+   * Header menu listing the tags in use; picking one filters the tree to tagged conversations
+   */
+  private showTagFilterMenu(event: MouseEvent): void {
+    event.stopPropagation();
+
+    const menu = document.createElement('div');
+    menu.className = 'gv-folder-menu gv-folder-tag-filter-menu';
+    menu.style.position = 'fixed';
+    menu.style.left = `${event.clientX}px`;
+    menu.style.top = `${event.clientY}px`;
+
+    const tags = this.data.tags || [];
+    const dark = isDarkMode();
+
+    const addItem = (label: string, tag: ConversationTag | null) => {
+      const menuItem = document.createElement('button');
+      menuItem.className = 'gv-folder-menu-item';
+      if ((tag?.id ?? null) === this.activeTagFilter) {
+        menuItem.classList.add('gv-selected');
       }
-      try {
-        titleElement.textContent = conv.title;
-      } catch (e) {
-        this.debug('Failed to restore title text:', e);
+      if (tag) {
+        const dot = document.createElement('span');
+        dot.className = 'gv-conversation-tag-dot';
+        dot.style.backgroundColor = getFolderColor(tag.color, dark);
+        menuItem.appendChild(dot);
       }
+      menuItem.appendChild(document.createTextNode(label));
+      menuItem.addEventListener('click', () => {
+        this.setTagFilter(tag?.id ?? null);
+        this.refresh();
+        menu.remove();
+      });
+      menu.appendChild(menuItem);
     };
-    const onBlur = () => {
-      // Defer finalize to let Angular/SPA navigation settle
-      requestAnimationFrame(() => finalize(true));
-    };
-    const onKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Enter') {
-        e.preventDefault();
-        finalize(true);
-      } else if (e.key === 'Escape') {
-        e.preventDefault();
-        finalize(false);
+
+    if (tags.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'gv-folder-tag-filter-empty';
+      empty.textContent = this.t('folder_tag_filter_empty');
+      menu.appendChild(empty);
+    } else {
+      addItem(this.t('folder_tag_filter_all'), null);
+      [...tags]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach((tag) => addItem(tag.name, tag));
+    }
+
+    document.body.appendChild(menu);
+
+    const closeMenu = (e: MouseEvent) => {
+      if (!menu.contains(e.target as Node)) {
+        menu.remove();
+        document.removeEventListener('click', closeMenu);
       }
     };
+    setTimeout(() => document.addEventListener('click', closeMenu), 0);
+  }
 
-    input.addEventListener('blur', onBlur);
-    input.addEventListener('keydown', onKeyDown);
+  private setTagFilter(tagId: string | null): void {
+    this.activeTagFilter = tagId;
+    this.containerElement
+      ?.querySelector('.gv-folder-tag-filter-toggle')
+      ?.classList.toggle('gv-filter-active', !!tagId);
   }
 
   private showFolderMenu(event: MouseEvent, folderId: string): void {
@@ -3451,6 +4967,10 @@ export class FolderManager {
       { label: this.t('folder_create_subfolder'), action: () => this.createFolder(folderId) },
       { label: this.t('folder_rename'), action: () => this.renameFolder(folderId) },
       { label: this.t('folder_change_color'), action: () => this.showColorPicker(folderId, event) },
+      {
+        label: this.t('folder_export_archive'),
+        action: () => this.showFolderExportDialog(folderId),
+      },
       { label: this.t('folder_delete'), action: () => this.deleteFolder(folderId) },
     ];
 
@@ -3477,6 +4997,111 @@ export class FolderManager {
     setTimeout(() => document.addEventListener('click', closeMenu), 0);
   }
 
+  /**
+   * Ask for the archive format, then hand the folder's conversations to the export module,
+   * which opens each one in turn and downloads a ZIP archive
+   */
+  private showFolderExportDialog(folderId: string): void {
+    const folder = this.data.folders.find((f) => f.id === folderId);
+    if (!folder) return;
+    const hasSubfolders = this.data.folders.some((f) => f.parentId === folderId);
+
+    const overlay = document.createElement('div');
+    overlay.className = 'gv-folder-dialog-overlay';
+
+    const dialog = document.createElement('div');
+    dialog.className = 'gv-folder-import-dialog gv-folder-export-dialog';
+
+    const dialogTitle = document.createElement('div');
+    dialogTitle.className = 'gv-folder-dialog-title';
+    dialogTitle.textContent = this.t('folder_export_title').replace('{folder}', folder.name);
+
+    const formatContainer = document.createElement('div');
+    formatContainer.className = 'gv-folder-import-strategy';
+
+    const formatLabel = document.createElement('div');
+    formatLabel.className = 'gv-folder-import-strategy-label';
+    formatLabel.textContent = this.t('export_dialog_select');
+
+    const formatOptions = document.createElement('div');
+    formatOptions.className = 'gv-folder-import-strategy-options';
+    const markdownOption = this.createRadioOption('markdown', 'Markdown', true);
+    const jsonOption = this.createRadioOption('json', 'JSON', false);
+    const vaultOption = this.createRadioOption('vault', 'Obsidian / Logseq', false);
+    formatOptions.appendChild(markdownOption);
+    formatOptions.appendChild(jsonOption);
+    formatOptions.appendChild(vaultOption);
+    formatContainer.appendChild(formatLabel);
+    formatContainer.appendChild(formatOptions);
+
+    const subfoldersOption = document.createElement('label');
+    subfoldersOption.className = 'gv-folder-import-radio-option gv-folder-export-subfolders';
+    const subfoldersCheckbox = document.createElement('input');
+    subfoldersCheckbox.type = 'checkbox';
+    subfoldersCheckbox.checked = hasSubfolders;
+    const subfoldersText = document.createElement('span');
+    subfoldersText.textContent = this.t('folder_export_include_subfolders');
+    subfoldersOption.appendChild(subfoldersCheckbox);
+    subfoldersOption.appendChild(subfoldersText);
+
+    const hint = document.createElement('div');
+    hint.className = 'gv-folder-export-hint';
+    const updateHint = () => {
+      const count = collectFolderExportItems(
+        this.data,
+        folderId,
+        subfoldersCheckbox.checked,
+      ).length;
+      hint.textContent = this.t('folder_export_hint').replace('{count}', String(count));
+      exportBtn.disabled = count === 0;
+    };
+    subfoldersCheckbox.addEventListener('change', updateHint);
+
+    const close = () => overlay.remove();
+
+    const cancelBtn = document.createElement('button');
+    cancelBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-secondary';
+    cancelBtn.textContent = this.t('pm_cancel');
+    cancelBtn.addEventListener('click', close);
+
+    const exportBtn = document.createElement('button');
+    exportBtn.className = 'gv-folder-dialog-btn gv-folder-dialog-btn-primary';
+    exportBtn.textContent = this.t('pm_export');
+    exportBtn.addEventListener('click', () => {
+      const checked = formatOptions.querySelector<HTMLInputElement>('input:checked');
+      const format = (checked?.value ?? 'markdown') as FolderExportFormat;
+      const request: FolderExportRequest = {
+        folderName: folder.name,
+        format,
+        items: collectFolderExportItems(this.data, folderId, subfoldersCheckbox.checked),
+      };
+      close();
+      window.dispatchEvent(new CustomEvent(FOLDER_EXPORT_EVENT, { detail: request }));
+    });
+
+    const buttonsContainer = document.createElement('div');
+    buttonsContainer.className = 'gv-folder-dialog-buttons';
+    buttonsContainer.appendChild(cancelBtn);
+    buttonsContainer.appendChild(exportBtn);
+
+    dialog.appendChild(dialogTitle);
+    dialog.appendChild(formatContainer);
+    if (hasSubfolders) dialog.appendChild(subfoldersOption);
+    dialog.appendChild(hint);
+    dialog.appendChild(buttonsContainer);
+    overlay.appendChild(dialog);
+    document.body.appendChild(overlay);
+    updateHint();
+
+    dialog.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      if (e.key === 'Escape') close();
+    });
+    overlay.addEventListener('click', (e) => {
+      if (e.target === overlay) close();
+    });
+  }
+
   /**
    * Show color picker dialog for a folder
    * @param folderId The folder ID to change color
@@ -4460,21 +6085,20 @@ export class FolderManager {
   }
 
   private removeConversationFromAllFolders(conversationId: string): void {
-    // Remove this conversation from all folders when the original conversation is deleted
+    // Remove this conversation from all folders when the original conversation is deleted.
+    // Entries go to the trash, as a DOM glitch can look exactly like a deletion.
     let removed = false;
 
     for (const folderId in this.data.folderContents) {
-      const conversations = this.data.folderContents[folderId];
-      const initialLength = conversations.length;
-
-      // Filter out the deleted conversation
-      this.data.folderContents[folderId] = conversations.filter(
-        (conv) => conv.conversationId !== conversationId && !conv.url.includes(conversationId),
+      const trashed = moveConversationsToTrash(
+        this.data,
+        folderId,
+        (conv) => conv.conversationId === conversationId || conv.url.includes(conversationId),
       );
 
-      if (this.data.folderContents[folderId].length < initialLength) {
+      if (trashed.length > 0) {
         removed = true;
-        this.debug(`Removed deleted conversation ${conversationId} from folder ${folderId}`);
+        this.debug(`Moved deleted conversation ${conversationId} from folder ${folderId} to trash`);
       }
     }
 
@@ -4647,6 +6271,7 @@ export class FolderManager {
   }
 
   private refresh(): void {
+    this.notifyDataChange();
     if (!this.containerElement) return;
 
     // Find and update the folders list
@@ -4738,7 +6363,7 @@ export class FolderManager {
    */
   private async loadData(): Promise<void> {
     try {
-      const loadedData = await this.storage.loadData(STORAGE_KEY);
+      const loadedData = await this.storage.loadData(this.storageKey);
 
       if (loadedData && validateFolderData(loadedData)) {
         this.data = loadedData;
@@ -4904,7 +6529,7 @@ export class FolderManager {
       // Additional safety check: warn if saving empty data
       if (this.data.folders.length === 0 && Object.keys(this.data.folderContents).length === 0) {
         // Check if we're about to overwrite non-empty data
-        const existingData = await this.storage.loadData(STORAGE_KEY);
+        const existingData = await this.storage.loadData(this.storageKey);
         if (
           existingData &&
           (existingData.folders.length > 0 || Object.keys(existingData.folderContents).length > 0)
@@ -4918,12 +6543,12 @@ export class FolderManager {
       }
 
       // Save via storage adapter (handles both Safari and non-Safari)
-      success = await this.storage.saveData(STORAGE_KEY, this.data);
+      success = await this.storage.saveData(this.storageKey, this.data);
 
       // Retry once if the first attempt fails (for transient errors)
       if (!success) {
         console.warn('[FolderManager] Save failed, retrying once...');
-        success = await this.storage.saveData(STORAGE_KEY, this.data);
+        success = await this.storage.saveData(this.storageKey, this.data);
       }
 
       if (success) {
@@ -4993,6 +6618,17 @@ export class FolderManager {
     }
   }
 
+  private async loadForkedConversations(): Promise<void> {
+    try {
+      const result = await browser.storage.local.get(StorageKeys.FORK_NODES);
+      this.forkedConversationIds = getForkedConversationIds(
+        result[StorageKeys.FORK_NODES] as ForkNodesData | undefined,
+      );
+    } catch (error) {
+      console.error('[FolderManager] Failed to load fork nodes:', error);
+    }
+  }
+
   private applyFolderTreeIndentSetting(value: unknown): void {
     const nextIndent = clampFolderTreeIndent(value);
     if (nextIndent === this.folderTreeIndent) return;
@@ -5035,8 +6671,18 @@ export class FolderManager {
         this.debug('Language changed (local), updating UI text...');
         this.updateHeaderLanguageText();
       }
+      // Fork branches feed the "has forks" smart folder rule
+      if (areaName === 'local' && changes[StorageKeys.FORK_NODES]) {
+        this.forkedConversationIds = getForkedConversationIds(
+          changes[StorageKeys.FORK_NODES].newValue as ForkNodesData | undefined,
+        );
+        if (this.data.smartFolders?.length) this.renderAllFolders();
+      }
       // Listen for folder data changes from cloud sync
-      if (areaName === 'local' && changes.gvFolderData) {
+      if (areaName === 'local' && changes[StorageKeys.FOLDER_ACCOUNTS]) {
+        this.accounts = normalizeAccountRegistry(changes[StorageKeys.FOLDER_ACCOUNTS].newValue);
+      }
+      if (areaName === 'local' && changes[this.storageKey]) {
         this.debug('Folder data changed in chrome.storage.local, reloading...');
         this.reloadFoldersFromStorage();
       }
@@ -5059,6 +6705,16 @@ export class FolderManager {
   /**
    * Reload folder data from chrome.storage.local and refresh UI
    */
+  private notifyDataChange(): void {
+    this.dataChangeListeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[FolderManager] Data change listener failed:', error);
+      }
+    });
+  }
+
   private async reloadFoldersFromStorage(): Promise<void> {
     try {
       await this.loadData();
@@ -5398,6 +7054,7 @@ export class FolderManager {
   }
 
   private renderAllFolders(): void {
+    this.notifyDataChange();
     if (!this.containerElement) return;
 
     // Find the existing folders list
@@ -5546,6 +7203,14 @@ export class FolderManager {
           const icon = btn.querySelector('mat-icon');
           if (icon?.textContent === 'person') {
             btn.title = this.t('folder_filter_current_user');
+          } else if (icon?.textContent === 'search') {
+            btn.title = this.t('folder_search');
+          } else if (icon?.textContent === 'sell') {
+            btn.title = this.t('folder_tag_filter');
+          } else if (icon?.textContent === 'switch_account') {
+            btn.title = this.t('folder_switch_account');
+          } else if (icon?.textContent === 'folder_special') {
+            btn.title = this.t('folder_smart_create');
           } else if (icon?.textContent === 'folder_managed') {
             btn.title = this.t('folder_import_export');
           }
@@ -5564,6 +7229,8 @@ export class FolderManager {
       });
     }
 
+    this.updateAccountBanner();
+
     // Update empty state text if present
     const emptyState = this.containerElement.querySelector('.gv-folder-empty');
     if (emptyState) {
@@ -5582,6 +7249,7 @@ export class FolderManager {
         sendResponse({
           ok: true,
           data: this.data,
+          accountId: this.viewAccountId,
         });
         // Return true to indicate we might respond asynchronously (though we responded synchronously above)
         // This is good practice in some browser implementations or if we change logic later
@@ -5933,12 +7601,12 @@ export class FolderManager {
    *   - Returns false otherwise.
    */
   private hasVisibleContent(folderId: string): boolean {
-    if (!this.filterCurrentUserOnly) return true;
+    if (!this.filterCurrentUserOnly && !this.activeTagFilter) return true;
 
     // Check direct conversations
     const conversations = this.data.folderContents[folderId] || [];
-    const userConversations = this.filterConversationsByCurrentUser(conversations);
-    if (userConversations.length > 0) return true;
+    const visibleConversations = this.filterVisibleConversations(conversations);
+    if (visibleConversations.length > 0) return true;
 
     // Check subfolders recursively
     const subfolders = this.data.folders.filter((f) => f.parentId === folderId);
@@ -5949,6 +7617,18 @@ export class FolderManager {
     return false;
   }
 
+  /**
+   * Apply the header filters (current user, tag) to a conversation list
+   */
+  private filterVisibleConversations(
+    conversations: ConversationReference[],
+  ): ConversationReference[] {
+    const userConversations = this.filterConversationsByCurrentUser(conversations);
+    const tagId = this.activeTagFilter;
+    if (!tagId) return userConversations;
+    return userConversations.filter((conv) => conv.tagIds?.includes(tagId));
+  }
+
   /**
    * Filter conversations to show only those belonging to the current user.
    * If filterCurrentUserOnly is false, returns all conversations.
@@ -5969,20 +7649,14 @@ export class FolderManager {
   }
 
   /**
-   * Get the current user ID from the URL.
+   * Get the user ID the "current user" filter keeps: the account whose tree is shown.
    * URL patterns:
    * - /u/0/app/xxx → user "0"
    * - /u/1/app/xxx → user "1"
    * - /app?hl=zh&pageId=none → user "0" (default)
    */
   private getCurrentUserId(): string {
-    try {
-      const path = window.location.pathname;
-      const match = path.match(/^\/u\/(\d+)\//);
-      return match ? match[1] : '0';
-    } catch {
-      return '0';
-    }
+    return this.viewAccountId;
   }
 
   /**
@@ -5991,13 +7665,177 @@ export class FolderManager {
    * @returns User ID string, or null if unspecified (e.g. /app/...)
    */
   private getUserIdFromUrl(url: string): string | null {
+    return getAccountIdFromUrl(url);
+  }
+
+  /**
+   * Storage key of the folder tree currently shown
+   */
+  private get storageKey(): string {
+    return getFolderStorageKey(this.viewAccountId);
+  }
+
+  private createBackupService(accountId: string): DataBackupService<FolderData> {
+    const namespace =
+      accountId === DEFAULT_ACCOUNT_ID ? 'gemini-folders' : `gemini-folders-u${accountId}`;
+    return new DataBackupService<FolderData>(namespace, validateFolderData);
+  }
+
+  /**
+   * One-time split of the legacy shared tree into per-account trees.
+   * Conversations saved from /u/<n>/ pages move to that account's tree; everything else
+   * stays with the default account, which keeps the legacy storage key.
+   */
+  private async migrateFolderDataToAccounts(): Promise<void> {
     try {
-      const urlObj = new URL(url);
-      const match = urlObj.pathname.match(/^\/u\/(\d+)\//);
-      return match ? match[1] : null;
-    } catch {
-      return null;
+      const flag = await browser.storage.local.get(StorageKeys.FOLDER_ACCOUNTS_MIGRATED);
+      if (flag[StorageKeys.FOLDER_ACCOUNTS_MIGRATED]) return;
+
+      const legacyKey = getFolderStorageKey(DEFAULT_ACCOUNT_ID);
+      const legacyData = await this.storage.loadData(legacyKey);
+      if (legacyData && validateFolderData(legacyData)) {
+        const split = splitFolderDataByAccount(legacyData, ROOT_CONVERSATIONS_ID);
+        const accountIds = Object.keys(split).filter((id) => id !== DEFAULT_ACCOUNT_ID);
+
+        // Write the other accounts before shrinking the legacy tree, so an interrupted
+        // migration never loses conversations (it simply runs again on the next load)
+        for (const accountId of accountIds) {
+          const key = getFolderStorageKey(accountId);
+          // Another tab may have migrated concurrently and produced the same split
+          if (await this.storage.loadData(key)) continue;
+          if (!(await this.storage.saveData(key, split[accountId]))) return;
+        }
+        if (accountIds.length > 0) {
+          if (!(await this.storage.saveData(legacyKey, split[DEFAULT_ACCOUNT_ID]))) return;
+
+          const result = await browser.storage.local.get(StorageKeys.FOLDER_ACCOUNTS);
+          let registry = normalizeAccountRegistry(result[StorageKeys.FOLDER_ACCOUNTS]);
+          for (const accountId of accountIds) {
+            registry = registerAccount(registry, accountId, null, registry[accountId]?.lastSeenAt);
+          }
+          await browser.storage.local.set({ [StorageKeys.FOLDER_ACCOUNTS]: registry });
+          this.debug(`Split folder data into ${accountIds.length + 1} account trees`);
+        }
+      }
+
+      await browser.storage.local.set({ [StorageKeys.FOLDER_ACCOUNTS_MIGRATED]: true });
+    } catch (error) {
+      console.error('[FolderManager] Account migration failed:', error);
+    }
+  }
+
+  /**
+   * Record this page's account (and its email when visible) for the account switcher
+   */
+  private async registerCurrentAccount(): Promise<void> {
+    try {
+      const result = await browser.storage.local.get(StorageKeys.FOLDER_ACCOUNTS);
+      const registry = normalizeAccountRegistry(result[StorageKeys.FOLDER_ACCOUNTS]);
+      this.accounts = registerAccount(registry, this.accountId, detectAccountLabel(document));
+      await browser.storage.local.set({ [StorageKeys.FOLDER_ACCOUNTS]: this.accounts });
+    } catch (error) {
+      this.debugWarn('Failed to register account:', error);
+    }
+  }
+
+  private getAccountDisplayName(accountId: string): string {
+    return (
+      this.accounts[accountId]?.label ||
+      this.t('folder_account_index').replace('{index}', accountId)
+    );
+  }
+
+  /**
+   * Header menu listing the known accounts; picking one shows that account's tree
+   */
+  private showAccountMenu(event: MouseEvent): void {
+    event.stopPropagation();
+
+    const menu = document.createElement('div');
+    menu.className = 'gv-folder-menu gv-folder-account-menu';
+    menu.style.position = 'fixed';
+    menu.style.left = `${event.clientX}px`;
+    menu.style.top = `${event.clientY}px`;
+
+    getRegisteredAccountIds(this.accounts).forEach((accountId) => {
+      const menuItem = document.createElement('button');
+      menuItem.className = 'gv-folder-menu-item';
+      if (accountId === this.viewAccountId) {
+        menuItem.classList.add('gv-selected');
+      }
+      const suffix = accountId === this.accountId ? ` (${this.t('folder_account_this_page')})` : '';
+      menuItem.textContent = `${this.getAccountDisplayName(accountId)}${suffix}`;
+      menuItem.addEventListener('click', () => {
+        menu.remove();
+        void this.switchViewAccount(accountId);
+      });
+      menu.appendChild(menuItem);
+    });
+
+    document.body.appendChild(menu);
+
+    const closeMenu = (e: MouseEvent) => {
+      if (!menu.contains(e.target as Node)) {
+        menu.remove();
+        document.removeEventListener('click', closeMenu);
+      }
+    };
+    setTimeout(() => document.addEventListener('click', closeMenu), 0);
+  }
+
+  /**
+   * Show another account's folder tree in this page. Edits are saved to that account.
+   */
+  private async switchViewAccount(accountId: string): Promise<void> {
+    if (accountId === this.viewAccountId) return;
+
+    // Let an in-flight save finish writing to the tree being left
+    while (this.saveInProgress) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
     }
+
+    this.backupService.destroy();
+    this.viewAccountId = accountId;
+    setViewedAccountId(accountId === this.accountId ? null : accountId);
+    this.backupService = this.createBackupService(accountId);
+    this.backupService.setupBeforeUnloadBackup(() => this.data);
+
+    await this.storage.init(this.storageKey);
+    await this.loadData();
+    this.setTagFilter(null);
+    this.updateAccountBanner();
+    this.refresh();
+  }
+
+  /**
+   * Banner shown above the tree while it belongs to another account than the page
+   */
+  private updateAccountBanner(): void {
+    if (!this.containerElement) return;
+    this.containerElement.querySelector('.gv-folder-account-banner')?.remove();
+    this.containerElement
+      .querySelector('.gv-folder-account-toggle')
+      ?.classList.toggle('gv-filter-active', this.viewAccountId !== this.accountId);
+    if (this.viewAccountId === this.accountId) return;
+
+    const banner = document.createElement('div');
+    banner.className = 'gv-folder-account-banner';
+
+    const text = document.createElement('span');
+    text.className = 'gv-folder-account-banner-text';
+    text.textContent = this.t('folder_account_viewing').replace(
+      '{account}',
+      this.getAccountDisplayName(this.viewAccountId),
+    );
+
+    const backButton = document.createElement('button');
+    backButton.className = 'gv-folder-account-banner-btn';
+    backButton.textContent = this.t('folder_account_back');
+    backButton.addEventListener('click', () => void this.switchViewAccount(this.accountId));
+
+    banner.appendChild(text);
+    banner.appendChild(backButton);
+    this.containerElement.querySelector('.gv-folder-header')?.after(banner);
   }
 
   /**
@@ -6136,7 +7974,7 @@ export class FolderManager {
       // Background script will also fetch starred messages for Gemini platform
       const response = (await browser.runtime.sendMessage({
         type: 'gv.sync.upload',
-        payload: { folders, prompts, platform: 'gemini' },
+        payload: { folders, prompts, platform: 'gemini', accountId: this.viewAccountId },
       })) as { ok?: boolean; error?: string } | undefined;
 
       if (response?.ok) {
@@ -6163,15 +8001,16 @@ export class FolderManager {
       // Send download request to background script
       const response = (await browser.runtime.sendMessage({
         type: 'gv.sync.download',
-        payload: { platform: 'gemini' },
+        payload: { platform: 'gemini', accountId: this.viewAccountId },
       })) as
         | {
             ok?: boolean;
             error?: string;
             data?: {
               folders?: { data?: FolderData };
-              prompts?: { items?: PromptItem[] };
-              starred?: { data?: { messages: Record<string, unknown[]> } };
+              prompts?: { items?: PromptItem[]; collections?: PromptCollection[] };
+              starred?: { data?: StarredMessagesData };
+              timelineOutline?: { data?: TimelineOutlineData };
             };
           }
         | undefined;
@@ -6193,25 +8032,36 @@ export class FolderManager {
       const cloudStarredPayload = response.data?.starred;
       const cloudFolderData = cloudFoldersPayload?.data || { folders: [], folderContents: {} };
       const cloudPromptItems = cloudPromptsPayload?.items || [];
-      const cloudStarredData = cloudStarredPayload?.data || { messages: {} };
+      const cloudStarredData: StarredMessagesData = cloudStarredPayload?.data || { messages: {} };
+      const cloudOutline = normalizeTimelineOutline(
+        response.data?.timelineOutline?.data?.levels,
+        response.data?.timelineOutline?.data?.collapsed,
+      );
 
       this.debug(
         `Downloaded - folders: ${cloudFolderData.folders?.length || 0}, prompts: ${cloudPromptItems.length}, starred conversations: ${Object.keys(cloudStarredData.messages || {}).length}`,
       );
 
-      // Get local prompts for merge
+      // Get local prompts and prompt collections for merge
       let localPrompts: PromptItem[] = [];
+      let localCollections: PromptCollection[] = [];
       try {
-        const storageResult = await chrome.storage.local.get(['gvPromptItems']);
+        const storageResult = await chrome.storage.local.get([
+          'gvPromptItems',
+          StorageKeys.PROMPT_COLLECTIONS,
+        ]);
         if (storageResult.gvPromptItems) {
           localPrompts = storageResult.gvPromptItems as PromptItem[];
         }
+        if (Array.isArray(storageResult[StorageKeys.PROMPT_COLLECTIONS])) {
+          localCollections = storageResult[StorageKeys.PROMPT_COLLECTIONS] as PromptCollection[];
+        }
       } catch (err) {
         console.warn('[FolderManager] Could not get local prompts for merge:', err);
       }
 
       // Get local starred messages for merge
-      let localStarred = { messages: {} as Record<string, unknown[]> };
+      let localStarred: StarredMessagesData = { messages: {} };
       try {
         const starredResult = await chrome.storage.local.get(['geminiTimelineStarredMessages']);
         if (starredResult.geminiTimelineStarredMessages) {
@@ -6221,15 +8071,38 @@ export class FolderManager {
         console.warn('[FolderManager] Could not get local starred messages for merge:', err);
       }
 
+      // Get local timeline outline (marker levels and collapsed markers) for merge
+      let localOutline = normalizeTimelineOutline(null, null);
+      try {
+        const outlineResult = await chrome.storage.local.get([
+          StorageKeys.TIMELINE_MARKER_LEVELS,
+          StorageKeys.TIMELINE_COLLAPSED_MARKERS,
+        ]);
+        localOutline = normalizeTimelineOutline(
+          outlineResult[StorageKeys.TIMELINE_MARKER_LEVELS],
+          outlineResult[StorageKeys.TIMELINE_COLLAPSED_MARKERS],
+        );
+      } catch (err) {
+        console.warn('[FolderManager] Could not get local timeline outline for merge:', err);
+      }
+
       // Merge folder data
       const localFolders = this.data;
       const mergedFolders = this.mergeFolderData(localFolders, cloudFolderData);
 
-      // Merge prompts (simple ID-based merge)
-      const mergedPrompts = this.mergePrompts(localPrompts, cloudPromptItems);
+      // Merge prompts (newer copy wins, revision histories combined)
+      const mergedPrompts = mergePrompts(
+        localPrompts.filter((p) => p?.id),
+        cloudPromptItems.filter((p) => p?.id),
+      );
+      const mergedCollections = mergePromptCollections(
+        localCollections,
+        cloudPromptsPayload?.collections || [],
+      );
 
-      // Merge starred messages
-      const mergedStarred = this.mergeStarredMessages(localStarred, cloudStarredData);
+      // Merge starred messages (and the timeline annotations stored with them)
+      const mergedStarred = mergeStarredMessages(localStarred, cloudStarredData);
+      const mergedOutline = mergeTimelineOutline(localOutline, cloudOutline);
 
       this.debug(
         `Merged - folders: ${mergedFolders.folders?.length || 0}, prompts: ${mergedPrompts.length}, starred conversations: ${Object.keys(mergedStarred.messages || {}).length}`,
@@ -6239,11 +8112,14 @@ export class FolderManager {
       this.data = mergedFolders;
       await this.saveData();
 
-      // Save merged prompts and starred to storage
+      // Save merged prompts, starred and the timeline outline to storage
       try {
         await chrome.storage.local.set({
           gvPromptItems: mergedPrompts,
+          [StorageKeys.PROMPT_COLLECTIONS]: mergedCollections,
           geminiTimelineStarredMessages: mergedStarred,
+          [StorageKeys.TIMELINE_MARKER_LEVELS]: mergedOutline.levels,
+          [StorageKeys.TIMELINE_COLLAPSED_MARKERS]: mergedOutline.collapsed,
         });
       } catch (err) {
         console.error('[FolderManager] Failed to save merged prompts/starred:', err);
@@ -6258,87 +8134,6 @@ export class FolderManager {
     }
   }
 
-  /**
-   * Merge prompts by ID (simple deduplication)
-   */
-  private mergePrompts(local: PromptItem[], cloud: PromptItem[]): PromptItem[] {
-    const promptMap = new Map<string, PromptItem>();
-
-    // Add local prompts first
-    local.forEach((p) => {
-      if (p?.id) promptMap.set(p.id, p);
-    });
-
-    // Add cloud prompts (cloud takes priority for newer items)
-    cloud.forEach((p) => {
-      if (!p?.id) return;
-      const existing = promptMap.get(p.id);
-      if (!existing) {
-        promptMap.set(p.id, p);
-      } else {
-        // Compare timestamps, prefer newer
-        const cloudTime = p.updatedAt || p.createdAt || 0;
-        const localTime = existing.updatedAt || existing.createdAt || 0;
-        if (cloudTime > localTime) {
-          promptMap.set(p.id, p);
-        }
-      }
-    });
-
-    return Array.from(promptMap.values());
-  }
-
-  /**
-   * Merge starred messages by conversationId and turnId
-   */
-  private mergeStarredMessages(
-    local: { messages: Record<string, unknown[]> },
-    cloud: { messages: Record<string, unknown[]> },
-  ): { messages: Record<string, unknown[]> } {
-    const localMessages = local?.messages || {};
-    const cloudMessages = cloud?.messages || {};
-
-    const allConversationIds = new Set([
-      ...Object.keys(localMessages),
-      ...Object.keys(cloudMessages),
-    ]);
-
-    const mergedMessages: Record<string, unknown[]> = {};
-
-    allConversationIds.forEach((conversationId) => {
-      const localConvoMessages = localMessages[conversationId] || [];
-      const cloudConvoMessages = cloudMessages[conversationId] || [];
-
-      type StarredMsg = { turnId?: string; starredAt?: number };
-      const messageMap = new Map<string, unknown>();
-
-      // Add cloud messages first
-      cloudConvoMessages.forEach((m) => {
-        const msg = m as StarredMsg;
-        if (msg?.turnId) messageMap.set(msg.turnId, m);
-      });
-
-      // Merge local messages - prefer newer starredAt
-      localConvoMessages.forEach((m) => {
-        const localMsg = m as StarredMsg;
-        if (!localMsg?.turnId) return;
-        const existingMsg = messageMap.get(localMsg.turnId) as StarredMsg | undefined;
-        if (!existingMsg) {
-          messageMap.set(localMsg.turnId, m);
-        } else if ((localMsg.starredAt || 0) >= (existingMsg.starredAt || 0)) {
-          messageMap.set(localMsg.turnId, m);
-        }
-      });
-
-      const mergedArray = Array.from(messageMap.values());
-      if (mergedArray.length > 0) {
-        mergedMessages[conversationId] = mergedArray;
-      }
-    });
-
-    return { messages: mergedMessages };
-  }
-
   /**
    * Merge two FolderData objects (local + cloud)
    * Uses folder/conversation IDs to deduplicate
@@ -6370,9 +8165,41 @@ export class FolderManager {
       }
     });
 
+    // Merge smart folders by ID (local takes priority)
+    const smartFolderMap = new Map<string, SmartFolder>();
+    (local.smartFolders || []).forEach((f) => smartFolderMap.set(f.id, f));
+    (cloud.smartFolders || []).forEach((f) => {
+      if (!smartFolderMap.has(f.id)) {
+        smartFolderMap.set(f.id, f);
+      }
+    });
+
+    // Merge tag definitions by ID (local takes priority)
+    const tagMap = new Map<string, ConversationTag>();
+    (local.tags || []).forEach((tag) => tagMap.set(tag.id, tag));
+    (cloud.tags || []).forEach((tag) => {
+      if (!tagMap.has(tag.id)) {
+        tagMap.set(tag.id, tag);
+      }
+    });
+
+    // Merge trash entries by ID (entries never change once created), leaving out entries
+    // either side restored or deleted for good
+    const purgedTrash = mergePurgedTrash(local.purgedTrash, cloud.purgedTrash);
+    const trashMap = new Map<string, TrashEntry>();
+    [...(local.trash || []), ...(cloud.trash || [])].forEach((entry) => {
+      if (!trashMap.has(entry.id) && !(entry.id in purgedTrash)) {
+        trashMap.set(entry.id, entry);
+      }
+    });
+
     return {
       folders: Array.from(folderMap.values()),
       folderContents: mergedContents,
+      smartFolders: Array.from(smartFolderMap.values()),
+      tags: Array.from(tagMap.values()),
+      trash: Array.from(trashMap.values()),
+      purgedTrash,
     };
   }
 
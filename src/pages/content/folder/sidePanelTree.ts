@@ -0,0 +1,49 @@
+/**
+ * Folder tree mirrored by the browser side panel
+ */
+import type {
+  SidePanelConversation,
+  SidePanelFolder,
+  SidePanelFolderTree,
+} from '@/core/types/sidePanel';
+
+import { sortConversationsByPriority, sortFoldersByPriority } from './conversationSort';
+import type { ConversationReference, FolderData } from './types';
+
+function toSidePanelConversations(
+  conversations: ConversationReference[] | undefined,
+): SidePanelConversation[] {
+  return sortConversationsByPriority(conversations ?? []).map(({ conversationId, title, url }) => ({
+    conversationId,
+    title,
+    url,
+  }));
+}
+
+/**
+ * Folders and conversations in sidebar order; conversations filed at the top level are
+ * kept under `rootFolderId` in the folder data
+ */
+export function buildSidePanelFolderTree(
+  data: FolderData,
+  rootFolderId: string,
+  currentConversationId: string | null,
+): SidePanelFolderTree {
+  const buildFolders = (parentId: string | null): SidePanelFolder[] =>
+    sortFoldersByPriority(data.folders.filter((folder) => folder.parentId === parentId)).map(
+      (folder) => ({
+        id: folder.id,
+        name: folder.name,
+        ...(folder.color ? { color: folder.color } : {}),
+        pinned: !!folder.pinned,
+        folders: buildFolders(folder.id),
+        conversations: toSidePanelConversations(data.folderContents[folder.id]),
+      }),
+    );
+
+  return {
+    folders: buildFolders(null),
+    conversations: toSidePanelConversations(data.folderContents[rootFolderId]),
+    currentConversationId,
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Smart folders
+ * Folders whose contents are computed from saved rules (title regex, Gem, starred,
+ * recently opened, has forks) over the conversations stored in manual folders.
+ */
+import type { ForkNodesData } from '../fork/forkTypes';
+import { sortConversationsByPriority } from './conversationSort';
+import { normalizeConversationKey } from './folderSearch';
+import type {
+  ConversationReference,
+  FolderData,
+  SmartFolder,
+  SmartFolderRule,
+  SmartFolderRuleType,
+} from './types';
+
+export const SMART_FOLDER_RULE_TYPES: readonly SmartFolderRuleType[] = [
+  'title',
+  'gem',
+  'starred',
+  'recentlyOpened',
+  'hasForks',
+];
+
+/** Default window for the "opened in the last N days" rule */
+export const DEFAULT_RECENT_DAYS = 7;
+
+const MAX_RECENT_DAYS = 3650;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SmartFolderContext {
+  now: number;
+  /** Conversation keys (see normalizeConversationKey) that have fork branches */
+  forkedConversationIds: ReadonlySet<string>;
+}
+
+export interface SmartFolderMatch {
+  /** Manual folder (or root pseudo folder) the conversation is stored in */
+  folderId: string;
+  conversation: ConversationReference;
+}
+
+export function isSmartFolderRuleType(value: unknown): value is SmartFolderRuleType {
+  return SMART_FOLDER_RULE_TYPES.includes(value as SmartFolderRuleType);
+}
+
+/**
+ * Starting values for a newly added rule of the given type in the rule editor
+ */
+export function createDefaultSmartFolderRule(type: SmartFolderRuleType): SmartFolderRule {
+  switch (type) {
+    case 'title':
+      return { type: 'title', pattern: '', flags: 'i' };
+    case 'recentlyOpened':
+      return { type: 'recentlyOpened', days: DEFAULT_RECENT_DAYS };
+    default:
+      return { type };
+  }
+}
+
+/**
+ * Compile a title rule's pattern, or null when the pattern is not a valid regular expression
+ */
+export function compileTitlePattern(pattern: string, flags = 'i'): RegExp | null {
+  try {
+    // The global/sticky flags make test() stateful, so they are never honoured
+    return new RegExp(pattern, flags.replace(/[gy]/g, ''));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse user input for a title rule. Accepts `/pattern/flags` or a bare pattern
+ * (matched case-insensitively).
+ */
+export function parseTitlePatternInput(input: string): { pattern: string; flags: string } {
+  const trimmed = input.trim();
+  const literal = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  if (literal) return { pattern: literal[1], flags: literal[2] };
+  return { pattern: trimmed, flags: 'i' };
+}
+
+/**
+ * Inverse of parseTitlePatternInput, used to pre-fill the rule editor
+ */
+export function formatTitlePatternInput(rule: { pattern: string; flags?: string }): string {
+  return `/${rule.pattern}/${rule.flags ?? 'i'}`;
+}
+
+/**
+ * Validate and normalize a rule from untrusted input (imports, cloud data, the editor)
+ * @returns Normalized rule or null if the input is not usable
+ */
+export function normalizeSmartFolderRule(raw: unknown): SmartFolderRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  switch (r.type) {
+    case 'title': {
+      if (typeof r.pattern !== 'string' || !r.pattern) return null;
+      const flags = typeof r.flags === 'string' ? r.flags : 'i';
+      if (!compileTitlePattern(r.pattern, flags)) return null;
+      return { type: 'title', pattern: r.pattern, flags };
+    }
+    case 'gem':
+      return typeof r.gemId === 'string' && r.gemId.trim()
+        ? { type: 'gem', gemId: r.gemId.trim() }
+        : { type: 'gem' };
+    case 'starred':
+      return { type: 'starred' };
+    case 'recentlyOpened': {
+      const days = Math.round(Number(r.days));
+      if (!Number.isFinite(days) || days < 1) return null;
+      return { type: 'recentlyOpened', days: Math.min(days, MAX_RECENT_DAYS) };
+    }
+    case 'hasForks':
+      return { type: 'hasForks' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate and normalize a smart folder from untrusted input
+ * @returns Normalized smart folder or null if it has no id, name or usable rule
+ */
+export function normalizeSmartFolder(raw: unknown): SmartFolder | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const id = typeof r.id === 'string' ? r.id.trim() : '';
+  const name = typeof r.name === 'string' ? r.name.trim() : '';
+  if (!id || !name) return null;
+
+  const rules = Array.isArray(r.rules)
+    ? r.rules
+        .map((rule) => normalizeSmartFolderRule(rule))
+        .filter((rule): rule is SmartFolderRule => rule !== null)
+    : [];
+  if (rules.length === 0) return null;
+
+  const createdAt = typeof r.createdAt === 'number' ? r.createdAt : Date.now();
+  const folder: SmartFolder = {
+    id,
+    name,
+    rules,
+    match: r.match === 'any' ? 'any' : 'all',
+    isExpanded: r.isExpanded === true,
+    createdAt,
+    updatedAt: typeof r.updatedAt === 'number' ? r.updatedAt : createdAt,
+  };
+  if (r.pinned === true) folder.pinned = true;
+  return folder;
+}
+
+/**
+ * Normalize a smart folder list, dropping invalid and duplicate entries
+ */
+export function normalizeSmartFolders(raw: unknown): SmartFolder[] {
+  if (!Array.isArray(raw)) return [];
+  const byId = new Map<string, SmartFolder>();
+  for (const entry of raw) {
+    const folder = normalizeSmartFolder(entry);
+    if (folder && !byId.has(folder.id)) byId.set(folder.id, folder);
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Conversation keys that appear in at least one fork group
+ */
+export function getForkedConversationIds(data: ForkNodesData | null | undefined): Set<string> {
+  const ids = new Set<string>();
+  for (const [conversationId, nodes] of Object.entries(data?.nodes || {})) {
+    if (Array.isArray(nodes) && nodes.length > 0) {
+      ids.add(normalizeConversationKey(conversationId));
+    }
+  }
+  return ids;
+}
+
+/**
+ * Build a predicate for a smart folder; regular expressions are compiled once
+ */
+export function createSmartFolderMatcher(
+  folder: SmartFolder,
+  context: SmartFolderContext,
+): (conversation: ConversationReference) => boolean {
+  const tests = folder.rules.map((rule): ((conversation: ConversationReference) => boolean) => {
+    switch (rule.type) {
+      case 'title': {
+        const regex = compileTitlePattern(rule.pattern, rule.flags);
+        return (conversation) => !!regex && regex.test(conversation.title || '');
+      }
+      case 'gem':
+        return (conversation) =>
+          !!conversation.isGem && (!rule.gemId || conversation.gemId === rule.gemId);
+      case 'starred':
+        return (conversation) => !!conversation.starred;
+      case 'recentlyOpened': {
+        const since = context.now - rule.days * DAY_MS;
+        return (conversation) => (conversation.lastOpenedAt ?? 0) >= since;
+      }
+      case 'hasForks':
+        return (conversation) =>
+          context.forkedConversationIds.has(normalizeConversationKey(conversation.conversationId));
+    }
+  });
+
+  if (tests.length === 0) return () => false;
+  return folder.match === 'any'
+    ? (conversation) => tests.some((test) => test(conversation))
+    : (conversation) => tests.every((test) => test(conversation));
+}
+
+/**
+ * Collect the conversations of a smart folder from every manual folder.
+ * A conversation saved in several folders is listed once; results use the folder sort order
+ * (starred first, then most recently opened).
+ *
+ * @param rootFolderId Pseudo folder id holding conversations that live at the root
+ */
+export function collectSmartFolderConversations(
+  folder: SmartFolder,
+  data: FolderData,
+  context: SmartFolderContext,
+  rootFolderId: string,
+): SmartFolderMatch[] {
+  const matches = createSmartFolderMatcher(folder, context);
+  const sourceFolder = new Map<ConversationReference, string>();
+  const seen = new Set<string>();
+
+  const folderIds = [rootFolderId, ...data.folders.map((f) => f.id)];
+  for (const folderId of folderIds) {
+    for (const conversation of data.folderContents[folderId] || []) {
+      const key = normalizeConversationKey(conversation.conversationId);
+      if (seen.has(key) || !matches(conversation)) continue;
+      seen.add(key);
+      sourceFolder.set(conversation, folderId);
+    }
+  }
+
+  return sortConversationsByPriority(Array.from(sourceFolder.keys())).map((conversation) => ({
+    folderId: sourceFolder.get(conversation)!,
+    conversation,
+  }));
+}
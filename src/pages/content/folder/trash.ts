@@ -0,0 +1,287 @@
+/**
+ * Folder trash
+ * Deleted folders (with their whole subtree) and removed conversation references are kept
+ * in FolderData.trash for TRASH_RETENTION_DAYS, so they can be restored to where they were.
+ */
+import { normalizeConversationKey } from './folderSearch';
+import type {
+  ConversationReference,
+  Folder,
+  FolderData,
+  TrashEntry,
+  TrashedConversation,
+  TrashedFolder,
+} from './types';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashRestoreResult {
+  entry: TrashEntry;
+  /** Where the item went: a folder id, the root pseudo folder, or null for a root-level folder */
+  parentId: string | null;
+}
+
+function createTrashId(now: number): string {
+  return `trash_${now}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Whole days left before an entry is purged (0 on its last day)
+ */
+export function getTrashDaysLeft(entry: TrashEntry, now: number = Date.now()): number {
+  const expiresAt = entry.deletedAt + TRASH_RETENTION_DAYS * DAY_MS;
+  return Math.max(0, Math.floor((expiresAt - now) / DAY_MS));
+}
+
+/**
+ * Remove folders from the tree and keep them, with their contents, in the trash
+ * @param folderIds The deleted folder first, then its descendants
+ * @returns The trash entry, or null if the folder does not exist
+ */
+export function moveFolderToTrash(
+  data: FolderData,
+  folderIds: string[],
+  now: number = Date.now(),
+): TrashedFolder | null {
+  const ids = new Set(folderIds);
+  const folders = folderIds
+    .map((id) => data.folders.find((f) => f.id === id))
+    .filter((f): f is Folder => !!f);
+  if (folders.length === 0 || folders[0].id !== folderIds[0]) return null;
+
+  const folderContents: Record<string, ConversationReference[]> = {};
+  for (const id of folderIds) {
+    if (data.folderContents[id]?.length) folderContents[id] = data.folderContents[id];
+    delete data.folderContents[id];
+  }
+  data.folders = data.folders.filter((f) => !ids.has(f.id));
+
+  const entry: TrashedFolder = {
+    id: createTrashId(now),
+    type: 'folder',
+    deletedAt: now,
+    folders,
+    folderContents,
+  };
+  data.trash = [...(data.trash || []), entry];
+  return entry;
+}
+
+/**
+ * Remove the matching conversations from a folder and keep each one in the trash
+ * @returns The trash entries created (one per removed conversation)
+ */
+export function moveConversationsToTrash(
+  data: FolderData,
+  folderId: string,
+  matches: (conversation: ConversationReference) => boolean,
+  now: number = Date.now(),
+): TrashedConversation[] {
+  const conversations = data.folderContents[folderId];
+  if (!conversations?.length) return [];
+
+  const entries: TrashedConversation[] = [];
+  data.folderContents[folderId] = conversations.filter((conversation) => {
+    if (!matches(conversation)) return true;
+    entries.push({
+      id: createTrashId(now),
+      type: 'conversation',
+      deletedAt: now,
+      folderId,
+      conversation,
+    });
+    return false;
+  });
+
+  if (entries.length > 0) data.trash = [...(data.trash || []), ...entries];
+  return entries;
+}
+
+function addConversations(
+  data: FolderData,
+  folderId: string,
+  conversations: ConversationReference[],
+): void {
+  const target = (data.folderContents[folderId] ||= []);
+  const present = new Set(target.map((c) => normalizeConversationKey(c.conversationId)));
+  for (const conversation of conversations) {
+    const key = normalizeConversationKey(conversation.conversationId);
+    if (present.has(key)) continue;
+    present.add(key);
+    target.push(conversation);
+  }
+}
+
+/**
+ * Put a trash entry back where it was deleted from.
+ * When the original parent folder no longer exists the item goes to the root instead.
+ * Folders and conversations that already exist again (e.g. re-added by sync) are not duplicated.
+ *
+ * @param rootFolderId Pseudo folder id holding conversations that live at the root
+ * @returns Where the entry was restored, or null if the entry is not in the trash
+ */
+export function restoreTrashEntry(
+  data: FolderData,
+  entryId: string,
+  rootFolderId: string,
+  now: number = Date.now(),
+): TrashRestoreResult | null {
+  const entry = data.trash?.find((e) => e.id === entryId);
+  if (!entry) return null;
+  data.trash = data.trash!.filter((e) => e.id !== entryId);
+  recordPurgedTrash(data, [entryId], now);
+
+  const folderExists = (id: string) => data.folders.some((f) => f.id === id);
+
+  if (entry.type === 'conversation') {
+    const parentId =
+      entry.folderId === rootFolderId || folderExists(entry.folderId)
+        ? entry.folderId
+        : rootFolderId;
+    addConversations(data, parentId, [entry.conversation]);
+    return { entry, parentId };
+  }
+
+  const [top, ...descendants] = entry.folders;
+  const parentId = top.parentId && folderExists(top.parentId) ? top.parentId : null;
+  const restored = [{ ...top, parentId, updatedAt: now }, ...descendants];
+  for (const folder of restored) {
+    if (!folderExists(folder.id)) data.folders.push(folder);
+  }
+  for (const [folderId, conversations] of Object.entries(entry.folderContents)) {
+    addConversations(data, folderId, conversations);
+  }
+  restored.forEach((folder) => (data.folderContents[folder.id] ||= []));
+  return { entry, parentId };
+}
+
+/**
+ * Remember that entries left the trash, so merging with a copy that still has them
+ * does not bring them back
+ */
+function recordPurgedTrash(data: FolderData, entryIds: readonly string[], now: number): void {
+  if (entryIds.length === 0) return;
+  const purged = { ...data.purgedTrash };
+  entryIds.forEach((id) => (purged[id] = now));
+  data.purgedTrash = purged;
+}
+
+/**
+ * Permanently delete one trash entry
+ */
+export function deleteTrashEntry(
+  data: FolderData,
+  entryId: string,
+  now: number = Date.now(),
+): boolean {
+  const before = data.trash?.length ?? 0;
+  data.trash = (data.trash || []).filter((e) => e.id !== entryId);
+  if (data.trash.length === before) return false;
+  recordPurgedTrash(data, [entryId], now);
+  return true;
+}
+
+/**
+ * Permanently delete every trash entry
+ */
+export function emptyTrash(data: FolderData, now: number = Date.now()): void {
+  recordPurgedTrash(
+    data,
+    (data.trash || []).map((e) => e.id),
+    now,
+  );
+  data.trash = [];
+}
+
+/**
+ * Drop entries older than the retention period.
+ * Purge records go too once that long has passed: any copy of such an entry has expired by then.
+ * @returns Number of entries removed
+ */
+export function purgeExpiredTrash(data: FolderData, now: number = Date.now()): number {
+  const cutoff = now - TRASH_RETENTION_DAYS * DAY_MS;
+  if (data.purgedTrash) {
+    const kept = Object.entries(data.purgedTrash).filter(([, purgedAt]) => purgedAt > cutoff);
+    if (kept.length < Object.keys(data.purgedTrash).length) {
+      data.purgedTrash = Object.fromEntries(kept);
+    }
+  }
+  if (!data.trash?.length) return 0;
+  const before = data.trash.length;
+  data.trash = data.trash.filter((e) => e.deletedAt > cutoff);
+  return before - data.trash.length;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isConversationReference(value: unknown): value is ConversationReference {
+  return (
+    isObject(value) && typeof value.conversationId === 'string' && typeof value.url === 'string'
+  );
+}
+
+/**
+ * Validate purge records from untrusted input, keeping numeric timestamps only
+ */
+export function normalizePurgedTrash(raw: unknown): Record<string, number> {
+  if (!isObject(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw).filter(
+      (entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] > 0,
+    ),
+  );
+}
+
+/**
+ * Validate a trash list from untrusted input (imports, cloud data), dropping malformed
+ * entries and duplicate ids
+ */
+export function normalizeTrash(raw: unknown): TrashEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const byId = new Map<string, TrashEntry>();
+  for (const entry of raw) {
+    if (!isObject(entry) || typeof entry.id !== 'string' || !entry.id) continue;
+    if (typeof entry.deletedAt !== 'number' || byId.has(entry.id)) continue;
+
+    if (entry.type === 'conversation') {
+      if (typeof entry.folderId !== 'string' || !isConversationReference(entry.conversation)) {
+        continue;
+      }
+      byId.set(entry.id, {
+        id: entry.id,
+        type: 'conversation',
+        deletedAt: entry.deletedAt,
+        folderId: entry.folderId,
+        conversation: entry.conversation,
+      });
+    } else if (entry.type === 'folder') {
+      const folders = Array.isArray(entry.folders)
+        ? entry.folders.filter(
+            (f): f is Folder =>
+              isObject(f) && typeof f.id === 'string' && typeof f.name === 'string',
+          )
+        : [];
+      if (folders.length === 0) continue;
+      const folderContents: Record<string, ConversationReference[]> = {};
+      if (isObject(entry.folderContents)) {
+        for (const [folderId, conversations] of Object.entries(entry.folderContents)) {
+          if (Array.isArray(conversations)) {
+            folderContents[folderId] = conversations.filter(isConversationReference);
+          }
+        }
+      }
+      byId.set(entry.id, {
+        id: entry.id,
+        type: 'folder',
+        deletedAt: entry.deletedAt,
+        folders,
+        folderContents,
+      });
+    }
+  }
+  return Array.from(byId.values());
+}
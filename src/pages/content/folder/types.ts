@@ -1,3 +1,5 @@
+import type { SmartFolder, SmartFolderRule, SmartFolderRuleType } from '@/core/types/folder';
+
 export interface Folder {
   id: string;
   name: string;
@@ -20,12 +22,57 @@ export interface ConversationReference {
   gemId?: string; // Gem identifier if applicable
   starred?: boolean; // Whether this conversation is starred in the folder
   customTitle?: boolean; // Whether title was manually renamed in folder (don't auto-sync from native)
+  tagIds?: string[]; // Ids of tags (see FolderData.tags) attached to this conversation
+  note?: string; // Free-form note about the conversation
+}
+
+export interface ConversationTag {
+  id: string;
+  name: string;
+  color: string; // Colour id from the folder colour palette
+  createdAt: number;
+  updatedAt: number;
 }
 
+export type { SmartFolder, SmartFolderRule, SmartFolderRuleType };
+
+/**
+ * A deleted folder, kept with its whole subtree so it can be restored
+ */
+export interface TrashedFolder {
+  id: string;
+  type: 'folder';
+  deletedAt: number;
+  folders: Folder[]; // The deleted folder first, then its descendants
+  folderContents: Record<string, ConversationReference[]>; // Contents of those folders
+}
+
+/**
+ * A conversation reference removed from a folder (by hand or because it vanished from Gemini)
+ */
+export interface TrashedConversation {
+  id: string;
+  type: 'conversation';
+  deletedAt: number;
+  folderId: string; // Folder (or root pseudo folder) it was removed from
+  conversation: ConversationReference;
+}
+
+export type TrashEntry = TrashedFolder | TrashedConversation;
+
 export interface FolderData {
   folders: Folder[];
   // Maps folder ID to conversation references in that folder
   folderContents: Record<string, ConversationReference[]>;
+  // Folders whose contents are computed from rules over the conversations above
+  smartFolders?: SmartFolder[];
+  // Tag definitions referenced by ConversationReference.tagIds
+  tags?: ConversationTag[];
+  // Deleted folders and removed conversations, kept for a while so they can be restored
+  trash?: TrashEntry[];
+  // Ids of trash entries restored or deleted for good, with the time, so a merge with
+  // another device's copy does not bring them back
+  purgedTrash?: Record<string, number>;
 }
 
 export interface DragData {
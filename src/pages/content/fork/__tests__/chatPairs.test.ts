@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { collectForkChatPairs } from '../chatPairs';
+import { type ForkChatPair, collectForkChatPairs, findCurrentTurnIndex } from '../chatPairs';
 
 describe('collectForkChatPairs', () => {
   it('should collect user and assistant pairs from chat DOM', () => {
@@ -38,3 +38,21 @@ describe('collectForkChatPairs', () => {
     expect(pairs[1].turnId).toBe('u-1');
   });
 });
+
+describe('findCurrentTurnIndex', () => {
+  const pairAt = (top: number): ForkChatPair => {
+    const userElement = document.createElement('div');
+    userElement.getBoundingClientRect = () => ({ top }) as DOMRect;
+    return { turnId: `u-${top}`, user: '', assistant: '', userElement };
+  };
+
+  it('picks the last turn starting above the anchor', () => {
+    const pairs = [pairAt(-800), pairAt(120), pairAt(700)];
+    expect(findCurrentTurnIndex(pairs, 400)).toBe(1);
+  });
+
+  it('falls back to the first turn, or -1 without turns', () => {
+    expect(findCurrentTurnIndex([pairAt(500), pairAt(900)], 400)).toBe(0);
+    expect(findCurrentTurnIndex([], 400)).toBe(-1);
+  });
+});
@@ -201,3 +201,16 @@ export function collectForkChatPairs(): ForkChatPair[] {
 
   return pairs;
 }
+
+/**
+ * Index of the turn being read: the last pair whose user message starts above `anchorY`
+ * (a viewport coordinate), or the first pair when none does; -1 when there are no pairs
+ */
+export function findCurrentTurnIndex(pairs: readonly ForkChatPair[], anchorY: number): number {
+  if (pairs.length === 0) return -1;
+  let current = 0;
+  pairs.forEach((pair, index) => {
+    if (pair.userElement.getBoundingClientRect().top <= anchorY) current = index;
+  });
+  return current;
+}
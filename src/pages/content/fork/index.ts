@@ -8,6 +8,7 @@
  */
 import browser from 'webextension-polyfill';
 
+import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
 import { StorageKeys } from '@/core/types/common';
 import { isExtensionContextInvalidatedError } from '@/core/utils/extensionContext';
 import { generateUniqueId } from '@/core/utils/hash';
@@ -15,7 +16,7 @@ import { generateUniqueId } from '@/core/utils/hash';
 import { getTranslationSync } from '../../../utils/i18n';
 import { ForkNodesService } from './ForkNodesService';
 import { buildBranchDisplayNodes, resolveForkPlan } from './branching';
-import { collectForkChatPairs } from './chatPairs';
+import { collectForkChatPairs, findCurrentTurnIndex } from './chatPairs';
 import { composeForkInputWithContext } from './forkContext';
 import type { ForkNode } from './forkTypes';
 import { type ForkExtractedTurn, buildForkMarkdown } from './markdown';
@@ -560,6 +561,22 @@ function showForkConfirmation(btn: HTMLElement, userEl: HTMLElement, turnIndex:
   activeConfirm = confirm;
 }
 
+/**
+ * Open the fork confirmation for the turn in view (keyboard shortcut)
+ */
+function forkCurrentTurn(): void {
+  injectForkButtons();
+  const pairs = collectForkChatPairs();
+  const index = findCurrentTurnIndex(pairs, window.innerHeight / 2);
+  if (index < 0) return;
+
+  const userEl = pairs[index].userElement;
+  const btn = resolveUserMessageHost(userEl).querySelector<HTMLElement>(`.${FORK_BTN_CLASS}`);
+  if (!btn) return;
+  btn.scrollIntoView({ block: 'nearest' });
+  showForkConfirmation(btn, userEl, index);
+}
+
 async function executeFork(userEl: HTMLElement, turnIndex: number): Promise<void> {
   const conversationId = extractConversationIdFromUrl();
   if (!conversationId) {
@@ -1000,6 +1017,8 @@ export function startFork(): () => void {
   // Dismiss confirm dialog on click outside
   document.addEventListener('click', onDocumentClick);
 
+  const unregisterShortcut = keyboardShortcutService.register('fork:currentTurn', forkCurrentTurn);
+
   // Language change listener
   const onStorageChanged = (
     changes: Record<string, browser.Storage.StorageChange>,
@@ -1031,6 +1050,7 @@ export function startFork(): () => void {
     dismissConfirm();
     document.removeEventListener('click', onDocumentClick);
     browser.storage.onChanged.removeListener(onStorageChanged);
+    unregisterShortcut();
 
     // Remove injected elements
     document.querySelectorAll(`.${FORK_BTN_CLASS}`).forEach((el) => el.remove());
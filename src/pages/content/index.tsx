@@ -30,8 +30,11 @@ import { startPromptManager } from './prompt/index';
 import { startQuoteReply } from './quoteReply/index';
 import { startRecentsHider } from './recentsHider/index';
 import { startSendBehavior } from './sendBehavior/index';
+import { startShortcutCheatSheet } from './shortcuts/index';
+import { startSidePanelBridge } from './sidePanel/index';
 import { startSidebarAutoHide } from './sidebarAutoHide';
 import { startSidebarWidthAdjuster } from './sidebarWidth';
+import { startSlashCommand } from './slashCommand/index';
 import { startSnowEffect } from './snowEffect/index';
 import { startTimeline } from './timeline/index';
 import { startTitleUpdater } from './titleUpdater';
@@ -71,7 +74,10 @@ let folderManagerInstance: Awaited<ReturnType<typeof startFolderManager>> | null
 let promptManagerInstance: Awaited<ReturnType<typeof startPromptManager>> | null = null;
 let quoteReplyCleanup: (() => void) | null = null;
 let sendBehaviorCleanup: (() => void) | null = null;
+let slashCommandCleanup: (() => void) | null = null;
 let forkCleanup: (() => void) | null = null;
+let shortcutCheatSheetCleanup: (() => void) | null = null;
+let sidePanelBridgeCleanup: (() => void) | null = null;
 
 async function isForkFeatureEnabled(): Promise<boolean> {
   try {
@@ -161,6 +167,7 @@ async function initializeFeatures(): Promise<void> {
     if (isEnterprise) {
       console.log('[Gemini Voyager] Gemini Enterprise detected, starting Prompt Manager only');
       promptManagerInstance = await startPromptManager();
+      slashCommandCleanup = await startSlashCommand();
       return;
     }
 
@@ -269,6 +276,18 @@ async function initializeFeatures(): Promise<void> {
     ) {
       promptManagerInstance = await startPromptManager();
       await delay(HEAVY_FEATURE_INIT_DELAY);
+
+      // Slash-command prompt picker in the chat input
+      slashCommandCleanup = await startSlashCommand();
+      await delay(LIGHT_FEATURE_INIT_DELAY);
+
+      // `?` shows the shortcuts registered by the features above
+      shortcutCheatSheetCleanup = startShortcutCheatSheet();
+      await delay(LIGHT_FEATURE_INIT_DELAY);
+
+      // Serves the browser side panel; folders are mirrored on Gemini only
+      sidePanelBridgeCleanup = startSidePanelBridge(folderManagerInstance);
+      await delay(LIGHT_FEATURE_INIT_DELAY);
     }
 
     if (location.hostname === 'gemini.google.com') {
@@ -278,6 +297,10 @@ async function initializeFeatures(): Promise<void> {
     }
 
     if (location.hostname === 'aistudio.google.com' || location.hostname === 'aistudio.google.cn') {
+      // Timeline, starring and the preview panel for AI Studio chats
+      startTimeline();
+      await delay(HEAVY_FEATURE_INIT_DELAY);
+
       startAIStudioFolderManager();
       await delay(HEAVY_FEATURE_INIT_DELAY);
 
@@ -455,10 +478,22 @@ function handleVisibilityChange(): void {
           sendBehaviorCleanup();
           sendBehaviorCleanup = null;
         }
+        if (slashCommandCleanup) {
+          slashCommandCleanup();
+          slashCommandCleanup = null;
+        }
         if (forkCleanup) {
           forkCleanup();
           forkCleanup = null;
         }
+        if (shortcutCheatSheetCleanup) {
+          shortcutCheatSheetCleanup();
+          shortcutCheatSheetCleanup = null;
+        }
+        if (sidePanelBridgeCleanup) {
+          sidePanelBridgeCleanup();
+          sidePanelBridgeCleanup = null;
+        }
         chrome.storage?.onChanged?.removeListener(onStorageChanged);
       } catch (e) {
         if (isExtensionContextInvalidatedError(e)) {
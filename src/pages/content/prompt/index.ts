@@ -10,14 +10,41 @@ import 'katex/dist/katex.min.css';
 import type { marked as MarkedFn } from 'marked';
 import browser from 'webextension-polyfill';
 
+import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
 import { logger } from '@/core/services/LoggerService';
 import { promptStorageService } from '@/core/services/StorageService';
 import { type StorageKey, StorageKeys } from '@/core/types/common';
+import type {
+  PromptCollection,
+  PromptRevision,
+  PromptVariable,
+  PromptVariableType,
+  TimelineOutlineExportPayload,
+} from '@/core/types/sync';
 import { isSafari, shouldShowSafariUpdateReminder } from '@/core/utils/browser';
 import { isExtensionContextInvalidatedError } from '@/core/utils/extensionContext';
+import { getFolderStorageKey, resolveFolderAccountId } from '@/core/utils/geminiAccount';
+import {
+  diffLines,
+  normalizePromptHistory,
+  recordPromptRevision,
+} from '@/core/utils/promptHistory';
+import {
+  PROMPT_SORT_MODES,
+  type PromptSortMode,
+  canMoveCollection,
+  detachOrphanedPrompts,
+  getCollectionSubtreeIds,
+  isPromptSortMode,
+  normalizePromptCollections,
+  recordPromptUsage,
+  removePromptCollection,
+  sortPrompts,
+} from '@/core/utils/promptLibrary';
+import { normalizePromptVariable, syncTemplateVariables } from '@/core/utils/promptTemplate';
 import { migrateFromLocalStorage } from '@/core/utils/storageMigration';
 import { shouldShowUpdateReminderForCurrentVersion } from '@/core/utils/updateReminder';
-import { compareVersions } from '@/core/utils/version';
+import { EXTENSION_VERSION, compareVersions, migrateFormat } from '@/core/utils/version';
 import { getCurrentLanguage, getTranslationSync, initI18n, setCachedLanguage } from '@/utils/i18n';
 import {
   APP_LANGUAGES,
@@ -26,9 +53,13 @@ import {
   isAppLanguage,
   normalizeLanguage,
 } from '@/utils/language';
+import { mergePromptCollections } from '@/utils/merge';
 import type { TranslationKey } from '@/utils/translations';
 
 import { createFolderStorageAdapter } from '../folder/storage/FolderStorageAdapter';
+import { getChatInput, insertTextIntoChatInput } from '../shared/chatInput';
+import { normalizeTimelineOutline } from '../timeline/outline';
+import { renderTemplateFillForm } from './templateForm';
 
 type PromptItem = {
   id: string;
@@ -36,8 +67,19 @@ type PromptItem = {
   tags: string[];
   createdAt: number;
   updatedAt?: number;
+  variables?: PromptVariable[];
+  history?: PromptRevision[];
+  collectionId?: string | null;
+  pinned?: boolean;
+  usageCount?: number;
+  lastUsedAt?: number;
 };
 
+type PromptAction = 'copy' | 'insert';
+
+/** 'all' shows every prompt, 'unfiled' only prompts outside any collection, otherwise a collection id */
+type CollectionFilter = 'all' | 'unfiled' | string;
+
 type PanelPosition = { top: number; left: number };
 type TriggerPosition = { bottom: number; right: number };
 
@@ -46,6 +88,8 @@ const STORAGE_KEYS = {
   locked: StorageKeys.PROMPT_PANEL_LOCKED,
   position: StorageKeys.PROMPT_PANEL_POSITION,
   triggerPos: StorageKeys.PROMPT_TRIGGER_POSITION,
+  collections: StorageKeys.PROMPT_COLLECTIONS,
+  sortMode: StorageKeys.PROMPT_SORT_MODE,
   language: StorageKeys.LANGUAGE, // reuse global language key
 } as const;
 
@@ -54,6 +98,24 @@ const ID = {
   panel: 'gv-pm-panel',
 } as const;
 
+const PROMPT_EXPORT_FORMAT = 'gemini-voyager.prompts.v2';
+
+const VARIABLE_TYPE_LABEL_KEYS: Record<PromptVariableType, TranslationKey> = {
+  text: 'pm_var_type_text',
+  multiline: 'pm_var_type_multiline',
+  choice: 'pm_var_type_choice',
+};
+
+const SORT_MODE_LABEL_KEYS: Record<PromptSortMode, TranslationKey> = {
+  default: 'pm_sort_default',
+  recent: 'pm_sort_recent',
+  usage: 'pm_sort_usage',
+  alpha: 'pm_sort_alpha',
+};
+
+const DRAG_TYPE_PROMPT = 'application/x-gv-prompt';
+const DRAG_TYPE_COLLECTION = 'application/x-gv-prompt-collection';
+
 const LATEST_VERSION_CACHE_KEY = 'gvLatestVersionCache';
 const LATEST_VERSION_MAX_AGE = 1000 * 60 * 60 * 6; // 6 hours
 
@@ -245,6 +307,19 @@ function dedupeTags(tags: string[]): string[] {
   return out;
 }
 
+function parseOptionList(raw: string): string[] {
+  return raw
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function finalizeVariables(text: string, draft: PromptVariable[]): PromptVariable[] {
+  return syncTemplateVariables(text, draft)
+    .map((v) => normalizePromptVariable(v))
+    .filter((v): v is PromptVariable => v !== null);
+}
+
 function collectAllTags(items: PromptItem[]): string[] {
   const set = new Set<string>();
   for (const it of items) for (const t of it.tags || []) set.add(String(t).toLowerCase());
@@ -567,7 +642,12 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
     const searchInput = createEl('input') as HTMLInputElement;
     searchInput.type = 'search';
     searchInput.placeholder = i18n.t('pm_search_placeholder');
+    const sortSel = createEl('select', 'gv-pm-sort');
     searchWrap.appendChild(searchInput);
+    searchWrap.appendChild(sortSel);
+
+    // Nested collection tree; prompts and collections can be dropped onto its rows
+    const collectionsWrap = createEl('div', 'gv-pm-collections');
 
     const tagsWrap = createEl('div', 'gv-pm-tags');
 
@@ -641,6 +721,7 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
         <input class="gv-pm-input-tags" type="text" placeholder="${escapeHtml(
           i18n.t('pm_tags_placeholder') || 'Tags (comma separated)',
         )}" />
+        <div class="gv-pm-vars gv-hidden"></div>
         <div class="gv-pm-add-actions">
           <span class="gv-pm-inline-hint" aria-live="polite"></span>
           <button type="submit" class="gv-pm-save">${escapeHtml(i18n.t('pm_save') || 'Save')}</button>
@@ -651,19 +732,35 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       </form>`,
     );
 
+    // Fill-in form shown when a templated prompt is picked
+    const fillForm = createEl('form', 'gv-pm-fill-form gv-hidden');
+
+    // Revision history with diff/restore for a single prompt
+    const historyView = createEl('div', 'gv-pm-history-view gv-hidden');
+
     // Notice as floating toast (not in footer layout)
     const notice = createEl('div', 'gv-pm-notice');
 
     panel.appendChild(header);
     panel.appendChild(searchWrap);
+    panel.appendChild(collectionsWrap);
     panel.appendChild(tagsWrap);
     panel.appendChild(addForm);
+    panel.appendChild(fillForm);
+    panel.appendChild(historyView);
     panel.appendChild(list);
     panel.appendChild(footer);
     panel.appendChild(notice);
 
     // State
     let items: PromptItem[] = await readStorage<PromptItem[]>(STORAGE_KEYS.items, []);
+    let collections: PromptCollection[] = normalizePromptCollections(
+      await readStorage<PromptCollection[]>(STORAGE_KEYS.collections, []),
+    );
+    const storedSortMode = await readStorage<string>(STORAGE_KEYS.sortMode, 'default');
+    let sortMode: PromptSortMode = isPromptSortMode(storedSortMode) ? storedSortMode : 'default';
+    let selectedCollection: CollectionFilter = 'all';
+    let renamingCollectionId: string | null = null;
     let open = false;
     let selectedTags: Set<string> = new Set<string>();
     let locked = !!(await readStorage<boolean>(STORAGE_KEYS.locked, false));
@@ -673,6 +770,7 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
     let draggingTrigger = false;
     let editingId: string | null = null;
     let expandedItems: Set<string> = new Set<string>(); // Track expanded prompt items
+    let draftVariables: PromptVariable[] = []; // Variable definitions being edited in addForm
 
     function setNotice(text: string, kind: 'ok' | 'err' = 'ok') {
       notice.textContent = text || '';
@@ -693,6 +791,543 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       hint.classList.toggle('err', kind === 'err');
     }
 
+    function renderVariableEditor(): void {
+      const editor = addForm.querySelector('.gv-pm-vars') as HTMLDivElement;
+      const text = (addForm.querySelector('.gv-pm-input-text') as HTMLTextAreaElement).value;
+      draftVariables = syncTemplateVariables(text, draftVariables);
+      editor.innerHTML = '';
+      editor.classList.toggle('gv-hidden', draftVariables.length === 0);
+      if (draftVariables.length === 0) return;
+
+      const heading = createEl('div', 'gv-pm-vars-title');
+      heading.textContent = i18n.t('pm_variables');
+      editor.appendChild(heading);
+
+      for (const variable of draftVariables) {
+        const row = createEl('div', 'gv-pm-var-row');
+        const name = createEl('span', 'gv-pm-var-name');
+        name.textContent = `{{${variable.name}}}`;
+
+        const typeSel = createEl('select', 'gv-pm-var-type');
+        for (const type of Object.keys(VARIABLE_TYPE_LABEL_KEYS) as PromptVariableType[]) {
+          const opt = createEl('option');
+          opt.value = type;
+          opt.textContent = i18n.t(VARIABLE_TYPE_LABEL_KEYS[type]);
+          typeSel.appendChild(opt);
+        }
+        typeSel.value = variable.type;
+
+        const defaultInput = createEl('input', 'gv-pm-var-default');
+        defaultInput.type = 'text';
+        defaultInput.placeholder = i18n.t('pm_var_default_placeholder');
+        defaultInput.value = variable.defaultValue ?? '';
+
+        const optionsInput = createEl('input', 'gv-pm-var-options');
+        optionsInput.type = 'text';
+        optionsInput.placeholder = i18n.t('pm_var_options_placeholder');
+        optionsInput.value = (variable.options ?? []).join(', ');
+        optionsInput.classList.toggle('gv-hidden', variable.type !== 'choice');
+
+        typeSel.addEventListener('change', () => {
+          variable.type = typeSel.value as PromptVariableType;
+          optionsInput.classList.toggle('gv-hidden', variable.type !== 'choice');
+        });
+        defaultInput.addEventListener('input', () => {
+          variable.defaultValue = defaultInput.value || undefined;
+        });
+        optionsInput.addEventListener('input', () => {
+          variable.options = parseOptionList(optionsInput.value);
+        });
+
+        row.appendChild(name);
+        row.appendChild(typeSel);
+        row.appendChild(defaultInput);
+        row.appendChild(optionsInput);
+        editor.appendChild(row);
+      }
+    }
+
+    function closeFillForm(): void {
+      fillForm.classList.add('gv-hidden');
+      fillForm.innerHTML = '';
+    }
+
+    async function markUsed(id: string): Promise<void> {
+      const index = items.findIndex((x) => x.id === id);
+      if (index < 0) return;
+      items = items.map((x, i) => (i === index ? recordPromptUsage(x) : x));
+      await writeStorage(STORAGE_KEYS.items, items);
+      if (sortMode === 'recent' || sortMode === 'usage') renderList();
+    }
+
+    async function applyPrompt(it: PromptItem, text: string, action: PromptAction): Promise<void> {
+      if (action === 'copy') {
+        await copyText(text);
+        setNotice(i18n.t('pm_copied') || 'Copied', 'ok');
+        await markUsed(it.id);
+        return;
+      }
+      const input = getChatInput();
+      if (!input) {
+        setNotice(i18n.t('pm_insert_no_input'), 'err');
+        return;
+      }
+      insertTextIntoChatInput(input, text);
+      closePanel();
+      await markUsed(it.id);
+    }
+
+    function openFillForm(it: PromptItem, variables: PromptVariable[], action: PromptAction): void {
+      const firstField = renderTemplateFillForm(fillForm, {
+        text: it.text,
+        variables,
+        labels: {
+          title: i18n.t('pm_fill_title'),
+          submit: action === 'insert' ? i18n.t('pm_insert') : i18n.t('pm_copy'),
+          cancel: i18n.t('pm_cancel'),
+        },
+        onSubmit: async (rendered) => {
+          closeFillForm();
+          await applyPrompt(it, rendered, action);
+        },
+        onCancel: closeFillForm,
+      });
+
+      addForm.classList.add('gv-hidden');
+      fillForm.classList.remove('gv-hidden');
+      firstField?.focus();
+    }
+
+    async function pickPrompt(it: PromptItem, action: PromptAction): Promise<void> {
+      const variables = syncTemplateVariables(it.text, it.variables);
+      if (variables.length > 0) {
+        openFillForm(it, variables, action);
+        return;
+      }
+      await applyPrompt(it, it.text, action);
+    }
+
+    function closeHistory(): void {
+      historyView.classList.add('gv-hidden');
+      historyView.innerHTML = '';
+    }
+
+    function formatRevisionTime(ts: number): string {
+      try {
+        return new Date(ts).toLocaleString();
+      } catch {
+        return String(ts);
+      }
+    }
+
+    function openHistory(it: PromptItem): void {
+      const revisions = it.history || [];
+      if (revisions.length === 0) return;
+      closeFillForm();
+      addForm.classList.add('gv-hidden');
+      historyView.innerHTML = '';
+
+      const head = createEl('div', 'gv-pm-history-head');
+      const title = createEl('div', 'gv-pm-vars-title');
+      title.textContent = i18n.t('pm_history');
+      const closeBtn = createEl('button', 'gv-pm-cancel');
+      closeBtn.type = 'button';
+      closeBtn.textContent = i18n.t('pm_cancel');
+      closeBtn.addEventListener('click', (ev) => {
+        ev.stopPropagation();
+        closeHistory();
+      });
+      head.appendChild(title);
+      head.appendChild(closeBtn);
+
+      // Option value: revision index, or 'current' for the live prompt text
+      const CURRENT = 'current';
+      const buildSelect = (label: string, initial: string): HTMLSelectElement => {
+        const sel = createEl('select', 'gv-pm-var-type');
+        sel.setAttribute('aria-label', label);
+        for (let i = revisions.length - 1; i >= 0; i--) {
+          const opt = document.createElement('option');
+          opt.value = String(i);
+          opt.textContent = formatRevisionTime(revisions[i].savedAt);
+          sel.appendChild(opt);
+        }
+        const current = document.createElement('option');
+        current.value = CURRENT;
+        current.textContent = i18n.t('pm_history_current');
+        sel.insertBefore(current, sel.firstChild);
+        sel.value = initial;
+        return sel;
+      };
+      const fromSel = buildSelect(i18n.t('pm_history_from'), String(revisions.length - 1));
+      const toSel = buildSelect(i18n.t('pm_history_to'), CURRENT);
+      const textOf = (value: string): string =>
+        value === CURRENT ? it.text : (revisions[Number(value)]?.text ?? '');
+
+      const pickers = createEl('div', 'gv-pm-history-pickers');
+      for (const [label, sel] of [
+        [i18n.t('pm_history_from'), fromSel],
+        [i18n.t('pm_history_to'), toSel],
+      ] as const) {
+        const field = createEl('label', 'gv-pm-fill-field');
+        const caption = createEl('span', 'gv-pm-var-name');
+        caption.textContent = label;
+        field.appendChild(caption);
+        field.appendChild(sel);
+        pickers.appendChild(field);
+      }
+
+      const diffBox = createEl('div', 'gv-pm-diff');
+      const restoreBtn = createEl('button', 'gv-pm-save');
+      restoreBtn.type = 'button';
+      restoreBtn.textContent = i18n.t('pm_history_restore');
+
+      const renderDiff = () => {
+        diffBox.innerHTML = '';
+        const lines = diffLines(textOf(fromSel.value), textOf(toSel.value));
+        if (lines.every((line) => line.type === 'same')) {
+          const same = createEl('div', 'gv-pm-diff-empty');
+          same.textContent = i18n.t('pm_history_no_changes');
+          diffBox.appendChild(same);
+        } else {
+          for (const line of lines) {
+            const row = createEl('div', `gv-pm-diff-line gv-pm-diff-${line.type}`);
+            const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+            row.textContent = `${marker} ${line.text}`;
+            diffBox.appendChild(row);
+          }
+        }
+        // Restore applies to the "from" revision; restoring the current text is a no-op
+        restoreBtn.disabled = fromSel.value === CURRENT;
+      };
+      fromSel.addEventListener('change', renderDiff);
+      toSel.addEventListener('change', renderDiff);
+
+      restoreBtn.addEventListener('click', async (ev) => {
+        ev.stopPropagation();
+        const revision = revisions[Number(fromSel.value)];
+        if (!revision) return;
+        await restoreRevision(it.id, revision);
+      });
+
+      const actions = createEl('div', 'gv-pm-add-actions');
+      actions.appendChild(restoreBtn);
+
+      historyView.appendChild(head);
+      historyView.appendChild(pickers);
+      historyView.appendChild(diffBox);
+      historyView.appendChild(actions);
+      renderDiff();
+      historyView.classList.remove('gv-hidden');
+    }
+
+    async function restoreRevision(id: string, revision: PromptRevision): Promise<void> {
+      const target = items.find((x) => x.id === id);
+      if (!target) return;
+      const dup = items.some(
+        (x) => x.id !== id && x.text.trim().toLowerCase() === revision.text.trim().toLowerCase(),
+      );
+      if (dup) {
+        setNotice(i18n.t('pm_duplicate') || 'Duplicate prompt', 'err');
+        return;
+      }
+      const next = {
+        text: revision.text,
+        tags: [...revision.tags],
+        variables: finalizeVariables(revision.text, revision.variables || []),
+      };
+      const now = Date.now();
+      target.history = recordPromptRevision(target, next, now);
+      target.text = next.text;
+      target.tags = next.tags;
+      target.variables = next.variables;
+      target.updatedAt = now;
+      await writeStorage(STORAGE_KEYS.items, items);
+      closeHistory();
+      renderTags();
+      renderList();
+      setNotice(i18n.t('pm_history_restored'), 'ok');
+    }
+
+    async function saveCollections(): Promise<void> {
+      await writeStorage(STORAGE_KEYS.collections, collections);
+    }
+
+    function isUnfiled(it: PromptItem, collectionIds: Set<string>): boolean {
+      return !it.collectionId || !collectionIds.has(it.collectionId);
+    }
+
+    async function movePrompt(id: string, collectionId: string | null): Promise<void> {
+      const target = items.find((x) => x.id === id);
+      if (!target || (target.collectionId ?? null) === collectionId) return;
+      target.collectionId = collectionId;
+      target.updatedAt = Date.now();
+      await writeStorage(STORAGE_KEYS.items, items);
+      renderCollections();
+      renderList();
+      setNotice(i18n.t('pm_moved'), 'ok');
+    }
+
+    async function moveCollection(id: string, parentId: string | null): Promise<void> {
+      const target = collections.find((c) => c.id === id);
+      if (!target || target.parentId === parentId) return;
+      if (!canMoveCollection(collections, id, parentId)) {
+        setNotice(i18n.t('pm_collection_invalid_move'), 'err');
+        return;
+      }
+      target.parentId = parentId;
+      target.updatedAt = Date.now();
+      const parent = parentId ? collections.find((c) => c.id === parentId) : undefined;
+      if (parent) parent.isExpanded = true;
+      await saveCollections();
+      renderCollections();
+      setNotice(i18n.t('pm_moved'), 'ok');
+    }
+
+    async function createCollection(parentId: string | null): Promise<void> {
+      const now = Date.now();
+      const collection: PromptCollection = {
+        id: uid(),
+        name: i18n.t('pm_collection_add'),
+        parentId,
+        isExpanded: true,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const parent = parentId ? collections.find((c) => c.id === parentId) : undefined;
+      if (parent) parent.isExpanded = true;
+      collections = [...collections, collection];
+      renamingCollectionId = collection.id;
+      await saveCollections();
+      renderCollections();
+    }
+
+    async function renameCollection(id: string, name: string): Promise<void> {
+      renamingCollectionId = null;
+      const target = collections.find((c) => c.id === id);
+      const trimmed = name.trim();
+      if (target && trimmed && trimmed !== target.name) {
+        target.name = trimmed;
+        target.updatedAt = Date.now();
+        await saveCollections();
+      }
+      renderCollections();
+    }
+
+    async function deleteCollection(id: string): Promise<void> {
+      const result = removePromptCollection(collections, items, id);
+      collections = result.collections;
+      items = result.items;
+      if (selectedCollection === id) selectedCollection = 'all';
+      await saveCollections();
+      await writeStorage(STORAGE_KEYS.items, items);
+      renderCollections();
+      renderList();
+      setNotice(i18n.t('pm_collection_deleted'), 'ok');
+    }
+
+    function selectCollection(filter: CollectionFilter): void {
+      selectedCollection = filter;
+      renderCollections();
+      renderList();
+    }
+
+    /**
+     * Make a collection tree row accept dropped prompts and/or collections.
+     * `targetId` null means the root (unfiled prompts, top-level collections).
+     */
+    function attachDropTarget(row: HTMLElement, targetId: string | null, acceptPrompts: boolean) {
+      const accepts = (ev: DragEvent): boolean => {
+        const types = Array.from(ev.dataTransfer?.types || []);
+        return (
+          (acceptPrompts && types.includes(DRAG_TYPE_PROMPT)) ||
+          types.includes(DRAG_TYPE_COLLECTION)
+        );
+      };
+      row.addEventListener('dragover', (ev) => {
+        if (!accepts(ev)) return;
+        ev.preventDefault();
+        row.classList.add('gv-pm-drop-target');
+      });
+      row.addEventListener('dragleave', () => row.classList.remove('gv-pm-drop-target'));
+      row.addEventListener('drop', async (ev) => {
+        row.classList.remove('gv-pm-drop-target');
+        if (!accepts(ev)) return;
+        ev.preventDefault();
+        const promptId = ev.dataTransfer?.getData(DRAG_TYPE_PROMPT);
+        const collectionId = ev.dataTransfer?.getData(DRAG_TYPE_COLLECTION);
+        if (promptId && acceptPrompts) await movePrompt(promptId, targetId);
+        else if (collectionId) await moveCollection(collectionId, targetId);
+      });
+    }
+
+    function createCollectionRow(
+      label: string,
+      filter: CollectionFilter,
+      count: number,
+      depth: number,
+    ): { row: HTMLElement; nameBtn: HTMLButtonElement } {
+      const row = createEl('div', 'gv-pm-collection');
+      row.style.paddingLeft = `${6 + depth * 14}px`;
+      row.classList.toggle('active', selectedCollection === filter);
+      const nameBtn = createEl('button', 'gv-pm-collection-name');
+      nameBtn.textContent = label;
+      nameBtn.title = label;
+      nameBtn.addEventListener('click', () => selectCollection(filter));
+      const countEl = createEl('span', 'gv-pm-collection-count');
+      countEl.textContent = String(count);
+      row.appendChild(nameBtn);
+      row.appendChild(countEl);
+      return { row, nameBtn };
+    }
+
+    function renderCollections(): void {
+      const collectionIds = new Set(collections.map((c) => c.id));
+      if (
+        selectedCollection !== 'all' &&
+        selectedCollection !== 'unfiled' &&
+        !collectionIds.has(selectedCollection)
+      ) {
+        selectedCollection = 'all';
+      }
+      collectionsWrap.innerHTML = '';
+
+      const head = createEl('div', 'gv-pm-collections-head');
+      const headLabel = createEl('span', 'gv-pm-collections-title');
+      headLabel.textContent = i18n.t('pm_collections');
+      const addRootBtn = createEl('button', 'gv-pm-collection-add');
+      addRootBtn.textContent = '+';
+      addRootBtn.title = i18n.t('pm_collection_add');
+      addRootBtn.addEventListener('click', (ev) => {
+        ev.stopPropagation();
+        void createCollection(null);
+      });
+      head.appendChild(headLabel);
+      head.appendChild(addRootBtn);
+      collectionsWrap.appendChild(head);
+
+      const directCounts = new Map<string, number>();
+      let unfiledCount = 0;
+      for (const it of items) {
+        if (isUnfiled(it, collectionIds)) unfiledCount++;
+        else directCounts.set(it.collectionId!, (directCounts.get(it.collectionId!) || 0) + 1);
+      }
+      const childrenOf = (parentId: string | null): PromptCollection[] =>
+        collections
+          .filter((c) => c.parentId === parentId)
+          .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+      const subtreeCount = (id: string): number =>
+        Array.from(getCollectionSubtreeIds(collections, id)).reduce(
+          (sum, cid) => sum + (directCounts.get(cid) || 0),
+          0,
+        );
+
+      const all = createCollectionRow(i18n.t('pm_collection_all'), 'all', items.length, 0);
+      attachDropTarget(all.row, null, false);
+      collectionsWrap.appendChild(all.row);
+
+      const unfiled = createCollectionRow(
+        i18n.t('pm_collection_unfiled'),
+        'unfiled',
+        unfiledCount,
+        0,
+      );
+      attachDropTarget(unfiled.row, null, true);
+      collectionsWrap.appendChild(unfiled.row);
+
+      const renderNode = (collection: PromptCollection, depth: number): void => {
+        const children = childrenOf(collection.id);
+        const { row, nameBtn } = createCollectionRow(
+          collection.name,
+          collection.id,
+          subtreeCount(collection.id),
+          depth,
+        );
+        row.draggable = true;
+        row.addEventListener('dragstart', (ev) => {
+          ev.stopPropagation();
+          ev.dataTransfer?.setData(DRAG_TYPE_COLLECTION, collection.id);
+          if (ev.dataTransfer) ev.dataTransfer.effectAllowed = 'move';
+        });
+        attachDropTarget(row, collection.id, true);
+
+        const toggle = createEl('button', 'gv-pm-collection-toggle');
+        toggle.textContent = children.length ? (collection.isExpanded ? '▾' : '▸') : '';
+        toggle.disabled = children.length === 0;
+        toggle.addEventListener('click', async (ev) => {
+          ev.stopPropagation();
+          collection.isExpanded = !collection.isExpanded;
+          await saveCollections();
+          renderCollections();
+        });
+        row.insertBefore(toggle, nameBtn);
+
+        if (renamingCollectionId === collection.id) {
+          const input = createEl('input', 'gv-pm-collection-input') as HTMLInputElement;
+          input.type = 'text';
+          input.value = collection.name;
+          let done = false;
+          const commit = (save: boolean) => {
+            if (done) return;
+            done = true;
+            if (save) void renameCollection(collection.id, input.value);
+            else {
+              renamingCollectionId = null;
+              renderCollections();
+            }
+          };
+          input.addEventListener('keydown', (ev) => {
+            ev.stopPropagation();
+            if (ev.key === 'Enter') {
+              ev.preventDefault();
+              commit(true);
+            } else if (ev.key === 'Escape') {
+              commit(false);
+            }
+          });
+          input.addEventListener('blur', () => commit(true));
+          nameBtn.replaceWith(input);
+          requestAnimationFrame(() => {
+            input.focus();
+            input.select();
+          });
+        }
+
+        const actions = createEl('span', 'gv-pm-collection-actions');
+        const addChildBtn = createEl('button', 'gv-pm-collection-action');
+        addChildBtn.textContent = '+';
+        addChildBtn.title = i18n.t('pm_collection_add_child');
+        addChildBtn.addEventListener('click', (ev) => {
+          ev.stopPropagation();
+          void createCollection(collection.id);
+        });
+        const renameBtn = createEl('button', 'gv-pm-collection-action');
+        renameBtn.textContent = '✎';
+        renameBtn.title = i18n.t('pm_collection_rename');
+        renameBtn.addEventListener('click', (ev) => {
+          ev.stopPropagation();
+          renamingCollectionId = collection.id;
+          renderCollections();
+        });
+        const deleteBtn = createEl('button', 'gv-pm-collection-action');
+        deleteBtn.textContent = '×';
+        deleteBtn.title = i18n.t('pm_collection_delete');
+        deleteBtn.addEventListener('click', (ev) => {
+          ev.stopPropagation();
+          void deleteCollection(collection.id);
+        });
+        actions.appendChild(addChildBtn);
+        actions.appendChild(renameBtn);
+        actions.appendChild(deleteBtn);
+        row.appendChild(actions);
+
+        collectionsWrap.appendChild(row);
+        if (collection.isExpanded) {
+          for (const child of children) renderNode(child, depth + 1);
+        }
+      };
+      for (const collection of childrenOf(null)) renderNode(collection, 0);
+    }
+
     function renderTags(): void {
       const all = collectAllTags(items);
       tagsWrap.innerHTML = '';
@@ -722,13 +1357,21 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
     function renderList(): void {
       const q = (searchInput.value || '').trim().toLowerCase();
       const selectedTagList = Array.from(selectedTags);
-      const filtered = items.filter((it) => {
+      const collectionIds = new Set(collections.map((c) => c.id));
+      const inCollection =
+        selectedCollection === 'all' || selectedCollection === 'unfiled'
+          ? null
+          : getCollectionSubtreeIds(collections, selectedCollection);
+      const matches = items.filter((it) => {
+        if (selectedCollection === 'unfiled' && !isUnfiled(it, collectionIds)) return false;
+        if (inCollection && !(it.collectionId && inCollection.has(it.collectionId))) return false;
         const okTag =
           selectedTagList.length === 0 || selectedTagList.every((t) => it.tags.includes(t));
         if (!okTag) return false;
         if (!q) return true;
         return it.text.toLowerCase().includes(q) || it.tags.some((t) => t.includes(q));
       });
+      const filtered = sortPrompts(matches, sortMode);
       list.innerHTML = '';
       if (filtered.length === 0) {
         const empty = createEl('div', 'gv-pm-empty');
@@ -739,6 +1382,15 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       const frag = document.createDocumentFragment();
       for (const it of filtered) {
         const row = createEl('div', 'gv-pm-item');
+        row.classList.toggle('gv-pm-item-pinned', !!it.pinned);
+        // Drag a prompt onto a collection in the tree to file it there
+        row.draggable = true;
+        row.addEventListener('dragstart', (e) => {
+          e.dataTransfer?.setData(DRAG_TYPE_PROMPT, it.id);
+          if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+          row.classList.add('gv-pm-item-dragging');
+        });
+        row.addEventListener('dragend', () => row.classList.remove('gv-pm-item-dragging'));
 
         // Create text container with expand/collapse functionality
         const textContainer = createEl('div', 'gv-pm-item-text-container');
@@ -781,8 +1433,7 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
         textBtn.addEventListener('click', async (e) => {
           // Don't copy when clicking expand button
           if ((e.target as HTMLElement).closest('.gv-pm-expand-btn')) return;
-          await copyText(it.text);
-          setNotice(i18n.t('pm_copied') || 'Copied', 'ok');
+          await pickPrompt(it, 'copy');
         });
 
         // Add expand/collapse button
@@ -815,10 +1466,48 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           (addForm.querySelector('.gv-pm-input-tags') as HTMLInputElement).value = (
             it.tags || []
           ).join(', ');
+          draftVariables = (it.variables || []).map((v) => ({ ...v }));
+          renderVariableEditor();
+          closeFillForm();
+          closeHistory();
           addForm.classList.remove('gv-hidden');
           (addForm.querySelector('.gv-pm-input-text') as HTMLTextAreaElement).focus();
           editingId = it.id;
         });
+        // Insert button - renders template variables (if any) and writes into the chat input
+        const insertBtn = createEl('button', 'gv-pm-insert');
+        insertBtn.title = i18n.t('pm_insert');
+        insertBtn.setAttribute('aria-label', i18n.t('pm_insert'));
+        insertBtn.addEventListener('click', async (e) => {
+          e.stopPropagation();
+          await pickPrompt(it, 'insert');
+        });
+        // History button - only shown once the prompt has been edited
+        let historyBtn: HTMLButtonElement | null = null;
+        if (it.history?.length) {
+          historyBtn = createEl('button', 'gv-pm-history');
+          historyBtn.title = `${i18n.t('pm_history')} (${it.history.length})`;
+          historyBtn.setAttribute('aria-label', i18n.t('pm_history'));
+          historyBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            openHistory(it);
+          });
+        }
+        // Pin button - pinned prompts stay above all others regardless of sort mode
+        const pinBtn = createEl('button', 'gv-pm-pin');
+        pinBtn.classList.toggle('active', !!it.pinned);
+        pinBtn.setAttribute('aria-pressed', it.pinned ? 'true' : 'false');
+        pinBtn.title = it.pinned ? i18n.t('pm_unpin') : i18n.t('pm_pin');
+        pinBtn.setAttribute('aria-label', pinBtn.title);
+        pinBtn.addEventListener('click', async (e) => {
+          e.stopPropagation();
+          const target = items.find((x) => x.id === it.id);
+          if (!target) return;
+          target.pinned = !target.pinned;
+          target.updatedAt = Date.now();
+          await writeStorage(STORAGE_KEYS.items, items);
+          renderList();
+        });
         const bottom = createEl('div', 'gv-pm-bottom');
         const meta = createEl('div', 'gv-pm-item-meta');
         for (const t of it.tags) {
@@ -832,6 +1521,19 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           });
           meta.appendChild(chip);
         }
+        const variableNames = syncTemplateVariables(it.text, it.variables).map((v) => v.name);
+        if (variableNames.length > 0) {
+          const varBadge = createEl('span', 'gv-pm-var-badge');
+          varBadge.textContent = `{{ }} ${variableNames.length}`;
+          varBadge.title = variableNames.join(', ');
+          meta.appendChild(varBadge);
+        }
+        if (it.usageCount) {
+          const usageBadge = createEl('span', 'gv-pm-usage-badge');
+          usageBadge.textContent = `×${it.usageCount}`;
+          usageBadge.title = i18n.t('pm_usage_count').replace('{count}', String(it.usageCount));
+          meta.appendChild(usageBadge);
+        }
         // Actions container at row bottom-right
         const actions = createEl('div', 'gv-pm-actions');
         const del = createEl('button', 'gv-pm-del');
@@ -890,6 +1592,7 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
             items = items.filter((x) => x.id !== it.id);
             await writeStorage(STORAGE_KEYS.items, items);
             cleanup();
+            renderCollections();
             renderTags();
             renderList();
             setNotice(i18n.t('pm_deleted') || 'Deleted', 'ok');
@@ -899,6 +1602,9 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
         // Append text container instead of textBtn
         row.appendChild(textContainer);
 
+        actions.appendChild(pinBtn);
+        actions.appendChild(insertBtn);
+        if (historyBtn) actions.appendChild(historyBtn);
         actions.appendChild(editBtn);
         actions.appendChild(del);
         bottom.appendChild(meta);
@@ -927,6 +1633,8 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
     function closePanel(): void {
       open = false;
       panel.classList.add('gv-hidden');
+      closeFillForm();
+      closeHistory();
     }
 
     function applyLockUI(): void {
@@ -969,7 +1677,18 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       (addForm.querySelector('.gv-pm-save') as HTMLButtonElement).textContent = i18n.t('pm_save');
       (addForm.querySelector('.gv-pm-cancel') as HTMLButtonElement).textContent =
         i18n.t('pm_cancel');
+      sortSel.title = i18n.t('pm_sort');
+      sortSel.innerHTML = '';
+      for (const mode of PROMPT_SORT_MODES) {
+        const opt = createEl('option');
+        opt.value = mode;
+        opt.textContent = i18n.t(SORT_MODE_LABEL_KEYS[mode]);
+        sortSel.appendChild(opt);
+      }
+      sortSel.value = sortMode;
+      renderVariableEditor();
       applyLockUI();
+      renderCollections();
       renderTags();
       renderList();
     }
@@ -1020,13 +1739,18 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
     }
 
     // Events
-    trigger.addEventListener('click', () => {
+    const togglePanel = () => {
       if (open) closePanel();
       else {
         openPanel();
         renderTags();
         renderList();
       }
+    };
+    trigger.addEventListener('click', togglePanel);
+    const unregisterShortcut = keyboardShortcutService.register('prompt:togglePanel', () => {
+      togglePanel();
+      if (open) searchInput.focus();
     });
 
     // Handle window resize - constrain trigger and reposition panel
@@ -1149,15 +1873,25 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       }
       // Handle prompt data changes from cloud sync (local storage)
       if (area === 'local' && changes?.gvPromptItems) {
-        pmLogger.info('Prompt data changed in chrome.storage.local, reloading...');
         const newItems = changes.gvPromptItems.newValue;
-        if (Array.isArray(newItems)) {
+        // Our own writes echo back here; only reload when the data actually differs
+        if (Array.isArray(newItems) && JSON.stringify(newItems) !== JSON.stringify(items)) {
+          pmLogger.info('Prompt data changed in chrome.storage.local, reloading...');
           items = newItems;
+          renderCollections();
           renderTags();
           renderList();
           setNotice(i18n.t('syncSuccess') || 'Synced', 'ok');
         }
       }
+      if (area === 'local' && changes?.[StorageKeys.PROMPT_COLLECTIONS]) {
+        const next = normalizePromptCollections(changes[StorageKeys.PROMPT_COLLECTIONS].newValue);
+        if (JSON.stringify(next) !== JSON.stringify(collections)) {
+          collections = next;
+          renderCollections();
+          renderList();
+        }
+      }
     };
 
     try {
@@ -1168,6 +1902,10 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       ev.preventDefault();
       ev.stopPropagation();
       editingId = null;
+      draftVariables = [];
+      renderVariableEditor();
+      closeFillForm();
+      closeHistory();
       addForm.classList.remove('gv-hidden');
       (addForm.querySelector('.gv-pm-input-text') as HTMLTextAreaElement)?.focus();
     });
@@ -1220,15 +1958,21 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
         ev.preventDefault();
         ev.stopPropagation();
         editingId = null;
+        draftVariables = [];
         addForm.classList.add('gv-hidden');
       },
     );
+    (addForm.querySelector('.gv-pm-input-text') as HTMLTextAreaElement).addEventListener(
+      'input',
+      () => renderVariableEditor(),
+    );
     addForm.addEventListener('submit', async (e) => {
       e.preventDefault();
       const text = (addForm.querySelector('.gv-pm-input-text') as HTMLTextAreaElement).value.trim();
       const tagsRaw = (addForm.querySelector('.gv-pm-input-tags') as HTMLInputElement).value;
       const tags = dedupeTags((tagsRaw || '').split(',').map((s) => s.trim()));
       if (!text) return;
+      const variables = finalizeVariables(text, draftVariables);
       if (editingId) {
         const dup = items.some(
           (x) => x.id !== editingId && x.text.trim().toLowerCase() === text.toLowerCase(),
@@ -1239,9 +1983,12 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
         }
         const target = items.find((x) => x.id === editingId);
         if (target) {
+          const now = Date.now();
+          target.history = recordPromptRevision(target, { text, tags, variables }, now);
           target.text = text;
           target.tags = tags;
-          target.updatedAt = Date.now();
+          target.variables = variables;
+          target.updatedAt = now;
           await writeStorage(STORAGE_KEYS.items, items);
           setNotice(i18n.t('pm_saved') || 'Saved', 'ok');
         }
@@ -1253,27 +2000,46 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           setInlineHint(i18n.t('pm_duplicate') || 'Duplicate prompt', 'err');
           return;
         }
-        const it: PromptItem = { id: uid(), text, tags, createdAt: Date.now() };
+        const it: PromptItem = { id: uid(), text, tags, variables, createdAt: Date.now() };
+        if (selectedCollection !== 'all' && selectedCollection !== 'unfiled') {
+          it.collectionId = selectedCollection;
+        }
         items = [it, ...items];
         await writeStorage(STORAGE_KEYS.items, items);
       }
       (addForm.querySelector('.gv-pm-input-text') as HTMLTextAreaElement).value = '';
       (addForm.querySelector('.gv-pm-input-tags') as HTMLInputElement).value = '';
+      draftVariables = [];
+      renderVariableEditor();
       setInlineHint('');
       addForm.classList.add('gv-hidden');
+      renderCollections();
       renderTags();
       renderList();
     });
 
     searchInput.addEventListener('input', () => renderList());
+    sortSel.addEventListener('change', async () => {
+      const next = sortSel.value;
+      if (!isPromptSortMode(next)) return;
+      sortMode = next;
+      await writeStorage(STORAGE_KEYS.sortMode, sortMode);
+      renderList();
+    });
 
     exportBtn.addEventListener('click', async () => {
       try {
         const data = await readStorage<PromptItem[]>(STORAGE_KEYS.items, []);
+        const savedCollections = await readStorage<PromptCollection[]>(
+          STORAGE_KEYS.collections,
+          [],
+        );
         const payload = {
-          format: 'gemini-voyager.prompts.v1',
+          format: PROMPT_EXPORT_FORMAT,
           exportedAt: new Date().toISOString(),
+          version: EXTENSION_VERSION,
           items: data,
+          collections: savedCollections,
         };
         const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
@@ -1294,30 +2060,51 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       try {
         // Read prompts
         const prompts = await readStorage<PromptItem[]>(STORAGE_KEYS.items, []);
+        const promptCollections = await readStorage<PromptCollection[]>(
+          STORAGE_KEYS.collections,
+          [],
+        );
         const promptPayload = {
-          format: 'gemini-voyager.prompts.v1',
+          format: PROMPT_EXPORT_FORMAT,
           exportedAt: new Date().toISOString(),
+          version: EXTENSION_VERSION,
           items: prompts,
+          collections: promptCollections,
         };
 
-        // Read folders (Safari-compatible: uses storage adapter)
+        // Read the shown account's folders (Safari-compatible: uses storage adapter)
         const folderStorage = createFolderStorageAdapter();
-        const folderData = (await folderStorage.loadData('gvFolderData')) || {
+        const folderStorageKey = getFolderStorageKey(resolveFolderAccountId());
+        const folderData = (await folderStorage.loadData(folderStorageKey)) || {
           folders: [],
           folderContents: {},
         };
 
         // Create folder export payload with correct format
         const folderPayload = {
-          format: 'gemini-voyager.folders.v1',
+          format: 'gemini-voyager.folders.v2',
           exportedAt: new Date().toISOString(),
-          version: '0.9.3',
+          version: EXTENSION_VERSION,
           data: {
             folders: folderData.folders || [],
             folderContents: folderData.folderContents || {},
+            smartFolders: folderData.smartFolders || [],
+            tags: folderData.tags || [],
+            trash: folderData.trash || [],
           },
         };
 
+        // Timeline marker levels and collapsed markers
+        const timelineOutlinePayload: TimelineOutlineExportPayload = {
+          format: 'gemini-voyager.timeline-outline.v1',
+          exportedAt: new Date().toISOString(),
+          version: EXTENSION_VERSION,
+          data: normalizeTimelineOutline(
+            await readStorage<unknown>(StorageKeys.TIMELINE_MARKER_LEVELS, {}),
+            await readStorage<unknown>(StorageKeys.TIMELINE_COLLAPSED_MARKERS, {}),
+          ),
+        };
+
         // Count conversations
         const conversationCount = Object.values(folderData.folderContents || {}).reduce(
           (sum: number, convs: unknown) => sum + (Array.isArray(convs) ? convs.length : 0),
@@ -1372,6 +2159,13 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           await metaWritable.write(JSON.stringify(metadata, null, 2));
           await metaWritable.close();
 
+          const outlineFile = await backupDir.getFileHandle('timeline-outline.json', {
+            create: true,
+          });
+          const outlineWritable = await outlineFile.createWritable();
+          await outlineWritable.write(JSON.stringify(timelineOutlinePayload, null, 2));
+          await outlineWritable.close();
+
           setNotice(
             `✓ Backed up ${prompts.length} prompts, ${folderData.folders?.length || 0} folders`,
             'ok',
@@ -1384,6 +2178,7 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           zip.file('prompts.json', JSON.stringify(promptPayload, null, 2));
           zip.file('folders.json', JSON.stringify(folderPayload, null, 2));
           zip.file('metadata.json', JSON.stringify(metadata, null, 2));
+          zip.file('timeline-outline.json', JSON.stringify(timelineOutlinePayload, null, 2));
 
           // Generate ZIP file
           const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -1419,8 +2214,10 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
       if (!file) return;
       try {
         const text = await file.text();
-        const json = safeParseJSON<Record<string, unknown> | null>(text, null);
-        if (!json || (json.format !== 'gemini-voyager.prompts.v1' && !Array.isArray(json.items))) {
+        const parsed = safeParseJSON<Record<string, unknown> | null>(text, null);
+        // Upgrade older exports (v1) so template variables are derived from placeholders
+        const json = parsed ? (migrateFormat(parsed).data as Record<string, unknown>) : null;
+        if (!json || (json.format !== PROMPT_EXPORT_FORMAT && !Array.isArray(json.items))) {
           setNotice(i18n.t('pm_import_invalid') || 'Invalid file format', 'err');
           return;
         }
@@ -1429,6 +2226,12 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           : Array.isArray(json.items)
             ? json.items
             : [];
+        // Collections are merged by id so re-importing an export does not duplicate the tree
+        const nextCollections = mergePromptCollections(
+          collections,
+          normalizePromptCollections(json.collections),
+        );
+        const nextCollectionIds = new Set(nextCollections.map((c) => c.id));
         const valid: PromptItem[] = [];
         const seen = new Set<string>();
         for (const it of arr) {
@@ -1439,7 +2242,32 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           const key = `${text.toLowerCase()}|${tags.sort().join(',')}`;
           if (seen.has(key)) continue;
           seen.add(key);
-          valid.push({ id: uid(), text, tags: dedupeTags(tags), createdAt: Date.now() });
+          const rawVariables = Array.isArray(itObj.variables) ? itObj.variables : [];
+          const variables = finalizeVariables(
+            text,
+            rawVariables
+              .map((v) => normalizePromptVariable(v))
+              .filter((v): v is PromptVariable => v !== null),
+          );
+          const history = normalizePromptHistory(itObj.history);
+          const collectionId =
+            typeof itObj.collectionId === 'string' && nextCollectionIds.has(itObj.collectionId)
+              ? itObj.collectionId
+              : null;
+          const usageCount = typeof itObj.usageCount === 'number' ? itObj.usageCount : 0;
+          const lastUsedAt = typeof itObj.lastUsedAt === 'number' ? itObj.lastUsedAt : 0;
+          valid.push({
+            id: uid(),
+            text,
+            tags: dedupeTags(tags),
+            variables,
+            createdAt: Date.now(),
+            ...(history.length ? { history } : {}),
+            ...(collectionId ? { collectionId } : {}),
+            ...(itObj.pinned === true ? { pinned: true } : {}),
+            ...(usageCount > 0 ? { usageCount } : {}),
+            ...(lastUsedAt > 0 ? { lastUsedAt } : {}),
+          });
         }
         if (valid.length) {
           // Merge by text equality (case-insensitive)
@@ -1451,18 +2279,27 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
               const prev = map.get(k)!;
               const mergedTags = dedupeTags([...(prev.tags || []), ...(it.tags || [])]);
               prev.tags = mergedTags;
+              if (!prev.variables?.length && it.variables?.length) prev.variables = it.variables;
+              if (!prev.collectionId && it.collectionId) prev.collectionId = it.collectionId;
+              if (it.pinned) prev.pinned = true;
               prev.updatedAt = Date.now();
               map.set(k, prev);
             } else {
               map.set(k, it);
             }
           }
-          items = Array.from(map.values()).sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+          collections = nextCollections;
+          items = detachOrphanedPrompts(
+            Array.from(map.values()).sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0)),
+            collections,
+          );
+          await writeStorage(STORAGE_KEYS.collections, collections);
           await writeStorage(STORAGE_KEYS.items, items);
           setNotice(
             (i18n.t('pm_import_success') || 'Imported').replace('{count}', String(valid.length)),
             'ok',
           );
+          renderCollections();
           renderTags();
           renderList();
         } else {
@@ -1491,6 +2328,7 @@ export async function startPromptManager(): Promise<{ destroy: () => void }> {
           window.removeEventListener('pointerup', onTriggerDragEnd);
 
           chrome.storage?.onChanged?.removeListener(storageChangeHandler);
+          unregisterShortcut();
 
           trigger.remove();
           panel.remove();
@@ -0,0 +1,100 @@
+/**
+ * Fill-in form for templated prompts
+ * Shared by the Prompt Manager panel and the inline slash-command picker
+ */
+import type { PromptVariable } from '@/core/types/sync';
+import { getInitialVariableValues, renderPromptTemplate } from '@/core/utils/promptTemplate';
+
+export interface TemplateFillFormOptions {
+  /** Prompt text containing `{{name}}` placeholders */
+  text: string;
+  variables: PromptVariable[];
+  labels: { title: string; submit: string; cancel: string };
+  /** Called with the rendered prompt when the form is submitted */
+  onSubmit: (rendered: string) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Populate `form` with one field per variable plus submit/cancel actions.
+ * Existing children are replaced, so the same form element can be reused.
+ * @returns The first field, so callers can focus it once the form is visible
+ */
+export function renderTemplateFillForm(
+  form: HTMLFormElement,
+  options: TemplateFillFormOptions,
+): HTMLElement | null {
+  const { text, variables, labels, onSubmit, onCancel } = options;
+  const values = getInitialVariableValues(variables);
+  form.innerHTML = '';
+
+  const heading = document.createElement('div');
+  heading.className = 'gv-pm-vars-title';
+  heading.textContent = labels.title;
+  form.appendChild(heading);
+
+  let firstField: HTMLElement | null = null;
+  for (const variable of variables) {
+    const label = document.createElement('label');
+    label.className = 'gv-pm-fill-field';
+    const caption = document.createElement('span');
+    caption.className = 'gv-pm-var-name';
+    caption.textContent = variable.name;
+    label.appendChild(caption);
+
+    let field: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+    if (variable.type === 'choice' && variable.options?.length) {
+      field = document.createElement('select');
+      field.className = 'gv-pm-var-type';
+      for (const option of variable.options) {
+        const opt = document.createElement('option');
+        opt.value = option;
+        opt.textContent = option;
+        field.appendChild(opt);
+      }
+    } else if (variable.type === 'multiline') {
+      field = document.createElement('textarea');
+      field.className = 'gv-pm-input-text';
+      field.rows = 3;
+    } else {
+      field = document.createElement('input');
+      field.className = 'gv-pm-input-tags';
+      field.type = 'text';
+    }
+    field.value = values[variable.name] ?? '';
+    const sync = () => {
+      values[variable.name] = field.value;
+    };
+    field.addEventListener('input', sync);
+    field.addEventListener('change', sync);
+    label.appendChild(field);
+    form.appendChild(label);
+    firstField ??= field;
+  }
+
+  const actions = document.createElement('div');
+  actions.className = 'gv-pm-add-actions';
+  const submit = document.createElement('button');
+  submit.className = 'gv-pm-save';
+  submit.type = 'submit';
+  submit.textContent = labels.submit;
+  const cancel = document.createElement('button');
+  cancel.className = 'gv-pm-cancel';
+  cancel.type = 'button';
+  cancel.textContent = labels.cancel;
+  cancel.addEventListener('click', (ev) => {
+    ev.preventDefault();
+    ev.stopPropagation();
+    onCancel();
+  });
+  actions.appendChild(submit);
+  actions.appendChild(cancel);
+  form.appendChild(actions);
+
+  form.onsubmit = async (ev) => {
+    ev.preventDefault();
+    await onSubmit(renderPromptTemplate(text, values));
+  };
+
+  return firstField;
+}
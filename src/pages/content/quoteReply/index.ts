@@ -1,10 +1,12 @@
 import browser from 'webextension-polyfill';
 
+import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
 import { StorageKeys } from '@/core/types/common';
 import { getBrowserName } from '@/core/utils/browser';
 
 import { getTranslationSync } from '../../../utils/i18n';
 import { expandInputCollapseIfNeeded } from '../inputCollapse/index';
+import { getChatInput } from '../shared/chatInput';
 
 // ============================================================================
 // Constants
@@ -105,32 +107,6 @@ function injectStyles() {
   document.head.appendChild(style);
 }
 
-// Function to find the chat input
-function getChatInput(): HTMLElement | null {
-  // Gemini usually has a rich-textarea
-  // Try multiple selectors from most specific to generic
-  const selectors = [
-    'rich-textarea [contenteditable="true"]',
-    'div[contenteditable="true"][role="textbox"]',
-    '.input-area textarea',
-    'textarea[placeholder*="Ask"]',
-    'textarea', // Fallback, might be dangerous
-  ];
-
-  for (const selector of selectors) {
-    // We probably want the one in the main footer/input area, not others (like edit mode)
-    // Usually the main input is visible and larger.
-    const els = document.querySelectorAll(selector);
-    for (const el of Array.from(els)) {
-      // Check if it's visible
-      if (el.getBoundingClientRect().height > 0) {
-        return el as HTMLElement;
-      }
-    }
-  }
-  return null;
-}
-
 function countLineBreaks(raw: string): number {
   return (raw.match(/\n/g) || []).length;
 }
@@ -571,6 +547,12 @@ export function startQuoteReply() {
   // Also listen to keyup for keyboard selection
   document.addEventListener('keyup', onKeys);
 
+  // Keyboard shortcut quotes the selection the button is currently shown for
+  const unregisterShortcut = keyboardShortcutService.register('quote:selection', () => {
+    if (!quoteBtn || quoteBtn.classList.contains(CSS_CLASSES.HIDDEN)) return;
+    handleQuoteClick();
+  });
+
   // Listen for language changes and update button text
   function onStorageChanged(
     changes: Record<string, browser.Storage.StorageChange>,
@@ -589,6 +571,7 @@ export function startQuoteReply() {
     document.removeEventListener('mouseup', onMouseUp);
     document.removeEventListener('keyup', onKeys);
     browser.storage.onChanged.removeListener(onStorageChanged);
+    unregisterShortcut();
     if (quoteBtn) quoteBtn.remove();
     const style = document.getElementById(STYLE_ID);
     if (style) style.remove();
@@ -15,6 +15,7 @@
 import { StorageKeys } from '@/core/types/common';
 import { isExtensionContextInvalidatedError } from '@/core/utils/extensionContext';
 
+import { EDITABLE_SELECTORS, isEditableInput } from '../shared/chatInput';
 import { getTextOffset, setCaretPosition } from './utils';
 
 // ============================================================================
@@ -37,9 +38,6 @@ const SEND_BUTTON_SELECTORS = [
   'button[aria-label*="更新"]',
 ] as const;
 
-/** Selector for editable elements */
-const EDITABLE_SELECTORS = '[contenteditable="true"], [role="textbox"], textarea';
-
 /** Log prefix for consistent logging */
 const LOG_PREFIX = '[SendBehavior]';
 
@@ -247,13 +245,10 @@ function handleKeyDown(event: KeyboardEvent): void {
   const target = event.target as HTMLElement;
 
   // Check if we're in an editable area (Gemini uses contenteditable divs)
-  const isContentEditable =
-    target.isContentEditable || target.getAttribute('contenteditable') === 'true';
-  const isTextarea = target.tagName === 'TEXTAREA';
-
   // Ignore INPUT elements - they are usually single-line (search, rename)
   // and pressing Enter there should trigger the default submit action
-  if (!isContentEditable && !isTextarea) return;
+  if (!isEditableInput(target)) return;
+  const isTextarea = target.tagName === 'TEXTAREA';
 
   // Ctrl+Enter or Cmd+Enter: Send the message
   if (event.ctrlKey || event.metaKey) {
@@ -273,10 +268,10 @@ function handleKeyDown(event: KeyboardEvent): void {
   event.preventDefault();
   event.stopPropagation();
 
-  if (isContentEditable) {
-    insertNewlineInContentEditable(target);
-  } else if (isTextarea) {
+  if (isTextarea) {
     insertNewlineInTextarea(target as HTMLTextAreaElement);
+  } else {
+    insertNewlineInContentEditable(target);
   }
 }
 
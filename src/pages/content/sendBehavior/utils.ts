@@ -64,3 +64,39 @@ export function setCaretPosition(root: HTMLElement, targetOffset: number): void
     selection.addRange(range);
   }
 }
+
+/**
+ * Select the text between two global text offsets relative to the root element.
+ * Offsets beyond the content length are clamped to the end.
+ */
+export function selectTextRange(root: HTMLElement, startOffset: number, endOffset: number): void {
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.collapse(false);
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, null);
+  let currentOffset = 0;
+  let startSet = false;
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode;
+    const length = node.textContent?.length || 0;
+
+    if (!startSet && currentOffset + length >= startOffset) {
+      range.setStart(node, startOffset - currentOffset);
+      startSet = true;
+    }
+    if (startSet && currentOffset + length >= endOffset) {
+      range.setEnd(node, endOffset - currentOffset);
+      break;
+    }
+
+    currentOffset += length;
+  }
+
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
@@ -0,0 +1,107 @@
+/**
+ * Chat input helpers shared by content modules that write into the prompt box
+ * (quote reply, prompt manager, ...).
+ */
+
+/** Selector for editable elements (Gemini contenteditable, AI Studio textarea) */
+export const EDITABLE_SELECTORS = '[contenteditable="true"], [role="textbox"], textarea';
+
+/**
+ * Check whether an element is an editable prompt area (contenteditable or textarea).
+ * Single-line INPUT elements (search, rename) are intentionally excluded.
+ */
+export function isEditableInput(target: HTMLElement): boolean {
+  return (
+    target.isContentEditable ||
+    target.getAttribute('contenteditable') === 'true' ||
+    target.tagName === 'TEXTAREA'
+  );
+}
+
+/**
+ * Find the visible chat input.
+ * Gemini usually renders a Quill-based rich-textarea; AI Studio and custom sites use textareas.
+ */
+export function getChatInput(): HTMLElement | null {
+  // Try multiple selectors from most specific to generic
+  const selectors = [
+    'rich-textarea [contenteditable="true"]',
+    'div[contenteditable="true"][role="textbox"]',
+    '.input-area textarea',
+    'textarea[placeholder*="Ask"]',
+    'textarea', // Fallback, might be dangerous
+  ];
+
+  for (const selector of selectors) {
+    // We probably want the one in the main footer/input area, not others (like edit mode)
+    // Usually the main input is visible and larger.
+    const els = document.querySelectorAll(selector);
+    for (const el of Array.from(els)) {
+      // Check if it's visible
+      if (el.getBoundingClientRect().height > 0) {
+        return el as HTMLElement;
+      }
+    }
+  }
+  return null;
+}
+
+function placeCaretAtEnd(input: HTMLElement): void {
+  const sel = window.getSelection();
+  if (!sel) return;
+  const range = document.createRange();
+  range.selectNodeContents(input);
+  range.collapse(false);
+  sel.removeAllRanges();
+  sel.addRange(range);
+}
+
+/**
+ * Insert text into a chat input at the caret (or at the end when the caret is elsewhere)
+ * and notify the host editor via an `input` event.
+ * @returns true if the text was written into the input
+ */
+export function insertTextIntoChatInput(input: HTMLElement, text: string): boolean {
+  input.focus();
+
+  if (input instanceof HTMLTextAreaElement) {
+    const start = input.selectionStart ?? input.value.length;
+    const end = input.selectionEnd ?? input.value.length;
+    input.value = input.value.slice(0, start) + text + input.value.slice(end);
+    input.selectionStart = input.selectionEnd = start + text.length;
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    return true;
+  }
+
+  const sel = window.getSelection();
+  if (!sel || sel.rangeCount === 0 || !input.contains(sel.getRangeAt(0).commonAncestorContainer)) {
+    placeCaretAtEnd(input);
+  }
+
+  // Quill handles text insertion better with native insertText command.
+  let inserted = false;
+  try {
+    inserted = document.execCommand('insertText', false, text);
+  } catch {
+    inserted = false;
+  }
+
+  if (!inserted) {
+    // Fallback to manual Range insertion when command is unavailable
+    const textNode = document.createTextNode(text);
+    if (sel && sel.rangeCount > 0) {
+      const range = sel.getRangeAt(0);
+      range.deleteContents();
+      range.insertNode(textNode);
+      range.setStartAfter(textNode);
+      range.setEndAfter(textNode);
+      sel.removeAllRanges();
+      sel.addRange(range);
+    } else {
+      input.appendChild(textNode);
+    }
+  }
+
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  return true;
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  getDefaultShortcutConfig,
+  keyboardShortcutService,
+} from '@/core/services/KeyboardShortcutService';
+
+import { getCheatSheetGroups, startShortcutCheatSheet } from '../index';
+
+function pressKey(key: string): void {
+  document.body.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+}
+
+describe('getCheatSheetGroups', () => {
+  it('lists bound actions that are available, grouped in display order', () => {
+    const config = {
+      ...getDefaultShortcutConfig(),
+      'export:open': { action: 'export:open' as const, modifiers: [], key: 'e' },
+    };
+    const available = new Set(['timeline:next', 'timeline:top', 'export:open', 'help:cheatSheet']);
+
+    const groups = getCheatSheetGroups(config, (action) => available.has(action));
+
+    expect(groups.map((g) => g.group)).toEqual(['timeline', 'tools', 'help']);
+    expect(groups[0].items.map((item) => item.action)).toEqual(['timeline:next']);
+    expect(groups[1].items[0].shortcut.key).toBe('e');
+  });
+});
+
+describe('startShortcutCheatSheet', () => {
+  let cleanup: (() => void) | null = null;
+
+  beforeEach(async () => {
+    vi.mocked(chrome.storage.sync.get).mockResolvedValue({} as never);
+    await keyboardShortcutService.init();
+    await keyboardShortcutService.saveConfig(getDefaultShortcutConfig(), true);
+    keyboardShortcutService.register('timeline:next', () => {});
+    cleanup = startShortcutCheatSheet();
+  });
+
+  afterEach(() => {
+    cleanup?.();
+    keyboardShortcutService.destroy();
+    vi.clearAllMocks();
+  });
+
+  const getOverlay = () => document.querySelector('.gv-shortcut-cheatsheet-overlay');
+
+  it('toggles the overlay with ? and lists the registered shortcuts', () => {
+    pressKey('?');
+
+    const rows = Array.from(document.querySelectorAll<HTMLElement>('.gv-shortcut-cheatsheet-row'));
+    expect(rows.map((row) => row.dataset.action)).toEqual(['timeline:next', 'help:cheatSheet']);
+    expect(rows[0].querySelector('kbd')?.textContent).toBe('j');
+
+    pressKey('?');
+    expect(getOverlay()).toBeNull();
+  });
+
+  it('closes on Escape and on a click outside the sheet', () => {
+    pressKey('?');
+    pressKey('Escape');
+    expect(getOverlay()).toBeNull();
+
+    pressKey('?');
+    getOverlay()?.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    expect(getOverlay()).toBeNull();
+  });
+});
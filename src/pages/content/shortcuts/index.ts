@@ -0,0 +1,138 @@
+/**
+ * Shortcut cheat sheet
+ * Overlay listing the keyboard shortcuts usable on the current page, toggled with `?`
+ */
+import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
+import {
+  type KeyboardShortcut,
+  type KeyboardShortcutConfig,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type ShortcutGroup,
+} from '@/core/types/keyboardShortcut';
+import { getTranslationSync } from '@/utils/i18n';
+import { SHORTCUT_ACTION_LABEL_KEYS, SHORTCUT_GROUP_LABEL_KEYS } from '@/utils/shortcutLabels';
+
+const OVERLAY_CLASS = 'gv-shortcut-cheatsheet-overlay';
+
+export interface CheatSheetGroup {
+  group: ShortcutGroup;
+  items: Array<{ action: ShortcutAction; shortcut: KeyboardShortcut }>;
+}
+
+/**
+ * Bound actions grouped for display, keeping only actions some feature handles on this page
+ */
+export function getCheatSheetGroups(
+  config: KeyboardShortcutConfig,
+  isAvailable: (action: ShortcutAction) => boolean,
+): CheatSheetGroup[] {
+  const groups: CheatSheetGroup[] = [];
+  SHORTCUT_ACTIONS.forEach(({ action, group }) => {
+    const shortcut = config[action];
+    if (!shortcut || !isAvailable(action)) return;
+    let entry = groups.find((g) => g.group === group);
+    if (!entry) {
+      entry = { group, items: [] };
+      groups.push(entry);
+    }
+    entry.items.push({ action, shortcut });
+  });
+  return groups;
+}
+
+function buildOverlay(close: () => void): HTMLElement {
+  const overlay = document.createElement('div');
+  overlay.className = OVERLAY_CLASS;
+
+  const dialog = document.createElement('div');
+  dialog.className = 'gv-shortcut-cheatsheet';
+  dialog.setAttribute('role', 'dialog');
+  dialog.setAttribute('aria-modal', 'true');
+
+  const title = document.createElement('h2');
+  title.className = 'gv-shortcut-cheatsheet-title';
+  title.textContent = getTranslationSync('keyboardShortcuts');
+  dialog.setAttribute('aria-label', title.textContent);
+  dialog.appendChild(title);
+
+  const { config } = keyboardShortcutService.getConfig();
+  const groups = getCheatSheetGroups(config, (action) =>
+    keyboardShortcutService.hasHandler(action),
+  );
+  groups.forEach(({ group, items }) => {
+    const section = document.createElement('section');
+    section.className = 'gv-shortcut-cheatsheet-group';
+
+    const heading = document.createElement('h3');
+    heading.textContent = getTranslationSync(SHORTCUT_GROUP_LABEL_KEYS[group]);
+    section.appendChild(heading);
+
+    items.forEach(({ action, shortcut }) => {
+      const row = document.createElement('div');
+      row.className = 'gv-shortcut-cheatsheet-row';
+      row.dataset.action = action;
+
+      const label = document.createElement('span');
+      label.textContent = getTranslationSync(SHORTCUT_ACTION_LABEL_KEYS[action]);
+
+      const keys = document.createElement('kbd');
+      keys.textContent = keyboardShortcutService.formatShortcut(shortcut);
+
+      row.appendChild(label);
+      row.appendChild(keys);
+      section.appendChild(row);
+    });
+    dialog.appendChild(section);
+  });
+
+  const hint = document.createElement('p');
+  hint.className = 'gv-shortcut-cheatsheet-hint';
+  // The overlay only opens through its own binding, so there is always one to show
+  hint.textContent = getTranslationSync('shortcutCheatSheetHint').replace(
+    '{shortcut}',
+    keyboardShortcutService.formatShortcut(config['help:cheatSheet']!),
+  );
+  dialog.appendChild(hint);
+
+  overlay.appendChild(dialog);
+  overlay.addEventListener('click', (e) => {
+    if (e.target === overlay) close();
+  });
+  return overlay;
+}
+
+export function startShortcutCheatSheet(): () => void {
+  let overlay: HTMLElement | null = null;
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.key !== 'Escape') return;
+    // Keep Gemini from reacting to the Escape that closes the sheet
+    e.preventDefault();
+    e.stopPropagation();
+    close();
+  };
+
+  function close(): void {
+    if (!overlay) return;
+    overlay.remove();
+    overlay = null;
+    window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }
+
+  function open(): void {
+    overlay = buildOverlay(close);
+    document.body.appendChild(overlay);
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+  }
+
+  const unregister = keyboardShortcutService.register('help:cheatSheet', () => {
+    if (overlay) close();
+    else open();
+  });
+
+  return () => {
+    close();
+    unregister();
+  };
+}
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { SIDE_PANEL_PORT_NAME, type SidePanelTimeline } from '@/core/types/sidePanel';
+
+import type { FolderManager } from '../../folder/manager';
+import { eventBus } from '../../timeline/EventBus';
+import { startSidePanelBridge } from '../index';
+
+const timelineManager = {
+  getSidePanelTimeline: vi.fn<() => SidePanelTimeline | null>(),
+  navigateToTurn: vi.fn(),
+  toggleTurnStar: vi.fn(async () => {}),
+  setTurnLevel: vi.fn(),
+};
+
+vi.mock('../../timeline', () => ({
+  getTimelineManager: () => timelineManager,
+}));
+
+type Listener = (message: unknown) => void;
+
+function createPort(name = SIDE_PANEL_PORT_NAME) {
+  const messageListeners: Listener[] = [];
+  const disconnectListeners: Array<() => void> = [];
+  return {
+    name,
+    postMessage: vi.fn(),
+    disconnect: vi.fn(),
+    onMessage: { addListener: (listener: Listener) => messageListeners.push(listener) },
+    onDisconnect: { addListener: (listener: () => void) => disconnectListeners.push(listener) },
+    send: (message: unknown) => messageListeners.forEach((listener) => listener(message)),
+    close: () => disconnectListeners.forEach((listener) => listener()),
+  };
+}
+
+const TIMELINE: SidePanelTimeline = {
+  conversationId: 'gemini:abc',
+  turns: [{ id: 'u-1', index: 0, text: 'Hello', starred: false, level: 1 }],
+  activeTurnId: 'u-1',
+  levelsEnabled: false,
+};
+
+describe('startSidePanelBridge', () => {
+  let connect: ((port: unknown) => void) | null;
+  let stop: () => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    connect = null;
+    Object.assign(chrome.runtime, {
+      onConnect: {
+        addListener: vi.fn((listener: (port: unknown) => void) => (connect = listener)),
+        removeListener: vi.fn(),
+      },
+    });
+    timelineManager.getSidePanelTimeline.mockReturnValue(TIMELINE);
+  });
+
+  afterEach(() => {
+    stop?.();
+    delete (chrome.runtime as { onConnect?: unknown }).onConnect;
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('sends snapshots on connect and again after timeline changes', () => {
+    const folderManager = {
+      getSidePanelFolderTree: () => ({
+        folders: [],
+        conversations: [],
+        currentConversationId: null,
+      }),
+      onDataChange: () => () => {},
+    } as unknown as FolderManager;
+    stop = startSidePanelBridge(folderManager);
+    const port = createPort();
+    connect?.(port);
+
+    expect(port.postMessage).toHaveBeenCalledWith({ type: 'timeline', timeline: TIMELINE });
+    expect(port.postMessage).toHaveBeenCalledWith({
+      type: 'folders',
+      folders: { folders: [], conversations: [], currentConversationId: null },
+    });
+
+    port.postMessage.mockClear();
+    eventBus.emit('timeline:changed', { conversationId: 'gemini:abc' });
+    eventBus.emit('timeline:changed', { conversationId: 'gemini:abc' });
+    vi.runOnlyPendingTimers();
+
+    expect(port.postMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops pushing once the panel disconnects', () => {
+    stop = startSidePanelBridge(null);
+    const port = createPort();
+    connect?.(port);
+    port.close();
+    port.postMessage.mockClear();
+
+    eventBus.emit('timeline:changed', { conversationId: 'gemini:abc' });
+    vi.runOnlyPendingTimers();
+
+    expect(port.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('runs timeline commands and ignores other ports', () => {
+    stop = startSidePanelBridge(null);
+    const other = createPort('other');
+    connect?.(other);
+    expect(other.postMessage).not.toHaveBeenCalled();
+
+    const port = createPort();
+    connect?.(port);
+    port.send({ type: 'navigateToTurn', turnId: 'u-1' });
+    port.send({ type: 'setLevel', turnId: 'u-1', level: 2 });
+    port.send('garbage');
+
+    expect(timelineManager.navigateToTurn).toHaveBeenCalledWith('u-1');
+    expect(timelineManager.setTurnLevel).toHaveBeenCalledWith('u-1', 2);
+  });
+
+  it('reports whether a prompt could be inserted', async () => {
+    stop = startSidePanelBridge(null);
+    const port = createPort();
+    connect?.(port);
+
+    port.send({ type: 'insertPrompt', promptId: 'p-1', text: 'Hi' });
+    await vi.waitFor(() =>
+      expect(port.postMessage).toHaveBeenCalledWith({
+        type: 'promptInserted',
+        promptId: 'p-1',
+        inserted: false,
+      }),
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Side panel bridge
+ * Serves the browser side panel over runtime ports: pushes snapshots of this tab's timeline
+ * and folder tree while a panel is connected, and runs the commands the panel sends back.
+ */
+import {
+  SIDE_PANEL_PORT_NAME,
+  type SidePanelCommand,
+  type SidePanelUpdate,
+} from '@/core/types/sidePanel';
+
+import type { FolderManager } from '../folder/manager';
+import { getChatInput, insertTextIntoChatInput } from '../shared/chatInput';
+import { getTimelineManager } from '../timeline';
+import { eventBus } from '../timeline/EventBus';
+
+// Coalesces bursts of timeline changes (scrolling, recalculation) into one push
+const PUSH_DELAY_MS = 150;
+// The timeline is torn down on route changes without an event; poll the URL while connected
+const ROUTE_POLL_INTERVAL_MS = 1000;
+
+function getSnapshots(folderManager: FolderManager | null): SidePanelUpdate[] {
+  return [
+    { type: 'timeline', timeline: getTimelineManager()?.getSidePanelTimeline() ?? null },
+    { type: 'folders', folders: folderManager?.getSidePanelFolderTree() ?? null },
+  ];
+}
+
+async function runCommand(
+  command: SidePanelCommand,
+  folderManager: FolderManager | null,
+  reply: (update: SidePanelUpdate) => void,
+): Promise<void> {
+  const timeline = getTimelineManager();
+  switch (command.type) {
+    case 'navigateToTurn':
+      timeline?.navigateToTurn(command.turnId);
+      break;
+    case 'toggleStar':
+      await timeline?.toggleTurnStar(command.turnId);
+      break;
+    case 'setLevel':
+      timeline?.setTurnLevel(command.turnId, command.level);
+      break;
+    case 'addCurrentConversationToFolder':
+      folderManager?.addCurrentConversationToFolder(command.folderId);
+      break;
+    case 'insertPrompt': {
+      const input = getChatInput();
+      const inserted = !!input && insertTextIntoChatInput(input, command.text);
+      reply({ type: 'promptInserted', promptId: command.promptId, inserted });
+      break;
+    }
+  }
+}
+
+export function startSidePanelBridge(folderManager: FolderManager | null): () => void {
+  const ports = new Set<chrome.runtime.Port>();
+  let pushTimer: number | null = null;
+  let routePollTimer: number | null = null;
+  let lastUrl = location.href;
+
+  const post = (port: chrome.runtime.Port, update: SidePanelUpdate): void => {
+    try {
+      port.postMessage(update);
+    } catch {
+      // The panel closed between the change and the push
+      ports.delete(port);
+    }
+  };
+
+  const pushSnapshots = (): void => {
+    pushTimer = null;
+    const snapshots = getSnapshots(folderManager);
+    ports.forEach((port) => snapshots.forEach((update) => post(port, update)));
+  };
+
+  const schedulePush = (): void => {
+    if (ports.size === 0 || pushTimer !== null) return;
+    pushTimer = window.setTimeout(pushSnapshots, PUSH_DELAY_MS);
+  };
+
+  const stopRoutePoll = (): void => {
+    if (routePollTimer === null) return;
+    clearInterval(routePollTimer);
+    routePollTimer = null;
+  };
+
+  const startRoutePoll = (): void => {
+    if (routePollTimer !== null) return;
+    lastUrl = location.href;
+    routePollTimer = window.setInterval(() => {
+      if (location.href === lastUrl) return;
+      lastUrl = location.href;
+      schedulePush();
+    }, ROUTE_POLL_INTERVAL_MS);
+  };
+
+  const onConnect = (port: chrome.runtime.Port): void => {
+    if (port.name !== SIDE_PANEL_PORT_NAME) return;
+    ports.add(port);
+
+    port.onMessage.addListener((message: unknown) => {
+      if (!message || typeof (message as SidePanelCommand).type !== 'string') return;
+      runCommand(message as SidePanelCommand, folderManager, (update) => post(port, update)).catch(
+        (error) => console.error('[SidePanel] Command failed:', error),
+      );
+    });
+    port.onDisconnect.addListener(() => {
+      ports.delete(port);
+      if (ports.size === 0) stopRoutePoll();
+    });
+
+    getSnapshots(folderManager).forEach((update) => post(port, update));
+    startRoutePoll();
+  };
+
+  chrome.runtime.onConnect.addListener(onConnect);
+  const unsubscribeTimeline = eventBus.on('timeline:changed', schedulePush);
+  const unsubscribeFolders = folderManager?.onDataChange(schedulePush) ?? null;
+
+  return () => {
+    chrome.runtime.onConnect.removeListener(onConnect);
+    unsubscribeTimeline();
+    unsubscribeFolders?.();
+    if (pushTimer !== null) clearTimeout(pushTimer);
+    pushTimer = null;
+    stopRoutePoll();
+    ports.forEach((port) => {
+      try {
+        port.disconnect();
+      } catch {}
+    });
+    ports.clear();
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PromptItem } from '@/core/types/sync';
+
+import { findCommandToken, fuzzyScore, normalizeSlashPrefix, rankPrompts } from '../matching';
+
+function prompt(id: string, text: string, tags: string[] = []): PromptItem {
+  return { id, text, tags, createdAt: 0 };
+}
+
+describe('normalizeSlashPrefix', () => {
+  it('keeps short custom prefixes', () => {
+    expect(normalizeSlashPrefix(';;')).toBe(';;');
+    expect(normalizeSlashPrefix(' # ')).toBe('#');
+  });
+
+  it('falls back to the default for unusable values', () => {
+    expect(normalizeSlashPrefix('')).toBe('/');
+    expect(normalizeSlashPrefix('a b')).toBe('/');
+    expect(normalizeSlashPrefix('////')).toBe('/');
+    expect(normalizeSlashPrefix(undefined)).toBe('/');
+  });
+});
+
+describe('findCommandToken', () => {
+  it('detects a prefix at the start of the text', () => {
+    expect(findCommandToken('/', '/')).toEqual({ query: '', length: 1 });
+    expect(findCommandToken('/trans', '/')).toEqual({ query: 'trans', length: 6 });
+  });
+
+  it('detects a prefix after whitespace', () => {
+    expect(findCommandToken('Please /sum', '/')).toEqual({ query: 'sum', length: 4 });
+    expect(findCommandToken('line one\n;;code', ';;')).toEqual({ query: 'code', length: 6 });
+  });
+
+  it('ignores prefixes inside words, URLs and finished tokens', () => {
+    expect(findCommandToken('and/or', '/')).toBeNull();
+    expect(findCommandToken('https://example.com', '/')).toBeNull();
+    expect(findCommandToken('/sum done', '/')).toBeNull();
+    expect(findCommandToken('no command', '/')).toBeNull();
+  });
+});
+
+describe('fuzzyScore', () => {
+  it('returns 0 when characters are missing', () => {
+    expect(fuzzyScore('xyz', 'translate')).toBe(0);
+  });
+
+  it('ranks substring matches above subsequence matches', () => {
+    expect(fuzzyScore('trans', 'translate this')).toBeGreaterThan(fuzzyScore('tnl', 'translate'));
+  });
+
+  it('prefers matches at word boundaries', () => {
+    expect(fuzzyScore('code', 'review code')).toBeGreaterThan(fuzzyScore('code', 'unicode'));
+  });
+
+  it('is case-insensitive', () => {
+    expect(fuzzyScore('SUM', 'summarize')).toBeGreaterThan(0);
+  });
+});
+
+describe('rankPrompts', () => {
+  const items = [
+    prompt('a', 'Summarize the following article'),
+    prompt('b', 'Translate to English', ['language']),
+    prompt('c', 'Review this code for bugs', ['dev']),
+  ];
+
+  it('keeps the original order for an empty query', () => {
+    expect(rankPrompts(items, '').map((r) => r.item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('matches on text and tags', () => {
+    expect(rankPrompts(items, 'trans').map((r) => r.item.id)).toEqual(['b']);
+    expect(rankPrompts(items, 'dev')[0].item.id).toBe('c');
+    expect(rankPrompts(items, 'lang')[0].item.id).toBe('b');
+  });
+
+  it('respects the limit', () => {
+    expect(rankPrompts(items, '', 2)).toHaveLength(2);
+  });
+});
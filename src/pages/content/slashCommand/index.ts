@@ -0,0 +1,501 @@
+/**
+ * Slash Command Module
+ *
+ * Typing the configured prefix (default `/`) in the chat input opens an inline,
+ * keyboard-navigable picker of saved prompts (`gvPromptItems`):
+ * - ArrowUp/ArrowDown move the selection, Enter/Tab insert, Escape closes
+ * - The typed token (prefix + query) is replaced by the chosen prompt
+ * - Templated prompts show the fill-in form before inserting
+ * - Pinned and recently used prompts are listed first; inserting records usage
+ *
+ * Controlled by `gvPromptSlashCommandEnabled` / `gvPromptSlashCommandPrefix` (chrome.storage.sync).
+ * Listeners are only attached while the feature is enabled.
+ */
+import { promptStorageService } from '@/core/services/StorageService';
+import { StorageKeys } from '@/core/types/common';
+import type { PromptItem } from '@/core/types/sync';
+import { isExtensionContextInvalidatedError } from '@/core/utils/extensionContext';
+import { recordPromptUsage, sortPrompts } from '@/core/utils/promptLibrary';
+import { syncTemplateVariables } from '@/core/utils/promptTemplate';
+import { getTranslationSync } from '@/utils/i18n';
+
+import { renderTemplateFillForm } from '../prompt/templateForm';
+import { getTextOffset, selectTextRange } from '../sendBehavior/utils';
+import { insertTextIntoChatInput, isEditableInput } from '../shared/chatInput';
+import {
+  DEFAULT_SLASH_PREFIX,
+  type RankedPrompt,
+  findCommandToken,
+  normalizeSlashPrefix,
+  rankPrompts,
+} from './matching';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '[SlashCommand]';
+const PICKER_ID = 'gv-slash-picker';
+const PREVIEW_LENGTH = 140;
+
+// ============================================================================
+// State
+// ============================================================================
+
+/** Where the command token sits in the input, captured when a prompt is chosen */
+interface PendingReplacement {
+  input: HTMLElement;
+  /** Caret offset at the end of the token */
+  end: number;
+  /** Token length (prefix + query) */
+  length: number;
+}
+
+let isEnabled = false;
+let prefix = DEFAULT_SLASH_PREFIX;
+let prompts: PromptItem[] = [];
+let results: RankedPrompt[] = [];
+let selectedIndex = 0;
+let activeInput: HTMLElement | null = null;
+let tokenLength = 0;
+let picker: HTMLDivElement | null = null;
+let cleanupFns: (() => void)[] = [];
+let storageListener:
+  ((changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void) | null = null;
+
+// ============================================================================
+// Caret Helpers
+// ============================================================================
+
+/**
+ * Text between the start of the current line/text node and the caret.
+ * Returns null when the selection is not collapsed inside the input.
+ */
+function getTextBeforeCaret(input: HTMLElement): string | null {
+  if (input instanceof HTMLTextAreaElement) {
+    if (input.selectionStart !== input.selectionEnd) return null;
+    return input.value.slice(0, input.selectionStart);
+  }
+
+  const sel = window.getSelection();
+  if (!sel || sel.rangeCount === 0 || !sel.isCollapsed) return null;
+  const node = sel.anchorNode;
+  if (!node || !input.contains(node)) return null;
+  // Quill keeps each line in its own text node, so the token is always within anchorNode
+  if (node.nodeType !== Node.TEXT_NODE) return '';
+  return (node.textContent || '').slice(0, sel.anchorOffset);
+}
+
+function getCaretOffset(input: HTMLElement): number | null {
+  if (input instanceof HTMLTextAreaElement) return input.selectionStart;
+  return getTextOffset(input);
+}
+
+/**
+ * Select the token and overwrite it with the prompt text
+ */
+function replaceToken(target: PendingReplacement, text: string): void {
+  const { input, end, length } = target;
+  input.focus();
+  if (input instanceof HTMLTextAreaElement) {
+    input.setSelectionRange(end - length, end);
+  } else {
+    selectTextRange(input, end - length, end);
+  }
+  insertTextIntoChatInput(input, text);
+}
+
+// ============================================================================
+// Picker UI
+// ============================================================================
+
+function ensurePicker(): HTMLDivElement {
+  if (picker && document.body.contains(picker)) return picker;
+  picker = document.createElement('div');
+  picker.id = PICKER_ID;
+  picker.className = 'gv-slash-picker';
+  picker.setAttribute('role', 'listbox');
+  // Keep focus (and the caret) in the chat input while clicking suggestions
+  picker.addEventListener('mousedown', (ev) => {
+    if (!(ev.target as HTMLElement).closest('.gv-pm-fill-form')) ev.preventDefault();
+  });
+  document.body.appendChild(picker);
+  return picker;
+}
+
+function positionPicker(el: HTMLElement, input: HTMLElement): void {
+  const rect = input.getBoundingClientRect();
+  const width = Math.min(Math.max(rect.width, 320), 560, window.innerWidth - 16);
+  const left = Math.min(Math.max(8, rect.left), window.innerWidth - width - 8);
+  el.style.width = `${width}px`;
+  el.style.left = `${left}px`;
+  // Prefer opening above the input (Gemini's input sits at the bottom of the page)
+  if (rect.top > window.innerHeight - rect.bottom) {
+    el.style.top = '';
+    el.style.bottom = `${window.innerHeight - rect.top + 8}px`;
+  } else {
+    el.style.bottom = '';
+    el.style.top = `${rect.bottom + 8}px`;
+  }
+}
+
+function hidePicker(): void {
+  if (picker) {
+    picker.remove();
+    picker = null;
+  }
+  results = [];
+  selectedIndex = 0;
+  activeInput = null;
+  tokenLength = 0;
+}
+
+function isPickerOpen(): boolean {
+  return !!picker && results.length > 0;
+}
+
+function renderList(): void {
+  if (!activeInput) return;
+  const el = ensurePicker();
+  el.innerHTML = '';
+
+  const hint = document.createElement('div');
+  hint.className = 'gv-slash-hint';
+  hint.textContent = getTranslationSync('slash_picker_hint');
+  el.appendChild(hint);
+
+  results.forEach(({ item }, index) => {
+    const option = document.createElement('div');
+    option.className = 'gv-slash-item';
+    option.setAttribute('role', 'option');
+    option.setAttribute('aria-selected', String(index === selectedIndex));
+    if (index === selectedIndex) option.classList.add('gv-selected');
+
+    const text = document.createElement('div');
+    text.className = 'gv-slash-text';
+    const oneLine = item.text.replace(/\s+/g, ' ').trim();
+    text.textContent =
+      oneLine.length > PREVIEW_LENGTH ? `${oneLine.slice(0, PREVIEW_LENGTH)}…` : oneLine;
+    option.appendChild(text);
+
+    if (item.tags?.length) {
+      const tags = document.createElement('div');
+      tags.className = 'gv-slash-tags';
+      for (const tag of item.tags) {
+        const chip = document.createElement('span');
+        chip.className = 'gv-slash-tag';
+        chip.textContent = tag;
+        tags.appendChild(chip);
+      }
+      option.appendChild(tags);
+    }
+
+    option.addEventListener('mouseenter', () => {
+      if (selectedIndex === index) return;
+      selectedIndex = index;
+      updateSelection();
+    });
+    option.addEventListener('click', () => {
+      selectedIndex = index;
+      choose();
+    });
+    el.appendChild(option);
+  });
+
+  positionPicker(el, activeInput);
+}
+
+function updateSelection(): void {
+  if (!picker) return;
+  picker.querySelectorAll<HTMLElement>('.gv-slash-item').forEach((option, index) => {
+    const selected = index === selectedIndex;
+    option.classList.toggle('gv-selected', selected);
+    option.setAttribute('aria-selected', String(selected));
+    if (selected) option.scrollIntoView({ block: 'nearest' });
+  });
+}
+
+function showFillForm(item: PromptItem, target: PendingReplacement): void {
+  const variables = syncTemplateVariables(item.text, item.variables);
+  const el = ensurePicker();
+  el.innerHTML = '';
+  results = [];
+
+  const form = document.createElement('form');
+  form.className = 'gv-pm-fill-form';
+  const firstField = renderTemplateFillForm(form, {
+    text: item.text,
+    variables,
+    labels: {
+      title: getTranslationSync('pm_fill_title'),
+      submit: getTranslationSync('pm_insert'),
+      cancel: getTranslationSync('pm_cancel'),
+    },
+    onSubmit: (rendered) => {
+      hidePicker();
+      replaceToken(target, rendered);
+      void recordUsage(item.id);
+    },
+    onCancel: () => {
+      hidePicker();
+      target.input.focus();
+    },
+  });
+  form.addEventListener('keydown', (ev) => {
+    if (ev.key === 'Escape') {
+      ev.preventDefault();
+      ev.stopPropagation();
+      hidePicker();
+      target.input.focus();
+    }
+  });
+  el.appendChild(form);
+  positionPicker(el, target.input);
+  firstField?.focus();
+}
+
+/**
+ * Insert the selected prompt (or open its fill-in form when it is templated)
+ */
+function choose(): void {
+  const input = activeInput;
+  const chosen = results[selectedIndex];
+  if (!input || !chosen) return;
+
+  const end = getCaretOffset(input);
+  if (end === null) {
+    hidePicker();
+    return;
+  }
+  const target: PendingReplacement = { input, end, length: tokenLength };
+
+  if (syncTemplateVariables(chosen.item.text, chosen.item.variables).length > 0) {
+    showFillForm(chosen.item, target);
+    return;
+  }
+  hidePicker();
+  replaceToken(target, chosen.item.text);
+  void recordUsage(chosen.item.id);
+}
+
+// ============================================================================
+// Event Handlers
+// ============================================================================
+
+function handleInput(event: Event): void {
+  const target = event.target as HTMLElement | null;
+  if (!target || !isEditableInput(target)) return;
+
+  const before = getTextBeforeCaret(target);
+  const token = before === null ? null : findCommandToken(before, prefix);
+  const ranked = token ? rankPrompts(sortPrompts(prompts, 'recent'), token.query) : [];
+  if (!token || ranked.length === 0) {
+    if (picker) hidePicker();
+    return;
+  }
+
+  activeInput = target;
+  tokenLength = token.length;
+  results = ranked;
+  selectedIndex = 0;
+  renderList();
+}
+
+function handleKeyDown(event: KeyboardEvent): void {
+  if (!isPickerOpen() || event.isComposing) return;
+  if (event.target !== activeInput) return;
+
+  switch (event.key) {
+    case 'ArrowDown':
+      selectedIndex = (selectedIndex + 1) % results.length;
+      updateSelection();
+      break;
+    case 'ArrowUp':
+      selectedIndex = (selectedIndex - 1 + results.length) % results.length;
+      updateSelection();
+      break;
+    case 'Enter':
+    case 'Tab':
+      if (event.shiftKey || event.ctrlKey || event.metaKey || event.altKey) return;
+      choose();
+      break;
+    case 'Escape':
+      hidePicker();
+      break;
+    default:
+      return;
+  }
+  // Stop Gemini (and sendBehavior) from also handling the key
+  event.preventDefault();
+  event.stopImmediatePropagation();
+}
+
+function handlePointerDown(event: PointerEvent): void {
+  if (!picker) return;
+  const target = event.target as Node | null;
+  if (target && (picker.contains(target) || target === activeInput)) return;
+  hidePicker();
+}
+
+function handleFocusOut(event: FocusEvent): void {
+  if (!isPickerOpen() || event.target !== activeInput) return;
+  const next = event.relatedTarget as Node | null;
+  if (next && picker?.contains(next)) return;
+  hidePicker();
+}
+
+// ============================================================================
+// Feature Enable/Disable
+// ============================================================================
+
+async function loadPrompts(): Promise<void> {
+  const result = await promptStorageService.get<PromptItem[]>(StorageKeys.PROMPT_ITEMS);
+  prompts = result.success && Array.isArray(result.data) ? result.data : [];
+}
+
+/**
+ * Persist usage for an inserted prompt so the Prompt Manager's sort modes pick it up
+ */
+async function recordUsage(id: string): Promise<void> {
+  try {
+    const result = await promptStorageService.get<PromptItem[]>(StorageKeys.PROMPT_ITEMS);
+    if (!result.success || !Array.isArray(result.data)) return;
+    if (!result.data.some((item) => item.id === id)) return;
+    const next = result.data.map((item) => (item.id === id ? recordPromptUsage(item) : item));
+    prompts = next;
+    await promptStorageService.set(StorageKeys.PROMPT_ITEMS, next);
+  } catch (error) {
+    if (isExtensionContextInvalidatedError(error)) return;
+    console.warn(LOG_PREFIX, 'Failed to record prompt usage:', error);
+  }
+}
+
+function enableFeature(): void {
+  if (isEnabled) return;
+  isEnabled = true;
+
+  // Window capture phase runs before Gemini's editor and sendBehavior's element listeners
+  const listeners: [string, EventListener][] = [
+    ['input', handleInput as EventListener],
+    ['keydown', handleKeyDown as EventListener],
+    ['pointerdown', handlePointerDown as EventListener],
+    ['focusout', handleFocusOut as EventListener],
+  ];
+  for (const [type, listener] of listeners) {
+    window.addEventListener(type, listener, { capture: true });
+    cleanupFns.push(() => window.removeEventListener(type, listener, { capture: true }));
+  }
+  window.addEventListener('resize', hidePicker);
+  cleanupFns.push(() => window.removeEventListener('resize', hidePicker));
+
+  void loadPrompts();
+}
+
+function disableFeature(): void {
+  if (!isEnabled) return;
+  isEnabled = false;
+
+  cleanupFns.forEach((fn) => fn());
+  cleanupFns = [];
+  hidePicker();
+}
+
+// ============================================================================
+// Storage & Initialization
+// ============================================================================
+
+async function loadSettings(): Promise<{ enabled: boolean; prefix: string }> {
+  return new Promise((resolve) => {
+    const fallback = { enabled: true, prefix: DEFAULT_SLASH_PREFIX };
+    try {
+      if (!chrome.storage?.sync?.get) {
+        resolve(fallback);
+        return;
+      }
+      chrome.storage.sync.get(
+        {
+          [StorageKeys.PROMPT_SLASH_COMMAND_ENABLED]: true,
+          [StorageKeys.PROMPT_SLASH_COMMAND_PREFIX]: DEFAULT_SLASH_PREFIX,
+        },
+        (result) => {
+          resolve({
+            enabled: result?.[StorageKeys.PROMPT_SLASH_COMMAND_ENABLED] !== false,
+            prefix: normalizeSlashPrefix(result?.[StorageKeys.PROMPT_SLASH_COMMAND_PREFIX]),
+          });
+        },
+      );
+    } catch (error) {
+      if (!isExtensionContextInvalidatedError(error)) {
+        console.warn(LOG_PREFIX, 'Failed to load settings:', error);
+      }
+      resolve(fallback);
+    }
+  });
+}
+
+/**
+ * Keep settings and the prompt cache in sync with storage.
+ * Remains active while the feature is disabled so it can be re-enabled.
+ */
+function setupStorageListener(): void {
+  if (storageListener) return;
+
+  storageListener = (changes, areaName) => {
+    if (areaName === 'local' && StorageKeys.PROMPT_ITEMS in changes) {
+      const next = changes[StorageKeys.PROMPT_ITEMS].newValue;
+      prompts = Array.isArray(next) ? (next as PromptItem[]) : [];
+      return;
+    }
+    if (areaName !== 'sync') return;
+
+    if (StorageKeys.PROMPT_SLASH_COMMAND_PREFIX in changes) {
+      prefix = normalizeSlashPrefix(changes[StorageKeys.PROMPT_SLASH_COMMAND_PREFIX].newValue);
+      hidePicker();
+    }
+    if (StorageKeys.PROMPT_SLASH_COMMAND_ENABLED in changes) {
+      const enabled = changes[StorageKeys.PROMPT_SLASH_COMMAND_ENABLED].newValue !== false;
+      if (enabled) enableFeature();
+      else disableFeature();
+    }
+  };
+
+  try {
+    chrome.storage?.onChanged?.addListener(storageListener);
+  } catch (error) {
+    if (isExtensionContextInvalidatedError(error)) return;
+    console.warn(LOG_PREFIX, 'Failed to setup storage listener:', error);
+  }
+}
+
+function cleanup(): void {
+  disableFeature();
+
+  if (storageListener) {
+    try {
+      chrome.storage?.onChanged?.removeListener(storageListener);
+    } catch {
+      // Ignore cleanup errors
+    }
+    storageListener = null;
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Initialize the slash-command prompt picker
+ * @returns A cleanup function to be called on unmount
+ */
+export async function startSlashCommand(): Promise<() => void> {
+  setupStorageListener();
+
+  const settings = await loadSettings();
+  prefix = settings.prefix;
+  if (settings.enabled) {
+    enableFeature();
+  }
+
+  return cleanup;
+}
@@ -0,0 +1,103 @@
+/**
+ * Slash-command token detection and fuzzy prompt ranking
+ * Pure helpers so they can be unit tested without a DOM editor
+ */
+import type { PromptItem } from '@/core/types/sync';
+
+export const DEFAULT_SLASH_PREFIX = '/';
+
+/** Maximum number of suggestions shown in the picker */
+export const MAX_SUGGESTIONS = 8;
+
+export interface CommandToken {
+  /** Text typed after the prefix (may be empty) */
+  query: string;
+  /** Length of prefix + query, i.e. how many characters before the caret to replace */
+  length: number;
+}
+
+export interface RankedPrompt {
+  item: PromptItem;
+  score: number;
+}
+
+/**
+ * Normalize a user-configured prefix: trimmed, no whitespace, at most 3 characters.
+ * Falls back to the default prefix when the value is unusable.
+ */
+export function normalizeSlashPrefix(value: unknown): string {
+  if (typeof value !== 'string') return DEFAULT_SLASH_PREFIX;
+  const trimmed = value.trim();
+  if (!trimmed || /\s/.test(trimmed) || trimmed.length > 3) return DEFAULT_SLASH_PREFIX;
+  return trimmed;
+}
+
+/**
+ * Find a command token ending at the caret.
+ * The prefix must start the text or follow whitespace, and the query may not contain whitespace,
+ * so URLs like `a/b` and paths are not treated as commands.
+ */
+export function findCommandToken(textBeforeCaret: string, prefix: string): CommandToken | null {
+  const idx = textBeforeCaret.lastIndexOf(prefix);
+  if (idx < 0) return null;
+  if (idx > 0 && !/\s/.test(textBeforeCaret[idx - 1])) return null;
+
+  const query = textBeforeCaret.slice(idx + prefix.length);
+  if (/\s/.test(query)) return null;
+  return { query, length: prefix.length + query.length };
+}
+
+/**
+ * Score how well `query` matches `target`.
+ * Contiguous substring matches rank above scattered subsequence matches;
+ * earlier and word-boundary matches rank higher.
+ * @returns A positive score, or 0 when the query does not match
+ */
+export function fuzzyScore(query: string, target: string): number {
+  const q = query.toLowerCase();
+  const t = target.toLowerCase();
+  if (!q) return 1;
+  if (!t) return 0;
+
+  const substringIdx = t.indexOf(q);
+  if (substringIdx >= 0) {
+    const atBoundary = substringIdx === 0 || /[\s\-_/.,]/.test(t[substringIdx - 1]);
+    return 1000 - Math.min(substringIdx, 500) + (atBoundary ? 200 : 0);
+  }
+
+  // Subsequence match: every query char must appear in order
+  let score = 0;
+  let ti = 0;
+  let prevMatch = -2;
+  for (const ch of q) {
+    const found = t.indexOf(ch, ti);
+    if (found < 0) return 0;
+    score += found === prevMatch + 1 ? 10 : 1;
+    prevMatch = found;
+    ti = found + 1;
+  }
+  return score;
+}
+
+/**
+ * Rank prompts against a query, matching on text and tags.
+ * With an empty query the original order is kept.
+ */
+export function rankPrompts(
+  items: readonly PromptItem[],
+  query: string,
+  limit: number = MAX_SUGGESTIONS,
+): RankedPrompt[] {
+  if (!query) return items.slice(0, limit).map((item) => ({ item, score: 1 }));
+
+  const ranked: RankedPrompt[] = [];
+  items.forEach((item, index) => {
+    const textScore = fuzzyScore(query, item.text);
+    // Tag hits are a strong signal that the user is looking for this category
+    const tagScore = Math.max(0, ...(item.tags || []).map((tag) => fuzzyScore(query, tag) * 1.5));
+    const score = Math.max(textScore, tagScore);
+    if (score > 0) ranked.push({ item, score: score - index * 1e-6 });
+  });
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked.slice(0, limit);
+}
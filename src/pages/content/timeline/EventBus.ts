@@ -11,6 +11,8 @@ interface EventMap {
   'starred:updated': { conversationId: string };
   'fork:added': { conversationId: string; turnId: string; forkGroupId: string };
   'fork:removed': { conversationId: string; turnId: string; forkGroupId: string };
+  // Turns, stars, levels, labels or the active turn of the timeline changed
+  'timeline:changed': { conversationId: string | null };
 }
 
 export class EventBus {
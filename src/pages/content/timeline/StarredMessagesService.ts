@@ -3,7 +3,12 @@
  * Uses message passing to background script to prevent race conditions
  */
 import { eventBus } from './EventBus';
-import type { StarredMessage, StarredMessagesData } from './starredTypes';
+import type {
+  StarredMessage,
+  StarredMessageRef,
+  StarredMessagesData,
+  TurnAnnotation,
+} from './starredTypes';
 
 export class StarredMessagesService {
   /**
@@ -108,6 +113,88 @@ export class StarredMessagesService {
     }
   }
 
+  /**
+   * Remove several starred messages at once - delegated to background script
+   * Returns how many were removed
+   */
+  static async removeStarredMessages(refs: StarredMessageRef[]): Promise<number> {
+    if (refs.length === 0) return 0;
+    try {
+      const response = await this.sendMessage<{ ok: boolean; removed: number }>(
+        'gv.starred.removeMany',
+        { refs },
+      );
+
+      refs.forEach(({ conversationId, turnId }) => {
+        eventBus.emit('starred:removed', { conversationId, turnId });
+        this.updateLegacyStorage(conversationId, turnId, 'remove');
+      });
+      return response.removed || 0;
+    } catch (error) {
+      console.error('[StarredMessagesService] Failed to remove starred messages:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Set or clear (empty note) the note of a starred message - delegated to background script
+   * Returns whether the note was saved
+   */
+  static async setStarredMessageNote(
+    conversationId: string,
+    turnId: string,
+    note: string,
+  ): Promise<boolean> {
+    try {
+      await this.sendMessage<{ ok: boolean; changed: boolean }>('gv.starred.setNote', {
+        conversationId,
+        turnId,
+        note,
+      });
+      return true;
+    } catch (error) {
+      console.error('[StarredMessagesService] Failed to save starred message note:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the turn annotations of a conversation, keyed by turn id
+   */
+  static async getAnnotationsForConversation(
+    conversationId: string,
+  ): Promise<Record<string, TurnAnnotation>> {
+    try {
+      const response = await this.sendMessage<{
+        ok: boolean;
+        annotations: Record<string, TurnAnnotation>;
+      }>('gv.starred.getAnnotations', { conversationId });
+      return response.annotations || {};
+    } catch (error) {
+      console.error('[StarredMessagesService] Failed to get turn annotations:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Set or clear (annotation = null) a turn annotation - delegated to background script
+   */
+  static async setTurnAnnotation(
+    conversationId: string,
+    turnId: string,
+    annotation: TurnAnnotation | null,
+  ): Promise<void> {
+    try {
+      await this.sendMessage<{ ok: boolean; changed: boolean }>('gv.starred.setAnnotation', {
+        conversationId,
+        turnId,
+        annotation,
+      });
+    } catch (error) {
+      console.error('[StarredMessagesService] Failed to save turn annotation:', error);
+    }
+  }
+
   /**
    * Update legacy localStorage format for backward compatibility
    * This ensures TimelineManager's storage event listener works
@@ -0,0 +1,82 @@
+/**
+ * Service for the timeline outline (marker levels and collapsed markers)
+ * Uses message passing to background script to prevent race conditions
+ */
+import type { ConversationTimelineOutline } from './outlineTypes';
+import type { MarkerLevel } from './types';
+
+export class TimelineOutlineService {
+  /**
+   * Send message to background script and wait for response
+   */
+  private static async sendMessage<T>(type: string, payload?: unknown): Promise<T> {
+    return new Promise((resolve, reject) => {
+      chrome.runtime.sendMessage({ type, payload }, (response) => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+          return;
+        }
+        if (!response || !response.ok) {
+          reject(new Error(response?.error || 'Operation failed'));
+          return;
+        }
+        resolve(response as T);
+      });
+    });
+  }
+
+  /**
+   * Get the outline of a conversation, or null when the background script is unreachable
+   */
+  static async getForConversation(
+    conversationId: string,
+  ): Promise<ConversationTimelineOutline | null> {
+    try {
+      const response = await this.sendMessage<{
+        ok: boolean;
+        outline: ConversationTimelineOutline;
+      }>('gv.timelineOutline.get', { conversationId });
+      return response.outline || { levels: null, collapsed: null };
+    } catch (error) {
+      console.error('[TimelineOutlineService] Failed to get timeline outline:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the marker levels of a conversation - delegated to background script
+   * Returns whether the levels were saved
+   */
+  static async setMarkerLevels(
+    conversationId: string,
+    levels: Record<string, MarkerLevel>,
+  ): Promise<boolean> {
+    try {
+      await this.sendMessage<{ ok: boolean }>('gv.timelineOutline.setLevels', {
+        conversationId,
+        levels,
+      });
+      return true;
+    } catch (error) {
+      console.error('[TimelineOutlineService] Failed to save marker levels:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Replace the collapsed markers of a conversation - delegated to background script
+   * Returns whether the collapsed markers were saved
+   */
+  static async setCollapsedMarkers(conversationId: string, turnIds: string[]): Promise<boolean> {
+    try {
+      await this.sendMessage<{ ok: boolean }>('gv.timelineOutline.setCollapsed', {
+        conversationId,
+        turnIds,
+      });
+      return true;
+    } catch (error) {
+      console.error('[TimelineOutlineService] Failed to save collapsed markers:', error);
+      return false;
+    }
+  }
+}
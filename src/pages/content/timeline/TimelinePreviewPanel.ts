@@ -3,31 +3,57 @@ import browser from 'webextension-polyfill';
 import { StorageKeys } from '@/core/types/common';
 
 import { getTranslationSync } from '../../../utils/i18n';
-import type { PreviewMarkerData } from './types';
+import {
+  type TimelineSearchQuery,
+  findHighlightRanges,
+  getTimelineSearchHighlightPattern,
+  matchesTimelineSearch,
+  needsTurnText,
+  parseTimelineSearchQuery,
+} from './searchQuery';
+import type { PreviewMarkerData, PreviewTurnText } from './types';
 
 const SEARCH_DEBOUNCE_MS = 200;
 
+const OUTLINE_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="3" y1="6" x2="21" y2="6"/><line x1="9" y1="12" x2="21" y2="12"/><line x1="15" y1="18" x2="21" y2="18"/></svg>`;
+
 const LIST_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="8" y1="6" x2="21" y2="6"/><line x1="8" y1="12" x2="21" y2="12"/><line x1="8" y1="18" x2="21" y2="18"/><line x1="3" y1="6" x2="3.01" y2="6"/><line x1="3" y1="12" x2="3.01" y2="12"/><line x1="3" y1="18" x2="3.01" y2="18"/></svg>`;
 
+export interface TimelinePreviewSearchOptions {
+  /** Full text of the turn at a marker index; without it only summaries and labels are searched */
+  getTurnText?: (index: number) => PreviewTurnText;
+  /** Jump to a match picked with Enter / Shift+Enter (defaults to onNavigate) */
+  onNavigateMatch?: (turnId: string, index: number) => void;
+}
+
 export class TimelinePreviewPanel {
   private panelEl: HTMLElement | null = null;
   private listEl: HTMLElement | null = null;
   private searchInput: HTMLInputElement | null = null;
+  private matchCountEl: HTMLElement | null = null;
   private toggleBtn: HTMLElement | null = null;
+  private outlineBtn: HTMLButtonElement | null = null;
   private _isOpen = false;
+  private outlineView = false;
   private markers: ReadonlyArray<PreviewMarkerData> = [];
   private filteredMarkers: ReadonlyArray<PreviewMarkerData> = [];
   private activeTurnId: string | null = null;
   private searchQuery = '';
+  private parsedQuery: TimelineSearchQuery | null = null;
+  /** Match last jumped to with Enter / Shift+Enter, the starting point of the next jump */
+  private currentMatchId: string | null = null;
   private searchDebounceTimer: number | null = null;
   private onNavigate: ((turnId: string, index: number) => void) | null = null;
-  private onSearchChange: ((query: string) => void) | null = null;
+  private onSearchChange:
+    | ((query: TimelineSearchQuery | null, matches: ReadonlyArray<PreviewMarkerData>) => void)
+    | null = null;
+  private searchOptions: TimelinePreviewSearchOptions = {};
   private onDocumentPointerDown: ((e: PointerEvent) => void) | null = null;
   private onKeyDown: ((e: KeyboardEvent) => void) | null = null;
   private onWindowResize: (() => void) | null = null;
   private onStorageChanged:
-    | ((changes: Record<string, browser.Storage.StorageChange>, areaName: string) => void)
-    | null = null;
+    ((changes: Record<string, browser.Storage.StorageChange>, areaName: string) => void) | null =
+    null;
 
   constructor(private readonly anchorElement: HTMLElement) {}
 
@@ -37,13 +63,19 @@ export class TimelinePreviewPanel {
 
   init(
     onNavigate: (turnId: string, index: number) => void,
-    onSearchChange?: (query: string) => void,
+    onSearchChange?: (
+      query: TimelineSearchQuery | null,
+      matches: ReadonlyArray<PreviewMarkerData>,
+    ) => void,
+    searchOptions: TimelinePreviewSearchOptions = {},
   ): void {
     this.onNavigate = onNavigate;
     this.onSearchChange = onSearchChange ?? null;
+    this.searchOptions = searchOptions;
     this.createDOM();
     this.positionToggle();
     this.setupEventListeners();
+    void this.loadOutlineView();
   }
 
   updateMarkers(markers: ReadonlyArray<PreviewMarkerData>): void {
@@ -55,6 +87,7 @@ export class TimelinePreviewPanel {
   updateActiveTurn(turnId: string | null): void {
     if (this.activeTurnId === turnId) return;
     this.activeTurnId = turnId;
+    this.updateMatchCount();
     if (!this._isOpen || !this.listEl) return;
     this.updateActiveHighlight();
     this.scrollActiveIntoView();
@@ -86,9 +119,12 @@ export class TimelinePreviewPanel {
     if (this.searchInput) {
       this.searchInput.value = '';
       this.searchQuery = '';
+      this.parsedQuery = null;
+      this.currentMatchId = null;
       this.filteredMarkers = this.markers;
+      this.updateMatchCount();
     }
-    this.onSearchChange?.('');
+    this.onSearchChange?.(null, []);
   }
 
   destroy(): void {
@@ -115,12 +151,15 @@ export class TimelinePreviewPanel {
     this.toggleBtn?.remove();
     this.panelEl?.remove();
     this.toggleBtn = null;
+    this.outlineBtn = null;
     this.panelEl = null;
     this.listEl = null;
     this.searchInput = null;
-    this.onSearchChange?.('');
+    this.matchCountEl = null;
+    this.onSearchChange?.(null, []);
     this.onNavigate = null;
     this.onSearchChange = null;
+    this.searchOptions = {};
     this.markers = [];
     this.filteredMarkers = [];
   }
@@ -147,10 +186,39 @@ export class TimelinePreviewPanel {
     this.searchInput = document.createElement('input');
     this.searchInput.type = 'text';
     this.searchInput.placeholder = getTranslationSync('timelinePreviewSearch');
+    this.searchInput.title = getTranslationSync('timelinePreviewSearchHint');
     this.searchInput.addEventListener('input', () => {
       this.handleSearchInput();
     });
+    this.searchInput.addEventListener('keydown', (e) => {
+      if (e.key !== 'Enter' || e.isComposing) return;
+      e.preventDefault();
+      this.commitSearchInput();
+      this.goToMatch(e.shiftKey ? -1 : 1);
+    });
     searchWrapper.appendChild(this.searchInput);
+
+    this.matchCountEl = document.createElement('span');
+    this.matchCountEl.className = 'timeline-preview-search-count';
+    this.matchCountEl.setAttribute('aria-live', 'polite');
+    this.matchCountEl.hidden = true;
+    searchWrapper.appendChild(this.matchCountEl);
+
+    // Switches the list to an outline indented by marker level
+    this.outlineBtn = document.createElement('button');
+    this.outlineBtn.type = 'button';
+    this.outlineBtn.className = 'timeline-preview-outline-toggle';
+    this.outlineBtn.innerHTML = OUTLINE_ICON_SVG;
+    this.outlineBtn.title = getTranslationSync('timelinePreviewOutline');
+    this.outlineBtn.setAttribute('aria-label', getTranslationSync('timelinePreviewOutline'));
+    this.outlineBtn.setAttribute('aria-pressed', 'false');
+    this.outlineBtn.addEventListener('click', () => {
+      this.setOutlineView(!this.outlineView);
+      void browser.storage.local
+        .set({ [StorageKeys.TIMELINE_PREVIEW_OUTLINE_VIEW]: this.outlineView })
+        .catch(() => {});
+    });
+    searchWrapper.appendChild(this.outlineBtn);
     this.panelEl.appendChild(searchWrapper);
 
     // List
@@ -194,13 +262,42 @@ export class TimelinePreviewPanel {
       if ((areaName === 'sync' || areaName === 'local') && changes[StorageKeys.LANGUAGE]) {
         this.updateTranslatedText();
       }
+      const outlineViewChange = changes[StorageKeys.TIMELINE_PREVIEW_OUTLINE_VIEW];
+      if (areaName === 'local' && outlineViewChange) {
+        this.setOutlineView(outlineViewChange.newValue === true);
+      }
     };
     browser.storage.onChanged.addListener(this.onStorageChanged);
   }
 
+  private async loadOutlineView(): Promise<void> {
+    try {
+      const result = await browser.storage.local.get(StorageKeys.TIMELINE_PREVIEW_OUTLINE_VIEW);
+      this.setOutlineView(result[StorageKeys.TIMELINE_PREVIEW_OUTLINE_VIEW] === true);
+    } catch {
+      // Keep the flat list when storage is unavailable
+    }
+  }
+
+  private setOutlineView(enabled: boolean): void {
+    if (this.outlineView === enabled) return;
+    this.outlineView = enabled;
+    this.outlineBtn?.classList.toggle('active', enabled);
+    this.outlineBtn?.setAttribute('aria-pressed', String(enabled));
+    this.listEl?.classList.toggle('outline', enabled);
+    if (this._isOpen) {
+      this.renderList();
+    }
+  }
+
   private updateTranslatedText(): void {
     if (this.searchInput) {
       this.searchInput.placeholder = getTranslationSync('timelinePreviewSearch');
+      this.searchInput.title = getTranslationSync('timelinePreviewSearchHint');
+    }
+    if (this.outlineBtn) {
+      this.outlineBtn.title = getTranslationSync('timelinePreviewOutline');
+      this.outlineBtn.setAttribute('aria-label', getTranslationSync('timelinePreviewOutline'));
     }
     if (this._isOpen) {
       this.renderList();
@@ -258,16 +355,27 @@ export class TimelinePreviewPanel {
   }
 
   private applyFilter(): void {
-    if (!this.searchQuery) {
+    const query = this.parsedQuery;
+    if (!query) {
       this.filteredMarkers = this.markers;
     } else {
-      const q = this.searchQuery.toLowerCase();
-      this.filteredMarkers = this.markers.filter((m) => m.summary.toLowerCase().includes(q));
+      const getTurnText = needsTurnText(query) ? this.searchOptions.getTurnText : undefined;
+      this.filteredMarkers = this.markers.filter((m) => {
+        const text = getTurnText?.(m.index);
+        return matchesTimelineSearch(query, {
+          userText: text?.user || m.summary,
+          modelText: text?.model ?? '',
+          label: m.label,
+          starred: m.starred,
+          level: m.level,
+        });
+      });
     }
     if (this._isOpen) {
       this.renderList();
     }
-    this.onSearchChange?.(this.searchQuery);
+    this.updateMatchCount();
+    this.onSearchChange?.(query, query ? this.filteredMarkers : []);
   }
 
   private handleSearchInput(): void {
@@ -276,11 +384,61 @@ export class TimelinePreviewPanel {
     }
     this.searchDebounceTimer = window.setTimeout(() => {
       this.searchDebounceTimer = null;
-      this.searchQuery = this.searchInput?.value.trim() ?? '';
-      this.applyFilter();
+      this.commitSearchInput();
     }, SEARCH_DEBOUNCE_MS);
   }
 
+  /** Apply the typed query now, skipping any pending debounce */
+  private commitSearchInput(): void {
+    if (this.searchDebounceTimer) {
+      clearTimeout(this.searchDebounceTimer);
+      this.searchDebounceTimer = null;
+    }
+    const value = this.searchInput?.value.trim() ?? '';
+    if (value === this.searchQuery) return;
+    this.searchQuery = value;
+    this.parsedQuery = parseTimelineSearchQuery(value);
+    this.currentMatchId = null;
+    this.applyFilter();
+  }
+
+  /**
+   * Jump to the next (1) or previous (-1) match after the last one jumped to,
+   * or after the active turn, wrapping around at the ends
+   */
+  private goToMatch(direction: 1 | -1): void {
+    if (!this.parsedQuery || this.filteredMarkers.length === 0) return;
+    const fromId = this.currentMatchId ?? this.activeTurnId;
+    const fromIndex = this.markers.find((m) => m.id === fromId)?.index ?? -1;
+    const matches = this.filteredMarkers;
+    const target =
+      direction === 1
+        ? (matches.find((m) => m.index > fromIndex) ?? matches[0])
+        : ([...matches].reverse().find((m) => fromIndex < 0 || m.index < fromIndex) ??
+          matches[matches.length - 1]);
+
+    this.currentMatchId = target.id;
+    this.updateMatchCount();
+    const items = this.listEl?.querySelectorAll<HTMLElement>('.timeline-preview-item') ?? [];
+    const item = Array.from(items).find((el) => el.dataset.turnId === target.id);
+    item?.scrollIntoView?.({ block: 'nearest', behavior: 'smooth' });
+    (this.searchOptions.onNavigateMatch ?? this.onNavigate)?.(target.id, target.index);
+  }
+
+  /** Show "current/total" matches while a query is active */
+  private updateMatchCount(): void {
+    if (!this.matchCountEl) return;
+    if (!this.parsedQuery) {
+      this.matchCountEl.hidden = true;
+      this.matchCountEl.textContent = '';
+      return;
+    }
+    const currentId = this.currentMatchId ?? this.activeTurnId;
+    const position = this.filteredMarkers.findIndex((m) => m.id === currentId) + 1;
+    this.matchCountEl.textContent = `${position}/${this.filteredMarkers.length}`;
+    this.matchCountEl.hidden = false;
+  }
+
   private renderList(): void {
     if (!this.listEl) return;
     this.listEl.textContent = '';
@@ -313,6 +471,12 @@ export class TimelinePreviewPanel {
     if (marker.id === this.activeTurnId) {
       item.classList.add('active');
     }
+    if (marker.color) {
+      item.setAttribute('data-annotation-color', marker.color);
+    }
+    if (this.outlineView) {
+      item.setAttribute('data-level', String(marker.level ?? 1));
+    }
 
     const indexLabel = document.createElement('span');
     indexLabel.className = 'timeline-preview-index';
@@ -321,9 +485,15 @@ export class TimelinePreviewPanel {
 
     const text = document.createElement('span');
     text.className = 'timeline-preview-text';
-    const displayText = this.truncateText(marker.summary, 80);
-    if (this.searchQuery) {
-      this.appendHighlighted(text, displayText, this.searchQuery);
+    // A custom label replaces the summary, which stays available on hover
+    if (marker.label) {
+      item.classList.add('labeled');
+      item.title = marker.summary;
+    }
+    const displayText = this.truncateText(marker.label || marker.summary, 80);
+    const highlight = this.parsedQuery ? getTimelineSearchHighlightPattern(this.parsedQuery) : null;
+    if (highlight) {
+      this.appendHighlighted(text, displayText, highlight);
     } else {
       text.textContent = displayText;
     }
@@ -336,22 +506,18 @@ export class TimelinePreviewPanel {
     return item;
   }
 
-  /** Split text around case-insensitive query matches and wrap each match in <mark>. */
-  private appendHighlighted(container: HTMLElement, text: string, query: string): void {
-    const lowerText = text.toLowerCase();
-    const lowerQuery = query.toLowerCase();
+  /** Split text around the matches of a highlight pattern and wrap each match in <mark>. */
+  private appendHighlighted(container: HTMLElement, text: string, pattern: RegExp): void {
     let cursor = 0;
-    let idx = lowerText.indexOf(lowerQuery, cursor);
-    while (idx !== -1) {
-      if (idx > cursor) {
-        container.appendChild(document.createTextNode(text.slice(cursor, idx)));
+    for (const { start, end } of findHighlightRanges(text, pattern)) {
+      if (start > cursor) {
+        container.appendChild(document.createTextNode(text.slice(cursor, start)));
       }
       const mark = document.createElement('mark');
       mark.className = 'timeline-preview-highlight';
-      mark.textContent = text.slice(idx, idx + query.length);
+      mark.textContent = text.slice(start, end);
       container.appendChild(mark);
-      cursor = idx + query.length;
-      idx = lowerText.indexOf(lowerQuery, cursor);
+      cursor = end;
     }
     if (cursor < text.length) {
       container.appendChild(document.createTextNode(text.slice(cursor)));
@@ -385,7 +551,16 @@ export class TimelinePreviewPanel {
     for (let i = 0; i < newMarkers.length; i++) {
       const a = this.markers[i];
       const b = newMarkers[i];
-      if (a.id !== b.id || a.summary !== b.summary || a.starred !== b.starred) return false;
+      if (
+        a.id !== b.id ||
+        a.summary !== b.summary ||
+        a.starred !== b.starred ||
+        (a.label ?? '') !== (b.label ?? '') ||
+        (a.color ?? null) !== (b.color ?? null) ||
+        (a.level ?? 1) !== (b.level ?? 1)
+      ) {
+        return false;
+      }
     }
     return true;
   }
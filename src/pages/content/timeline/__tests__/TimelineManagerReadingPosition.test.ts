@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TimelineManager } from '../manager';
+import { getReadingPosition, saveReadingPosition } from '../readingPosition';
+
+vi.mock('../readingPosition', () => ({
+  getReadingPosition: vi.fn(),
+  saveReadingPosition: vi.fn(),
+}));
+
+type ReadingPositionInternals = {
+  conversationId: string | null;
+  markers: Array<{ id: string; element: HTMLElement }>;
+  markerMap: Map<string, { id: string; element: HTMLElement }>;
+  activeTurnId: string | null;
+  pendingReadingPosition: { turnId: string; updatedAt: number } | null;
+  resumeChip: HTMLElement | null;
+  loadReadingPosition: () => Promise<void>;
+  scheduleReadingPositionSave: () => void;
+  destroy: () => void;
+};
+
+function createManager(turnIds: string[]): ReadingPositionInternals {
+  const internal = new TimelineManager() as unknown as ReadingPositionInternals;
+  internal.conversationId = 'c1';
+  internal.markers = turnIds.map((id) => ({ id, element: document.createElement('div') }));
+  internal.markerMap = new Map(internal.markers.map((marker) => [marker.id, marker]));
+  return internal;
+}
+
+describe('TimelineManager reading position', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(getReadingPosition).mockResolvedValue({ turnId: 'u-gone', updatedAt: 1 });
+    vi.mocked(saveReadingPosition).mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('drops a saved position whose turn never appears', async () => {
+    const internal = createManager(['u-1', 'u-2']);
+
+    await internal.loadReadingPosition();
+    expect(internal.pendingReadingPosition).toEqual({ turnId: 'u-gone', updatedAt: 1 });
+    expect(internal.resumeChip).toBeNull();
+
+    vi.advanceTimersByTime(10000);
+    expect(internal.pendingReadingPosition).toBeNull();
+    internal.destroy();
+  });
+
+  it('keeps saving the current turn while the saved one is pending', async () => {
+    const internal = createManager(['u-1', 'u-2']);
+
+    await internal.loadReadingPosition();
+    internal.activeTurnId = 'u-1';
+    internal.scheduleReadingPositionSave();
+    vi.advanceTimersByTime(1000);
+
+    expect(internal.pendingReadingPosition).not.toBeNull();
+    expect(saveReadingPosition).toHaveBeenCalledWith('c1', 'u-1');
+    internal.destroy();
+  });
+});
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { TimelineManager } from '../manager';
+import type { TurnProfile } from '../turnProfile';
 
 function setElementTop(el: HTMLElement, top: number): void {
   Object.defineProperty(el, 'offsetTop', { value: top, configurable: true });
@@ -20,12 +21,14 @@ function setElementTop(el: HTMLElement, top: number): void {
 type TimelineMarker = {
   id: string;
   summary: string;
+  profile: TurnProfile | null;
 };
 
 type TimelineManagerInternal = {
   conversationContainer: HTMLElement | null;
   scrollContainer: HTMLElement | null;
   userTurnSelector: string | null;
+  minimapEnabled: boolean;
   ui: { timelineBar: HTMLElement | null; trackContent: HTMLElement | null };
   markers: TimelineMarker[];
   recalculateAndRenderMarkers: () => void;
@@ -176,4 +179,43 @@ describe('TimelineManager summary extraction', () => {
     expect(internal.markers[0]?.summary).toBe('same content');
     manager.destroy();
   });
+
+  it('profiles the prompt and its response in minimap mode', () => {
+    const container = document.createElement('div');
+    container.innerHTML = `
+      <div class="conversation-container">
+        <user-query><div class="user-query-bubble-with-background">Draw it</div></user-query>
+        <model-response>
+          <p>Here you go</p>
+          <code-block><div class="code-block-decoration"><span>Python</span></div><pre>x = 1</pre></code-block>
+          <span class="math-inline">e^x</span>
+        </model-response>
+      </div>`;
+    const turn = container.querySelector('.user-query-bubble-with-background') as HTMLElement;
+    setElementTop(turn, 0);
+
+    const { manager, internal } = setupForRecalc(container);
+    internal.minimapEnabled = true;
+    internal.recalculateAndRenderMarkers();
+
+    expect(internal.markers[0]?.summary).toBe('Draw it');
+    expect(internal.markers[0]?.profile?.kinds).toEqual(['code', 'formula']);
+    expect(internal.markers[0]?.profile?.length).toBeGreaterThan('Draw it'.length);
+    manager.destroy();
+  });
+
+  it('skips turn profiles when minimap mode is off', () => {
+    const container = document.createElement('div');
+    const turn = document.createElement('div');
+    turn.className = 'user-query-bubble-with-background';
+    turn.innerHTML = '<p>Hello</p>';
+    setElementTop(turn, 0);
+    container.appendChild(turn);
+
+    const { manager, internal } = setupForRecalc(container);
+    internal.recalculateAndRenderMarkers();
+
+    expect(internal.markers[0]?.profile).toBeNull();
+    manager.destroy();
+  });
 });
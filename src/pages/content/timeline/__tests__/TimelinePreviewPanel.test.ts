@@ -6,6 +6,10 @@ import type { PreviewMarkerData } from '../types';
 vi.mock('webextension-polyfill', () => ({
   default: {
     storage: {
+      local: {
+        get: vi.fn().mockResolvedValue({}),
+        set: vi.fn().mockResolvedValue(undefined),
+      },
       onChanged: { addListener: vi.fn(), removeListener: vi.fn() },
     },
   },
@@ -120,6 +124,31 @@ describe('TimelinePreviewPanel', () => {
       expect(items[0]?.classList.contains('starred')).toBe(false);
     });
 
+    it('shows custom labels instead of the summary', () => {
+      const markers = makeMarkers(3).map((marker, i) =>
+        i === 1 ? { ...marker, label: 'Key finding', color: 'green' as const } : marker,
+      );
+      panel.updateMarkers(markers);
+      panel.open();
+
+      const items = document.querySelectorAll<HTMLElement>('.timeline-preview-item');
+      expect(items[1]?.querySelector('.timeline-preview-text')?.textContent).toBe('Key finding');
+      expect(items[1]?.title).toBe('User message number 2');
+      expect(items[1]?.getAttribute('data-annotation-color')).toBe('green');
+      expect(items[0]?.hasAttribute('data-annotation-color')).toBe(false);
+    });
+
+    it('re-renders when only a label changes', () => {
+      const markers = makeMarkers(2);
+      panel.updateMarkers(markers);
+      panel.open();
+
+      panel.updateMarkers(markers.map((marker) => ({ ...marker, label: `Label ${marker.index}` })));
+
+      const text = document.querySelector('.timeline-preview-text');
+      expect(text?.textContent).toBe('Label 0');
+    });
+
     it('shows empty message when no markers', () => {
       panel.updateMarkers([]);
       panel.open();
@@ -190,6 +219,23 @@ describe('TimelinePreviewPanel', () => {
       expect(document.querySelectorAll('.timeline-preview-item').length).toBe(5);
     });
 
+    it('matches custom labels', async () => {
+      const markers = makeMarkers(5).map((marker, i) =>
+        i === 4 ? { ...marker, label: 'Methodology' } : marker,
+      );
+      panel.updateMarkers(markers);
+      panel.open();
+
+      const input = document.querySelector('.timeline-preview-search input') as HTMLInputElement;
+      input.value = 'method';
+      input.dispatchEvent(new Event('input'));
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      const items = document.querySelectorAll<HTMLElement>('.timeline-preview-item');
+      expect(items.length).toBe(1);
+      expect(items[0]?.dataset.turnId).toBe('turn-4');
+    });
+
     it('shows "No results" when search has no match', async () => {
       panel.updateMarkers(makeMarkers(3));
       panel.open();
@@ -204,6 +250,95 @@ describe('TimelinePreviewPanel', () => {
     });
   });
 
+  describe('query syntax', () => {
+    let onNavigateMatch: (turnId: string, index: number) => void;
+    let onSearchChange: (query: unknown, matches: ReadonlyArray<PreviewMarkerData>) => void;
+
+    beforeEach(() => {
+      panel.destroy();
+      onNavigateMatch = vi.fn();
+      onSearchChange = vi.fn();
+      panel = new TimelinePreviewPanel(anchor);
+      panel.init(onNavigate, onSearchChange, {
+        getTurnText: (index) => ({
+          user: `User message number ${index + 1}`,
+          model: index % 2 === 0 ? `Answer about apples ${index + 1}` : 'Answer about pears',
+        }),
+        onNavigateMatch,
+      });
+      panel.updateMarkers(makeMarkers(5));
+      panel.open();
+    });
+
+    async function search(value: string): Promise<HTMLInputElement> {
+      const input = document.querySelector('.timeline-preview-search input') as HTMLInputElement;
+      input.value = value;
+      input.dispatchEvent(new Event('input'));
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      return input;
+    }
+
+    function visibleTurnIds(): string[] {
+      return Array.from(document.querySelectorAll<HTMLElement>('.timeline-preview-item')).map(
+        (item) => item.dataset.turnId ?? '',
+      );
+    }
+
+    it('searches the full turn text with role and starred filters', async () => {
+      await search('role:model apples');
+      expect(visibleTurnIds()).toEqual(['turn-0', 'turn-2', 'turn-4']);
+
+      await search('role:user apples');
+      expect(visibleTurnIds()).toEqual([]);
+
+      await search('is:starred /apples \\d/');
+      expect(visibleTurnIds()).toEqual(['turn-2']);
+      expect(onSearchChange).toHaveBeenLastCalledWith(expect.objectContaining({ starred: true }), [
+        expect.objectContaining({ id: 'turn-2' }),
+      ]);
+    });
+
+    it('shows a match counter and steps through matches with Enter', async () => {
+      const input = await search('pears');
+      const count = document.querySelector('.timeline-preview-search-count') as HTMLElement;
+      expect(count.hidden).toBe(false);
+      expect(count.textContent).toBe('0/2');
+
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+      expect(onNavigateMatch).toHaveBeenLastCalledWith('turn-1', 1);
+      expect(count.textContent).toBe('1/2');
+
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+      expect(onNavigateMatch).toHaveBeenLastCalledWith('turn-3', 3);
+
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+      expect(onNavigateMatch).toHaveBeenLastCalledWith('turn-1', 1);
+
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', shiftKey: true }));
+      expect(onNavigateMatch).toHaveBeenLastCalledWith('turn-3', 3);
+      expect(count.textContent).toBe('2/2');
+      expect(onNavigate).not.toHaveBeenCalled();
+    });
+
+    it('applies a pending query immediately on Enter', () => {
+      const input = document.querySelector('.timeline-preview-search input') as HTMLInputElement;
+      input.value = 'level:1 "message number 5"';
+      input.dispatchEvent(new Event('input'));
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+
+      expect(visibleTurnIds()).toEqual(['turn-4']);
+      expect(onNavigateMatch).toHaveBeenCalledWith('turn-4', 4);
+    });
+
+    it('hides the counter when the search is cleared', async () => {
+      await search('pears');
+      await search('');
+      const count = document.querySelector('.timeline-preview-search-count') as HTMLElement;
+      expect(count.hidden).toBe(true);
+      expect(onSearchChange).toHaveBeenLastCalledWith(null, []);
+    });
+  });
+
   describe('navigation', () => {
     it('calls onNavigate when item is clicked', () => {
       panel.updateMarkers(makeMarkers(5));
@@ -257,6 +392,41 @@ describe('TimelinePreviewPanel', () => {
     });
   });
 
+  describe('outline view', () => {
+    it('indents items by marker level once switched on', () => {
+      panel.updateMarkers([
+        { id: 'a', summary: 'Heading', index: 0, starred: false, level: 1 },
+        { id: 'b', summary: 'Detail', index: 1, starred: false, level: 2 },
+        { id: 'c', summary: 'Plain', index: 2, starred: false },
+      ]);
+      panel.open();
+
+      const list = document.querySelector('.timeline-preview-list')!;
+      expect(list.querySelector('[data-level]')).toBeNull();
+
+      const button = document.querySelector('.timeline-preview-outline-toggle') as HTMLElement;
+      button.click();
+
+      expect(list.classList.contains('outline')).toBe(true);
+      expect(button.getAttribute('aria-pressed')).toBe('true');
+      const levels = Array.from(list.querySelectorAll('.timeline-preview-item')).map((item) =>
+        item.getAttribute('data-level'),
+      );
+      expect(levels).toEqual(['1', '2', '1']);
+    });
+
+    it('re-renders when only a marker level changes', () => {
+      panel.updateMarkers([{ id: 'a', summary: 'Heading', index: 0, starred: false }]);
+      panel.open();
+      (document.querySelector('.timeline-preview-outline-toggle') as HTMLElement).click();
+
+      panel.updateMarkers([{ id: 'a', summary: 'Heading', index: 0, starred: false, level: 3 }]);
+
+      const item = document.querySelector('.timeline-preview-item');
+      expect(item?.getAttribute('data-level')).toBe('3');
+    });
+  });
+
   describe('destroy', () => {
     it('removes all DOM elements', () => {
       panel.destroy();
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  MAX_ANNOTATION_LABEL_LENGTH,
+  createTurnAnnotation,
+  getConversationAnnotations,
+  normalizeAnnotationLabel,
+  setConversationAnnotation,
+} from '../annotations';
+import type { StarredMessagesData } from '../starredTypes';
+
+describe('normalizeAnnotationLabel', () => {
+  it('collapses whitespace and caps the length', () => {
+    expect(normalizeAnnotationLabel('  Key \n finding  ')).toBe('Key finding');
+    expect(normalizeAnnotationLabel('x'.repeat(100))).toHaveLength(MAX_ANNOTATION_LABEL_LENGTH);
+  });
+});
+
+describe('createTurnAnnotation', () => {
+  it('keeps a label, a colour or both', () => {
+    expect(createTurnAnnotation(' Setup ', null, 5)).toEqual({
+      label: 'Setup',
+      color: null,
+      updatedAt: 5,
+    });
+    expect(createTurnAnnotation('', 'blue', 5)).toEqual({ label: '', color: 'blue', updatedAt: 5 });
+  });
+
+  it('returns null when there is nothing to keep', () => {
+    expect(createTurnAnnotation('   ', null)).toBeNull();
+  });
+});
+
+describe('getConversationAnnotations', () => {
+  it('skips malformed entries', () => {
+    const data = {
+      messages: {},
+      annotations: {
+        conv: {
+          ok: { label: 'A', color: 'red', updatedAt: 1 },
+          badColor: { label: 'B', color: 'pink', updatedAt: 1 },
+          missingTime: { label: 'C', color: null },
+        },
+      },
+    } as unknown as StarredMessagesData;
+
+    const annotations = getConversationAnnotations(data, 'conv');
+    expect(Array.from(annotations.keys())).toEqual(['ok']);
+    expect(getConversationAnnotations(data, 'other').size).toBe(0);
+    expect(getConversationAnnotations(null, 'conv').size).toBe(0);
+  });
+});
+
+describe('setConversationAnnotation', () => {
+  it('adds, replaces and removes annotations', () => {
+    const data: StarredMessagesData = { messages: {} };
+    const annotation = { label: 'A', color: null, updatedAt: 1 };
+
+    expect(setConversationAnnotation(data, 'conv', 'turn', annotation)).toBe(true);
+    expect(data.annotations).toEqual({ conv: { turn: annotation } });
+
+    const replaced = { label: 'B', color: 'green' as const, updatedAt: 2 };
+    setConversationAnnotation(data, 'conv', 'turn', replaced);
+    expect(data.annotations?.conv.turn).toEqual(replaced);
+
+    expect(setConversationAnnotation(data, 'conv', 'turn', null, 3)).toBe(true);
+    expect(data.annotations).toEqual({
+      conv: { turn: { label: '', color: null, updatedAt: 3 } },
+    });
+    expect(getConversationAnnotations(data, 'conv').size).toBe(0);
+    expect(setConversationAnnotation(data, 'conv', 'turn', null, 4)).toBe(false);
+    expect(setConversationAnnotation(data, 'conv', 'other', null, 4)).toBe(false);
+  });
+});
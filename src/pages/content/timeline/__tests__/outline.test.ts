@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  normalizeTimelineOutline,
+  readLegacyTimelineOutline,
+  removeLegacyTimelineOutline,
+} from '../outline';
+
+describe('normalizeTimelineOutline', () => {
+  it('drops malformed conversations and default or invalid levels', () => {
+    const outline = normalizeTimelineOutline(
+      {
+        a: { levels: { 'u-1': 2, 'u-2': 1, 'u-3': 4, 'u-4': 3 }, updatedAt: 1 },
+        b: { levels: { 'u-1': 2 } },
+        c: 'broken',
+      },
+      {
+        a: { turnIds: ['u-1', 'u-1', 5, ''], updatedAt: 2 },
+        b: { turnIds: 'u-1', updatedAt: 3 },
+      },
+    );
+
+    expect(outline).toEqual({
+      levels: { a: { levels: { 'u-1': 2, 'u-4': 3 }, updatedAt: 1 } },
+      collapsed: {
+        a: { turnIds: ['u-1'], updatedAt: 2 },
+        b: { turnIds: [], updatedAt: 3 },
+      },
+    });
+  });
+
+  it('returns empty data for missing storage entries', () => {
+    expect(normalizeTimelineOutline(undefined, null)).toEqual({ levels: {}, collapsed: {} });
+  });
+});
+
+describe('legacy localStorage outline', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('reads the old per-conversation entries', () => {
+    localStorage.setItem('geminiTimelineLevels:conv1', JSON.stringify({ 'u-1': 2, 'u-2': 1 }));
+    localStorage.setItem('geminiTimelineCollapsed:conv1', JSON.stringify(['u-1']));
+
+    expect(readLegacyTimelineOutline(localStorage, 'conv1', 100)).toEqual({
+      levels: { levels: { 'u-1': 2 }, updatedAt: 100 },
+      collapsed: { turnIds: ['u-1'], updatedAt: 100 },
+    });
+  });
+
+  it('returns null when nothing was stored and ignores unreadable entries', () => {
+    expect(readLegacyTimelineOutline(localStorage, 'conv1')).toBeNull();
+
+    localStorage.setItem('geminiTimelineCollapsed:conv1', '{not json');
+    expect(readLegacyTimelineOutline(localStorage, 'conv1')).toBeNull();
+  });
+
+  it('removes only the entries of the given conversation', () => {
+    localStorage.setItem('geminiTimelineLevels:conv1', '{}');
+    localStorage.setItem('geminiTimelineCollapsed:conv1', '[]');
+    localStorage.setItem('geminiTimelineLevels:conv2', '{}');
+
+    removeLegacyTimelineOutline(localStorage, 'conv1');
+    expect(localStorage.length).toBe(1);
+    expect(localStorage.getItem('geminiTimelineLevels:conv2')).toBe('{}');
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+
+import { getTimelinePlatform, isTimelineConversationRoute } from '../platform';
+
+describe('timeline platform', () => {
+  it('detects AI Studio hosts', () => {
+    expect(getTimelinePlatform('aistudio.google.com')).toBe('aistudio');
+    expect(getTimelinePlatform('aistudio.google.cn')).toBe('aistudio');
+    expect(getTimelinePlatform('gemini.google.com')).toBe('gemini');
+  });
+
+  it('matches conversation routes of each platform', () => {
+    expect(isTimelineConversationRoute('gemini', '/app/abc')).toBe(true);
+    expect(isTimelineConversationRoute('gemini', '/u/1/gem/coder')).toBe(true);
+    expect(isTimelineConversationRoute('gemini', '/prompts/abc')).toBe(false);
+
+    expect(isTimelineConversationRoute('aistudio', '/prompts/1a2b3c')).toBe(true);
+    expect(isTimelineConversationRoute('aistudio', '/prompts/new_chat')).toBe(true);
+    expect(isTimelineConversationRoute('aistudio', '/library')).toBe(false);
+    expect(isTimelineConversationRoute('aistudio', '/app/abc')).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { StorageKeys } from '@/core/types/common';
+
+import {
+  getReadingPosition,
+  normalizeReadingPositions,
+  rememberReadingPosition,
+  saveReadingPosition,
+} from '../readingPosition';
+
+describe('normalizeReadingPositions', () => {
+  it('drops malformed entries', () => {
+    expect(
+      normalizeReadingPositions({
+        a: { turnId: 'u-1', updatedAt: 1 },
+        b: { turnId: '', updatedAt: 2 },
+        c: { turnId: 'u-3' },
+        d: 'broken',
+      }),
+    ).toEqual({ a: { turnId: 'u-1', updatedAt: 1 } });
+    expect(normalizeReadingPositions(undefined)).toEqual({});
+  });
+});
+
+describe('rememberReadingPosition', () => {
+  it('replaces the position of a conversation', () => {
+    const positions = rememberReadingPosition({ a: { turnId: 'u-1', updatedAt: 1 } }, 'a', {
+      turnId: 'u-2',
+      updatedAt: 2,
+    });
+    expect(positions).toEqual({ a: { turnId: 'u-2', updatedAt: 2 } });
+  });
+
+  it('forgets the least recently read conversations beyond the limit', () => {
+    const positions = rememberReadingPosition(
+      {
+        a: { turnId: 'u-1', updatedAt: 3 },
+        b: { turnId: 'u-1', updatedAt: 1 },
+        c: { turnId: 'u-1', updatedAt: 2 },
+      },
+      'd',
+      { turnId: 'u-1', updatedAt: 4 },
+      3,
+    );
+    expect(Object.keys(positions).sort()).toEqual(['a', 'c', 'd']);
+  });
+});
+
+describe('reading position storage', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    stored = {};
+    Object.assign(chrome.storage, {
+      local: {
+        get: vi.fn(async (key: string) => ({ [key]: stored[key] })),
+        set: vi.fn(async (items: Record<string, unknown>) => Object.assign(stored, items)),
+      },
+    });
+  });
+
+  afterEach(() => {
+    delete (chrome.storage as { local?: unknown }).local;
+    vi.restoreAllMocks();
+  });
+
+  it('saves and reads back the last turn of a conversation', async () => {
+    await saveReadingPosition('gemini:a', 'u-1');
+    await saveReadingPosition('gemini:b', 'u-2');
+
+    expect((await getReadingPosition('gemini:a'))?.turnId).toBe('u-1');
+    expect(await getReadingPosition('gemini:c')).toBeNull();
+    expect(Object.keys(stored[StorageKeys.TIMELINE_READING_POSITIONS] as object)).toEqual([
+      'gemini:a',
+      'gemini:b',
+    ]);
+  });
+
+  it('returns null when storage is unavailable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    delete (chrome.storage as { local?: unknown }).local;
+
+    expect(await getReadingPosition('gemini:a')).toBeNull();
+  });
+});
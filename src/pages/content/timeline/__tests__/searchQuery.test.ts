@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  type TimelineSearchTarget,
+  findHighlightRanges,
+  getTimelineSearchHighlightPattern,
+  matchesTimelineSearch,
+  parseTimelineSearchQuery,
+} from '../searchQuery';
+
+const turn: TimelineSearchTarget = {
+  userText: 'How do I parse JSON in Rust?',
+  modelText: 'Use serde_json::from_str to parse the string.',
+  label: 'Parsing',
+  starred: false,
+  level: 2,
+};
+
+describe('parseTimelineSearchQuery', () => {
+  it('returns null for a blank query', () => {
+    expect(parseTimelineSearchQuery('   ')).toBeNull();
+  });
+
+  it('reads filters, phrases and regex terms', () => {
+    const query = parseTimelineSearchQuery(
+      'role:Model is:starred level:1 level:3 "exact  phrase" /a b/ word',
+    );
+
+    expect(query).toMatchObject({ role: 'model', starred: true, levels: [1, 3] });
+    expect(query?.terms).toEqual([
+      { type: 'text', value: 'exact phrase' },
+      { type: 'regex', pattern: /a b/i },
+      { type: 'text', value: 'word' },
+    ]);
+  });
+
+  it('treats unknown filters and invalid regexes as plain text', () => {
+    expect(parseTimelineSearchQuery('role:robot /[/ level:9')?.terms).toEqual([
+      { type: 'text', value: 'role:robot' },
+      { type: 'text', value: '/[/' },
+      { type: 'text', value: 'level:9' },
+    ]);
+  });
+});
+
+describe('matchesTimelineSearch', () => {
+  const matches = (raw: string, target = turn) =>
+    matchesTimelineSearch(parseTimelineSearchQuery(raw)!, target);
+
+  it('requires every term to match the user, label or model text', () => {
+    expect(matches('json serde')).toBe(true);
+    expect(matches('parsing')).toBe(true);
+    expect(matches('json python')).toBe(false);
+  });
+
+  it('limits terms to one side with role filters', () => {
+    expect(matches('role:user serde')).toBe(false);
+    expect(matches('role:model serde')).toBe(true);
+    expect(matches('role:model', { ...turn, modelText: '' })).toBe(false);
+  });
+
+  it('filters by starred state and level', () => {
+    expect(matches('is:starred')).toBe(false);
+    expect(matches('is:starred', { ...turn, starred: true })).toBe(true);
+    expect(matches('level:2')).toBe(true);
+    expect(matches('level:1', { ...turn, level: undefined })).toBe(true);
+  });
+
+  it('matches regex terms case-insensitively', () => {
+    expect(matches('/SERDE_\\w+::/')).toBe(true);
+    expect(matches('/^use/')).toBe(true);
+    expect(matches('/^rust/')).toBe(false);
+  });
+});
+
+describe('getTimelineSearchHighlightPattern', () => {
+  it('highlights every text and regex term', () => {
+    const pattern = getTimelineSearchHighlightPattern(parseTimelineSearchQuery('json /p\\w+e/')!)!;
+
+    expect(findHighlightRanges('JSON parse (x)', pattern)).toEqual([
+      { start: 0, end: 4 },
+      { start: 5, end: 10 },
+    ]);
+  });
+
+  it('escapes text terms and skips empty matches', () => {
+    const pattern = getTimelineSearchHighlightPattern(parseTimelineSearchQuery('(x) /z*/')!)!;
+
+    expect(findHighlightRanges('a (x) zz', pattern)).toEqual([
+      { start: 2, end: 5 },
+      { start: 6, end: 8 },
+    ]);
+  });
+
+  it('returns null when only filters are used', () => {
+    expect(getTimelineSearchHighlightPattern(parseTimelineSearchQuery('is:starred')!)).toBeNull();
+  });
+});
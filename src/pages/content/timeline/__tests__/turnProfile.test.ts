@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectTurnContentKinds, getTurnSizeBucket } from '../turnProfile';
+
+function render(html: string): HTMLElement {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+}
+
+describe('detectTurnContentKinds', () => {
+  it('returns no kinds for plain text', () => {
+    expect(detectTurnContentKinds(render('<p>Just text</p>'))).toEqual([]);
+  });
+
+  it('detects rich content in display order', () => {
+    const root = render(`
+      <deep-research-immersive-panel></deep-research-immersive-panel>
+      <div class="math-block">x^2</div>
+      <generated-image><img src="a.png" /></generated-image>
+      <code-block><div class="code-block-decoration"><span>TypeScript</span></div><pre>let a;</pre></code-block>
+    `);
+
+    expect(detectTurnContentKinds(root)).toEqual(['code', 'image', 'formula', 'deepResearch']);
+  });
+
+  it('counts Mermaid code blocks and rendered diagrams as diagrams only', () => {
+    expect(
+      detectTurnContentKinds(
+        render(
+          '<code-block><div class="code-block-decoration"><span>Mermaid</span></div><pre>graph TD</pre></code-block>',
+        ),
+      ),
+    ).toEqual(['mermaid']);
+    expect(detectTurnContentKinds(render('<div class="gv-mermaid-wrapper"></div>'))).toEqual([
+      'mermaid',
+    ]);
+  });
+
+  it('treats a bare pre element as code', () => {
+    expect(detectTurnContentKinds(render('<pre>npm install</pre>'))).toEqual(['code']);
+  });
+});
+
+describe('getTurnSizeBucket', () => {
+  it('grows with the turn length', () => {
+    expect(getTurnSizeBucket(0)).toBe(1);
+    expect(getTurnSizeBucket(200)).toBe(1);
+    expect(getTurnSizeBucket(201)).toBe(2);
+    expect(getTurnSizeBucket(1000)).toBe(2);
+    expect(getTurnSizeBucket(4000)).toBe(3);
+    expect(getTurnSizeBucket(25000)).toBe(4);
+  });
+});
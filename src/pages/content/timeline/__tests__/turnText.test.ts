@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { findTurnResponseElement } from '../turnText';
+
+describe('findTurnResponseElement', () => {
+  it('finds the response that follows a nested user bubble', () => {
+    document.body.innerHTML = `
+      <main>
+        <div class="conversation-container">
+          <user-query><div class="user-query-bubble-with-background" id="q1">One</div></user-query>
+          <model-response id="r1">First answer</model-response>
+        </div>
+        <div class="conversation-container">
+          <user-query><div class="user-query-bubble-with-background" id="q2">Two</div></user-query>
+        </div>
+      </main>`;
+    const root = document.querySelector('main') as HTMLElement;
+    const selector = '.user-query-bubble-with-background';
+
+    const first = document.getElementById('q1') as HTMLElement;
+    expect(findTurnResponseElement(first, selector, root)?.id).toBe('r1');
+
+    // The pending turn has no response and must not borrow a later one
+    const second = document.getElementById('q2') as HTMLElement;
+    expect(findTurnResponseElement(second, selector, root)).toBeNull();
+  });
+
+  it('stops at the next user turn', () => {
+    document.body.innerHTML = `
+      <main>
+        <div class="user-query-bubble-with-background" id="q1">One</div>
+        <div class="user-query-bubble-with-background" id="q2">Two</div>
+        <model-response id="r2">Answer</model-response>
+      </main>`;
+    const root = document.querySelector('main') as HTMLElement;
+    const selector = '.user-query-bubble-with-background';
+
+    expect(findTurnResponseElement(document.getElementById('q1')!, selector, root)).toBeNull();
+    expect(findTurnResponseElement(document.getElementById('q2')!, selector, root)?.id).toBe('r2');
+  });
+
+  it('finds the model turn of an AI Studio chat', () => {
+    document.body.innerHTML = `
+      <main>
+        <ms-chat-turn><div class="chat-turn-container user" id="q1">Prompt</div></ms-chat-turn>
+        <ms-chat-turn><div class="chat-turn-container model" id="r1">Reply</div></ms-chat-turn>
+        <ms-chat-turn><div class="chat-turn-container user" id="q2">Next</div></ms-chat-turn>
+      </main>`;
+    const root = document.querySelector('main') as HTMLElement;
+    const selector = '.chat-turn-container.user';
+
+    expect(findTurnResponseElement(document.getElementById('q1')!, selector, root)?.id).toBe('r1');
+    expect(findTurnResponseElement(document.getElementById('q2')!, selector, root)).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Per-turn timeline annotations (custom label + colour)
+ * Stored next to the starred messages so they share storage, merging and Drive sync.
+ * Clearing an annotation leaves a timestamped empty entry (a tombstone) so the clear wins
+ * over an older copy from another device; tombstones are never shown.
+ */
+import type { StarredMessagesData, TurnAnnotation, TurnAnnotationColor } from './starredTypes';
+
+export const TURN_ANNOTATION_COLORS: readonly TurnAnnotationColor[] = [
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'blue',
+  'purple',
+];
+
+export const MAX_ANNOTATION_LABEL_LENGTH = 40;
+
+export function isTurnAnnotationColor(value: unknown): value is TurnAnnotationColor {
+  return TURN_ANNOTATION_COLORS.includes(value as TurnAnnotationColor);
+}
+
+export function normalizeAnnotationLabel(label: string): string {
+  return String(label || '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_ANNOTATION_LABEL_LENGTH)
+    .trim();
+}
+
+/**
+ * Build an annotation, or null when there is neither a label nor a colour to keep
+ */
+export function createTurnAnnotation(
+  label: string,
+  color: TurnAnnotationColor | null,
+  now: number = Date.now(),
+): TurnAnnotation | null {
+  const normalized = normalizeAnnotationLabel(label);
+  const validColor = isTurnAnnotationColor(color) ? color : null;
+  if (!normalized && !validColor) return null;
+  return { label: normalized, color: validColor, updatedAt: now };
+}
+
+export function isTurnAnnotation(value: unknown): value is TurnAnnotation {
+  if (!value || typeof value !== 'object') return false;
+  const annotation = value as Partial<TurnAnnotation>;
+  return (
+    typeof annotation.label === 'string' &&
+    (annotation.color === null || isTurnAnnotationColor(annotation.color)) &&
+    typeof annotation.updatedAt === 'number'
+  );
+}
+
+/**
+ * Whether an annotation records a clear rather than a label or colour
+ */
+export function isClearedTurnAnnotation(annotation: TurnAnnotation): boolean {
+  return !annotation.label && !annotation.color;
+}
+
+/**
+ * Valid, non-cleared entries of a turnId -> annotation record
+ */
+export function parseTurnAnnotations(raw: unknown): Map<string, TurnAnnotation> {
+  const result = new Map<string, TurnAnnotation>();
+  if (!raw || typeof raw !== 'object') return result;
+  Object.entries(raw).forEach(([turnId, annotation]) => {
+    if (isTurnAnnotation(annotation) && !isClearedTurnAnnotation(annotation)) {
+      result.set(turnId, annotation);
+    }
+  });
+  return result;
+}
+
+/**
+ * Valid annotations of one conversation, keyed by turn id
+ */
+export function getConversationAnnotations(
+  data: StarredMessagesData | null | undefined,
+  conversationId: string,
+): Map<string, TurnAnnotation> {
+  return parseTurnAnnotations(data?.annotations?.[conversationId]);
+}
+
+/**
+ * Set or clear (annotation = null) the annotation of a turn in place.
+ * A clear is stored as a tombstone so it survives merging with older copies.
+ * Returns whether the data changed.
+ */
+export function setConversationAnnotation(
+  data: StarredMessagesData,
+  conversationId: string,
+  turnId: string,
+  annotation: TurnAnnotation | null,
+  now: number = Date.now(),
+): boolean {
+  const annotations = data.annotations ?? {};
+  const conversation = annotations[conversationId] ?? {};
+
+  if (!annotation) {
+    const existing = conversation[turnId];
+    if (!existing || isClearedTurnAnnotation(existing)) return false;
+    conversation[turnId] = { label: '', color: null, updatedAt: now };
+  } else {
+    conversation[turnId] = annotation;
+  }
+
+  annotations[conversationId] = conversation;
+  data.annotations = annotations;
+  return true;
+}
@@ -1,9 +1,8 @@
 import { TimelineManager } from './manager';
+import { getTimelinePlatform, isTimelineConversationRoute } from './platform';
 
-function isGeminiConversationRoute(pathname = location.pathname): boolean {
-  // Support account-scoped routes like /u/1/app or /u/0/gem/
-  // Matches: "/app", "/gem/", "/u/<num>/app", "/u/<num>/gem/"
-  return /^\/(?:u\/\d+\/)?(app|gem)(\/|$)/.test(pathname);
+function isConversationRoute(): boolean {
+  return isTimelineConversationRoute(getTimelinePlatform());
 }
 
 type HistoryStateArgs = Parameters<History['pushState']>;
@@ -66,7 +65,7 @@ function handleUrlChange(): void {
     urlChangeTimer = null;
   }
 
-  if (isGeminiConversationRoute()) {
+  if (isConversationRoute()) {
     // Add delay to allow DOM to update after SPA navigation
     console.log('[Timeline] URL changed to conversation route, scheduling initialization');
     urlChangeTimer = window.setTimeout(() => {
@@ -181,10 +180,17 @@ function cleanup(): void {
   routeListenersAttached = false;
 }
 
+/**
+ * Timeline of the conversation currently open, null on other pages
+ */
+export function getTimelineManager(): TimelineManager | null {
+  return timelineManagerInstance;
+}
+
 export function startTimeline(): void {
   const setup = (): void => {
     attachRouteListenersOnce();
-    if (isGeminiConversationRoute() && !timelineManagerInstance) {
+    if (isConversationRoute() && !timelineManagerInstance) {
       initializeTimeline();
     }
   };
@@ -1,12 +1,49 @@
 import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
 import { StorageKeys } from '@/core/types/common';
+import type { SidePanelTimeline } from '@/core/types/sidePanel';
+import { getAIStudioUserTurnSelectors } from '@/core/utils/selectors';
+import type { TranslationKey } from '@/utils/translations';
 
 import { getTranslationSync, initI18n } from '../../../utils/i18n';
 import { eventBus } from './EventBus';
 import { StarredMessagesService } from './StarredMessagesService';
+import { TimelineOutlineService } from './TimelineOutlineService';
 import { TimelinePreviewPanel } from './TimelinePreviewPanel';
-import type { StarredMessage, StarredMessagesData } from './starredTypes';
-import type { DotElement, MarkerLevel } from './types';
+import {
+  MAX_ANNOTATION_LABEL_LENGTH,
+  TURN_ANNOTATION_COLORS,
+  createTurnAnnotation,
+  getConversationAnnotations,
+  parseTurnAnnotations,
+} from './annotations';
+import {
+  normalizeTimelineOutline,
+  readLegacyTimelineOutline,
+  removeLegacyTimelineOutline,
+} from './outline';
+import type { ConversationTimelineOutline } from './outlineTypes';
+import { type TimelinePlatform, getTimelinePlatform } from './platform';
+import { type ReadingPosition, getReadingPosition, saveReadingPosition } from './readingPosition';
+import {
+  type TimelineSearchQuery,
+  findHighlightRanges,
+  getTimelineSearchHighlightPattern,
+} from './searchQuery';
+import type {
+  StarredMessage,
+  StarredMessagesData,
+  TurnAnnotation,
+  TurnAnnotationColor,
+} from './starredTypes';
+import {
+  TURN_CONTENT_KINDS,
+  type TurnContentKind,
+  type TurnProfile,
+  detectTurnContentKinds,
+  getTurnSizeBucket,
+} from './turnProfile';
+import { captureTurnContent, findTurnResponseElement, normalizeTurnText } from './turnText';
+import type { DotElement, MarkerLevel, PreviewMarkerData, PreviewTurnText } from './types';
 
 function hashString(input: string): string {
   let h = 2166136261 >>> 0;
@@ -17,11 +54,28 @@ function hashString(input: string): string {
   return (h >>> 0).toString(36);
 }
 
+const ANNOTATION_COLOR_LABEL_KEYS: Record<TurnAnnotationColor, TranslationKey> = {
+  red: 'timelineColorRed',
+  orange: 'timelineColorOrange',
+  yellow: 'timelineColorYellow',
+  green: 'timelineColorGreen',
+  blue: 'timelineColorBlue',
+  purple: 'timelineColorPurple',
+};
+
 /** Accessibility prefixes injected by Gemini's DOM that should be stripped from previews effectively globally. */
 const TURN_LABEL_PREFIXES =
   /^[\u200B\u200C\u200D\u200E\u200F\uFEFF]*(?:you said|you wrote|user message|your prompt|you asked)[:\s]*/i;
 const VISUALLY_HIDDEN_CLASS_FRAGMENT = 'visually-hidden';
 const INJECTED_UI_SELECTOR = '.gv-fork-btn, .gv-fork-confirm, .gv-fork-indicator-group';
+/** Google Symbols ligatures of the minimap content glyphs */
+const MINIMAP_GLYPH_ICONS: Record<TurnContentKind, string> = {
+  code: 'code',
+  image: 'image',
+  formula: 'function',
+  mermaid: 'account_tree',
+  deepResearch: 'travel_explore',
+};
 
 type ExtGlobal = typeof globalThis & {
   chrome?: {
@@ -54,6 +108,7 @@ type ExtGlobal = typeof globalThis & {
 };
 
 export class TimelineManager {
+  private readonly platform: TimelinePlatform = getTimelinePlatform();
   private scrollContainer: HTMLElement | null = null;
   private conversationContainer: HTMLElement | null = null;
   private markers: Array<{
@@ -64,6 +119,7 @@ export class TimelineManager {
     baseN: number;
     dotElement: DotElement | null;
     starred: boolean;
+    profile: TurnProfile | null;
   }> = [];
   private activeTurnId: string | null = null;
   private ui: {
@@ -140,13 +196,34 @@ export class TimelineManager {
       n: number;
       baseN: number;
       summary: string;
+      profile: TurnProfile | null;
     }
   > = new Map();
   private conversationId: string | null = null;
   private userTurnSelector: string = '';
   private markerLevels: Map<string, MarkerLevel> = new Map();
+  private annotations: Map<string, TurnAnnotation> = new Map();
+  /** Only dots with this annotation colour are shown on the track */
+  private annotationColorFilter: TurnAnnotationColor | null = null;
   private collapsedMarkers: Set<string> = new Set();
   private markerLevelEnabled = false;
+  private minimapEnabled = false;
+  /** Response text length and content kinds per turn, reused while the response is unchanged */
+  private responseProfileCache: Map<
+    string,
+    { signature: string; length: number; kinds: TurnContentKind[] }
+  > = new Map();
+  private autoResumeReading = false;
+  /** Position saved by an earlier visit, until it is resumed or dismissed */
+  private pendingReadingPosition: ReadingPosition | null = null;
+  /** Positions are saved only once the saved one has been loaded */
+  private readingPositionReady = false;
+  private lastSavedReadingTurnId: string | null = null;
+  private readingPositionSaveTimer: number | null = null;
+  /** Drops the saved position if its turn is never rendered */
+  private readingPositionOfferTimer: number | null = null;
+  private resumeChip: HTMLElement | null = null;
+  private resumeChipTimer: number | null = null;
   private contextMenu: HTMLElement | null = null;
   private onContextMenu: ((ev: MouseEvent) => void) | null = null;
   private onDocumentClick: ((ev: MouseEvent) => void) | null = null;
@@ -189,8 +266,8 @@ export class TimelineManager {
     this.conversationId = this.computeConversationId();
     await this.loadStars();
     await this.syncStarredFromService();
-    this.loadMarkerLevels();
-    this.loadCollapsedMarkers();
+    await this.loadAnnotations();
+    await this.loadTimelineOutline();
     // Ensure initial render even when Gemini DOM is already stable (no mutations after observer attaches)
     this.recalculateAndRenderMarkers();
     // Handle URL hash for starred message navigation
@@ -204,6 +281,8 @@ export class TimelineManager {
         geminiTimelineHideContainer: false,
         geminiTimelineDraggable: false,
         geminiTimelineMarkerLevel: false,
+        geminiTimelineMinimap: false,
+        geminiTimelineAutoResume: false,
         geminiTimelinePosition: null,
       };
 
@@ -247,6 +326,8 @@ export class TimelineManager {
       this.applyContainerVisibility();
       this.toggleDraggable(!!res?.geminiTimelineDraggable);
       this.toggleMarkerLevel(!!res?.geminiTimelineMarkerLevel);
+      this.toggleMinimap(!!res?.geminiTimelineMinimap);
+      this.autoResumeReading = !!res?.geminiTimelineAutoResume;
 
       // Load position with auto-migration from v1 to v2
       const position = res?.geminiTimelinePosition as
@@ -309,6 +390,12 @@ export class TimelineManager {
             if (changes?.geminiTimelineMarkerLevel) {
               this.toggleMarkerLevel(!!changes.geminiTimelineMarkerLevel.newValue);
             }
+            if (changes?.geminiTimelineMinimap) {
+              this.toggleMinimap(!!changes.geminiTimelineMinimap.newValue);
+            }
+            if (changes?.geminiTimelineAutoResume) {
+              this.autoResumeReading = !!changes.geminiTimelineAutoResume.newValue;
+            }
             if (changes?.geminiTimelinePosition && !changes.geminiTimelinePosition.newValue) {
               if (this.ui.timelineBar) {
                 this.ui.timelineBar.style.top = '';
@@ -321,6 +408,7 @@ export class TimelineManager {
     } catch (err) {
       console.error('[Timeline] Init storage error:', err);
     }
+    await this.loadReadingPosition();
   }
 
   private computeElementTopsInScrollContainer(elements: HTMLElement[]): number[] {
@@ -364,7 +452,8 @@ export class TimelineManager {
 
   private computeConversationId(): string {
     const raw = `${location.host}${location.pathname}${location.search}`;
-    return `gemini:${hashString(raw)}`;
+    // Prefixed by platform so AI Studio stars and positions never mix with Gemini ones
+    return `${this.platform}:${hashString(raw)}`;
   }
 
   /**
@@ -441,6 +530,7 @@ export class TimelineManager {
     const nextSet = new Set(conversationMessages.map((message) => String(message.turnId)));
 
     this.applyStarredIdSet(nextSet);
+    this.applyAnnotations(getConversationAnnotations(data, this.conversationId));
   }
 
   private async syncStarredFromService(): Promise<void> {
@@ -612,20 +702,23 @@ export class TimelineManager {
       userOverride = localStorage.getItem('geminiTimelineUserTurnSelector') || '';
       autoDetected = localStorage.getItem('geminiTimelineUserTurnSelectorAuto') || '';
     } catch {}
-    const defaultCandidates = [
-      // Angular-based Gemini UI user bubble (primary)
-      '.user-query-bubble-with-background',
-      // Angular containers (fallbacks if bubble selector changes)
-      '.user-query-bubble-container',
-      '.user-query-container',
-      'user-query-content .user-query-bubble-with-background',
-      // Attribute-based fallbacks for other Gemini variants
-      'div[aria-label="User message"]',
-      'article[data-author="user"]',
-      'article[data-turn="user"]',
-      '[data-message-author-role="user"]',
-      'div[role="listitem"][data-user="true"]',
-    ];
+    const defaultCandidates =
+      this.platform === 'aistudio'
+        ? getAIStudioUserTurnSelectors()
+        : [
+            // Angular-based Gemini UI user bubble (primary)
+            '.user-query-bubble-with-background',
+            // Angular containers (fallbacks if bubble selector changes)
+            '.user-query-bubble-container',
+            '.user-query-container',
+            'user-query-content .user-query-bubble-with-background',
+            // Attribute-based fallbacks for other Gemini variants
+            'div[aria-label="User message"]',
+            'article[data-author="user"]',
+            'article[data-turn="user"]',
+            '[data-message-author-role="user"]',
+            'div[role="listitem"][data-user="true"]',
+          ];
     // Compatibility strategy:
     // - Keep explicit user override as highest priority.
     // - Prefer built-in defaults over auto-detected cache, so stale auto cache can self-heal after refresh.
@@ -652,10 +745,15 @@ export class TimelineManager {
       // Scope selection/observers:
       // - Broad scope (main/body) if:
       //   a) user provided an explicit override, or
-      //   b) auto-detected selector suggests Angular-based user query DOM (contains 'user-query')
+      //   b) auto-detected selector suggests Angular-based user query DOM (contains 'user-query'), or
+      //   c) on AI Studio, where each turn sits in its own <ms-chat-turn> wrapper
       // - Otherwise, scope to the immediate parent for performance
       const looksAngularUserQuery = /user-query/i.test(matchedSelector || '');
-      if ((userOverride && matchedSelector === userOverride) || looksAngularUserQuery) {
+      if (
+        (userOverride && matchedSelector === userOverride) ||
+        looksAngularUserQuery ||
+        this.platform === 'aistudio'
+      ) {
         this.conversationContainer =
           (document.querySelector('main') as HTMLElement) || (document.body as HTMLElement);
       } else {
@@ -795,7 +893,13 @@ export class TimelineManager {
           }
           this.smoothScrollTo(marker.element, dur);
         },
-        (query) => this.highlightSearchInDOM(query),
+        (query, matches) => this.highlightSearchInDOM(query, matches),
+        {
+          getTurnText: (index) => this.getTurnText(index),
+          onNavigateMatch: (_turnId, index) => {
+            void this.performNodeNavigation(index, this.getActiveIndex());
+          },
+        },
       );
     }
   }
@@ -829,7 +933,10 @@ export class TimelineManager {
     return false;
   }
 
-  private extractTurnText(element: HTMLElement | null): string {
+  /**
+   * Visible text of a turn; when `kinds` is given, the rich content found in it is added too
+   */
+  private extractTurnText(element: HTMLElement | null, kinds?: Set<TurnContentKind>): string {
     if (!element) return '';
     try {
       const clone = element.cloneNode(true) as HTMLElement;
@@ -846,6 +953,8 @@ export class TimelineManager {
       // Remove extension-injected UI elements (e.g. fork button)
       clone.querySelectorAll(INJECTED_UI_SELECTOR).forEach((el) => el.remove());
 
+      if (kinds) detectTurnContentKinds(clone).forEach((kind) => kinds.add(kind));
+
       return this.normalizeText(clone.textContent || '');
     } catch {
       return this.normalizeText(element.textContent || '');
@@ -1173,18 +1282,24 @@ export class TimelineManager {
       let n = offsetFromStart / contentSpan;
       n = Math.max(0, Math.min(1, n));
       const id = this.ensureTurnId(element, idx);
+      const kinds = this.minimapEnabled ? new Set<TurnContentKind>() : undefined;
+      const summary = this.extractTurnText(element, kinds);
       const m = {
         id,
         element,
-        summary: this.extractTurnText(element),
+        summary,
         n,
         baseN: n,
         dotElement: null,
         starred: this.starred.has(id),
+        profile: kinds ? this.buildTurnProfile(id, element, summary, kinds) : null,
       };
       this.markerMap.set(id, m);
       return m;
     });
+    this.responseProfileCache.forEach((_, id) => {
+      if (!this.markerMap.has(id)) this.responseProfileCache.delete(id);
+    });
     this.markersVersion++;
     this.updateTimelineGeometry();
     if (!this.activeTurnId && this.markers.length > 0)
@@ -1193,11 +1308,28 @@ export class TimelineManager {
     this.syncTimelineTrackToMain();
     this.updateVirtualRangeAndRender();
     this.updateActiveDotUI();
+    this.offerReadingPosition();
     this.scheduleScrollSync();
+    this.updatePreviewMarkers();
+  };
+
+  private updatePreviewMarkers(): void {
     this.previewPanel?.updateMarkers(
-      this.markers.map((m, i) => ({ id: m.id, summary: m.summary, index: i, starred: m.starred })),
+      this.markers.map((m, i) => {
+        const annotation = this.annotations.get(m.id);
+        return {
+          id: m.id,
+          summary: m.summary,
+          index: i,
+          starred: m.starred,
+          label: annotation?.label ?? '',
+          color: annotation?.color ?? null,
+          level: this.markerLevelEnabled ? this.getMarkerLevel(m.id) : 1,
+        };
+      }),
     );
-  };
+    eventBus.emit('timeline:changed', { conversationId: this.conversationId });
+  }
 
   private setupObservers(): void {
     this.mutationObserver = new MutationObserver(() => {
@@ -1310,11 +1442,11 @@ export class TimelineManager {
     this.ui.timelineBar!.addEventListener('mouseover', this.onTimelineBarOver);
     this.ui.timelineBar!.addEventListener('mouseout', this.onTimelineBarOut);
 
-    // Right-click context menu for level selection
+    // Right-click context menu for labels, colours and level selection.
+    // Outside of a dot it only offers the colour filter.
     this.onContextMenu = (ev: MouseEvent) => {
-      if (!this.markerLevelEnabled) return;
       const dot = (ev.target as HTMLElement).closest('.timeline-dot') as DotElement | null;
-      if (!dot) return;
+      if (!dot && this.getAnnotationColorsInUse().length === 0) return;
       ev.preventDefault();
       ev.stopPropagation();
       this.showContextMenu(dot, ev.clientX, ev.clientY);
@@ -1453,8 +1585,10 @@ export class TimelineManager {
       this.onChromeStorageChanged = (changes, areaName) => {
         if (areaName !== 'local') return;
         const starredChange = changes[StorageKeys.TIMELINE_STARRED_MESSAGES];
-        if (!starredChange) return;
-        this.applySharedStarredData(starredChange.newValue as StarredMessagesData | null);
+        if (starredChange) {
+          this.applySharedStarredData(starredChange.newValue as StarredMessagesData | null);
+        }
+        this.applySharedTimelineOutline(changes);
       };
       chrome.storage.onChanged.addListener(this.onChromeStorageChanged);
     }
@@ -1570,14 +1704,15 @@ export class TimelineManager {
       marker.dotElement?.classList.toggle('active', marker.id === this.activeTurnId);
     });
     this.previewPanel?.updateActiveTurn(this.activeTurnId);
+    eventBus.emit('timeline:changed', { conversationId: this.conversationId });
   }
 
   private static readonly SEARCH_HIGHLIGHT_CLASS = 'timeline-search-highlight';
 
   private clearSearchHighlights(): void {
     const cls = TimelineManager.SEARCH_HIGHLIGHT_CLASS;
-    const marks = this.conversationContainer?.querySelectorAll(`mark.${cls}`);
-    if (!marks) return;
+    // Responses may sit outside a narrowly scoped conversation container
+    const marks = document.querySelectorAll(`mark.${cls}`);
     marks.forEach((mark) => {
       const parent = mark.parentNode;
       if (!parent) return;
@@ -1586,32 +1721,66 @@ export class TimelineManager {
     });
   }
 
-  private highlightSearchInDOM(query: string): void {
+  /**
+   * Full text of the turn at a marker index: the user prompt and the response that follows it
+   */
+  private getTurnText(index: number): PreviewTurnText {
+    const marker = this.markers[index];
+    if (!marker?.element) return { user: marker?.summary ?? '', model: '' };
+    const response = findTurnResponseElement(
+      marker.element,
+      this.userTurnSelector,
+      this.conversationContainer,
+    );
+    return {
+      user: normalizeTurnText(marker.element.textContent) || marker.summary,
+      model: normalizeTurnText(response?.textContent),
+    };
+  }
+
+  private highlightSearchInDOM(
+    query: TimelineSearchQuery | null,
+    matches: ReadonlyArray<PreviewMarkerData>,
+  ): void {
     this.clearSearchHighlights();
-    if (!query || !this.conversationContainer) return;
-    const lowerQuery = query.toLowerCase();
-    for (const marker of this.markers) {
-      if (!marker.element) continue;
-      const walker = document.createTreeWalker(marker.element, NodeFilter.SHOW_TEXT);
-      const matches: { node: Text; index: number }[] = [];
-      let node: Text | null;
-      while ((node = walker.nextNode() as Text | null)) {
-        const idx = node.textContent?.toLowerCase().indexOf(lowerQuery) ?? -1;
-        if (idx !== -1) matches.push({ node, index: idx });
+    const pattern = query ? getTimelineSearchHighlightPattern(query) : null;
+    if (!query || !pattern || !this.conversationContainer) return;
+    for (const match of matches) {
+      const marker = this.markers[match.index];
+      if (!marker?.element) continue;
+      const roots: HTMLElement[] = [];
+      if (query.role !== 'model') roots.push(marker.element);
+      if (query.role !== 'user') {
+        const response = findTurnResponseElement(
+          marker.element,
+          this.userTurnSelector,
+          this.conversationContainer,
+        );
+        if (response) roots.push(response);
       }
-      // Process in reverse to keep offsets stable
-      for (let i = matches.length - 1; i >= 0; i--) {
-        const { node: textNode, index: matchIdx } = matches[i];
-        const after = textNode.splitText(matchIdx + query.length);
-        const matchText = textNode.splitText(matchIdx);
-        const mark = document.createElement('mark');
-        mark.className = TimelineManager.SEARCH_HIGHLIGHT_CLASS;
-        mark.textContent = matchText.textContent;
-        matchText.parentNode!.replaceChild(mark, matchText);
-        // keep reference to 'after' to avoid TS unused warning
-        void after;
+      roots.forEach((root) => this.highlightTextMatches(root, pattern));
+    }
+  }
+
+  private highlightTextMatches(root: HTMLElement, pattern: RegExp): void {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const matches: { node: Text; start: number; end: number }[] = [];
+    let node: Text | null;
+    while ((node = walker.nextNode() as Text | null)) {
+      for (const range of findHighlightRanges(node.textContent || '', pattern)) {
+        matches.push({ node, ...range });
       }
     }
+    // Process in reverse to keep offsets stable
+    for (let i = matches.length - 1; i >= 0; i--) {
+      const { node: textNode, start, end } = matches[i];
+      textNode.splitText(end);
+      const matchText = textNode.splitText(start);
+      const mark = document.createElement('mark');
+      mark.className = TimelineManager.SEARCH_HIGHLIGHT_CLASS;
+      mark.textContent = matchText.textContent;
+      matchText.parentNode!.replaceChild(mark, matchText);
+    }
   }
 
   /**
@@ -1942,6 +2111,7 @@ export class TimelineManager {
         this.lastActiveChangeTime = now;
       }
     }
+    this.scheduleReadingPositionSave();
   }
 
   private syncTimelineTrackToMain(): void {
@@ -2042,7 +2212,7 @@ export class TimelineManager {
         dot.className = 'timeline-dot';
         dot.dataset.targetTurnId = marker.id;
         dot.dataset.markerIndex = String(i);
-        dot.setAttribute('aria-label', marker.summary);
+        dot.setAttribute('aria-label', this.getMarkerDisplayText(marker));
         dot.setAttribute('tabindex', '0');
         dot.setAttribute('aria-describedby', 'gemini-timeline-tooltip');
         dot.style.setProperty('--n', String(marker.n || 0));
@@ -2055,6 +2225,8 @@ export class TimelineManager {
         // Apply marker level
         const level = this.getMarkerLevel(marker.id);
         dot.setAttribute('data-level', String(level));
+        this.applyAnnotationColor(dot, marker.id);
+        this.applyMinimapProfile(dot, marker.profile);
         marker.dotElement = dot;
         frag.appendChild(dot);
       } else {
@@ -2065,9 +2237,12 @@ export class TimelineManager {
         marker.dotElement.classList.toggle('collapsed', isCollapsed);
         marker.dotElement.setAttribute('aria-pressed', marker.starred ? 'true' : 'false');
         marker.dotElement.setAttribute('aria-expanded', isCollapsed ? 'false' : 'true');
+        marker.dotElement.setAttribute('aria-label', this.getMarkerDisplayText(marker));
         // Apply marker level
         const level = this.getMarkerLevel(marker.id);
         marker.dotElement.setAttribute('data-level', String(level));
+        this.applyAnnotationColor(marker.dotElement, marker.id);
+        this.applyMinimapProfile(marker.dotElement, marker.profile);
       }
     }
     if (localVersion !== this.markersVersion) return;
@@ -2183,6 +2358,77 @@ export class TimelineManager {
     // Trigger re-layout to show/hide collapsed states
     this.updateTimelineGeometry();
     this.updateVirtualRangeAndRender();
+    this.updatePreviewMarkers();
+  }
+
+  private toggleMinimap(enabled: boolean): void {
+    if (this.minimapEnabled === enabled) return;
+    this.minimapEnabled = enabled;
+    this.ui.timelineBar?.classList.toggle('timeline-minimap', enabled);
+    if (!enabled) this.responseProfileCache.clear();
+    // Profiles are gathered while the markers are rebuilt
+    this.recalculateAndRenderMarkers();
+  }
+
+  /**
+   * Combine the prompt with its response into the profile shown by the minimap.
+   * The response is re-read only when its size changes (e.g. while streaming).
+   */
+  private buildTurnProfile(
+    id: string,
+    element: HTMLElement,
+    summary: string,
+    kinds: Set<TurnContentKind>,
+  ): TurnProfile {
+    const response = findTurnResponseElement(
+      element,
+      this.userTurnSelector,
+      this.conversationContainer,
+    );
+    const signature = response
+      ? `${response.textContent?.length ?? 0}:${response.getElementsByTagName('*').length}`
+      : '';
+    let cached = this.responseProfileCache.get(id);
+    if (!cached || cached.signature !== signature) {
+      const responseKinds = new Set<TurnContentKind>();
+      const length = this.extractTurnText(response, responseKinds).length;
+      cached = { signature, length, kinds: Array.from(responseKinds) };
+      this.responseProfileCache.set(id, cached);
+    }
+    cached.kinds.forEach((kind) => kinds.add(kind));
+    return {
+      length: summary.length + cached.length,
+      kinds: TURN_CONTENT_KINDS.filter((kind) => kinds.has(kind)),
+    };
+  }
+
+  /** Size a dot by its turn length and show glyphs for the rich content of the turn */
+  private applyMinimapProfile(dot: DotElement, profile: TurnProfile | null): void {
+    const existing = dot.querySelector('.timeline-dot-glyphs');
+    if (!this.minimapEnabled || !profile) {
+      dot.removeAttribute('data-size');
+      delete dot.dataset.contentKinds;
+      existing?.remove();
+      return;
+    }
+    dot.setAttribute('data-size', String(getTurnSizeBucket(profile.length)));
+    const kinds = profile.kinds.join(' ');
+    if (dot.dataset.contentKinds === kinds) return;
+    dot.dataset.contentKinds = kinds;
+    existing?.remove();
+    if (profile.kinds.length === 0) return;
+
+    const glyphs = document.createElement('span');
+    glyphs.className = 'timeline-dot-glyphs';
+    glyphs.setAttribute('aria-hidden', 'true');
+    profile.kinds.forEach((kind) => {
+      const glyph = document.createElement('span');
+      glyph.className = 'timeline-dot-glyph google-symbols';
+      glyph.dataset.kind = kind;
+      glyph.textContent = MINIMAP_GLYPH_ICONS[kind];
+      glyphs.appendChild(glyph);
+    });
+    dot.appendChild(glyphs);
   }
 
   private handleBarDrag(e: PointerEvent): void {
@@ -2340,6 +2586,12 @@ export class TimelineManager {
       const m = this.markerMap.get(id);
       if (m) {
         const conversationTitle = this.getConversationTitle();
+        const response = findTurnResponseElement(
+          m.element,
+          this.userTurnSelector,
+          this.conversationContainer,
+        );
+        const text = captureTurnContent(m.element, response);
         const message: StarredMessage = {
           turnId: id,
           content: m.summary,
@@ -2347,6 +2599,8 @@ export class TimelineManager {
           conversationUrl: window.location.href,
           conversationTitle,
           starredAt: Date.now(),
+          userText: text.user,
+          ...(text.model ? { responseText: text.model } : {}),
         };
         await StarredMessagesService.addStarredMessage(message);
       }
@@ -2366,6 +2620,7 @@ export class TimelineManager {
         }
       }
     });
+    eventBus.emit('timeline:changed', { conversationId: this.conversationId });
   }
 
   /**
@@ -2400,74 +2655,316 @@ export class TimelineManager {
 
   // ===== Marker Level Methods =====
 
-  private getLevelsStorageKey(): string | null {
-    return this.conversationId ? `geminiTimelineLevels:${this.conversationId}` : null;
-  }
-
-  /* Load marker levels from localStorage */
-  private loadMarkerLevels(): void {
+  /* Load marker levels and collapsed markers, migrating entries left in page localStorage */
+  private async loadTimelineOutline(): Promise<void> {
     this.markerLevels.clear();
-    const key = this.getLevelsStorageKey();
-    if (!key) return;
-
-    const raw = this.safeLocalStorageGet(key);
-    if (!raw) return;
+    this.collapsedMarkers.clear();
+    const conversationId = this.conversationId;
+    if (!conversationId) return;
 
+    const outline = await TimelineOutlineService.getForConversation(conversationId);
+    let legacy: ConversationTimelineOutline | null = null;
     try {
-      const obj = JSON.parse(raw);
-      if (obj && typeof obj === 'object') {
-        Object.entries(obj).forEach(([turnId, level]) => {
-          if (typeof level === 'number' && level >= 1 && level <= 4) {
-            this.markerLevels.set(turnId, level as MarkerLevel);
-          }
-        });
-      }
+      legacy = readLegacyTimelineOutline(localStorage, conversationId);
     } catch (error) {
-      console.warn('[Timeline] Failed to parse marker levels:', error);
+      console.warn('[Timeline] Failed to read legacy timeline outline:', error);
+    }
+
+    if (legacy && outline) {
+      // Entries already in extension storage (e.g. from sync) win over the local copy
+      let migrated = true;
+      if (legacy.levels && !outline.levels) {
+        outline.levels = legacy.levels;
+        migrated =
+          (await TimelineOutlineService.setMarkerLevels(conversationId, legacy.levels.levels)) &&
+          migrated;
+      }
+      if (legacy.collapsed && !outline.collapsed) {
+        outline.collapsed = legacy.collapsed;
+        migrated =
+          (await TimelineOutlineService.setCollapsedMarkers(
+            conversationId,
+            legacy.collapsed.turnIds,
+          )) && migrated;
+      }
+      if (migrated) {
+        try {
+          removeLegacyTimelineOutline(localStorage, conversationId);
+        } catch {}
+      }
     }
+
+    const current = outline ?? legacy;
+    Object.entries(current?.levels?.levels ?? {}).forEach(([turnId, level]) => {
+      this.markerLevels.set(turnId, level);
+    });
+    (current?.collapsed?.turnIds ?? []).forEach((turnId) => this.collapsedMarkers.add(turnId));
+  }
+
+  /* Apply outline changes saved by another tab or a sync download */
+  private applySharedTimelineOutline(changes: Record<string, chrome.storage.StorageChange>): void {
+    const conversationId = this.conversationId;
+    if (!conversationId) return;
+    const levelsChange = changes[StorageKeys.TIMELINE_MARKER_LEVELS];
+    const collapsedChange = changes[StorageKeys.TIMELINE_COLLAPSED_MARKERS];
+    if (!levelsChange && !collapsedChange) return;
+
+    const data = normalizeTimelineOutline(levelsChange?.newValue, collapsedChange?.newValue);
+    if (levelsChange) {
+      this.markerLevels = new Map(Object.entries(data.levels[conversationId]?.levels ?? {}));
+    }
+    if (collapsedChange) {
+      this.collapsedMarkers = new Set(data.collapsed[conversationId]?.turnIds ?? []);
+    }
+    this.updateTimelineGeometry();
+    this.updateVirtualRangeAndRender();
+    this.updatePreviewMarkers();
   }
 
-  /* Save marker levels to localStorage */
   private saveMarkerLevels(): void {
-    const key = this.getLevelsStorageKey();
-    if (!key) return;
+    if (!this.conversationId) return;
+    void TimelineOutlineService.setMarkerLevels(
+      this.conversationId,
+      Object.fromEntries(this.markerLevels),
+    );
+  }
 
-    const obj: Record<string, MarkerLevel> = {};
-    this.markerLevels.forEach((level, turnId) => {
-      obj[turnId] = level;
-    });
+  // ===== Reading Position Methods =====
+
+  private async loadReadingPosition(): Promise<void> {
+    const conversationId = this.conversationId;
+    // A starred message link already decides where the conversation opens
+    if (conversationId && !window.location.hash.startsWith('#gv-turn-')) {
+      this.pendingReadingPosition = await getReadingPosition(conversationId);
+      this.lastSavedReadingTurnId = this.pendingReadingPosition?.turnId ?? null;
+    }
+    this.readingPositionReady = true;
+    if (this.pendingReadingPosition) {
+      // The saved turn may have been deleted or never load; stop waiting for it
+      this.readingPositionOfferTimer = window.setTimeout(() => {
+        this.readingPositionOfferTimer = null;
+        if (!this.resumeChip) this.resolveReadingPosition();
+      }, 10000);
+    }
+    this.offerReadingPosition();
+  }
+
+  /* Resume or offer the saved position once its turn has been rendered */
+  private offerReadingPosition(): void {
+    const position = this.pendingReadingPosition;
+    if (!position || this.resumeChip) return;
+    const marker = this.markerMap.get(position.turnId);
+    // Older turns may still be loading; try again after the next rebuild
+    if (!marker) return;
+    this.clearReadingPositionOfferTimer();
+    if (marker === this.markers[this.markers.length - 1]) {
+      this.resolveReadingPosition();
+      return;
+    }
+    if (this.autoResumeReading) {
+      this.resumeReadingPosition();
+    } else {
+      this.showResumeChip();
+    }
+  }
 
-    this.safeLocalStorageSet(key, JSON.stringify(obj));
+  private resumeReadingPosition(): void {
+    const turnId = this.pendingReadingPosition?.turnId;
+    const marker = turnId ? this.markerMap.get(turnId) : undefined;
+    this.resolveReadingPosition();
+    if (!marker) return;
+    this.activeTurnId = marker.id;
+    this.updateActiveDotUI();
+    this.smoothScrollTo(marker.element, 600);
   }
 
-  // ===== Collapsed Markers Methods =====
+  /* Drop the saved position and its chip */
+  private resolveReadingPosition(): void {
+    this.pendingReadingPosition = null;
+    this.clearReadingPositionOfferTimer();
+    this.hideResumeChip();
+    this.scheduleReadingPositionSave();
+  }
 
-  private getCollapsedStorageKey(): string | null {
-    return this.conversationId ? `geminiTimelineCollapsed:${this.conversationId}` : null;
+  private clearReadingPositionOfferTimer(): void {
+    if (this.readingPositionOfferTimer) {
+      clearTimeout(this.readingPositionOfferTimer);
+      this.readingPositionOfferTimer = null;
+    }
   }
 
-  private loadCollapsedMarkers(): void {
-    this.collapsedMarkers.clear();
-    const key = this.getCollapsedStorageKey();
-    if (!key) return;
+  private showResumeChip(): void {
+    const chip = document.createElement('div');
+    chip.className = 'timeline-resume-chip';
+    chip.setAttribute('role', 'status');
 
-    const raw = this.safeLocalStorageGet(key);
-    if (!raw) return;
+    const resume = document.createElement('button');
+    resume.type = 'button';
+    resume.className = 'timeline-resume-chip-action';
+    const icon = document.createElement('span');
+    icon.className = 'google-symbols';
+    icon.setAttribute('aria-hidden', 'true');
+    icon.textContent = 'history';
+    const label = document.createElement('span');
+    label.textContent = getTranslationSync('timelineResumeReading');
+    resume.append(icon, label);
+    resume.addEventListener('click', () => this.resumeReadingPosition());
+
+    const dismiss = document.createElement('button');
+    dismiss.type = 'button';
+    dismiss.className = 'timeline-resume-chip-close';
+    dismiss.setAttribute('aria-label', getTranslationSync('timelineResumeDismiss'));
+    dismiss.textContent = '×';
+    dismiss.addEventListener('click', () => this.resolveReadingPosition());
+
+    chip.append(resume, dismiss);
+    document.body.appendChild(chip);
+    this.resumeChip = chip;
+    this.resumeChipTimer = window.setTimeout(() => this.resolveReadingPosition(), 15000);
+  }
+
+  private hideResumeChip(): void {
+    if (this.resumeChipTimer) {
+      clearTimeout(this.resumeChipTimer);
+      this.resumeChipTimer = null;
+    }
+    this.resumeChip?.remove();
+    this.resumeChip = null;
+  }
+
+  /* Save the active turn once scrolling settles, also while the saved one is on offer */
+  private scheduleReadingPositionSave(): void {
+    if (!this.readingPositionReady) return;
+    if (this.readingPositionSaveTimer) clearTimeout(this.readingPositionSaveTimer);
+    this.readingPositionSaveTimer = window.setTimeout(() => {
+      this.readingPositionSaveTimer = null;
+      this.saveReadingPositionNow();
+    }, 1000);
+  }
+
+  private saveReadingPositionNow(): void {
+    const conversationId = this.conversationId;
+    const turnId = this.activeTurnId;
+    if (!conversationId || !turnId || turnId === this.lastSavedReadingTurnId) return;
+    this.lastSavedReadingTurnId = turnId;
+    void saveReadingPosition(conversationId, turnId);
+  }
+
+  // ===== Annotation Methods =====
 
+  private async loadAnnotations(): Promise<void> {
+    this.annotations.clear();
+    if (!this.conversationId) return;
     try {
-      const arr = JSON.parse(raw);
-      if (Array.isArray(arr)) {
-        arr.forEach((id: unknown) => this.collapsedMarkers.add(String(id)));
-      }
+      const annotations = await StarredMessagesService.getAnnotationsForConversation(
+        this.conversationId,
+      );
+      this.applyAnnotations(parseTurnAnnotations(annotations));
     } catch (error) {
-      console.warn('[Timeline] Failed to parse collapsed markers:', error);
+      console.warn('[Timeline] Failed to load turn annotations:', error);
+    }
+  }
+
+  private areAnnotationsEqual(
+    a: Map<string, TurnAnnotation>,
+    b: Map<string, TurnAnnotation>,
+  ): boolean {
+    if (a.size !== b.size) return false;
+    for (const [turnId, annotation] of a) {
+      const other = b.get(turnId);
+      if (!other || other.label !== annotation.label || other.color !== annotation.color) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private applyAnnotations(next: Map<string, TurnAnnotation>): void {
+    if (this.areAnnotationsEqual(this.annotations, next)) return;
+    this.annotations = next;
+    this.refreshAnnotationUI();
+  }
+
+  /** Text shown for a turn in the tooltip and preview list: its label, else its summary */
+  private getMarkerDisplayText(marker: { id: string; summary: string }): string {
+    return this.annotations.get(marker.id)?.label || marker.summary;
+  }
+
+  private applyAnnotationColor(dot: DotElement, turnId: string): void {
+    const color = this.annotations.get(turnId)?.color;
+    if (color) {
+      dot.setAttribute('data-annotation-color', color);
+    } else {
+      dot.removeAttribute('data-annotation-color');
+    }
+  }
+
+  /** Annotation colours used by the turns of this conversation, in palette order */
+  private getAnnotationColorsInUse(): TurnAnnotationColor[] {
+    const used = new Set<TurnAnnotationColor>();
+    this.markers.forEach((marker) => {
+      const color = this.annotations.get(marker.id)?.color;
+      if (color) used.add(color);
+    });
+    return TURN_ANNOTATION_COLORS.filter((color) => used.has(color));
+  }
+
+  private refreshAnnotationUI(): void {
+    // Drop a filter that would leave the track empty
+    if (
+      this.annotationColorFilter &&
+      !this.getAnnotationColorsInUse().includes(this.annotationColorFilter)
+    ) {
+      this.annotationColorFilter = null;
+    }
+    if (this.ui.timelineBar) {
+      if (this.annotationColorFilter) {
+        this.ui.timelineBar.setAttribute('data-annotation-color', this.annotationColorFilter);
+      } else {
+        this.ui.timelineBar.removeAttribute('data-annotation-color');
+      }
+    }
+    this.updateTimelineGeometry();
+    this.updateVirtualRangeAndRender();
+    this.updatePreviewMarkers();
+    if (this.ui.tooltip?.classList.contains('visible')) {
+      const currentDot = this.ui.timelineBar?.querySelector(
+        '.timeline-dot:hover, .timeline-dot:focus',
+      ) as DotElement | null;
+      if (currentDot) this.refreshTooltipForDot(currentDot);
     }
   }
 
+  private async setTurnAnnotation(
+    turnId: string,
+    label: string,
+    color: TurnAnnotationColor | null,
+  ): Promise<void> {
+    if (!this.conversationId) return;
+    const annotation = createTurnAnnotation(label, color);
+    const next = new Map(this.annotations);
+    if (annotation) {
+      next.set(turnId, annotation);
+    } else {
+      next.delete(turnId);
+    }
+    this.applyAnnotations(next);
+    await StarredMessagesService.setTurnAnnotation(this.conversationId, turnId, annotation);
+  }
+
+  private setAnnotationColorFilter(color: TurnAnnotationColor | null): void {
+    this.annotationColorFilter = color;
+    this.refreshAnnotationUI();
+  }
+
+  // ===== Collapsed Markers Methods =====
+
   private saveCollapsedMarkers(): void {
-    const key = this.getCollapsedStorageKey();
-    if (!key) return;
-    this.safeLocalStorageSet(key, JSON.stringify(Array.from(this.collapsedMarkers)));
+    if (!this.conversationId) return;
+    void TimelineOutlineService.setCollapsedMarkers(
+      this.conversationId,
+      Array.from(this.collapsedMarkers),
+    );
   }
 
   private isMarkerCollapsed(turnId: string): boolean {
@@ -2488,7 +2985,15 @@ export class TimelineManager {
   private getHiddenMarkerIndices(): Set<number> {
     const hidden = new Set<number>();
 
-    // If marker level feature is disabled, no markers are hidden
+    // The colour filter hides every dot of another colour
+    const colorFilter = this.annotationColorFilter;
+    if (colorFilter) {
+      this.markers.forEach((marker, i) => {
+        if (this.annotations.get(marker.id)?.color !== colorFilter) hidden.add(i);
+      });
+    }
+
+    // If marker level feature is disabled, no markers are collapsed
     if (!this.markerLevelEnabled) {
       return hidden;
     }
@@ -2637,98 +3142,111 @@ export class TimelineManager {
         marker.dotElement.setAttribute('data-level', String(level));
       }
     });
+    this.updatePreviewMarkers();
   }
 
-  private showContextMenu(dot: DotElement, x: number, y: number): void {
+  private showContextMenu(dot: DotElement | null, x: number, y: number): void {
     this.hideContextMenu();
 
-    const turnId = dot.dataset.targetTurnId;
-    if (!turnId) return;
-
-    const currentLevel = this.getMarkerLevel(turnId);
-    const isCollapsed = this.isMarkerCollapsed(turnId);
-    const canCollapse = this.canCollapseMarker(turnId);
+    const turnId = dot?.dataset.targetTurnId;
+    if (dot && !turnId) return;
 
     const menu = document.createElement('div');
     menu.className = 'timeline-context-menu';
 
-    const title = document.createElement('div');
-    title.className = 'timeline-context-menu-title';
-    title.textContent = getTranslationSync('timelineLevelTitle');
-    menu.appendChild(title);
-
-    const levels: { level: MarkerLevel; label: string }[] = [
-      { level: 1, label: getTranslationSync('timelineLevel1') },
-      { level: 2, label: getTranslationSync('timelineLevel2') },
-      { level: 3, label: getTranslationSync('timelineLevel3') },
-    ];
-
-    levels.forEach(({ level, label }) => {
-      const item = document.createElement('button');
-      item.className = 'timeline-context-menu-item';
-      if (level === currentLevel) {
-        item.classList.add('active');
-      }
-      item.setAttribute('data-level', String(level));
-
-      const indicator = document.createElement('span');
-      indicator.className = 'level-indicator';
-      const dotEl = document.createElement('span');
-      dotEl.className = 'level-dot';
-      indicator.appendChild(dotEl);
-      item.appendChild(indicator);
-
-      const labelSpan = document.createElement('span');
-      labelSpan.textContent = label;
-      item.appendChild(labelSpan);
-
-      if (level === currentLevel) {
-        const check = document.createElement('span');
-        check.className = 'check-icon';
-        check.textContent = '✓';
-        item.appendChild(check);
-      }
+    if (turnId) {
+      this.appendAnnotationMenuSection(menu, turnId);
+    }
 
-      item.addEventListener('click', (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        this.setMarkerLevel(turnId, level);
-        this.hideContextMenu();
-      });
+    if (turnId && this.markerLevelEnabled) {
+      const currentLevel = this.getMarkerLevel(turnId);
+      const isCollapsed = this.isMarkerCollapsed(turnId);
+      const canCollapse = this.canCollapseMarker(turnId);
 
-      menu.appendChild(item);
-    });
+      const levelSeparator = document.createElement('div');
+      levelSeparator.className = 'timeline-context-menu-separator';
+      menu.appendChild(levelSeparator);
 
-    if (canCollapse || isCollapsed) {
-      // Add separator
-      const separator = document.createElement('div');
-      separator.className = 'timeline-context-menu-separator';
-      menu.appendChild(separator);
+      const title = document.createElement('div');
+      title.className = 'timeline-context-menu-title';
+      title.textContent = getTranslationSync('timelineLevelTitle');
+      menu.appendChild(title);
 
-      const collapseItem = document.createElement('button');
-      collapseItem.className = 'timeline-context-menu-item collapse-item';
+      const levels: { level: MarkerLevel; label: string }[] = [
+        { level: 1, label: getTranslationSync('timelineLevel1') },
+        { level: 2, label: getTranslationSync('timelineLevel2') },
+        { level: 3, label: getTranslationSync('timelineLevel3') },
+      ];
 
-      const icon = document.createElement('span');
-      icon.className = 'collapse-icon';
-      icon.textContent = isCollapsed ? '▶' : '▼';
-      collapseItem.appendChild(icon);
+      levels.forEach(({ level, label }) => {
+        const item = document.createElement('button');
+        item.className = 'timeline-context-menu-item';
+        if (level === currentLevel) {
+          item.classList.add('active');
+        }
+        item.setAttribute('data-level', String(level));
+
+        const indicator = document.createElement('span');
+        indicator.className = 'level-indicator';
+        const dotEl = document.createElement('span');
+        dotEl.className = 'level-dot';
+        indicator.appendChild(dotEl);
+        item.appendChild(indicator);
+
+        const labelSpan = document.createElement('span');
+        labelSpan.textContent = label;
+        item.appendChild(labelSpan);
+
+        if (level === currentLevel) {
+          const check = document.createElement('span');
+          check.className = 'check-icon';
+          check.textContent = '✓';
+          item.appendChild(check);
+        }
 
-      const collapseLabel = document.createElement('span');
-      collapseLabel.textContent = isCollapsed
-        ? getTranslationSync('timelineExpand')
-        : getTranslationSync('timelineCollapse');
-      collapseItem.appendChild(collapseLabel);
+        item.addEventListener('click', (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          this.setMarkerLevel(turnId, level);
+          this.hideContextMenu();
+        });
 
-      collapseItem.addEventListener('click', (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        this.toggleCollapse(turnId);
-        this.hideContextMenu();
+        menu.appendChild(item);
       });
 
-      menu.appendChild(collapseItem);
+      if (canCollapse || isCollapsed) {
+        // Add separator
+        const separator = document.createElement('div');
+        separator.className = 'timeline-context-menu-separator';
+        menu.appendChild(separator);
+
+        const collapseItem = document.createElement('button');
+        collapseItem.className = 'timeline-context-menu-item collapse-item';
+
+        const icon = document.createElement('span');
+        icon.className = 'collapse-icon';
+        icon.textContent = isCollapsed ? '▶' : '▼';
+        collapseItem.appendChild(icon);
+
+        const collapseLabel = document.createElement('span');
+        collapseLabel.textContent = isCollapsed
+          ? getTranslationSync('timelineExpand')
+          : getTranslationSync('timelineCollapse');
+        collapseItem.appendChild(collapseLabel);
+
+        collapseItem.addEventListener('click', (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          this.toggleCollapse(turnId);
+          this.hideContextMenu();
+        });
+
+        menu.appendChild(collapseItem);
+      }
     }
 
+    this.appendColorFilterMenuSection(menu);
+
     const vw = window.innerWidth;
     const vh = window.innerHeight;
     document.body.appendChild(menu);
@@ -2753,6 +3271,125 @@ export class TimelineManager {
     this.contextMenu = menu;
   }
 
+  private createColorSwatch(
+    color: TurnAnnotationColor,
+    active: boolean,
+    onSelect: () => void,
+  ): HTMLButtonElement {
+    const swatch = document.createElement('button');
+    swatch.className = 'timeline-color-swatch';
+    swatch.classList.toggle('active', active);
+    swatch.setAttribute('data-annotation-color', color);
+    swatch.setAttribute('aria-pressed', active ? 'true' : 'false');
+    const name = getTranslationSync(ANNOTATION_COLOR_LABEL_KEYS[color]);
+    swatch.setAttribute('aria-label', name);
+    swatch.title = name;
+    swatch.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      onSelect();
+      this.hideContextMenu();
+    });
+    return swatch;
+  }
+
+  /** Label input, colour swatches and a clear action for one turn */
+  private appendAnnotationMenuSection(menu: HTMLElement, turnId: string): void {
+    const annotation = this.annotations.get(turnId);
+
+    const title = document.createElement('div');
+    title.className = 'timeline-context-menu-title';
+    title.textContent = getTranslationSync('timelineAnnotationTitle');
+    menu.appendChild(title);
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'timeline-context-menu-input';
+    input.maxLength = MAX_ANNOTATION_LABEL_LENGTH;
+    input.placeholder = getTranslationSync('timelineAnnotationPlaceholder');
+    input.value = annotation?.label ?? '';
+    input.addEventListener('keydown', (e) => {
+      // Keep Gemini and the timeline shortcuts from reacting to typing
+      e.stopPropagation();
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        void this.setTurnAnnotation(turnId, input.value, annotation?.color ?? null);
+        this.hideContextMenu();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        this.hideContextMenu();
+      }
+    });
+    menu.appendChild(input);
+
+    const colors = document.createElement('div');
+    colors.className = 'timeline-context-menu-colors';
+    TURN_ANNOTATION_COLORS.forEach((color) => {
+      const active = annotation?.color === color;
+      colors.appendChild(
+        this.createColorSwatch(color, active, () => {
+          void this.setTurnAnnotation(turnId, input.value, active ? null : color);
+        }),
+      );
+    });
+    menu.appendChild(colors);
+
+    if (annotation) {
+      const clearItem = document.createElement('button');
+      clearItem.className = 'timeline-context-menu-item';
+      clearItem.textContent = getTranslationSync('timelineAnnotationClear');
+      clearItem.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        void this.setTurnAnnotation(turnId, '', null);
+        this.hideContextMenu();
+      });
+      menu.appendChild(clearItem);
+    }
+  }
+
+  /** Swatches of the colours in use, to show only the dots of one colour */
+  private appendColorFilterMenuSection(menu: HTMLElement): void {
+    const colorsInUse = this.getAnnotationColorsInUse();
+    if (colorsInUse.length === 0) return;
+
+    if (menu.childElementCount > 0) {
+      const separator = document.createElement('div');
+      separator.className = 'timeline-context-menu-separator';
+      menu.appendChild(separator);
+    }
+
+    const title = document.createElement('div');
+    title.className = 'timeline-context-menu-title';
+    title.textContent = getTranslationSync('timelineColorFilterTitle');
+    menu.appendChild(title);
+
+    const colors = document.createElement('div');
+    colors.className = 'timeline-context-menu-colors';
+    colorsInUse.forEach((color) => {
+      const active = this.annotationColorFilter === color;
+      colors.appendChild(
+        this.createColorSwatch(color, active, () => {
+          this.setAnnotationColorFilter(active ? null : color);
+        }),
+      );
+    });
+    menu.appendChild(colors);
+
+    if (this.annotationColorFilter) {
+      const showAllItem = document.createElement('button');
+      showAllItem.className = 'timeline-context-menu-item';
+      showAllItem.textContent = getTranslationSync('timelineColorFilterShowAll');
+      showAllItem.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.setAnnotationColorFilter(null);
+        this.hideContextMenu();
+      });
+      menu.appendChild(showAllItem);
+    }
+  }
+
   private hideContextMenu(): void {
     if (this.contextMenu) {
       this.contextMenu.remove();
@@ -2780,14 +3417,23 @@ export class TimelineManager {
     try {
       await keyboardShortcutService.init();
 
-      // Register shortcut handler with queue support
-      this.shortcutUnsubscribe = keyboardShortcutService.on((action, event) => {
-        if (action === 'timeline:previous') {
-          this.enqueueNavigation('previous', event.repeat);
-        } else if (action === 'timeline:next') {
-          this.enqueueNavigation('next', event.repeat);
-        }
-      });
+      // Register shortcut handlers; previous/next use the queue to support rapid key presses
+      const unregisters = [
+        keyboardShortcutService.register('timeline:previous', (event) =>
+          this.enqueueNavigation('previous', event.repeat),
+        ),
+        keyboardShortcutService.register('timeline:next', (event) =>
+          this.enqueueNavigation('next', event.repeat),
+        ),
+        keyboardShortcutService.register('timeline:top', () => this.navigateToEdgeNode('top')),
+        keyboardShortcutService.register('timeline:bottom', () =>
+          this.navigateToEdgeNode('bottom'),
+        ),
+        keyboardShortcutService.register('timeline:toggleStar', () => {
+          if (this.activeTurnId) void this.toggleStar(this.activeTurnId);
+        }),
+      ];
+      this.shortcutUnsubscribe = () => unregisters.forEach((unregister) => unregister());
     } catch (error) {
       console.warn('[Timeline] Failed to initialize keyboard shortcuts:', error);
     }
@@ -2972,6 +3618,16 @@ export class TimelineManager {
     await this.performNodeNavigation(targetIndex, currentIndex);
   }
 
+  /**
+   * Navigate to the first or last timeline node (g / Shift+G or custom shortcut)
+   */
+  private navigateToEdgeNode(edge: 'top' | 'bottom'): void {
+    if (this.markers.length === 0 || this.isNavigating) return;
+
+    const targetIndex = edge === 'top' ? 0 : this.markers.length - 1;
+    void this.performNodeNavigation(targetIndex, this.getActiveIndex());
+  }
+
   private maybeRefreshMarkersForNavigation(direction: 'previous' | 'next'): void {
     if (!this.userTurnSelector) return;
 
@@ -3111,7 +3767,53 @@ export class TimelineManager {
     }
   }
 
+  /**
+   * Snapshot of the timeline mirrored by the browser side panel
+   */
+  getSidePanelTimeline(): SidePanelTimeline | null {
+    if (!this.conversationId) return null;
+    return {
+      conversationId: this.conversationId,
+      turns: this.markers.map((marker, index) => ({
+        id: marker.id,
+        index,
+        text: this.getMarkerDisplayText(marker),
+        starred: marker.starred,
+        level: this.markerLevelEnabled ? this.getMarkerLevel(marker.id) : 1,
+      })),
+      activeTurnId: this.activeTurnId,
+      levelsEnabled: this.markerLevelEnabled,
+    };
+  }
+
+  navigateToTurn(turnId: string): void {
+    const index = this.markers.findIndex((marker) => marker.id === turnId);
+    if (index === -1 || this.isNavigating) return;
+    void this.performNodeNavigation(index, this.getActiveIndex());
+  }
+
+  async toggleTurnStar(turnId: string): Promise<void> {
+    if (!this.markerMap.has(turnId)) return;
+    await this.toggleStar(turnId);
+  }
+
+  setTurnLevel(turnId: string, level: MarkerLevel): void {
+    if (!this.markerLevelEnabled || !this.markerMap.has(turnId)) return;
+    this.setMarkerLevel(turnId, level);
+  }
+
   destroy(): void {
+    // Keep the position reached before leaving the conversation
+    if (this.readingPositionSaveTimer) {
+      clearTimeout(this.readingPositionSaveTimer);
+      this.readingPositionSaveTimer = null;
+      this.saveReadingPositionNow();
+    }
+    this.clearReadingPositionOfferTimer();
+    this.hideResumeChip();
+    this.pendingReadingPosition = null;
+    this.readingPositionReady = false;
+
     // Cleanup keyboard shortcuts
     if (this.shortcutUnsubscribe) {
       try {
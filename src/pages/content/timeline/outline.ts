@@ -0,0 +1,110 @@
+/**
+ * Timeline outline helpers
+ * Marker levels and collapsed markers are kept in extension storage so they survive
+ * clearing site data and can be synced; older versions stored them in page localStorage.
+ */
+import type {
+  ConversationCollapsedMarkers,
+  ConversationMarkerLevels,
+  ConversationTimelineOutline,
+  TimelineOutlineData,
+} from './outlineTypes';
+import type { MarkerLevel } from './types';
+
+const LEGACY_LEVELS_KEY_PREFIX = 'geminiTimelineLevels:';
+const LEGACY_COLLAPSED_KEY_PREFIX = 'geminiTimelineCollapsed:';
+
+/**
+ * Valid non-default levels of a turnId -> level record
+ */
+export function normalizeMarkerLevels(raw: unknown): Record<string, MarkerLevel> {
+  const levels: Record<string, MarkerLevel> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return levels;
+  Object.entries(raw).forEach(([turnId, level]) => {
+    if (level === 2 || level === 3) levels[turnId] = level;
+  });
+  return levels;
+}
+
+export function normalizeCollapsedTurnIds(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return Array.from(new Set(raw.filter((id) => typeof id === 'string' && id.length > 0)));
+}
+
+function normalizeConversationLevels(raw: unknown): ConversationMarkerLevels | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Partial<ConversationMarkerLevels>;
+  if (typeof entry.updatedAt !== 'number') return null;
+  return { levels: normalizeMarkerLevels(entry.levels), updatedAt: entry.updatedAt };
+}
+
+function normalizeConversationCollapsed(raw: unknown): ConversationCollapsedMarkers | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Partial<ConversationCollapsedMarkers>;
+  if (typeof entry.updatedAt !== 'number') return null;
+  return { turnIds: normalizeCollapsedTurnIds(entry.turnIds), updatedAt: entry.updatedAt };
+}
+
+function normalizeRecord<T>(
+  raw: unknown,
+  normalizeEntry: (entry: unknown) => T | null,
+): Record<string, T> {
+  const result: Record<string, T> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return result;
+  Object.entries(raw).forEach(([conversationId, entry]) => {
+    const normalized = normalizeEntry(entry);
+    if (normalized) result[conversationId] = normalized;
+  });
+  return result;
+}
+
+/**
+ * Outline data read from storage or a sync payload, with malformed entries dropped
+ */
+export function normalizeTimelineOutline(
+  rawLevels: unknown,
+  rawCollapsed: unknown,
+): TimelineOutlineData {
+  return {
+    levels: normalizeRecord(rawLevels, normalizeConversationLevels),
+    collapsed: normalizeRecord(rawCollapsed, normalizeConversationCollapsed),
+  };
+}
+
+/**
+ * Outline of a conversation as stored by versions that used page localStorage,
+ * or null when there is none
+ */
+export function readLegacyTimelineOutline(
+  storage: Storage,
+  conversationId: string,
+  now: number = Date.now(),
+): ConversationTimelineOutline | null {
+  const parse = (key: string): unknown => {
+    const raw = storage.getItem(key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  };
+
+  const rawLevels = parse(`${LEGACY_LEVELS_KEY_PREFIX}${conversationId}`);
+  const rawCollapsed = parse(`${LEGACY_COLLAPSED_KEY_PREFIX}${conversationId}`);
+  if (rawLevels === null && rawCollapsed === null) return null;
+
+  return {
+    levels:
+      rawLevels === null ? null : { levels: normalizeMarkerLevels(rawLevels), updatedAt: now },
+    collapsed:
+      rawCollapsed === null
+        ? null
+        : { turnIds: normalizeCollapsedTurnIds(rawCollapsed), updatedAt: now },
+  };
+}
+
+export function removeLegacyTimelineOutline(storage: Storage, conversationId: string): void {
+  storage.removeItem(`${LEGACY_LEVELS_KEY_PREFIX}${conversationId}`);
+  storage.removeItem(`${LEGACY_COLLAPSED_KEY_PREFIX}${conversationId}`);
+}
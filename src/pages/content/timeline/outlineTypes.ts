@@ -0,0 +1,33 @@
+/**
+ * Types for the timeline outline (marker levels and collapsed markers)
+ */
+import type { MarkerLevel } from './types';
+
+export interface ConversationMarkerLevels {
+  /** Map of turnId -> level; level 1 is the default and not stored */
+  levels: Record<string, MarkerLevel>;
+  /** Timestamp of the last change, used when merging synced data */
+  updatedAt: number;
+}
+
+export interface ConversationCollapsedMarkers {
+  /** Turn ids whose lower-level children are collapsed */
+  turnIds: string[];
+  /** Timestamp of the last change, used when merging synced data */
+  updatedAt: number;
+}
+
+export interface TimelineOutlineData {
+  /** Map of conversationId -> marker levels */
+  levels: Record<string, ConversationMarkerLevels>;
+  /** Map of conversationId -> collapsed markers */
+  collapsed: Record<string, ConversationCollapsedMarkers>;
+}
+
+/**
+ * Outline of a single conversation; null parts were never saved
+ */
+export interface ConversationTimelineOutline {
+  levels: ConversationMarkerLevels | null;
+  collapsed: ConversationCollapsedMarkers | null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Sites the timeline runs on
+ */
+export type TimelinePlatform = 'gemini' | 'aistudio';
+
+const AISTUDIO_HOSTS = new Set(['aistudio.google.com', 'aistudio.google.cn']);
+
+export function getTimelinePlatform(hostname = location.hostname): TimelinePlatform {
+  return AISTUDIO_HOSTS.has(hostname.toLowerCase()) ? 'aistudio' : 'gemini';
+}
+
+/**
+ * Whether a path shows a conversation the timeline can follow
+ */
+export function isTimelineConversationRoute(
+  platform: TimelinePlatform,
+  pathname = location.pathname,
+): boolean {
+  // AI Studio chats live under /prompts/<id> (and /prompts/new_chat before the first reply)
+  if (platform === 'aistudio') return /^\/prompts\/[^/]+/.test(pathname);
+  // Support account-scoped routes like /u/1/app or /u/0/gem/
+  // Matches: "/app", "/gem/", "/u/<num>/app", "/u/<num>/gem/"
+  return /^\/(?:u\/\d+\/)?(app|gem)(\/|$)/.test(pathname);
+}
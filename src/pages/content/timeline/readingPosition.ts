@@ -0,0 +1,70 @@
+/**
+ * Reading position memory
+ * Last active turn per conversation, kept in chrome.storage.local and pruned to the
+ * most recently read conversations so the stored record stays small.
+ */
+import { StorageKeys } from '@/core/types/common';
+
+export interface ReadingPosition {
+  turnId: string;
+  /** Timestamp of the last save, used to drop the least recently read conversations */
+  updatedAt: number;
+}
+
+/** Conversations whose reading position is kept */
+export const READING_POSITION_LIMIT = 200;
+
+/**
+ * Positions read from storage, with malformed entries dropped
+ */
+export function normalizeReadingPositions(raw: unknown): Record<string, ReadingPosition> {
+  const positions: Record<string, ReadingPosition> = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return positions;
+  Object.entries(raw).forEach(([conversationId, entry]) => {
+    if (!entry || typeof entry !== 'object') return;
+    const { turnId, updatedAt } = entry as Partial<ReadingPosition>;
+    if (typeof turnId !== 'string' || !turnId || typeof updatedAt !== 'number') return;
+    positions[conversationId] = { turnId, updatedAt };
+  });
+  return positions;
+}
+
+/**
+ * Positions with the given one set, keeping only the `limit` most recently updated
+ */
+export function rememberReadingPosition(
+  positions: Record<string, ReadingPosition>,
+  conversationId: string,
+  position: ReadingPosition,
+  limit = READING_POSITION_LIMIT,
+): Record<string, ReadingPosition> {
+  const entries = Object.entries({ ...positions, [conversationId]: position });
+  if (entries.length <= limit) return Object.fromEntries(entries);
+  entries.sort(([, a], [, b]) => b.updatedAt - a.updatedAt);
+  return Object.fromEntries(entries.slice(0, limit));
+}
+
+export async function getReadingPosition(conversationId: string): Promise<ReadingPosition | null> {
+  try {
+    const result = await chrome.storage.local.get(StorageKeys.TIMELINE_READING_POSITIONS);
+    const positions = normalizeReadingPositions(result?.[StorageKeys.TIMELINE_READING_POSITIONS]);
+    return positions[conversationId] ?? null;
+  } catch (error) {
+    console.warn('[Timeline] Failed to load reading position:', error);
+    return null;
+  }
+}
+
+export async function saveReadingPosition(conversationId: string, turnId: string): Promise<void> {
+  try {
+    const result = await chrome.storage.local.get(StorageKeys.TIMELINE_READING_POSITIONS);
+    const positions = rememberReadingPosition(
+      normalizeReadingPositions(result?.[StorageKeys.TIMELINE_READING_POSITIONS]),
+      conversationId,
+      { turnId, updatedAt: Date.now() },
+    );
+    await chrome.storage.local.set({ [StorageKeys.TIMELINE_READING_POSITIONS]: positions });
+  } catch (error) {
+    console.warn('[Timeline] Failed to save reading position:', error);
+  }
+}
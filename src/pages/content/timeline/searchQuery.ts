@@ -0,0 +1,223 @@
+/**
+ * Timeline search query syntax
+ * Supports `role:user`/`role:model`, `is:starred`, `level:1`-`level:3`, "quoted phrases"
+ * and /regex/ terms; remaining words are matched as case-insensitive substrings.
+ * All terms must match (AND); several `level:` filters match any of the levels.
+ */
+import type { MarkerLevel } from './types';
+
+export type TimelineSearchRole = 'user' | 'model';
+
+export type TimelineSearchTerm =
+  | { readonly type: 'text'; readonly value: string }
+  | { readonly type: 'regex'; readonly pattern: RegExp };
+
+export interface TimelineSearchQuery {
+  readonly role: TimelineSearchRole | null;
+  readonly starred: boolean;
+  readonly levels: readonly MarkerLevel[];
+  readonly terms: readonly TimelineSearchTerm[];
+}
+
+/** Searchable fields of one turn */
+export interface TimelineSearchTarget {
+  readonly userText: string;
+  readonly modelText: string;
+  /** Custom timeline label ('' when none), searched with the user side */
+  readonly label?: string;
+  readonly starred: boolean;
+  readonly level?: MarkerLevel;
+}
+
+const ROLE_ALIASES: Record<string, TimelineSearchRole> = {
+  user: 'user',
+  model: 'model',
+  assistant: 'model',
+  gemini: 'model',
+};
+
+const REGEX_TOKEN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Split a query into tokens, keeping quoted phrases and /regex/ literals (which may contain
+ * spaces) together. Quoted tokens keep their quotes so they are not read as filters.
+ */
+function tokenize(raw: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < raw.length) {
+    if (/\s/.test(raw[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (raw[i] === '"') {
+      const end = raw.indexOf('"', i + 1);
+      i = end === -1 ? raw.length : end + 1;
+    } else if (raw[i] === '/') {
+      // Find the closing unescaped slash, then consume any flags
+      let j = i + 1;
+      while (j < raw.length && raw[j] !== '/') {
+        j += raw[j] === '\\' ? 2 : 1;
+      }
+      if (j < raw.length) {
+        j++;
+        while (j < raw.length && /[a-z]/.test(raw[j])) j++;
+        i = j;
+      } else {
+        while (i < raw.length && !/\s/.test(raw[i])) i++;
+      }
+    } else {
+      while (i < raw.length && !/\s/.test(raw[i])) i++;
+    }
+    tokens.push(raw.slice(start, i));
+  }
+  return tokens;
+}
+
+function parseRegex(token: string): RegExp | null {
+  const match = REGEX_TOKEN.exec(token);
+  if (!match) return null;
+  // Search is case-insensitive throughout; only flags that affect matching are kept
+  const flags = Array.from(new Set(`${match[2]}i`.replace(/[^imsu]/g, ''))).join('');
+  try {
+    return new RegExp(match[1], flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a search query; returns null for a blank query
+ */
+export function parseTimelineSearchQuery(raw: string): TimelineSearchQuery | null {
+  let role: TimelineSearchRole | null = null;
+  let starred = false;
+  const levels: MarkerLevel[] = [];
+  const terms: TimelineSearchTerm[] = [];
+
+  for (const token of tokenize(raw)) {
+    if (token.startsWith('"')) {
+      const phrase = token.replace(/^"|"$/g, '').replace(/\s+/g, ' ').trim();
+      if (phrase) terms.push({ type: 'text', value: phrase.toLowerCase() });
+      continue;
+    }
+
+    const regex = token.length > 2 ? parseRegex(token) : null;
+    if (regex) {
+      terms.push({ type: 'regex', pattern: regex });
+      continue;
+    }
+
+    const filter = /^(role|is|level):(.+)$/i.exec(token);
+    if (filter) {
+      const key = filter[1].toLowerCase();
+      const value = filter[2].toLowerCase();
+      if (key === 'role' && ROLE_ALIASES[value]) {
+        role = ROLE_ALIASES[value];
+        continue;
+      }
+      if (key === 'is' && value === 'starred') {
+        starred = true;
+        continue;
+      }
+      if (key === 'level' && (value === '1' || value === '2' || value === '3')) {
+        const level = Number(value) as MarkerLevel;
+        if (!levels.includes(level)) levels.push(level);
+        continue;
+      }
+    }
+
+    terms.push({ type: 'text', value: token.toLowerCase() });
+  }
+
+  if (!role && !starred && levels.length === 0 && terms.length === 0) return null;
+  return { role, starred, levels, terms };
+}
+
+/**
+ * Whether the query needs the full text of each turn (rather than its filters alone)
+ */
+export function needsTurnText(query: TimelineSearchQuery): boolean {
+  return query.terms.length > 0 || query.role === 'model';
+}
+
+function termMatches(term: TimelineSearchTerm, texts: readonly string[]): boolean {
+  if (term.type === 'text') {
+    return texts.some((text) => text.toLowerCase().includes(term.value));
+  }
+  return texts.some((text) => term.pattern.test(text));
+}
+
+export function matchesTimelineSearch(
+  query: TimelineSearchQuery,
+  target: TimelineSearchTarget,
+): boolean {
+  if (query.starred && !target.starred) return false;
+  if (query.levels.length > 0 && !query.levels.includes(target.level ?? 1)) return false;
+
+  const userTexts = [target.userText, target.label ?? ''].filter(Boolean);
+  const modelTexts = [target.modelText].filter(Boolean);
+  let texts: string[];
+  if (query.role === 'user') {
+    texts = userTexts;
+  } else if (query.role === 'model') {
+    // role:model alone keeps only turns that have a response
+    if (modelTexts.length === 0) return false;
+    texts = modelTexts;
+  } else {
+    texts = [...userTexts, ...modelTexts];
+  }
+
+  return query.terms.every((term) => termMatches(term, texts));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A global, case-insensitive pattern matching any text term, used to highlight matches;
+ * null when the query has no text terms
+ */
+export function getTimelineSearchHighlightPattern(query: TimelineSearchQuery): RegExp | null {
+  if (query.terms.length === 0) return null;
+  const sources = query.terms.map((term) =>
+    term.type === 'text' ? escapeRegExp(term.value) : `(?:${term.pattern.source})`,
+  );
+  const flags = new Set(['g', 'i']);
+  query.terms.forEach((term) => {
+    if (term.type !== 'regex') return;
+    ['m', 's', 'u'].forEach((flag) => {
+      if (term.pattern.flags.includes(flag)) flags.add(flag);
+    });
+  });
+  try {
+    return new RegExp(sources.join('|'), Array.from(flags).join(''));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Non-empty ranges of `text` matched by a highlight pattern, in order
+ */
+export function findHighlightRanges(
+  text: string,
+  pattern: RegExp,
+): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  const re = new RegExp(
+    pattern.source,
+    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
+  );
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    if (match[0].length === 0) {
+      re.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+}
@@ -15,9 +15,40 @@ export interface StarredMessage {
   conversationTitle?: string;
   /** Timestamp when the message was starred */
   starredAt: number;
+  /** Full text of the user prompt, captured at star time (absent for older stars) */
+  userText?: string;
+  /** Full text of the model response, captured at star time */
+  responseText?: string;
+  /** Personal note added in the starred library */
+  note?: string;
+  /** Timestamp of the last note change, used when merging synced data */
+  noteUpdatedAt?: number;
+}
+
+/**
+ * Identifies one starred message
+ */
+export interface StarredMessageRef {
+  conversationId: string;
+  turnId: string;
+}
+
+export type TurnAnnotationColor = 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+
+/**
+ * User-defined label and colour of a timeline turn
+ */
+export interface TurnAnnotation {
+  /** Short custom label shown instead of the turn summary (may be empty) */
+  label: string;
+  color: TurnAnnotationColor | null;
+  /** Timestamp of the last change, used when merging synced data */
+  updatedAt: number;
 }
 
 export interface StarredMessagesData {
   /** Map of conversationId -> array of starred messages */
   messages: Record<string, StarredMessage[]>;
+  /** Map of conversationId -> turnId -> annotation */
+  annotations?: Record<string, Record<string, TurnAnnotation>>;
 }
@@ -0,0 +1,75 @@
+/**
+ * Turn profile for the timeline minimap
+ * Length of a turn and the kinds of rich content (code, images, ...) it contains
+ */
+
+export type TurnContentKind = 'code' | 'image' | 'formula' | 'mermaid' | 'deepResearch';
+
+/** Display order of content glyphs */
+export const TURN_CONTENT_KINDS: readonly TurnContentKind[] = [
+  'code',
+  'image',
+  'formula',
+  'mermaid',
+  'deepResearch',
+];
+
+/** Marker size buckets, 1 = one-liner … 4 = long answer */
+export type TurnSizeBucket = 1 | 2 | 3 | 4;
+
+export interface TurnProfile {
+  /** Characters of normalized text in the prompt and the response */
+  readonly length: number;
+  readonly kinds: readonly TurnContentKind[];
+}
+
+const CODE_BLOCK_SELECTOR = 'code-block, .code-block';
+const CODE_LANGUAGE_SELECTOR = '.code-block-decoration > span';
+const IMAGE_SELECTOR = [
+  'generated-image',
+  'single-image',
+  '.attachment-container img',
+  'user-query-file-preview img',
+  '.preview-image',
+].join(',');
+const FORMULA_SELECTOR = '.math-block, .math-inline, [data-math], .katex';
+// Diagrams rendered by the Mermaid feature replace or wrap their code block
+const MERMAID_SELECTOR = '.gv-mermaid-wrapper';
+const DEEP_RESEARCH_SELECTOR = [
+  'deep-research-immersive-panel',
+  'immersive-entry-chip',
+  '[data-test-id*="deep-research"]',
+].join(',');
+
+/**
+ * Longest text (in characters) of each size bucket below the largest
+ */
+const SIZE_BUCKET_LIMITS: readonly number[] = [200, 1000, 4000];
+
+/**
+ * Kinds of rich content found in a turn element, in display order
+ */
+export function detectTurnContentKinds(root: Element): TurnContentKind[] {
+  const kinds = new Set<TurnContentKind>();
+
+  root.querySelectorAll(CODE_BLOCK_SELECTOR).forEach((block) => {
+    const language = block.querySelector(CODE_LANGUAGE_SELECTOR)?.textContent?.trim();
+    kinds.add(language?.toLowerCase() === 'mermaid' ? 'mermaid' : 'code');
+  });
+  root.querySelectorAll('pre').forEach((pre) => {
+    if (!pre.closest(CODE_BLOCK_SELECTOR)) kinds.add('code');
+  });
+  if (root.querySelector(MERMAID_SELECTOR)) kinds.add('mermaid');
+  if (root.querySelector(IMAGE_SELECTOR)) kinds.add('image');
+  if (root.querySelector(FORMULA_SELECTOR)) kinds.add('formula');
+  if (root.matches(DEEP_RESEARCH_SELECTOR) || root.querySelector(DEEP_RESEARCH_SELECTOR)) {
+    kinds.add('deepResearch');
+  }
+
+  return TURN_CONTENT_KINDS.filter((kind) => kinds.has(kind));
+}
+
+export function getTurnSizeBucket(length: number): TurnSizeBucket {
+  const index = SIZE_BUCKET_LIMITS.findIndex((limit) => length <= limit);
+  return (index === -1 ? SIZE_BUCKET_LIMITS.length + 1 : index + 1) as TurnSizeBucket;
+}
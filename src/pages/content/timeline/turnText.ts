@@ -0,0 +1,64 @@
+/**
+ * Full text of a timeline turn (user prompt and model response) for search
+ */
+import {
+  getAIStudioAssistantTurnSelectors,
+  getAssistantTurnSelectors,
+} from '@/core/utils/selectors';
+import { DOMContentExtractor } from '@/features/export/services/DOMContentExtractor';
+
+import type { PreviewTurnText } from './types';
+
+const RESPONSE_SELECTOR = [
+  ...getAssistantTurnSelectors(),
+  ...getAIStudioAssistantTurnSelectors(),
+].join(',');
+
+export function normalizeTurnText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the model response that follows a user turn element: the first response among the
+ * following siblings of the element or of its ancestors, stopping at the next user turn
+ * or at `root`.
+ */
+export function findTurnResponseElement(
+  userElement: HTMLElement,
+  userSelector: string,
+  root: HTMLElement | null = null,
+): HTMLElement | null {
+  let node: HTMLElement | null = userElement;
+  while (node && node !== root) {
+    let sibling = node.nextElementSibling as HTMLElement | null;
+    while (sibling) {
+      if (userSelector && (sibling.matches(userSelector) || sibling.querySelector(userSelector))) {
+        return null;
+      }
+      if (sibling.matches(RESPONSE_SELECTOR)) return sibling;
+      const nested = sibling.querySelector<HTMLElement>(RESPONSE_SELECTOR);
+      if (nested) return nested;
+      sibling = sibling.nextElementSibling as HTMLElement | null;
+    }
+    node = node.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Readable text of a turn, keeping paragraphs, lists and code blocks as Markdown,
+ * to store with a starred message
+ */
+export function captureTurnContent(
+  userElement: HTMLElement,
+  responseElement: HTMLElement | null,
+): PreviewTurnText {
+  const user =
+    DOMContentExtractor.extractUserContent(userElement).text.trim() ||
+    normalizeTurnText(userElement.textContent);
+  if (!responseElement) return { user, model: '' };
+  const model =
+    DOMContentExtractor.extractAssistantContent(responseElement).text.trim() ||
+    normalizeTurnText(responseElement.textContent);
+  return { user, model };
+}
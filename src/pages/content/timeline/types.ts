@@ -1,3 +1,5 @@
+import type { TurnAnnotationColor } from './starredTypes';
+
 export type DotElement = HTMLButtonElement & {
   dataset: DOMStringMap & {
     targetTurnId?: string;
@@ -12,4 +14,15 @@ export interface PreviewMarkerData {
   readonly summary: string;
   readonly index: number;
   readonly starred: boolean;
+  /** Custom label shown instead of the summary ('' or absent when none) */
+  readonly label?: string;
+  readonly color?: TurnAnnotationColor | null;
+  /** Marker level, used to indent the outline view (1 when absent) */
+  readonly level?: MarkerLevel;
+}
+
+/** Full text of a turn, read from the page when searching */
+export interface PreviewTurnText {
+  readonly user: string;
+  readonly model: string;
 }
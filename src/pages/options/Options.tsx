@@ -3,6 +3,7 @@ import React from 'react';
 import '@pages/options/Options.css';
 
 import { LanguageProvider, useLanguage } from '../../contexts/LanguageContext';
+import { StarredLibrary } from './components/StarredLibrary';
 
 function OptionsContent() {
   const { t } = useLanguage();
@@ -14,9 +15,7 @@ function OptionsContent() {
         <p className="text-muted-foreground">{t('optionsPageSubtitle')}</p>
       </div>
 
-      <div className="border-border bg-card rounded-lg border p-6">
-        <p className="text-muted-foreground">{t('optionsComingSoon')}</p>
-      </div>
+      <StarredLibrary />
     </div>
   );
 }
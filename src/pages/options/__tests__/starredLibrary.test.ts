@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import type { StarredMessage } from '@/pages/content/timeline/starredTypes';
+
+import { filterStarredMessages, getStarredMessageKey } from '../starredLibrary';
+
+const messages: StarredMessage[] = [
+  {
+    turnId: 'u-0',
+    content: 'Parse JSON...',
+    conversationId: 'c1',
+    conversationUrl: 'https://gemini.google.com/app/c1',
+    conversationTitle: 'Rust',
+    starredAt: 1,
+    userText: 'Parse JSON in Rust',
+    responseText: 'Use serde',
+    note: 'revisit lifetimes',
+  },
+  {
+    turnId: 'u-1',
+    content: 'Recipe for bread',
+    conversationId: 'c2',
+    conversationUrl: 'https://gemini.google.com/app/c2',
+    starredAt: 2,
+  },
+];
+
+describe('filterStarredMessages', () => {
+  it('returns every message for a blank query', () => {
+    expect(filterStarredMessages(messages, '  ')).toHaveLength(2);
+  });
+
+  it('matches every word across prompt, response, note and title', () => {
+    expect(filterStarredMessages(messages, 'SERDE lifetimes').map(getStarredMessageKey)).toEqual([
+      'c1:u-0',
+    ]);
+    expect(filterStarredMessages(messages, 'bread').map(getStarredMessageKey)).toEqual(['c2:u-1']);
+    expect(filterStarredMessages(messages, 'serde bread')).toEqual([]);
+  });
+});
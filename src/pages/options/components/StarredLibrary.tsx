@@ -0,0 +1,283 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { StorageKeys } from '@/core/types/common';
+import {
+  type StarredDigestFormat,
+  StarredDigestService,
+} from '@/features/export/services/StarredDigestService';
+import { StarredMessagesService } from '@/pages/content/timeline/StarredMessagesService';
+import type { StarredMessage } from '@/pages/content/timeline/starredTypes';
+
+import { filterStarredMessages, getStarredMessageKey } from '../starredLibrary';
+
+export function StarredLibrary() {
+  const { t } = useLanguage();
+  const [messages, setMessages] = useState<StarredMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+
+  const loadStarredMessages = useCallback(async () => {
+    try {
+      const allMessages = await StarredMessagesService.getAllStarredMessagesSorted();
+      setMessages(allMessages);
+      // Drop selections of messages that are no longer starred
+      const keys = new Set(allMessages.map(getStarredMessageKey));
+      setSelected((prev) => new Set(Array.from(prev).filter((key) => keys.has(key))));
+    } catch (error) {
+      console.error('Failed to load starred messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStarredMessages();
+
+    // Stay current while messages are starred in Gemini tabs
+    const handleStorageChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string,
+    ) => {
+      if (areaName === 'local' && changes[StorageKeys.TIMELINE_STARRED_MESSAGES]) {
+        void loadStarredMessages();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, [loadStarredMessages]);
+
+  const visibleMessages = useMemo(() => filterStarredMessages(messages, query), [messages, query]);
+  const groups = useMemo(
+    () => StarredDigestService.groupByConversation(visibleMessages),
+    [visibleMessages],
+  );
+  const selectedMessages = useMemo(
+    () => messages.filter((message) => selected.has(getStarredMessageKey(message))),
+    [messages, selected],
+  );
+  const allVisibleSelected =
+    visibleMessages.length > 0 &&
+    visibleMessages.every((message) => selected.has(getStarredMessageKey(message)));
+
+  const toggleSelected = (keys: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      keys.forEach((key) => (checked ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
+
+  const handleOpen = (message: StarredMessage) => {
+    void chrome.tabs.create({ url: StarredDigestService.getMessageUrl(message) });
+  };
+
+  const handleUnstarSelected = async () => {
+    if (selectedMessages.length === 0) return;
+    const confirmText = t('starredLibraryUnstarConfirm').replace(
+      '{count}',
+      String(selectedMessages.length),
+    );
+    if (!window.confirm(confirmText)) return;
+
+    await StarredMessagesService.removeStarredMessages(
+      selectedMessages.map(({ conversationId, turnId }) => ({ conversationId, turnId })),
+    );
+    setSelected(new Set());
+    await loadStarredMessages();
+  };
+
+  const handleExport = (format: StarredDigestFormat) => {
+    if (selectedMessages.length === 0) return;
+    const digestGroups = StarredDigestService.groupByConversation(selectedMessages);
+    const now = new Date();
+    const content =
+      format === 'json'
+        ? StarredDigestService.toJSON(digestGroups, now)
+        : StarredDigestService.toMarkdown(digestGroups, now);
+    StarredDigestService.download(content, format, StarredDigestService.getFilename(format, now));
+  };
+
+  const startEditingNote = (message: StarredMessage) => {
+    setEditingKey(getStarredMessageKey(message));
+    setNoteDraft(message.note ?? '');
+  };
+
+  const saveNote = async (message: StarredMessage) => {
+    const saved = await StarredMessagesService.setStarredMessageNote(
+      message.conversationId,
+      message.turnId,
+      noteDraft,
+    );
+    if (!saved) return;
+    setEditingKey(null);
+    await loadStarredMessages();
+  };
+
+  const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-bold">{t('starredLibrary')}</h2>
+        <p className="text-muted-foreground text-sm">{t('starredLibrarySubtitle')}</p>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('starredLibrarySearch')}
+          className="border-input bg-card min-w-[240px] flex-1 rounded-lg border px-3 py-2 text-sm outline-none focus:ring-2"
+        />
+        <label className="text-muted-foreground flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={allVisibleSelected}
+            disabled={visibleMessages.length === 0}
+            onChange={(e) =>
+              toggleSelected(visibleMessages.map(getStarredMessageKey), e.target.checked)
+            }
+          />
+          {t('starredLibrarySelectAll')}
+        </label>
+        <span className="text-muted-foreground text-sm">
+          {t('starredLibrarySelectedCount').replace('{count}', String(selectedMessages.length))}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selectedMessages.length === 0}
+          onClick={() => handleExport('markdown')}
+        >
+          {t('starredLibraryExportMarkdown')}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selectedMessages.length === 0}
+          onClick={() => handleExport('json')}
+        >
+          {t('starredLibraryExportJson')}
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          disabled={selectedMessages.length === 0}
+          onClick={() => void handleUnstarSelected()}
+        >
+          {t('starredLibraryUnstarSelected')}
+        </Button>
+      </div>
+
+      {/* Content */}
+      {loading ? (
+        <p className="text-muted-foreground">{t('loading')}</p>
+      ) : messages.length === 0 ? (
+        <p className="text-muted-foreground">{t('noStarredMessages')}</p>
+      ) : groups.length === 0 ? (
+        <p className="text-muted-foreground">{t('starredLibraryNoResults')}</p>
+      ) : (
+        groups.map((group) => {
+          const groupKeys = group.messages.map(getStarredMessageKey);
+          const groupSelected = groupKeys.every((key) => selected.has(key));
+          return (
+            <Card key={group.conversationId} className="space-y-3 p-4">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={groupSelected}
+                  onChange={(e) => toggleSelected(groupKeys, e.target.checked)}
+                />
+                <span className="truncate font-semibold">
+                  {group.conversationTitle || group.conversationUrl}
+                </span>
+                <span className="text-muted-foreground text-xs">({group.messages.length})</span>
+              </label>
+
+              {group.messages.map((message) => {
+                const key = getStarredMessageKey(message);
+                const isEditing = editingKey === key;
+                return (
+                  <div key={key} className="border-border flex gap-3 border-t pt-3">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selected.has(key)}
+                      onChange={(e) => toggleSelected([key], e.target.checked)}
+                    />
+                    <div className="min-w-0 flex-1 space-y-2">
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(message)}
+                        className="block w-full text-left text-sm font-medium hover:underline"
+                      >
+                        <span className="line-clamp-3 whitespace-pre-wrap">
+                          {message.userText || message.content}
+                        </span>
+                      </button>
+                      {message.responseText && (
+                        <p className="text-muted-foreground line-clamp-4 text-sm whitespace-pre-wrap">
+                          {message.responseText}
+                        </p>
+                      )}
+
+                      {isEditing ? (
+                        <div className="space-y-2">
+                          <textarea
+                            value={noteDraft}
+                            onChange={(e) => setNoteDraft(e.target.value)}
+                            placeholder={t('starredLibraryNotePlaceholder')}
+                            rows={3}
+                            autoFocus
+                            className="border-input bg-card w-full rounded-lg border p-2 text-sm outline-none focus:ring-2"
+                          />
+                          <div className="flex gap-2">
+                            <Button size="sm" onClick={() => void saveNote(message)}>
+                              {t('starredLibrarySaveNote')}
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setEditingKey(null)}>
+                              {t('starredLibraryCancelNote')}
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        message.note && (
+                          <p className="bg-primary/5 border-primary/40 rounded border-l-2 px-2 py-1 text-sm whitespace-pre-wrap">
+                            {message.note}
+                          </p>
+                        )
+                      )}
+
+                      <div className="text-muted-foreground flex items-center gap-3 text-xs">
+                        <span>{formatDate(message.starredAt)}</span>
+                        {!isEditing && (
+                          <button
+                            type="button"
+                            className="hover:text-foreground underline-offset-2 hover:underline"
+                            onClick={() => startEditingNote(message)}
+                          >
+                            {message.note
+                              ? t('starredLibraryEditNote')
+                              : t('starredLibraryAddNote')}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
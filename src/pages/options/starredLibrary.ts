@@ -0,0 +1,31 @@
+/**
+ * Helpers for the starred messages library
+ */
+import type { StarredMessage } from '@/pages/content/timeline/starredTypes';
+
+export function getStarredMessageKey(message: { conversationId: string; turnId: string }): string {
+  return `${message.conversationId}:${message.turnId}`;
+}
+
+/**
+ * Messages whose prompt, response, note or conversation title contain every word of the query
+ */
+export function filterStarredMessages(
+  messages: readonly StarredMessage[],
+  query: string,
+): StarredMessage[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [...messages];
+  return messages.filter((message) => {
+    const haystack = [
+      message.userText || message.content,
+      message.responseText,
+      message.note,
+      message.conversationTitle,
+    ]
+      .filter(Boolean)
+      .join('\n')
+      .toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+}
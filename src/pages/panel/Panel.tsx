@@ -1,11 +1,95 @@
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 
-import '@pages/panel/Panel.css';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useDarkMode } from '@/hooks/useDarkMode';
+import type { TranslationKey } from '@/utils/translations';
 
+import { FoldersTab } from './components/FoldersTab';
+import { type PromptInsertResult, PromptsTab } from './components/PromptsTab';
+import { TimelineTab } from './components/TimelineTab';
+import { useTabConnection } from './useTabConnection';
+
+type PanelTab = 'timeline' | 'folders' | 'prompts';
+
+const TABS: Array<{ id: PanelTab; labelKey: TranslationKey }> = [
+  { id: 'timeline', labelKey: 'sidePanelTabTimeline' },
+  { id: 'folders', labelKey: 'folder_title' },
+  { id: 'prompts', labelKey: 'sidePanelTabPrompts' },
+];
+
+/**
+ * Browser side panel mirroring the timeline, folders and prompts of the active Gemini tab
+ */
 export default function Panel() {
+  const { t } = useLanguage();
+  const { isDark } = useDarkMode();
+  const [tab, setTab] = useState<PanelTab>('timeline');
+  const [insertResult, setInsertResult] = useState<PromptInsertResult | null>(null);
+
+  const onPromptInserted = useCallback((promptId: string, inserted: boolean) => {
+    setInsertResult({ promptId, inserted });
+  }, []);
+  const connection = useTabConnection(onPromptInserted);
+  const connected = connection.status === 'connected';
+
+  const openConversation = (url: string) => {
+    if (connection.tabId === null) return;
+    chrome.tabs.update(connection.tabId, { url }).catch((error) => {
+      console.error('[SidePanel] Failed to open conversation:', error);
+    });
+  };
+
+  const renderContent = () => {
+    // Prompts are read from storage and can still be copied without a Gemini tab
+    if (tab === 'prompts') {
+      return (
+        <PromptsTab
+          canInsert={connected}
+          insertResult={insertResult}
+          onInsert={(promptId, text) => connection.send({ type: 'insertPrompt', promptId, text })}
+        />
+      );
+    }
+    if (connection.status === 'connecting') {
+      return <p className="text-muted-foreground p-4 text-sm">{t('loading')}</p>;
+    }
+    if (!connected) {
+      return <p className="text-muted-foreground p-4 text-sm">{t('sidePanelUnsupported')}</p>;
+    }
+    if (tab === 'timeline') {
+      return <TimelineTab timeline={connection.timeline} send={connection.send} />;
+    }
+    return (
+      <FoldersTab
+        folders={connection.folders}
+        isDark={isDark}
+        send={connection.send}
+        onOpenConversation={openConversation}
+      />
+    );
+  };
+
   return (
-    <div className="container">
-      <h1>Side Panel</h1>
+    <div className="bg-background text-foreground flex h-screen flex-col">
+      <nav className="border-border/50 flex border-b" role="tablist">
+        {TABS.map(({ id, labelKey }) => (
+          <button
+            key={id}
+            type="button"
+            role="tab"
+            aria-selected={tab === id}
+            className={`flex-1 border-b-2 px-3 py-2 text-sm font-medium transition-colors ${
+              tab === id
+                ? 'border-primary text-primary'
+                : 'text-muted-foreground hover:text-foreground border-transparent'
+            }`}
+            onClick={() => setTab(id)}
+          >
+            {t(labelKey)}
+          </button>
+        ))}
+      </nav>
+      <main className="flex-1 overflow-y-auto">{renderContent()}</main>
     </div>
   );
 }
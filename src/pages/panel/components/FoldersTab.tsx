@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+
+import { ChevronRight, Folder, FolderPlus, MessageSquare } from 'lucide-react';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import type {
+  SidePanelCommand,
+  SidePanelConversation,
+  SidePanelFolder,
+  SidePanelFolderTree,
+} from '@/core/types/sidePanel';
+import { getFolderColor } from '@/pages/content/folder/folderColors';
+
+interface FoldersTabProps {
+  folders: SidePanelFolderTree | null;
+  isDark: boolean;
+  send: (command: SidePanelCommand) => void;
+  onOpenConversation: (url: string) => void;
+}
+
+function ConversationRow({
+  conversation,
+  depth,
+  current,
+  onOpen,
+}: {
+  conversation: SidePanelConversation;
+  depth: number;
+  current: boolean;
+  onOpen: (url: string) => void;
+}) {
+  return (
+    <li>
+      <button
+        type="button"
+        className={`flex w-full items-center gap-2 rounded-md py-1 pr-2 text-left text-sm transition-colors ${
+          current ? 'bg-primary/10 font-medium' : 'hover:bg-accent'
+        }`}
+        style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+        onClick={() => onOpen(conversation.url)}
+      >
+        <MessageSquare className="text-muted-foreground h-3.5 w-3.5 shrink-0" />
+        <span className="truncate">{conversation.title}</span>
+      </button>
+    </li>
+  );
+}
+
+export function FoldersTab({ folders, isDark, send, onOpenConversation }: FoldersTabProps) {
+  const { t } = useLanguage();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  if (!folders) {
+    return <p className="text-muted-foreground p-4 text-sm">{t('sidePanelFoldersUnavailable')}</p>;
+  }
+  if (folders.folders.length === 0 && folders.conversations.length === 0) {
+    return <p className="text-muted-foreground p-4 text-sm">{t('folder_empty')}</p>;
+  }
+
+  const currentId = folders.currentConversationId;
+
+  const toggle = (folderId: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(folderId)) next.delete(folderId);
+      else next.add(folderId);
+      return next;
+    });
+  };
+
+  const renderFolder = (folder: SidePanelFolder, depth: number): React.ReactNode => {
+    const open = expanded.has(folder.id);
+    const canAddCurrent =
+      !!currentId && !folder.conversations.some((c) => c.conversationId === currentId);
+    return (
+      <li key={folder.id}>
+        <div
+          className="group hover:bg-accent flex items-center gap-1 rounded-md py-1 pr-1"
+          style={{ paddingLeft: `${0.25 + depth * 1}rem` }}
+        >
+          <button
+            type="button"
+            className="flex min-w-0 flex-1 items-center gap-1.5 text-left text-sm"
+            aria-expanded={open}
+            onClick={() => toggle(folder.id)}
+          >
+            <ChevronRight
+              className={`text-muted-foreground h-3.5 w-3.5 shrink-0 transition-transform ${
+                open ? 'rotate-90' : ''
+              }`}
+            />
+            <Folder
+              className="h-4 w-4 shrink-0"
+              style={folder.color ? { color: getFolderColor(folder.color, isDark) } : undefined}
+            />
+            <span className="truncate">{folder.name}</span>
+          </button>
+          {canAddCurrent && (
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground shrink-0 rounded p-0.5 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              title={t('sidePanelAddCurrentConversation')}
+              onClick={() => {
+                send({ type: 'addCurrentConversationToFolder', folderId: folder.id });
+                setExpanded((current) => new Set(current).add(folder.id));
+              }}
+            >
+              <FolderPlus className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {open && (
+          <ul>
+            {folder.folders.map((child) => renderFolder(child, depth + 1))}
+            {folder.conversations.map((conversation) => (
+              <ConversationRow
+                key={conversation.conversationId}
+                conversation={conversation}
+                depth={depth + 1}
+                current={conversation.conversationId === currentId}
+                onOpen={onOpenConversation}
+              />
+            ))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <ul className="space-y-0.5 p-2">
+      {folders.folders.map((folder) => renderFolder(folder, 0))}
+      {folders.conversations.map((conversation) => (
+        <ConversationRow
+          key={conversation.conversationId}
+          conversation={conversation}
+          depth={0}
+          current={conversation.conversationId === currentId}
+          onOpen={onOpenConversation}
+        />
+      ))}
+    </ul>
+  );
+}
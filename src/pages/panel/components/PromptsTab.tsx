@@ -0,0 +1,269 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { promptStorageService } from '@/core/services/StorageService';
+import { StorageKeys } from '@/core/types/common';
+import type { PromptItem } from '@/core/types/sync';
+import {
+  type PromptSortMode,
+  isPromptSortMode,
+  recordPromptUsage,
+  sortPrompts,
+} from '@/core/utils/promptLibrary';
+import {
+  getInitialVariableValues,
+  renderPromptTemplate,
+  syncTemplateVariables,
+} from '@/core/utils/promptTemplate';
+
+export interface PromptInsertResult {
+  promptId: string;
+  inserted: boolean;
+}
+
+interface PromptsTabProps {
+  canInsert: boolean;
+  insertResult: PromptInsertResult | null;
+  onInsert: (promptId: string, text: string) => void;
+}
+
+type PromptFeedback = { promptId: string; kind: 'copied' | 'failed' };
+
+const FEEDBACK_DURATION_MS = 2000;
+
+async function loadPromptLibrary(): Promise<{ items: PromptItem[]; sortMode: PromptSortMode }> {
+  const [items, sortMode] = await Promise.all([
+    promptStorageService.get<PromptItem[]>(StorageKeys.PROMPT_ITEMS),
+    promptStorageService.get<string>(StorageKeys.PROMPT_SORT_MODE),
+  ]);
+  return {
+    items: items.success && Array.isArray(items.data) ? items.data : [],
+    sortMode: sortMode.success && isPromptSortMode(sortMode.data) ? sortMode.data : 'default',
+  };
+}
+
+/**
+ * Persist usage of a copied or inserted prompt so the Prompt Manager's sort modes pick it up
+ */
+async function recordUsage(id: string): Promise<void> {
+  try {
+    const result = await promptStorageService.get<PromptItem[]>(StorageKeys.PROMPT_ITEMS);
+    if (!result.success || !Array.isArray(result.data)) return;
+    if (!result.data.some((item) => item.id === id)) return;
+    await promptStorageService.set(
+      StorageKeys.PROMPT_ITEMS,
+      result.data.map((item) => (item.id === id ? recordPromptUsage(item) : item)),
+    );
+  } catch (error) {
+    console.warn('[SidePanel] Failed to record prompt usage:', error);
+  }
+}
+
+function PromptFillForm({
+  item,
+  onSubmit,
+  onCancel,
+}: {
+  item: PromptItem;
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+}) {
+  const { t } = useLanguage();
+  const variables = useMemo(() => syncTemplateVariables(item.text, item.variables), [item]);
+  const [values, setValues] = useState(() => getInitialVariableValues(variables));
+
+  return (
+    <form
+      className="mt-2 space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(renderPromptTemplate(item.text, values));
+      }}
+    >
+      <p className="text-xs font-medium">{t('pm_fill_title')}</p>
+      {variables.map((variable) => (
+        <label key={variable.name} className="block text-xs">
+          <span className="text-muted-foreground">{variable.name}</span>
+          {variable.type === 'choice' && variable.options?.length ? (
+            <select
+              className="border-input bg-background mt-0.5 w-full rounded-md border px-2 py-1 text-sm"
+              value={values[variable.name]}
+              onChange={(e) => setValues({ ...values, [variable.name]: e.target.value })}
+            >
+              {variable.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              className="border-input bg-background mt-0.5 w-full rounded-md border px-2 py-1 text-sm"
+              value={values[variable.name]}
+              onChange={(e) => setValues({ ...values, [variable.name]: e.target.value })}
+            />
+          )}
+        </label>
+      ))}
+      <div className="flex justify-end gap-1">
+        <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={onCancel}>
+          {t('pm_cancel')}
+        </Button>
+        <Button type="submit" size="sm" className="h-7 px-2">
+          {t('pm_insert')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function PromptsTab({ canInsert, insertResult, onInsert }: PromptsTabProps) {
+  const { t } = useLanguage();
+  const [items, setItems] = useState<PromptItem[]>([]);
+  const [sortMode, setSortMode] = useState<PromptSortMode>('default');
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [fillingId, setFillingId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<PromptFeedback | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const library = await loadPromptLibrary();
+      setItems(library.items);
+      setSortMode(library.sortMode);
+    } catch (error) {
+      console.error('[SidePanel] Failed to load prompts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+    const onChanged = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area !== 'local') return;
+      if (changes[StorageKeys.PROMPT_ITEMS] || changes[StorageKeys.PROMPT_SORT_MODE]) {
+        void reload();
+      }
+    };
+    chrome.storage.onChanged.addListener(onChanged);
+    return () => chrome.storage.onChanged.removeListener(onChanged);
+  }, [reload]);
+
+  useEffect(() => {
+    if (!feedback) return;
+    const timer = window.setTimeout(() => setFeedback(null), FEEDBACK_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [feedback]);
+
+  useEffect(() => {
+    if (!insertResult) return;
+    if (insertResult.inserted) void recordUsage(insertResult.promptId);
+    else setFeedback({ promptId: insertResult.promptId, kind: 'failed' });
+  }, [insertResult]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matches = q
+      ? items.filter(
+          (item) =>
+            item.text.toLowerCase().includes(q) ||
+            item.tags.some((tag) => tag.toLowerCase().includes(q)),
+        )
+      : items;
+    return sortPrompts(matches, sortMode);
+  }, [items, query, sortMode]);
+
+  const handleInsert = (item: PromptItem) => {
+    if (syncTemplateVariables(item.text, item.variables).length > 0) {
+      setFillingId(item.id);
+      return;
+    }
+    onInsert(item.id, item.text);
+  };
+
+  const handleCopy = async (item: PromptItem) => {
+    try {
+      await navigator.clipboard.writeText(item.text);
+      setFeedback({ promptId: item.id, kind: 'copied' });
+      void recordUsage(item.id);
+    } catch (error) {
+      console.error('[SidePanel] Failed to copy prompt:', error);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-muted-foreground p-4 text-sm">{t('loading')}</p>;
+  }
+
+  return (
+    <div className="space-y-2 p-2">
+      <input
+        type="search"
+        className="border-input bg-background w-full rounded-md border px-3 py-1.5 text-sm"
+        placeholder={t('pm_search_placeholder')}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      {visible.length === 0 ? (
+        <p className="text-muted-foreground p-2 text-sm">{t('pm_empty')}</p>
+      ) : (
+        visible.map((item) => (
+          <Card key={item.id} className="p-2.5">
+            <p className="line-clamp-3 text-sm whitespace-pre-wrap">{item.text}</p>
+            {item.tags.length > 0 && (
+              <div className="mt-1 flex flex-wrap gap-1">
+                {item.tags.map((tag) => (
+                  <span key={tag} className="bg-secondary rounded px-1.5 py-0.5 text-[10px]">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {fillingId === item.id ? (
+              <PromptFillForm
+                item={item}
+                onCancel={() => setFillingId(null)}
+                onSubmit={(text) => {
+                  setFillingId(null);
+                  onInsert(item.id, text);
+                }}
+              />
+            ) : (
+              <div className="mt-2 flex items-center justify-end gap-1">
+                {feedback?.promptId === item.id && (
+                  <span
+                    className={`mr-auto text-xs ${
+                      feedback.kind === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                    }`}
+                  >
+                    {t(feedback.kind === 'failed' ? 'sidePanelInsertFailed' : 'pm_copied')}
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => void handleCopy(item)}
+                >
+                  {t('pm_copy')}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={!canInsert}
+                  onClick={() => handleInsert(item)}
+                >
+                  {t('pm_insert')}
+                </Button>
+              </div>
+            )}
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef } from 'react';
+
+import { Star } from 'lucide-react';
+
+import { useLanguage } from '@/contexts/LanguageContext';
+import type { SidePanelCommand, SidePanelTimeline } from '@/core/types/sidePanel';
+import type { MarkerLevel } from '@/pages/content/timeline/types';
+import type { TranslationKey } from '@/utils/translations';
+
+const LEVEL_LABEL_KEYS: Record<MarkerLevel, TranslationKey> = {
+  1: 'timelineLevel1',
+  2: 'timelineLevel2',
+  3: 'timelineLevel3',
+};
+
+interface TimelineTabProps {
+  timeline: SidePanelTimeline | null;
+  send: (command: SidePanelCommand) => void;
+}
+
+export function TimelineTab({ timeline, send }: TimelineTabProps) {
+  const { t } = useLanguage();
+  const activeItemRef = useRef<HTMLLIElement | null>(null);
+
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [timeline?.activeTurnId]);
+
+  if (!timeline) {
+    return <p className="text-muted-foreground p-4 text-sm">{t('sidePanelNoConversation')}</p>;
+  }
+  if (timeline.turns.length === 0) {
+    return <p className="text-muted-foreground p-4 text-sm">{t('timelinePreviewNoMessages')}</p>;
+  }
+
+  return (
+    <ol className="space-y-1 p-2">
+      {timeline.turns.map((turn) => {
+        const active = turn.id === timeline.activeTurnId;
+        const nextLevel = ((turn.level % 3) + 1) as MarkerLevel;
+        return (
+          <li
+            key={turn.id}
+            ref={active ? activeItemRef : undefined}
+            className={`group flex items-start gap-2 rounded-md py-1.5 pr-1 transition-colors ${
+              active ? 'bg-primary/10' : 'hover:bg-accent'
+            }`}
+            style={{ paddingLeft: `${0.5 + (turn.level - 1) * 1}rem` }}
+          >
+            <button
+              type="button"
+              className="flex min-w-0 flex-1 items-start gap-2 text-left"
+              onClick={() => send({ type: 'navigateToTurn', turnId: turn.id })}
+            >
+              <span className="text-muted-foreground w-6 shrink-0 text-right text-xs tabular-nums">
+                {turn.index + 1}
+              </span>
+              <span className={`line-clamp-2 text-sm ${active ? 'font-medium' : ''}`}>
+                {turn.text}
+              </span>
+            </button>
+            {timeline.levelsEnabled && (
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground shrink-0 rounded px-1 text-xs opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title={`${t('timelineLevelTitle')}: ${t(LEVEL_LABEL_KEYS[turn.level])}`}
+                onClick={() => send({ type: 'setLevel', turnId: turn.id, level: nextLevel })}
+              >
+                L{turn.level}
+              </button>
+            )}
+            <button
+              type="button"
+              className={`shrink-0 rounded p-0.5 ${
+                turn.starred
+                  ? 'text-primary'
+                  : 'text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100'
+              }`}
+              title={t(turn.starred ? 'removeFromStarred' : 'sidePanelStarTurn')}
+              aria-pressed={turn.starred}
+              onClick={() => send({ type: 'toggleStar', turnId: turn.id })}
+            >
+              <Star className="h-4 w-4" fill={turn.starred ? 'currentColor' : 'none'} />
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,4 +1,3 @@
-import React from 'react';
 import { createRoot } from 'react-dom/client';
 
 import Panel from '@pages/panel/Panel';
@@ -6,11 +5,17 @@ import '@pages/panel/index.css';
 
 import '@assets/styles/tailwind.css';
 
+import { LanguageProvider } from '../../contexts/LanguageContext';
+
 function init() {
   const rootContainer = document.querySelector('#__root');
   if (!rootContainer) throw new Error("Can't find Panel root element");
   const root = createRoot(rootContainer);
-  root.render(<Panel />);
+  root.render(
+    <LanguageProvider>
+      <Panel />
+    </LanguageProvider>,
+  );
 }
 
 init();
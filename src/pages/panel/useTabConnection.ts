@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  SIDE_PANEL_PORT_NAME,
+  type SidePanelCommand,
+  type SidePanelFolderTree,
+  type SidePanelTimeline,
+  type SidePanelUpdate,
+} from '@/core/types/sidePanel';
+
+export type TabConnectionStatus = 'connecting' | 'connected' | 'unsupported';
+
+interface TabSnapshot {
+  status: TabConnectionStatus;
+  timeline: SidePanelTimeline | null;
+  folders: SidePanelFolderTree | null;
+}
+
+const UNSUPPORTED: TabSnapshot = { status: 'unsupported', timeline: null, folders: null };
+
+// The content script starts its features with a delay, so a port opened right after a load
+// can be refused; retry a few times before giving up
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_ATTEMPTS = 3;
+
+/**
+ * Port to the content script of the active tab in this window.
+ * Follows tab switches and reconnects after the page reloads; pages without the content
+ * script (other sites, tabs opened before the extension was installed) report 'unsupported'.
+ */
+export function useTabConnection(onPromptInserted?: (promptId: string, inserted: boolean) => void) {
+  const [tabId, setTabId] = useState<number | null>(null);
+  // Bumped when the active tab finishes loading, since a reload drops the port
+  const [loadCount, setLoadCount] = useState(0);
+  const [snapshot, setSnapshot] = useState<TabSnapshot>({ ...UNSUPPORTED, status: 'connecting' });
+  const portRef = useRef<chrome.runtime.Port | null>(null);
+  const tabIdRef = useRef<number | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  const onPromptInsertedRef = useRef(onPromptInserted);
+  onPromptInsertedRef.current = onPromptInserted;
+
+  useEffect(() => {
+    const refreshActiveTab = async () => {
+      try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        tabIdRef.current = tab?.id ?? null;
+        reconnectAttemptsRef.current = 0;
+        setTabId(tabIdRef.current);
+      } catch (error) {
+        console.error('[SidePanel] Failed to query the active tab:', error);
+      }
+    };
+    const onActivated = () => void refreshActiveTab();
+    const onUpdated = (updatedTabId: number, changeInfo: { status?: string }) => {
+      if (updatedTabId === tabIdRef.current && changeInfo.status === 'complete') {
+        reconnectAttemptsRef.current = 0;
+        setLoadCount((count) => count + 1);
+      }
+    };
+
+    void refreshActiveTab();
+    chrome.tabs.onActivated.addListener(onActivated);
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    return () => {
+      chrome.tabs.onActivated.removeListener(onActivated);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (tabId === null) {
+      setSnapshot(UNSUPPORTED);
+      return;
+    }
+
+    let port: chrome.runtime.Port;
+    let reconnectTimer: number | null = null;
+    try {
+      port = chrome.tabs.connect(tabId, { name: SIDE_PANEL_PORT_NAME });
+    } catch {
+      setSnapshot(UNSUPPORTED);
+      return;
+    }
+    portRef.current = port;
+    setSnapshot({ ...UNSUPPORTED, status: 'connecting' });
+
+    port.onMessage.addListener((update: SidePanelUpdate) => {
+      if (portRef.current !== port) return;
+      reconnectAttemptsRef.current = 0;
+      if (update.type === 'timeline') {
+        setSnapshot((current) => ({ ...current, status: 'connected', timeline: update.timeline }));
+      } else if (update.type === 'folders') {
+        setSnapshot((current) => ({ ...current, status: 'connected', folders: update.folders }));
+      } else if (update.type === 'promptInserted') {
+        onPromptInsertedRef.current?.(update.promptId, update.inserted);
+      }
+    });
+    port.onDisconnect.addListener(() => {
+      // Reading lastError keeps "Receiving end does not exist" out of the console
+      void chrome.runtime.lastError;
+      if (portRef.current !== port) return;
+      portRef.current = null;
+      setSnapshot(UNSUPPORTED);
+      if (reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
+        reconnectAttemptsRef.current += 1;
+        reconnectTimer = window.setTimeout(
+          () => setLoadCount((count) => count + 1),
+          RECONNECT_DELAY_MS,
+        );
+      }
+    });
+
+    return () => {
+      if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+      portRef.current = null;
+      port.disconnect();
+    };
+  }, [tabId, loadCount]);
+
+  const send = useCallback((command: SidePanelCommand) => {
+    portRef.current?.postMessage(command);
+  }, []);
+
+  return { tabId, ...snapshot, send };
+}
@@ -1,5 +1,6 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 
+import { PanelRight } from 'lucide-react';
 import browser from 'webextension-polyfill';
 
 import { StorageKeys } from '@/core/types/common';
@@ -115,12 +116,16 @@ interface SettingsUpdate {
   hideContainer?: boolean;
   draggableTimeline?: boolean;
   markerLevelEnabled?: boolean;
+  minimapEnabled?: boolean;
+  autoResumeEnabled?: boolean;
   resetPosition?: boolean;
   folderEnabled?: boolean;
   hideArchivedConversations?: boolean;
   customWebsites?: string[];
   watermarkRemoverEnabled?: boolean;
   hidePromptManager?: boolean;
+  slashCommandEnabled?: boolean;
+  slashCommandPrefix?: string;
   inputCollapseEnabled?: boolean;
   tabTitleUpdateEnabled?: boolean;
   mermaidEnabled?: boolean;
@@ -138,6 +143,8 @@ export default function Popup() {
   const [hideContainer, setHideContainer] = useState<boolean>(false);
   const [draggableTimeline, setDraggableTimeline] = useState<boolean>(false);
   const [markerLevelEnabled, setMarkerLevelEnabled] = useState<boolean>(false);
+  const [minimapEnabled, setMinimapEnabled] = useState<boolean>(false);
+  const [autoResumeEnabled, setAutoResumeEnabled] = useState<boolean>(false);
   const [folderEnabled, setFolderEnabled] = useState<boolean>(true);
   const [hideArchivedConversations, setHideArchivedConversations] = useState<boolean>(false);
   const [customWebsites, setCustomWebsites] = useState<string[]>([]);
@@ -151,6 +158,8 @@ export default function Popup() {
   const [latestVersion, setLatestVersion] = useState<string | null>(null);
   const [watermarkRemoverEnabled, setWatermarkRemoverEnabled] = useState<boolean>(true);
   const [hidePromptManager, setHidePromptManager] = useState<boolean>(false);
+  const [slashCommandEnabled, setSlashCommandEnabled] = useState<boolean>(true);
+  const [slashCommandPrefix, setSlashCommandPrefix] = useState<string>('/');
   const [inputCollapseEnabled, setInputCollapseEnabled] = useState<boolean>(false);
   const [tabTitleUpdateEnabled, setTabTitleUpdateEnabled] = useState<boolean>(true);
   const [mermaidEnabled, setMermaidEnabled] = useState<boolean>(true);
@@ -161,11 +170,13 @@ export default function Popup() {
   const [preventAutoScrollEnabled, setPreventAutoScrollEnabled] = useState<boolean>(false);
   const [forkEnabled, setForkEnabled] = useState<boolean>(false);
   const [isAIStudio, setIsAIStudio] = useState<boolean>(false);
+  const [currentWindowId, setCurrentWindowId] = useState<number | null>(null);
 
   useEffect(() => {
     browser.tabs
       .query({ active: true, currentWindow: true })
       .then((tabs) => {
+        setCurrentWindowId(tabs[0]?.windowId ?? null);
         const url = tabs[0]?.url || '';
         if (url.includes('aistudio.google.com') || url.includes('aistudio.google.cn')) {
           setIsAIStudio(true);
@@ -174,6 +185,24 @@ export default function Popup() {
       .catch(() => {});
   }, []);
 
+  // Chrome exposes the side panel API, Firefox a sidebar; Safari has neither
+  const hasChromeSidePanel = typeof chrome.sidePanel !== 'undefined';
+  const canOpenSidePanel = hasChromeSidePanel || typeof browser.sidebarAction !== 'undefined';
+
+  const openSidePanel = useCallback(() => {
+    // Both APIs require the user gesture, so they are called without awaiting anything first
+    let opening: Promise<void>;
+    if (hasChromeSidePanel) {
+      if (currentWindowId === null) return;
+      opening = chrome.sidePanel.open({ windowId: currentWindowId });
+    } else {
+      opening = browser.sidebarAction.open();
+    }
+    opening
+      .then(() => window.close())
+      .catch((err) => console.error('[Gemini Voyager] Failed to open side panel:', err));
+  }, [currentWindowId, hasChromeSidePanel]);
+
   const handleFormulaCopyFormatChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const format = e.target.value as 'latex' | 'unicodemath' | 'no-dollar';
     setFormulaCopyFormat(format);
@@ -212,6 +241,10 @@ export default function Popup() {
         payload.geminiTimelineDraggable = settings.draggableTimeline;
       if (typeof settings.markerLevelEnabled === 'boolean')
         payload.geminiTimelineMarkerLevel = settings.markerLevelEnabled;
+      if (typeof settings.minimapEnabled === 'boolean')
+        payload.geminiTimelineMinimap = settings.minimapEnabled;
+      if (typeof settings.autoResumeEnabled === 'boolean')
+        payload.geminiTimelineAutoResume = settings.autoResumeEnabled;
       if (typeof settings.folderEnabled === 'boolean')
         payload.geminiFolderEnabled = settings.folderEnabled;
       if (typeof settings.hideArchivedConversations === 'boolean')
@@ -222,6 +255,10 @@ export default function Popup() {
         payload.geminiWatermarkRemoverEnabled = settings.watermarkRemoverEnabled;
       if (typeof settings.hidePromptManager === 'boolean')
         payload.gvHidePromptManager = settings.hidePromptManager;
+      if (typeof settings.slashCommandEnabled === 'boolean')
+        payload[StorageKeys.PROMPT_SLASH_COMMAND_ENABLED] = settings.slashCommandEnabled;
+      if (typeof settings.slashCommandPrefix === 'string')
+        payload[StorageKeys.PROMPT_SLASH_COMMAND_PREFIX] = settings.slashCommandPrefix;
       if (typeof settings.inputCollapseEnabled === 'boolean')
         payload.gvInputCollapseEnabled = settings.inputCollapseEnabled;
       if (typeof settings.tabTitleUpdateEnabled === 'boolean')
@@ -455,12 +492,16 @@ export default function Popup() {
           geminiTimelineHideContainer: false,
           geminiTimelineDraggable: false,
           geminiTimelineMarkerLevel: false,
+          geminiTimelineMinimap: false,
+          geminiTimelineAutoResume: false,
           geminiFolderEnabled: true,
           geminiFolderHideArchivedConversations: false,
           gvPromptCustomWebsites: [],
           gvFormulaCopyFormat: 'latex',
           geminiWatermarkRemoverEnabled: true,
           gvHidePromptManager: false,
+          [StorageKeys.PROMPT_SLASH_COMMAND_ENABLED]: true,
+          [StorageKeys.PROMPT_SLASH_COMMAND_PREFIX]: '/',
           gvInputCollapseEnabled: false,
           gvTabTitleUpdateEnabled: true,
           gvMermaidEnabled: true,
@@ -480,6 +521,8 @@ export default function Popup() {
           setHideContainer(!!res?.geminiTimelineHideContainer);
           setDraggableTimeline(!!res?.geminiTimelineDraggable);
           setMarkerLevelEnabled(!!res?.geminiTimelineMarkerLevel);
+          setMinimapEnabled(!!res?.geminiTimelineMinimap);
+          setAutoResumeEnabled(!!res?.geminiTimelineAutoResume);
           setFolderEnabled(res?.geminiFolderEnabled !== false);
           setHideArchivedConversations(!!res?.geminiFolderHideArchivedConversations);
           const loadedCustomWebsites = Array.isArray(res?.gvPromptCustomWebsites)
@@ -488,6 +531,11 @@ export default function Popup() {
           setCustomWebsites(loadedCustomWebsites);
           setWatermarkRemoverEnabled(res?.geminiWatermarkRemoverEnabled !== false);
           setHidePromptManager(!!res?.gvHidePromptManager);
+          setSlashCommandEnabled(res?.[StorageKeys.PROMPT_SLASH_COMMAND_ENABLED] !== false);
+          const loadedPrefix = res?.[StorageKeys.PROMPT_SLASH_COMMAND_PREFIX];
+          setSlashCommandPrefix(
+            typeof loadedPrefix === 'string' && loadedPrefix ? loadedPrefix : '/',
+          );
           setInputCollapseEnabled(res?.gvInputCollapseEnabled !== false);
           setTabTitleUpdateEnabled(res?.gvTabTitleUpdateEnabled !== false);
           setMermaidEnabled(res?.gvMermaidEnabled !== false);
@@ -905,6 +953,48 @@ export default function Popup() {
                 }}
               />
             </div>
+            <div className="group flex items-center justify-between">
+              <div className="flex-1">
+                <Label
+                  htmlFor="timeline-minimap-enabled"
+                  className="group-hover:text-primary cursor-pointer text-sm font-medium transition-colors"
+                >
+                  {t('enableTimelineMinimap')}
+                </Label>
+                <p className="text-muted-foreground mt-1 text-xs">
+                  {t('enableTimelineMinimapHint')}
+                </p>
+              </div>
+              <Switch
+                id="timeline-minimap-enabled"
+                checked={minimapEnabled}
+                onChange={(e) => {
+                  setMinimapEnabled(e.target.checked);
+                  apply({ minimapEnabled: e.target.checked });
+                }}
+              />
+            </div>
+            <div className="group flex items-center justify-between">
+              <div className="flex-1">
+                <Label
+                  htmlFor="timeline-auto-resume"
+                  className="group-hover:text-primary cursor-pointer text-sm font-medium transition-colors"
+                >
+                  {t('enableTimelineAutoResume')}
+                </Label>
+                <p className="text-muted-foreground mt-1 text-xs">
+                  {t('enableTimelineAutoResumeHint')}
+                </p>
+              </div>
+              <Switch
+                id="timeline-auto-resume"
+                checked={autoResumeEnabled}
+                onChange={(e) => {
+                  setAutoResumeEnabled(e.target.checked);
+                  apply({ autoResumeEnabled: e.target.checked });
+                }}
+              />
+            </div>
             {/* Reset Timeline Position Button */}
             <Button
               variant="outline"
@@ -942,6 +1032,19 @@ export default function Popup() {
                 {t('viewStarredHistory')}
               </span>
             </Button>
+            {canOpenSidePanel && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="group hover:border-primary/50 mt-2 w-full"
+                onClick={openSidePanel}
+              >
+                <span className="flex items-center gap-1.5 text-xs transition-transform group-hover:scale-105">
+                  <PanelRight className="text-primary h-3.5 w-3.5" />
+                  {t('openSidePanel')}
+                </span>
+              </Button>
+            )}
           </CardContent>
         </Card>
         {/* Folder Options */}
@@ -1243,6 +1346,49 @@ export default function Popup() {
                 }}
               />
             </div>
+            {/* Slash Command Picker Toggle */}
+            <div className="group flex items-center justify-between">
+              <div className="flex-1">
+                <Label
+                  htmlFor="slash-command-enabled"
+                  className="group-hover:text-primary cursor-pointer text-sm font-medium transition-colors"
+                >
+                  {t('slashCommand')}
+                </Label>
+                <p className="text-muted-foreground mt-1 text-xs">{t('slashCommandHint')}</p>
+              </div>
+              <Switch
+                id="slash-command-enabled"
+                checked={slashCommandEnabled}
+                onChange={(e) => {
+                  setSlashCommandEnabled(e.target.checked);
+                  apply({ slashCommandEnabled: e.target.checked });
+                }}
+              />
+            </div>
+            {slashCommandEnabled && (
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="slash-command-prefix" className="text-sm font-medium">
+                  {t('slashCommandPrefix')}
+                </Label>
+                <input
+                  id="slash-command-prefix"
+                  type="text"
+                  maxLength={3}
+                  value={slashCommandPrefix}
+                  onChange={(e) => setSlashCommandPrefix(e.target.value.replace(/\s/g, ''))}
+                  onBlur={() => {
+                    const next = slashCommandPrefix || '/';
+                    setSlashCommandPrefix(next);
+                    apply({ slashCommandPrefix: next });
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="bg-background border-border focus:ring-primary/50 w-16 rounded-md border px-2 py-1 text-center font-mono text-sm transition-all focus:ring-2 focus:outline-none"
+                />
+              </div>
+            )}
             <div>
               <Label className="mb-2 block text-sm font-medium">{t('customWebsites')}</Label>
               {/* Gemini Only Notice - moved here since it's about Prompt Manager */}
@@ -1,16 +1,36 @@
 import React, { useCallback, useEffect, useState } from 'react';
 
+import { StorageKeys } from '@/core/types/common';
 import type { FolderData } from '@/core/types/folder';
-import type { PromptItem, SyncMode, SyncPlatform, SyncState } from '@/core/types/sync';
+import type {
+  PromptCollection,
+  PromptItem,
+  SyncMode,
+  SyncPlatform,
+  SyncState,
+} from '@/core/types/sync';
 import { DEFAULT_SYNC_STATE } from '@/core/types/sync';
 import { isSafari } from '@/core/utils/browser';
+import {
+  DEFAULT_ACCOUNT_ID,
+  getAccountIdFromUrl,
+  getFolderStorageKey,
+} from '@/core/utils/geminiAccount';
+import { normalizeTimelineOutline } from '@/pages/content/timeline/outline';
+import type { TimelineOutlineData } from '@/pages/content/timeline/outlineTypes';
 import type { StarredMessagesData } from '@/pages/content/timeline/starredTypes';
 
 import { Button } from '../../../components/ui/button';
 import { Card, CardContent, CardTitle } from '../../../components/ui/card';
 import { Label } from '../../../components/ui/label';
 import { useLanguage } from '../../../contexts/LanguageContext';
-import { mergeFolderData, mergePrompts, mergeStarredMessages } from '../../../utils/merge';
+import {
+  mergeFolderData,
+  mergePromptCollections,
+  mergePrompts,
+  mergeStarredMessages,
+  mergeTimelineOutline,
+} from '../../../utils/merge';
 
 /**
  * CloudSyncSettings component for popup
@@ -41,6 +61,30 @@ export function CloudSyncSettings() {
     return 'gemini';
   }, []);
 
+  // Gemini account whose folder tree the active tab shows; the folder panel can be
+  // switched to another account's tree, so ask the content script before using the URL
+  const detectAccountId = useCallback(async (): Promise<string> => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (tab?.id) {
+        try {
+          const response = (await Promise.race([
+            chrome.tabs.sendMessage(tab.id, { type: 'gv.sync.requestData' }),
+            new Promise((_, reject) => setTimeout(() => reject('Timeout'), 500)),
+          ])) as { accountId?: string } | null;
+          if (response?.accountId) return response.accountId;
+        } catch (e) {
+          // Fall back to the tab URL
+          console.warn('[CloudSyncSettings] Tab account lookup failed:', e);
+        }
+      }
+      return getAccountIdFromUrl(tab?.url) ?? DEFAULT_ACCOUNT_ID;
+    } catch (e) {
+      console.warn('[CloudSyncSettings] Failed to detect account:', e);
+      return DEFAULT_ACCOUNT_ID;
+    }
+  }, []);
+
   // Fetch sync state and detect platform on mount
   useEffect(() => {
     const fetchState = async () => {
@@ -156,6 +200,7 @@ export function CloudSyncSettings() {
       // Get current data - prioritizing active tab content script for folders
       let folders: FolderData = { folders: [], folderContents: {} };
       let prompts: PromptItem[] = [];
+      const accountId = platform === 'gemini' ? await detectAccountId() : DEFAULT_ACCOUNT_ID;
 
       // 1. Try to get fresh folder data from active tab
       try {
@@ -178,8 +223,13 @@ export function CloudSyncSettings() {
 
       // 2. Fallback to storage (use platform-specific storage key)
       try {
-        const folderStorageKey = platform === 'aistudio' ? 'gvFolderDataAIStudio' : 'gvFolderData';
-        const storageResult = await chrome.storage.local.get([folderStorageKey, 'gvPromptItems']);
+        const folderStorageKey =
+          platform === 'aistudio' ? 'gvFolderDataAIStudio' : getFolderStorageKey(accountId);
+        const storageResult = await chrome.storage.local.get([
+          folderStorageKey,
+          'gvPromptItems',
+          StorageKeys.PROMPT_COLLECTIONS,
+        ]);
 
         // Only use storage folders if we didn't get them from tab
         if ((!folders.folders || folders.folders.length === 0) && storageResult[folderStorageKey]) {
@@ -204,7 +254,7 @@ export function CloudSyncSettings() {
       // Upload to Google Drive with platform info
       const response = (await chrome.runtime.sendMessage({
         type: 'gv.sync.upload',
-        payload: { folders, prompts, platform },
+        payload: { folders, prompts, platform, accountId },
       })) as { ok?: boolean; error?: string; state?: SyncState } | undefined;
 
       if (response?.state) {
@@ -223,7 +273,7 @@ export function CloudSyncSettings() {
     } finally {
       setIsUploading(false);
     }
-  }, [t, platform]);
+  }, [t, platform, detectAccountId]);
 
   // Handle download from Drive (restore data) - NOW MERGES instead of overwrite
   const handleDownloadFromDrive = useCallback(async () => {
@@ -231,10 +281,11 @@ export function CloudSyncSettings() {
     setIsDownloading(true);
 
     try {
-      // Download from Google Drive (platform-specific)
+      // Download from Google Drive (platform- and account-specific)
+      const accountId = platform === 'gemini' ? await detectAccountId() : DEFAULT_ACCOUNT_ID;
       const response = (await chrome.runtime.sendMessage({
         type: 'gv.sync.download',
-        payload: { platform },
+        payload: { platform, accountId },
       })) as
         | {
             ok?: boolean;
@@ -242,8 +293,9 @@ export function CloudSyncSettings() {
             state?: SyncState;
             data?: {
               folders?: { data?: FolderData };
-              prompts?: { items?: PromptItem[] };
+              prompts?: { items?: PromptItem[]; collections?: PromptCollection[] };
               starred?: { data?: StarredMessagesData };
+              timelineOutline?: { data?: TimelineOutlineData };
             } | null;
           }
         | undefined;
@@ -265,6 +317,7 @@ export function CloudSyncSettings() {
       // Get current local data for merging - prioritize Content Script
       let localFolders: FolderData = { folders: [], folderContents: {} };
       let localPrompts: PromptItem[] = [];
+      let localCollections: PromptCollection[] = [];
 
       // 1. Try to get fresh folder data from active tab
       try {
@@ -294,7 +347,8 @@ export function CloudSyncSettings() {
 
       // 2. Fallback to storage (use platform-specific storage key)
       try {
-        const folderStorageKey = platform === 'aistudio' ? 'gvFolderDataAIStudio' : 'gvFolderData';
+        const folderStorageKey =
+          platform === 'aistudio' ? 'gvFolderDataAIStudio' : getFolderStorageKey(accountId);
         const storageResult = await chrome.storage.local.get([folderStorageKey, 'gvPromptItems']);
 
         // Only use storage folders if we didn't get them from tab
@@ -310,6 +364,9 @@ export function CloudSyncSettings() {
         if (platform === 'gemini' && storageResult.gvPromptItems) {
           localPrompts = storageResult.gvPromptItems;
         }
+        if (platform === 'gemini' && Array.isArray(storageResult[StorageKeys.PROMPT_COLLECTIONS])) {
+          localCollections = storageResult[StorageKeys.PROMPT_COLLECTIONS] as PromptCollection[];
+        }
       } catch (err) {
         console.error('[CloudSyncSettings] Error loading local data for merge:', err);
       }
@@ -319,10 +376,15 @@ export function CloudSyncSettings() {
         folders: cloudFoldersPayload,
         prompts: cloudPromptsPayload,
         starred: cloudStarredPayload,
+        timelineOutline: cloudOutlinePayload,
       } = response.data;
       const cloudFolderData = cloudFoldersPayload?.data || { folders: [], folderContents: {} };
       const cloudPromptItems = cloudPromptsPayload?.items || [];
       const cloudStarredData: StarredMessagesData = cloudStarredPayload?.data || { messages: {} };
+      const cloudOutline = normalizeTimelineOutline(
+        cloudOutlinePayload?.data?.levels,
+        cloudOutlinePayload?.data?.collapsed,
+      );
 
       console.log('[CloudSyncSettings] === MERGE DEBUG ===');
       console.log('[CloudSyncSettings] Local folders count:', localFolders.folders?.length || 0);
@@ -351,10 +413,30 @@ export function CloudSyncSettings() {
         console.warn('[CloudSyncSettings] Could not get local starred messages:', err);
       }
 
+      // Get local timeline outline (marker levels and collapsed markers) for merge
+      let localOutline = normalizeTimelineOutline(null, null);
+      try {
+        const outlineResult = await chrome.storage.local.get([
+          StorageKeys.TIMELINE_MARKER_LEVELS,
+          StorageKeys.TIMELINE_COLLAPSED_MARKERS,
+        ]);
+        localOutline = normalizeTimelineOutline(
+          outlineResult[StorageKeys.TIMELINE_MARKER_LEVELS],
+          outlineResult[StorageKeys.TIMELINE_COLLAPSED_MARKERS],
+        );
+      } catch (err) {
+        console.warn('[CloudSyncSettings] Could not get local timeline outline:', err);
+      }
+
       // Perform Merge
       const mergedFolders = mergeFolderData(localFolders, cloudFolderData);
       const mergedPrompts = mergePrompts(localPrompts, cloudPromptItems);
+      const mergedCollections = mergePromptCollections(
+        localCollections,
+        cloudPromptsPayload?.collections || [],
+      );
       const mergedStarred = mergeStarredMessages(localStarred, cloudStarredData);
+      const mergedOutline = mergeTimelineOutline(localOutline, cloudOutline);
 
       console.log('[CloudSyncSettings] Merged folders count:', mergedFolders.folders?.length || 0);
       console.log(
@@ -368,15 +450,19 @@ export function CloudSyncSettings() {
       console.log('[CloudSyncSettings] === END MERGE DEBUG ===');
 
       // Save merged data to storage (platform-specific storage key for folders)
-      const folderStorageKey = platform === 'aistudio' ? 'gvFolderDataAIStudio' : 'gvFolderData';
+      const folderStorageKey =
+        platform === 'aistudio' ? 'gvFolderDataAIStudio' : getFolderStorageKey(accountId);
       const storageUpdate: Record<string, unknown> = {
         [folderStorageKey]: mergedFolders,
       };
 
-      // Only save prompts and starred for Gemini platform
+      // Only save prompts, starred and the timeline outline for Gemini platform
       if (platform === 'gemini') {
         storageUpdate.gvPromptItems = mergedPrompts;
+        storageUpdate[StorageKeys.PROMPT_COLLECTIONS] = mergedCollections;
         storageUpdate.geminiTimelineStarredMessages = mergedStarred;
+        storageUpdate[StorageKeys.TIMELINE_MARKER_LEVELS] = mergedOutline.levels;
+        storageUpdate[StorageKeys.TIMELINE_COLLAPSED_MARKERS] = mergedOutline.collapsed;
       }
 
       await chrome.storage.local.set(storageUpdate);
@@ -400,7 +486,7 @@ export function CloudSyncSettings() {
     } finally {
       setIsDownloading(false);
     }
-  }, [t, platform]);
+  }, [t, platform, detectAccountId]);
 
   // Clear status message after 3 seconds
   useEffect(() => {
@@ -4,19 +4,29 @@ import { Card, CardContent, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { keyboardShortcutService } from '@/core/services/KeyboardShortcutService';
-import type {
-  KeyboardShortcutConfig,
-  ModifierKey,
-  ShortcutKey,
+import {
+  findShortcutConflict,
+  keyboardShortcutService,
+  normalizeShortcut,
+} from '@/core/services/KeyboardShortcutService';
+import {
+  type KeyboardShortcutConfig,
+  type ModifierKey,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type ShortcutGroup,
+  type ShortcutKey,
 } from '@/core/types/keyboardShortcut';
+import { SHORTCUT_ACTION_LABEL_KEYS, SHORTCUT_GROUP_LABEL_KEYS } from '@/utils/shortcutLabels';
 
 interface RecordingState {
-  action: 'previous' | 'next' | null;
+  action: ShortcutAction | null;
   modifiers: ModifierKey[];
   key: ShortcutKey | null;
 }
 
+const SHORTCUT_GROUPS: ShortcutGroup[] = ['timeline', 'tools', 'help'];
+
 export function KeyboardShortcutSettings() {
   const { t } = useLanguage();
   const [enabled, setEnabled] = useState<boolean>(true);
@@ -27,6 +37,8 @@ export function KeyboardShortcutSettings() {
     key: null,
   });
   const [loading, setLoading] = useState<boolean>(true);
+  // Action already bound to the key just pressed while recording
+  const [conflict, setConflict] = useState<ShortcutAction | null>(null);
 
   // Use refs to avoid stale closures in event handlers
   const configRef = useRef<KeyboardShortcutConfig | null>(null);
@@ -79,73 +91,96 @@ export function KeyboardShortcutSettings() {
   }, []);
 
   // Start recording shortcut
-  const startRecording = useCallback((action: 'previous' | 'next') => {
+  const startRecording = useCallback((action: ShortcutAction) => {
+    setConflict(null);
     setRecording({ action, modifiers: [], key: null });
   }, []);
 
+  // Save a config, reporting whether it was stored
+  const persistConfig = useCallback(async (updatedConfig: KeyboardShortcutConfig) => {
+    try {
+      await keyboardShortcutService.saveConfig(updatedConfig, enabledRef.current);
+      setConfig(updatedConfig);
+      return true;
+    } catch (error) {
+      console.error('[KeyboardShortcut] Failed to save shortcut:', error);
+      return false;
+    }
+  }, []);
+
+  // Remove the shortcut of an action
+  const clearShortcut = useCallback(
+    async (action: ShortcutAction) => {
+      const currentConfig = configRef.current;
+      if (!currentConfig) return;
+      setConflict(null);
+      setRecording({ action: null, modifiers: [], key: null });
+      await persistConfig({ ...currentConfig, [action]: null });
+    },
+    [persistConfig],
+  );
+
   // Handle key press during recording
-  const handleKeyDown = useCallback(async (e: KeyboardEvent) => {
-    const currentRecording = recordingRef.current;
-    const currentConfig = configRef.current;
-    const currentEnabled = enabledRef.current;
+  const handleKeyDown = useCallback(
+    async (e: KeyboardEvent) => {
+      const currentRecording = recordingRef.current;
+      const currentConfig = configRef.current;
+      const action = currentRecording.action;
 
-    if (!currentRecording.action) return;
+      if (!action) return;
 
-    e.preventDefault();
-    e.stopPropagation();
+      e.preventDefault();
+      e.stopPropagation();
 
-    // Escape cancels recording
-    if (e.key === 'Escape') {
-      setRecording({ action: null, modifiers: [], key: null });
-      return;
-    }
+      // Escape cancels recording
+      if (e.key === 'Escape') {
+        setConflict(null);
+        setRecording({ action: null, modifiers: [], key: null });
+        return;
+      }
 
-    // Ignore modifier keys alone (they can't be shortcuts by themselves)
-    if (['Alt', 'Control', 'Shift', 'Meta', 'AltGraph'].includes(e.key)) {
-      return;
-    }
+      // Ignore modifier keys alone (they can't be shortcuts by themselves)
+      if (['Alt', 'Control', 'Shift', 'Meta', 'AltGraph'].includes(e.key)) {
+        return;
+      }
 
-    // Accept any key! Normalize arrow keys for consistency
-    let key: ShortcutKey;
-    if (e.key === 'Up') {
-      key = 'ArrowUp';
-    } else if (e.key === 'Down') {
-      key = 'ArrowDown';
-    } else if (e.key === 'Left') {
-      key = 'ArrowLeft';
-    } else if (e.key === 'Right') {
-      key = 'ArrowRight';
-    } else {
-      key = e.key;
-    }
+      // Accept any key! Normalize arrow keys for consistency
+      let key: ShortcutKey;
+      if (e.key === 'Up') {
+        key = 'ArrowUp';
+      } else if (e.key === 'Down') {
+        key = 'ArrowDown';
+      } else if (e.key === 'Left') {
+        key = 'ArrowLeft';
+      } else if (e.key === 'Right') {
+        key = 'ArrowRight';
+      } else {
+        key = e.key;
+      }
 
-    // Extract modifiers
-    const modifiers: ModifierKey[] = [];
-    if (e.altKey) modifiers.push('Alt');
-    if (e.ctrlKey) modifiers.push('Ctrl');
-    if (e.shiftKey) modifiers.push('Shift');
-    if (e.metaKey) modifiers.push('Meta');
-
-    // Update config
-    if (!currentConfig) return;
-
-    const updatedConfig: KeyboardShortcutConfig = {
-      ...currentConfig,
-      [currentRecording.action]: {
-        action: `timeline:${currentRecording.action}` as const,
-        modifiers,
-        key,
-      },
-    };
+      // Extract modifiers
+      const modifiers: ModifierKey[] = [];
+      if (e.altKey) modifiers.push('Alt');
+      if (e.ctrlKey) modifiers.push('Ctrl');
+      if (e.shiftKey) modifiers.push('Shift');
+      if (e.metaKey) modifiers.push('Meta');
 
-    try {
-      await keyboardShortcutService.saveConfig(updatedConfig, currentEnabled);
-      setConfig(updatedConfig);
-      setRecording({ action: null, modifiers: [], key: null });
-    } catch (error) {
-      console.error('[KeyboardShortcut] Failed to save shortcut:', error);
-    }
-  }, []);
+      // Update config
+      if (!currentConfig) return;
+
+      const shortcut = normalizeShortcut({ action, modifiers, key });
+
+      // Keep recording so the user can pick another key
+      const conflictingAction = findShortcutConflict(currentConfig, action, shortcut);
+      setConflict(conflictingAction);
+      if (conflictingAction) return;
+
+      if (await persistConfig({ ...currentConfig, [action]: shortcut })) {
+        setRecording({ action: null, modifiers: [], key: null });
+      }
+    },
+    [persistConfig],
+  );
 
   // Attach/detach keydown listener
   useEffect(() => {
@@ -163,6 +198,8 @@ export function KeyboardShortcutSettings() {
       await keyboardShortcutService.resetToDefaults();
       const { config: currentConfig } = keyboardShortcutService.getConfig();
       setConfig(currentConfig);
+      setConflict(null);
+      setRecording({ action: null, modifiers: [], key: null });
     } catch (error) {
       console.error('[KeyboardShortcut] Failed to reset shortcuts:', error);
     }
@@ -186,7 +223,7 @@ export function KeyboardShortcutSettings() {
       <CardTitle className="mb-4 text-xs tracking-wide uppercase">
         {t('keyboardShortcuts')}
       </CardTitle>
-      <CardContent className="space-y-6 p-0">
+      <CardContent className="space-y-4 p-0">
         {/* Enable/Disable Toggle */}
         <div className="flex items-center justify-between">
           <Label htmlFor="shortcuts-enabled" className="cursor-pointer text-sm font-medium">
@@ -202,50 +239,65 @@ export function KeyboardShortcutSettings() {
         {/* Shortcut Configuration */}
         {enabled && (
           <>
-            <div className="grid grid-cols-2 gap-4 pt-2">
-              {/* Previous Node */}
-              <div className="space-y-2">
-                <Label className="text-muted-foreground text-xs font-medium">
-                  {t('previousNode')}
-                </Label>
-                <button
-                  type="button"
-                  onClick={() => startRecording('previous')}
-                  className={`flex w-full items-center justify-center rounded-lg border-2 px-4 py-3 font-mono text-sm font-semibold transition-all ${
-                    recording.action === 'previous'
-                      ? 'border-primary bg-primary/5 text-primary animate-pulse'
-                      : 'border-border hover:border-primary/50 hover:bg-accent'
-                  } `}
-                >
-                  {recording.action === 'previous'
-                    ? 'Press key...'
-                    : keyboardShortcutService.formatShortcut(config.previous)}
-                </button>
+            {SHORTCUT_GROUPS.map((group) => (
+              <div key={group} className="space-y-2">
+                <p className="text-muted-foreground text-xs font-semibold tracking-wide uppercase">
+                  {t(SHORTCUT_GROUP_LABEL_KEYS[group])}
+                </p>
+                {SHORTCUT_ACTIONS.filter((item) => item.group === group).map(({ action }) => {
+                  const shortcut = config[action];
+                  const isRecording = recording.action === action;
+                  return (
+                    <div key={action} className="flex items-center justify-between gap-2">
+                      <Label className="text-muted-foreground text-xs font-medium">
+                        {t(SHORTCUT_ACTION_LABEL_KEYS[action])}
+                      </Label>
+                      <div className="flex shrink-0 items-center gap-1">
+                        <button
+                          type="button"
+                          onClick={() => startRecording(action)}
+                          className={`min-w-[88px] rounded-lg border-2 px-3 py-1.5 font-mono text-xs font-semibold transition-all ${
+                            isRecording
+                              ? 'border-primary bg-primary/5 text-primary animate-pulse'
+                              : 'border-border hover:border-primary/50 hover:bg-accent'
+                          } ${!shortcut && !isRecording ? 'text-muted-foreground font-normal' : ''}`}
+                        >
+                          {isRecording
+                            ? t('shortcutPressKey')
+                            : shortcut
+                              ? keyboardShortcutService.formatShortcut(shortcut)
+                              : t('shortcutNotSet')}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => clearShortcut(action)}
+                          disabled={!shortcut}
+                          title={t('shortcutClear')}
+                          aria-label={t('shortcutClear')}
+                          className="text-muted-foreground hover:text-foreground px-1 text-sm disabled:invisible"
+                        >
+                          ×
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
-
-              {/* Next Node */}
-              <div className="space-y-2">
-                <Label className="text-muted-foreground text-xs font-medium">{t('nextNode')}</Label>
-                <button
-                  type="button"
-                  onClick={() => startRecording('next')}
-                  className={`flex w-full items-center justify-center rounded-lg border-2 px-4 py-3 font-mono text-sm font-semibold transition-all ${
-                    recording.action === 'next'
-                      ? 'border-primary bg-primary/5 text-primary animate-pulse'
-                      : 'border-border hover:border-primary/50 hover:bg-accent'
-                  } `}
-                >
-                  {recording.action === 'next'
-                    ? 'Press key...'
-                    : keyboardShortcutService.formatShortcut(config.next)}
-                </button>
-              </div>
-            </div>
+            ))}
 
             {/* Hint text */}
             {recording.action && (
-              <p className="text-muted-foreground animate-in fade-in text-center text-xs">
-                Press Esc to cancel
+              <p
+                className={`animate-in fade-in text-center text-xs ${
+                  conflict ? 'text-destructive' : 'text-muted-foreground'
+                }`}
+              >
+                {conflict
+                  ? t('shortcutConflict').replace(
+                      '{action}',
+                      t(SHORTCUT_ACTION_LABEL_KEYS[conflict]),
+                    )
+                  : t('shortcutPressEscToCancel')}
               </p>
             )}
 
@@ -98,27 +98,37 @@ export function StarredHistory({ onClose }: StarredHistoryProps) {
           <h1 className="from-primary to-primary/70 bg-linear-to-r bg-clip-text text-xl font-bold text-transparent">
             {t('starredHistory')}
           </h1>
-          <Button
-            onClick={onClose}
-            variant="ghost"
-            size="icon"
-            className="hover:bg-primary/10 h-8 w-8 rounded-full"
-          >
-            <svg
-              width="20"
-              height="20"
-              viewBox="0 0 20 20"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+          <div className="flex items-center gap-1">
+            <Button
+              onClick={() => void chrome.runtime.openOptionsPage()}
+              variant="ghost"
+              size="sm"
+              className="hover:bg-primary/10 h-8 rounded-full px-3 text-xs"
             >
-              <path
-                d="M15 5L5 15M5 5l10 10"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-              />
-            </svg>
-          </Button>
+              {t('openStarredLibrary')}
+            </Button>
+            <Button
+              onClick={onClose}
+              variant="ghost"
+              size="icon"
+              className="hover:bg-primary/10 h-8 w-8 rounded-full"
+            >
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M15 5L5 15M5 5l10 10"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                />
+              </svg>
+            </Button>
+          </div>
         </div>
       </div>
 
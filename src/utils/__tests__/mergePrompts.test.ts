@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PromptCollection, PromptItem } from '@/core/types/sync';
+
+import { mergePromptCollections, mergePrompts } from '../merge';
+
+function prompt(id: string, text: string, extras: Partial<PromptItem> = {}): PromptItem {
+  return { id, text, tags: [], createdAt: 1000, ...extras };
+}
+
+describe('mergePrompts', () => {
+  it('should keep prompts that only exist on one side', () => {
+    const result = mergePrompts([prompt('a', 'local')], [prompt('b', 'cloud')]);
+    expect(result.map((p) => p.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should prefer the newer copy of the same prompt', () => {
+    const local = [prompt('a', 'old', { updatedAt: 2000 })];
+    const cloud = [prompt('a', 'new', { updatedAt: 3000 })];
+    expect(mergePrompts(local, cloud)[0].text).toBe('new');
+  });
+
+  it('should keep the older copy in revision history', () => {
+    const local = [prompt('a', 'edited on laptop', { updatedAt: 2000 })];
+    const cloud = [
+      prompt('a', 'edited on desktop', {
+        updatedAt: 3000,
+        history: [{ text: 'original', tags: [], savedAt: 1500 }],
+      }),
+    ];
+    const [merged] = mergePrompts(local, cloud);
+    expect(merged.text).toBe('edited on desktop');
+    expect(merged.history?.map((r) => r.text)).toEqual(['original', 'edited on laptop']);
+  });
+
+  it('should not add history when both copies are identical', () => {
+    const item = prompt('a', 'same', { updatedAt: 2000 });
+    const [merged] = mergePrompts([item], [{ ...item }]);
+    expect(merged.history).toBeUndefined();
+  });
+
+  it('should keep the highest usage statistics from either side', () => {
+    const local = [prompt('a', 'x', { updatedAt: 3000, usageCount: 2, lastUsedAt: 5000 })];
+    const cloud = [prompt('a', 'x', { updatedAt: 2000, usageCount: 7, lastUsedAt: 4000 })];
+    const [merged] = mergePrompts(local, cloud);
+    expect(merged).toMatchObject({ usageCount: 7, lastUsedAt: 5000, updatedAt: 3000 });
+  });
+
+  it('should take collection and pin state from the newer copy and keep tags', () => {
+    const local = [prompt('a', 'x', { tags: ['work'], updatedAt: 2000 })];
+    const cloud = [
+      prompt('a', 'x', { tags: ['work'], collectionId: 'c1', pinned: true, updatedAt: 3000 }),
+    ];
+    const [merged] = mergePrompts(local, cloud);
+    expect(merged).toMatchObject({ tags: ['work'], collectionId: 'c1', pinned: true });
+  });
+});
+
+describe('mergePromptCollections', () => {
+  function collection(id: string, extras: Partial<PromptCollection> = {}): PromptCollection {
+    return {
+      id,
+      name: id,
+      parentId: null,
+      isExpanded: true,
+      createdAt: 1000,
+      updatedAt: 1000,
+      ...extras,
+    };
+  }
+
+  it('should union collections and prefer the newer copy', () => {
+    const local = [collection('a', { name: 'old', updatedAt: 2000 }), collection('b')];
+    const cloud = [collection('a', { name: 'new', updatedAt: 3000 }), collection('c')];
+    const merged = mergePromptCollections(local, cloud);
+    expect(merged.map((c) => c.id).sort()).toEqual(['a', 'b', 'c']);
+    expect(merged.find((c) => c.id === 'a')?.name).toBe('new');
+  });
+
+  it('should repair parents that point at missing collections', () => {
+    const merged = mergePromptCollections([collection('a', { parentId: 'missing' })], []);
+    expect(merged[0].parentId).toBeNull();
+  });
+});
@@ -226,4 +226,77 @@ describe('mergeStarredMessages', () => {
     // Local should win when timestamps are equal
     expect(result.messages.conv1[0].content).toBe('Local message');
   });
+
+  it('should merge turn annotations, preferring the newer one', () => {
+    const local = {
+      messages: {},
+      annotations: {
+        conv1: {
+          turn1: { label: 'Local', color: 'red' as const, updatedAt: 2000 },
+          turn2: { label: 'Old local', color: null, updatedAt: 1000 },
+        },
+      },
+    };
+    const cloud = {
+      messages: {},
+      annotations: {
+        conv1: {
+          turn1: { label: 'Cloud', color: 'blue' as const, updatedAt: 1000 },
+          turn2: { label: 'New cloud', color: null, updatedAt: 3000 },
+        },
+        conv2: { turn9: { label: '', color: 'green' as const, updatedAt: 500 } },
+      },
+    };
+
+    const result = mergeStarredMessages(local, cloud);
+
+    expect(result.annotations).toEqual({
+      conv1: {
+        turn1: { label: 'Local', color: 'red', updatedAt: 2000 },
+        turn2: { label: 'New cloud', color: null, updatedAt: 3000 },
+      },
+      conv2: { turn9: { label: '', color: 'green', updatedAt: 500 } },
+    });
+  });
+
+  it('should keep the newer note and text only one side captured', () => {
+    const base = {
+      turnId: 'turn1',
+      content: 'Hello',
+      conversationId: 'conv1',
+      conversationUrl: 'https://gemini.google.com/app/conv1',
+      starredAt: 1000,
+    };
+    const local = {
+      messages: { conv1: [{ ...base, userText: 'Hello there', note: 'Old', noteUpdatedAt: 10 }] },
+    };
+    const cloud = {
+      messages: {
+        conv1: [{ ...base, responseText: 'Hi!', note: 'New', noteUpdatedAt: 20 }],
+      },
+    };
+
+    const result = mergeStarredMessages(local, cloud);
+
+    expect(result.messages.conv1).toEqual([
+      { ...base, userText: 'Hello there', responseText: 'Hi!', note: 'New', noteUpdatedAt: 20 },
+    ]);
+  });
+
+  it('should keep a newer cleared annotation over an older label', () => {
+    const cleared = { label: '', color: null, updatedAt: 2000 };
+    const local = { messages: {}, annotations: { conv1: { turn1: cleared } } };
+    const cloud = {
+      messages: {},
+      annotations: { conv1: { turn1: { label: 'Stale', color: 'red' as const, updatedAt: 1000 } } },
+    };
+
+    expect(mergeStarredMessages(local, cloud).annotations).toEqual({ conv1: { turn1: cleared } });
+    expect(mergeStarredMessages(cloud, local).annotations).toEqual({ conv1: { turn1: cleared } });
+  });
+
+  it('should omit annotations when neither side has any', () => {
+    const result = mergeStarredMessages({ messages: {} }, { messages: {} });
+    expect(result).not.toHaveProperty('annotations');
+  });
 });
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TimelineOutlineData } from '@/pages/content/timeline/outlineTypes';
+
+import { mergeTimelineOutline } from '../merge';
+
+function createOutline(overrides: Partial<TimelineOutlineData> = {}): TimelineOutlineData {
+  return { levels: {}, collapsed: {}, ...overrides };
+}
+
+describe('mergeTimelineOutline', () => {
+  it('keeps conversations that exist on only one side', () => {
+    const local = createOutline({ levels: { a: { levels: { 'u-1': 2 }, updatedAt: 1 } } });
+    const cloud = createOutline({ collapsed: { b: { turnIds: ['u-3'], updatedAt: 2 } } });
+
+    expect(mergeTimelineOutline(local, cloud)).toEqual({
+      levels: { a: { levels: { 'u-1': 2 }, updatedAt: 1 } },
+      collapsed: { b: { turnIds: ['u-3'], updatedAt: 2 } },
+    });
+  });
+
+  it('keeps the newer copy of each conversation as a whole', () => {
+    const local = createOutline({
+      levels: { a: { levels: { 'u-1': 2 }, updatedAt: 10 } },
+      collapsed: { a: { turnIds: ['u-1'], updatedAt: 1 } },
+    });
+    const cloud = createOutline({
+      levels: { a: { levels: { 'u-2': 3 }, updatedAt: 5 } },
+      collapsed: { a: { turnIds: [], updatedAt: 8 } },
+    });
+
+    const merged = mergeTimelineOutline(local, cloud);
+    expect(merged.levels.a).toEqual({ levels: { 'u-1': 2 }, updatedAt: 10 });
+    // An empty entry is a newer clear and wins over older collapsed markers
+    expect(merged.collapsed.a).toEqual({ turnIds: [], updatedAt: 8 });
+  });
+
+  it('prefers local on equal timestamps', () => {
+    const local = createOutline({ levels: { a: { levels: { 'u-1': 2 }, updatedAt: 5 } } });
+    const cloud = createOutline({ levels: { a: { levels: { 'u-1': 3 }, updatedAt: 5 } } });
+
+    expect(mergeTimelineOutline(local, cloud).levels.a.levels).toEqual({ 'u-1': 2 });
+  });
+});
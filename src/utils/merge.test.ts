@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
 import type { ConversationId, FolderId } from '@/core/types/common';
-import type { ConversationReference, Folder, FolderData } from '@/core/types/folder';
+import type { ConversationReference, Folder, FolderData, SmartFolder } from '@/core/types/folder';
 
 import { mergeFolderData } from './merge';
 
@@ -33,6 +33,19 @@ function createConvo(
   };
 }
 
+// Helper to create test smart folder
+function createSmartFolder(id: string, name: string, updatedAt: number): SmartFolder {
+  return {
+    id: id as FolderId,
+    name,
+    rules: [{ type: 'starred' }],
+    match: 'all',
+    isExpanded: false,
+    createdAt: 1000,
+    updatedAt,
+  };
+}
+
 // Helper to create test folder data
 function createFolderData(
   folders: Folder[],
@@ -141,4 +154,104 @@ describe('mergeFolderData', () => {
       expect(result.folderContents.f1.map((c) => c.conversationId).sort()).toEqual(['c1', 'c2']);
     });
   });
+
+  describe('conversation tags and notes', () => {
+    it('should take tags and note from the more recently updated copy', () => {
+      const local = createFolderData([createFolder('f1', 'Folder', 1000)], {
+        f1: [createConvo('c1', 'Chat', 1000, { tagIds: ['t1'], note: 'local', updatedAt: 3000 })],
+      });
+      const cloud = createFolderData([createFolder('f1', 'Folder', 1000)], {
+        f1: [createConvo('c1', 'Chat', 1000, { updatedAt: 2000 })],
+      });
+
+      const result = mergeFolderData(local, cloud);
+
+      expect(result.folderContents.f1[0]).toMatchObject({ tagIds: ['t1'], note: 'local' });
+    });
+
+    it('should let a newer cloud copy clear local tags and note', () => {
+      const local = createFolderData([createFolder('f1', 'Folder', 1000)], {
+        f1: [createConvo('c1', 'Chat', 1000, { tagIds: ['t1'], note: 'old', updatedAt: 1000 })],
+      });
+      const cloud = createFolderData([createFolder('f1', 'Folder', 1000)], {
+        f1: [createConvo('c1', 'Chat', 1000, { updatedAt: 2000 })],
+      });
+
+      const result = mergeFolderData(local, cloud);
+
+      expect(result.folderContents.f1[0]).not.toHaveProperty('tagIds');
+      expect(result.folderContents.f1[0]).not.toHaveProperty('note');
+    });
+
+    it('should merge tag definitions, preferring the newer copy', () => {
+      const tag = (id: string, name: string, updatedAt: number) => ({
+        id,
+        name,
+        color: 'blue',
+        createdAt: 1000,
+        updatedAt,
+      });
+      const local = { ...createFolderData([], {}), tags: [tag('t1', 'Old', 1000)] };
+      const cloud = {
+        ...createFolderData([], {}),
+        tags: [tag('t1', 'Renamed', 2000), tag('t2', 'Cloud', 1000)],
+      };
+
+      const result = mergeFolderData(local, cloud);
+
+      expect(result.tags?.map((t) => t.name).sort()).toEqual(['Cloud', 'Renamed']);
+    });
+  });
+
+  describe('smart folders', () => {
+    it('should keep smart folders from both sides and prefer the newer copy', () => {
+      const local = {
+        ...createFolderData([], {}),
+        smartFolders: [
+          createSmartFolder('s1', 'Old name', 1000),
+          createSmartFolder('s2', 'Local', 1000),
+        ],
+      };
+      const cloud = {
+        ...createFolderData([], {}),
+        smartFolders: [
+          createSmartFolder('s1', 'New name', 2000),
+          createSmartFolder('s3', 'Cloud', 1000),
+        ],
+      };
+
+      const result = mergeFolderData(local, cloud);
+
+      expect(result.smartFolders?.map((f) => f.id).sort()).toEqual(['s1', 's2', 's3']);
+      expect(result.smartFolders?.find((f) => f.id === 's1')?.name).toBe('New name');
+    });
+
+    it('should return an empty list when neither side has smart folders', () => {
+      const result = mergeFolderData(createFolderData([], {}), createFolderData([], {}));
+      expect(result.smartFolders).toEqual([]);
+    });
+  });
+
+  describe('trash', () => {
+    it('should not bring back an entry the other side deleted for good', () => {
+      const entry = {
+        id: 'trash_1',
+        type: 'conversation' as const,
+        deletedAt: 1000,
+        folderId: 'f1',
+        conversation: createConvo('c1', 'Old chat', 500),
+      };
+      const local: FolderData = {
+        ...createFolderData([], {}),
+        trash: [],
+        purgedTrash: { trash_1: 2000 },
+      };
+      const cloud: FolderData = { ...createFolderData([], {}), trash: [entry] };
+
+      for (const result of [mergeFolderData(local, cloud), mergeFolderData(cloud, local)]) {
+        expect(result.trash).toEqual([]);
+        expect(result.purgedTrash).toEqual({ trash_1: 2000 });
+      }
+    });
+  });
 });
@@ -1,7 +1,14 @@
 import type { ConversationReference, FolderData } from '@/core/types/folder';
-import type { PromptItem } from '@/core/types/sync';
+import type { PromptCollection, PromptItem } from '@/core/types/sync';
+import { mergePromptHistory } from '@/core/utils/promptHistory';
+import { normalizePromptCollections } from '@/core/utils/promptLibrary';
 import type { ForkNode, ForkNodesData } from '@/pages/content/fork/forkTypes';
-import type { StarredMessage, StarredMessagesData } from '@/pages/content/timeline/starredTypes';
+import type { TimelineOutlineData } from '@/pages/content/timeline/outlineTypes';
+import type {
+  StarredMessage,
+  StarredMessagesData,
+  TurnAnnotation,
+} from '@/pages/content/timeline/starredTypes';
 
 /**
  * Merges two lists of items based on ID and updatedAt timestamp.
@@ -80,35 +87,106 @@ export function mergeFolderData(local: FolderData, cloud: FolderData): FolderDat
         convoMap.set(c.conversationId, c);
       } else {
         // Merge: cloud properties override, but keep local-only properties
-        convoMap.set(c.conversationId, {
+        const merged: ConversationReference = {
           ...existing, // Keep any local-only properties
           ...c, // Cloud overrides (title, customTitle, etc.)
           // Preserve starred if set locally but not in cloud
           starred: c.starred ?? existing.starred,
-        });
+        };
+        // Tags and note follow the copy edited last, so clearing them on one device sticks
+        const annotated = (existing.updatedAt || 0) > (c.updatedAt || 0) ? existing : c;
+        delete merged.tagIds;
+        delete merged.note;
+        if (annotated.tagIds) merged.tagIds = annotated.tagIds;
+        if (annotated.note) merged.note = annotated.note;
+        convoMap.set(c.conversationId, merged);
       }
     });
 
     mergedContents[folderId] = Array.from(convoMap.values());
   });
 
+  // 3. Merge smart folders (rules are replaced wholesale by the newer copy)
+  const mergedSmartFolders = mergeItems(local.smartFolders || [], cloud.smartFolders || []);
+
+  // 4. Merge conversation tag definitions (a tag's name/colour follows the newer copy)
+  const mergedTags = mergeItems(local.tags || [], cloud.tags || []);
+
+  // 5. Merge trash entries (immutable, so this is a union by id), leaving out entries
+  // either side restored or deleted for good
+  const purgedTrash = mergePurgedTrash(local.purgedTrash, cloud.purgedTrash);
+  const mergedTrash = mergeItems(local.trash || [], cloud.trash || []).filter(
+    (entry) => !(entry.id in purgedTrash),
+  );
+
   return {
     folders: mergedFolders,
     folderContents: mergedContents,
+    smartFolders: mergedSmartFolders,
+    tags: mergedTags,
+    trash: mergedTrash,
+    purgedTrash,
   };
 }
 
+/**
+ * Union of two purge records, keeping the later time of each id
+ */
+export function mergePurgedTrash(
+  local: Record<string, number> | undefined,
+  cloud: Record<string, number> | undefined,
+): Record<string, number> {
+  const merged = { ...local };
+  Object.entries(cloud || {}).forEach(([id, purgedAt]) => {
+    merged[id] = Math.max(merged[id] ?? 0, purgedAt);
+  });
+  return merged;
+}
+
 /**
  * Merges local and cloud prompts.
+ * The newer copy of each prompt wins (content, tags, collection, pin); revision histories
+ * from both sides are combined and usage statistics keep the highest values.
  */
 export function mergePrompts(local: PromptItem[], cloud: PromptItem[]): PromptItem[] {
-  return mergeItems(local, cloud);
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const cloudById = new Map(cloud.map((item) => [item.id, item]));
+
+  return mergeItems(local, cloud).map((item) => {
+    const localItem = localById.get(item.id);
+    const cloudItem = cloudById.get(item.id);
+    if (!localItem || !cloudItem) return item;
+
+    const other = item === localItem ? cloudItem : localItem;
+    const merged: PromptItem = { ...item };
+    const history = mergePromptHistory(item, other);
+    if (history.length > 0) merged.history = history;
+
+    // Usage is tracked without bumping updatedAt, so take the larger value from either side
+    const usageCount = Math.max(item.usageCount || 0, other.usageCount || 0);
+    const lastUsedAt = Math.max(item.lastUsedAt || 0, other.lastUsedAt || 0);
+    if (usageCount > 0) merged.usageCount = usageCount;
+    if (lastUsedAt > 0) merged.lastUsedAt = lastUsedAt;
+    return merged;
+  });
+}
+
+/**
+ * Merges local and cloud prompt collections.
+ * Prefers the newer copy of each collection and repairs dangling parents or cycles.
+ */
+export function mergePromptCollections(
+  local: PromptCollection[],
+  cloud: PromptCollection[],
+): PromptCollection[] {
+  return normalizePromptCollections(mergeItems(local, cloud));
 }
 
 /**
  * Merges local and cloud starred messages.
  * Uses turnId as the unique key within each conversation.
  * Prefers the message with the newer starredAt timestamp when duplicates exist.
+ * Turn annotations stored alongside are merged the same way using updatedAt.
  */
 export function mergeStarredMessages(
   local: StarredMessagesData,
@@ -146,10 +224,12 @@ export function mergeStarredMessages(
         messageMap.set(localMsg.turnId, localMsg);
       } else {
         // Conflict: compare starredAt timestamps
-        if (localMsg.starredAt >= existingMsg.starredAt) {
-          messageMap.set(localMsg.turnId, localMsg);
-        }
-        // If cloud is newer, keep cloud (already in map)
+        // If cloud is newer, keep cloud; notes and captured text are merged separately
+        const [winner, other] =
+          localMsg.starredAt >= existingMsg.starredAt
+            ? [localMsg, existingMsg]
+            : [existingMsg, localMsg];
+        messageMap.set(localMsg.turnId, mergeStarredMessageDetails(winner, other));
       }
     });
 
@@ -160,7 +240,53 @@ export function mergeStarredMessages(
     }
   });
 
-  return { messages: mergedMessages };
+  const mergedAnnotations = mergeTurnAnnotations(local?.annotations, cloud?.annotations);
+  return Object.keys(mergedAnnotations).length > 0
+    ? { messages: mergedMessages, annotations: mergedAnnotations }
+    : { messages: mergedMessages };
+}
+
+/**
+ * Keep the newer note and any full turn text only the other copy captured
+ */
+function mergeStarredMessageDetails(winner: StarredMessage, other: StarredMessage): StarredMessage {
+  const merged: StarredMessage = { ...winner };
+  if ((other.noteUpdatedAt ?? 0) > (winner.noteUpdatedAt ?? 0)) {
+    if (other.note) {
+      merged.note = other.note;
+    } else {
+      delete merged.note;
+    }
+    merged.noteUpdatedAt = other.noteUpdatedAt;
+  }
+  if (!merged.userText && other.userText) merged.userText = other.userText;
+  if (!merged.responseText && other.responseText) merged.responseText = other.responseText;
+  return merged;
+}
+
+function mergeTurnAnnotations(
+  local: StarredMessagesData['annotations'],
+  cloud: StarredMessagesData['annotations'],
+): Record<string, Record<string, TurnAnnotation>> {
+  const merged: Record<string, Record<string, TurnAnnotation>> = {};
+
+  const addAll = (source: StarredMessagesData['annotations']) => {
+    Object.entries(source || {}).forEach(([conversationId, annotations]) => {
+      Object.entries(annotations || {}).forEach(([turnId, annotation]) => {
+        if (!annotation) return;
+        const target = (merged[conversationId] ??= {});
+        const existing = target[turnId];
+        if (!existing || (annotation.updatedAt ?? 0) >= (existing.updatedAt ?? 0)) {
+          target[turnId] = annotation;
+        }
+      });
+    });
+  };
+
+  // Cloud first so local wins on equal timestamps, as with starred messages
+  addAll(cloud);
+  addAll(local);
+  return merged;
 }
 
 /**
@@ -222,3 +348,32 @@ export function mergeForkNodes(local: ForkNodesData, cloud: ForkNodesData): Fork
 
   return { nodes: mergedNodes, groups: mergedGroups };
 }
+
+/**
+ * Merges local and cloud timeline outlines (marker levels and collapsed markers).
+ * Each conversation's levels and collapsed markers are kept as a whole from the copy
+ * with the newer updatedAt; local wins on equal timestamps.
+ */
+export function mergeTimelineOutline(
+  local: TimelineOutlineData,
+  cloud: TimelineOutlineData,
+): TimelineOutlineData {
+  const pickNewer = <T extends { updatedAt: number }>(
+    localEntries: Record<string, T> = {},
+    cloudEntries: Record<string, T> = {},
+  ): Record<string, T> => {
+    const merged: Record<string, T> = { ...cloudEntries };
+    Object.entries(localEntries).forEach(([conversationId, entry]) => {
+      const existing = merged[conversationId];
+      if (!existing || entry.updatedAt >= existing.updatedAt) {
+        merged[conversationId] = entry;
+      }
+    });
+    return merged;
+  };
+
+  return {
+    levels: pickNewer(local?.levels, cloud?.levels),
+    collapsed: pickNewer(local?.collapsed, cloud?.collapsed),
+  };
+}
@@ -0,0 +1,26 @@
+import type { ShortcutAction, ShortcutGroup } from '@/core/types/keyboardShortcut';
+
+import type { TranslationKey } from './translations';
+
+/**
+ * Translation keys of shortcut action labels, shared by the popup settings and the cheat sheet
+ */
+export const SHORTCUT_ACTION_LABEL_KEYS: Record<ShortcutAction, TranslationKey> = {
+  'timeline:previous': 'previousNode',
+  'timeline:next': 'nextNode',
+  'timeline:top': 'shortcutTimelineTop',
+  'timeline:bottom': 'shortcutTimelineBottom',
+  'timeline:toggleStar': 'shortcutToggleStar',
+  'prompt:togglePanel': 'shortcutTogglePromptPanel',
+  'export:open': 'shortcutOpenExport',
+  'fork:currentTurn': 'shortcutForkCurrentTurn',
+  'folder:focusSearch': 'shortcutFocusFolderSearch',
+  'quote:selection': 'shortcutQuoteSelection',
+  'help:cheatSheet': 'shortcutShowCheatSheet',
+};
+
+export const SHORTCUT_GROUP_LABEL_KEYS: Record<ShortcutGroup, TranslationKey> = {
+  timeline: 'shortcutGroupTimeline',
+  tools: 'shortcutGroupTools',
+  help: 'shortcutGroupHelp',
+};
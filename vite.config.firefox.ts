@@ -2,6 +2,7 @@ import { ManifestV3Export, crx } from '@crxjs/vite-plugin';
 import { resolve } from 'path';
 import { defineConfig, mergeConfig } from 'vite';
 
+import manifest from './manifest.json';
 import baseConfig, { baseBuildOptions, baseManifest } from './vite.config.base';
 
 const outDir = resolve(__dirname, 'dist_firefox');
@@ -26,6 +27,14 @@ export default mergeConfig(
             scripts: ['src/pages/background/index.ts'],
             type: 'module',
           },
+          // Firefox shows the side panel page as a sidebar and has no sidePanel permission
+          permissions: manifest.permissions.filter((permission) => permission !== 'sidePanel'),
+          sidebar_action: {
+            default_panel: 'src/pages/panel/index.html',
+            default_title: '__MSG_extName__',
+            default_icon: 'icon-32.png',
+            open_at_install: false,
+          },
         } as unknown as ManifestV3Export,
         browser: 'firefox',
         contentScripts: {
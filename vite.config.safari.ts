@@ -2,6 +2,7 @@ import { ManifestV3Export, crx } from '@crxjs/vite-plugin';
 import { resolve } from 'path';
 import { defineConfig, mergeConfig } from 'vite';
 
+import manifest from './manifest.json';
 import baseConfig, { baseBuildOptions, baseManifest } from './vite.config.base';
 
 const outDir = resolve(__dirname, 'dist_safari');
@@ -11,6 +12,11 @@ const outDir = resolve(__dirname, 'dist_safari');
 // Default: 'false' (disabled)
 const enableSafariUpdateCheck = process.env.ENABLE_SAFARI_UPDATE_CHECK === 'true';
 
+// Safari has no side panel; the popup already hides its button there
+const { side_panel: _sidePanel, ...safariManifest } = baseManifest as ManifestV3Export & {
+  side_panel?: unknown;
+};
+
 export default mergeConfig(
   baseConfig,
   defineConfig({
@@ -21,8 +27,9 @@ export default mergeConfig(
     plugins: [
       crx({
         manifest: {
-          ...baseManifest,
+          ...safariManifest,
           // Safari-specific adjustments
+          permissions: manifest.permissions.filter((permission) => permission !== 'sidePanel'),
           background: {
             // Safari supports both service_worker and scripts
             // Using scripts for better compatibility